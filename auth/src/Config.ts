@@ -43,7 +43,30 @@ export const config = {
       // Fallback to symmetric key if RSA keys aren't available
       secret: process.env.JWT_SECRET || 'replace-this-with-a-secure-secret-in-production',
       algorithm: privateKey && publicKey ? 'RS256' : 'HS256',
-      expiresIn: process.env.JWT_EXPIRES_IN || '1d',
+      expiresIn: process.env.JWT_EXPIRES_IN || '15m',
       refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
    },
+
+   // Outgoing mail, 'smtp' in production, 'file' or 'console' to read the mails locally
+   mail: {
+      transport: process.env.MAIL_TRANSPORT || 'console',
+      from: process.env.MAIL_FROM || 'Titan Blast <no-reply@titan-blast.local>',
+      smtp: {
+         host: process.env.SMTP_HOST || 'localhost',
+         port: Number(process.env.SMTP_PORT || 587),
+         secure: process.env.SMTP_SECURE === 'true',
+         user: process.env.SMTP_USER,
+         pass: process.env.SMTP_PASS,
+      },
+      // Where the file transport writes its .eml files
+      fileDir: process.env.MAIL_FILE_DIR || './data/mail',
+   },
+
+   // Match results submitted by game servers
+   matchResults: {
+      // Shared with the game servers, which sign every submission with it
+      secret: process.env.MATCH_RESULT_SECRET || 'replace-this-with-a-shared-secret-in-production',
+      // Submissions signed longer ago than this are rejected as replays
+      maxAgeMs: Number(process.env.MATCH_RESULT_MAX_AGE_MS || 5 * 60 * 1000),
+   },
 };
@@ -6,8 +6,10 @@ import { config } from './Config';
 import { createTables } from './db/DatabaseSetup';
 import { configurePassport } from './PassportConfig';
 import { authController } from './controllers/AuthController';
+import { leaderboardController } from './controllers/LeaderboardController';
 import { securityHeaders } from './middleware/SecurityHeadersMiddleware';
 import { apiRateLimiter } from './middleware/RateLimitMiddleware';
+import { captureRawBody } from './middleware/ServerSignatureMiddleware';
 
 // Create Express app with all routes configured
 export function createApp(): Express {
@@ -23,7 +25,7 @@ export function createApp(): Express {
    app.use(apiRateLimiter);
 
    // Configure middleware
-   app.use(express.json());
+   app.use(express.json({ verify: captureRawBody }));
    app.use(
       cors({
          origin: config.clientUrls,
@@ -37,6 +39,7 @@ export function createApp(): Express {
 
    // Register auth routes
    app.use('/auth', authController);
+   app.use('/auth/leaderboard', leaderboardController);
 
    app.use((err, req, res, next) => {
       console.error('Unhandled error:', err);
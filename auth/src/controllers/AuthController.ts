@@ -3,14 +3,27 @@ import { NextFunction, Request, Response, Router } from 'express';
 import passport from 'passport';
 import { userService } from '../services/UserService';
 import { tokenService } from '../services/TokenService';
+import { refreshTokenService } from '../services/RefreshTokenService';
 import { authenticate, AuthenticatedRequest } from '../middleware/AuthMiddleware';
 import { validateRequest } from '../middleware/ValidationMiddleware';
-import { ipRateLimiter, accountRateLimiter } from '../middleware/RateLimitMiddleware';
 import {
+   ipRateLimiter,
+   accountRateLimiter,
+   emailRateLimiter,
+} from '../middleware/RateLimitMiddleware';
+import { verifyServerSignature } from '../middleware/ServerSignatureMiddleware';
+import {
+   changePasswordSchema,
+   emailTokenSchema,
+   forgotPasswordSchema,
    gameTokenSchema,
    guestConversionSchema,
    loginSchema,
+   matchResultSchema,
+   recentMatchesQuerySchema,
+   refreshTokenSchema,
    registerSchema,
+   resetPasswordSchema,
 } from '../validation/Schemas';
 
 const router = Router();
@@ -32,8 +45,7 @@ router.post(
          });
 
          // Generate tokens
-         const token = tokenService.generateAuthToken(user);
-         const refreshToken = tokenService.generateRefreshToken(user);
+         const { token, refreshToken } = refreshTokenService.issueTokens(user);
 
          return res.status(201).json({
             message: 'Registration successful',
@@ -68,8 +80,7 @@ router.post(
          }
 
          // Generate tokens
-         const token = tokenService.generateAuthToken(user);
-         const refreshToken = tokenService.generateRefreshToken(user);
+         const { token, refreshToken } = refreshTokenService.issueTokens(user);
 
          return res.json({
             message: 'Login successful',
@@ -86,41 +97,169 @@ router.post(
    },
 );
 
-// Token refresh route
-router.post('/refresh', ipRateLimiter, async (req: Request, res: Response) => {
+// Token refresh route, every refresh token is exchanged for a new one and can't be used again
+router.post(
+   '/refresh',
+   ipRateLimiter,
+   validateRequest(refreshTokenSchema),
+   (req: Request, res: Response) => {
+      try {
+         const result = refreshTokenService.rotate(req.body.refreshToken);
+
+         if ('error' in result) {
+            return res.status(401).json({ message: result.error });
+         }
+
+         return res.json(result.tokens);
+      } catch {
+         return res.status(500).json({ message: 'Error refreshing token' });
+      }
+   },
+);
+
+// End the session the refresh token belongs to
+router.post('/logout', validateRequest(refreshTokenSchema), (req: Request, res: Response) => {
    try {
-      const { refreshToken } = req.body;
+      refreshTokenService.revokeSession(req.body.refreshToken);
 
-      if (!refreshToken) {
-         return res.status(400).json({ message: 'Refresh token is required' });
+      return res.json({ message: 'Logged out' });
+   } catch {
+      return res.status(500).json({ message: 'Error logging out' });
+   }
+});
+
+// End every session of the signed in user
+router.post('/logout-all', authenticate, (req: Request, res: Response) => {
+   const authReq = req as AuthenticatedRequest;
+
+   if (authReq.jwtPayload!.isGuest || authReq.jwtPayload!.id <= 0) {
+      return res.status(403).json({ message: 'Guests have no sessions to end' });
+   }
+
+   try {
+      refreshTokenService.revokeAllSessions(authReq.jwtPayload!.id);
+
+      return res.json({ message: 'Logged out everywhere' });
+   } catch (error) {
+      return res.status(500).json({ message: 'Error logging out' });
+   }
+});
+
+// Change the password of the signed in user, which ends every other session
+router.post(
+   '/password',
+   authenticate,
+   validateRequest(changePasswordSchema),
+   async (req: Request, res: Response) => {
+      const authReq = req as AuthenticatedRequest;
+
+      if (authReq.jwtPayload!.isGuest || authReq.jwtPayload!.id <= 0) {
+         return res.status(403).json({ message: 'Guests have no password' });
+      }
+
+      try {
+         const { currentPassword, newPassword } = req.body;
+         const user = await userService.changePassword(
+            authReq.jwtPayload!.id,
+            currentPassword,
+            newPassword,
+         );
+
+         const { token, refreshToken } = refreshTokenService.issueTokens(user);
+
+         return res.json({ message: 'Password changed', token, refreshToken });
+      } catch (error) {
+         return res.status(400).json({
+            message: error instanceof Error ? error.message : 'Error changing password',
+         });
       }
+   },
+);
 
-      // Verify refresh token
-      const decoded = tokenService.verifyToken<{ id: number; username: string }>(refreshToken);
+// Mail the signed in user a new link to verify their email
+router.post(
+   '/verify-email/send',
+   authenticate,
+   emailRateLimiter,
+   async (req: Request, res: Response) => {
+      const authReq = req as AuthenticatedRequest;
 
-      if (!decoded) {
-         return res.status(401).json({ message: 'Invalid or expired refresh token' });
+      if (authReq.jwtPayload!.isGuest || authReq.jwtPayload!.id <= 0) {
+         return res.status(403).json({ message: 'Guests have no email to verify' });
       }
 
-      // Get user from database
-      const user = userService.findById(decoded.id);
+      const user = userService.findById(authReq.jwtPayload!.id);
 
       if (!user) {
-         return res.status(401).json({ message: 'User not found' });
+         return res.status(404).json({ message: 'User not found' });
       }
 
-      // Generate new tokens
-      const newToken = tokenService.generateAuthToken(user);
-      const newRefreshToken = tokenService.generateRefreshToken(user);
+      try {
+         await userService.sendVerificationEmail(user);
+
+         return res.json({ message: 'Verification email sent' });
+      } catch (error) {
+         return res.status(400).json({
+            message: error instanceof Error ? error.message : 'Error sending verification email',
+         });
+      }
+   },
+);
 
-      return res.json({
-         token: newToken,
-         refreshToken: newRefreshToken,
-      });
-   } catch (error) {
-      return res.status(500).json({ message: 'Error refreshing token' });
-   }
-});
+// Verify an email with the token from the verification mail
+router.post(
+   '/verify-email',
+   ipRateLimiter,
+   validateRequest(emailTokenSchema),
+   (req: Request, res: Response) => {
+      if (!userService.verifyEmail(req.body.token)) {
+         return res.status(400).json({ message: 'Invalid or expired token' });
+      }
+
+      return res.json({ message: 'Email verified' });
+   },
+);
+
+// Mail a password reset link, the response is the same whether the account exists or not
+router.post(
+   '/forgot-password',
+   ipRateLimiter,
+   validateRequest(forgotPasswordSchema),
+   emailRateLimiter,
+   (req: Request, res: Response) => {
+      try {
+         userService.requestPasswordReset(req.body.email);
+
+         return res.json({
+            message: 'If an account uses this email, a password reset link is on its way',
+         });
+      } catch (error) {
+         console.error(error);
+         return res.status(500).json({ message: 'Error requesting password reset' });
+      }
+   },
+);
+
+// Set a new password with the token from a password reset mail
+router.post(
+   '/reset-password',
+   ipRateLimiter,
+   validateRequest(resetPasswordSchema),
+   async (req: Request, res: Response) => {
+      try {
+         const { token, password } = req.body;
+
+         if (!(await userService.resetPassword(token, password))) {
+            return res.status(400).json({ message: 'Invalid or expired token' });
+         }
+
+         return res.json({ message: 'Password reset, sign in with the new password' });
+      } catch (error) {
+         console.error(error);
+         return res.status(500).json({ message: 'Error resetting password' });
+      }
+   },
+);
 
 // JWT verification route
 router.get('/verify', authenticate, (req: Request, res: Response) => {
@@ -192,8 +331,7 @@ router.post(
          });
 
          // Generate new tokens
-         const newToken = tokenService.generateAuthToken(user);
-         const refreshToken = tokenService.generateRefreshToken(user);
+         const { token: newToken, refreshToken } = refreshTokenService.issueTokens(user);
 
          return res.json({
             message: 'Guest account converted successfully',
@@ -243,4 +381,57 @@ router.post(
    },
 );
 
+// Match results submitted by a game server at the end of a run
+router.post(
+   '/matches',
+   verifyServerSignature,
+   validateRequest(matchResultSchema),
+   (req: Request, res: Response) => {
+      try {
+         const recorded = userService.submitMatchResults(req.body);
+
+         return res.json({ message: 'Match results recorded', recorded });
+      } catch (error) {
+         console.error(error);
+         return res.status(500).json({ message: 'Error recording match results' });
+      }
+   },
+);
+
+// Profile of the signed in user with lifetime stats and personal bests
+router.get('/profile', authenticate, (req: Request, res: Response) => {
+   const authReq = req as AuthenticatedRequest;
+
+   if (authReq.jwtPayload!.isGuest || authReq.jwtPayload!.id <= 0) {
+      return res.status(403).json({ message: 'Guests have no profile' });
+   }
+
+   const profile = userService.getProfile(authReq.jwtPayload!.id);
+
+   if (!profile) {
+      return res.status(404).json({ message: 'User not found' });
+   }
+
+   return res.json({ profile });
+});
+
+// Most recent matches of the signed in user
+router.get('/profile/matches', authenticate, (req: Request, res: Response) => {
+   const authReq = req as AuthenticatedRequest;
+
+   if (authReq.jwtPayload!.isGuest || authReq.jwtPayload!.id <= 0) {
+      return res.status(403).json({ message: 'Guests have no match history' });
+   }
+
+   const query = recentMatchesQuerySchema.safeParse(req.query);
+
+   if (!query.success) {
+      return res.status(400).json({ message: 'Invalid limit' });
+   }
+
+   const matches = userService.getRecentMatches(authReq.jwtPayload!.id, query.data.limit);
+
+   return res.json({ matches });
+});
+
 export const authController = router;
@@ -0,0 +1,59 @@
+// auth/src/controllers/LeaderboardController.ts
+import { Request, Response, Router } from 'express';
+import { AuthenticatedRequest, optionalAuthenticate } from '../middleware/AuthMiddleware';
+import { leaderboardService } from '../services/LeaderboardService';
+import { leaderboardKeySchema, leaderboardQuerySchema } from '../validation/Schemas';
+
+const router = Router();
+
+/**
+ * Validate the query and the board's key, then send the requested page. Guests and anonymous callers
+ * see the board without an entry of their own
+ */
+function sendLeaderboard(
+   req: Request,
+   res: Response,
+   board: { playerClass?: string; mapId?: string } = {},
+) {
+   const query = leaderboardQuerySchema.safeParse(req.query);
+
+   if (!query.success) {
+      return res.status(400).json({ message: 'Invalid leaderboard query' });
+   }
+
+   const key = board.playerClass ?? board.mapId;
+
+   if (key !== undefined && !leaderboardKeySchema.safeParse(key).success) {
+      return res.status(400).json({ message: 'Invalid leaderboard' });
+   }
+
+   const payload = (req as AuthenticatedRequest).jwtPayload;
+
+   try {
+      const leaderboard = leaderboardService.getLeaderboard({
+         ...query.data,
+         ...board,
+         userId: payload && !payload.isGuest ? payload.id : undefined,
+      });
+
+      return res.json({ leaderboard });
+   } catch (error) {
+      console.error(error);
+      return res.status(500).json({ message: 'Error loading leaderboard' });
+   }
+}
+
+// Every player's best score, all-time or this week
+router.get('/', optionalAuthenticate, (req: Request, res: Response) => sendLeaderboard(req, res));
+
+// Best scores played as one player class
+router.get('/class/:playerClass', optionalAuthenticate, (req: Request, res: Response) =>
+   sendLeaderboard(req, res, { playerClass: req.params.playerClass }),
+);
+
+// Best scores played on one map
+router.get('/map/:mapId', optionalAuthenticate, (req: Request, res: Response) =>
+   sendLeaderboard(req, res, { mapId: req.params.mapId }),
+);
+
+export const leaderboardController = router;
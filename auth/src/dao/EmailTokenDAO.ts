@@ -0,0 +1,74 @@
+// auth/src/dao/EmailTokenDAO.ts
+import { getDb } from '../db/DatabaseSetup';
+import { EmailToken, EmailTokenPurpose } from '../models/EmailToken';
+
+export class EmailTokenDAO {
+   /**
+    * Store a new token, replacing the user's earlier tokens of the same purpose so only the latest
+    * mail's link works
+    */
+   create(tokenHash: string, token: Omit<EmailToken, 'id' | 'usedAt'>): void {
+      const db = getDb();
+
+      db.prepare('BEGIN TRANSACTION').run();
+
+      try {
+         db.prepare('DELETE FROM email_tokens WHERE user_id = ? AND purpose = ?').run(
+            token.userId,
+            token.purpose,
+         );
+
+         db.prepare(
+            `
+                INSERT INTO email_tokens (token_hash, user_id, purpose, email, expires_at, created_at)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `,
+         ).run(
+            tokenHash,
+            token.userId,
+            token.purpose,
+            token.email,
+            token.expiresAt,
+            token.createdAt,
+         );
+
+         db.prepare('COMMIT').run();
+      } catch (error) {
+         db.prepare('ROLLBACK').run();
+         throw error;
+      }
+   }
+
+   /**
+    * Use up a token that is unused and not expired yet
+    * @returns The token, null if there is no such token or it can't be used anymore
+    */
+   consume(tokenHash: string, purpose: EmailTokenPurpose, timestamp: number): EmailToken | null {
+      const db = getDb();
+      const row = db
+         .prepare(
+            `
+                UPDATE email_tokens SET used_at = ?
+                WHERE token_hash = ? AND purpose = ? AND used_at IS NULL AND expires_at > ?
+                RETURNING *
+            `,
+         )
+         .get(timestamp, tokenHash, purpose, timestamp);
+
+      return row ? this.mapRowToToken(row) : null;
+   }
+
+   private mapRowToToken(row: any): EmailToken {
+      return {
+         id: row.id,
+         userId: row.user_id,
+         purpose: row.purpose,
+         email: row.email,
+         expiresAt: row.expires_at,
+         createdAt: row.created_at,
+         usedAt: row.used_at,
+      };
+   }
+}
+
+export const emailTokenDAO = new EmailTokenDAO();
@@ -0,0 +1,148 @@
+// auth/src/dao/LeaderboardDAO.ts
+import { getDb } from '../db/DatabaseSetup';
+import { LeaderboardEntry, LeaderboardFilter } from '../models/Leaderboard';
+
+interface RankedQuery {
+   sql: string;
+   params: (string | number)[];
+}
+
+export class LeaderboardDAO {
+   /**
+    * One page of the leaderboard, best first
+    */
+   getEntries(filter: LeaderboardFilter, limit: number, offset: number): LeaderboardEntry[] {
+      const db = getDb();
+      const ranked = this.buildRankedQuery(filter);
+      const rows = db
+         .prepare(`${ranked.sql} SELECT * FROM ranked ORDER BY rank, user_id LIMIT ? OFFSET ?`)
+         .all(...ranked.params, limit, offset);
+
+      return rows.map((row) => this.mapRowToEntry(row));
+   }
+
+   /**
+    * A single player's entry, ranked against everyone on the board
+    */
+   getEntry(filter: LeaderboardFilter, userId: number): LeaderboardEntry | null {
+      const db = getDb();
+      const ranked = this.buildRankedQuery(filter);
+      const row = db
+         .prepare(`${ranked.sql} SELECT * FROM ranked WHERE user_id = ?`)
+         .get(...ranked.params, userId);
+
+      return row ? this.mapRowToEntry(row) : null;
+   }
+
+   /**
+    * Number of players on the leaderboard
+    */
+   countPlayers(filter: LeaderboardFilter): number {
+      const db = getDb();
+
+      if (this.isUnfiltered(filter)) {
+         const row: any = db
+            .prepare('SELECT COUNT(*) AS total FROM personal_bests WHERE user_id > 0')
+            .get();
+         return row.total;
+      }
+
+      const where = this.buildMatchFilter(filter);
+      const row: any = db
+         .prepare(`SELECT COUNT(DISTINCT user_id) AS total FROM match_history WHERE ${where.sql}`)
+         .get(...where.params);
+
+      return row.total;
+   }
+
+   /**
+    * CTE named ranked with every player's best score on the board and their rank. The all-time board
+    * reads the personal bests kept per user, narrower boards group the matching match history rows
+    */
+   private buildRankedQuery(filter: LeaderboardFilter): RankedQuery {
+      if (this.isUnfiltered(filter)) {
+         return {
+            sql: `
+               WITH ranked AS (
+                  SELECT pb.user_id, pb.best_score, pb.best_wave, ps.matches_played,
+                         u.username, u.display_name,
+                         RANK() OVER (ORDER BY pb.best_score DESC) AS rank
+                  FROM personal_bests pb
+                  JOIN users u ON u.id = pb.user_id
+                  JOIN player_stats ps ON ps.user_id = pb.user_id
+                  WHERE pb.user_id > 0
+               )
+            `,
+            params: [],
+         };
+      }
+
+      const where = this.buildMatchFilter(filter);
+
+      return {
+         sql: `
+            WITH best AS (
+               SELECT user_id, MAX(score) AS best_score, MAX(waves_survived) AS best_wave,
+                      COUNT(*) AS matches_played
+               FROM match_history
+               WHERE ${where.sql}
+               GROUP BY user_id
+            ),
+            ranked AS (
+               SELECT best.*, u.username, u.display_name,
+                      RANK() OVER (ORDER BY best.best_score DESC) AS rank
+               FROM best
+               JOIN users u ON u.id = best.user_id
+            )
+         `,
+         params: where.params,
+      };
+   }
+
+   /**
+    * WHERE clause over match_history for the filter, guests never rank even if a row slipped in
+    */
+   private buildMatchFilter(filter: LeaderboardFilter): RankedQuery {
+      const conditions = ['user_id > 0'];
+      const params: (string | number)[] = [];
+
+      if (filter.since !== undefined) {
+         conditions.push('played_at >= ?');
+         params.push(filter.since);
+      }
+
+      if (filter.playerClass !== undefined) {
+         conditions.push('player_class = ?');
+         params.push(filter.playerClass);
+      }
+
+      if (filter.mapId !== undefined) {
+         conditions.push('map_id = ?');
+         params.push(filter.mapId);
+      }
+
+      return { sql: conditions.join(' AND '), params };
+   }
+
+   private isUnfiltered(filter: LeaderboardFilter): boolean {
+      return (
+         filter.since === undefined &&
+         filter.playerClass === undefined &&
+         filter.mapId === undefined
+      );
+   }
+
+   private mapRowToEntry(row: any): LeaderboardEntry {
+      return {
+         rank: row.rank,
+         userId: row.user_id,
+         username: row.username,
+         displayName: row.display_name,
+         bestScore: row.best_score,
+         bestWave: row.best_wave,
+         matchesPlayed: row.matches_played,
+      };
+   }
+}
+
+export const leaderboardDAO = new LeaderboardDAO();
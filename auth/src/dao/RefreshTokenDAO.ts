@@ -0,0 +1,95 @@
+// auth/src/dao/RefreshTokenDAO.ts
+import { getDb } from '../db/DatabaseSetup';
+import { StoredRefreshToken } from '../models/RefreshToken';
+
+export class RefreshTokenDAO {
+   /**
+    * Store a newly issued refresh token
+    */
+   create(token: Omit<StoredRefreshToken, 'usedAt' | 'revokedAt'>): void {
+      const db = getDb();
+      db.prepare(
+         `
+             INSERT INTO refresh_tokens (id, family_id, user_id, token_version, expires_at, created_at)
+             VALUES (?, ?, ?, ?, ?, ?)
+         `,
+      ).run(
+         token.id,
+         token.familyId,
+         token.userId,
+         token.tokenVersion,
+         token.expiresAt,
+         token.createdAt,
+      );
+   }
+
+   /**
+    * Find a refresh token by ID
+    */
+   findById(id: string): StoredRefreshToken | null {
+      const db = getDb();
+      const row = db.prepare('SELECT * FROM refresh_tokens WHERE id = ?').get(id);
+      return row ? this.mapRowToToken(row) : null;
+   }
+
+   /**
+    * Mark the token as exchanged for its successor
+    * @returns False if the token was already used or revoked, so two requests can't both rotate it
+    */
+   markUsed(id: string, timestamp: number): boolean {
+      const db = getDb();
+      const result = db
+         .prepare(
+            'UPDATE refresh_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL AND revoked_at IS NULL',
+         )
+         .run(timestamp, id);
+
+      return result.changes === 1;
+   }
+
+   /**
+    * Revoke every token of a family, which ends the session it was issued for
+    */
+   revokeFamily(familyId: string, timestamp: number): void {
+      const db = getDb();
+      db.prepare(
+         'UPDATE refresh_tokens SET revoked_at = ? WHERE family_id = ? AND revoked_at IS NULL',
+      ).run(timestamp, familyId);
+   }
+
+   /**
+    * Revoke every token issued to a user, which ends all of their sessions
+    */
+   revokeAllForUser(userId: number, timestamp: number): void {
+      const db = getDb();
+      db.prepare(
+         'UPDATE refresh_tokens SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL',
+      ).run(timestamp, userId);
+   }
+
+   /**
+    * Forget a user's tokens that expired, they can't be used or reused anymore
+    */
+   deleteExpired(userId: number, timestamp: number): void {
+      const db = getDb();
+      db.prepare('DELETE FROM refresh_tokens WHERE user_id = ? AND expires_at <= ?').run(
+         userId,
+         timestamp,
+      );
+   }
+
+   private mapRowToToken(row: any): StoredRefreshToken {
+      return {
+         id: row.id,
+         familyId: row.family_id,
+         userId: row.user_id,
+         tokenVersion: row.token_version,
+         expiresAt: row.expires_at,
+         createdAt: row.created_at,
+         usedAt: row.used_at,
+         revokedAt: row.revoked_at,
+      };
+   }
+}
+
+export const refreshTokenDAO = new RefreshTokenDAO();
@@ -1,6 +1,13 @@
 // auth/src/dao/UserDAO.ts
 import { getDb } from '../db/DatabaseSetup';
 import { User } from '../models/User';
+import {
+   LifetimeStats,
+   MatchPlayerResult,
+   MatchRecord,
+   MatchResultSubmission,
+   PersonalBests,
+} from '../models/PlayerStats';
 
 export class UserDAO {
    /**
@@ -33,7 +40,7 @@ export class UserDAO {
    /**
     * Create a new user in the database
     */
-   createUser(user: Omit<User, 'id'>): User {
+   createUser(user: Omit<User, 'id' | 'tokenVersion' | 'emailVerifiedAt'>): User {
       const db = getDb();
 
       db.prepare('BEGIN TRANSACTION').run();
@@ -61,6 +68,8 @@ export class UserDAO {
          const createdUser = {
             ...user,
             id: userId,
+            tokenVersion: 0,
+            emailVerifiedAt: null,
          };
 
          db.prepare('COMMIT').run();
@@ -94,6 +103,188 @@ export class UserDAO {
       }
    }
 
+   /**
+    * Mark the user's email as verified, unless it changed since the verification mail was sent
+    * @returns False if the user's email is no longer the verified one
+    */
+   markEmailVerified(userId: number, email: string, timestamp: number): boolean {
+      const db = getDb();
+      const result = db
+         .prepare('UPDATE users SET email_verified_at = ? WHERE id = ? AND email = ?')
+         .run(timestamp, userId, email);
+
+      return result.changes === 1;
+   }
+
+   /**
+    * Invalidate every refresh token issued to the user so far
+    * @returns The user's new token version
+    */
+   incrementTokenVersion(userId: number): number {
+      const db = getDb();
+      const row: any = db
+         .prepare(
+            'UPDATE users SET token_version = token_version + 1 WHERE id = ? RETURNING token_version',
+         )
+         .get(userId);
+
+      return row.token_version;
+   }
+
+   /**
+    * Store one user's result of a finished match and add it to their lifetime stats and personal bests
+    * @returns False if this match was already recorded for the user
+    */
+   recordMatchResult(match: MatchResultSubmission, player: MatchPlayerResult): boolean {
+      const db = getDb();
+      const now = Date.now();
+
+      db.prepare('BEGIN TRANSACTION').run();
+
+      try {
+         const inserted = db
+            .prepare(
+               `
+                   INSERT OR IGNORE INTO match_history (match_id, game_id, user_id, player_class, waves_survived,
+                                                        kills, score, deaths, revives, duration_ms, played_at,
+                                                        map_id)
+                   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+               `,
+            )
+            .run(
+               match.matchId,
+               match.gameId,
+               player.userId,
+               player.playerClass,
+               match.wavesReached,
+               player.kills,
+               player.score,
+               player.deaths,
+               player.revives,
+               match.durationMs,
+               match.endedAt,
+               match.mapId,
+            );
+
+         if (inserted.changes === 0) {
+            db.prepare('ROLLBACK').run();
+            return false;
+         }
+
+         db.prepare(
+            `
+                INSERT INTO player_stats (user_id, matches_played, total_kills, total_score, total_deaths,
+                                          total_revives, total_waves_survived, total_play_time_ms, updated_at)
+                VALUES (?, 1, ?, ?, ?, ?, ?, ?, ?)
+                ON CONFLICT (user_id) DO UPDATE SET
+                   matches_played = matches_played + 1,
+                   total_kills = total_kills + excluded.total_kills,
+                   total_score = total_score + excluded.total_score,
+                   total_deaths = total_deaths + excluded.total_deaths,
+                   total_revives = total_revives + excluded.total_revives,
+                   total_waves_survived = total_waves_survived + excluded.total_waves_survived,
+                   total_play_time_ms = total_play_time_ms + excluded.total_play_time_ms,
+                   updated_at = excluded.updated_at
+            `,
+         ).run(
+            player.userId,
+            player.kills,
+            player.score,
+            player.deaths,
+            player.revives,
+            match.wavesReached,
+            player.survivedMs,
+            now,
+         );
+
+         db.prepare(
+            `
+                INSERT INTO personal_bests (user_id, best_score, best_wave, best_kills, longest_survival_ms, updated_at)
+                VALUES (?, ?, ?, ?, ?, ?)
+                ON CONFLICT (user_id) DO UPDATE SET
+                   best_score = MAX(best_score, excluded.best_score),
+                   best_wave = MAX(best_wave, excluded.best_wave),
+                   best_kills = MAX(best_kills, excluded.best_kills),
+                   longest_survival_ms = MAX(longest_survival_ms, excluded.longest_survival_ms),
+                   updated_at = excluded.updated_at
+            `,
+         ).run(player.userId, player.score, match.wavesReached, player.kills, player.survivedMs, now);
+
+         db.prepare('COMMIT').run();
+         return true;
+      } catch (error) {
+         db.prepare('ROLLBACK').run();
+         throw error;
+      }
+   }
+
+   /**
+    * Lifetime stats of a user, all zero for a user who has not finished a match yet
+    */
+   getLifetimeStats(userId: number): LifetimeStats {
+      const db = getDb();
+      const row: any = db.prepare('SELECT * FROM player_stats WHERE user_id = ?').get(userId);
+
+      return {
+         userId,
+         matchesPlayed: row?.matches_played ?? 0,
+         totalKills: row?.total_kills ?? 0,
+         totalScore: row?.total_score ?? 0,
+         totalDeaths: row?.total_deaths ?? 0,
+         totalRevives: row?.total_revives ?? 0,
+         totalWavesSurvived: row?.total_waves_survived ?? 0,
+         totalPlayTimeMs: row?.total_play_time_ms ?? 0,
+         updatedAt: row?.updated_at ?? 0,
+      };
+   }
+
+   /**
+    * Personal bests of a user, all zero for a user who has not finished a match yet
+    */
+   getPersonalBests(userId: number): PersonalBests {
+      const db = getDb();
+      const row: any = db.prepare('SELECT * FROM personal_bests WHERE user_id = ?').get(userId);
+
+      return {
+         userId,
+         bestScore: row?.best_score ?? 0,
+         bestWave: row?.best_wave ?? 0,
+         bestKills: row?.best_kills ?? 0,
+         longestSurvivalMs: row?.longest_survival_ms ?? 0,
+         updatedAt: row?.updated_at ?? 0,
+      };
+   }
+
+   /**
+    * A user's most recent matches, newest first
+    */
+   getRecentMatches(userId: number, limit: number): MatchRecord[] {
+      const db = getDb();
+      const rows = db
+         .prepare('SELECT * FROM match_history WHERE user_id = ? ORDER BY played_at DESC, id DESC LIMIT ?')
+         .all(userId, limit);
+
+      return rows.map((row) => this.mapRowToMatch(row));
+   }
+
+   private mapRowToMatch(row: any): MatchRecord {
+      return {
+         id: row.id,
+         matchId: row.match_id,
+         gameId: row.game_id,
+         mapId: row.map_id,
+         userId: row.user_id,
+         playerClass: row.player_class,
+         wavesSurvived: row.waves_survived,
+         kills: row.kills,
+         score: row.score,
+         deaths: row.deaths,
+         revives: row.revives,
+         durationMs: row.duration_ms,
+         playedAt: row.played_at,
+      };
+   }
+
    /**
     * Helper function to map database row to User object
     */
@@ -107,6 +298,8 @@ export class UserDAO {
          passwordHash: row.password_hash,
          createdAt: row.created_at,
          lastActive: row.last_active,
+         tokenVersion: row.token_version,
+         emailVerifiedAt: row.email_verified_at,
       };
    }
 }
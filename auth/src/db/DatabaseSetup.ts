@@ -36,13 +36,119 @@ export function createTables(): void {
       display_name TEXT NOT NULL,
       avatar TEXT,
       created_at INTEGER NOT NULL,
-      last_active INTEGER NOT NULL
+      last_active INTEGER NOT NULL,
+      token_version INTEGER NOT NULL DEFAULT 0,
+      email_verified_at INTEGER
     )
   `);
 
+   // Single-use tokens sent by email, only their hash is stored
+   db.exec(`
+    CREATE TABLE IF NOT EXISTS email_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      token_hash TEXT UNIQUE NOT NULL,
+      user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+      purpose TEXT NOT NULL,
+      email TEXT NOT NULL,
+      expires_at INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      used_at INTEGER
+    )
+  `);
+
+   // Issued refresh tokens, each use replaces the token with a new one of the same family
+   db.exec(`
+    CREATE TABLE IF NOT EXISTS refresh_tokens (
+      id TEXT PRIMARY KEY,
+      family_id TEXT NOT NULL,
+      user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+      token_version INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      used_at INTEGER,
+      revoked_at INTEGER
+    )
+  `);
+
+   // Lifetime totals, one row per user who finished a match
+   db.exec(`
+    CREATE TABLE IF NOT EXISTS player_stats (
+      user_id INTEGER PRIMARY KEY REFERENCES users (id) ON DELETE CASCADE,
+      matches_played INTEGER NOT NULL DEFAULT 0,
+      total_kills INTEGER NOT NULL DEFAULT 0,
+      total_score INTEGER NOT NULL DEFAULT 0,
+      total_deaths INTEGER NOT NULL DEFAULT 0,
+      total_revives INTEGER NOT NULL DEFAULT 0,
+      total_waves_survived INTEGER NOT NULL DEFAULT 0,
+      total_play_time_ms INTEGER NOT NULL DEFAULT 0,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+   // One row per user per match, a match is only recorded once per user
+   db.exec(`
+    CREATE TABLE IF NOT EXISTS match_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      match_id TEXT NOT NULL,
+      game_id TEXT NOT NULL,
+      user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+      player_class TEXT NOT NULL,
+      waves_survived INTEGER NOT NULL,
+      kills INTEGER NOT NULL,
+      score INTEGER NOT NULL,
+      deaths INTEGER NOT NULL,
+      revives INTEGER NOT NULL,
+      duration_ms INTEGER NOT NULL,
+      played_at INTEGER NOT NULL,
+      map_id TEXT NOT NULL DEFAULT 'unknown',
+      UNIQUE (match_id, user_id)
+    )
+  `);
+
+   db.exec(`
+    CREATE TABLE IF NOT EXISTS personal_bests (
+      user_id INTEGER PRIMARY KEY REFERENCES users (id) ON DELETE CASCADE,
+      best_score INTEGER NOT NULL DEFAULT 0,
+      best_wave INTEGER NOT NULL DEFAULT 0,
+      best_kills INTEGER NOT NULL DEFAULT 0,
+      longest_survival_ms INTEGER NOT NULL DEFAULT 0,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+   // Databases created before these columns existed get them with their defaults
+   addColumnIfMissing(db, 'users', 'token_version', 'INTEGER NOT NULL DEFAULT 0');
+   addColumnIfMissing(db, 'users', 'email_verified_at', 'INTEGER');
+   addColumnIfMissing(db, 'match_history', 'map_id', `TEXT NOT NULL DEFAULT 'unknown'`);
+
    // Create indices for performance
    db.exec(`
     CREATE INDEX IF NOT EXISTS idx_users_username ON users (username);
     CREATE INDEX IF NOT EXISTS idx_users_email ON users (email);
+    CREATE INDEX IF NOT EXISTS idx_match_history_user ON match_history (user_id, played_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family ON refresh_tokens (family_id);
+    CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user ON refresh_tokens (user_id, expires_at);
+    CREATE INDEX IF NOT EXISTS idx_email_tokens_user ON email_tokens (user_id, purpose);
+  `);
+
+   // Leaderboard indices, each board groups its matches by user and keeps the best score
+   db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_personal_bests_score ON personal_bests (best_score DESC);
+    CREATE INDEX IF NOT EXISTS idx_match_history_played ON match_history (played_at, user_id, score);
+    CREATE INDEX IF NOT EXISTS idx_match_history_class ON match_history (player_class, user_id, score);
+    CREATE INDEX IF NOT EXISTS idx_match_history_map ON match_history (map_id, user_id, score);
   `);
 }
+
+function addColumnIfMissing(
+   db: Database.Database,
+   table: string,
+   column: string,
+   definition: string,
+): void {
+   const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+
+   if (!columns.some((existing) => existing.name === column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+   }
+}
@@ -0,0 +1,11 @@
+// auth/src/mail/ConsoleMailer.ts
+import { Mailer, MailMessage } from './Mailer';
+
+/**
+ * Logs every mail instead of sending it, the default when no transport is configured
+ */
+export class ConsoleMailer implements Mailer {
+   async send(message: MailMessage): Promise<void> {
+      console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+   }
+}
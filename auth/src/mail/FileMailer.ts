@@ -0,0 +1,35 @@
+// auth/src/mail/FileMailer.ts
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Mailer, MailMessage } from './Mailer';
+
+/**
+ * Writes every mail to its own .eml file instead of sending it, for local development and tests.
+ * Any mail client opens the files
+ */
+export class FileMailer implements Mailer {
+   private sequence = 0;
+
+   constructor(
+      private readonly from: string,
+      private readonly directory: string,
+   ) {}
+
+   async send(message: MailMessage): Promise<void> {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+
+      // Sorting the names sorts the mails by when they were sent
+      const fileName = `${Date.now()}-${String(this.sequence++).padStart(4, '0')}.eml`;
+      const contents = [
+         `From: ${this.from}`,
+         `To: ${message.to}`,
+         `Subject: ${message.subject}`,
+         `Date: ${new Date().toUTCString()}`,
+         'Content-Type: text/plain; charset=utf-8',
+         '',
+         message.text,
+      ].join('\r\n');
+
+      await fs.promises.writeFile(path.join(this.directory, fileName), contents, 'utf8');
+   }
+}
@@ -0,0 +1,56 @@
+// auth/src/mail/MailTemplates.ts
+import { config } from '../Config';
+import { MailMessage } from './Mailer';
+
+const formatHours = (ms: number) => {
+   const hours = Math.round(ms / (60 * 60 * 1000));
+   return hours === 1 ? '1 hour' : `${hours} hours`;
+};
+
+/**
+ * Link into the client, which picks the token up from the query
+ */
+const clientLink = (parameter: string, token: string) =>
+   `${config.clientUrl}/?${parameter}=${encodeURIComponent(token)}`;
+
+export function verificationMail(
+   to: string,
+   displayName: string,
+   token: string,
+   ttlMs: number,
+): MailMessage {
+   return {
+      to,
+      subject: 'Verify your Titan Blast email',
+      text: [
+         `Hi ${displayName},`,
+         '',
+         'Confirm this is your email address by opening the link below:',
+         clientLink('verify-email', token),
+         '',
+         `The link works once and expires in ${formatHours(ttlMs)}.`,
+         "If you didn't create a Titan Blast account, you can ignore this mail.",
+      ].join('\n'),
+   };
+}
+
+export function passwordResetMail(
+   to: string,
+   displayName: string,
+   token: string,
+   ttlMs: number,
+): MailMessage {
+   return {
+      to,
+      subject: 'Reset your Titan Blast password',
+      text: [
+         `Hi ${displayName},`,
+         '',
+         'Someone asked to reset the password of your account. Choose a new one here:',
+         clientLink('reset-password', token),
+         '',
+         `The link works once and expires in ${formatHours(ttlMs)}. Resetting signs you out everywhere.`,
+         "If you didn't ask for this, you can ignore this mail, your password stays the same.",
+      ].join('\n'),
+   };
+}
@@ -0,0 +1,15 @@
+// auth/src/mail/Mailer.ts
+
+export interface MailMessage {
+   to: string;
+   subject: string;
+   text: string;
+   html?: string;
+}
+
+/**
+ * Sends mail to users. The transport is picked by config, see createMailer
+ */
+export interface Mailer {
+   send(message: MailMessage): Promise<void>;
+}
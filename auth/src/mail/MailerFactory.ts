@@ -0,0 +1,24 @@
+// auth/src/mail/MailerFactory.ts
+import { config } from '../Config';
+import { ConsoleMailer } from './ConsoleMailer';
+import { FileMailer } from './FileMailer';
+import { Mailer } from './Mailer';
+import { SmtpMailer } from './SmtpMailer';
+
+/**
+ * Mailer for the configured transport
+ */
+export function createMailer(mailConfig: typeof config.mail = config.mail): Mailer {
+   switch (mailConfig.transport) {
+      case 'smtp':
+         return new SmtpMailer(mailConfig.from, mailConfig.smtp);
+      case 'file':
+         return new FileMailer(mailConfig.from, mailConfig.fileDir);
+      case 'console':
+         return new ConsoleMailer();
+      default:
+         throw new Error(`Unknown mail transport: ${mailConfig.transport}`);
+   }
+}
+
+export const mailer = createMailer();
@@ -0,0 +1,34 @@
+// auth/src/mail/SmtpMailer.ts
+import nodemailer, { Transporter } from 'nodemailer';
+import { Mailer, MailMessage } from './Mailer';
+
+export interface SmtpOptions {
+   host: string;
+   port: number;
+   secure: boolean;
+   user?: string;
+   pass?: string;
+}
+
+/**
+ * Delivers mail through an SMTP server
+ */
+export class SmtpMailer implements Mailer {
+   private readonly transporter: Transporter;
+
+   constructor(
+      private readonly from: string,
+      options: SmtpOptions,
+   ) {
+      this.transporter = nodemailer.createTransport({
+         host: options.host,
+         port: options.port,
+         secure: options.secure,
+         auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+      });
+   }
+
+   async send(message: MailMessage): Promise<void> {
+      await this.transporter.sendMail({ from: this.from, ...message });
+   }
+}
@@ -35,7 +35,8 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
 
       const decoded = tokenService.verifyToken<JwtPayload>(token);
 
-      if (!decoded) {
+      // Refresh tokens are signed with the same key but only buy new tokens, they don't authenticate
+      if (!decoded || 'familyId' in decoded) {
          res.status(401).json({ message: 'Invalid or expired token' });
          return;
       }
@@ -50,3 +51,21 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
       res.status(500).json({ message: 'Server error during authentication' });
    }
 }
+
+/**
+ * Authentication for routes that also serve anonymous callers. A valid token adds its payload to the
+ * request, a missing or invalid one is ignored
+ */
+export function optionalAuthenticate(req: Request, res: Response, next: NextFunction): void {
+   const parts = req.headers.authorization?.split(' ');
+
+   if (parts?.length === 2 && parts[0] === 'Bearer' && parts[1]) {
+      const decoded = tokenService.verifyToken<JwtPayload>(parts[1]);
+
+      if (decoded && !('familyId' in decoded)) {
+         (req as AuthenticatedRequest).jwtPayload = decoded;
+      }
+   }
+
+   next();
+}
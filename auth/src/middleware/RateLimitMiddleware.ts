@@ -10,6 +10,8 @@ const ipLimiter: Map<string, RateLimitRecord> = new Map();
 
 const accountLimiter: Map<string, RateLimitRecord> = new Map();
 
+const emailLimiter: Map<string, RateLimitRecord> = new Map();
+
 /**
  * Rate limiting middleware to protect against brute force attacks
  * @param maxAttempts Maximum number of attempts within the time window
@@ -83,6 +85,7 @@ export function createRateLimiter(
 }
 
 import { SecurityConfig } from '../security/SecurityConfig';
+import { AuthenticatedRequest } from './AuthMiddleware';
 
 // IP-based rate limiter (useful for login, register endpoints)
 export const ipRateLimiter = createRateLimiter(
@@ -100,6 +103,14 @@ export const accountRateLimiter = createRateLimiter(
    accountLimiter,
 );
 
+// Email address based rate limiter (for routes that send mail)
+export const emailRateLimiter = createRateLimiter(
+   SecurityConfig.rateLimiting.auth.emailRateLimit.maxAttempts,
+   SecurityConfig.rateLimiting.auth.emailRateLimit.windowMs,
+   (req) => (req.body.email || (req as AuthenticatedRequest).jwtPayload?.email || '').toLowerCase(),
+   emailLimiter,
+);
+
 // General API rate limiter
 export const apiRateLimiter = createRateLimiter(
    SecurityConfig.rateLimiting.api.maxAttempts,
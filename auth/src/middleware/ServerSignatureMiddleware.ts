@@ -0,0 +1,60 @@
+// auth/src/middleware/ServerSignatureMiddleware.ts
+import { NextFunction, Request, Response } from 'express';
+import * as crypto from 'node:crypto';
+import { config } from '../Config';
+
+export const SIGNATURE_HEADER = 'x-signature';
+export const SIGNATURE_TIMESTAMP_HEADER = 'x-signature-timestamp';
+
+export interface RawBodyRequest extends Request {
+   rawBody?: string;
+}
+
+/**
+ * Keeps the body exactly as it was sent, for express.json's verify option. The signature covers
+ * the raw bytes, re-serializing the parsed body would not always give them back.
+ */
+export function captureRawBody(req: Request, res: Response, buffer: Buffer): void {
+   (req as RawBodyRequest).rawBody = buffer.toString('utf8');
+}
+
+/**
+ * HMAC-SHA256 over the timestamp and the body, hex encoded
+ */
+export function signPayload(timestamp: string, body: string, secret: string): string {
+   return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Middleware for routes only game servers may call. Requests must carry a recent timestamp and a
+ * signature of it and the body made with the secret shared with the game servers.
+ */
+export function verifyServerSignature(req: Request, res: Response, next: NextFunction): void {
+   const signature = req.header(SIGNATURE_HEADER);
+   const timestamp = req.header(SIGNATURE_TIMESTAMP_HEADER);
+
+   if (!signature || !timestamp) {
+      res.status(401).json({ message: 'Request signature required' });
+      return;
+   }
+
+   const signedAt = Number(timestamp);
+   if (
+      !Number.isFinite(signedAt) ||
+      Math.abs(Date.now() - signedAt) > config.matchResults.maxAgeMs
+   ) {
+      res.status(401).json({ message: 'Request signature expired' });
+      return;
+   }
+
+   const rawBody = (req as RawBodyRequest).rawBody ?? '';
+   const expected = Buffer.from(signPayload(timestamp, rawBody, config.matchResults.secret), 'hex');
+   const received = Buffer.from(signature, 'hex');
+
+   if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      res.status(401).json({ message: 'Invalid request signature' });
+      return;
+   }
+
+   next();
+}
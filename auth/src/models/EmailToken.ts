@@ -0,0 +1,17 @@
+// auth/src/models/EmailToken.ts
+
+export type EmailTokenPurpose = 'verify-email' | 'reset-password';
+
+/**
+ * A single-use token mailed to a user, stored by hash so a leaked database doesn't leak working links
+ */
+export interface EmailToken {
+   id: number;
+   userId: number;
+   purpose: EmailTokenPurpose;
+   /** Address the token was sent to */
+   email: string;
+   expiresAt: number;
+   createdAt: number;
+   usedAt: number | null;
+}
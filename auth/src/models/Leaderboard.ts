@@ -0,0 +1,42 @@
+// auth/src/models/Leaderboard.ts
+
+export type LeaderboardPeriod = 'all-time' | 'weekly';
+
+/**
+ * Which matches a leaderboard ranks players by, every filter left out widens the board
+ */
+export interface LeaderboardFilter {
+   /** Only matches played at or after this time */
+   since?: number;
+   playerClass?: string;
+   mapId?: string;
+}
+
+/**
+ * A player's place on a leaderboard, ranked by their best score in the board's matches. Players with
+ * the same best score share a rank
+ */
+export interface LeaderboardEntry {
+   rank: number;
+   userId: number;
+   username: string;
+   displayName: string;
+   bestScore: number;
+   bestWave: number;
+   matchesPlayed: number;
+}
+
+export interface LeaderboardPage {
+   period: LeaderboardPeriod;
+   playerClass: string | null;
+   mapId: string | null;
+   /** Start of the week a weekly board counts matches from */
+   since: number | null;
+   page: number;
+   pageSize: number;
+   totalPlayers: number;
+   totalPages: number;
+   entries: LeaderboardEntry[];
+   /** The caller's own entry, null for guests, anonymous callers and players not on the board */
+   own: LeaderboardEntry | null;
+}
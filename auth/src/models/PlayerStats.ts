@@ -0,0 +1,78 @@
+// auth/src/models/PlayerStats.ts
+
+/**
+ * Totals over every match a registered user finished
+ */
+export interface LifetimeStats {
+   userId: number;
+   matchesPlayed: number;
+   totalKills: number;
+   totalScore: number;
+   totalDeaths: number;
+   totalRevives: number;
+   totalWavesSurvived: number;
+   totalPlayTimeMs: number;
+   updatedAt: number;
+}
+
+export interface PersonalBests {
+   userId: number;
+   bestScore: number;
+   bestWave: number;
+   bestKills: number;
+   longestSurvivalMs: number;
+   updatedAt: number;
+}
+
+/**
+ * One user's part in a finished match
+ */
+export interface MatchRecord {
+   id: number;
+   matchId: string;
+   gameId: string;
+   mapId: string;
+   userId: number;
+   playerClass: string;
+   wavesSurvived: number;
+   kills: number;
+   score: number;
+   deaths: number;
+   revives: number;
+   durationMs: number;
+   playedAt: number;
+}
+
+export interface MatchPlayerResult {
+   userId: number;
+   playerClass: string;
+   kills: number;
+   score: number;
+   deaths: number;
+   revives: number;
+   survivedMs: number;
+}
+
+/**
+ * Results of a finished run as the game server submits them
+ */
+export interface MatchResultSubmission {
+   matchId: string;
+   gameId: string;
+   mapId: string;
+   endedAt: number;
+   durationMs: number;
+   wavesReached: number;
+   players: MatchPlayerResult[];
+}
+
+export interface UserProfile {
+   id: number;
+   username: string;
+   displayName: string;
+   avatar: string | null;
+   createdAt: number;
+   emailVerified: boolean;
+   stats: LifetimeStats;
+   personalBests: PersonalBests;
+}
@@ -0,0 +1,16 @@
+// auth/src/models/RefreshToken.ts
+
+/**
+ * A refresh token as it is stored, the token itself is a signed JWT carrying the id
+ */
+export interface StoredRefreshToken {
+   id: string;
+   familyId: string;
+   userId: number;
+   tokenVersion: number;
+   expiresAt: number;
+   createdAt: number;
+   /** When the token was exchanged for its successor, a second use means it was stolen */
+   usedAt: number | null;
+   revokedAt: number | null;
+}
@@ -9,6 +9,10 @@ export interface User {
    passwordHash: string;
    createdAt: number;
    lastActive: number;
+   /** Bumped to revoke every refresh token issued before, like on a password change */
+   tokenVersion: number;
+   /** When the user proved the email is theirs, null while unverified */
+   emailVerifiedAt: number | null;
 }
 
 export interface RegisterUserData {
@@ -41,6 +45,10 @@ export interface RefreshTokenPayload {
    id: number;
    username: string;
    tokenVersion: number;
+   /** Id of the stored token, a token can be used once */
+   tokenId: string;
+   /** Every token rotated from the same login shares the family */
+   familyId: string;
    iat?: number;
    exp?: number;
 }
@@ -40,6 +40,12 @@ export const SecurityConfig = {
 
       // Automatically refresh tokens that are near expiration
       refreshBeforeExpiry: '15m',
+
+      // Single-use tokens sent by email
+      email: {
+         verificationTtlMs: 24 * 60 * 60 * 1000, // 24 hours
+         passwordResetTtlMs: 60 * 60 * 1000, // 1 hour
+      },
    },
 
    /**
@@ -65,6 +71,12 @@ export const SecurityConfig = {
             maxAttempts: 5,
             windowMs: 60 * 60 * 1000, // 60 minutes
          },
+
+         // Emails sent per address, verification and password reset mails alike
+         emailRateLimit: {
+            maxAttempts: 3,
+            windowMs: 60 * 60 * 1000, // 60 minutes
+         },
       },
    },
 
@@ -0,0 +1,39 @@
+// auth/src/services/EmailTokenService.ts
+import * as crypto from 'crypto';
+import { emailTokenDAO } from '../dao/EmailTokenDAO';
+import { EmailToken, EmailTokenPurpose } from '../models/EmailToken';
+import { User } from '../models/User';
+
+export class EmailTokenService {
+   /**
+    * Create a single-use token for the link in a mail to the user's current email
+    */
+   issue(user: User, purpose: EmailTokenPurpose, ttlMs: number): string {
+      const token = crypto.randomBytes(32).toString('base64url');
+      const now = Date.now();
+
+      emailTokenDAO.create(this.hash(token), {
+         userId: user.id,
+         purpose,
+         email: user.email!,
+         expiresAt: now + ttlMs,
+         createdAt: now,
+      });
+
+      return token;
+   }
+
+   /**
+    * Use up a token from a mail
+    * @returns The token, null if it is unknown, expired, already used or meant for something else
+    */
+   consume(token: string, purpose: EmailTokenPurpose): EmailToken | null {
+      return emailTokenDAO.consume(this.hash(token), purpose, Date.now());
+   }
+
+   private hash(token: string): string {
+      return crypto.createHash('sha256').update(token).digest('hex');
+   }
+}
+
+export const emailTokenService = new EmailTokenService();
@@ -0,0 +1,68 @@
+// auth/src/services/LeaderboardService.ts
+import { leaderboardDAO } from '../dao/LeaderboardDAO';
+import { LeaderboardFilter, LeaderboardPage, LeaderboardPeriod } from '../models/Leaderboard';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LeaderboardRequest {
+   period: LeaderboardPeriod;
+   playerClass?: string;
+   mapId?: string;
+   page: number;
+   pageSize: number;
+   /** Signed in user whose own entry is looked up, guests and anonymous callers leave it out */
+   userId?: number;
+}
+
+export class LeaderboardService {
+   /**
+    * One page of a leaderboard together with the caller's own entry
+    */
+   getLeaderboard(request: LeaderboardRequest, now: number = Date.now()): LeaderboardPage {
+      const since = request.period === 'weekly' ? this.getWeekStart(now) : undefined;
+      const filter: LeaderboardFilter = {
+         since,
+         playerClass: request.playerClass,
+         mapId: request.mapId,
+      };
+
+      const totalPlayers = leaderboardDAO.countPlayers(filter);
+      const entries = leaderboardDAO.getEntries(
+         filter,
+         request.pageSize,
+         (request.page - 1) * request.pageSize,
+      );
+      const own =
+         request.userId !== undefined && request.userId > 0
+            ? leaderboardDAO.getEntry(filter, request.userId)
+            : null;
+
+      return {
+         period: request.period,
+         playerClass: request.playerClass ?? null,
+         mapId: request.mapId ?? null,
+         since: since ?? null,
+         page: request.page,
+         pageSize: request.pageSize,
+         totalPlayers,
+         totalPages: Math.ceil(totalPlayers / request.pageSize),
+         entries,
+         own,
+      };
+   }
+
+   /**
+    * Monday 00:00 UTC of the week the time falls in, weekly boards start over every Monday
+    */
+   getWeekStart(time: number): number {
+      const date = new Date(time);
+      const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+
+      return (
+         Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) -
+         daysSinceMonday * DAY_MS
+      );
+   }
+}
+
+export const leaderboardService = new LeaderboardService();
@@ -0,0 +1,122 @@
+// auth/src/services/RefreshTokenService.ts
+import * as crypto from 'crypto';
+import { refreshTokenDAO } from '../dao/RefreshTokenDAO';
+import { userDAO } from '../dao/UserDAO';
+import { RefreshTokenPayload, User } from '../models/User';
+import { tokenService } from './TokenService';
+
+export interface TokenPair {
+   token: string;
+   refreshToken: string;
+}
+
+export type RotationResult = { tokens: TokenPair } | { error: string };
+
+export class RefreshTokenService {
+   /**
+    * Start a new session for the user with a fresh token family
+    */
+   issueTokens(user: User): TokenPair {
+      refreshTokenDAO.deleteExpired(user.id, Date.now());
+
+      return {
+         token: tokenService.generateAuthToken(user),
+         refreshToken: this.issueRefreshToken(user, crypto.randomUUID()),
+      };
+   }
+
+   /**
+    * Exchange a refresh token for a new pair. Every refresh token can be used once, presenting one that
+    * was already exchanged means someone else holds a copy, so the whole family is revoked and both the
+    * thief and the owner have to sign in again
+    */
+   rotate(refreshToken: string): RotationResult {
+      const decoded = tokenService.verifyToken<RefreshTokenPayload>(refreshToken);
+
+      if (!decoded?.tokenId || !decoded.familyId) {
+         return { error: 'Invalid or expired refresh token' };
+      }
+
+      const stored = refreshTokenDAO.findById(decoded.tokenId);
+
+      if (!stored || stored.userId !== decoded.id) {
+         return { error: 'Invalid or expired refresh token' };
+      }
+
+      const now = Date.now();
+
+      if (stored.revokedAt !== null) {
+         return { error: 'Refresh token revoked' };
+      }
+
+      if (stored.usedAt !== null || !refreshTokenDAO.markUsed(stored.id, now)) {
+         refreshTokenDAO.revokeFamily(stored.familyId, now);
+         return { error: 'Refresh token reuse detected' };
+      }
+
+      const user = userDAO.findById(stored.userId);
+
+      if (!user) {
+         return { error: 'User not found' };
+      }
+
+      if (user.tokenVersion !== stored.tokenVersion) {
+         refreshTokenDAO.revokeFamily(stored.familyId, now);
+         return { error: 'Refresh token revoked' };
+      }
+
+      return {
+         tokens: {
+            token: tokenService.generateAuthToken(user),
+            refreshToken: this.issueRefreshToken(user, stored.familyId),
+         },
+      };
+   }
+
+   /**
+    * End the session the refresh token belongs to. Unknown and invalid tokens are ignored, there is
+    * nothing to end
+    */
+   revokeSession(refreshToken: string): void {
+      const decoded = tokenService.verifyToken<RefreshTokenPayload>(refreshToken);
+
+      if (!decoded?.tokenId) {
+         return;
+      }
+
+      const stored = refreshTokenDAO.findById(decoded.tokenId);
+
+      if (stored && stored.userId === decoded.id) {
+         refreshTokenDAO.revokeFamily(stored.familyId, Date.now());
+      }
+   }
+
+   /**
+    * End every session of the user, refresh tokens issued before are rejected even if they are missing
+    * from the store
+    */
+   revokeAllSessions(userId: number): void {
+      userDAO.incrementTokenVersion(userId);
+      refreshTokenDAO.revokeAllForUser(userId, Date.now());
+   }
+
+   private issueRefreshToken(user: User, familyId: string): string {
+      const tokenId = crypto.randomUUID();
+      const refreshToken = tokenService.generateRefreshToken(user, { tokenId, familyId });
+      const { exp } = tokenService.verifyToken<RefreshTokenPayload>(refreshToken)!;
+      const now = Date.now();
+
+      refreshTokenDAO.create({
+         id: tokenId,
+         familyId,
+         userId: user.id,
+         tokenVersion: user.tokenVersion,
+         expiresAt: exp! * 1000,
+         createdAt: now,
+      });
+
+      return refreshToken;
+   }
+}
+
+export const refreshTokenService = new RefreshTokenService();
@@ -26,13 +26,18 @@ export class TokenService {
    }
 
    /**
-    * Generate refresh token for extended sessions
+    * Generate refresh token for extended sessions, carrying the ids it is stored under
     */
-   generateRefreshToken(user: User, tokenVersion: number = 0): string {
+   generateRefreshToken(
+      user: User,
+      session: Pick<RefreshTokenPayload, 'tokenId' | 'familyId'>,
+   ): string {
       const payload: RefreshTokenPayload = {
          id: user.id,
          username: user.username,
-         tokenVersion,
+         tokenVersion: user.tokenVersion,
+         tokenId: session.tokenId,
+         familyId: session.familyId,
       };
 
       const options: SignOptions = {
@@ -2,6 +2,13 @@
 import { RegisterUserData, User } from '../models/User';
 import { userDAO } from '../dao/UserDAO';
 import { passwordHasher } from './PasswordHasher';
+import { refreshTokenService } from './RefreshTokenService';
+import { emailTokenService } from './EmailTokenService';
+import { mailer } from '../mail/MailerFactory';
+import { MailMessage } from '../mail/Mailer';
+import { passwordResetMail, verificationMail } from '../mail/MailTemplates';
+import { SecurityConfig } from '../security/SecurityConfig';
+import { MatchRecord, MatchResultSubmission, UserProfile } from '../models/PlayerStats';
 
 export class UserService {
    /**
@@ -41,7 +48,7 @@ export class UserService {
 
       const now = Date.now();
 
-      return userDAO.createUser({
+      const user = userDAO.createUser({
          username: data.username.toLowerCase(),
          displayName: data.username,
          email: data.email || null,
@@ -50,6 +57,90 @@ export class UserService {
          createdAt: now,
          lastActive: now,
       });
+
+      if (user.email) {
+         this.sendInBackground(this.createVerificationMail(user));
+      }
+
+      return user;
+   }
+
+   /**
+    * Mail the user a link that verifies their email address, earlier links stop working
+    */
+   async sendVerificationEmail(user: User): Promise<void> {
+      if (!user.email) {
+         throw new Error('No email address to verify');
+      }
+
+      if (user.emailVerifiedAt !== null) {
+         throw new Error('Email already verified');
+      }
+
+      await mailer.send(this.createVerificationMail(user));
+   }
+
+   /**
+    * Verify the email address a verification link was sent to
+    * @returns False if the token can't be used or the user changed their email since
+    */
+   verifyEmail(token: string): boolean {
+      const emailToken = emailTokenService.consume(token, 'verify-email');
+
+      return (
+         emailToken !== null &&
+         userDAO.markEmailVerified(emailToken.userId, emailToken.email, Date.now())
+      );
+   }
+
+   /**
+    * Mail a password reset link to the account with this email, if there is one. Returns before the
+    * mail goes out, so the response time doesn't tell whether the account exists
+    */
+   requestPasswordReset(email: string): void {
+      const user = this.findByEmail(email);
+
+      if (!user) {
+         return;
+      }
+
+      const ttlMs = SecurityConfig.tokens.email.passwordResetTtlMs;
+      const token = emailTokenService.issue(user, 'reset-password', ttlMs);
+
+      this.sendInBackground(passwordResetMail(user.email!, user.displayName, token, ttlMs));
+   }
+
+   /**
+    * Set a new password with a token from a reset mail. Every session of the user ends, and the email
+    * counts as verified since the link reached it
+    * @returns False if the token can't be used
+    */
+   async resetPassword(token: string, newPassword: string): Promise<boolean> {
+      const emailToken = emailTokenService.consume(token, 'reset-password');
+      const user = emailToken ? this.findById(emailToken.userId) : null;
+
+      if (!emailToken || !user || user.email !== emailToken.email) {
+         return false;
+      }
+
+      userDAO.updatePasswordHash(user.id, await passwordHasher.hashPassword(newPassword));
+      refreshTokenService.revokeAllSessions(user.id);
+      userDAO.markEmailVerified(user.id, emailToken.email, Date.now());
+
+      return true;
+   }
+
+   private createVerificationMail(user: User): MailMessage {
+      const ttlMs = SecurityConfig.tokens.email.verificationTtlMs;
+      const token = emailTokenService.issue(user, 'verify-email', ttlMs);
+
+      return verificationMail(user.email!, user.displayName, token, ttlMs);
+   }
+
+   private sendInBackground(message: MailMessage): void {
+      mailer.send(message).catch((err) => {
+         console.error(`Error sending mail to ${message.to}:`, err);
+      });
    }
 
    /**
@@ -86,6 +177,79 @@ export class UserService {
       return user;
    }
 
+   /**
+    * Change a user's password after checking the current one. Every session of the user ends, the
+    * caller gets a new token pair for the session it is in
+    */
+   async changePassword(
+      userId: number,
+      currentPassword: string,
+      newPassword: string,
+   ): Promise<User> {
+      const user = this.findById(userId);
+
+      if (!user) {
+         throw new Error('User not found');
+      }
+
+      if (!(await passwordHasher.verifyPassword(user.passwordHash, currentPassword))) {
+         throw new Error('Current password is incorrect');
+      }
+
+      userDAO.updatePasswordHash(user.id, await passwordHasher.hashPassword(newPassword));
+      refreshTokenService.revokeAllSessions(user.id);
+
+      return this.findById(user.id)!;
+   }
+
+   /**
+    * Record the results of a finished match for every registered player in it. Guests and unknown users
+    * are skipped, as are players the match was already recorded for.
+    * @returns Number of players the match was recorded for
+    */
+   submitMatchResults(match: MatchResultSubmission): number {
+      let recorded = 0;
+
+      for (const player of match.players) {
+         if (player.userId <= 0 || !this.findById(player.userId)) continue;
+
+         if (userDAO.recordMatchResult(match, player)) {
+            recorded++;
+         }
+      }
+
+      return recorded;
+   }
+
+   /**
+    * Public profile of a user with their lifetime stats and personal bests
+    */
+   getProfile(userId: number): UserProfile | null {
+      const user = this.findById(userId);
+
+      if (!user) {
+         return null;
+      }
+
+      return {
+         id: user.id,
+         username: user.username,
+         displayName: user.displayName,
+         avatar: user.avatar,
+         createdAt: user.createdAt,
+         emailVerified: user.emailVerifiedAt !== null,
+         stats: userDAO.getLifetimeStats(user.id),
+         personalBests: userDAO.getPersonalBests(user.id),
+      };
+   }
+
+   /**
+    * A user's most recent matches, newest first
+    */
+   getRecentMatches(userId: number, limit: number): MatchRecord[] {
+      return userDAO.getRecentMatches(userId, limit);
+   }
+
    async updatePasswordIfNeeded(user: User, plainPassword: string): Promise<void> {
       if (passwordHasher.needsRehash(user.passwordHash)) {
          const newHash = await passwordHasher.hashPassword(plainPassword);
@@ -45,7 +45,76 @@ export const guestConversionSchema = z.object({
    password: passwordSchema,
 });
 
+// Password change schema
+export const changePasswordSchema = z.object({
+   currentPassword: z.string().min(1, 'Current password is required'),
+   newPassword: passwordSchema,
+});
+
+// Refresh token schema, for rotating and revoking sessions
+export const refreshTokenSchema = z.object({
+   refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+// Token from a verification or password reset mail
+export const emailTokenSchema = z.object({
+   token: z.string().min(1, 'Token is required').max(200),
+});
+
+// Forgot password schema
+export const forgotPasswordSchema = z.object({
+   email: emailSchema,
+});
+
+// Password reset schema
+export const resetPasswordSchema = z.object({
+   token: z.string().min(1, 'Token is required').max(200),
+   password: passwordSchema,
+});
+
 // Game token schema
 export const gameTokenSchema = z.object({
    gameId: z.string().min(1, 'Game ID is required'),
 });
+
+// Match result submitted by a game server
+export const matchResultSchema = z.object({
+   matchId: z.string().min(1, 'Match ID is required').max(100),
+   gameId: z.string().min(1, 'Game ID is required').max(100),
+   mapId: z.string().min(1).max(100).default('unknown'),
+   endedAt: z.number().int().nonnegative(),
+   durationMs: z.number().int().nonnegative(),
+   wavesReached: z.number().int().nonnegative(),
+   players: z
+      .array(
+         z.object({
+            userId: z.number().int(),
+            playerClass: z.string().min(1).max(50),
+            kills: z.number().int().nonnegative(),
+            score: z.number().int().nonnegative(),
+            deaths: z.number().int().nonnegative(),
+            revives: z.number().int().nonnegative(),
+            survivedMs: z.number().int().nonnegative(),
+         }),
+      )
+      .max(16),
+});
+
+// Query of the recent matches route
+export const recentMatchesQuerySchema = z.object({
+   limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+// Player class or map a leaderboard is narrowed to
+export const leaderboardKeySchema = z
+   .string()
+   .min(1)
+   .max(100)
+   .regex(/^[a-zA-Z0-9_-]+$/, 'Invalid leaderboard key');
+
+// Query of the leaderboard routes
+export const leaderboardQuerySchema = z.object({
+   period: z.enum(['all-time', 'weekly']).default('all-time'),
+   page: z.coerce.number().int().min(1).default(1),
+   pageSize: z.coerce.number().int().min(1).max(100).default(25),
+});
@@ -0,0 +1,228 @@
+import request from 'supertest';
+import { Express } from 'express';
+import path from 'path';
+import fs from 'fs';
+
+let app: Express;
+
+const uniqueId = Math.floor(Math.random() * 10000).toString();
+
+const TEST_USER = {
+   username: `mail_${uniqueId}`,
+   email: `mail_${uniqueId}@example.com`,
+   password: 'Password123!',
+};
+
+const OTHER_USER = {
+   username: `mail2_${uniqueId}`,
+   email: `mail2_${uniqueId}@example.com`,
+   password: 'Password123!',
+};
+
+const NEW_PASSWORD = 'Password456!';
+
+const mailDir = path.join(__dirname, '..', 'data', 'mail.test');
+
+let authToken: string;
+let refreshToken: string;
+let otherToken: string;
+
+const listMails = () =>
+   fs.existsSync(mailDir)
+      ? fs
+           .readdirSync(mailDir)
+           .sort()
+           .map((file) => fs.readFileSync(path.join(mailDir, file), 'utf8'))
+      : [];
+
+/**
+ * Token from the newest mail to the address with the link parameter, mails are written in the background
+ */
+const waitForToken = async (to: string, parameter: string, after: number = 0): Promise<string> => {
+   const pattern = new RegExp(`[?&]${parameter}=([^\\s&]+)`);
+
+   for (let attempt = 0; attempt < 50; attempt++) {
+      const mails = listMails()
+         .slice(after)
+         .filter((mail) => mail.includes(`To: ${to}`) && pattern.test(mail));
+
+      if (mails.length > 0) {
+         return decodeURIComponent(mails[mails.length - 1].match(pattern)![1]);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 20));
+   }
+
+   throw new Error(`No ${parameter} mail to ${to}`);
+};
+
+const getProfile = (token: string) =>
+   request(app).get('/auth/profile').set('Authorization', `Bearer ${token}`);
+
+beforeAll(async () => {
+   // Own database and mail directory, test files may run side by side
+   const testDbPath = path.join(__dirname, '..', 'data', 'email.test.db');
+
+   if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+   }
+
+   fs.rmSync(mailDir, { recursive: true, force: true });
+
+   process.env.DB_PATH = './data/email.test.db';
+   process.env.JWT_SECRET = 'test-jwt-secret';
+   process.env.MAIL_TRANSPORT = 'file';
+   process.env.MAIL_FILE_DIR = './data/mail.test';
+
+   const { createApp } = require('../src/Server');
+   app = createApp();
+
+   const registered = await request(app).post('/auth/register').send(TEST_USER);
+   authToken = registered.body.token;
+   refreshToken = registered.body.refreshToken;
+
+   const other = await request(app).post('/auth/register').send(OTHER_USER);
+   otherToken = other.body.token;
+});
+
+afterEach(() => {
+   jest.restoreAllMocks();
+});
+
+describe('Email', () => {
+   describe('Verification', () => {
+      test('should start out unverified', async () => {
+         const res = await getProfile(authToken);
+
+         expect(res.body.profile.emailVerified).toBe(false);
+      });
+
+      test('should reject an unknown token', async () => {
+         const res = await request(app).post('/auth/verify-email').send({ token: 'not-a-token' });
+
+         expect(res.status).toBe(400);
+      });
+
+      test('should verify the email with the token mailed on registration', async () => {
+         const token = await waitForToken(TEST_USER.email, 'verify-email');
+         const res = await request(app).post('/auth/verify-email').send({ token });
+
+         expect(res.status).toBe(200);
+         expect((await getProfile(authToken)).body.profile.emailVerified).toBe(true);
+
+         const reused = await request(app).post('/auth/verify-email').send({ token });
+
+         expect(reused.status).toBe(400);
+      });
+
+      test('should not send another mail once verified', async () => {
+         const res = await request(app)
+            .post('/auth/verify-email/send')
+            .set('Authorization', `Bearer ${authToken}`);
+
+         expect(res.status).toBe(400);
+         expect(res.body.message).toBe('Email already verified');
+      });
+
+      test('should only accept the link of the latest mail', async () => {
+         const first = await waitForToken(OTHER_USER.email, 'verify-email');
+         const sentBefore = listMails().length;
+
+         const res = await request(app)
+            .post('/auth/verify-email/send')
+            .set('Authorization', `Bearer ${otherToken}`);
+
+         expect(res.status).toBe(200);
+
+         const latest = await waitForToken(OTHER_USER.email, 'verify-email', sentBefore);
+
+         expect((await request(app).post('/auth/verify-email').send({ token: first })).status).toBe(
+            400,
+         );
+         expect(
+            (await request(app).post('/auth/verify-email').send({ token: latest })).status,
+         ).toBe(200);
+      });
+
+      test('should reject guests', async () => {
+         const guest = await request(app).post('/auth/guest');
+         const res = await request(app)
+            .post('/auth/verify-email/send')
+            .set('Authorization', `Bearer ${guest.body.token}`);
+
+         expect(res.status).toBe(403);
+      });
+   });
+
+   describe('Password reset', () => {
+      test('should answer the same for unknown emails without sending mail', async () => {
+         const sentBefore = listMails().length;
+         const res = await request(app)
+            .post('/auth/forgot-password')
+            .send({ email: 'nobody@example.com' });
+
+         expect(res.status).toBe(200);
+         expect(res.body.message).toBe(
+            'If an account uses this email, a password reset link is on its way',
+         );
+
+         await new Promise((resolve) => setTimeout(resolve, 100));
+         expect(listMails()).toHaveLength(sentBefore);
+      });
+
+      test('should reject an expired token', async () => {
+         const sentBefore = listMails().length;
+         await request(app).post('/auth/forgot-password').send({ email: TEST_USER.email });
+         const token = await waitForToken(TEST_USER.email, 'reset-password', sentBefore);
+
+         const now = Date.now();
+         jest.spyOn(Date, 'now').mockReturnValue(now + 2 * 60 * 60 * 1000);
+
+         const res = await request(app)
+            .post('/auth/reset-password')
+            .send({ token, password: NEW_PASSWORD });
+
+         expect(res.status).toBe(400);
+      });
+
+      test('should reject a weak password', async () => {
+         const res = await request(app)
+            .post('/auth/reset-password')
+            .send({ token: 'any-token', password: 'weak' });
+
+         expect(res.status).toBe(400);
+         expect(res.body.message).toBe('Validation failed');
+      });
+
+      test('should set the new password once and end every session', async () => {
+         const sentBefore = listMails().length;
+         await request(app).post('/auth/forgot-password').send({ email: TEST_USER.email });
+         const token = await waitForToken(TEST_USER.email, 'reset-password', sentBefore);
+
+         const res = await request(app)
+            .post('/auth/reset-password')
+            .send({ token, password: NEW_PASSWORD });
+
+         expect(res.status).toBe(200);
+
+         const reused = await request(app)
+            .post('/auth/reset-password')
+            .send({ token, password: 'Password789!' });
+
+         expect(reused.status).toBe(400);
+         expect((await request(app).post('/auth/refresh').send({ refreshToken })).status).toBe(401);
+      });
+
+      test('should sign in with the new password only', async () => {
+         const oldLogin = await request(app)
+            .post('/auth/login')
+            .send({ login: TEST_USER.username, password: TEST_USER.password });
+         const newLogin = await request(app)
+            .post('/auth/login')
+            .send({ login: TEST_USER.username, password: NEW_PASSWORD });
+
+         expect(oldLogin.status).toBe(401);
+         expect(newLogin.status).toBe(200);
+      });
+   });
+});
@@ -0,0 +1,259 @@
+import request from 'supertest';
+import { Express } from 'express';
+import path from 'path';
+import fs from 'fs';
+import * as crypto from 'crypto';
+
+let app: Express;
+
+const uniqueId = Math.floor(Math.random() * 10000).toString();
+
+const MATCH_SECRET = 'test-leaderboard-secret';
+const TWO_WEEKS_MS = 14 * 24 * 60 * 60 * 1000;
+
+const players: Record<string, { id: number; token: string }> = {};
+let guestToken: string;
+
+const sign = (timestamp: string, body: string) =>
+   crypto.createHmac('sha256', MATCH_SECRET).update(`${timestamp}.${body}`).digest('hex');
+
+const submitMatch = (match: object) => {
+   const body = JSON.stringify(match);
+   const timestamp = String(Date.now());
+
+   return request(app)
+      .post('/auth/matches')
+      .set('Content-Type', 'application/json')
+      .set('X-Signature-Timestamp', timestamp)
+      .set('X-Signature', sign(timestamp, body))
+      .send(body);
+};
+
+const createMatch = (
+   matchId: string,
+   options: { mapId: string; endedAt?: number; wavesReached?: number },
+   results: { userId: number; playerClass: string; score: number }[],
+) => ({
+   matchId,
+   gameId: 'game-1',
+   mapId: options.mapId,
+   endedAt: options.endedAt ?? Date.now(),
+   durationMs: 60000,
+   wavesReached: options.wavesReached ?? 3,
+   players: results.map((result) => ({
+      ...result,
+      kills: 1,
+      deaths: 0,
+      revives: 0,
+      survivedMs: 60000,
+   })),
+});
+
+const register = async (name: string) => {
+   const res = await request(app)
+      .post('/auth/register')
+      .send({ username: `${name}_${uniqueId}`, password: 'Password123!' });
+
+   players[name] = { id: res.body.user.id, token: res.body.token };
+};
+
+beforeAll(async () => {
+   // Own database, test files may run side by side
+   const testDbPath = path.join(__dirname, '..', 'data', 'leaderboard.test.db');
+
+   if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+   }
+
+   process.env.DB_PATH = './data/leaderboard.test.db';
+   process.env.JWT_SECRET = 'test-jwt-secret';
+   process.env.MATCH_RESULT_SECRET = MATCH_SECRET;
+
+   const { createApp } = require('../src/Server');
+   app = createApp();
+
+   for (const name of ['ace', 'bea', 'cal', 'dot']) {
+      await register(name);
+   }
+
+   const guest = await request(app).post('/auth/guest');
+   guestToken = guest.body.token;
+
+   const { ace, bea, cal, dot } = players;
+
+   // Played two weeks ago, only counts all-time
+   await submitMatch(
+      createMatch(
+         'old',
+         { mapId: 'first-tiled-map', endedAt: Date.now() - TWO_WEEKS_MS, wavesReached: 9 },
+         [{ userId: ace.id, playerClass: 'assault', score: 900 }],
+      ),
+   );
+
+   await submitMatch(
+      createMatch('recent-1', { mapId: 'first-tiled-map' }, [
+         { userId: bea.id, playerClass: 'tank', score: 500 },
+         { userId: cal.id, playerClass: 'assault', score: 300 },
+         { userId: -1, playerClass: 'assault', score: 10000 },
+      ]),
+   );
+
+   await submitMatch(
+      createMatch('recent-2', { mapId: 'desert' }, [
+         { userId: cal.id, playerClass: 'sniper', score: 500 },
+         { userId: dot.id, playerClass: 'assault', score: 100 },
+         { userId: ace.id, playerClass: 'assault', score: 200 },
+      ]),
+   );
+});
+
+const ranking = (res: request.Response) =>
+   res.body.leaderboard.entries.map((entry: any) => [entry.username.split('_')[0], entry.rank]);
+
+describe('Leaderboards', () => {
+   describe('All-time', () => {
+      test('should rank every registered player by their best score', async () => {
+         const res = await request(app).get('/auth/leaderboard');
+
+         expect(res.status).toBe(200);
+         expect(ranking(res)).toEqual([
+            ['ace', 1],
+            ['bea', 2],
+            ['cal', 2],
+            ['dot', 4],
+         ]);
+         expect(res.body.leaderboard.entries[0]).toMatchObject({
+            bestScore: 900,
+            bestWave: 9,
+            matchesPlayed: 2,
+         });
+         expect(res.body.leaderboard.totalPlayers).toBe(4);
+         expect(res.body.leaderboard.own).toBeNull();
+      });
+
+      test('should page through the board', async () => {
+         const res = await request(app).get('/auth/leaderboard?page=2&pageSize=3');
+
+         expect(res.status).toBe(200);
+         expect(ranking(res)).toEqual([['dot', 4]]);
+         expect(res.body.leaderboard.totalPages).toBe(2);
+      });
+
+      test('should include the caller own rank', async () => {
+         const res = await request(app)
+            .get('/auth/leaderboard?pageSize=1')
+            .set('Authorization', `Bearer ${players.dot.token}`);
+
+         expect(res.status).toBe(200);
+         expect(ranking(res)).toEqual([['ace', 1]]);
+         expect(res.body.leaderboard.own).toMatchObject({ userId: players.dot.id, rank: 4 });
+      });
+
+      test('should not rank guests', async () => {
+         const res = await request(app)
+            .get('/auth/leaderboard')
+            .set('Authorization', `Bearer ${guestToken}`);
+
+         expect(res.status).toBe(200);
+         expect(res.body.leaderboard.own).toBeNull();
+         expect(res.body.leaderboard.entries.every((entry: any) => entry.userId > 0)).toBe(true);
+      });
+
+      test('should reject an invalid page', async () => {
+         const res = await request(app).get('/auth/leaderboard?page=0');
+
+         expect(res.status).toBe(400);
+      });
+   });
+
+   describe('Weekly', () => {
+      test('should only count matches played this week', async () => {
+         const res = await request(app)
+            .get('/auth/leaderboard?period=weekly')
+            .set('Authorization', `Bearer ${players.ace.token}`);
+
+         expect(res.status).toBe(200);
+         expect(ranking(res)).toEqual([
+            ['bea', 1],
+            ['cal', 1],
+            ['ace', 3],
+            ['dot', 4],
+         ]);
+         expect(res.body.leaderboard.own).toMatchObject({
+            rank: 3,
+            bestScore: 200,
+            matchesPlayed: 1,
+         });
+         expect(res.body.leaderboard.since).toBeLessThanOrEqual(Date.now());
+      });
+
+      test('should reject an unknown period', async () => {
+         const res = await request(app).get('/auth/leaderboard?period=daily');
+
+         expect(res.status).toBe(400);
+      });
+   });
+
+   describe('Per class', () => {
+      test('should only count matches played as the class', async () => {
+         const res = await request(app).get('/auth/leaderboard/class/assault');
+
+         expect(res.status).toBe(200);
+         expect(ranking(res)).toEqual([
+            ['ace', 1],
+            ['cal', 2],
+            ['dot', 3],
+         ]);
+         expect(res.body.leaderboard.playerClass).toBe('assault');
+      });
+
+      test('should combine with the weekly period', async () => {
+         const res = await request(app).get('/auth/leaderboard/class/assault?period=weekly');
+
+         expect(res.status).toBe(200);
+         expect(ranking(res)).toEqual([
+            ['cal', 1],
+            ['ace', 2],
+            ['dot', 3],
+         ]);
+      });
+
+      test('should leave the caller out of a board they are not on', async () => {
+         const res = await request(app)
+            .get('/auth/leaderboard/class/tank')
+            .set('Authorization', `Bearer ${players.ace.token}`);
+
+         expect(res.status).toBe(200);
+         expect(ranking(res)).toEqual([['bea', 1]]);
+         expect(res.body.leaderboard.own).toBeNull();
+      });
+
+      test('should reject an invalid class', async () => {
+         const res = await request(app).get('/auth/leaderboard/class/not%20a%20class');
+
+         expect(res.status).toBe(400);
+      });
+   });
+
+   describe('Per map', () => {
+      test('should only count matches played on the map', async () => {
+         const res = await request(app).get('/auth/leaderboard/map/desert');
+
+         expect(res.status).toBe(200);
+         expect(ranking(res)).toEqual([
+            ['cal', 1],
+            ['ace', 2],
+            ['dot', 3],
+         ]);
+         expect(res.body.leaderboard.mapId).toBe('desert');
+      });
+
+      test('should be empty for a map nobody played', async () => {
+         const res = await request(app).get('/auth/leaderboard/map/unplayed');
+
+         expect(res.status).toBe(200);
+         expect(res.body.leaderboard.entries).toEqual([]);
+         expect(res.body.leaderboard.totalPages).toBe(0);
+      });
+   });
+});
@@ -0,0 +1,237 @@
+import request from 'supertest';
+import { Express } from 'express';
+import path from 'path';
+import fs from 'fs';
+import * as crypto from 'crypto';
+
+let app: Express;
+
+const uniqueId = Math.floor(Math.random() * 10000).toString();
+
+const TEST_USER = {
+   username: `stats_${uniqueId}`,
+   email: `stats_${uniqueId}@example.com`,
+   password: 'Password123!',
+};
+
+const MATCH_SECRET = 'test-match-secret';
+
+let authToken: string;
+let guestToken: string;
+let userId: number;
+
+const sign = (timestamp: string, body: string, secret: string = MATCH_SECRET) =>
+   crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+const submitMatch = (match: object, options: { secret?: string; timestamp?: number } = {}) => {
+   const body = JSON.stringify(match);
+   const timestamp = String(options.timestamp ?? Date.now());
+
+   return request(app)
+      .post('/auth/matches')
+      .set('Content-Type', 'application/json')
+      .set('X-Signature-Timestamp', timestamp)
+      .set('X-Signature', sign(timestamp, body, options.secret))
+      .send(body);
+};
+
+const createMatch = (
+   matchId: string,
+   player: { kills: number; score: number; survivedMs: number },
+) => ({
+   matchId,
+   gameId: 'game-1',
+   endedAt: Date.now(),
+   durationMs: 120000,
+   wavesReached: player.kills,
+   players: [
+      {
+         userId,
+         playerClass: 'assault',
+         kills: player.kills,
+         score: player.score,
+         deaths: 1,
+         revives: 2,
+         survivedMs: player.survivedMs,
+      },
+      // Guests are skipped
+      {
+         userId: -1,
+         playerClass: 'tank',
+         kills: 3,
+         score: 30,
+         deaths: 1,
+         revives: 0,
+         survivedMs: 1000,
+      },
+   ],
+});
+
+beforeAll(async () => {
+   // Own database, test files may run side by side
+   const testDbPath = path.join(__dirname, '..', 'data', 'matches.test.db');
+
+   if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+   }
+
+   process.env.DB_PATH = './data/matches.test.db';
+   process.env.JWT_SECRET = 'test-jwt-secret';
+   process.env.MATCH_RESULT_SECRET = MATCH_SECRET;
+
+   const { createApp } = require('../src/Server');
+   app = createApp();
+
+   const registered = await request(app).post('/auth/register').send(TEST_USER);
+   authToken = registered.body.token;
+   userId = registered.body.user.id;
+
+   const guest = await request(app).post('/auth/guest');
+   guestToken = guest.body.token;
+});
+
+describe('Match results', () => {
+   describe('Submission', () => {
+      test('should reject unsigned submissions', async () => {
+         const res = await request(app)
+            .post('/auth/matches')
+            .send(createMatch('unsigned', { kills: 1, score: 10, survivedMs: 1 }));
+
+         expect(res.status).toBe(401);
+      });
+
+      test('should reject submissions signed with another secret', async () => {
+         const res = await submitMatch(
+            createMatch('forged', { kills: 1, score: 10, survivedMs: 1 }),
+            {
+               secret: 'not-the-secret',
+            },
+         );
+
+         expect(res.status).toBe(401);
+         expect(res.body.message).toBe('Invalid request signature');
+      });
+
+      test('should reject submissions signed too long ago', async () => {
+         const res = await submitMatch(
+            createMatch('stale', { kills: 1, score: 10, survivedMs: 1 }),
+            {
+               timestamp: Date.now() - 60 * 60 * 1000,
+            },
+         );
+
+         expect(res.status).toBe(401);
+         expect(res.body.message).toBe('Request signature expired');
+      });
+
+      test('should reject invalid results', async () => {
+         const res = await submitMatch({ matchId: 'invalid', players: [] });
+
+         expect(res.status).toBe(400);
+         expect(res.body.message).toBe('Validation failed');
+      });
+
+      test('should record signed results for registered players only', async () => {
+         const res = await submitMatch(
+            createMatch('match-1', { kills: 5, score: 120, survivedMs: 90000 }),
+         );
+
+         expect(res.status).toBe(200);
+         expect(res.body.recorded).toBe(1);
+      });
+
+      test('should record a match only once', async () => {
+         const res = await submitMatch(
+            createMatch('match-1', { kills: 5, score: 120, survivedMs: 90000 }),
+         );
+
+         expect(res.status).toBe(200);
+         expect(res.body.recorded).toBe(0);
+      });
+
+      test('should record another match', async () => {
+         const res = await submitMatch(
+            createMatch('match-2', { kills: 2, score: 300, survivedMs: 30000 }),
+         );
+
+         expect(res.status).toBe(200);
+         expect(res.body.recorded).toBe(1);
+      });
+   });
+
+   describe('Profile', () => {
+      test('should reject requests without authentication', async () => {
+         const res = await request(app).get('/auth/profile');
+
+         expect(res.status).toBe(401);
+      });
+
+      test('should reject guests', async () => {
+         const res = await request(app)
+            .get('/auth/profile')
+            .set('Authorization', `Bearer ${guestToken}`);
+
+         expect(res.status).toBe(403);
+      });
+
+      test('should return lifetime stats and personal bests', async () => {
+         const res = await request(app)
+            .get('/auth/profile')
+            .set('Authorization', `Bearer ${authToken}`);
+
+         expect(res.status).toBe(200);
+         expect(res.body.profile.username).toBe(TEST_USER.username);
+         expect(res.body.profile).not.toHaveProperty('passwordHash');
+         expect(res.body.profile.stats).toMatchObject({
+            matchesPlayed: 2,
+            totalKills: 7,
+            totalScore: 420,
+            totalDeaths: 2,
+            totalRevives: 4,
+            totalPlayTimeMs: 120000,
+         });
+         expect(res.body.profile.personalBests).toMatchObject({
+            bestScore: 300,
+            bestKills: 5,
+            bestWave: 5,
+            longestSurvivalMs: 90000,
+         });
+      });
+   });
+
+   describe('Recent matches', () => {
+      test('should list matches newest first', async () => {
+         const res = await request(app)
+            .get('/auth/profile/matches')
+            .set('Authorization', `Bearer ${authToken}`);
+
+         expect(res.status).toBe(200);
+         expect(res.body.matches.map((match: any) => match.matchId)).toEqual([
+            'match-2',
+            'match-1',
+         ]);
+         expect(res.body.matches[0]).toMatchObject({
+            gameId: 'game-1',
+            playerClass: 'assault',
+            score: 300,
+         });
+      });
+
+      test('should limit the number of matches', async () => {
+         const res = await request(app)
+            .get('/auth/profile/matches?limit=1')
+            .set('Authorization', `Bearer ${authToken}`);
+
+         expect(res.status).toBe(200);
+         expect(res.body.matches).toHaveLength(1);
+      });
+
+      test('should reject an invalid limit', async () => {
+         const res = await request(app)
+            .get('/auth/profile/matches?limit=0')
+            .set('Authorization', `Bearer ${authToken}`);
+
+         expect(res.status).toBe(400);
+      });
+   });
+});
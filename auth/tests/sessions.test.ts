@@ -0,0 +1,175 @@
+import request from 'supertest';
+import { Express } from 'express';
+import path from 'path';
+import fs from 'fs';
+
+let app: Express;
+
+const uniqueId = Math.floor(Math.random() * 10000).toString();
+
+const TEST_USER = {
+   username: `session_${uniqueId}`,
+   password: 'Password123!',
+};
+
+const NEW_PASSWORD = 'Password456!';
+
+const login = (password: string = TEST_USER.password) =>
+   request(app).post('/auth/login').send({ login: TEST_USER.username, password });
+
+const refresh = (refreshToken: string) => request(app).post('/auth/refresh').send({ refreshToken });
+
+beforeAll(async () => {
+   // Own database, test files may run side by side
+   const testDbPath = path.join(__dirname, '..', 'data', 'sessions.test.db');
+
+   if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+   }
+
+   process.env.DB_PATH = './data/sessions.test.db';
+   process.env.JWT_SECRET = 'test-jwt-secret';
+
+   const { createApp } = require('../src/Server');
+   app = createApp();
+
+   await request(app).post('/auth/register').send(TEST_USER);
+});
+
+describe('Sessions', () => {
+   describe('Refresh token rotation', () => {
+      test('should issue a new refresh token on every use', async () => {
+         const session = await login();
+         const res = await refresh(session.body.refreshToken);
+
+         expect(res.status).toBe(200);
+         expect(res.body.token).toBeDefined();
+         expect(res.body.refreshToken).not.toBe(session.body.refreshToken);
+
+         const next = await refresh(res.body.refreshToken);
+
+         expect(next.status).toBe(200);
+      });
+
+      test('should revoke the whole family when a used token comes back', async () => {
+         const session = await login();
+         const rotated = await refresh(session.body.refreshToken);
+
+         const reused = await refresh(session.body.refreshToken);
+
+         expect(reused.status).toBe(401);
+         expect(reused.body.message).toBe('Refresh token reuse detected');
+
+         const afterReuse = await refresh(rotated.body.refreshToken);
+
+         expect(afterReuse.status).toBe(401);
+         expect(afterReuse.body.message).toBe('Refresh token revoked');
+      });
+
+      test('should leave other sessions alone when a family is revoked', async () => {
+         const other = await login();
+         const session = await login();
+         await refresh(session.body.refreshToken);
+         await refresh(session.body.refreshToken);
+
+         const res = await refresh(other.body.refreshToken);
+
+         expect(res.status).toBe(200);
+      });
+
+      test('should reject tokens that were never issued as refresh tokens', async () => {
+         const session = await login();
+         const res = await refresh(session.body.token);
+
+         expect(res.status).toBe(401);
+      });
+
+      test('should not accept a refresh token as an access token', async () => {
+         const session = await login();
+         const res = await request(app)
+            .get('/auth/verify')
+            .set('Authorization', `Bearer ${session.body.refreshToken}`);
+
+         expect(res.status).toBe(401);
+      });
+   });
+
+   describe('Logout', () => {
+      test('should require a refresh token', async () => {
+         const res = await request(app).post('/auth/logout').send({});
+
+         expect(res.status).toBe(400);
+      });
+
+      test('should end the session', async () => {
+         const session = await login();
+         const rotated = await refresh(session.body.refreshToken);
+
+         const res = await request(app)
+            .post('/auth/logout')
+            .send({ refreshToken: rotated.body.refreshToken });
+
+         expect(res.status).toBe(200);
+
+         const afterLogout = await refresh(rotated.body.refreshToken);
+
+         expect(afterLogout.status).toBe(401);
+      });
+
+      test('should end every session when logging out everywhere', async () => {
+         const first = await login();
+         const second = await login();
+
+         const res = await request(app)
+            .post('/auth/logout-all')
+            .set('Authorization', `Bearer ${second.body.token}`);
+
+         expect(res.status).toBe(200);
+         expect((await refresh(first.body.refreshToken)).status).toBe(401);
+         expect((await refresh(second.body.refreshToken)).status).toBe(401);
+         expect((await refresh((await login()).body.refreshToken)).status).toBe(200);
+      });
+
+      test('should reject guests logging out everywhere', async () => {
+         const guest = await request(app).post('/auth/guest');
+         const res = await request(app)
+            .post('/auth/logout-all')
+            .set('Authorization', `Bearer ${guest.body.token}`);
+
+         expect(res.status).toBe(403);
+      });
+   });
+
+   describe('Password change', () => {
+      test('should reject a wrong current password', async () => {
+         const session = await login();
+         const res = await request(app)
+            .post('/auth/password')
+            .set('Authorization', `Bearer ${session.body.token}`)
+            .send({ currentPassword: 'Wrong123!', newPassword: NEW_PASSWORD });
+
+         expect(res.status).toBe(400);
+         expect(res.body.message).toBe('Current password is incorrect');
+      });
+
+      test('should end every other session and start a new one', async () => {
+         const other = await login();
+         const session = await login();
+
+         const res = await request(app)
+            .post('/auth/password')
+            .set('Authorization', `Bearer ${session.body.token}`)
+            .send({ currentPassword: TEST_USER.password, newPassword: NEW_PASSWORD });
+
+         expect(res.status).toBe(200);
+         expect((await refresh(other.body.refreshToken)).status).toBe(401);
+         expect((await refresh(session.body.refreshToken)).status).toBe(401);
+         expect((await refresh(res.body.refreshToken)).status).toBe(200);
+      });
+
+      test('should sign in with the new password only', async () => {
+         expect((await login()).status).toBe(401);
+         expect((await login(NEW_PASSWORD)).status).toBe(200);
+      });
+   });
+});
@@ -20,12 +20,34 @@ import { MapNetworkHandler } from './handlers/MapNetworkHandler';
 import { PerformanceMonitor } from './performance/PerformanceMonitor';
 import { ServerMetricsNetworkHandler } from './handlers/ServerMetricsNetworkHandler';
 import { ClientEnemyManager } from './enemies/ClientEnemyManager';
+import { ClientProjectileManager } from './enemies/ClientProjectileManager';
+import { ClientGrenadeManager } from './grenades/ClientGrenadeManager';
+import { GrenadeNetworkHandler } from './handlers/GrenadeNetworkHandler';
+import { GrenadeHud } from './ui/GrenadeHud';
+import { Scoreboard } from './ui/Scoreboard';
+import { NetworkConditionerPanel } from './ui/NetworkConditionerPanel';
+import { ScoreNetworkHandler } from './handlers/ScoreNetworkHandler';
 import { EnemyNetworkHandler } from './handlers/EnemyNetworkHandler';
 import { GameEffectsManager } from './effects/GameEffectsManager';
+import { GameLobbyInfo } from 'shared/game/lobby/GameLobbyInfo';
+import { WaveAnnouncer } from './ui/WaveAnnouncer';
+import { WaveNetworkHandler } from './handlers/WaveNetworkHandler';
+import { StatusEffectNetworkHandler } from './handlers/StatusEffectNetworkHandler';
+import { PlayerStatusOverlay } from './ui/PlayerStatusOverlay';
+import { GameOverScreen } from './ui/GameOverScreen';
+import { PlayerLifecycleNetworkHandler } from './handlers/PlayerLifecycleNetworkHandler';
+import { PlayerTypeEnum } from 'shared/game/PlayerTypes';
+import { InterpolationClock } from './rendering/interpolation/InterpolationClock';
+import { SnapshotReceiver } from 'shared/game/network/SnapshotReceiver';
+import { ReplayTransport } from './network/ReplayTransport';
+import { ReplayPlayer } from './replay/ReplayPlayer';
+import { MatchReplayView } from 'shared/game/replay/MatchReplay';
 
 export default class FrontendGame extends BaseGame {
    private inputManager: InputManager;
    private clientSocket: ClientGeckosTransport;
+   private snapshotReceiver: SnapshotReceiver;
+   private interpolationClock: InterpolationClock;
    private physicsManager: FrontendPhysicsManager;
    private renderManager: RenderManager;
    private assets: AssetLoader;
@@ -34,62 +56,127 @@ export default class FrontendGame extends BaseGame {
    private trailManager!: TrailManager;
    private entityManager!: EntityManager;
    private localUser!: User;
+   private lobby: GameLobbyInfo | null;
+   private selectedClass: PlayerTypeEnum;
+   private replayView: MatchReplayView | null = null;
+   private replayPlayer: ReplayPlayer | null = null;
 
    private mapSystem!: FrontendMapSystem;
    private performanceMonitor!: PerformanceMonitor;
+   private waveAnnouncer!: WaveAnnouncer;
+   private playerStatusOverlay!: PlayerStatusOverlay;
+   private gameOverScreen!: GameOverScreen;
+   private grenadeHud!: GrenadeHud;
+   private scoreboard!: Scoreboard;
+   private networkConditionerPanel: NetworkConditionerPanel | null = null;
 
    private clientEnemyManager!: ClientEnemyManager;
+   private clientProjectileManager!: ClientProjectileManager;
+   private clientGrenadeManager!: ClientGrenadeManager;
    private enemyNetworkHandler!: EnemyNetworkHandler;
    private gameEffectsManager?: GameEffectsManager;
 
    playerId!: string | null;
 
-   constructor(assets: AssetLoader, user: User) {
+   /**
+    * @param lobby Game to connect to, null only for a replay, see {@link createReplay}
+    */
+   constructor(
+      assets: AssetLoader,
+      user: User,
+      lobby: GameLobbyInfo | null,
+      selectedClass: PlayerTypeEnum = PlayerTypeEnum.Assault,
+   ) {
       super();
       this.physicsManager = FrontendPhysicsManager.createInstance(this);
       this.renderManager = new RenderManager(this);
       this.inputManager = new InputManager(this);
       this.trailManager = new TrailManager();
       this.entityManager = new EntityManager();
-      this.clientSocket = new ClientGeckosTransport();
+      this.clientSocket = lobby ? new ClientGeckosTransport() : new ReplayTransport();
+      this.snapshotReceiver = new SnapshotReceiver(this.clientSocket);
+      this.interpolationClock = new InterpolationClock(this.clientSocket.getPingManager());
       this.assets = assets;
       this.localUser = user;
+      this.lobby = lobby;
+      this.selectedClass = selectedClass;
+   }
+
+   /**
+    * Game that plays back what one player received during a recorded match instead of joining a server.
+    * There is no local player, the camera follows the player the match was recorded for.
+    */
+   public static createReplay(assets: AssetLoader, view: MatchReplayView): FrontendGame {
+      const spectator: User = { id: 'replay', username: '', displayName: 'Spectator' };
+      const game = new FrontendGame(assets, spectator, null);
+      game.replayView = view;
+      return game;
    }
 
    public async init(): Promise<void> {
       try {
-         const authService = AuthService.getInstance();
-         const token = authService.getUser()?.token;
-         console.log('token', token);
-
-         if (!token) {
-            throw new Error('No authentication token available');
+         if (this.lobby) {
+            await this.connect(this.lobby);
          }
 
-         await this.clientSocket.connect({
-            user: this.localUser,
-            token: token,
-         });
-
          await this.physicsManager.init();
          await this.renderManager.init();
 
          this.performanceMonitor = new PerformanceMonitor();
          document.body.appendChild(this.performanceMonitor);
          this.clientSocket.setPerformanceMonitor(this.performanceMonitor);
+         this.performanceMonitor.setNetworkConditioner(this.clientSocket.getNetworkConditioner());
+
+         // Development builds only, a player could otherwise hold their own messages back on purpose
+         if (import.meta.env.DEV && this.lobby) {
+            this.networkConditionerPanel = new NetworkConditionerPanel();
+            this.networkConditionerPanel.setConditioner(this.clientSocket.getNetworkConditioner());
+            document.body.appendChild(this.networkConditionerPanel);
+         }
+
+         this.waveAnnouncer = new WaveAnnouncer();
+         this.waveAnnouncer.setTimeSource(() => this.getServerTime());
+         document.body.appendChild(this.waveAnnouncer);
+
+         this.playerStatusOverlay = new PlayerStatusOverlay();
+         this.playerStatusOverlay.setTimeSource(() => this.getServerTime());
+         document.body.appendChild(this.playerStatusOverlay);
+
+         this.gameOverScreen = new GameOverScreen();
+         this.gameOverScreen.setTimeSource(() => this.getServerTime());
+         document.body.appendChild(this.gameOverScreen);
+
+         this.grenadeHud = new GrenadeHud();
+         this.grenadeHud.setTimeSource(() => this.getServerTime());
+         document.body.appendChild(this.grenadeHud);
+
+         this.scoreboard = new Scoreboard();
+         this.scoreboard.setLocalUsername(this.localUser.username);
+         document.body.appendChild(this.scoreboard);
 
          setInterval(() => {
             const pingManager = this.clientSocket.getPingManager();
             if (pingManager) {
                this.performanceMonitor.updatePingMetrics(pingManager.getCurrentPing(), pingManager.getAveragePing());
             }
+
+            const serverTick = this.physicsManager.getEstimatedServerTick();
+            this.performanceMonitor.updateTickLeadMetrics(
+               serverTick === null || !this.physicsManager.isRunning()
+                  ? null
+                  : this.physicsManager.getGameTick() - serverTick,
+               this.physicsManager.getTargetTickLead(),
+            );
          }, 1000);
 
          this.playerManager = new PlayerManager(this, this.localUser.username);
+         if (this.replayView) {
+            this.playerManager.watchPlayer(this.replayView.viewer);
+         }
          this.inputProcessor = new InputProcessor(this);
 
          this.mapSystem = new FrontendMapSystem(this);
-         this.gameEffectsManager = new GameEffectsManager();
+         this.gameEffectsManager = new GameEffectsManager(this.renderManager.mapContainer);
 
          this.initializeEnemySystem();
 
@@ -97,15 +184,23 @@ export default class FrontendGame extends BaseGame {
          this.registerNetworkHandlers();
          this.networkMessageManager.connectToTransport(this.clientSocket);
 
-         this.clientSocket.broadcast(ServerBound.PlayerConnect, {
-            userInfo: new PlayerData(
-               this.localUser.id,
-               this.localUser.username,
-               this.localUser.displayName || this.localUser.username,
-            ),
-         });
+         if (this.replayView) {
+            this.replayPlayer = new ReplayPlayer(this, this.replayView);
+         } else {
+            this.clientSocket.broadcast(ServerBound.PlayerConnect, {
+               userInfo: new PlayerData(
+                  this.localUser.id,
+                  this.localUser.username,
+                  this.localUser.displayName || this.localUser.username,
+               ),
+            });
+
+            // The server keeps the choice if it arrives before the connect message is handled
+            this.clientSocket.broadcast(ServerBound.SelectClass, { playerType: this.selectedClass });
+         }
 
          this.setupRepeatingTasks();
+         this.replayPlayer?.start();
 
          console.log('CLIENT READY');
          // this.setupNetworkHandlers();
@@ -115,11 +210,43 @@ export default class FrontendGame extends BaseGame {
       }
    }
 
+   private async connect(lobby: GameLobbyInfo): Promise<void> {
+      const authService = AuthService.getInstance();
+      const token = authService.getUser()?.token;
+      console.log('token', token);
+
+      if (!token) {
+         throw new Error('No authentication token available');
+      }
+
+      await this.clientSocket.connect({
+         gameId: lobby.gameId,
+         port: lobby.port,
+         user: this.localUser,
+         token: token,
+      });
+   }
+
+   /**
+    * Clock the server's timestamps are compared against: the server clock as synced by the pings, or the
+    * recorded one while watching a replay
+    */
+   public getServerTime(): number {
+      if (this.replayPlayer) return this.replayPlayer.getTime();
+
+      return this.clientSocket.getPingManager().getClockSync().getServerTime(this.physicsManager.getCurrentTime());
+   }
+
    private registerNetworkHandlers() {
       this.networkMessageManager.registerHandler(new PlayerNetworkHandler(this));
       this.networkMessageManager.registerHandler(new GameFlowNetworkHandler(this));
       this.networkMessageManager.registerHandler(new MapNetworkHandler(this));
       this.networkMessageManager.registerHandler(new ServerMetricsNetworkHandler(this));
+      this.networkMessageManager.registerHandler(new WaveNetworkHandler(this));
+      this.networkMessageManager.registerHandler(new PlayerLifecycleNetworkHandler(this));
+      this.networkMessageManager.registerHandler(new StatusEffectNetworkHandler(this));
+      this.networkMessageManager.registerHandler(new GrenadeNetworkHandler(this));
+      this.networkMessageManager.registerHandler(new ScoreNetworkHandler(this));
    }
 
    private setupRepeatingTasks(): void {
@@ -171,6 +298,11 @@ export default class FrontendGame extends BaseGame {
       this.clientEnemyManager = new ClientEnemyManager(this.assets, this.renderManager, this);
       this.clientEnemyManager.initializePhysics(this.physicsManager.getWorld(), this.physicsManager.getRapier());
 
+      this.clientProjectileManager = new ClientProjectileManager(this.renderManager, this);
+
+      this.clientGrenadeManager = new ClientGrenadeManager(this.renderManager, this);
+      this.clientGrenadeManager.setChargesListener((charges) => this.grenadeHud.setCharges(charges));
+
       // Create enemy network handler
       this.enemyNetworkHandler = new EnemyNetworkHandler(this);
 
@@ -183,6 +315,8 @@ export default class FrontendGame extends BaseGame {
             if (this.clientEnemyManager) {
                this.clientEnemyManager.update();
             }
+            this.clientProjectileManager?.update();
+            this.clientGrenadeManager?.update();
          },
          1, // Every tick
          0, // No initial delay
@@ -229,6 +363,14 @@ export default class FrontendGame extends BaseGame {
       return this.clientSocket;
    }
 
+   public getSnapshotReceiver(): SnapshotReceiver {
+      return this.snapshotReceiver;
+   }
+
+   public getInterpolationClock(): InterpolationClock {
+      return this.interpolationClock;
+   }
+
    public getPhysicsManager(): FrontendPhysicsManager {
       return this.physicsManager;
    }
@@ -241,6 +383,8 @@ export default class FrontendGame extends BaseGame {
     * Clean up game resources
     */
    public cleanup(): void {
+      this.replayPlayer?.stop();
+
       // Clean up physics
       this.physicsManager.stop();
 
@@ -254,6 +398,28 @@ export default class FrontendGame extends BaseGame {
          this.performanceMonitor.parentNode.removeChild(this.performanceMonitor);
       }
 
+      if (this.waveAnnouncer && this.waveAnnouncer.parentNode) {
+         this.waveAnnouncer.parentNode.removeChild(this.waveAnnouncer);
+      }
+
+      if (this.playerStatusOverlay && this.playerStatusOverlay.parentNode) {
+         this.playerStatusOverlay.parentNode.removeChild(this.playerStatusOverlay);
+      }
+
+      if (this.gameOverScreen && this.gameOverScreen.parentNode) {
+         this.gameOverScreen.parentNode.removeChild(this.gameOverScreen);
+      }
+
+      if (this.grenadeHud && this.grenadeHud.parentNode) {
+         this.grenadeHud.parentNode.removeChild(this.grenadeHud);
+      }
+
+      if (this.scoreboard && this.scoreboard.parentNode) {
+         this.scoreboard.parentNode.removeChild(this.scoreboard);
+      }
+
+      this.networkConditionerPanel?.remove();
+
       // Clean up network connection
       this.clientSocket.disconnect();
    }
@@ -268,14 +434,49 @@ export default class FrontendGame extends BaseGame {
       return 32;
    }
 
+   public isClient(): boolean {
+      return true;
+   }
+
    public getPerformanceMonitor(): PerformanceMonitor {
       return this.performanceMonitor;
    }
 
+   public getWaveAnnouncer(): WaveAnnouncer {
+      return this.waveAnnouncer;
+   }
+
+   public getPlayerStatusOverlay(): PlayerStatusOverlay {
+      return this.playerStatusOverlay;
+   }
+
+   public getGameOverScreen(): GameOverScreen {
+      return this.gameOverScreen;
+   }
+
+   public getScoreboard(): Scoreboard {
+      return this.scoreboard;
+   }
+
+   /**
+    * Null outside development builds and while watching a replay
+    */
+   public getNetworkConditionerPanel(): NetworkConditionerPanel | null {
+      return this.networkConditionerPanel;
+   }
+
    public getEnemyManager(): ClientEnemyManager {
       return this.clientEnemyManager;
    }
 
+   public getProjectileManager(): ClientProjectileManager {
+      return this.clientProjectileManager;
+   }
+
+   public getGrenadeManager(): ClientGrenadeManager {
+      return this.clientGrenadeManager;
+   }
+
    public getEffectsManager(): GameEffectsManager | undefined {
       return this.gameEffectsManager;
    }
@@ -1,8 +1,17 @@
 // client/src/game/FrontendPhysicsManager.ts
 import FrontendGame from './FrontendGame';
 import { BasePhysicsManager } from 'shared/game/BasePhysicsManager';
+import { gameSettings } from 'shared/game/SystemSettings';
+import { ClockSync } from 'shared/game/network/ClockSync';
 
 export class FrontendPhysicsManager extends BasePhysicsManager {
+   // Share of the tick lead error made up on each tick, and the most a tick may be stretched or shortened
+   private static readonly TICK_RATE_GAIN = 0.1;
+   private static readonly MAX_TICK_RATE_ADJUSTMENT = 0.05;
+
+   // Errors smaller than this are left alone, the estimate wobbles by about as much between pings
+   private static readonly TICK_LEAD_TOLERANCE = 0.25;
+
    private updateTimer: NodeJS.Timeout | null = null;
    private game: FrontendGame;
    private static frontendInstance: FrontendPhysicsManager;
@@ -30,17 +39,57 @@ export class FrontendPhysicsManager extends BasePhysicsManager {
    public update(): void {
       if (!this.world) return;
 
-      const playerManager = this.game.getPlayerManager();
-      this.game.getInputProcessor().processInput(playerManager.getLocalPlayer());
+      // Watching a replay there is no local player to take input for
+      const localPlayer = this.game.getPlayerManager().getLocalPlayerSafe();
+      if (localPlayer) {
+         this.game.getInputProcessor().processInput(localPlayer);
+      }
       this.step();
 
-      playerManager.getLocalPlayer().trackMovement();
+      localPlayer?.trackMovement();
+      this.adjustTickRate();
+
       const timingMetrics = this.getTimingMetrics();
       this.game
          .getPerformanceMonitor()
          .updateClientTimingMetrics(timingMetrics.physicsStepTime, timingMetrics.tickDuration);
    }
 
+   /**
+    * Tick the server is on right now, with the fraction of the tick that has passed
+    * @returns Null until the clock is synced with a running server, and in replays
+    */
+   public getEstimatedServerTick(): number | null {
+      return this.getClockSync().getEstimatedServerTick(this.getCurrentTime());
+   }
+
+   /**
+    * How many ticks ahead of the server the client aims to be, so its inputs reach the server in time
+    */
+   public getTargetTickLead(): number {
+      return this.getClockSync().getTargetTickLead();
+   }
+
+   /**
+    * Runs the next ticks a little slower when the client is further ahead of the server than it needs to
+    * be, and a little faster when it falls behind. Small steps keep the change from being felt in movement.
+    */
+   private adjustTickRate(): void {
+      const serverTick = this.getEstimatedServerTick();
+      if (serverTick === null) return;
+
+      const error = this.gameTick - serverTick - this.getTargetTickLead();
+      if (Math.abs(error) < FrontendPhysicsManager.TICK_LEAD_TOLERANCE) return;
+
+      const limit = FrontendPhysicsManager.MAX_TICK_RATE_ADJUSTMENT;
+      const adjustment = Math.max(-limit, Math.min(limit, error * FrontendPhysicsManager.TICK_RATE_GAIN));
+      this.shiftSchedule(adjustment * gameSettings.gameUpdateIntervalMillis);
+   }
+
+   private getClockSync(): ClockSync {
+      return this.game.getClientTransport().getPingManager().getClockSync();
+   }
+
    /**
     * Get client physics metrics for performance monitoring
     */
@@ -4,7 +4,7 @@ import { Container } from 'pixi.js';
 import { Player } from 'shared/game/Player';
 import { Position } from 'shared/game/Position';
 import { PlayerMovementState } from '../../../shared/src/game/network/messages/client-bound/PlayerMovementState';
-import { createPlayerTypeConfigs, PlayerTypeEnum } from 'shared/game/PlayerTypes';
+import { createPlayerTypeConfigs, PlayerLifeState, PlayerTypeEnum } from 'shared/game/PlayerTypes';
 import { FrontendGun } from './shooting/FrontendGun';
 import FrontendGame from './FrontendGame';
 import { ShootResult } from '../../../shared/src/game/network/messages/ShootingParams';
@@ -13,6 +13,7 @@ import { ClientPredictionState } from './types/ClientPredictionState';
 import { TimeBasedVault } from './types/TimeBasedVault';
 import { gameSettings } from 'shared/game/SystemSettings';
 import { Displayable } from './rendering/interpolation/Displayable';
+import { InterpolatedEntity, InterpolationComponent } from './rendering/interpolation/InterpolationComponent';
 import { GunType } from 'shared/game/shooting/GunTypes';
 import { InputType } from 'shared/game/Controls';
 import { ServerShootEventData } from 'shared/game/network/messages/client-bound/ServerShootEventData';
@@ -20,8 +21,10 @@ import {
    AnimatedPlayerRenderComponent,
    AnimatedRenderConfig,
 } from './rendering/animation/AnimatedPlayerRenderComponent';
+import { StatusEffectState } from 'shared/game/status-effects/StatusEffectTypes';
+import { getStatusEffectTint } from './rendering/StatusEffectTint';
 
-export class FrontendPlayer extends Player implements Displayable {
+export class FrontendPlayer extends Player implements Displayable, InterpolatedEntity {
    renderComponent: AnimatedPlayerRenderComponent;
    gunContainer: Container;
    private predictionStatesVault: TimeBasedVault<ClientPredictionState> = new TimeBasedVault<ClientPredictionState>(
@@ -31,6 +34,9 @@ export class FrontendPlayer extends Player implements Displayable {
    private pendingServerUpdates: PlayerMovementState[] = [];
    private readonly reconciliationThreshold = 30;
 
+   // Remote players are drawn from the server's snapshots, the local one is predicted instead
+   private interpolationComponent: InterpolationComponent | null = null;
+
    constructor(
       world: RAPIER.World,
       RAPIER: typeof import('@dimforge/rapier2d-compat'),
@@ -71,11 +77,16 @@ export class FrontendPlayer extends Player implements Displayable {
 
       if (!isLocal) {
          this.renderComponent.container.zIndex = 10;
+         this.interpolationComponent = new InterpolationComponent(this, this.game.getInterpolationClock());
       }
 
       this.type.guns.forEach((gunConfig) => {
          this.setGun(gunConfig.type, gunConfig.positionOffset);
       });
+
+      this.statusEffects.setChangeListener(() =>
+         this.renderComponent.setStatusTint(getStatusEffectTint(this.statusEffects.getStates(performance.now()))),
+      );
    }
 
    public shoot(currentTick: number): ShootResult[] {
@@ -146,7 +157,9 @@ export class FrontendPlayer extends Player implements Displayable {
    }
 
    update(): void {
+      this.statusEffects.update(performance.now());
       this.renderComponent.update();
+      this.interpolationComponent?.update();
 
       // Update the gun (important for interpolation and reload state)
       if (this._gun) {
@@ -173,11 +186,13 @@ export class FrontendPlayer extends Player implements Displayable {
          //    serverState.position.y,
          // );
          console.log('updating state for remote player');
-         this.updateState(serverState.position, 0);
+         this.interpolationComponent?.addSnapshot(serverState.timestamp, serverState.position, 0, serverState.velocity);
          // this.setVelocity(serverState.velocity);
 
          // Update movement animation for remote players based on server velocity
-         this.renderComponent.updateMovement(serverState.velocity);
+         if (this.isAlive()) {
+            this.renderComponent.updateMovement(serverState.velocity);
+         }
          return;
       }
 
@@ -221,6 +236,7 @@ export class FrontendPlayer extends Player implements Displayable {
       const needsReconciliation = distance > this.reconciliationThreshold;
       if (!needsReconciliation) return;
       console.log('--------------------- reconciliating ------------------------');
+      this.game.getPerformanceMonitor().onReconciliationCorrection();
 
       // Perform reconciliation for local player
       this.setPosition(serverState.position);
@@ -246,11 +262,33 @@ export class FrontendPlayer extends Player implements Displayable {
 
       this.renderComponent.updateState(this.position, 0);
 
+      if (!this.isAlive()) return;
+
       const movementVelocity = this.movementController.getCurrentVelocity();
       this.renderComponent.updateMovement(movementVelocity);
    }
 
+   /**
+    * A remote player whose state is the same as in the previously applied snapshot
+    */
+   public holdServerState(timestamp: number): void {
+      this.interpolationComponent?.holdState(timestamp);
+   }
+
+   public onInterpolatedUpdate(position: Position, rotation: number): void {
+      this.setPosition(position);
+      this.setRotation(rotation);
+      this.renderComponent.setPosition(position);
+      this.renderComponent.setRotation(rotation);
+   }
+
    updateState(newPosition: Position, newRotation: number) {
+      // A jump the server announced, like a respawn, the snapshots before it would only drag the player back
+      if (this.interpolationComponent) {
+         this.interpolationComponent.reset(newPosition, newRotation);
+         return;
+      }
+
       this.setPosition(newPosition);
       this.setRotation(newRotation);
       this.renderComponent.updateState(newPosition, newRotation);
@@ -259,6 +297,76 @@ export class FrontendPlayer extends Player implements Displayable {
    spawn(position: Position, rotation: number) {
       super.spawn(position, rotation);
       this.renderComponent.updateState(position, this.body.rotation());
+      this.interpolationComponent?.reset(position, rotation);
+   }
+
+   /**
+    * Remove the player from the world and the scene, used when the player is rebuilt as another class
+    */
+   public destroy(): void {
+      this.despawn();
+      this.renderComponent.destroy();
+   }
+
+   /**
+    * Hide a remote player while it is outside the local player's area of interest, its position is stale then
+    */
+   public setInView(inView: boolean): void {
+      this.renderComponent.container.visible = inView;
+   }
+
+   public setHealth(health: number): void {
+      super.setHealth(health);
+      this.renderComponent.updateHealth(this.health, this.maxHealth);
+   }
+
+   /**
+    * Apply the health the server reports after a hit and flash the character
+    */
+   public applyDamage(health: number): void {
+      this.setHealth(health);
+      this.renderComponent.flashDamage();
+   }
+
+   /**
+    * Take over the effects the server reports, slows then also apply to predicted movement
+    */
+   public applyStatusEffects(effects: StatusEffectState[]): void {
+      this.statusEffects.setStates(effects, performance.now());
+   }
+
+   // Damage over time and knockbacks are applied by the server and arrive as health and position updates
+   public takeStatusDamage(): void {}
+
+   public applyKnockback(): void {}
+
+   /**
+    * Switch life state and show it: downed players lie on the ground, dead ones fade out
+    */
+   public applyLifeState(lifeState: PlayerLifeState): void {
+      const previous = this.lifeState;
+      this.setLifeState(lifeState);
+
+      switch (lifeState) {
+         case PlayerLifeState.ALIVE:
+            this.renderComponent.container.alpha = 1;
+            if (previous !== PlayerLifeState.ALIVE) {
+               this.renderComponent.playIdleAnimation();
+            }
+            break;
+
+         case PlayerLifeState.DOWNED:
+            this.renderComponent.container.alpha = 0.8;
+            this.playDeathAnimation();
+            break;
+
+         case PlayerLifeState.DEAD:
+            this.renderComponent.container.alpha = 0.35;
+            if (previous !== PlayerLifeState.DOWNED) {
+               this.playDeathAnimation();
+            }
+            break;
+      }
    }
 
    /**
@@ -11,6 +11,8 @@ export class InputManager {
    private clickQueued = false;
    private lastMousePosition: Position = { x: 0, y: 0 };
    private static readonly MOUSE_MOVE_THRESHOLD: number = 5;
+   // Keys the browser would otherwise act on, Tab moves the focus away from the game
+   private static readonly PREVENT_DEFAULT_CONTROLS: InputType[] = [InputType.TOGGLE_SCOREBOARD];
 
    constructor(game: any) {
       this.game = game;
@@ -30,7 +32,11 @@ export class InputManager {
 
    private handleKeyDown(event: KeyboardEvent) {
       const control = this.getPressedControl(event);
-      if (!control || this.pressedControls[control]) return;
+      if (!control) return;
+      if (InputManager.PREVENT_DEFAULT_CONTROLS.includes(control)) {
+         event.preventDefault();
+      }
+      if (this.pressedControls[control]) return;
       this.pressedControls[control] = true;
    }
 
@@ -6,6 +6,7 @@ import { ServerBound } from 'shared/game/network/SocketEvents';
 import { InputType } from 'shared/game/Controls';
 import { ShootRequest } from '../../../shared/src/game/network/messages/ShootingParams';
 import { ReloadRequest } from 'shared/dist/game/network/messages/ReloadMessages';
+import { ThrowGrenadeRequest } from 'shared/game/network/messages/GrenadeMessages';
 
 export class InputProcessor {
    private game: FrontendGame;
@@ -18,6 +19,15 @@ export class InputProcessor {
    private lastReloadTime: number = 0;
    private readonly RELOAD_INPUT_COOLDOWN = 100;
 
+   // Whether the grenade key was held last frame, the grenade is thrown when it is let go
+   private aimingGrenade = false;
+
+   // Whether the scoreboard key was held last frame, the scoreboard toggles when it goes down
+   private scoreboardKeyHeld = false;
+
+   // Same for the network conditioner panel, which only development builds have
+   private conditionerKeyHeld = false;
+
    constructor(game: FrontendGame) {
       this.game = game;
    }
@@ -29,10 +39,75 @@ export class InputProcessor {
     * @param localPlayer - The client's player instance that inputs will be applied to
     */
    public processInput(localPlayer: FrontendPlayer): void {
+      this.handleScoreboardInput();
+      this.handleConditionerInput();
+
+      // Downed and dead players can't act, the server ignores their input anyway
+      if (!localPlayer.isAlive()) {
+         this.cancelGrenadeAim();
+         return;
+      }
+
       this.handleMovementInput(localPlayer);
       this.handleAimingInput(localPlayer);
       this.handleShootingInput(localPlayer);
       this.handleReloadInput(localPlayer);
+      this.handleGrenadeInput(localPlayer);
+   }
+
+   /**
+    * Show where a grenade would land while the grenade key is held and throw it at the mouse when the key
+    * is released. The server checks the player still has a charge.
+    */
+   private handleGrenadeInput(localPlayer: FrontendPlayer): void {
+      const grenadeManager = this.game.getGrenadeManager();
+      const screenPosition = this.game.getInputManager().getMousePosition();
+      const target = this.game.getRenderManager().getCamera().screenToWorldPosition(screenPosition);
+
+      if (this.game.getInputManager().isControlPressed(InputType.THROW_GRENADE)) {
+         this.aimingGrenade = true;
+         if (target) {
+            grenadeManager.showPreview(localPlayer.position, target, localPlayer.type.grenade);
+         }
+         return;
+      }
+
+      if (!this.aimingGrenade) return;
+      this.cancelGrenadeAim();
+
+      if (!target || !grenadeManager.hasCharge()) return;
+
+      const throwRequest: ThrowGrenadeRequest = {
+         username: localPlayer.username,
+         target,
+      };
+
+      this.game.getClientTransport().broadcast(ServerBound.ThrowGrenade, throwRequest);
+   }
+
+   private handleScoreboardInput(): void {
+      const pressed = this.game.getInputManager().isControlPressed(InputType.TOGGLE_SCOREBOARD);
+      if (pressed && !this.scoreboardKeyHeld) {
+         this.game.getScoreboard().toggle();
+      }
+
+      this.scoreboardKeyHeld = pressed;
+   }
+
+   private handleConditionerInput(): void {
+      const pressed = this.game.getInputManager().isControlPressed(InputType.TOGGLE_NETWORK_CONDITIONER);
+      if (pressed && !this.conditionerKeyHeld) {
+         this.game.getNetworkConditionerPanel()?.toggle();
+      }
+
+      this.conditionerKeyHeld = pressed;
+   }
+
+   private cancelGrenadeAim(): void {
+      if (!this.aimingGrenade) return;
+
+      this.aimingGrenade = false;
+      this.game.getGrenadeManager().hidePreview();
    }
 
    /**
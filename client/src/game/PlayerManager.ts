@@ -1,9 +1,16 @@
 import { FrontendPlayer } from './FrontendPlayer';
-import { PlayerMovementState } from '../../../shared/src/game/network/messages/client-bound/PlayerMovementState';
+import {
+   PlayerMovementState,
+   PlayerSnapshotData,
+} from '../../../shared/src/game/network/messages/client-bound/PlayerMovementState';
 import { PlayerDataToSend } from 'shared/game/network/messages/client-bound/PlayerDataToSend';
 import FrontendGame from './FrontendGame';
 import { FrontendPlayerJoinEvent } from './events/FrontendPlayerJoinEvent';
 import { GameEventEmitter } from 'shared/game/events/GameEventEmitter';
+import { PlayerLifeState } from 'shared/game/PlayerTypes';
+import { SnapshotBuffer } from 'shared/game/network/SnapshotBuffer';
+import { GunStateSnapshotData, GunStateSync } from 'shared/game/network/messages/ReloadMessages';
+import { FrontendGun } from './shooting/FrontendGun';
 
 export class PlayerManager {
    private game: FrontendGame;
@@ -15,6 +22,31 @@ export class PlayerManager {
    private playersMap: Map<string, FrontendPlayer> = new Map();
    private localUsername: string | null = null;
 
+   /**
+    * Username of the teammate the camera follows while the local player is dead
+    * @private
+    */
+   private spectatedUsername: string | null = null;
+
+   /**
+    * Username of the player a replay is watched from, there is no local player then
+    * @private
+    */
+   private watchedUsername: string | null = null;
+
+   /**
+    * Remote players the server sends updates for, null until the server first says so
+    * @private
+    */
+   private playersInView: Set<string> | null = null;
+
+   /**
+    * Player and gun states of the recently applied snapshots, the server diffs against one of them
+    * @private
+    */
+   private playerSnapshots = new SnapshotBuffer<PlayerMovementState>((state) => state.username);
+   private gunSnapshots = new SnapshotBuffer<GunStateSync>((state) => state.gunId);
+
    constructor(game: FrontendGame, localUsername?: string) {
       this.game = game;
       if (localUsername) {
@@ -31,6 +63,24 @@ export class PlayerManager {
       this.localUsername = username;
    }
 
+   /**
+    * Follow a player with the camera and load the map around them, used when watching a replay from their view
+    * @param username Username of the player to watch
+    */
+   public watchPlayer(username: string): void {
+      this.watchedUsername = username;
+   }
+
+   /**
+    * The player the view is centered on: the local player, or the watched one in a replay
+    */
+   public getViewedPlayer(): FrontendPlayer | null {
+      const localPlayer = this.getLocalPlayerSafe();
+      if (localPlayer) return localPlayer;
+
+      return this.watchedUsername ? this.playersMap.get(this.watchedUsername) || null : null;
+   }
+
    /**
     * Check if the given player is the local player
     * @param player Player object or player username
@@ -80,16 +130,24 @@ export class PlayerManager {
       console.log(`Updating player data for ${username}`);
 
       const isLocalPlayer = this.isLocalPlayer(username);
-      const existingPlayer = this.playersMap.get(username);
+      let existingPlayer = this.playersMap.get(username);
 
       console.log('player CREATED WITH PLAYER DATA', data.playerData);
 
+      // A changed class means a different body, sprite and gun, so the player is built again
+      if (existingPlayer && existingPlayer.type.id !== data.playerType) {
+         console.log(`Player ${username} switched class to ${data.playerType}`);
+         existingPlayer.destroy();
+         this.playersMap.delete(username);
+         existingPlayer = undefined;
+      }
+
       if (!existingPlayer) {
          // Create new player
          const player = new FrontendPlayer(
             this.game.getPhysicsManager().getWorld(),
             this.game.getPhysicsManager().getRapier(),
-            data.playerType.id,
+            data.playerType,
             data.playerData,
             this.game,
             data.gunSeed,
@@ -100,11 +158,14 @@ export class PlayerManager {
          // Set initial state
          player.spawn(data.position, 0);
          this.playersMap.set(username, player);
+         player.setInView(this.isInView(username));
          console.log(`Created new player ${username}`);
 
          // Handle local player setup
          if (isLocalPlayer) {
             GameEventEmitter.getInstance().emit(new FrontendPlayerJoinEvent(player, true));
+         } else if (username === this.watchedUsername) {
+            this.game.getRenderManager().getCamera().focusPlayer(player);
          }
       } else {
          // Update existing player's initial state
@@ -112,16 +173,127 @@ export class PlayerManager {
       }
    }
 
+   /**
+    * Apply a player snapshot on top of the baseline it names
+    * @returns false if the baseline is no longer known and the snapshot was dropped
+    */
+   public applySnapshot(data: PlayerSnapshotData): boolean {
+      const changes = this.playerSnapshots.apply(data, data.players);
+      if (!changes) {
+         console.warn(`Dropped player snapshot for tick ${data.tick}, baseline ${data.baselineTick} is not known`);
+         return false;
+      }
+
+      // A player the snapshot leaves out but that changed since the last one went back to its baseline state
+      const sent = new Set(data.players);
+      const updates = changes.changed.map((state) =>
+         sent.has(state)
+            ? state
+            : { ...state, timestamp: data.timestamp, receivedAtClient: performance.timeOrigin + performance.now() },
+      );
+
+      this.handleServerUpdates(updates, data.timestamp);
+      return true;
+   }
+
+   /**
+    * Apply a gun snapshot on top of the baseline it names
+    * @returns false if the baseline is no longer known and the snapshot was dropped
+    */
+   public applyGunSnapshot(data: GunStateSnapshotData): boolean {
+      const changes = this.gunSnapshots.apply(data, data.guns);
+      if (!changes) {
+         console.warn(`Dropped gun snapshot for tick ${data.tick}, baseline ${data.baselineTick} is not known`);
+         return false;
+      }
+
+      for (const gunState of changes.changed) {
+         const player = this.playersMap.get(gunState.username);
+         if (!player) {
+            console.warn(`Gun state sync for unknown player: ${gunState.username}`);
+            continue;
+         }
+
+         const gun = player.getGun() as FrontendGun;
+         if (!gun || gun.id !== gunState.gunId) continue;
+
+         gun.syncFromServer(gunState);
+      }
+
+      return true;
+   }
+
    /**
     * Processes server updates for all players
+    * @param timestamp Server time of the snapshot, players without an update stay where they are as of then
     */
-   public handleServerUpdates(updates: PlayerMovementState[]): void {
+   private handleServerUpdates(updates: PlayerMovementState[], timestamp: number): void {
       updates.forEach((update) => {
          const player = this.playersMap.get(update.username);
          if (player) {
             player.processServerUpdates(update);
          }
       });
+
+      const updated = new Set(updates.map((update) => update.username));
+      this.playersMap.forEach((player, username) => {
+         if (!updated.has(username)) player.holdServerState(timestamp);
+      });
+   }
+
+   /**
+    * Show the remote players in the local player's area of interest and hide the rest
+    * @param usernames Every remote player currently in view
+    */
+   public setPlayersInView(usernames: string[]): void {
+      this.playersInView = new Set(usernames);
+      this.playersMap.forEach((player, username) => player.setInView(this.isInView(username)));
+   }
+
+   private isInView(username: string): boolean {
+      return (
+         this.isLocalPlayer(username) ||
+         username === this.watchedUsername ||
+         !this.playersInView ||
+         this.playersInView.has(username)
+      );
+   }
+
+   /**
+    * Point the camera at a teammate while the local player is dead, and back at the local player otherwise.
+    * Call whenever any player's life state changes.
+    * @returns The spectated player, or null if the local player is not spectating
+    */
+   public updateSpectating(): FrontendPlayer | null {
+      const localPlayer = this.getLocalPlayerSafe();
+      if (!localPlayer) return null;
+
+      const camera = this.game.getRenderManager().getCamera();
+
+      if (localPlayer.lifeState !== PlayerLifeState.DEAD) {
+         if (this.spectatedUsername) {
+            this.spectatedUsername = null;
+            camera.focusPlayer(localPlayer);
+         }
+         return null;
+      }
+
+      const current = this.spectatedUsername ? this.playersMap.get(this.spectatedUsername) : undefined;
+      if (current && current.lifeState !== PlayerLifeState.DEAD) {
+         return current;
+      }
+
+      // Prefer teammates still standing, a downed one may still get back up
+      const candidates = Array.from(this.playersMap.values()).filter(
+         (player) => player !== localPlayer && player.lifeState !== PlayerLifeState.DEAD,
+      );
+      const target = candidates.find((player) => player.isAlive()) ?? candidates[0];
+
+      if (!target) return current ?? null;
+
+      this.spectatedUsername = target.username;
+      camera.focusPlayer(target);
+      return target;
    }
 
    public getPlayers(): Map<string, FrontendPlayer> {
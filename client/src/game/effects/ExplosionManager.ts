@@ -0,0 +1,100 @@
+// client/src/game/effects/ExplosionManager.ts
+import { Container, Graphics } from 'pixi.js';
+import { Position } from 'shared/game/Position';
+
+class SimpleExplosion {
+   private graphics: Graphics;
+   private startTime: number;
+
+   constructor(
+      parent: Container,
+      position: Position,
+      private radius: number,
+      private duration: number = 400,
+   ) {
+      this.startTime = performance.now();
+
+      this.graphics = new Graphics();
+      this.graphics.position.set(position.x, position.y);
+      parent.addChild(this.graphics);
+
+      this.draw(0);
+   }
+
+   public update(): boolean {
+      const progress = (performance.now() - this.startTime) / this.duration;
+
+      if (progress >= 1) {
+         return true;
+      }
+
+      this.draw(progress);
+      return false;
+   }
+
+   /**
+    * Flash that grows to the blast radius while a ring spreads out and both fade
+    */
+   private draw(progress: number): void {
+      const fade = 1 - progress;
+      const growth = 0.4 + 0.6 * Math.sqrt(progress);
+
+      this.graphics.clear();
+      this.graphics.circle(0, 0, this.radius * growth).fill({ color: 0xff8c1a, alpha: 0.55 * fade });
+      this.graphics.circle(0, 0, this.radius * growth * 0.5).fill({ color: 0xfff1a8, alpha: 0.8 * fade });
+      this.graphics
+         .circle(0, 0, this.radius * (0.6 + progress * 0.6))
+         .stroke({ color: 0xffd27a, width: 3, alpha: fade });
+   }
+
+   public destroy(): void {
+      this.graphics.destroy();
+   }
+}
+
+export class ExplosionManager {
+   private explosions: SimpleExplosion[] = [];
+   private container: Container;
+
+   constructor(parent: Container) {
+      this.container = new Container();
+      this.container.zIndex = 9; // Above enemies
+      parent.addChild(this.container);
+   }
+
+   /**
+    * Show an explosion of the given blast radius in world coordinates
+    */
+   public createExplosion(position: Position, radius: number): void {
+      this.explosions.push(new SimpleExplosion(this.container, position, radius));
+   }
+
+   /**
+    * Update all active explosions
+    */
+   public update(): void {
+      this.explosions = this.explosions.filter((explosion) => {
+         const completed = explosion.update();
+         if (completed) {
+            explosion.destroy();
+         }
+         return !completed;
+      });
+   }
+
+   /**
+    * Clear all explosions
+    */
+   public clear(): void {
+      this.explosions.forEach((explosion) => explosion.destroy());
+      this.explosions = [];
+   }
+
+   /**
+    * Cleanup
+    */
+   public destroy(): void {
+      this.clear();
+      this.container.destroy();
+   }
+}
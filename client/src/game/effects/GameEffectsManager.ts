@@ -1,11 +1,18 @@
 import { HitmarkerManager } from './HitmarkerManager';
+import { ExplosionManager } from './ExplosionManager';
 import { Container } from 'pixi.js';
+import { Position } from 'shared/game/Position';
 
 export class GameEffectsManager {
    private hitmarkerManager: HitmarkerManager;
+   private explosionManager: ExplosionManager;
 
-   constructor() {
+   /**
+    * @param worldContainer Container in world coordinates effects at a position are drawn in
+    */
+   constructor(worldContainer: Container) {
       this.hitmarkerManager = new HitmarkerManager();
+      this.explosionManager = new ExplosionManager(worldContainer);
    }
 
    /**
@@ -15,11 +22,19 @@ export class GameEffectsManager {
       this.hitmarkerManager.createHitmarker(entityContainer);
    }
 
+   /**
+    * Create an explosion flash with the given blast radius
+    */
+   public createExplosion(position: Position, radius: number): void {
+      this.explosionManager.createExplosion(position, radius);
+   }
+
    /**
     * Update all effects
     */
    public update(): void {
       this.hitmarkerManager.update();
+      this.explosionManager.update();
    }
 
    /**
@@ -27,6 +42,7 @@ export class GameEffectsManager {
     */
    public clear(): void {
       this.hitmarkerManager.clear();
+      this.explosionManager.clear();
    }
 
    /**
@@ -34,5 +50,6 @@ export class GameEffectsManager {
     */
    public destroy(): void {
       this.hitmarkerManager.destroy();
+      this.explosionManager.destroy();
    }
 }
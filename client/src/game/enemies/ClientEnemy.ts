@@ -16,6 +16,8 @@ import { EnemyFactory } from 'shared/game/enemies/ConcreteEnemies';
 import { BaseEnemy } from 'shared/game/enemies/BaseEnemy';
 import FrontendGame from '../FrontendGame';
 import { calculateHealthbarOffset, createHealthbar, SegmentedHealthbar } from '../ui/SegmentedHealthbar';
+import { StatusEffectState } from 'shared/game/status-effects/StatusEffectTypes';
+import { getStatusEffectTint } from '../rendering/StatusEffectTint';
 
 /**
  * Direction the enemy is facing for texture flipping
@@ -41,8 +43,6 @@ export class ClientEnemy extends MovableEntity implements InterpolatedEntity {
    // Animation state tracking
    private currentAnimationState: EnemyAnimationState = EnemyAnimationState.IDLE;
 
-   // Server state tracking for interpolation
-   private serverPositionHistory: Array<{ position: Position; timestamp: number }> = [];
    private lastUpdateTime: number = 0;
 
    private visualPosition: Position;
@@ -104,6 +104,12 @@ export class ClientEnemy extends MovableEntity implements InterpolatedEntity {
 
       // Spawn the enemy (creates kinematic physics body)
       this.spawn(position, rotation);
+      this.interpolationComponent.reset(position, rotation);
+
+      this.enemyInstance.getStatusEffects().setChangeListener(() => {
+         const effects = this.enemyInstance.getStatusEffects().getStates(performance.now());
+         this.renderComponent.getSprite().tint = getStatusEffectTint(effects);
+      });
 
       // console.log(`✅ Created ClientEnemy ${id} (${enemyType}) with kinematic body and animation system`);
    }
@@ -150,7 +156,7 @@ export class ClientEnemy extends MovableEntity implements InterpolatedEntity {
       this.renderComponent.updateRotation(rotation);
 
       // Create interpolation component
-      this.interpolationComponent = new InterpolationComponent(this, true);
+      this.interpolationComponent = new InterpolationComponent(this, this.game.getInterpolationClock());
    }
 
    /**
@@ -177,6 +183,13 @@ export class ClientEnemy extends MovableEntity implements InterpolatedEntity {
    }
 
    public onInterpolatedUpdate(position: Position, rotation: number): void {
+      // The body follows what is drawn, so shots hit the enemy where the player sees it
+      this.body.setNextKinematicTranslation({
+         x: pixelToPhysics(position.x),
+         y: pixelToPhysics(position.y),
+      });
+      this.setPosition(position);
+
       // Update visual rendering with interpolated values
       this.renderComponent.updatePosition(position.x, position.y);
       this.renderComponent.updateRotation(rotation);
@@ -197,6 +210,9 @@ export class ClientEnemy extends MovableEntity implements InterpolatedEntity {
     * Update client enemy (called every render frame)
     */
    public update(): void {
+      // Drop effects the server said would have run out by now
+      this.enemyInstance.getStatusEffects().update(performance.now());
+
       // Update animation state based on interpolated movement
       this.updateAnimationState();
 
@@ -282,21 +298,8 @@ export class ClientEnemy extends MovableEntity implements InterpolatedEntity {
     * Get interpolated movement speed for animation purposes
     */
    private getInterpolatedMovementSpeed(): number {
-      if (this.serverPositionHistory.length < 2) {
-         return 0;
-      }
-
-      const recent = this.serverPositionHistory[this.serverPositionHistory.length - 1];
-      const previous = this.serverPositionHistory[this.serverPositionHistory.length - 2];
-
-      const timeDelta = (recent.timestamp - previous.timestamp) / 1000; // Convert to seconds
-      if (timeDelta <= 0) return 0;
-
-      const distance = Math.sqrt(
-         Math.pow(recent.position.x - previous.position.x, 2) + Math.pow(recent.position.y - previous.position.y, 2),
-      );
-
-      return distance / timeDelta; // pixels per second
+      const velocity = this.interpolationComponent.getVelocity();
+      return Math.sqrt(velocity.x * velocity.x + velocity.y * velocity.y); // pixels per second
    }
 
    private updateTargetFromNetworkData(targetId?: string): void {
@@ -371,17 +374,19 @@ export class ClientEnemy extends MovableEntity implements InterpolatedEntity {
       };
    }
 
-   public updateFromServer(data: Partial<EnemyNetworkData>): void {
-      if (data.position) {
-         this.updateKinematicPosition(data.position);
-      }
-
-      if (data.rotation !== undefined) {
-         // If position wasn't updated, just update rotation interpolation
-         if (!data.position) {
-            this.interpolationComponent.updateState(this.getCurrentPosition(), data.rotation);
-         }
-         // If position was updated, rotation is already handled in updateKinematicPosition
+   /**
+    * @param timestamp Server time of the update, the enemy is drawn there once the render time reaches it
+    */
+   public updateFromServer(data: Partial<EnemyNetworkData>, timestamp: number): void {
+      if (data.position || data.rotation !== undefined) {
+         const latest = this.interpolationComponent.getLatestState();
+         this.interpolationComponent.addSnapshot(
+            timestamp,
+            data.position ?? latest?.position ?? this.getCurrentPosition(),
+            data.rotation ?? latest?.rotation ?? this.getCurrentRotation(),
+         );
+      } else {
+         this.interpolationComponent.holdState(timestamp);
       }
 
       // if (data.health !== undefined) {
@@ -400,29 +405,11 @@ export class ClientEnemy extends MovableEntity implements InterpolatedEntity {
       this.lastUpdateTime = performance.now();
    }
 
-   private updateKinematicPosition(serverPosition: Position): void {
-      // Store server position for interpolation history
-      this.serverPositionHistory.push({
-         position: { ...serverPosition },
-         timestamp: performance.now(),
-      });
-
-      // Keep only recent history (last 5 updates for smooth interpolation)
-      if (this.serverPositionHistory.length > 5) {
-         this.serverPositionHistory.shift();
-      }
-
-      // Update physics body to new position (for collision detection)
-      this.body.setNextKinematicTranslation({
-         x: pixelToPhysics(serverPosition.x),
-         y: pixelToPhysics(serverPosition.y),
-      });
-
-      // This ensures collision detection works with the server position
-      this.setPosition(serverPosition);
-
-      // Start interpolation from current VISUAL position to new server position
-      this.interpolationComponent.updateState(serverPosition, this.rotationDegrees);
+   /**
+    * An update left the enemy out, it has not changed since the one before
+    */
+   public holdServerState(timestamp: number): void {
+      this.interpolationComponent.holdState(timestamp);
    }
 
    public updateHealth(newHealth: number, newMaxHealth?: number): void {
@@ -456,6 +443,13 @@ export class ClientEnemy extends MovableEntity implements InterpolatedEntity {
       console.log(`${this.enemyType} took ${damage} damage`);
    }
 
+   /**
+    * Take over the effects the server reports and tint the enemy to show them
+    */
+   public applyStatusEffects(effects: StatusEffectState[]): void {
+      this.enemyInstance.getStatusEffects().setStates(effects, performance.now());
+   }
+
    public playDeathAnimation(): void {
       this.renderComponent.setAnimation(EnemyAnimationState.IDLE);
    }
@@ -469,7 +463,7 @@ export class ClientEnemy extends MovableEntity implements InterpolatedEntity {
    }
 
    public destroy(): void {
-      this.interpolationComponent.stopInterpolation();
+      this.interpolationComponent.clear();
 
       if (this.renderComponent.getContainer().parent) {
          // @ts-ignore
@@ -1,6 +1,6 @@
 // client/src/game/enemies/ClientEnemyManager.ts
 
-import { EnemyNetworkData, EnemyType } from 'shared/game/enemies/EnemyInterfaces';
+import { EnemyType } from 'shared/game/enemies/EnemyInterfaces';
 import { Position } from 'shared/game/Position';
 import { AssetLoader } from '../AssetLoader';
 import { RenderManager } from '../rendering/RenderManager';
@@ -8,6 +8,8 @@ import { Container } from 'pixi.js';
 import type * as RAPIER from '@dimforge/rapier2d-compat';
 import { ClientEnemy } from './ClientEnemy';
 import FrontendGame from '../FrontendGame';
+import { EnemyDeltaUpdateData, EnemyDespawnReason } from 'shared/game/network/messages/EnemyNetworkEvents';
+import { EnemySnapshotBuffer, EnemyStateChange } from 'shared/game/enemies/EnemySnapshotBuffer';
 
 /**
  * Configuration for spawning client enemies
@@ -34,6 +36,7 @@ export class ClientEnemyManager {
    // Enemy storage
    private enemies = new Map<string, ClientEnemy>();
    private enemiesByType = new Map<EnemyType, Set<string>>();
+   private snapshotBuffer = new EnemySnapshotBuffer();
 
    // Rendering containers
    private enemyContainer: Container;
@@ -108,10 +111,32 @@ export class ClientEnemyManager {
       }
    }
 
+   /**
+    * Apply a delta update from the server to every enemy it changes
+    * @returns false if the update's baseline is no longer known and it was dropped
+    */
+   public applyUpdate(data: EnemyDeltaUpdateData): boolean {
+      const changes = this.snapshotBuffer.apply(data);
+      if (!changes) {
+         console.warn(`Dropped enemy update for tick ${data.tick}, baseline ${data.baselineTick} is not known`);
+         return false;
+      }
+
+      changes.forEach((change) => this.updateClientEnemy(change, data.timestamp));
+
+      // Enemies the update leaves out have not changed since the one before
+      const changedIds = new Set(changes.map((change) => change.id));
+      this.enemies.forEach((enemy, enemyId) => {
+         if (!changedIds.has(enemyId)) enemy.holdServerState(data.timestamp);
+      });
+      return true;
+   }
+
    /**
     * Update a client enemy with network data
+    * @param timestamp Server time of the update
     */
-   public updateClientEnemy(data: EnemyNetworkData): void {
+   public updateClientEnemy(data: EnemyStateChange, timestamp: number): void {
       const enemy = this.enemies.get(data.id);
       if (!enemy) {
          console.warn(`Received update for unknown enemy: ${data.id}`);
@@ -119,13 +144,13 @@ export class ClientEnemyManager {
       }
 
       // Simple update - let the enemy handle kinematic positioning
-      enemy.updateFromServer(data);
+      enemy.updateFromServer(data, timestamp);
    }
 
    /**
     * Remove a client enemy
     */
-   public despawnClientEnemy(enemyId: string, reason: 'death' | 'cleanup' | 'out_of_bounds'): boolean {
+   public despawnClientEnemy(enemyId: string, reason: EnemyDespawnReason): boolean {
       const enemy = this.enemies.get(enemyId);
       if (!enemy) {
          console.warn(`Attempted to despawn unknown enemy: ${enemyId}`);
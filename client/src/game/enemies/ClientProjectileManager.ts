@@ -0,0 +1,210 @@
+// client/src/game/enemies/ClientProjectileManager.ts
+
+import { Container, Graphics } from 'pixi.js';
+import { Position } from 'shared/game/Position';
+import {
+   DamageAreaSpawnData,
+   ProjectileDestroyData,
+   ProjectileSpawnData,
+} from 'shared/game/network/messages/EnemyNetworkEvents';
+import { EnemyProjectileFlight, EnemyProjectileMotion } from 'shared/game/enemies/projectiles/EnemyProjectileMotion';
+import { RenderManager } from '../rendering/RenderManager';
+import FrontendGame from '../FrontendGame';
+
+interface ClientProjectile {
+   data: ProjectileSpawnData;
+   flight: EnemyProjectileFlight;
+   graphics: Graphics;
+   trail: Position[];
+}
+
+interface ClientDamageArea {
+   data: DamageAreaSpawnData;
+   graphics: Graphics;
+   spawnedAt: number;
+}
+
+/**
+ * Draws enemy projectiles and the ground hazards they leave. The server decides where they hit, the client
+ * flies each projectile along the same path until the server says it is gone.
+ */
+export class ClientProjectileManager {
+   private static readonly TRAIL_LENGTH = 8;
+   private static readonly AREA_FADE_MS = 1000;
+
+   private static readonly PROJECTILE_COLORS: Record<ProjectileSpawnData['projectileType'], number> = {
+      rocket: 0xff7a1a,
+      acid: 0x7cff3a,
+      energy_ball: 0x5ad1ff,
+   };
+
+   private static readonly AREA_COLORS: Record<DamageAreaSpawnData['areaType'], number> = {
+      acid: 0x5fd12a,
+      fire: 0xff6a1a,
+      poison: 0x9b4dff,
+      electric: 0x5ad1ff,
+   };
+
+   private game: FrontendGame;
+   private projectiles = new Map<string, ClientProjectile>();
+   private damageAreas = new Map<string, ClientDamageArea>();
+
+   // Rendering containers
+   private projectileContainer: Container;
+   private groundContainer: Container;
+
+   private lastUpdateTime: number = performance.now();
+
+   constructor(renderManager: RenderManager, game: FrontendGame) {
+      this.game = game;
+
+      this.groundContainer = new Container();
+      renderManager.mapContainer.addChild(this.groundContainer);
+      this.groundContainer.zIndex = 2; // On the floor, below enemies
+
+      this.projectileContainer = new Container();
+      renderManager.mapContainer.addChild(this.projectileContainer);
+      this.projectileContainer.zIndex = 9; // Above enemies
+   }
+
+   public spawnProjectile(data: ProjectileSpawnData): void {
+      if (this.projectiles.has(data.projectileId)) return;
+
+      const speed = Math.hypot(data.velocity.x, data.velocity.y);
+      const flight = EnemyProjectileMotion.create(
+         data.startPosition,
+         data.targetPosition,
+         speed,
+         data.turnRate,
+         data.maxDistance,
+      );
+      flight.velocity = { ...data.velocity };
+
+      const graphics = new Graphics();
+      this.projectileContainer.addChild(graphics);
+
+      const projectile: ClientProjectile = { data, flight, graphics, trail: [] };
+      this.projectiles.set(data.projectileId, projectile);
+      this.drawProjectile(projectile);
+   }
+
+   public destroyProjectile(data: ProjectileDestroyData): void {
+      const projectile = this.projectiles.get(data.projectileId);
+      if (!projectile) return;
+
+      projectile.graphics.destroy();
+      this.projectiles.delete(data.projectileId);
+   }
+
+   public spawnDamageArea(data: DamageAreaSpawnData): void {
+      if (this.damageAreas.has(data.areaId)) return;
+
+      const graphics = new Graphics();
+      graphics.position.set(data.position.x, data.position.y);
+      this.groundContainer.addChild(graphics);
+
+      this.damageAreas.set(data.areaId, { data, graphics, spawnedAt: performance.now() });
+   }
+
+   /**
+    * Advance projectiles by the time since the last frame and animate the hazards
+    */
+   public update(): void {
+      const now = performance.now();
+      const deltaSeconds = Math.min(0.1, (now - this.lastUpdateTime) / 1000);
+      this.lastUpdateTime = now;
+
+      for (const projectile of this.projectiles.values()) {
+         projectile.trail.push({ ...projectile.flight.position });
+         if (projectile.trail.length > ClientProjectileManager.TRAIL_LENGTH) {
+            projectile.trail.shift();
+         }
+
+         // Waits at the end of its range for the server to report where it went off
+         EnemyProjectileMotion.advance(projectile.flight, this.getHomingPosition(projectile), deltaSeconds);
+         this.drawProjectile(projectile);
+      }
+
+      for (const [areaId, area] of this.damageAreas) {
+         const age = now - area.spawnedAt;
+         if (age >= area.data.duration) {
+            area.graphics.destroy();
+            this.damageAreas.delete(areaId);
+            continue;
+         }
+
+         this.drawDamageArea(area, age);
+      }
+   }
+
+   private getHomingPosition(projectile: ClientProjectile): Position | null {
+      const username = projectile.data.homingTargetUsername;
+      if (!username) return null;
+
+      const player = this.game.getPlayerManager().getPlayers().get(username);
+      return player?.isAlive() ? player.position : null;
+   }
+
+   private drawProjectile(projectile: ClientProjectile): void {
+      const { graphics, flight, trail } = projectile;
+      const color = ClientProjectileManager.PROJECTILE_COLORS[projectile.data.projectileType];
+
+      graphics.clear();
+
+      // Trail in world coordinates, fading towards its tail
+      for (let i = 1; i < trail.length; i++) {
+         graphics
+            .moveTo(trail[i - 1].x, trail[i - 1].y)
+            .lineTo(trail[i].x, trail[i].y)
+            .stroke({ color, width: 2 + i * 0.4, alpha: (i / trail.length) * 0.5 });
+      }
+
+      if (projectile.data.projectileType === 'rocket') {
+         const angle = Math.atan2(flight.velocity.y, flight.velocity.x);
+         const dx = Math.cos(angle);
+         const dy = Math.sin(angle);
+         const { x, y } = flight.position;
+
+         graphics.circle(x - dx * 6, y - dy * 6, 5).fill({ color: 0xffd27a, alpha: 0.7 });
+         graphics
+            .moveTo(x - dx * 5, y - dy * 5)
+            .lineTo(x + dx * 7, y + dy * 7)
+            .stroke({ color: 0x3a3a3a, width: 5 });
+         graphics.circle(x + dx * 7, y + dy * 7, 2.5).fill(color);
+      } else {
+         graphics.circle(flight.position.x, flight.position.y, 7).fill({ color, alpha: 0.9 });
+         graphics.circle(flight.position.x, flight.position.y, 10).fill({ color, alpha: 0.25 });
+      }
+   }
+
+   private drawDamageArea(area: ClientDamageArea, age: number): void {
+      const { graphics, data } = area;
+      const color = ClientProjectileManager.AREA_COLORS[data.areaType];
+
+      const remaining = data.duration - age;
+      const fade = Math.min(1, remaining / ClientProjectileManager.AREA_FADE_MS);
+      const pulse = 0.85 + 0.15 * Math.sin(age / 200);
+
+      graphics.clear();
+      graphics.circle(0, 0, data.radius).fill({ color, alpha: 0.3 * fade * pulse });
+      graphics.circle(0, 0, data.radius * 0.6).fill({ color, alpha: 0.25 * fade });
+      graphics.circle(0, 0, data.radius).stroke({ color, width: 2, alpha: 0.6 * fade });
+   }
+
+   /**
+    * Remove every projectile and hazard, the server drops its own when a run ends
+    */
+   public clear(): void {
+      this.projectiles.forEach((projectile) => projectile.graphics.destroy());
+      this.projectiles.clear();
+
+      this.damageAreas.forEach((area) => area.graphics.destroy());
+      this.damageAreas.clear();
+   }
+
+   public destroy(): void {
+      this.clear();
+      this.projectileContainer.destroy();
+      this.groundContainer.destroy();
+   }
+}
@@ -0,0 +1,204 @@
+// client/src/game/grenades/ClientGrenadeManager.ts
+
+import { Container, Graphics } from 'pixi.js';
+import { Position } from 'shared/game/Position';
+import { PlayerGrenadeConfig } from 'shared/game/PlayerTypes';
+import { GrenadeFlight, GrenadeMotion, GrenadeWallCast } from 'shared/game/grenades/GrenadeMotion';
+import {
+   GrenadeChargesData,
+   GrenadeExplodedData,
+   GrenadeThrownData,
+} from 'shared/game/network/messages/GrenadeMessages';
+import { gameSettings } from 'shared/game/SystemSettings';
+import { RenderManager } from '../rendering/RenderManager';
+import FrontendGame from '../FrontendGame';
+
+interface ClientGrenade {
+   data: GrenadeThrownData;
+   flight: GrenadeFlight;
+   graphics: Graphics;
+   thrownAt: number;
+}
+
+/**
+ * Draws thrown grenades and the throw preview while the local player aims one. Grenades fly the same arc
+ * the server simulates, stepped at the server's tick length against the walls of the loaded chunks, until
+ * the server reports where they went off.
+ */
+export class ClientGrenadeManager {
+   // Ticks to catch up on at most after a long frame, the rest is dropped
+   private static readonly MAX_STEPS_PER_FRAME = 5;
+   private static readonly PREVIEW_DOT_EVERY = 2;
+
+   private static readonly GRENADE_COLOR = 0x4b5d3a;
+   private static readonly PREVIEW_COLOR = 0xffffff;
+   private static readonly PREVIEW_EMPTY_COLOR = 0xff5a5a;
+
+   private game: FrontendGame;
+   private grenades = new Map<string, ClientGrenade>();
+   private castWalls: GrenadeWallCast;
+
+   private grenadeContainer: Container;
+   private previewGraphics: Graphics;
+
+   private charges: GrenadeChargesData | null = null;
+   private chargesListener: ((charges: GrenadeChargesData | null) => void) | null = null;
+
+   private lastUpdateTime: number = performance.now();
+   private stepAccumulator = 0;
+
+   constructor(renderManager: RenderManager, game: FrontendGame) {
+      this.game = game;
+
+      const physicsManager = game.getPhysicsManager();
+      this.castWalls = GrenadeMotion.createWallCaster(physicsManager.getWorld(), physicsManager.getRapier());
+
+      this.grenadeContainer = new Container();
+      renderManager.mapContainer.addChild(this.grenadeContainer);
+      this.grenadeContainer.zIndex = 9; // Above enemies, with the enemy projectiles
+
+      this.previewGraphics = new Graphics();
+      this.grenadeContainer.addChild(this.previewGraphics);
+   }
+
+   public spawnGrenade(data: GrenadeThrownData): void {
+      if (this.grenades.has(data.grenadeId)) return;
+
+      const graphics = new Graphics();
+      this.grenadeContainer.addChild(graphics);
+
+      const grenade: ClientGrenade = {
+         data,
+         flight: GrenadeMotion.create(data.origin, data.target, data.maxThrowDistance),
+         graphics,
+         thrownAt: performance.now(),
+      };
+
+      this.grenades.set(data.grenadeId, grenade);
+      this.drawGrenade(grenade, grenade.thrownAt);
+   }
+
+   public explodeGrenade(data: GrenadeExplodedData): void {
+      const grenade = this.grenades.get(data.grenadeId);
+      if (grenade) {
+         grenade.graphics.destroy();
+         this.grenades.delete(data.grenadeId);
+      }
+
+      this.game.getEffectsManager()?.createExplosion(data.position, data.radius);
+   }
+
+   public setCharges(charges: GrenadeChargesData): void {
+      this.charges = charges;
+      this.chargesListener?.(charges);
+   }
+
+   /**
+    * Called with the local player's grenade inventory whenever it changes, null once the run is over
+    */
+   public setChargesListener(listener: (charges: GrenadeChargesData | null) => void): void {
+      this.chargesListener = listener;
+   }
+
+   /**
+    * Whether the local player has a grenade to throw, the server sends the inventory when a run begins
+    */
+   public hasCharge(): boolean {
+      return this.charges !== null && this.charges.charges > 0;
+   }
+
+   /**
+    * Draw where a grenade thrown from the origin towards the target would fly and how far its blast reaches
+    */
+   public showPreview(origin: Position, target: Position, config: PlayerGrenadeConfig): void {
+      const path = GrenadeMotion.predictPath(
+         origin,
+         target,
+         config.maxThrowDistance,
+         config.fuseMs,
+         gameSettings.gameDeltaUpdateSeconds,
+         this.castWalls,
+      );
+
+      const color = this.hasCharge() ? ClientGrenadeManager.PREVIEW_COLOR : ClientGrenadeManager.PREVIEW_EMPTY_COLOR;
+      const graphics = this.previewGraphics;
+      graphics.clear();
+
+      path.forEach((flight, index) => {
+         if (index % ClientGrenadeManager.PREVIEW_DOT_EVERY !== 0) return;
+
+         const alpha = 0.35 + 0.5 * (1 - index / path.length);
+         graphics.circle(flight.position.x, flight.position.y - flight.height, 2.5).fill({ color, alpha });
+      });
+
+      const end = path[path.length - 1];
+      if (end) {
+         graphics.circle(end.position.x, end.position.y, config.radius).fill({ color, alpha: 0.08 });
+         graphics.circle(end.position.x, end.position.y, config.radius).stroke({ color, width: 2, alpha: 0.5 });
+      }
+   }
+
+   public hidePreview(): void {
+      this.previewGraphics.clear();
+   }
+
+   /**
+    * Step every grenade by whole server ticks for the time since the last frame and draw them
+    */
+   public update(): void {
+      const now = performance.now();
+      this.stepAccumulator += Math.min(0.25, (now - this.lastUpdateTime) / 1000);
+      this.lastUpdateTime = now;
+
+      const stepSeconds = gameSettings.gameDeltaUpdateSeconds;
+      let steps = 0;
+      while (this.stepAccumulator >= stepSeconds && steps < ClientGrenadeManager.MAX_STEPS_PER_FRAME) {
+         this.grenades.forEach((grenade) => GrenadeMotion.step(grenade.flight, stepSeconds, this.castWalls));
+         this.stepAccumulator -= stepSeconds;
+         steps++;
+      }
+
+      if (steps === ClientGrenadeManager.MAX_STEPS_PER_FRAME) {
+         this.stepAccumulator = 0;
+      }
+
+      this.grenades.forEach((grenade) => this.drawGrenade(grenade, now));
+   }
+
+   /**
+    * A shadow on the floor and the grenade above it, blinking faster as the fuse runs out
+    */
+   private drawGrenade(grenade: ClientGrenade, now: number): void {
+      const { graphics, flight, data } = grenade;
+      const { x, y } = flight.position;
+      const radius = GrenadeMotion.RADIUS;
+
+      const fuseLeft = Math.max(0, 1 - (now - grenade.thrownAt) / data.fuseMs);
+      const blinkPeriod = 100 + 400 * fuseLeft;
+      const blinking = Math.floor((now - grenade.thrownAt) / blinkPeriod) % 2 === 0;
+
+      graphics.clear();
+      graphics.ellipse(x, y, radius * 1.2, radius * 0.6).fill({ color: 0x000000, alpha: 0.35 });
+      graphics.circle(x, y - flight.height, radius).fill(ClientGrenadeManager.GRENADE_COLOR);
+      graphics.circle(x, y - flight.height, radius).stroke({ color: 0x1f261a, width: 1.5 });
+      graphics.circle(x, y - flight.height - radius * 0.4, 2).fill(blinking ? 0xff3b30 : 0x5a1a16);
+   }
+
+   /**
+    * Remove every grenade and forget the inventory, the server sends a full one when the next run begins
+    */
+   public clear(): void {
+      this.grenades.forEach((grenade) => grenade.graphics.destroy());
+      this.grenades.clear();
+      this.hidePreview();
+
+      this.charges = null;
+      this.chargesListener?.(null);
+   }
+
+   public destroy(): void {
+      this.grenades.forEach((grenade) => grenade.graphics.destroy());
+      this.grenades.clear();
+      this.grenadeContainer.destroy({ children: true });
+   }
+}
@@ -3,16 +3,19 @@
 import { OnClientMessage } from 'shared/game/network/NetworkMessageDecorators';
 import { ClientBound } from 'shared/game/network/SocketEvents';
 import {
+   DamageAreaSpawnData,
    EnemyAbilityData,
    EnemyDeathData,
    EnemyDespawnData,
+   EnemyDeltaUpdateData,
    EnemySpawnData,
-   EnemyUpdateData,
    ExplosionEffectData,
+   ProjectileDestroyData,
    ProjectileSpawnData,
 } from 'shared/game/network/messages/EnemyNetworkEvents';
 import FrontendGame from '../FrontendGame';
 import { EnemyDamageEventBatch } from 'shared/game/network/messages/client-bound/DamageEvents';
+import { SnapshotStream } from 'shared/game/network/messages/client-bound/SnapshotData';
 
 export class EnemyNetworkHandler {
    private game: FrontendGame;
@@ -64,12 +67,14 @@ export class EnemyNetworkHandler {
    }
 
    @OnClientMessage(ClientBound.EnemyUpdate)
-   handleEnemyUpdate(data: EnemyUpdateData): void {
+   handleEnemyUpdate(data: EnemyDeltaUpdateData): void {
       const enemyManager = this.game.getEnemyManager();
-      if (!enemyManager) return;
+      const snapshotReceiver = this.game.getSnapshotReceiver();
+      if (!enemyManager || !snapshotReceiver.isNewer(SnapshotStream.Enemies, data.tick)) return;
 
-      for (const enemyData of data.enemies) {
-         enemyManager.updateClientEnemy(enemyData);
+      this.game.getInterpolationClock().onSnapshot(data.timestamp);
+      if (enemyManager.applyUpdate(data)) {
+         snapshotReceiver.acknowledge(SnapshotStream.Enemies, data.tick);
       }
    }
 
@@ -148,32 +153,21 @@ export class EnemyNetworkHandler {
 
    @OnClientMessage(ClientBound.ExplosionEffect)
    handleExplosionEffect(data: ExplosionEffectData): void {
-      console.log(`Explosion at ${data.position.x}, ${data.position.y} with radius ${data.radius}`);
-
-      // Create explosion visual effect
-      // this.game.getEffectsManager()?.createExplosion({
-      //    position: data.position,
-      //    radius: data.radius,
-      //    damage: data.damage,
-      //    type: data.explosionType,
-      //    affectedEntities: data.affectedEntityIds,
-      // });
+      this.game.getEffectsManager()?.createExplosion(data.position, data.radius);
    }
 
    @OnClientMessage(ClientBound.ProjectileSpawn)
    handleProjectileSpawn(data: ProjectileSpawnData): void {
-      console.log(`Projectile ${data.projectileType} spawned from enemy ${data.sourceEnemyId}`);
-
-      // Create projectile entity
-      // this.game.getProjectileManager()?.createProjectile({
-      //    id: data.projectileId,
-      //    startPosition: data.startPosition,
-      //    targetPosition: data.targetPosition,
-      //    velocity: data.velocity,
-      //    type: data.projectileType,
-      //    damage: data.damage,
-      //    sourceId: data.sourceEnemyId,
-      //    visualEffects: data.visualEffects,
-      // });
+      this.game.getProjectileManager().spawnProjectile(data);
+   }
+
+   @OnClientMessage(ClientBound.ProjectileDestroy)
+   handleProjectileDestroy(data: ProjectileDestroyData): void {
+      this.game.getProjectileManager().destroyProjectile(data);
+   }
+
+   @OnClientMessage(ClientBound.DamageAreaSpawn)
+   handleDamageAreaSpawn(data: DamageAreaSpawnData): void {
+      this.game.getProjectileManager().spawnDamageArea(data);
    }
 }
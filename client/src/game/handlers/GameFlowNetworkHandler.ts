@@ -15,11 +15,12 @@ export class GameFlowNetworkHandler {
    handleStartGame(data: GameStartData): void {
       console.log('Start game event received');
 
-      const currentTime = this.game.getPhysicsManager().getCurrentTime();
+      // Against the synced clock, so the first tick runs when the server's does even if the clocks differ
+      const currentTime = this.game.getServerTime();
       const timeUntilStart = Math.max(0, data.scheduledStartTime - currentTime);
 
       console.log(
-         `Game will start in ${timeUntilStart}ms (local time: ${currentTime}, server scheduled time: ${data.scheduledStartTime})`,
+         `Game will start in ${timeUntilStart}ms (server time: ${currentTime}, server scheduled time: ${data.scheduledStartTime})`,
       );
 
       if (timeUntilStart > 500) {
@@ -28,6 +29,7 @@ export class GameFlowNetworkHandler {
 
       setTimeout(() => {
          console.log(`Starting game engine now at ${this.game.getPhysicsManager().getCurrentTime()}`);
+         this.game.getGameOverScreen().hide();
          this.game.getPhysicsManager().start();
          this.game.getRenderManager().startRendering();
       }, timeUntilStart);
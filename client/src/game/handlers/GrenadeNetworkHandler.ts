@@ -0,0 +1,32 @@
+// client/src/game/handlers/GrenadeNetworkHandler.ts
+import { OnClientMessage } from 'shared/game/network/NetworkMessageDecorators';
+import { ClientBound } from 'shared/game/network/SocketEvents';
+import {
+   GrenadeChargesData,
+   GrenadeExplodedData,
+   GrenadeThrownData,
+} from 'shared/game/network/messages/GrenadeMessages';
+import FrontendGame from '../FrontendGame';
+
+export class GrenadeNetworkHandler {
+   private game: FrontendGame;
+
+   constructor(game: FrontendGame) {
+      this.game = game;
+   }
+
+   @OnClientMessage(ClientBound.GrenadeThrown)
+   handleGrenadeThrown(data: GrenadeThrownData): void {
+      this.game.getGrenadeManager().spawnGrenade(data);
+   }
+
+   @OnClientMessage(ClientBound.GrenadeExploded)
+   handleGrenadeExploded(data: GrenadeExplodedData): void {
+      this.game.getGrenadeManager().explodeGrenade(data);
+   }
+
+   @OnClientMessage(ClientBound.GrenadeCharges)
+   handleGrenadeCharges(data: GrenadeChargesData): void {
+      this.game.getGrenadeManager().setCharges(data);
+   }
+}
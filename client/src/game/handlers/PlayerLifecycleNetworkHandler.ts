@@ -0,0 +1,154 @@
+// client/src/game/handlers/PlayerLifecycleNetworkHandler.ts
+import { OnClientMessage } from 'shared/game/network/NetworkMessageDecorators';
+import { ClientBound } from 'shared/game/network/SocketEvents';
+import {
+   GameOverData,
+   PlayerDiedData,
+   PlayerDownedData,
+   PlayerRespawnData,
+   PlayerRevivedData,
+   PlayerReviveProgressData,
+} from 'shared/game/network/messages/client-bound/PlayerLifecycleData';
+import { PlayerDamagedData, PlayerHealthData } from 'shared/game/network/messages/client-bound/PlayerDamageData';
+import { PlayerLifeState } from 'shared/game/PlayerTypes';
+import { EnemyTemplates } from 'shared/game/enemies/EnemyTemplates';
+import FrontendGame from '../FrontendGame';
+
+export class PlayerLifecycleNetworkHandler {
+   private game: FrontendGame;
+
+   constructor(game: FrontendGame) {
+      this.game = game;
+   }
+
+   @OnClientMessage(ClientBound.PlayerDamaged)
+   handlePlayerDamaged(data: PlayerDamagedData): void {
+      const playerManager = this.game.getPlayerManager();
+      const player = playerManager.getPlayers().get(data.username);
+      if (!player) return;
+
+      player.applyDamage(data.health);
+
+      if (playerManager.isLocalPlayer(player)) {
+         this.game.getPlayerStatusOverlay().flashDamage(data.damage / data.maxHealth);
+      }
+   }
+
+   @OnClientMessage(ClientBound.PlayerHealth)
+   handlePlayerHealth(data: PlayerHealthData): void {
+      const player = this.game.getPlayerManager().getPlayers().get(data.username);
+      player?.setHealth(data.health);
+   }
+
+   @OnClientMessage(ClientBound.PlayerDowned)
+   handlePlayerDowned(data: PlayerDownedData): void {
+      const playerManager = this.game.getPlayerManager();
+      const player = playerManager.getPlayers().get(data.username);
+      if (!player) return;
+
+      player.setHealth(0);
+      player.setVelocity({ x: 0, y: 0 });
+      player.updateState(data.position, 0);
+      player.applyLifeState(PlayerLifeState.DOWNED);
+
+      if (playerManager.isLocalPlayer(player)) {
+         this.game.getPlayerStatusOverlay().showDowned(data.bleedOutAt);
+      } else {
+         const downedBy = data.downedBy?.enemyType ? EnemyTemplates.getTemplate(data.downedBy.enemyType).name : null;
+         this.game
+            .getPlayerStatusOverlay()
+            .showNotice(`${player.playerData.displayName} ${downedBy ? `was downed by ${downedBy}` : 'is down'}!`);
+      }
+
+      playerManager.updateSpectating();
+   }
+
+   @OnClientMessage(ClientBound.PlayerReviveProgress)
+   handleReviveProgress(data: PlayerReviveProgressData): void {
+      const playerManager = this.game.getPlayerManager();
+      const player = playerManager.getPlayers().get(data.username);
+      if (!player) return;
+
+      const overlay = this.game.getPlayerStatusOverlay();
+
+      if (playerManager.isLocalPlayer(player)) {
+         const reviver = data.reviverUsername ? playerManager.getPlayers().get(data.reviverUsername) : undefined;
+         overlay.setReviveProgress(data.progress, reviver?.playerData.displayName ?? data.reviverUsername);
+      } else if (data.reviverUsername && playerManager.isLocalPlayer(data.reviverUsername)) {
+         overlay.setReviving(player.playerData.displayName, data.progress);
+      } else {
+         // The local player may have stepped away from this teammate
+         overlay.stopReviving(player.playerData.displayName);
+      }
+   }
+
+   @OnClientMessage(ClientBound.PlayerRevived)
+   handlePlayerRevived(data: PlayerRevivedData): void {
+      const playerManager = this.game.getPlayerManager();
+      const player = playerManager.getPlayers().get(data.username);
+      if (!player) return;
+
+      player.setHealth(data.health);
+      player.applyLifeState(PlayerLifeState.ALIVE);
+
+      const overlay = this.game.getPlayerStatusOverlay();
+      if (playerManager.isLocalPlayer(player)) {
+         overlay.clear();
+      } else if (playerManager.isLocalPlayer(data.reviverUsername)) {
+         overlay.stopReviving(player.playerData.displayName);
+         overlay.showNotice(`Revived ${player.playerData.displayName}`);
+      }
+
+      playerManager.updateSpectating();
+   }
+
+   @OnClientMessage(ClientBound.PlayerDied)
+   handlePlayerDied(data: PlayerDiedData): void {
+      const playerManager = this.game.getPlayerManager();
+      const player = playerManager.getPlayers().get(data.username);
+      if (!player) return;
+
+      player.updateState(data.position, 0);
+      player.applyLifeState(PlayerLifeState.DEAD);
+
+      const overlay = this.game.getPlayerStatusOverlay();
+      if (!playerManager.isLocalPlayer(player)) {
+         overlay.stopReviving(player.playerData.displayName);
+         overlay.showNotice(`${player.playerData.displayName} died`);
+      }
+
+      const spectated = playerManager.updateSpectating();
+      if (playerManager.getLocalPlayerSafe()?.lifeState === PlayerLifeState.DEAD) {
+         overlay.showSpectating(spectated?.playerData.displayName ?? null);
+      }
+   }
+
+   @OnClientMessage(ClientBound.PlayerRespawn)
+   handlePlayerRespawn(data: PlayerRespawnData): void {
+      const playerManager = this.game.getPlayerManager();
+      const player = playerManager.getPlayers().get(data.username);
+      if (!player) return;
+
+      player.setHealth(data.health);
+      player.setVelocity({ x: 0, y: 0 });
+      player.updateState(data.position, 0);
+      player.applyLifeState(PlayerLifeState.ALIVE);
+
+      // The game over screen stays up until the next run actually starts
+      if (playerManager.isLocalPlayer(player)) {
+         this.game.getPlayerStatusOverlay().clear();
+      }
+
+      playerManager.updateSpectating();
+   }
+
+   @OnClientMessage(ClientBound.GameOver)
+   handleGameOver(data: GameOverData): void {
+      console.log(`Game over, reached wave ${data.wavesReached}`);
+      this.game.getPlayerStatusOverlay().clear();
+      this.game.getProjectileManager().clear();
+      this.game.getGrenadeManager().clear();
+      this.game.getScoreboard().clear();
+      this.game.getGameOverScreen().show(data);
+   }
+}
@@ -5,10 +5,17 @@ import FrontendGame from '../FrontendGame';
 import { PlayerDataToSend } from 'shared/game/network/messages/client-bound/PlayerDataToSend';
 import { ServerShootEventData } from 'shared/game/network/messages/client-bound/ServerShootEventData';
 import { PlayerAimData } from 'shared/game/network/messages/server-bound/PlayerAimData';
-import { GunStateSync, ReloadEvent } from '../../../../shared/src/game/network/messages/ReloadMessages';
+import { GunStateSnapshotData, ReloadEvent } from '../../../../shared/src/game/network/messages/ReloadMessages';
 import { FrontendPlayer } from '../FrontendPlayer';
 import { FrontendGun } from '../shooting/FrontendGun';
-import { PlayerMovementState } from '../../../../shared/src/game/network/messages/client-bound/PlayerMovementState';
+import { PlayerSnapshotData } from '../../../../shared/src/game/network/messages/client-bound/PlayerMovementState';
+import { SnapshotStream } from 'shared/game/network/messages/client-bound/SnapshotData';
+import {
+   ClassSelectionData,
+   ClassSelectionRejection,
+} from 'shared/game/network/messages/client-bound/ClassSelectionData';
+import { createPlayerTypeConfigs } from 'shared/game/PlayerTypes';
+import { PlayersInViewData } from 'shared/game/network/messages/client-bound/PlayersInViewData';
 
 export class PlayerNetworkHandler {
    private game: FrontendGame;
@@ -27,6 +34,24 @@ export class PlayerNetworkHandler {
       console.log('started rendering');
    }
 
+   @OnClientMessage(ClientBound.ClassSelection)
+   handleClassSelection(data: ClassSelectionData): void {
+      if (data.accepted) return;
+
+      const classConfigs = createPlayerTypeConfigs(this.game.getPhysicsManager().getRapier());
+      const requested = classConfigs[data.requested]?.name ?? data.requested;
+      const current = classConfigs[data.playerType].name;
+
+      const reason =
+         data.reason === ClassSelectionRejection.ClassFull
+            ? `${requested} is full`
+            : data.reason === ClassSelectionRejection.GameStarted
+              ? `Can't switch to ${requested} during a run`
+              : `Unknown class ${requested}`;
+
+      this.game.getPlayerStatusOverlay().showNotice(`${reason}, playing as ${current}`, 4000);
+   }
+
    @OnClientMessage(ClientBound.PlayerShoot)
    handlePlayerShoot(data: ServerShootEventData): void {
       const player = this.game.getPlayerManager().getPlayers().get(data.username);
@@ -51,8 +76,19 @@ export class PlayerNetworkHandler {
    }
 
    @OnClientMessage(ClientBound.UpdateAllPlayers)
-   handleUpdateAllPlayers(data: PlayerMovementState[]): void {
-      this.game.getPlayerManager().handleServerUpdates(data);
+   handleUpdateAllPlayers(data: PlayerSnapshotData): void {
+      const snapshotReceiver = this.game.getSnapshotReceiver();
+      if (!snapshotReceiver.isNewer(SnapshotStream.Players, data.tick)) return;
+
+      this.game.getInterpolationClock().onSnapshot(data.timestamp);
+      if (this.game.getPlayerManager().applySnapshot(data)) {
+         snapshotReceiver.acknowledge(SnapshotStream.Players, data.tick);
+      }
+   }
+
+   @OnClientMessage(ClientBound.PlayersInView)
+   handlePlayersInView(data: PlayersInViewData): void {
+      this.game.getPlayerManager().setPlayersInView(data.usernames);
    }
 
    @OnClientMessage(ClientBound.ReloadEvent)
@@ -78,21 +114,12 @@ export class PlayerNetworkHandler {
    }
 
    @OnClientMessage(ClientBound.GunStateSync)
-   handleGunStateSync(data: GunStateSync): void {
-      const player = this.game.getPlayerManager().getPlayerById(data.playerId) as FrontendPlayer;
-      if (!player) {
-         console.warn(`Gun state sync for unknown player: ${data.playerId}`);
-         return;
-      }
+   handleGunStateSync(data: GunStateSnapshotData): void {
+      const snapshotReceiver = this.game.getSnapshotReceiver();
+      if (!snapshotReceiver.isNewer(SnapshotStream.Guns, data.tick)) return;
 
-      const gun = player.getGun() as FrontendGun;
-
-      if (!gun) {
-         console.warn('player doesnt have a gun');
-         return;
+      if (this.game.getPlayerManager().applyGunSnapshot(data)) {
+         snapshotReceiver.acknowledge(SnapshotStream.Guns, data.tick);
       }
-
-      console.log('SYNCING GUN');
-      gun.syncFromServer(data);
    }
 }
@@ -0,0 +1,18 @@
+// client/src/game/handlers/ScoreNetworkHandler.ts
+import { OnClientMessage } from 'shared/game/network/NetworkMessageDecorators';
+import { ClientBound } from 'shared/game/network/SocketEvents';
+import { ScoreUpdateData } from 'shared/game/network/messages/client-bound/ScoreData';
+import FrontendGame from '../FrontendGame';
+
+export class ScoreNetworkHandler {
+   private game: FrontendGame;
+
+   constructor(game: FrontendGame) {
+      this.game = game;
+   }
+
+   @OnClientMessage(ClientBound.ScoreUpdate)
+   handleScoreUpdate(data: ScoreUpdateData): void {
+      this.game.getScoreboard().setScores(data);
+   }
+}
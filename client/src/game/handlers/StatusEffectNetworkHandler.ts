@@ -0,0 +1,22 @@
+// client/src/game/handlers/StatusEffectNetworkHandler.ts
+import { OnClientMessage } from 'shared/game/network/NetworkMessageDecorators';
+import { ClientBound } from 'shared/game/network/SocketEvents';
+import { StatusEffectsData } from 'shared/game/network/messages/client-bound/StatusEffectsData';
+import FrontendGame from '../FrontendGame';
+
+export class StatusEffectNetworkHandler {
+   private game: FrontendGame;
+
+   constructor(game: FrontendGame) {
+      this.game = game;
+   }
+
+   @OnClientMessage(ClientBound.StatusEffects)
+   handleStatusEffects(data: StatusEffectsData): void {
+      if (data.targetType === 'player') {
+         this.game.getPlayerManager().getPlayers().get(data.targetId)?.applyStatusEffects(data.effects);
+      } else {
+         this.game.getEnemyManager()?.getClientEnemy(data.targetId)?.applyStatusEffects(data.effects);
+      }
+   }
+}
@@ -0,0 +1,31 @@
+// client/src/game/handlers/WaveNetworkHandler.ts
+import { OnClientMessage } from 'shared/game/network/NetworkMessageDecorators';
+import { ClientBound } from 'shared/game/network/SocketEvents';
+import { WaveClearedData, WaveIncomingData, WaveStartData } from 'shared/game/network/messages/client-bound/WaveData';
+import FrontendGame from '../FrontendGame';
+
+export class WaveNetworkHandler {
+   private game: FrontendGame;
+
+   constructor(game: FrontendGame) {
+      this.game = game;
+   }
+
+   @OnClientMessage(ClientBound.WaveIncoming)
+   handleWaveIncoming(data: WaveIncomingData): void {
+      console.log(`Wave ${data.waveNumber} incoming with ${data.enemyCount} enemies`);
+      this.game
+         .getWaveAnnouncer()
+         .showIncoming(data.waveNumber, data.startsAt, data.enemyCount, data.bossTypes?.length ?? 0);
+   }
+
+   @OnClientMessage(ClientBound.WaveStart)
+   handleWaveStart(data: WaveStartData): void {
+      this.game.getWaveAnnouncer().showStarted(data.waveNumber, data.enemyCount);
+   }
+
+   @OnClientMessage(ClientBound.WaveCleared)
+   handleWaveCleared(data: WaveClearedData): void {
+      this.game.getWaveAnnouncer().showCleared(data.waveNumber);
+   }
+}
@@ -26,12 +26,12 @@ export class FrontendMapSystem {
     * Update map chunks based on player position
     */
    public update(): void {
-      // Get local player
-      const localPlayer = this.game.getPlayerManager().getLocalPlayerSafe();
-      if (!localPlayer) return;
+      // Get the local player, or the one a replay is watched from
+      const viewedPlayer = this.game.getPlayerManager().getViewedPlayer();
+      if (!viewedPlayer) return;
 
       // Update chunks around player
-      const position = localPlayer.position;
+      const position = viewedPlayer.position;
       this.chunkManager.updateChunksAroundPlayer(position.x, position.y);
    }
 
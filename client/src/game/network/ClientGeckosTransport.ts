@@ -6,9 +6,11 @@ import { config } from 'shared/game/SystemSettings';
 import { PlayerData } from 'shared/game/PlayerData';
 import { PerformanceMonitor } from '../performance/PerformanceMonitor';
 import { PingManager, PingRequestData } from '../../../../shared/src/game/network/PingSystem';
+import { NetworkConditioner } from './NetworkConditioner';
 
 export interface ClientGeckosOptions {
    gameId?: string;
+   port?: number; // Port of the game's own namespace, given by the lobby
    user?: PlayerData; // Add the user field
    token?: string; // Add auth token field
 }
@@ -21,18 +23,20 @@ export class ClientGeckosTransport extends BaseSocketTransport {
    private pendingReliableMessages: Map<string, boolean> = new Map();
    private performanceMonitor?: PerformanceMonitor;
    private pingManager: PingManager = new PingManager();
+   private conditioner: NetworkConditioner = new NetworkConditioner();
 
    async connect(options: ClientGeckosOptions): Promise<void> {
       this.options = options; // Store options for later use
 
       return new Promise((resolve, reject) => {
-         console.log('trying to connect to', config.ip, config.port);
+         const port = options.port ?? config.port;
+         console.log('trying to connect to', config.ip, port, options.gameId);
          try {
             // Connect to the geckos.io server
             this.channel = geckos({
                // url: `http://${config.ip}`,
-               port: config.port,
-               label: 'game-1',
+               port: port,
+               label: options.gameId || 'default-game',
                authorization: options.token,
             });
 
@@ -67,34 +71,56 @@ export class ClientGeckosTransport extends BaseSocketTransport {
       this.channel.onDisconnect(() => {
          console.log('Disconnected from game server');
          this.connected = false;
+         this.conditioner.clear();
          this.notifyDisconnectHandlers();
       });
 
       // Handle normal messages
       Object.values(ClientBound).forEach((eventType) => {
          this.channel.on(eventType, (data: Data) => {
-            // Check if this is a reliable message with an ID
-            if (typeof data === 'object' && data && '_reliableId' in data) {
-               this.handleReliableMessage(eventType, data);
-            } else {
-               // Regular message handling
-               this.notifyMessageHandlers(eventType, data as EventDataMap[typeof eventType]);
+            this.conditioner.apply(() => {
+               // Check if this is a reliable message with an ID
+               if (typeof data === 'object' && data && '_reliableId' in data) {
+                  this.handleReliableMessage(eventType, data);
+               } else {
+                  // Regular message handling
+                  this.performanceMonitor?.onNetworkDataReceived(eventType, JSON.stringify(data ?? null).length);
+                  this.notifyMessageHandlers(eventType, data as EventDataMap[typeof eventType]);
+               }
+            });
+         });
+      });
+
+      // Hot messages arrive in the binary protocol, decoded they reach the same handlers as JSON messages
+      this.channel.onRaw((rawMessage) => {
+         this.conditioner.apply(() => {
+            const decoded = this.decodeBinaryMessage(rawMessage);
+            if (!decoded) return;
+
+            if (this.performanceMonitor) {
+               this.performanceMonitor.onNetworkDataReceived(decoded.eventType, (rawMessage as ArrayBuffer).byteLength);
             }
+
+            this.notifyMessageHandlers(decoded.eventType, decoded.data);
          });
       });
 
       // Handle special reliable message acknowledgments
       this.channel.on('_reliableAck', (ackData: Data) => {
-         if (typeof ackData === 'object' && ackData && '_reliableId' in ackData) {
-            const msgId = ackData._reliableId as string;
+         this.conditioner.apply(() => this.handleReliableAck(ackData));
+      });
+   }
 
-            // Mark the message as acknowledged if it's in our pending map
-            if (this.pendingReliableMessages.has(msgId)) {
-               this.pendingReliableMessages.set(msgId, true);
-               // console.log(`📡 CLIENT: Reliable message ${msgId} acknowledged by server`);
-            }
+   private handleReliableAck(ackData: Data): void {
+      if (typeof ackData === 'object' && ackData && '_reliableId' in ackData) {
+         const msgId = ackData._reliableId as string;
+
+         // Mark the message as acknowledged if it's in our pending map
+         if (this.pendingReliableMessages.has(msgId)) {
+            this.pendingReliableMessages.set(msgId, true);
+            // console.log(`📡 CLIENT: Reliable message ${msgId} acknowledged by server`);
          }
-      });
+      }
    }
 
    private handleReliableMessage(eventType: string, data: Record<string, any>): void {
@@ -103,13 +129,16 @@ export class ClientGeckosTransport extends BaseSocketTransport {
 
       if (this.performanceMonitor) {
          const dataSize = JSON.stringify(data).length;
-         this.performanceMonitor.onNetworkDataReceived(dataSize);
+         this.performanceMonitor.onNetworkDataReceived(eventType, dataSize);
       }
 
       // If we've already processed this message, don't process it again
       if (msgTracker.has(reliableId)) {
+         // The server sent it again, our acknowledgment or its first copy got lost
+         this.performanceMonitor?.onReliableDuplicate();
+
          // Send acknowledgment
-         this.channel.emit('_reliableAck', { _reliableId: reliableId });
+         this.emit('_reliableAck', { _reliableId: reliableId });
          return;
       }
 
@@ -129,7 +158,7 @@ export class ClientGeckosTransport extends BaseSocketTransport {
       );
 
       // Send acknowledgment
-      this.channel.emit('_reliableAck', { _reliableId: reliableId });
+      this.emit('_reliableAck', { _reliableId: reliableId });
 
       // Process the message (after removing the _reliableId field)
       const { _reliableId, ...messageData } = data;
@@ -140,6 +169,7 @@ export class ClientGeckosTransport extends BaseSocketTransport {
    }
 
    disconnect(): void {
+      this.conditioner.clear();
       this.channel.close();
    }
 
@@ -149,20 +179,28 @@ export class ClientGeckosTransport extends BaseSocketTransport {
          return;
       }
 
-      const dataSize = JSON.stringify(data).length;
+      let dataSize: number;
 
       // Check if this event should be sent reliably
       const reliability = EventReliability[eventType] || 'unreliable';
 
       if (reliability === 'reliable') {
+         dataSize = JSON.stringify(data).length;
          this.sendReliableMessage(eventType, data);
       } else {
          // For regular game updates, use unreliable transfer
-         this.channel.emit(eventType, data);
+         const binary = this.encodeBinaryMessage(eventType, data);
+         if (binary) {
+            dataSize = binary.byteLength;
+            this.conditioner.apply(() => this.channel.raw.emit(binary));
+         } else {
+            dataSize = JSON.stringify(data).length;
+            this.emit(eventType, data as Data);
+         }
       }
 
       if (this.performanceMonitor) {
-         this.performanceMonitor.onNetworkDataSent(dataSize);
+         this.performanceMonitor.onNetworkDataSent(eventType, dataSize);
       }
    }
 
@@ -201,7 +239,7 @@ export class ClientGeckosTransport extends BaseSocketTransport {
       this.pendingReliableMessages.set(reliableId, false);
 
       // Send the message
-      this.channel.emit(eventType, reliableData);
+      this.emit(eventType, reliableData);
       // console.log(`📡 CLIENT: Sent initial reliable message ${reliableId}`);
 
       // Set up retry mechanism (send up to 5 times with increasing delays)
@@ -245,7 +283,8 @@ export class ClientGeckosTransport extends BaseSocketTransport {
             }
 
             console.log(`📡 CLIENT: Retry #${retries} for reliable message ${reliableId}`);
-            this.channel.emit(eventType, reliableData);
+            this.performanceMonitor?.onReliableRetransmit();
+            this.emit(eventType, reliableData);
 
             // Schedule next retry
             attemptSend();
@@ -256,6 +295,11 @@ export class ClientGeckosTransport extends BaseSocketTransport {
       attemptSend();
    }
 
+   // Every message leaves through the conditioner, which hands it straight to the channel while it is off
+   private emit(eventType: string, data: Data): void {
+      this.conditioner.apply(() => this.channel.emit(eventType, data));
+   }
+
    public setPerformanceMonitor(monitor: PerformanceMonitor): void {
       this.performanceMonitor = monitor;
    }
@@ -263,4 +307,8 @@ export class ClientGeckosTransport extends BaseSocketTransport {
    public getPingManager(): PingManager {
       return this.pingManager;
    }
+
+   public getNetworkConditioner(): NetworkConditioner {
+      return this.conditioner;
+   }
 }
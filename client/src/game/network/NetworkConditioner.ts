@@ -0,0 +1,95 @@
+// client/src/game/network/NetworkConditioner.ts
+
+/**
+ * Conditions the conditioner puts on the connection. They apply to both directions, so the measured ping
+ * grows by twice the latency.
+ */
+export interface NetworkConditions {
+   enabled: boolean;
+
+   /** Delay added to every message, in milliseconds */
+   latencyMs: number;
+
+   /** Up to this many milliseconds are added to or taken off the delay of each message */
+   jitterMs: number;
+
+   /** Chance between 0 and 1 that a message is lost, reliable events included */
+   packetLoss: number;
+}
+
+/**
+ * Messages the conditioner lost or held back since the conditions last changed
+ */
+export interface NetworkConditionerStats {
+   dropped: number;
+   delayed: number;
+}
+
+/**
+ * Makes a good connection behave like a bad one, for trying out how the game plays under latency, jitter
+ * and loss. Sits between the transport and the channel on both ends of the connection. Lost reliable
+ * events are left to the retransmits of the client and the server, like real loss would be.
+ */
+export class NetworkConditioner {
+   private conditions: NetworkConditions = { enabled: false, latencyMs: 0, jitterMs: 0, packetLoss: 0 };
+   private pendingDeliveries: Set<ReturnType<typeof setTimeout>> = new Set();
+   private stats: NetworkConditionerStats = { dropped: 0, delayed: 0 };
+
+   public setConditions(conditions: Partial<NetworkConditions>): void {
+      this.conditions = { ...this.conditions, ...conditions };
+      this.stats = { dropped: 0, delayed: 0 };
+   }
+
+   public getConditions(): NetworkConditions {
+      return { ...this.conditions };
+   }
+
+   public isActive(): boolean {
+      const { enabled, latencyMs, jitterMs, packetLoss } = this.conditions;
+      return enabled && (latencyMs > 0 || jitterMs > 0 || packetLoss > 0);
+   }
+
+   /**
+    * Pass a message through, right away while the conditioner is off
+    * @returns False if the conditions lost it, deliver is never called then
+    */
+   public apply(deliver: () => void): boolean {
+      if (!this.isActive()) {
+         deliver();
+         return true;
+      }
+
+      const { latencyMs, jitterMs, packetLoss } = this.conditions;
+      if (packetLoss > 0 && Math.random() < packetLoss) {
+         this.stats.dropped++;
+         return false;
+      }
+
+      // Jitter alone lets messages overtake each other, as they can over an unordered channel
+      const delay = Math.max(0, latencyMs + (Math.random() * 2 - 1) * jitterMs);
+      if (delay <= 0) {
+         deliver();
+         return true;
+      }
+
+      this.stats.delayed++;
+      const timeout = setTimeout(() => {
+         this.pendingDeliveries.delete(timeout);
+         deliver();
+      }, delay);
+      this.pendingDeliveries.add(timeout);
+      return true;
+   }
+
+   /**
+    * Drop everything still held back, the connection is gone
+    */
+   public clear(): void {
+      this.pendingDeliveries.forEach((timeout) => clearTimeout(timeout));
+      this.pendingDeliveries.clear();
+   }
+
+   public getStats(): NetworkConditionerStats {
+      return { ...this.stats };
+   }
+}
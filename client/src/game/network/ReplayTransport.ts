@@ -0,0 +1,18 @@
+// client/src/game/network/ReplayTransport.ts
+import { ClientGeckosTransport } from './ClientGeckosTransport';
+
+/**
+ * Stands in for the connection while watching a replay. Messages come from the recording instead of a
+ * server, and whatever the game tries to send back is dropped.
+ */
+export class ReplayTransport extends ClientGeckosTransport {
+   async connect(): Promise<void> {
+      this.connected = true;
+   }
+
+   disconnect(): void {
+      this.connected = false;
+   }
+
+   broadcast(): void {}
+}
@@ -2,6 +2,7 @@
 
 import { css, html, LitElement } from 'lit';
 import { customElement, state } from 'lit/decorators.js';
+import { NetworkConditioner } from '../network/NetworkConditioner';
 
 export interface PerformanceMetrics {
    renderingFps: number;
@@ -18,6 +19,33 @@ export interface PerformanceMetrics {
    averagePingMs: number;
 }
 
+/**
+ * Traffic of one event type during one second
+ */
+export interface EventTraffic {
+   bytesIn: number;
+   bytesOut: number;
+   messagesIn: number;
+   messagesOut: number;
+}
+
+/**
+ * Network activity during one second of the history graphed in the overlay
+ */
+export interface NetworkHistorySample extends EventTraffic {
+   /** Reliable messages the client sent again because the server had not acknowledged them */
+   retransmits: number;
+
+   /** Reliable messages the server sent again that the client had already handled */
+   duplicates: number;
+
+   /** Times the local player was moved to where the server had it */
+   corrections: number;
+
+   /** The same traffic split by event type */
+   events: Record<string, EventTraffic>;
+}
+
 @customElement('performance-monitor')
 export class PerformanceMonitor extends LitElement {
    @state() private fps = 0;
@@ -32,6 +60,8 @@ export class PerformanceMonitor extends LitElement {
    @state() private networkOutbound = 0;
    @state() private ping = 0;
    @state() private averagePing = 0;
+   @state() private tickLead: number | null = null;
+   @state() private targetTickLead = 0;
 
    // FPS calculation
    private frameCount = 0;
@@ -47,6 +77,13 @@ export class PerformanceMonitor extends LitElement {
    private inboundBytes = 0;
    private outboundBytes = 0;
 
+   // Network history, a sample per second
+   private static readonly HISTORY_LENGTH = 60;
+   private static readonly GRAPHED_EVENT_TYPES = 6;
+   private networkHistory: NetworkHistorySample[] = [];
+   private currentSample: NetworkHistorySample = PerformanceMonitor.createSample();
+   private conditioner: NetworkConditioner | null = null;
+
    static styles = css`
       :host {
          position: fixed;
@@ -134,6 +171,65 @@ export class PerformanceMonitor extends LitElement {
       .network {
          color: #3b82f6;
       }
+
+      .history-container {
+         margin-top: 6px;
+         background: rgba(0, 0, 0, 0.8);
+         border-radius: 8px;
+         padding: 10px 16px;
+         font-family: 'Courier New', monospace;
+         font-size: 11px;
+         color: white;
+         border: 1px solid rgba(255, 255, 255, 0.1);
+         backdrop-filter: blur(4px);
+      }
+
+      .graph-row {
+         display: flex;
+         gap: 16px;
+      }
+
+      .graph {
+         display: flex;
+         flex-direction: column;
+         gap: 2px;
+      }
+
+      .sparkline polyline {
+         fill: none;
+         stroke: currentColor;
+         stroke-width: 1.5;
+      }
+
+      .event-table {
+         margin-top: 8px;
+         border-collapse: collapse;
+         width: 100%;
+      }
+
+      .event-table th {
+         color: #94a3b8;
+         font-size: 9px;
+         font-weight: normal;
+         text-transform: uppercase;
+         letter-spacing: 0.5px;
+         text-align: right;
+         padding: 0 6px;
+      }
+
+      .event-table td {
+         text-align: right;
+         padding: 0 6px;
+      }
+
+      .event-table th:first-child,
+      .event-table td:first-child {
+         text-align: left;
+      }
+
+      .conditioner {
+         color: #f472b6;
+      }
    `;
 
    constructor() {
@@ -146,6 +242,39 @@ export class PerformanceMonitor extends LitElement {
       setInterval(() => {
          this.requestUpdate();
       }, 250);
+
+      setInterval(() => this.sampleNetworkHistory(), 1000);
+   }
+
+   private static createSample(): NetworkHistorySample {
+      return {
+         bytesIn: 0,
+         bytesOut: 0,
+         messagesIn: 0,
+         messagesOut: 0,
+         retransmits: 0,
+         duplicates: 0,
+         corrections: 0,
+         events: {},
+      };
+   }
+
+   private sampleNetworkHistory(): void {
+      this.networkHistory.push(this.currentSample);
+      if (this.networkHistory.length > PerformanceMonitor.HISTORY_LENGTH) {
+         this.networkHistory.shift();
+      }
+
+      this.currentSample = PerformanceMonitor.createSample();
+   }
+
+   private getEventTraffic(eventType: string): EventTraffic {
+      let traffic = this.currentSample.events[eventType];
+      if (!traffic) {
+         traffic = { bytesIn: 0, bytesOut: 0, messagesIn: 0, messagesOut: 0 };
+         this.currentSample.events[eventType] = traffic;
+      }
+      return traffic;
    }
 
    // Called by the render loop to track FPS and render time
@@ -211,16 +340,56 @@ export class PerformanceMonitor extends LitElement {
       this.averagePing = averagePing;
    }
 
-   public onNetworkDataSent(bytes: number): void {
+   // Called to update how far the client runs ahead of the estimated server tick
+   public updateTickLeadMetrics(tickLead: number | null, targetTickLead: number): void {
+      this.tickLead = tickLead;
+      this.targetTickLead = targetTickLead;
+   }
+
+   public onNetworkDataSent(eventType: string, bytes: number): void {
       this.outboundBytes += bytes;
+      this.currentSample.bytesOut += bytes;
+      this.currentSample.messagesOut++;
+
+      const traffic = this.getEventTraffic(eventType);
+      traffic.bytesOut += bytes;
+      traffic.messagesOut++;
+
       this.updateNetworkMetrics();
    }
 
-   public onNetworkDataReceived(bytes: number): void {
+   public onNetworkDataReceived(eventType: string, bytes: number): void {
       this.inboundBytes += bytes;
+      this.currentSample.bytesIn += bytes;
+      this.currentSample.messagesIn++;
+
+      const traffic = this.getEventTraffic(eventType);
+      traffic.bytesIn += bytes;
+      traffic.messagesIn++;
+
       this.updateNetworkMetrics();
    }
 
+   public onReliableRetransmit(): void {
+      this.currentSample.retransmits++;
+   }
+
+   public onReliableDuplicate(): void {
+      this.currentSample.duplicates++;
+   }
+
+   // Called when the local player's prediction was too far off and got snapped to the server position
+   public onReconciliationCorrection(): void {
+      this.currentSample.corrections++;
+   }
+
+   /**
+    * Show the conditions of the network conditioner while it is on, graphs are hard to read without them
+    */
+   public setNetworkConditioner(conditioner: NetworkConditioner): void {
+      this.conditioner = conditioner;
+   }
+
    private updateNetworkMetrics(): void {
       const currentTime = performance.now();
 
@@ -281,6 +450,156 @@ export class PerformanceMonitor extends LitElement {
       };
    }
 
+   public getNetworkHistory(): NetworkHistorySample[] {
+      return [...this.networkHistory];
+   }
+
+   private renderSparkline(values: number[]) {
+      const width = 120;
+      const height = 24;
+      const max = Math.max(1, ...values);
+      const step = width / (PerformanceMonitor.HISTORY_LENGTH - 1);
+
+      // The newest sample sits on the right edge, a short history fills in from there
+      const offset = PerformanceMonitor.HISTORY_LENGTH - values.length;
+      const points = values
+         .map(
+            (value, i) =>
+               `${((offset + i) * step).toFixed(1)},${(height - 1 - (value / max) * (height - 2)).toFixed(1)}`,
+         )
+         .join(' ');
+
+      return html`<svg class="sparkline" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+         <polyline points="${points}"></polyline>
+      </svg>`;
+   }
+
+   private renderGraph(label: string, values: number[], unit: string, valueClass: string) {
+      const latest = values.length > 0 ? values[values.length - 1] : 0;
+      return html`
+         <div class="graph ${valueClass}">
+            <span class="metric-label">${label}</span>
+            <span class="metric-value ${valueClass}">${latest.toFixed(unit === 'kbps' ? 1 : 0)} ${unit}</span>
+            ${this.renderSparkline(values)}
+         </div>
+      `;
+   }
+
+   private renderConditions() {
+      if (!this.conditioner?.isActive()) return null;
+
+      const { latencyMs, jitterMs, packetLoss } = this.conditioner.getConditions();
+      const { dropped } = this.conditioner.getStats();
+      return html`
+         <div class="metric-row">
+            <span class="metric-label">Conditioner</span>
+            <span class="metric-value conditioner"
+               >+${latencyMs} ±${jitterMs} ms, ${(packetLoss * 100).toFixed(0)}% loss, ${dropped} lost</span
+            >
+         </div>
+      `;
+   }
+
+   private renderNetworkHistory() {
+      const history = this.networkHistory;
+      const toKbps = (bytes: number) => (bytes * 8) / 1000;
+
+      // The busiest event types over the whole history, by bytes both ways
+      const totals = new Map<string, number>();
+      history.forEach((sample) => {
+         Object.entries(sample.events).forEach(([eventType, traffic]) => {
+            totals.set(eventType, (totals.get(eventType) ?? 0) + traffic.bytesIn + traffic.bytesOut);
+         });
+      });
+      const eventTypes = [...totals.entries()]
+         .sort((a, b) => b[1] - a[1])
+         .slice(0, PerformanceMonitor.GRAPHED_EVENT_TYPES)
+         .map(([eventType]) => eventType);
+
+      const latest = history[history.length - 1];
+
+      return html`
+         <div class="history-container">
+            <div class="graph-row">
+               ${this.renderGraph(
+                  'Inbound',
+                  history.map((sample) => toKbps(sample.bytesIn)),
+                  'kbps',
+                  'network',
+               )}
+               ${this.renderGraph(
+                  'Outbound',
+                  history.map((sample) => toKbps(sample.bytesOut)),
+                  'kbps',
+                  'network',
+               )}
+               ${this.renderGraph(
+                  'Msgs In',
+                  history.map((sample) => sample.messagesIn),
+                  '/s',
+                  'network',
+               )}
+               ${this.renderGraph(
+                  'Msgs Out',
+                  history.map((sample) => sample.messagesOut),
+                  '/s',
+                  'network',
+               )}
+               ${this.renderGraph(
+                  'Retransmits',
+                  history.map((sample) => sample.retransmits + sample.duplicates),
+                  '/s',
+                  'time-medium',
+               )}
+               ${this.renderGraph(
+                  'Corrections',
+                  history.map((sample) => sample.corrections),
+                  '/s',
+                  'time-bad',
+               )}
+            </div>
+            ${
+               eventTypes.length > 0
+                  ? html`
+                       <table class="event-table">
+                          <tr>
+                             <th>Event</th>
+                             <th>In kbps</th>
+                             <th>Out kbps</th>
+                             <th>In /s</th>
+                             <th>Out /s</th>
+                             <th></th>
+                          </tr>
+                          ${eventTypes.map((eventType) => {
+                             const traffic = latest?.events[eventType];
+                             return html`
+                                <tr>
+                                   <td>${eventType}</td>
+                                   <td>${toKbps(traffic?.bytesIn ?? 0).toFixed(1)}</td>
+                                   <td>${toKbps(traffic?.bytesOut ?? 0).toFixed(1)}</td>
+                                   <td>${traffic?.messagesIn ?? 0}</td>
+                                   <td>${traffic?.messagesOut ?? 0}</td>
+                                   <td class="network">
+                                      ${this.renderSparkline(
+                                         history.map((sample) => {
+                                            const eventTraffic = sample.events[eventType];
+                                            return eventTraffic
+                                               ? toKbps(eventTraffic.bytesIn + eventTraffic.bytesOut)
+                                               : 0;
+                                         }),
+                                      )}
+                                   </td>
+                                </tr>
+                             `;
+                          })}
+                       </table>
+                    `
+                  : null
+            }
+         </div>
+      `;
+   }
+
    render() {
       return html`
          <div class="performance-container">
@@ -350,6 +669,12 @@ export class PerformanceMonitor extends LitElement {
                      >${this.averagePing.toFixed(0)} ms</span
                   >
                </div>
+               <div class="metric-row">
+                  <span class="metric-label">Tick Lead</span>
+                  <span class="metric-value"
+                     >${this.tickLead === null ? '-' : this.tickLead.toFixed(1)} / ${this.targetTickLead}</span
+                  >
+               </div>
                <div class="metric-row">
                   <span class="metric-label">Inbound</span>
                   <span class="metric-value network">${this.networkInbound.toFixed(1)} kbps</span>
@@ -358,8 +683,10 @@ export class PerformanceMonitor extends LitElement {
                   <span class="metric-label">Outbound</span>
                   <span class="metric-value network">${this.networkOutbound.toFixed(1)} kbps</span>
                </div>
+               ${this.renderConditions()}
             </div>
          </div>
+         ${this.renderNetworkHistory()}
       `;
    }
 }
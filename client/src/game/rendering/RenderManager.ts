@@ -115,8 +115,8 @@ export class RenderManager {
     * Update camera position and zoom
     */
    private updateCamera(): void {
-      const localPlayer = this.game.getPlayerManager().getLocalPlayerSafe();
-      if (localPlayer) {
+      const viewedPlayer = this.game.getPlayerManager().getViewedPlayer();
+      if (viewedPlayer) {
          this.camera.updateCamera();
       }
    }
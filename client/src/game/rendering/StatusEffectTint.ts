@@ -0,0 +1,23 @@
+import { StatusEffectState, StatusEffectType } from 'shared/game/status-effects/StatusEffectTypes';
+
+export const NO_TINT = 0xffffff;
+
+// Most noticeable first, an entity that has several effects shows the first one it has
+const STATUS_EFFECT_TINTS: Array<[StatusEffectType, number]> = [
+   [StatusEffectType.STUN, 0xffe066],
+   [StatusEffectType.POISON, 0x8aff7a],
+   [StatusEffectType.SLOW, 0x7ab8ff],
+];
+
+/**
+ * Sprite tint that shows which status effect an entity is under
+ */
+export function getStatusEffectTint(effects: StatusEffectState[]): number {
+   for (const [type, tint] of STATUS_EFFECT_TINTS) {
+      if (effects.some((effect) => effect.type === type)) {
+         return tint;
+      }
+   }
+
+   return NO_TINT;
+}
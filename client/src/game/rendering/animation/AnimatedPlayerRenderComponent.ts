@@ -6,6 +6,7 @@ import { AnimationState, EntityShape, PlayerType } from 'shared/game/PlayerTypes
 import { Position } from 'shared/game/Position';
 import { AnimationFrameRates, AnimationManager } from './AnimationManager';
 import { PlayerNameLabel } from '../../ui/PlayerNameLabel';
+import { createHealthbar, SegmentedHealthbar } from '../../ui/SegmentedHealthbar';
 
 export interface AnimatedRenderConfig extends RenderConfig {
    animationFrameRates?: AnimationFrameRates;
@@ -27,6 +28,15 @@ export class AnimatedPlayerRenderComponent extends RenderComponent {
    private readonly MOVEMENT_TIMEOUT_MS = 120; // 3 frames * 40ms = 120ms
 
    private nameLabel: PlayerNameLabel | null = null;
+   private healthbar: SegmentedHealthbar | null = null;
+
+   // Sprite tint while the hit flash lasts
+   private readonly DAMAGE_FLASH_MS = 120;
+   private readonly DAMAGE_FLASH_TINT = 0xff5555;
+   private damageFlashUntil = 0;
+
+   // Tint shown outside of hit flashes, set while a status effect is on the player
+   private statusTint = 0xffffff;
 
    constructor(
       characterTextures: Record<string, Texture>,
@@ -54,6 +64,10 @@ export class AnimatedPlayerRenderComponent extends RenderComponent {
       if (playerName && playerType) {
          this.createNameLabel(playerName, playerType);
       }
+
+      if (playerType) {
+         this.createHealthbar(playerType);
+      }
    }
 
    protected createContainerStructure(texture: Texture): Container {
@@ -222,6 +236,14 @@ export class AnimatedPlayerRenderComponent extends RenderComponent {
       this.animationManager.playAnimation(AnimationState.DEATH);
    }
 
+   /**
+    * Back to the idle animation, e.g. after being revived
+    */
+   public playIdleAnimation(): void {
+      this.isMoving = false;
+      this.animationManager.playAnimation(AnimationState.IDLE);
+   }
+
    /**
     * Update method override to handle animations
     */
@@ -236,6 +258,31 @@ export class AnimatedPlayerRenderComponent extends RenderComponent {
       if (newTexture && this.sprite.texture !== newTexture) {
          this.sprite.texture = newTexture;
       }
+
+      if (this.damageFlashUntil > 0 && performance.now() >= this.damageFlashUntil) {
+         this.damageFlashUntil = 0;
+         this.sprite.tint = this.statusTint;
+      }
+   }
+
+   public updateHealth(health: number, maxHealth: number): void {
+      this.healthbar?.updateHealth(health, maxHealth);
+   }
+
+   public setStatusTint(tint: number): void {
+      this.statusTint = tint;
+
+      if (this.damageFlashUntil === 0) {
+         this.sprite.tint = tint;
+      }
+   }
+
+   /**
+    * Tint the character red for a moment after a hit
+    */
+   public flashDamage(): void {
+      this.damageFlashUntil = performance.now() + this.DAMAGE_FLASH_MS;
+      this.sprite.tint = this.DAMAGE_FLASH_TINT;
    }
 
    public rotateGuns(angle: number): void {
@@ -275,6 +322,17 @@ export class AnimatedPlayerRenderComponent extends RenderComponent {
       this.nameLabel.setPosition(characterHeight);
    }
 
+   /**
+    * Healthbar above the name label, hidden while the player is at full health
+    */
+   private createHealthbar(playerType: PlayerType): void {
+      const characterHeight = this.getCharacterHeight(playerType);
+
+      this.healthbar = createHealthbar(playerType.maxHealth, this.container, {
+         offset: { x: 0, y: -Math.round(characterHeight / 2 + 34) },
+      });
+   }
+
    /**
     * Calculate character height based on player type physics config
     */
@@ -301,4 +359,14 @@ export class AnimatedPlayerRenderComponent extends RenderComponent {
          this.nameLabel.setVisible(visible);
       }
    }
+
+   /**
+    * Character textures come from the shared spritesheet, so only the display objects are destroyed
+    */
+   public destroy(): void {
+      this.container.removeFromParent();
+      this.container.destroy({ children: true });
+      this.nameLabel = null;
+      this.healthbar = null;
+   }
 }
@@ -0,0 +1,83 @@
+// client/src/game/rendering/interpolation/InterpolationClock.ts
+
+import { gameSettings } from 'shared/game/SystemSettings';
+import { PingManager } from 'shared/game/network/PingSystem';
+import { TimeUtil } from 'shared/util/TimeUtil';
+
+/**
+ * The server time remote entities are drawn at, shared by all of them so they stay in step with each
+ * other. Follows the server clock from the timestamps of arriving snapshots and stays an interpolation
+ * delay behind it, long enough that the snapshot after the drawn time has usually arrived. The delay
+ * grows with the jitter the ping manager measures and shrinks again when the connection calms down.
+ */
+export class InterpolationClock {
+   /** Two snapshot intervals, so one more snapshot is usually on its way while the last one is drawn */
+   public static readonly MIN_DELAY_MS = gameSettings.gameUpdateIntervalMillis * 2;
+   public static readonly MAX_DELAY_MS = 300;
+
+   /** Delay until the jitter is known */
+   public static readonly INITIAL_DELAY_MS = gameSettings.gameUpdateIntervalMillis * 3;
+
+   // Jitter is the standard deviation of the round trips, twice it covers nearly every snapshot
+   private static readonly JITTER_MULTIPLIER = 2;
+
+   // How quickly the delay and the server clock estimate follow changes
+   private static readonly DELAY_SMOOTHING_MS = 1000;
+   private static readonly OFFSET_SMOOTHING = 0.1;
+
+   private delay = InterpolationClock.INITIAL_DELAY_MS;
+   private serverOffset: number | null = null;
+   private lastUpdate = TimeUtil.getCurrentTimestamp();
+
+   constructor(private readonly pingManager: PingManager) {
+      this.pingManager.setInterpolationDelay(this.delay);
+   }
+
+   /**
+    * Take in the server timestamp of a snapshot that just arrived
+    */
+   public onSnapshot(serverTimestamp: number): void {
+      const offset = serverTimestamp - TimeUtil.getCurrentTimestamp();
+      this.serverOffset =
+         this.serverOffset === null
+            ? offset
+            : this.serverOffset + (offset - this.serverOffset) * InterpolationClock.OFFSET_SMOOTHING;
+   }
+
+   /**
+    * Server time of the snapshots arriving now, the time the server sent them at
+    */
+   public getServerTime(): number {
+      return TimeUtil.getCurrentTimestamp() + (this.serverOffset ?? 0);
+   }
+
+   /**
+    * Server time to draw remote entities at, called every frame
+    */
+   public getRenderTime(): number {
+      this.updateDelay();
+      return this.getServerTime() - this.delay;
+   }
+
+   public getDelay(): number {
+      return this.delay;
+   }
+
+   // Eases towards the target instead of jumping, a sudden change would make entities skip or stand still
+   private updateDelay(): void {
+      const now = TimeUtil.getCurrentTimestamp();
+      const elapsed = now - this.lastUpdate;
+      this.lastUpdate = now;
+
+      const jitter = this.pingManager.getPingStability();
+      const target = Math.min(
+         InterpolationClock.MAX_DELAY_MS,
+         InterpolationClock.MIN_DELAY_MS + jitter * InterpolationClock.JITTER_MULTIPLIER,
+      );
+
+      this.delay += (target - this.delay) * Math.min(1, elapsed / InterpolationClock.DELAY_SMOOTHING_MS);
+
+      // The server rewinds targets by this much on top of the measured round trip when checking our shots
+      this.pingManager.setInterpolationDelay(Math.round(this.delay));
+   }
+}
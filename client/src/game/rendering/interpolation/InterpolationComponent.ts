@@ -1,156 +1,104 @@
 // client/src/game/rendering/interpolation/InterpolationComponent.ts
 
 import { Position } from 'shared/game/Position';
-import { MathUtil } from 'shared/util/MathUtil';
-import { TimeUtil } from 'shared/util/TimeUtil';
 import { gameSettings } from 'shared/game/SystemSettings';
-
-export interface InterpolationState {
-   position: Position;
-   rotation: number;
-   timestamp: number;
-}
-
-export interface InterpolationTarget {
-   startState: InterpolationState;
-   endState: InterpolationState;
-   startTime: number;
-   duration: number;
-}
+import { InterpolationClock } from './InterpolationClock';
+import { SnapshotInterpolationBuffer } from './SnapshotInterpolationBuffer';
 
 export interface InterpolatedEntity {
    /**
     * Called when interpolated values are calculated
     */
    onInterpolatedUpdate(position: Position, rotation: number): void;
-
-   /**
-    * Get current position for interpolation start state
-    */
-   getCurrentPosition(): Position;
-
-   /**
-    * Get current rotation for interpolation start state
-    */
-   getCurrentRotation(): number;
 }
 
 /**
  * Generic interpolation component that can be attached to any entity
- * Provides smooth movement between server updates
+ * Draws the entity where the server had it at the clock's render time, between the snapshots around it
  */
 export class InterpolationComponent {
+   /**
+    * How long an entity keeps moving on its own once no newer snapshot arrived
+    */
+   public static readonly MAX_EXTRAPOLATION_MS = gameSettings.gameUpdateIntervalMillis * 4;
+
    private entity: InterpolatedEntity;
-   private currentTarget: InterpolationTarget | null = null;
-   private interpolationDuration: number;
-   private useInterpolation: boolean;
+   private clock: InterpolationClock;
+   private buffer = new SnapshotInterpolationBuffer(InterpolationComponent.MAX_EXTRAPOLATION_MS);
+   private velocity: Position = { x: 0, y: 0 };
+   private extrapolating = false;
 
-   constructor(entity: InterpolatedEntity, useInterpolation: boolean = true, customDuration?: number) {
+   constructor(entity: InterpolatedEntity, clock: InterpolationClock) {
       this.entity = entity;
-      this.useInterpolation = useInterpolation;
-      this.interpolationDuration = customDuration || gameSettings.gameUpdateIntervalMillis * 3;
+      this.clock = clock;
    }
 
    /**
     * Update interpolation (called every render frame)
     */
    public update(): void {
-      if (!this.useInterpolation || !this.currentTarget) {
-         return;
-      }
+      const state = this.buffer.sample(this.clock.getRenderTime());
+      if (!state) return;
 
-      const currentTime = TimeUtil.getCurrentTimestamp();
-      const elapsed = currentTime - this.currentTarget.startTime;
-
-      if (elapsed >= this.currentTarget.duration) {
-         // Interpolation complete - snap to final position
-         const finalState = this.currentTarget.endState;
-         this.entity.onInterpolatedUpdate(finalState.position, finalState.rotation);
-         this.currentTarget = null;
-         return;
-      }
-
-      // Calculate interpolation alpha (0 to 1)
-      const alpha = elapsed / this.currentTarget.duration;
-
-      // Interpolate position
-      const start = this.currentTarget.startState;
-      const end = this.currentTarget.endState;
-
-      const interpolatedPos: Position = {
-         x: start.position.x + (end.position.x - start.position.x) * alpha,
-         y: start.position.y + (end.position.y - start.position.y) * alpha,
-      };
-
-      // Interpolate rotation (handle wrapping)
-      const deltaAngle = MathUtil.shortestAngleBetween(start.rotation, end.rotation);
-      const interpolatedRotation = start.rotation + deltaAngle * alpha;
-
-      // Apply interpolated values
-      this.entity.onInterpolatedUpdate(interpolatedPos, interpolatedRotation);
+      this.velocity = state.velocity;
+      this.extrapolating = state.extrapolated;
+      this.entity.onInterpolatedUpdate(state.position, state.rotation);
    }
 
    /**
-    * Set new target state for interpolation
+    * Add a state the server sent
+    * @param timestamp Server time of the state
+    * @param velocity Pixels per second, worked out from the previous state if not given
     */
-   public updateState(newPosition: Position, newRotation: number): void {
-      if (!this.useInterpolation) {
-         // No interpolation - apply immediately
-         this.entity.onInterpolatedUpdate(newPosition, newRotation);
-         return;
-      }
+   public addSnapshot(timestamp: number, position: Position, rotation: number, velocity?: Position): void {
+      this.buffer.push(timestamp, position, rotation, velocity);
+   }
 
-      const newState: InterpolationState = {
-         position: { ...newPosition },
-         rotation: newRotation,
-         timestamp: TimeUtil.getCurrentTimestamp(),
-      };
+   /**
+    * The server sent a snapshot without this entity, it is still where the newest state has it
+    */
+   public holdState(timestamp: number): void {
+      const newest = this.buffer.getNewest();
+      if (!newest || timestamp <= newest.timestamp) return;
 
-      const currentState: InterpolationState = {
-         position: this.entity.getCurrentPosition(),
-         rotation: this.entity.getCurrentRotation(),
-         timestamp: TimeUtil.getCurrentTimestamp(),
-      };
+      this.buffer.push(timestamp, newest.position, newest.rotation, { x: 0, y: 0 });
+   }
 
-      this.currentTarget = {
-         startState: currentState,
-         endState: newState,
-         startTime: TimeUtil.getCurrentTimestamp(),
-         duration: this.interpolationDuration,
-      };
+   /**
+    * Forget the states so far and start over from the given one, for spawns and other jumps
+    */
+   public reset(position: Position, rotation: number): void {
+      this.buffer.clear();
+      this.buffer.push(this.clock.getServerTime(), position, rotation, { x: 0, y: 0 });
+      this.entity.onInterpolatedUpdate(position, rotation);
    }
 
    /**
-    * Check if currently interpolating
+    * Newest state the server sent, ahead of what is drawn
     */
-   public isInterpolating(): boolean {
-      return this.currentTarget !== null;
+   public getLatestState(): { position: Position; rotation: number } | null {
+      const newest = this.buffer.getNewest();
+      return newest ? { position: { ...newest.position }, rotation: newest.rotation } : null;
    }
 
    /**
-    * Force stop interpolation and snap to position
+    * Velocity at the drawn time in pixels per second
     */
-   public stopInterpolation(finalPosition?: Position, finalRotation?: number): void {
-      if (finalPosition !== undefined && finalRotation !== undefined) {
-         this.entity.onInterpolatedUpdate(finalPosition, finalRotation);
-      }
-      this.currentTarget = null;
+   public getVelocity(): Position {
+      return { ...this.velocity };
    }
 
    /**
-    * Set interpolation duration
+    * Check if the buffer ran dry and the entity is moved on its last velocity
     */
-   public setInterpolationDuration(duration: number): void {
-      this.interpolationDuration = duration;
+   public isExtrapolating(): boolean {
+      return this.extrapolating;
    }
 
    /**
-    * Enable or disable interpolation
+    * Drop all states, the entity stays where it is drawn
     */
-   public setInterpolationEnabled(enabled: boolean): void {
-      this.useInterpolation = enabled;
-      if (!enabled) {
-         this.currentTarget = null;
-      }
+   public clear(): void {
+      this.buffer.clear();
    }
 }
@@ -0,0 +1,131 @@
+// client/src/game/rendering/interpolation/SnapshotInterpolationBuffer.ts
+
+import { Position } from 'shared/game/Position';
+import { MathUtil } from 'shared/util/MathUtil';
+import { InterpolationState } from './InterpolationState';
+
+/**
+ * State of an entity at a server timestamp
+ */
+export interface TimedState extends InterpolationState {
+   /** Pixels per second, worked out from the state before when the server does not send it */
+   velocity: Position;
+}
+
+export interface SampledState {
+   position: Position;
+   rotation: number;
+   velocity: Position;
+
+   /** Whether the state is a guess past the newest snapshot */
+   extrapolated: boolean;
+}
+
+/**
+ * Server states of one entity ordered by their server timestamp, sampled at a point in the past where
+ * there is usually a snapshot on both sides to interpolate between. Once the sample time passes the newest
+ * snapshot the entity keeps moving at its last velocity, but only for a limited time before it stops.
+ */
+export class SnapshotInterpolationBuffer {
+   private static readonly MAX_SNAPSHOTS = 32;
+
+   private snapshots: TimedState[] = [];
+
+   constructor(private readonly maxExtrapolationMs: number) {}
+
+   /**
+    * Add a server state, snapshots that arrive out of order are put in their place
+    */
+   public push(timestamp: number, position: Position, rotation: number, velocity?: Position): void {
+      let index = this.snapshots.length;
+      while (index > 0 && this.snapshots[index - 1].timestamp > timestamp) index--;
+
+      const previous = index > 0 ? this.snapshots[index - 1] : null;
+      const state: TimedState = {
+         timestamp,
+         position: { ...position },
+         rotation,
+         velocity: velocity ? { ...velocity } : this.getVelocityBetween(previous, timestamp, position),
+      };
+
+      if (previous && previous.timestamp === timestamp) {
+         this.snapshots[index - 1] = state;
+         return;
+      }
+
+      this.snapshots.splice(index, 0, state);
+      if (this.snapshots.length > SnapshotInterpolationBuffer.MAX_SNAPSHOTS) {
+         this.snapshots.shift();
+      }
+   }
+
+   public getNewest(): TimedState | null {
+      return this.snapshots.length > 0 ? this.snapshots[this.snapshots.length - 1] : null;
+   }
+
+   /**
+    * State of the entity at the given server time
+    * @returns Null until the first snapshot arrived
+    */
+   public sample(time: number): SampledState | null {
+      // Snapshots before the last one at or before the time are never needed again
+      while (this.snapshots.length >= 2 && this.snapshots[1].timestamp <= time) {
+         this.snapshots.shift();
+      }
+
+      if (this.snapshots.length === 0) return null;
+
+      const from = this.snapshots[0];
+      if (time <= from.timestamp) {
+         return {
+            position: { ...from.position },
+            rotation: from.rotation,
+            velocity: { x: 0, y: 0 },
+            extrapolated: false,
+         };
+      }
+
+      if (this.snapshots.length >= 2) {
+         const to = this.snapshots[1];
+         const alpha = (time - from.timestamp) / (to.timestamp - from.timestamp);
+
+         return {
+            position: {
+               x: from.position.x + (to.position.x - from.position.x) * alpha,
+               y: from.position.y + (to.position.y - from.position.y) * alpha,
+            },
+            rotation: from.rotation + MathUtil.shortestAngleBetween(from.rotation, to.rotation) * alpha,
+            velocity: this.getVelocityBetween(from, to.timestamp, to.position),
+            extrapolated: false,
+         };
+      }
+
+      // The buffer ran dry, dead reckoning from the newest snapshot
+      const ahead = Math.min(time - from.timestamp, this.maxExtrapolationMs) / 1000;
+      const moving = time - from.timestamp < this.maxExtrapolationMs;
+
+      return {
+         position: {
+            x: from.position.x + from.velocity.x * ahead,
+            y: from.position.y + from.velocity.y * ahead,
+         },
+         rotation: from.rotation,
+         velocity: moving ? { ...from.velocity } : { x: 0, y: 0 },
+         extrapolated: true,
+      };
+   }
+
+   public clear(): void {
+      this.snapshots = [];
+   }
+
+   private getVelocityBetween(from: TimedState | null, timestamp: number, position: Position): Position {
+      if (!from || timestamp <= from.timestamp) return { x: 0, y: 0 };
+
+      const seconds = (timestamp - from.timestamp) / 1000;
+      return {
+         x: (position.x - from.position.x) / seconds,
+         y: (position.y - from.position.y) / seconds,
+      };
+   }
+}
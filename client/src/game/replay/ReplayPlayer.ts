@@ -0,0 +1,84 @@
+// client/src/game/replay/ReplayPlayer.ts
+import FrontendGame from '../FrontendGame';
+import { MatchReplayView } from 'shared/game/replay/MatchReplay';
+import { ClientBound } from 'shared/game/network/SocketEvents';
+
+// Nothing is sent between runs, so waits longer than this are cut short
+const MAX_IDLE_MS = 2000;
+
+// Time to read the run summary before the next run is played
+const GAME_OVER_PAUSE_MS = 5000;
+
+/**
+ * Plays the messages one player received during a recorded match back into the game, at the pace the
+ * server sent them, so the match renders like it did on that player's screen
+ */
+export class ReplayPlayer {
+   private index = 0;
+   private timer: number | null = null;
+   private recordedTime = 0;
+   private deliveredAt = 0;
+
+   constructor(
+      private readonly game: FrontendGame,
+      private readonly view: MatchReplayView,
+   ) {}
+
+   public start(): void {
+      this.stop();
+      this.index = 0;
+      if (!this.isFinished()) {
+         this.deliverNextTick();
+      }
+   }
+
+   public stop(): void {
+      if (this.timer !== null) {
+         clearTimeout(this.timer);
+         this.timer = null;
+      }
+   }
+
+   public isFinished(): boolean {
+      return this.index >= this.view.messages.length;
+   }
+
+   /**
+    * Server time the playback is at, for countdowns that run against server timestamps
+    */
+   public getTime(): number {
+      return this.recordedTime + (performance.now() - this.deliveredAt);
+   }
+
+   /**
+    * Deliver every message the server sent on the next recorded tick, then wait until the one after
+    */
+   private deliverNextTick(): void {
+      this.timer = null;
+
+      const messages = this.view.messages;
+      const tick = messages[this.index].tick;
+      let gameOver = false;
+
+      this.recordedTime = messages[this.index].time;
+      this.deliveredAt = performance.now();
+
+      // The game over and the next run's start are sent on the same tick, the pause has to go between them
+      while (this.index < messages.length && messages[this.index].tick === tick && !gameOver) {
+         const message = messages[this.index];
+         this.game.networkMessageManager.dispatchMessage(message.eventType, message.data);
+         gameOver ||= message.eventType === ClientBound.GameOver;
+         this.index++;
+      }
+
+      if (this.isFinished()) {
+         console.log(`Replay of ${this.view.gameId} finished`);
+         return;
+      }
+
+      const delay = gameOver
+         ? GAME_OVER_PAUSE_MS
+         : Math.min(Math.max(0, messages[this.index].time - this.recordedTime), MAX_IDLE_MS);
+      this.timer = window.setTimeout(() => this.deliverNextTick(), delay);
+   }
+}
@@ -553,6 +553,9 @@ export class FrontendGun extends Gun {
     * Sync gun state from server (for edge case corrections)
     */
    public syncFromServer(syncData: GunStateSync): void {
+      // Shots are predicted, a state from before our latest shot would hand back ammo we already spent
+      if (syncData.lastShotTick < this.lastShotTick) return;
+
       const currentTick = this.game.getPhysicsManager().getGameTick();
 
       // Sync ammo count
@@ -0,0 +1,209 @@
+// client/src/game/ui/GameOverScreen.ts
+
+import { css, html, LitElement } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { GameOverData } from 'shared/game/network/messages/client-bound/PlayerLifecycleData';
+import { PlayerScoreStats } from 'shared/game/network/messages/client-bound/ScoreData';
+
+/**
+ * Run summary shown once every player is dead, with the final scores and a countdown to the next run if
+ * one is scheduled
+ */
+@customElement('game-over-screen')
+export class GameOverScreen extends LitElement {
+   @state() private summary: GameOverData | null = null;
+   @state() private secondsUntilRestart = 0;
+
+   private getTime: () => number = () => Date.now();
+   private countdownInterval: number | null = null;
+
+   static styles = css`
+      :host {
+         position: fixed;
+         inset: 0;
+         z-index: 9500;
+         pointer-events: none;
+         font-family: 'Courier New', monospace;
+      }
+
+      .backdrop {
+         position: absolute;
+         inset: 0;
+         display: flex;
+         align-items: center;
+         justify-content: center;
+         background: rgba(0, 0, 0, 0.7);
+         pointer-events: auto;
+      }
+
+      .panel {
+         min-width: 420px;
+         padding: 24px 32px;
+         background: rgba(15, 23, 42, 0.95);
+         border: 1px solid rgba(239, 68, 68, 0.6);
+         border-radius: 8px;
+         color: #ffffff;
+         text-align: center;
+      }
+
+      .title {
+         font-size: 48px;
+         font-weight: bold;
+         letter-spacing: 2px;
+         color: #ef4444;
+      }
+
+      .overview {
+         margin-top: 8px;
+         font-size: 18px;
+         color: #cbd5e1;
+      }
+
+      table {
+         width: 100%;
+         margin-top: 20px;
+         border-collapse: collapse;
+         font-size: 14px;
+      }
+
+      th,
+      td {
+         padding: 6px 8px;
+         text-align: right;
+      }
+
+      th:first-child,
+      td:first-child {
+         text-align: left;
+      }
+
+      th {
+         color: #94a3b8;
+         border-bottom: 1px solid rgba(148, 163, 184, 0.4);
+      }
+
+      .team-score {
+         margin-top: 4px;
+         font-size: 20px;
+         font-weight: bold;
+         color: #f59e0b;
+      }
+
+      .restart {
+         margin-top: 20px;
+         font-size: 16px;
+         color: #f59e0b;
+      }
+   `;
+
+   /**
+    * Use the game's clock so the restart countdown lines up with server timestamps
+    */
+   public setTimeSource(getTime: () => number): void {
+      this.getTime = getTime;
+   }
+
+   public show(summary: GameOverData): void {
+      this.summary = summary;
+      this.startCountdown();
+   }
+
+   public hide(): void {
+      this.stopCountdown();
+      this.summary = null;
+   }
+
+   disconnectedCallback(): void {
+      super.disconnectedCallback();
+      this.stopCountdown();
+   }
+
+   private startCountdown(): void {
+      this.stopCountdown();
+      if (this.summary?.restartAt == null) return;
+
+      this.updateCountdown();
+      this.countdownInterval = window.setInterval(() => this.updateCountdown(), 250);
+   }
+
+   private updateCountdown(): void {
+      const restartAt = this.summary?.restartAt ?? 0;
+      this.secondsUntilRestart = Math.max(0, Math.ceil((restartAt - this.getTime()) / 1000));
+
+      if (this.secondsUntilRestart === 0) {
+         this.stopCountdown();
+      }
+   }
+
+   private stopCountdown(): void {
+      if (this.countdownInterval !== null) {
+         clearInterval(this.countdownInterval);
+         this.countdownInterval = null;
+      }
+   }
+
+   private formatAccuracy(score: PlayerScoreStats | undefined): string {
+      if (!score || score.shotsFired === 0) return '-';
+      return `${Math.round((score.shotsHit / score.shotsFired) * 100)}%`;
+   }
+
+   private formatDuration(ms: number): string {
+      const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+      const minutes = Math.floor(totalSeconds / 60);
+      const seconds = totalSeconds % 60;
+      return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+   }
+
+   render() {
+      if (!this.summary) return null;
+
+      const scores = new Map(this.summary.scoreboard.players.map((score) => [score.username, score]));
+      const players = [...this.summary.players].sort(
+         (a, b) =>
+            (scores.get(b.username)?.score ?? 0) - (scores.get(a.username)?.score ?? 0) || b.survivedMs - a.survivedMs,
+      );
+
+      return html`
+         <div class="backdrop">
+            <div class="panel">
+               <div class="title">Game over</div>
+               <div class="overview">
+                  Reached wave ${this.summary.wavesReached} &middot; ${this.formatDuration(this.summary.durationMs)}
+               </div>
+               <div class="team-score">Team score ${this.summary.scoreboard.teamScore}</div>
+               <table>
+                  <tr>
+                     <th>Player</th>
+                     <th>Score</th>
+                     <th>Kills</th>
+                     <th>Accuracy</th>
+                     <th>Survived</th>
+                     <th>Downs</th>
+                     <th>Revives</th>
+                  </tr>
+                  ${players.map(
+                     (player) => html`
+                        <tr>
+                           <td>${player.displayName}</td>
+                           <td>${scores.get(player.username)?.score ?? 0}</td>
+                           <td>${scores.get(player.username)?.kills ?? 0}</td>
+                           <td>${this.formatAccuracy(scores.get(player.username))}</td>
+                           <td>${this.formatDuration(player.survivedMs)}</td>
+                           <td>${player.downs}</td>
+                           <td>${player.revives}</td>
+                        </tr>
+                     `,
+                  )}
+               </table>
+               <div class="restart">
+                  ${
+                     this.summary.restartAt !== null
+                        ? `Next run in ${this.secondsUntilRestart}s`
+                        : 'Not enough players for another run'
+                  }
+               </div>
+            </div>
+         </div>
+      `;
+   }
+}
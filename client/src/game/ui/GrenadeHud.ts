@@ -0,0 +1,114 @@
+// client/src/game/ui/GrenadeHud.ts
+
+import { css, html, LitElement } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { GrenadeChargesData } from 'shared/game/network/messages/GrenadeMessages';
+
+/**
+ * The local player's grenades in the bottom corner: one pip per charge and a countdown to the next one
+ * while the inventory is not full. Hidden outside of a run.
+ */
+@customElement('grenade-hud')
+export class GrenadeHud extends LitElement {
+   @state() private charges: GrenadeChargesData | null = null;
+   @state() private secondsToNextCharge = 0;
+
+   private getTime: () => number = () => Date.now();
+   private countdownInterval: number | null = null;
+
+   static styles = css`
+      :host {
+         position: fixed;
+         bottom: 16px;
+         right: 16px;
+         z-index: 9000;
+         pointer-events: none;
+         font-family: 'Courier New', monospace;
+      }
+
+      .hud {
+         display: flex;
+         align-items: center;
+         gap: 8px;
+         color: #ffffff;
+         font-size: 14px;
+         font-weight: bold;
+         text-shadow: 0 0 4px rgba(0, 0, 0, 0.8);
+      }
+
+      .pip {
+         width: 12px;
+         height: 12px;
+         border-radius: 50%;
+         border: 2px solid #a3b18a;
+         background: transparent;
+      }
+
+      .pip.charged {
+         background: #a3b18a;
+      }
+
+      .recharge {
+         color: #cbd5e1;
+      }
+   `;
+
+   /**
+    * Use the game's clock so the recharge countdown lines up with server timestamps
+    */
+   public setTimeSource(getTime: () => number): void {
+      this.getTime = getTime;
+   }
+
+   /**
+    * Show the inventory, null hides the HUD
+    */
+   public setCharges(charges: GrenadeChargesData | null): void {
+      this.charges = charges;
+
+      if (charges?.nextChargeAt != null) {
+         this.startCountdown();
+      } else {
+         this.stopCountdown();
+      }
+   }
+
+   disconnectedCallback(): void {
+      super.disconnectedCallback();
+      this.stopCountdown();
+   }
+
+   private startCountdown(): void {
+      this.stopCountdown();
+      this.updateCountdown();
+      this.countdownInterval = window.setInterval(() => this.updateCountdown(), 250);
+   }
+
+   private updateCountdown(): void {
+      const nextChargeAt = this.charges?.nextChargeAt ?? null;
+      this.secondsToNextCharge =
+         nextChargeAt === null ? 0 : Math.max(0, Math.ceil((nextChargeAt - this.getTime()) / 1000));
+   }
+
+   private stopCountdown(): void {
+      if (this.countdownInterval !== null) {
+         clearInterval(this.countdownInterval);
+         this.countdownInterval = null;
+      }
+   }
+
+   render() {
+      if (!this.charges) return null;
+
+      const { charges, maxCharges, nextChargeAt } = this.charges;
+      const pips = Array.from({ length: maxCharges }, (_, index) => index < charges);
+
+      return html`
+         <div class="hud">
+            <span>G</span>
+            ${pips.map((charged) => html`<div class="pip ${charged ? 'charged' : ''}"></div>`)}
+            ${nextChargeAt !== null ? html`<span class="recharge">${this.secondsToNextCharge}s</span>` : ''}
+         </div>
+      `;
+   }
+}
@@ -0,0 +1,152 @@
+// client/src/game/ui/NetworkConditionerPanel.ts
+
+import { css, html, LitElement } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { NetworkConditioner, NetworkConditions } from '../network/NetworkConditioner';
+
+/**
+ * Development panel for the network conditioner, opened and closed with the conditioner key. Turns the
+ * conditioner on and off and sets its latency, jitter and loss while playing.
+ */
+@customElement('network-conditioner-panel')
+export class NetworkConditionerPanel extends LitElement {
+   @state() private conditions: NetworkConditions | null = null;
+   @state() private open = false;
+
+   private conditioner: NetworkConditioner | null = null;
+
+   static styles = css`
+      :host {
+         position: fixed;
+         top: 50%;
+         right: 16px;
+         transform: translateY(-50%);
+         z-index: 9300;
+         font-family: 'Courier New', monospace;
+      }
+
+      .panel {
+         width: 260px;
+         padding: 12px 16px;
+         background: rgba(15, 23, 42, 0.9);
+         border: 1px solid rgba(244, 114, 182, 0.5);
+         border-radius: 8px;
+         color: #ffffff;
+         font-size: 12px;
+      }
+
+      .title {
+         font-weight: bold;
+         color: #f472b6;
+         margin-bottom: 8px;
+      }
+
+      label {
+         display: flex;
+         flex-direction: column;
+         gap: 2px;
+         margin-top: 8px;
+      }
+
+      .toggle {
+         flex-direction: row;
+         align-items: center;
+         gap: 8px;
+      }
+
+      .name {
+         display: flex;
+         justify-content: space-between;
+         color: #94a3b8;
+      }
+
+      input[type='range'] {
+         width: 100%;
+      }
+   `;
+
+   public setConditioner(conditioner: NetworkConditioner): void {
+      this.conditioner = conditioner;
+      this.conditions = conditioner.getConditions();
+   }
+
+   public toggle(): void {
+      this.open = !this.open;
+   }
+
+   private applyConditions(conditions: Partial<NetworkConditions>): void {
+      if (!this.conditioner) return;
+
+      this.conditioner.setConditions(conditions);
+      this.conditions = this.conditioner.getConditions();
+   }
+
+   // Keep clicks on the panel away from the game, which listens on the window and would shoot
+   private stopPropagation(event: Event): void {
+      event.stopPropagation();
+   }
+
+   // Hand the keyboard back to the game once a value is picked, the arrow keys would move the slider too
+   private releaseFocus(event: Event): void {
+      (event.target as HTMLElement).blur();
+   }
+
+   render() {
+      if (!this.open || !this.conditions) return null;
+
+      const { enabled, latencyMs, jitterMs, packetLoss } = this.conditions;
+      const valueOf = (event: Event) => Number((event.target as HTMLInputElement).value);
+
+      return html`
+         <div
+            class="panel"
+            @mousedown=${this.stopPropagation}
+            @mouseup=${this.stopPropagation}
+            @change=${this.releaseFocus}
+         >
+            <div class="title">Network conditioner</div>
+            <label class="toggle">
+               <input
+                  type="checkbox"
+                  .checked=${enabled}
+                  @change=${(event: Event) => this.applyConditions({ enabled: (event.target as HTMLInputElement).checked })}
+               />
+               Enabled
+            </label>
+            <label>
+               <span class="name"><span>Latency</span><span>${latencyMs} ms</span></span>
+               <input
+                  type="range"
+                  min="0"
+                  max="500"
+                  step="5"
+                  .value=${String(latencyMs)}
+                  @input=${(event: Event) => this.applyConditions({ latencyMs: valueOf(event) })}
+               />
+            </label>
+            <label>
+               <span class="name"><span>Jitter</span><span>±${jitterMs} ms</span></span>
+               <input
+                  type="range"
+                  min="0"
+                  max="200"
+                  step="5"
+                  .value=${String(jitterMs)}
+                  @input=${(event: Event) => this.applyConditions({ jitterMs: valueOf(event) })}
+               />
+            </label>
+            <label>
+               <span class="name"><span>Loss</span><span>${(packetLoss * 100).toFixed(0)}%</span></span>
+               <input
+                  type="range"
+                  min="0"
+                  max="0.5"
+                  step="0.01"
+                  .value=${String(packetLoss)}
+                  @input=${(event: Event) => this.applyConditions({ packetLoss: valueOf(event) })}
+               />
+            </label>
+         </div>
+      `;
+   }
+}
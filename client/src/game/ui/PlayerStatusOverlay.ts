@@ -0,0 +1,290 @@
+// client/src/game/ui/PlayerStatusOverlay.ts
+
+import { css, html, LitElement } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+
+type LocalStatus = 'none' | 'downed' | 'spectating';
+
+/**
+ * Overlay for the local player's life state: the bleed-out countdown and revive progress while
+ * downed, who is being spectated once dead, progress while reviving a teammate, short notices
+ * when a teammate goes down and a red flash at the screen edges when the local player is hit.
+ */
+@customElement('player-status-overlay')
+export class PlayerStatusOverlay extends LitElement {
+   @state() private status: LocalStatus = 'none';
+   @state() private secondsLeft = 0;
+   @state() private reviveProgress = 0;
+   @state() private reviverName: string | null = null;
+   @state() private spectatedName: string | null = null;
+   @state() private revivingName: string | null = null;
+   @state() private revivingProgress = 0;
+   @state() private notice: string | null = null;
+   @state() private hurtOpacity = 0;
+
+   // Absolute timestamp the bleed-out countdown runs to, in the same clock as getTime()
+   private bleedOutAt = 0;
+   private getTime: () => number = () => Date.now();
+   private countdownInterval: number | null = null;
+   private noticeTimeout: number | null = null;
+   private hurtTimeout: number | null = null;
+
+   static styles = css`
+      :host {
+         position: fixed;
+         inset: 0;
+         z-index: 9000;
+         pointer-events: none;
+         font-family: 'Courier New', monospace;
+      }
+
+      .downed {
+         position: absolute;
+         inset: 0;
+         background: radial-gradient(ellipse at center, transparent 40%, rgba(127, 29, 29, 0.55) 100%);
+      }
+
+      .hurt {
+         position: absolute;
+         inset: 0;
+         background: radial-gradient(ellipse at center, transparent 55%, rgba(220, 38, 38, 0.7) 100%);
+         transition: opacity 250ms ease-out;
+      }
+
+      .panel {
+         position: absolute;
+         bottom: 18%;
+         left: 50%;
+         transform: translateX(-50%);
+         text-align: center;
+         color: #ffffff;
+         text-shadow: 0 0 8px rgba(0, 0, 0, 0.9);
+      }
+
+      .title {
+         font-size: 36px;
+         font-weight: bold;
+         letter-spacing: 2px;
+      }
+
+      .subtitle {
+         margin-top: 6px;
+         font-size: 16px;
+         color: #cbd5e1;
+      }
+
+      .countdown {
+         margin-top: 8px;
+         font-size: 48px;
+         font-weight: bold;
+         color: #ef4444;
+      }
+
+      .progress {
+         width: 240px;
+         height: 10px;
+         margin: 10px auto 0;
+         background: rgba(0, 0, 0, 0.6);
+         border: 1px solid rgba(255, 255, 255, 0.4);
+      }
+
+      .progress-fill {
+         height: 100%;
+         background: #10b981;
+      }
+
+      .spectating {
+         position: absolute;
+         top: 10px;
+         left: 50%;
+         transform: translateX(-50%);
+         color: #ffffff;
+         font-size: 18px;
+         font-weight: bold;
+         text-shadow: 0 0 4px rgba(0, 0, 0, 0.8);
+      }
+
+      .notice {
+         position: absolute;
+         top: 40px;
+         left: 50%;
+         transform: translateX(-50%);
+         color: #f59e0b;
+         font-size: 18px;
+         font-weight: bold;
+         text-shadow: 0 0 4px rgba(0, 0, 0, 0.8);
+      }
+   `;
+
+   /**
+    * Use the game's clock so the bleed-out countdown lines up with server timestamps
+    */
+   public setTimeSource(getTime: () => number): void {
+      this.getTime = getTime;
+   }
+
+   public showDowned(bleedOutAt: number): void {
+      this.status = 'downed';
+      this.bleedOutAt = bleedOutAt;
+      this.reviveProgress = 0;
+      this.reviverName = null;
+      this.revivingName = null;
+      this.startCountdown();
+   }
+
+   /**
+    * Revive progress on the local player, a null reviver means nobody is reviving right now
+    */
+   public setReviveProgress(progress: number, reviverName: string | null): void {
+      this.reviveProgress = reviverName ? progress : 0;
+      this.reviverName = reviverName;
+   }
+
+   /**
+    * Progress of the local player reviving a teammate
+    */
+   public setReviving(teammateName: string, progress: number): void {
+      this.revivingName = teammateName;
+      this.revivingProgress = progress;
+   }
+
+   /**
+    * Hide the reviving progress if it belongs to this teammate
+    */
+   public stopReviving(teammateName: string): void {
+      if (this.revivingName === teammateName) {
+         this.revivingName = null;
+         this.revivingProgress = 0;
+      }
+   }
+
+   public showSpectating(spectatedName: string | null): void {
+      this.stopCountdown();
+      this.status = 'spectating';
+      this.spectatedName = spectatedName;
+      this.revivingName = null;
+   }
+
+   public showNotice(message: string, durationMs: number = 2500): void {
+      this.clearNoticeTimeout();
+      this.notice = message;
+      this.noticeTimeout = window.setTimeout(() => {
+         this.notice = null;
+      }, durationMs);
+   }
+
+   /**
+    * Flash the screen edges, stronger for hits that take a bigger share of the local player's health
+    * @param severity Damage as a fraction of max health
+    */
+   public flashDamage(severity: number): void {
+      if (this.hurtTimeout !== null) {
+         clearTimeout(this.hurtTimeout);
+      }
+
+      this.hurtOpacity = Math.min(1, 0.35 + severity * 3);
+      this.hurtTimeout = window.setTimeout(() => {
+         this.hurtOpacity = 0;
+         this.hurtTimeout = null;
+      }, 120);
+   }
+
+   /**
+    * Back to no overlay, the local player is alive again
+    */
+   public clear(): void {
+      this.stopCountdown();
+      this.status = 'none';
+      this.reviveProgress = 0;
+      this.reviverName = null;
+      this.spectatedName = null;
+      this.revivingName = null;
+   }
+
+   disconnectedCallback(): void {
+      super.disconnectedCallback();
+      this.stopCountdown();
+      this.clearNoticeTimeout();
+
+      if (this.hurtTimeout !== null) {
+         clearTimeout(this.hurtTimeout);
+      }
+   }
+
+   private startCountdown(): void {
+      this.stopCountdown();
+      this.updateCountdown();
+      this.countdownInterval = window.setInterval(() => this.updateCountdown(), 250);
+   }
+
+   private updateCountdown(): void {
+      this.secondsLeft = Math.max(0, Math.ceil((this.bleedOutAt - this.getTime()) / 1000));
+
+      if (this.secondsLeft === 0) {
+         this.stopCountdown();
+      }
+   }
+
+   private stopCountdown(): void {
+      if (this.countdownInterval !== null) {
+         clearInterval(this.countdownInterval);
+         this.countdownInterval = null;
+      }
+   }
+
+   private clearNoticeTimeout(): void {
+      if (this.noticeTimeout !== null) {
+         clearTimeout(this.noticeTimeout);
+         this.noticeTimeout = null;
+      }
+   }
+
+   private renderProgress(progress: number) {
+      return html`
+         <div class="progress">
+            <div class="progress-fill" style="width: ${Math.round(progress * 100)}%"></div>
+         </div>
+      `;
+   }
+
+   private renderStatus() {
+      switch (this.status) {
+         case 'downed':
+            return html`
+               <div class="downed"></div>
+               <div class="panel">
+                  <div class="title">You are down</div>
+                  <div class="subtitle">
+                     ${this.reviverName ? `${this.reviverName} is reviving you` : 'Wait for a teammate to revive you'}
+                  </div>
+                  ${this.reviverName ? this.renderProgress(this.reviveProgress) : ''}
+                  <div class="countdown">${this.secondsLeft}</div>
+               </div>
+            `;
+         case 'spectating':
+            return html`
+               <div class="spectating">${this.spectatedName ? `Spectating ${this.spectatedName}` : 'You died'}</div>
+            `;
+         default:
+            return null;
+      }
+   }
+
+   render() {
+      return html`
+         <div class="hurt" style="opacity: ${this.hurtOpacity}"></div>
+         ${this.renderStatus()}
+         ${
+            this.revivingName
+               ? html`
+                    <div class="panel">
+                       <div class="subtitle">Reviving ${this.revivingName}</div>
+                       ${this.renderProgress(this.revivingProgress)}
+                    </div>
+                 `
+               : ''
+         }
+         ${this.notice ? html`<div class="notice">${this.notice}</div>` : ''}
+      `;
+   }
+}
@@ -0,0 +1,161 @@
+// client/src/game/ui/Scoreboard.ts
+
+import { css, html, LitElement } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { PlayerScoreStats, ScoreUpdateData } from 'shared/game/network/messages/client-bound/ScoreData';
+
+/**
+ * Scores of the current run, opened and closed with the scoreboard key. Lists every player's score,
+ * kills with the enemy types they killed, assists, damage, accuracy, deaths and revives.
+ */
+@customElement('score-board')
+export class Scoreboard extends LitElement {
+   @state() private scores: ScoreUpdateData | null = null;
+   @state() private open = false;
+
+   private localUsername: string | null = null;
+
+   static styles = css`
+      :host {
+         position: fixed;
+         top: 12%;
+         left: 50%;
+         transform: translateX(-50%);
+         z-index: 9200;
+         pointer-events: none;
+         font-family: 'Courier New', monospace;
+      }
+
+      .panel {
+         min-width: 560px;
+         padding: 16px 24px;
+         background: rgba(15, 23, 42, 0.9);
+         border: 1px solid rgba(148, 163, 184, 0.4);
+         border-radius: 8px;
+         color: #ffffff;
+      }
+
+      .team {
+         font-size: 20px;
+         font-weight: bold;
+         text-align: center;
+         color: #f59e0b;
+      }
+
+      table {
+         width: 100%;
+         margin-top: 12px;
+         border-collapse: collapse;
+         font-size: 14px;
+      }
+
+      th,
+      td {
+         padding: 4px 8px;
+         text-align: right;
+      }
+
+      th:first-child,
+      td:first-child {
+         text-align: left;
+      }
+
+      th {
+         color: #94a3b8;
+         border-bottom: 1px solid rgba(148, 163, 184, 0.4);
+      }
+
+      tr.local td {
+         color: #a3e635;
+      }
+
+      td.breakdown {
+         padding-top: 0;
+         font-size: 11px;
+         color: #94a3b8;
+      }
+   `;
+
+   /**
+    * Highlight the local player's row
+    */
+   public setLocalUsername(username: string): void {
+      this.localUsername = username;
+   }
+
+   public setScores(scores: ScoreUpdateData): void {
+      this.scores = scores;
+   }
+
+   public toggle(): void {
+      this.open = !this.open;
+   }
+
+   public hide(): void {
+      this.open = false;
+   }
+
+   /**
+    * Forget the scores of the last run, the server sends a fresh board when the next one begins
+    */
+   public clear(): void {
+      this.scores = null;
+      this.open = false;
+   }
+
+   private formatAccuracy(player: PlayerScoreStats): string {
+      return player.shotsFired > 0 ? `${Math.round((player.shotsHit / player.shotsFired) * 100)}%` : '-';
+   }
+
+   private formatKillBreakdown(player: PlayerScoreStats): string {
+      return Object.entries(player.killsByEnemyType)
+         .sort(([, a], [, b]) => (b ?? 0) - (a ?? 0))
+         .map(([enemyType, kills]) => `${enemyType.replace('_', ' ')} x${kills}`)
+         .join(' · ');
+   }
+
+   render() {
+      if (!this.open || !this.scores) return null;
+
+      return html`
+         <div class="panel">
+            <div class="team">Team score ${this.scores.teamScore}</div>
+            <table>
+               <tr>
+                  <th>Player</th>
+                  <th>Score</th>
+                  <th>Kills</th>
+                  <th>Assists</th>
+                  <th>Damage</th>
+                  <th>Accuracy</th>
+                  <th>Deaths</th>
+                  <th>Revives</th>
+               </tr>
+               ${this.scores.players.map(
+                  (player) => html`
+                     <tr class=${player.username === this.localUsername ? 'local' : ''}>
+                        <td>${player.displayName}</td>
+                        <td>${player.score}</td>
+                        <td>${player.kills}</td>
+                        <td>${player.assists}</td>
+                        <td>${Math.round(player.damageDealt)}</td>
+                        <td>${this.formatAccuracy(player)}</td>
+                        <td>${player.deaths}</td>
+                        <td>${player.revives}</td>
+                     </tr>
+                     ${
+                        player.kills > 0
+                           ? html`
+                                <tr>
+                                   <td class="breakdown" colspan="8">${this.formatKillBreakdown(player)}</td>
+                                </tr>
+                             `
+                           : ''
+                     }
+                  `,
+               )}
+            </table>
+         </div>
+      `;
+   }
+}
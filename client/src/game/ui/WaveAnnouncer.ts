@@ -0,0 +1,183 @@
+// client/src/game/ui/WaveAnnouncer.ts
+
+import { css, html, LitElement } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+
+type WaveBanner = 'none' | 'incoming' | 'started' | 'cleared';
+
+/**
+ * Overlay announcing waves: "Wave N incoming" with a countdown, a short flash when the wave
+ * starts and a "cleared" message afterwards. The wave number stays visible in the corner.
+ */
+@customElement('wave-announcer')
+export class WaveAnnouncer extends LitElement {
+   @state() private banner: WaveBanner = 'none';
+   @state() private waveNumber = 0;
+   @state() private secondsLeft = 0;
+   @state() private enemyCount = 0;
+   @state() private bossCount = 0;
+
+   // Absolute timestamp the countdown runs to, in the same clock as getTime()
+   private countdownTarget = 0;
+   private getTime: () => number = () => Date.now();
+   private countdownInterval: number | null = null;
+   private hideTimeout: number | null = null;
+
+   static styles = css`
+      :host {
+         position: fixed;
+         inset: 0;
+         z-index: 9000;
+         pointer-events: none;
+         font-family: 'Courier New', monospace;
+      }
+
+      .wave-counter {
+         position: absolute;
+         top: 10px;
+         right: 16px;
+         color: #ffffff;
+         font-size: 16px;
+         font-weight: bold;
+         text-shadow: 0 0 4px rgba(0, 0, 0, 0.8);
+      }
+
+      .banner {
+         position: absolute;
+         top: 22%;
+         left: 50%;
+         transform: translateX(-50%);
+         text-align: center;
+         color: #ffffff;
+         text-shadow: 0 0 8px rgba(0, 0, 0, 0.9);
+      }
+
+      .title {
+         font-size: 48px;
+         font-weight: bold;
+         letter-spacing: 2px;
+      }
+
+      .subtitle {
+         margin-top: 8px;
+         font-size: 18px;
+         color: #cbd5e1;
+      }
+
+      .countdown {
+         margin-top: 12px;
+         font-size: 64px;
+         font-weight: bold;
+         color: #f59e0b;
+      }
+
+      .started {
+         color: #ef4444;
+      }
+
+      .cleared {
+         color: #10b981;
+      }
+   `;
+
+   /**
+    * Use the game's clock so countdowns line up with server timestamps
+    */
+   public setTimeSource(getTime: () => number): void {
+      this.getTime = getTime;
+   }
+
+   public showIncoming(waveNumber: number, startsAt: number, enemyCount: number, bossCount: number): void {
+      this.waveNumber = waveNumber;
+      this.enemyCount = enemyCount;
+      this.bossCount = bossCount;
+      this.countdownTarget = startsAt;
+      this.showBanner('incoming');
+      this.startCountdown();
+   }
+
+   public showStarted(waveNumber: number, enemyCount: number): void {
+      this.waveNumber = waveNumber;
+      this.enemyCount = enemyCount;
+      this.stopCountdown();
+      this.showBanner('started', 2000);
+   }
+
+   public showCleared(waveNumber: number): void {
+      this.waveNumber = waveNumber;
+      this.showBanner('cleared', 2500);
+   }
+
+   disconnectedCallback(): void {
+      super.disconnectedCallback();
+      this.stopCountdown();
+      this.clearHideTimeout();
+   }
+
+   private showBanner(banner: WaveBanner, hideAfterMs?: number): void {
+      this.clearHideTimeout();
+      this.banner = banner;
+
+      if (hideAfterMs) {
+         this.hideTimeout = window.setTimeout(() => {
+            this.banner = 'none';
+         }, hideAfterMs);
+      }
+   }
+
+   private startCountdown(): void {
+      this.stopCountdown();
+      this.updateCountdown();
+      this.countdownInterval = window.setInterval(() => this.updateCountdown(), 250);
+   }
+
+   private updateCountdown(): void {
+      this.secondsLeft = Math.max(0, Math.ceil((this.countdownTarget - this.getTime()) / 1000));
+
+      if (this.secondsLeft === 0) {
+         this.stopCountdown();
+      }
+   }
+
+   private stopCountdown(): void {
+      if (this.countdownInterval !== null) {
+         clearInterval(this.countdownInterval);
+         this.countdownInterval = null;
+      }
+   }
+
+   private clearHideTimeout(): void {
+      if (this.hideTimeout !== null) {
+         clearTimeout(this.hideTimeout);
+         this.hideTimeout = null;
+      }
+   }
+
+   private renderBanner() {
+      switch (this.banner) {
+         case 'incoming':
+            return html`
+               <div class="banner">
+                  <div class="title">Wave ${this.waveNumber} incoming</div>
+                  <div class="subtitle">
+                     ${this.enemyCount} enemies${this.bossCount > 0 ? html` &middot; ${this.bossCount} boss` : ''}
+                  </div>
+                  <div class="countdown">${this.secondsLeft}</div>
+               </div>
+            `;
+         case 'started':
+            return html`<div class="banner"><div class="title started">Wave ${this.waveNumber}</div></div>`;
+         case 'cleared':
+            return html`<div class="banner"><div class="title cleared">Wave ${this.waveNumber} cleared</div></div>`;
+         default:
+            return null;
+      }
+   }
+
+   render() {
+      return html`
+         ${this.waveNumber > 0 ? html`<div class="wave-counter">Wave ${this.waveNumber}</div>` : ''}
+         ${this.renderBanner()}
+      `;
+   }
+}
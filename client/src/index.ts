@@ -1,6 +1,8 @@
 // src/index.ts
 import './styles/tailwind.css';
 import './ui/app';
+import type FrontendGame from './game/FrontendGame';
+import type { AssetLoader } from './game/AssetLoader';
 
 // Prevent duplicate initialization
 if (!window.__PIXICANVASAPP__) {
@@ -12,9 +14,11 @@ if (!window.__PIXICANVASAPP__) {
          appElement.innerHTML = '<game-app></game-app>';
       }
 
-      // Listen for the start-game event
-      document.addEventListener('start-game', async (event) => {
-         const eventDetail = (event as CustomEvent).detail;
+      // Load the assets and start a game, or a replay, behind a loading screen
+      const launchGame = async (
+         createGame: (Game: typeof FrontendGame, assets: AssetLoader) => FrontendGame,
+         retryEvent: CustomEvent,
+      ) => {
          console.log('Starting game initialization...');
 
          // Show loading screen
@@ -30,12 +34,12 @@ if (!window.__PIXICANVASAPP__) {
 
          try {
             const { AssetLoader } = await import('./game/AssetLoader');
-            const { default: FrontendGame } = await import('./game/FrontendGame');
+            const { default: Game } = await import('./game/FrontendGame');
 
             const assetLoader = new AssetLoader();
             await assetLoader.loadAllAssets();
 
-            const app = new FrontendGame(assetLoader, eventDetail.user);
+            const app = createGame(Game, assetLoader);
             await app.init();
 
             document.body.removeChild(loadingElement);
@@ -56,9 +60,26 @@ if (!window.__PIXICANVASAPP__) {
             `;
             document.getElementById('retry-button')?.addEventListener('click', () => {
                document.body.removeChild(loadingElement);
-               document.dispatchEvent(new CustomEvent('start-game'));
+               document.dispatchEvent(retryEvent);
             });
          }
+      };
+
+      // Listen for the start-game event
+      document.addEventListener('start-game', (event) => {
+         const eventDetail = (event as CustomEvent).detail;
+         launchGame(
+            (Game, assets) => new Game(assets, eventDetail.user, eventDetail.lobby, eventDetail.playerType),
+            new CustomEvent('start-game', { detail: eventDetail }),
+         );
+      });
+
+      document.addEventListener('start-replay', (event) => {
+         const eventDetail = (event as CustomEvent).detail;
+         launchGame(
+            (Game, assets) => Game.createReplay(assets, eventDetail.view),
+            new CustomEvent('start-replay', { detail: eventDetail }),
+         );
       });
    })();
 }
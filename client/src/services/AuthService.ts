@@ -12,12 +12,27 @@ export class AuthService {
    private readonly REFRESH_TOKEN_KEY = 'refresh_token';
    private readonly USER_KEY = 'user_data';
 
+   // Refresh this long before the access token expires, so requests never go out with a stale one
+   private readonly REFRESH_MARGIN_MS = 60 * 1000;
+
+   // A refresh token works once, concurrent refreshes share the one request
+   private refreshPromise: Promise<boolean> | null = null;
+   private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+   private authChangeListeners: Set<() => void> = new Set();
+
    private constructor() {
       // Get auth service URL from environment or use default
       this.authUrl = import.meta.env.VITE_AUTH_SERVICE_URL || 'http://localhost:4000';
 
       // Try to load user from local storage
       this.loadUserAndValidateToken();
+
+      // Another tab that rotated the tokens or logged out updates the shared storage
+      window.addEventListener('storage', (event) => {
+         if (event.key === this.USER_KEY) {
+            this.adoptStoredUser();
+         }
+      });
    }
 
    /**
@@ -38,6 +53,7 @@ export class AuthService {
       if (userJson) {
          try {
             const userData = JSON.parse(userJson);
+            this.currentUser = userData;
 
             // Check if token is expired
             if (this.isTokenExpired(userData.token)) {
@@ -48,7 +64,7 @@ export class AuthService {
                   this.clearUser();
                });
             } else {
-               this.currentUser = userData;
+               this.scheduleRefresh();
             }
          } catch (error) {
             console.error('Failed to parse stored user data:', error);
@@ -63,7 +79,15 @@ export class AuthService {
     * @returns true if token is expired or invalid, false if still valid
     */
    private isTokenExpired(token: string): boolean {
-      if (!token) return true;
+      const expiresAt = this.getTokenExpiry(token);
+      return expiresAt === null || expiresAt < Date.now();
+   }
+
+   /**
+    * Expiry of a JWT token in milliseconds, null if it can't be decoded
+    */
+   private getTokenExpiry(token: string): number | null {
+      if (!token) return null;
 
       try {
          // Extract the payload from the JWT token
@@ -77,13 +101,10 @@ export class AuthService {
          );
 
          const { exp } = JSON.parse(jsonPayload);
-
-         // Check if the expiration time has passed
-         const currentTime = Math.floor(Date.now() / 1000);
-         return exp < currentTime;
+         return exp * 1000;
       } catch (error) {
          console.error('Error decoding token:', error);
-         return true; // If we can't decode the token, consider it expired
+         return null; // If we can't decode the token, consider it expired
       }
    }
 
@@ -222,10 +243,72 @@ export class AuthService {
    }
 
    /**
-    * Logout the current user
+    * Logout the current user, the server ends the session so its refresh token can't be used anymore
     */
    public logout(): void {
+      const refreshToken = this.currentUser?.refreshToken;
       this.clearUser();
+
+      if (refreshToken) {
+         fetch(`${this.authUrl}/auth/logout`, {
+            method: 'POST',
+            headers: {
+               'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ refreshToken }),
+            keepalive: true,
+         }).catch((error) => console.error('Logout error:', error));
+      }
+   }
+
+   /**
+    * Confirm the email address with the token from the verification mail
+    * @returns Message to show the user
+    */
+   public async verifyEmail(token: string): Promise<string> {
+      return this.postAccountRequest('/auth/verify-email', { token }, 'Email verification failed');
+   }
+
+   /**
+    * Ask for a password reset mail. The server answers the same whether or not the email is known
+    * @returns Message to show the user
+    */
+   public async requestPasswordReset(email: string): Promise<string> {
+      return this.postAccountRequest('/auth/forgot-password', { email }, 'Password reset request failed');
+   }
+
+   /**
+    * Set a new password with the token from the reset mail, the user signs in with it afterwards
+    * @returns Message to show the user
+    */
+   public async resetPassword(token: string, password: string): Promise<string> {
+      return this.postAccountRequest('/auth/reset-password', { token, password }, 'Password reset failed');
+   }
+
+   private async postAccountRequest(path: string, body: object, failure: string): Promise<string> {
+      const response = await fetch(`${this.authUrl}${path}`, {
+         method: 'POST',
+         headers: {
+            'Content-Type': 'application/json',
+         },
+         body: JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+         throw new Error(data.message || failure);
+      }
+
+      return data.message;
+   }
+
+   /**
+    * Called whenever the user signs in, out, or gets new tokens
+    * @returns Function that removes the listener
+    */
+   public onAuthChange(listener: () => void): () => void {
+      this.authChangeListeners.add(listener);
+      return () => this.authChangeListeners.delete(listener);
    }
 
    /**
@@ -238,6 +321,8 @@ export class AuthService {
          localStorage.setItem(this.REFRESH_TOKEN_KEY, user.refreshToken);
       }
       this.currentUser = user;
+      this.scheduleRefresh();
+      this.notifyAuthChange();
    }
 
    /**
@@ -248,46 +333,118 @@ export class AuthService {
       localStorage.removeItem(this.TOKEN_KEY);
       localStorage.removeItem(this.REFRESH_TOKEN_KEY);
       this.currentUser = null;
+      this.cancelScheduledRefresh();
+      this.notifyAuthChange();
    }
 
    /**
-    * Refresh the authentication token
+    * Take over the user another tab stored, after it rotated the tokens or logged out
     */
-   public async refreshToken(): Promise<boolean> {
-      const refreshToken = localStorage.getItem(this.REFRESH_TOKEN_KEY);
-      if (!refreshToken) return false;
+   private adoptStoredUser(): void {
+      const userJson = localStorage.getItem(this.USER_KEY);
 
       try {
-         const response = await fetch(`${this.authUrl}/auth/refresh`, {
-            method: 'POST',
-            headers: {
-               'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ refreshToken }),
-         });
+         this.currentUser = userJson ? JSON.parse(userJson) : null;
+      } catch {
+         this.currentUser = null;
+      }
 
-         if (!response.ok) {
-            this.clearUser();
-            return false;
-         }
+      if (this.currentUser) {
+         this.scheduleRefresh();
+      } else {
+         this.cancelScheduledRefresh();
+      }
+      this.notifyAuthChange();
+   }
 
-         const data = await response.json();
+   /**
+    * Rotate the tokens shortly before the access token expires
+    */
+   private scheduleRefresh(): void {
+      this.cancelScheduledRefresh();
+
+      const expiresAt = this.currentUser?.refreshToken ? this.getTokenExpiry(this.currentUser.token) : null;
+      if (expiresAt === null) return;
 
-         // Update tokens in storage
-         if (this.currentUser) {
-            this.currentUser.token = data.token;
-            this.currentUser.refreshToken = data.refreshToken;
-            this.saveUser(this.currentUser);
+      // setTimeout fires right away for delays past 2^31 - 1 ms, long-lived tokens wait in steps
+      const delay = Math.min(Math.max(0, expiresAt - Date.now() - this.REFRESH_MARGIN_MS), 2 ** 31 - 1);
+      this.refreshTimer = setTimeout(() => {
+         this.refreshTimer = null;
+
+         if (expiresAt - Date.now() > this.REFRESH_MARGIN_MS) {
+            this.scheduleRefresh();
+         } else {
+            this.refreshToken();
          }
+      }, delay);
+   }
 
-         return true;
-      } catch (error) {
-         console.error('Token refresh error:', error);
-         this.clearUser();
-         return false;
+   private cancelScheduledRefresh(): void {
+      if (this.refreshTimer !== null) {
+         clearTimeout(this.refreshTimer);
+         this.refreshTimer = null;
       }
    }
 
+   private notifyAuthChange(): void {
+      this.authChangeListeners.forEach((listener) => listener());
+   }
+
+   /**
+    * Refresh the authentication token. The server replaces the refresh token with a new one on every use
+    * and ends the session if an old one comes back, so only one refresh runs at a time
+    */
+   public refreshToken(): Promise<boolean> {
+      if (!this.refreshPromise) {
+         this.refreshPromise = this.rotateTokens().finally(() => {
+            this.refreshPromise = null;
+         });
+      }
+
+      return this.refreshPromise;
+   }
+
+   private async rotateTokens(): Promise<boolean> {
+      const usedRefreshToken = this.currentUser?.refreshToken;
+      if (!usedRefreshToken) return false;
+
+      // Tabs share the stored tokens, the lock keeps two of them from exchanging the same refresh token
+      return navigator.locks.request('auth-token-refresh', async () => {
+         this.adoptStoredUser();
+
+         const refreshToken = this.currentUser?.refreshToken;
+         if (!refreshToken) return false;
+
+         // Another tab rotated the tokens while this one waited for the lock
+         if (refreshToken !== usedRefreshToken) return true;
+
+         try {
+            const response = await fetch(`${this.authUrl}/auth/refresh`, {
+               method: 'POST',
+               headers: {
+                  'Content-Type': 'application/json',
+               },
+               body: JSON.stringify({ refreshToken }),
+            });
+
+            if (!response.ok) {
+               this.clearUser();
+               return false;
+            }
+
+            const data = await response.json();
+
+            // Update tokens in storage
+            this.saveUser({ ...this.currentUser!, token: data.token, refreshToken: data.refreshToken });
+            return true;
+         } catch (error) {
+            // Unreachable server, the refresh token was not used and the next attempt can still try it
+            console.error('Token refresh error:', error);
+            return false;
+         }
+      });
+   }
+
    /**
     * Get authorization headers for API requests
     */
@@ -296,6 +453,25 @@ export class AuthService {
       return token ? { Authorization: `Bearer ${token}` } : {};
    }
 
+   /**
+    * Fetch with the user's access token, refreshed first if it expired. A request the server rejects as
+    * unauthorized is sent once more with rotated tokens, in case they were revoked in between
+    */
+   public async authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+      if (this.currentUser?.refreshToken && this.isTokenExpired(this.currentUser.token)) {
+         await this.refreshToken();
+      }
+
+      const send = () => fetch(url, { ...init, headers: { ...init.headers, ...this.getAuthHeaders() } });
+      const response = await send();
+
+      if (response.status === 401 && this.currentUser?.refreshToken && (await this.refreshToken())) {
+         return send();
+      }
+
+      return response;
+   }
+
    /**
     * Get a game-specific token for joining a game
     */
@@ -303,11 +479,10 @@ export class AuthService {
       if (!this.currentUser?.token) return null;
 
       try {
-         const response = await fetch(`${this.authUrl}/auth/game-token`, {
+         const response = await this.authorizedFetch(`${this.authUrl}/auth/game-token`, {
             method: 'POST',
             headers: {
                'Content-Type': 'application/json',
-               ...this.getAuthHeaders(),
             },
             body: JSON.stringify({ gameId }),
          });
@@ -0,0 +1,72 @@
+import { LeaderboardPage, LeaderboardPeriod } from 'shared/auth/LeaderboardModels';
+import { AuthService } from './AuthService';
+
+/**
+ * Which leaderboard to load, a board narrowed to a player class or a map, or the overall one
+ */
+export type LeaderboardBoard =
+   { kind: 'overall' } | { kind: 'class'; playerClass: string } | { kind: 'map'; mapId: string };
+
+/**
+ * Service for reading the leaderboards the auth server keeps from finished matches
+ */
+export class LeaderboardService {
+   private static instance: LeaderboardService;
+   private authUrl: string;
+   private authService = AuthService.getInstance();
+
+   private constructor() {
+      // Leaderboards are served by the auth service, next to the match history they are built from
+      this.authUrl = import.meta.env.VITE_AUTH_SERVICE_URL || 'http://localhost:4000';
+   }
+
+   /**
+    * Get the singleton instance of LeaderboardService
+    */
+   public static getInstance(): LeaderboardService {
+      if (!LeaderboardService.instance) {
+         LeaderboardService.instance = new LeaderboardService();
+      }
+      return LeaderboardService.instance;
+   }
+
+   /**
+    * Load one page of a leaderboard, signed in players also get their own rank
+    */
+   public async getLeaderboard(
+      board: LeaderboardBoard,
+      period: LeaderboardPeriod,
+      page: number,
+      pageSize: number,
+   ): Promise<LeaderboardPage> {
+      const query = new URLSearchParams({ period, page: String(page), pageSize: String(pageSize) });
+
+      try {
+         const response = await this.authService.authorizedFetch(
+            `${this.authUrl}/auth/leaderboard${this.getBoardPath(board)}?${query}`,
+         );
+
+         if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || 'Failed to load leaderboard');
+         }
+
+         const data = await response.json();
+         return data.leaderboard;
+      } catch (error) {
+         console.error('Leaderboard error:', error);
+         throw error;
+      }
+   }
+
+   private getBoardPath(board: LeaderboardBoard): string {
+      switch (board.kind) {
+         case 'class':
+            return `/class/${encodeURIComponent(board.playerClass)}`;
+         case 'map':
+            return `/map/${encodeURIComponent(board.mapId)}`;
+         default:
+            return '';
+      }
+   }
+}
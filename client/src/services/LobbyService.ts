@@ -0,0 +1,79 @@
+import { GameListResponse, GameLobbyInfo, GameLobbyResponse } from 'shared/game/lobby/GameLobbyInfo';
+import { config } from 'shared/game/SystemSettings';
+import { AuthService } from './AuthService';
+
+/**
+ * Service for finding and creating games through the game server's lobby API
+ */
+export class LobbyService {
+   private static instance: LobbyService;
+   private lobbyUrl: string;
+
+   private constructor() {
+      // Get game server URL from environment or use default
+      this.lobbyUrl = import.meta.env.VITE_GAME_SERVER_URL || `http://${config.ip}:${config.port}`;
+   }
+
+   /**
+    * Get the singleton instance of LobbyService
+    */
+   public static getInstance(): LobbyService {
+      if (!LobbyService.instance) {
+         LobbyService.instance = new LobbyService();
+      }
+      return LobbyService.instance;
+   }
+
+   /**
+    * List all games currently running on the server
+    */
+   public async listGames(): Promise<GameLobbyInfo[]> {
+      const data = await this.request<GameListResponse>('/lobby/games', 'GET', 'Failed to list games');
+      return data.games;
+   }
+
+   /**
+    * Look up a single game by id
+    */
+   public async getGame(gameId: string): Promise<GameLobbyInfo> {
+      const data = await this.request<GameLobbyResponse>(
+         `/lobby/games/${encodeURIComponent(gameId)}`,
+         'GET',
+         'Game not found',
+      );
+      return data.game;
+   }
+
+   /**
+    * Create a new game lobby
+    */
+   public async createGame(): Promise<GameLobbyInfo> {
+      const data = await this.request<GameLobbyResponse>('/lobby/games', 'POST', 'Failed to create game');
+      return data.game;
+   }
+
+   /**
+    * Get a game that still accepts players, the server creates one if none is open
+    */
+   public async quickJoin(): Promise<GameLobbyInfo> {
+      const data = await this.request<GameLobbyResponse>('/lobby/games/quick-join', 'POST', 'Failed to find a game');
+      return data.game;
+   }
+
+   private async request<T>(path: string, method: 'GET' | 'POST', fallbackError: string): Promise<T> {
+      try {
+         // Creating and quick joining take up a game slot, the server only allows them for signed in players
+         const response = await AuthService.getInstance().authorizedFetch(`${this.lobbyUrl}${path}`, { method });
+
+         if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || fallbackError);
+         }
+
+         return await response.json();
+      } catch (error) {
+         console.error('Lobby error:', error);
+         throw error;
+      }
+   }
+}
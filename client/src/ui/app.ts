@@ -3,26 +3,40 @@ import { customElement, state } from 'lit/decorators.js';
 
 // Import UI components
 import './home/home-page';
+import './home/leaderboard-page';
 import './auth/login-form';
 import './auth/register-form';
 import './auth/auth-modal';
 import './components/button';
 import './components/how-to-play-modal';
+import type { AuthModalType } from './auth/auth-modal';
 import { AuthService } from '../services/AuthService';
+import { LobbyService } from '../services/LobbyService';
+import { GameLobbyInfo } from 'shared/game/lobby/GameLobbyInfo';
 import { TailwindLitElement } from '../tailwind-element';
+import { PlayerTypeEnum } from 'shared/game/PlayerTypes';
+import { ReplayFileCodec } from 'shared/game/replay/ReplayFileCodec';
+import { MatchReplayView } from 'shared/game/replay/MatchReplay';
 
-type AppView = 'home' | 'game' | 'loading';
-type AuthModalType = 'login' | 'register' | null;
+const SELECTED_CLASS_KEY = 'selected_class';
+
+type AppView = 'home' | 'leaderboard' | 'game' | 'loading';
 
 @customElement('game-app')
 export class GameApp extends TailwindLitElement {
    @state() private currentView: AppView = 'home';
-   @state() private showAuthModal: AuthModalType = null;
+   @state() private showAuthModal: AuthModalType | null = null;
    @state() private isAuthenticated: boolean = false;
    @state() private authError: string = '';
+   @state() private authNotice: string = '';
    @state() private isLoading: boolean = false;
+   @state() private selectedClass: PlayerTypeEnum = this.loadSelectedClass();
+
+   // Token from the link in a password reset mail, sent along with the new password
+   private resetToken: string = '';
 
    private authService = AuthService.getInstance();
+   private lobbyService = LobbyService.getInstance();
 
    static styles = css`
     :host {
@@ -35,16 +49,85 @@ export class GameApp extends TailwindLitElement {
    constructor() {
       super();
       this.isAuthenticated = this.authService.isAuthenticated();
+
+      // Tokens are rotated in the background, a failed rotation signs the user out
+      this.authService.onAuthChange(() => {
+         this.isAuthenticated = this.authService.isAuthenticated();
+      });
+
+      this.handleEmailLink();
    }
 
    private showLogin() {
       this.showAuthModal = 'login';
       this.authError = '';
+      this.authNotice = '';
    }
 
    private showRegister() {
       this.showAuthModal = 'register';
       this.authError = '';
+      this.authNotice = '';
+   }
+
+   private showForgotPassword() {
+      this.showAuthModal = 'forgot-password';
+      this.authError = '';
+      this.authNotice = '';
+   }
+
+   /**
+    * Open the matching dialog when the page was opened from a verification or password reset mail. The
+    * token is removed from the address bar so it doesn't linger in the history
+    */
+   private handleEmailLink() {
+      const url = new URL(window.location.href);
+      const verifyToken = url.searchParams.get('verify-email');
+      const resetToken = url.searchParams.get('reset-password');
+
+      if (!verifyToken && !resetToken) {
+         return;
+      }
+
+      url.searchParams.delete('verify-email');
+      url.searchParams.delete('reset-password');
+      window.history.replaceState(null, '', url);
+
+      if (resetToken) {
+         this.resetToken = resetToken;
+         this.showAuthModal = 'reset-password';
+         return;
+      }
+
+      this.showAuthModal = 'verify-email';
+      this.runAuthRequest(() => this.authService.verifyEmail(verifyToken!), 'Email verification failed');
+   }
+
+   /**
+    * Run a request whose answer is only a message for the user, shown in the open dialog
+    */
+   private async runAuthRequest(request: () => Promise<string>, failure: string) {
+      this.isLoading = true;
+      this.authError = '';
+      this.authNotice = '';
+
+      try {
+         this.authNotice = await request();
+      } catch (error) {
+         this.authError = error instanceof Error ? error.message : failure;
+      } finally {
+         this.isLoading = false;
+      }
+   }
+
+   private handleForgotPassword(e: CustomEvent) {
+      const { email } = e.detail;
+      this.runAuthRequest(() => this.authService.requestPasswordReset(email), 'Password reset request failed');
+   }
+
+   private handleResetPassword(e: CustomEvent) {
+      const { password } = e.detail;
+      this.runAuthRequest(() => this.authService.resetPassword(this.resetToken, password), 'Password reset failed');
    }
 
    private closeAuthModal() {
@@ -100,7 +183,7 @@ export class GameApp extends TailwindLitElement {
       }
    }
 
-  private handlePlay() {
+  private async handlePlay() {
     if (!this.isAuthenticated) {
       this.showLogin();
       return;
@@ -111,12 +194,25 @@ export class GameApp extends TailwindLitElement {
     // Set current view to loading
     this.currentView = 'loading';
 
+    let lobby: GameLobbyInfo;
+    try {
+      lobby = await this.resolveLobby();
+    } catch (error) {
+      console.error('Failed to find a game:', error);
+      this.currentView = 'home';
+      return;
+    }
+
+    console.log(`Joining game ${lobby.gameId} (${lobby.playerCount}/${lobby.maxPlayers} players)`);
+
     // Create and dispatch the event - make sure the name matches the listener
     // The event needs to bubble up to the document level
     const startGameEvent = new CustomEvent('start-game', {
       detail: {
         user: this.authService.getUser(),
-        token: this.authService.getUser()?.token
+        token: this.authService.getUser()?.token,
+        lobby: lobby,
+        playerType: this.selectedClass
       },
       bubbles: true,
       composed: true
@@ -125,6 +221,58 @@ export class GameApp extends TailwindLitElement {
     this.dispatchEvent(startGameEvent);
   }
 
+   // Watch a match from the view file the server's replay runner wrote for one of its players
+   private async handleWatchReplay(e: CustomEvent) {
+      const file: File = e.detail.file;
+
+      let view: MatchReplayView;
+      try {
+         view = ReplayFileCodec.decode<MatchReplayView>(new Uint8Array(await file.arrayBuffer()));
+      } catch (error) {
+         console.error(`Failed to read replay ${file.name}:`, error);
+         return;
+      }
+
+      console.log(`Watching ${view.gameId} as ${view.viewer}`);
+      this.currentView = 'loading';
+
+      this.dispatchEvent(
+         new CustomEvent('start-replay', {
+            detail: { view },
+            bubbles: true,
+            composed: true,
+         }),
+      );
+   }
+
+   // Join the game from an invite link (?game=<id>) or let the server pick an open one
+   private async resolveLobby(): Promise<GameLobbyInfo> {
+      const requestedGameId = new URLSearchParams(window.location.search).get('game');
+      if (requestedGameId) {
+         return this.lobbyService.getGame(requestedGameId);
+      }
+
+      return this.lobbyService.quickJoin();
+   }
+
+   private handleClassChange(e: CustomEvent) {
+      this.selectedClass = e.detail.playerType;
+      localStorage.setItem(SELECTED_CLASS_KEY, this.selectedClass);
+   }
+
+   private loadSelectedClass(): PlayerTypeEnum {
+      const stored = localStorage.getItem(SELECTED_CLASS_KEY) as PlayerTypeEnum | null;
+      return stored && Object.values(PlayerTypeEnum).includes(stored) ? stored : PlayerTypeEnum.Assault;
+   }
+
+   private showLeaderboard() {
+      this.currentView = 'leaderboard';
+   }
+
+   private showHome() {
+      this.currentView = 'home';
+   }
+
    // Handle logout
    private handleLogout() {
       this.authService.logout();
@@ -141,15 +289,28 @@ export class GameApp extends TailwindLitElement {
           <home-page 
             .isAuthenticated=${this.isAuthenticated}
             .username=${this.authService.getUser()?.username || ''}
+            .selectedClass=${this.selectedClass}
             @login=${this.showLogin}
             @register=${this.showRegister}
             @logout=${this.handleLogout}
             @play=${this.handlePlay}
+            @class-change=${this.handleClassChange}
             @guest-login=${this.handleGuestLogin}
+            @watch-replay=${this.handleWatchReplay}
+            @leaderboard=${this.showLeaderboard}
           ></home-page>
         `;
             break;
 
+         case 'leaderboard':
+            mainContent = html`
+          <leaderboard-page
+            .isRegistered=${this.isAuthenticated && !this.authService.getUser()?.isGuest}
+            @back=${this.showHome}
+          ></leaderboard-page>
+        `;
+            break;
+
          case 'loading':
             mainContent = html`
           <div class="flex items-center justify-center h-full w-full">
@@ -173,12 +334,16 @@ export class GameApp extends TailwindLitElement {
         <auth-modal 
           .type=${this.showAuthModal} 
           .error=${this.authError}
+          .notice=${this.authNotice}
           .isLoading=${this.isLoading}
           @close=${this.closeAuthModal}
           @login=${this.handleLogin}
           @register=${this.handleRegister}
-          @switch-to-login=${() => this.showAuthModal = 'login'}
-          @switch-to-register=${() => this.showAuthModal = 'register'}
+          @forgot-password=${this.handleForgotPassword}
+          @reset-password=${this.handleResetPassword}
+          @switch-to-login=${this.showLogin}
+          @switch-to-register=${this.showRegister}
+          @switch-to-forgot-password=${this.showForgotPassword}
         ></auth-modal>
       ` : ''}
     `;
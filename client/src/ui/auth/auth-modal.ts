@@ -3,11 +3,24 @@ import { TailwindLitElement } from '../../tailwind-element';
 import { html } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 import '../components/button';
+import './forgot-password-form';
+import './reset-password-form';
+
+export type AuthModalType = 'login' | 'register' | 'forgot-password' | 'reset-password' | 'verify-email';
+
+const TITLES: Record<AuthModalType, string> = {
+  'login': 'Sign In',
+  'register': 'Create Account',
+  'forgot-password': 'Forgot Password',
+  'reset-password': 'Choose a New Password',
+  'verify-email': 'Verify Email',
+};
 
 @customElement('auth-modal')
 export class AuthModal extends TailwindLitElement {
-  @property({ type: String }) type: 'login' | 'register' = 'login';
+  @property({ type: String }) type: AuthModalType = 'login';
   @property({ type: String }) error = '';
+  @property({ type: String }) notice = '';
   @property({ type: Boolean }) isLoading = false;
 
   private handleClose() {
@@ -28,6 +41,18 @@ export class AuthModal extends TailwindLitElement {
     this.dispatchEvent(new CustomEvent('switch-to-register'));
   }
 
+  private switchToForgotPassword() {
+    this.dispatchEvent(new CustomEvent('switch-to-forgot-password'));
+  }
+
+  private handleForgotPassword(e: CustomEvent) {
+    this.dispatchEvent(new CustomEvent('forgot-password', { detail: e.detail }));
+  }
+
+  private handleResetPassword(e: CustomEvent) {
+    this.dispatchEvent(new CustomEvent('reset-password', { detail: e.detail }));
+  }
+
   private handleLogin(e: CustomEvent) {
     this.dispatchEvent(new CustomEvent('login', { detail: e.detail }));
   }
@@ -42,7 +67,7 @@ export class AuthModal extends TailwindLitElement {
         <div class="bg-slate-800 border border-slate-700 rounded-lg shadow-xl w-full max-w-md transform transition-all duration-300 animate-slide-up" @click=${(e: Event) => e.stopPropagation()}>
           <div class="flex justify-between items-center p-6 border-b border-slate-700">
             <h2 class="text-2xl font-game text-white">
-              ${this.type === 'login' ? 'Sign In' : 'Create Account'}
+              ${TITLES[this.type]}
             </h2>
             <button
               @click=${this.handleClose}
@@ -62,12 +87,38 @@ export class AuthModal extends TailwindLitElement {
               </div>
             ` : ''}
 
+            ${this.notice ? html`
+              <div class="bg-emerald-900/50 border border-emerald-500 text-emerald-200 px-4 py-3 rounded mb-6" role="status">
+                ${this.notice}
+              </div>
+            ` : ''}
+
             ${this.isLoading ? html`
               <div class="flex justify-center py-12">
                 <div class="w-12 h-12 border-4 border-t-game-primary border-r-transparent rounded-full animate-spin"></div>
               </div>
+            ` : this.notice || this.type === 'verify-email' ? html`
+              <game-button
+                variant="primary"
+                text=${this.type === 'verify-email' ? 'Continue' : 'Back to Sign In'}
+                class="w-full"
+                @click=${this.type === 'verify-email' ? this.handleClose : this.switchToLogin}
+              ></game-button>
+            ` : this.type === 'forgot-password' ? html`
+              <forgot-password-form @forgot-password=${this.handleForgotPassword}></forgot-password-form>
+              <div class="mt-6 pt-4 border-t border-slate-700 text-center text-sm text-slate-400">
+                Remembered it?
+                <button
+                  @click=${this.switchToLogin}
+                  class="text-game-accent hover:underline ml-1 font-medium"
+                >
+                  Sign in
+                </button>
+              </div>
+            ` : this.type === 'reset-password' ? html`
+              <reset-password-form @reset-password=${this.handleResetPassword}></reset-password-form>
             ` : this.type === 'login' ? html`
-              <login-form @login=${this.handleLogin}></login-form>
+              <login-form @login=${this.handleLogin} @forgot-password=${this.switchToForgotPassword}></login-form>
               <div class="mt-6 pt-4 border-t border-slate-700 text-center text-sm text-slate-400">
                 Don't have an account?
                 <button
@@ -0,0 +1,50 @@
+// src/ui/auth/forgot-password-form.ts
+import { html } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { TailwindLitElement } from '../../tailwind-element';
+import '../components/button';
+
+@customElement('forgot-password-form')
+export class ForgotPasswordForm extends TailwindLitElement {
+   @state() private email: string = '';
+   @state() private emailError: string = '';
+
+   private handleSubmit(e: Event) {
+      e.preventDefault();
+      this.emailError = '';
+
+      if (!/^\S+@\S+\.\S+$/.test(this.email)) {
+         this.emailError = 'Please enter a valid email address';
+         return;
+      }
+
+      this.dispatchEvent(new CustomEvent('forgot-password', { detail: { email: this.email } }));
+   }
+
+   render() {
+      return html`
+         <form @submit=${this.handleSubmit} class="space-y-5">
+            <p class="text-sm text-slate-400">
+               Enter the email address of your account and we'll send you a link to choose a new password.
+            </p>
+
+            <div>
+               <label for="forgot-email" class="block text-sm font-medium text-slate-300 mb-1">Email</label>
+               <input
+                  type="email"
+                  id="forgot-email"
+                  class="w-full px-4 py-2 bg-slate-900/50 border border-slate-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-game-accent focus:border-transparent transition-all"
+                  .value=${this.email}
+                  @input=${(e: InputEvent) => (this.email = (e.target as HTMLInputElement).value)}
+                  placeholder="Enter your email"
+               />
+               ${this.emailError ? html`<p class="mt-1 text-sm text-red-400">${this.emailError}</p>` : ''}
+            </div>
+
+            <div class="pt-2">
+               <game-button type="submit" variant="primary" text="Send Reset Link" class="w-full"></game-button>
+            </div>
+         </form>
+      `;
+   }
+}
@@ -51,6 +51,11 @@ export class LoginForm extends TailwindLitElement {
     }
   }
 
+  private handleForgotPassword(e: Event) {
+    e.preventDefault();
+    this.dispatchEvent(new CustomEvent('forgot-password'));
+  }
+
   render() {
     return html`
       <form @submit=${this.handleSubmit} class="space-y-5">
@@ -70,7 +75,7 @@ export class LoginForm extends TailwindLitElement {
         <div>
           <div class="flex justify-between items-center mb-1">
             <label for="password" class="block text-sm font-medium text-slate-300">Password</label>
-            <a href="#" class="text-xs text-game-accent hover:underline">Forgot password?</a>
+            <a href="#" @click=${this.handleForgotPassword} class="text-xs text-game-accent hover:underline">Forgot password?</a>
           </div>
           <input
              type="password"
@@ -0,0 +1,83 @@
+// src/ui/auth/reset-password-form.ts
+import { html } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { TailwindLitElement } from '../../tailwind-element';
+import '../components/button';
+
+@customElement('reset-password-form')
+export class ResetPasswordForm extends TailwindLitElement {
+   @state() private password: string = '';
+   @state() private confirmPassword: string = '';
+
+   @state() private passwordError: string = '';
+   @state() private confirmPasswordError: string = '';
+
+   private validateForm(): boolean {
+      let isValid = true;
+
+      this.passwordError = '';
+      this.confirmPasswordError = '';
+
+      // Same rules as registration, the server rejects anything weaker
+      if (this.password.length < 8) {
+         this.passwordError = 'Password must be at least 8 characters';
+         isValid = false;
+      } else if (!/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*()]).+$/.test(this.password)) {
+         this.passwordError = 'Password must include uppercase, lowercase, number, and special character';
+         isValid = false;
+      }
+
+      if (this.password !== this.confirmPassword) {
+         this.confirmPasswordError = 'Passwords do not match';
+         isValid = false;
+      }
+
+      return isValid;
+   }
+
+   private handleSubmit(e: Event) {
+      e.preventDefault();
+
+      if (this.validateForm()) {
+         this.dispatchEvent(new CustomEvent('reset-password', { detail: { password: this.password } }));
+      }
+   }
+
+   render() {
+      return html`
+         <form @submit=${this.handleSubmit} class="space-y-4">
+            <div>
+               <label for="reset-password" class="block text-sm font-medium text-slate-300 mb-1">New Password</label>
+               <input
+                  type="password"
+                  id="reset-password"
+                  class="w-full px-4 py-2 bg-slate-900/50 border border-slate-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-game-accent focus:border-transparent transition-all"
+                  .value=${this.password}
+                  @input=${(e: InputEvent) => (this.password = (e.target as HTMLInputElement).value)}
+                  placeholder="Choose a strong password"
+               />
+               ${this.passwordError ? html`<p class="mt-1 text-sm text-red-400">${this.passwordError}</p>` : ''}
+            </div>
+
+            <div>
+               <label for="reset-confirm-password" class="block text-sm font-medium text-slate-300 mb-1"
+                  >Confirm Password</label
+               >
+               <input
+                  type="password"
+                  id="reset-confirm-password"
+                  class="w-full px-4 py-2 bg-slate-900/50 border border-slate-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-game-accent focus:border-transparent transition-all"
+                  .value=${this.confirmPassword}
+                  @input=${(e: InputEvent) => (this.confirmPassword = (e.target as HTMLInputElement).value)}
+                  placeholder="Confirm your password"
+               />
+               ${this.confirmPasswordError ? html`<p class="mt-1 text-sm text-red-400">${this.confirmPasswordError}</p>` : ''}
+            </div>
+
+            <div class="pt-2">
+               <game-button type="submit" variant="primary" text="Set Password" class="w-full"></game-button>
+            </div>
+         </form>
+      `;
+   }
+}
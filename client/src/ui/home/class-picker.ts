@@ -0,0 +1,57 @@
+// src/ui/home/class-picker.ts
+import { customElement, property } from 'lit/decorators.js';
+import { TailwindLitElement } from '../../tailwind-element';
+import { html } from 'lit';
+import { PlayerTypeEnum } from 'shared/game/PlayerTypes';
+
+interface ClassOption {
+   type: PlayerTypeEnum;
+   name: string;
+   role: string;
+   health: number;
+}
+
+// Mirrors createPlayerTypeConfigs, which needs an initialised Rapier module the home page does not have
+const CLASS_OPTIONS: ClassOption[] = [
+   { type: PlayerTypeEnum.Tank, name: 'Tank', role: 'Soaks up damage up close', health: 200 },
+   { type: PlayerTypeEnum.Assault, name: 'Assault', role: 'Fast all-rounder', health: 100 },
+   { type: PlayerTypeEnum.Sniper, name: 'Marksman', role: 'Long range, high damage', health: 80 },
+];
+
+@customElement('class-picker')
+export class ClassPicker extends TailwindLitElement {
+   @property({ type: String }) selected: PlayerTypeEnum = PlayerTypeEnum.Assault;
+
+   private handleSelect(type: PlayerTypeEnum) {
+      this.selected = type;
+      this.dispatchEvent(new CustomEvent('class-change', { detail: { playerType: type } }));
+   }
+
+   render() {
+      return html`
+         <div class="flex gap-3">
+            ${CLASS_OPTIONS.map((option) => {
+               const isSelected = option.type === this.selected;
+
+               return html`
+                  <button
+                     type="button"
+                     class="w-36 p-3 rounded-md border-2 text-left transition-all duration-150 ${
+                        isSelected
+                           ? 'border-game-primary bg-slate-800 shadow-[0_0_12px_rgba(255,204,0,0.4)]'
+                           : 'border-slate-600 bg-slate-900/60 hover:border-slate-400'
+                     }"
+                     @click=${() => this.handleSelect(option.type)}
+                  >
+                     <div class="font-game font-bold ${isSelected ? 'text-game-primary' : 'text-white'}">
+                        ${option.name}
+                     </div>
+                     <div class="text-xs text-slate-300 mt-1">${option.role}</div>
+                     <div class="text-xs text-game-light mt-2">${option.health} HP</div>
+                  </button>
+               `;
+            })}
+         </div>
+      `;
+   }
+}
@@ -3,11 +3,14 @@ import { customElement, property, state } from 'lit/decorators.js';
 import { TailwindLitElement } from '../../tailwind-element';
 import { html } from 'lit';
 import '../components/button';
+import './class-picker';
+import { PlayerTypeEnum } from 'shared/game/PlayerTypes';
 
 @customElement('home-page')
 export class HomePage extends TailwindLitElement {
    @property({ type: Boolean }) isAuthenticated = false;
    @property({ type: String }) username = '';
+   @property({ type: String }) selectedClass: PlayerTypeEnum = PlayerTypeEnum.Assault;
 
    @state() private showHowToPlay = false;
 
@@ -27,10 +30,32 @@ export class HomePage extends TailwindLitElement {
       this.dispatchEvent(new CustomEvent('play'));
    }
 
+   private handleClassChange(e: CustomEvent) {
+      this.selectedClass = e.detail.playerType;
+      this.dispatchEvent(new CustomEvent('class-change', { detail: e.detail }));
+   }
+
    private handleLogout() {
       this.dispatchEvent(new CustomEvent('logout'));
    }
 
+   private handleWatchReplay() {
+      this.renderRoot.querySelector<HTMLInputElement>('#replay-file')?.click();
+   }
+
+   private handleReplayFileSelected(e: Event) {
+      const input = e.target as HTMLInputElement;
+      const file = input.files?.[0];
+      input.value = '';
+      if (!file) return;
+
+      this.dispatchEvent(new CustomEvent('watch-replay', { detail: { file } }));
+   }
+
+   private handleLeaderboard() {
+      this.dispatchEvent(new CustomEvent('leaderboard'));
+   }
+
    private handleHowToPlay() {
       this.showHowToPlay = true;
    }
@@ -79,7 +104,10 @@ export class HomePage extends TailwindLitElement {
 
             <!-- Action Buttons -->
             <div class="flex flex-col gap-6 items-center">
-               <game-button variant="primary" size="lg" text="PLAY NOW" @click=${this.handlePlay}></game-button>
+               <div class="flex items-center gap-6">
+                  <class-picker .selected=${this.selectedClass} @class-change=${this.handleClassChange}></class-picker>
+                  <game-button variant="primary" size="lg" text="PLAY NOW" @click=${this.handlePlay}></game-button>
+               </div>
 
                ${!this.isAuthenticated
                   ? html`
@@ -91,7 +119,12 @@ export class HomePage extends TailwindLitElement {
                <div class="mt-6 flex gap-4">
                   <game-button variant="accent" size="sm" text="How to Play"
                                @click=${this.handleHowToPlay}></game-button>
-                  <!--                  <game-button variant="accent" size="sm" text="Leaderboard"></game-button>-->
+                  <game-button variant="accent" size="sm" text="Watch Replay"
+                               @click=${this.handleWatchReplay}></game-button>
+                  <input id="replay-file" type="file" accept=".replay-view" class="hidden"
+                         @change=${this.handleReplayFileSelected} />
+                  <game-button variant="accent" size="sm" text="Leaderboard"
+                               @click=${this.handleLeaderboard}></game-button>
                </div>
             </div>
 
@@ -102,7 +135,7 @@ export class HomePage extends TailwindLitElement {
                   <div class="text-sm">Player Co-op</div>
                </div>
                <div>
-                  <div class="text-game-secondary text-2xl font-bold mb-1">4</div>
+                  <div class="text-game-secondary text-2xl font-bold mb-1">3</div>
                   <div class="text-sm">Character Classes</div>
                </div>
                <div>
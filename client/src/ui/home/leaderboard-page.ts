@@ -0,0 +1,236 @@
+// src/ui/home/leaderboard-page.ts
+import { customElement, property, state } from 'lit/decorators.js';
+import { TailwindLitElement } from '../../tailwind-element';
+import { html } from 'lit';
+import '../components/button';
+import { PlayerTypeEnum } from 'shared/game/PlayerTypes';
+import { LeaderboardEntry, LeaderboardPage, LeaderboardPeriod } from 'shared/auth/LeaderboardModels';
+import { LeaderboardBoard, LeaderboardService } from '../../services/LeaderboardService';
+
+interface BoardOption {
+   label: string;
+   board: LeaderboardBoard;
+}
+
+const PAGE_SIZE = 20;
+
+// The server only ships the one map so far, new maps get a board by being listed here
+const BOARD_OPTIONS: BoardOption[] = [
+   { label: 'Overall', board: { kind: 'overall' } },
+   { label: 'Tank', board: { kind: 'class', playerClass: PlayerTypeEnum.Tank } },
+   { label: 'Assault', board: { kind: 'class', playerClass: PlayerTypeEnum.Assault } },
+   { label: 'Marksman', board: { kind: 'class', playerClass: PlayerTypeEnum.Sniper } },
+   { label: 'First Tiled Map', board: { kind: 'map', mapId: 'first-tiled-map' } },
+];
+
+const PERIOD_OPTIONS: { label: string; period: LeaderboardPeriod }[] = [
+   { label: 'All-time', period: 'all-time' },
+   { label: 'This week', period: 'weekly' },
+];
+
+@customElement('leaderboard-page')
+export class LeaderboardPageElement extends TailwindLitElement {
+   @property({ type: Boolean }) isRegistered = false;
+
+   @state() private selectedBoard: BoardOption = BOARD_OPTIONS[0];
+   @state() private period: LeaderboardPeriod = 'all-time';
+   @state() private page = 1;
+   @state() private leaderboard: LeaderboardPage | null = null;
+   @state() private error = '';
+   @state() private isLoading = false;
+
+   private leaderboardService = LeaderboardService.getInstance();
+
+   /** Guards against an older request finishing after a newer one */
+   private requestId = 0;
+
+   connectedCallback() {
+      super.connectedCallback();
+      this.load();
+   }
+
+   private async load() {
+      const requestId = ++this.requestId;
+      this.isLoading = true;
+      this.error = '';
+
+      try {
+         const leaderboard = await this.leaderboardService.getLeaderboard(
+            this.selectedBoard.board,
+            this.period,
+            this.page,
+            PAGE_SIZE,
+         );
+         if (requestId !== this.requestId) return;
+
+         this.leaderboard = leaderboard;
+      } catch (error) {
+         if (requestId !== this.requestId) return;
+
+         this.leaderboard = null;
+         this.error = error instanceof Error ? error.message : 'Failed to load leaderboard';
+      } finally {
+         if (requestId === this.requestId) {
+            this.isLoading = false;
+         }
+      }
+   }
+
+   private handleBoardChange(option: BoardOption) {
+      this.selectedBoard = option;
+      this.page = 1;
+      this.load();
+   }
+
+   private handlePeriodChange(period: LeaderboardPeriod) {
+      this.period = period;
+      this.page = 1;
+      this.load();
+   }
+
+   private handlePageChange(page: number) {
+      this.page = page;
+      this.load();
+   }
+
+   private handleBack() {
+      this.dispatchEvent(new CustomEvent('back'));
+   }
+
+   private renderTab(label: string, isSelected: boolean, onClick: () => void) {
+      return html`
+         <button
+            type="button"
+            class="px-3 py-1 rounded-md border-2 font-game text-sm transition-all duration-150 ${
+               isSelected
+                  ? 'border-game-primary bg-slate-800 text-game-primary'
+                  : 'border-slate-600 bg-slate-900/60 text-white hover:border-slate-400'
+            }"
+            @click=${onClick}
+         >
+            ${label}
+         </button>
+      `;
+   }
+
+   private renderRow(entry: LeaderboardEntry, isOwn: boolean) {
+      return html`
+         <tr class="border-b border-slate-700 ${isOwn ? 'text-game-primary font-bold' : 'text-white'}">
+            <td class="py-2 px-3">${entry.rank}</td>
+            <td class="py-2 px-3">${entry.displayName}</td>
+            <td class="py-2 px-3 text-right">${entry.bestScore}</td>
+            <td class="py-2 px-3 text-right">${entry.bestWave}</td>
+            <td class="py-2 px-3 text-right">${entry.matchesPlayed}</td>
+         </tr>
+      `;
+   }
+
+   private renderTable() {
+      if (this.error) {
+         return html`<p class="text-red-400 text-center py-8">${this.error}</p>`;
+      }
+
+      if (!this.leaderboard) {
+         return html`<p class="text-game-light text-center py-8">Loading...</p>`;
+      }
+
+      const { entries, own } = this.leaderboard;
+      const ownUserId = own?.userId;
+      const ownOnPage = entries.some((entry) => entry.userId === ownUserId);
+
+      if (entries.length === 0) {
+         return html`<p class="text-game-light text-center py-8">No matches on this board yet</p>`;
+      }
+
+      return html`
+         <table class="w-full text-left ${this.isLoading ? 'opacity-50' : ''}">
+            <thead>
+               <tr class="text-slate-400 text-sm border-b border-slate-600">
+                  <th class="py-2 px-3">#</th>
+                  <th class="py-2 px-3">Player</th>
+                  <th class="py-2 px-3 text-right">Best score</th>
+                  <th class="py-2 px-3 text-right">Best wave</th>
+                  <th class="py-2 px-3 text-right">Matches</th>
+               </tr>
+            </thead>
+            <tbody>
+               ${entries.map((entry) => this.renderRow(entry, entry.userId === ownUserId))}
+               ${
+                  own && !ownOnPage
+                     ? html`
+                          <tr>
+                             <td colspan="5" class="text-center text-slate-500">···</td>
+                          </tr>
+                          ${this.renderRow(own, true)}
+                       `
+                     : ''
+               }
+            </tbody>
+         </table>
+      `;
+   }
+
+   render() {
+      const totalPages = this.leaderboard?.totalPages ?? 0;
+
+      return html`
+         <header class="relative w-full p-4 flex justify-between items-center z-10">
+            <div class="text-xl font-game text-white">TITAN BLAST</div>
+            <game-button variant="secondary" size="sm" text="Back" @click=${this.handleBack}></game-button>
+         </header>
+
+         <main class="flex flex-col items-center h-full pb-16">
+            <h1 class="text-5xl font-game font-bold text-white mt-6 mb-6">
+               <span class="text-game-primary">LEADER</span>BOARD
+            </h1>
+
+            <div class="w-full max-w-3xl bg-slate-800/80 border border-slate-700 rounded-lg p-6">
+               <div class="flex flex-wrap justify-between gap-4 mb-4">
+                  <div class="flex flex-wrap gap-2">
+                     ${BOARD_OPTIONS.map((option) =>
+                        this.renderTab(option.label, option === this.selectedBoard, () =>
+                           this.handleBoardChange(option),
+                        ),
+                     )}
+                  </div>
+                  <div class="flex gap-2">
+                     ${PERIOD_OPTIONS.map((option) =>
+                        this.renderTab(option.label, option.period === this.period, () =>
+                           this.handlePeriodChange(option.period),
+                        ),
+                     )}
+                  </div>
+               </div>
+
+               ${this.renderTable()}
+
+               <div class="flex justify-between items-center mt-4 text-game-light text-sm">
+                  <game-button
+                     variant="accent"
+                     size="sm"
+                     text="Previous"
+                     .disabled=${this.page <= 1 || this.isLoading}
+                     @click=${() => this.page > 1 && !this.isLoading && this.handlePageChange(this.page - 1)}
+                  ></game-button>
+                  <span>Page ${totalPages === 0 ? 0 : this.page} of ${totalPages}</span>
+                  <game-button
+                     variant="accent"
+                     size="sm"
+                     text="Next"
+                     .disabled=${this.page >= totalPages || this.isLoading}
+                     @click=${() => this.page < totalPages && !this.isLoading && this.handlePageChange(this.page + 1)}
+                  ></game-button>
+               </div>
+
+               ${
+                  !this.isRegistered
+                     ? html`<p class="text-center text-slate-400 text-sm mt-4">
+                          Sign in with an account to see your own rank
+                       </p>`
+                     : ''
+               }
+            </div>
+         </main>
+      `;
+   }
+}
@@ -1,6 +1,8 @@
 interface ImportMeta {
    readonly env: {
+      readonly DEV: boolean;
       readonly VITE_AUTH_SERVICE_URL?: string;
-      readonly [key: string]: string | undefined;
+      readonly VITE_GAME_SERVER_URL?: string;
+      readonly [key: string]: string | boolean | undefined;
    };
-}
\ No newline at end of file
+}
@@ -0,0 +1,10 @@
+module.exports = {
+   preset: 'ts-jest',
+   testEnvironment: 'node',
+   roots: ['<rootDir>/tests'],
+   testMatch: ['**/*.test.ts'],
+   transform: {
+      '^.+\\.ts$': 'ts-jest',
+   },
+   testTimeout: 10000,
+};
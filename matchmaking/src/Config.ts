@@ -0,0 +1,39 @@
+// matchmaking/src/Config.ts
+
+export const config = {
+   // Server
+   port: process.env.PORT || 5000,
+   clientUrls: (process.env.CLIENT_URLS || 'http://localhost:9000,http://localhost:9001').split(','),
+
+   // Other services
+   authServiceUrl: process.env.AUTH_SERVICE_URL || 'http://localhost:4000',
+   gameServerUrl: process.env.GAME_SERVER_URL || 'http://localhost:3000',
+   // Shared with the game servers, requests creating games are signed with it
+   gameServerSecret: process.env.GAME_SERVER_SECRET || 'replace-this-with-a-shared-secret-in-production',
+
+   // Use the in-process stand-in instead of a real game server
+   useLocalGameServer: process.env.MATCHMAKING_LOCAL_GAME_SERVER === 'true',
+
+   matchmaking: {
+      // Lobby size, keep in line with the game server's PlayerManager
+      minPlayers: Number(process.env.MATCHMAKING_MIN_PLAYERS || 2),
+      maxPlayers: Number(process.env.MATCHMAKING_MAX_PLAYERS || 4),
+
+      regions: (process.env.MATCHMAKING_REGIONS || 'eu,na,asia').split(','),
+      defaultSkill: 1000,
+
+      // Allowed skill difference, widened the longer a player waits
+      initialSkillRange: 100,
+      skillRangeGrowthPerSecond: 25,
+      maxSkillRange: 1000,
+
+      // After this long a lobby starts with fewer than maxPlayers (but at least minPlayers)
+      partialLobbyAfterMs: 15000,
+
+      // How often queued players are grouped into lobbies
+      tickIntervalMs: 1000,
+
+      // Matched tickets are kept this long so players can pick up their game
+      matchedTicketTtlMs: 60000,
+   },
+};
@@ -0,0 +1,63 @@
+// matchmaking/src/Server.ts
+import express, { Express } from 'express';
+import cors from 'cors';
+import { config } from './Config';
+import { createMatchmakingController } from './controllers/MatchmakingController';
+import { MatchmakingService } from './services/MatchmakingService';
+import { AuthServiceClient, HttpAuthServiceClient } from './services/AuthServiceClient';
+import { GameServerClient, HttpGameServerClient } from './services/GameServerClient';
+import { LocalGameServer } from './services/LocalGameServer';
+
+export interface MatchmakingDependencies {
+   matchmaker: MatchmakingService;
+   authClient: AuthServiceClient;
+}
+
+export function createDefaultDependencies(): MatchmakingDependencies {
+   const gameServer: GameServerClient = config.useLocalGameServer ? new LocalGameServer() : new HttpGameServerClient();
+
+   return {
+      matchmaker: new MatchmakingService(gameServer),
+      authClient: new HttpAuthServiceClient(),
+   };
+}
+
+// Create Express app with all routes configured
+export function createApp(dependencies: MatchmakingDependencies = createDefaultDependencies()): Express {
+   const app = express();
+
+   // Configure middleware
+   app.use(express.json());
+   app.use(
+      cors({
+         origin: config.clientUrls,
+         credentials: true,
+      }),
+   );
+
+   // Register matchmaking routes
+   app.use('/matchmaking', createMatchmakingController(dependencies.matchmaker, dependencies.authClient));
+
+   app.use((err, req, res, next) => {
+      console.error('Unhandled error:', err);
+      res.status(500).json({
+         status: 'error',
+         message: 'Internal server error',
+      });
+   });
+
+   return app;
+}
+
+// Only start the server if this file is run directly, not when imported
+if (require.main === module) {
+   const dependencies = createDefaultDependencies();
+   const app = createApp(dependencies);
+   const PORT = config.port;
+
+   dependencies.matchmaker.start();
+
+   app.listen(PORT, () => {
+      console.log(`Matchmaking server running on port ${PORT}`);
+   });
+}
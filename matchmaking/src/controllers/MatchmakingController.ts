@@ -0,0 +1,88 @@
+// matchmaking/src/controllers/MatchmakingController.ts
+import { Request, Response, Router } from 'express';
+import { createAuthenticate, AuthenticatedRequest } from '../middleware/AuthMiddleware';
+import { validateRequest } from '../middleware/ValidationMiddleware';
+import { joinQueueSchema } from '../validation/Schemas';
+import { QueueTicket } from '../models/Matchmaking';
+import { MatchmakingService } from '../services/MatchmakingService';
+import { AuthServiceClient } from '../services/AuthServiceClient';
+
+function toTicketResponse(ticket: QueueTicket) {
+   return {
+      status: ticket.status,
+      region: ticket.region,
+      partyId: ticket.partyId,
+      partySize: ticket.partySize,
+      enqueuedAt: ticket.enqueuedAt,
+   };
+}
+
+export function createMatchmakingController(matchmaker: MatchmakingService, authClient: AuthServiceClient): Router {
+   const router = Router();
+   const authenticate = createAuthenticate(authClient);
+
+   // Join the matchmaking queue
+   router.post('/queue', authenticate, validateRequest(joinQueueSchema), (req: Request, res: Response) => {
+      try {
+         const authReq = req as AuthenticatedRequest;
+
+         const ticket = matchmaker.joinQueue(
+            { userId: authReq.jwtPayload!.id, username: authReq.jwtPayload!.username },
+            req.body,
+         );
+
+         return res.status(202).json({ message: 'Joined queue', ticket: toTicketResponse(ticket) });
+      } catch (error) {
+         return res.status(400).json({ message: error instanceof Error ? error.message : 'Could not join queue' });
+      }
+   });
+
+   // Poll queue status, once matched this also hands out the game token
+   router.get('/queue', authenticate, async (req: Request, res: Response) => {
+      const authReq = req as AuthenticatedRequest;
+      const ticket = matchmaker.getTicket(authReq.jwtPayload!.username);
+
+      if (!ticket) {
+         return res.status(404).json({ message: 'Not in queue' });
+      }
+
+      if (ticket.status !== 'matched' || !ticket.match) {
+         return res.json({ ticket: toTicketResponse(ticket) });
+      }
+
+      try {
+         const gameToken = await authClient.requestGameToken(authReq.authToken!, ticket.match.gameId);
+
+         return res.json({
+            ticket: toTicketResponse(ticket),
+            match: {
+               gameId: ticket.match.gameId,
+               port: ticket.match.port,
+               players: ticket.match.players,
+            },
+            gameToken,
+         });
+      } catch (error) {
+         console.error(error);
+         return res.status(502).json({ message: 'Error generating game token' });
+      }
+   });
+
+   // Leave the queue
+   router.delete('/queue', authenticate, (req: Request, res: Response) => {
+      const authReq = req as AuthenticatedRequest;
+
+      if (!matchmaker.leaveQueue(authReq.jwtPayload!.username)) {
+         return res.status(404).json({ message: 'Not in queue' });
+      }
+
+      return res.json({ message: 'Left queue' });
+   });
+
+   // Queue sizes per region
+   router.get('/stats', (req: Request, res: Response) => {
+      return res.json({ queued: matchmaker.getQueueSizes() });
+   });
+
+   return router;
+}
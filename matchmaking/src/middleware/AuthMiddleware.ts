@@ -0,0 +1,58 @@
+// matchmaking/src/middleware/AuthMiddleware.ts
+import { NextFunction, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { JwtPayload } from '../models/Matchmaking';
+import { AuthServiceClient } from '../services/AuthServiceClient';
+
+export interface AuthenticatedRequest extends Request {
+   jwtPayload?: JwtPayload;
+   // Raw access token, forwarded to the auth service when requesting a game token
+   authToken?: string;
+}
+
+/**
+ * Authentication middleware factory. Tokens are verified against the auth service's RS256 public key.
+ */
+export function createAuthenticate(authClient: AuthServiceClient) {
+   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const authHeader = req.headers.authorization;
+
+      if (!authHeader) {
+         res.status(401).json({ message: 'Authorization header required' });
+         return;
+      }
+
+      const parts = authHeader.split(' ');
+
+      if (parts.length !== 2 || parts[0] !== 'Bearer' || !parts[1]) {
+         res.status(401).json({ message: 'Authorization header format must be Bearer {token}' });
+         return;
+      }
+
+      let publicKey: string;
+      try {
+         publicKey = await authClient.getPublicKey();
+      } catch (error) {
+         console.error('Authentication middleware error:', error);
+         res.status(503).json({ message: 'Auth service unavailable' });
+         return;
+      }
+
+      try {
+         const decoded = jwt.verify(parts[1], publicKey, { algorithms: ['RS256'] }) as JwtPayload;
+
+         if (!decoded || typeof decoded !== 'object' || !decoded.username) {
+            res.status(401).json({ message: 'Invalid or expired token' });
+            return;
+         }
+
+         const authReq = req as AuthenticatedRequest;
+         authReq.jwtPayload = decoded;
+         authReq.authToken = parts[1];
+
+         next();
+      } catch {
+         res.status(401).json({ message: 'Invalid or expired token' });
+      }
+   };
+}
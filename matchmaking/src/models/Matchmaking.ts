@@ -0,0 +1,58 @@
+// matchmaking/src/models/Matchmaking.ts
+
+/**
+ * Payload of the auth service's access tokens
+ */
+export interface JwtPayload {
+   id: number;
+   username: string;
+   email: string | null;
+   isGuest?: boolean;
+   iat?: number;
+   exp?: number;
+}
+
+export interface QueuePlayer {
+   userId: number;
+   username: string;
+   /** Rating the player is matched by, looked up on the server. Players without one get the default */
+   skill?: number;
+}
+
+export interface JoinQueueData {
+   region: string;
+   /** Party to join, as issued to the party leader when they queued */
+   partyId?: string;
+   partySize?: number;
+}
+
+export type TicketStatus = 'queued' | 'matched';
+
+export interface QueueTicket {
+   userId: number;
+   username: string;
+   region: string;
+   skill: number;
+   partyId: string | null;
+   partySize: number;
+   enqueuedAt: number;
+   status: TicketStatus;
+   match: MatchAssignment | null;
+}
+
+export interface MatchAssignment {
+   matchId: string;
+   gameId: string;
+   port: number;
+   region: string;
+   players: string[];
+   createdAt: number;
+}
+
+/**
+ * A game created on a game server for a finished match
+ */
+export interface CreatedGame {
+   gameId: string;
+   port: number;
+}
@@ -0,0 +1,63 @@
+// matchmaking/src/services/AuthServiceClient.ts
+import { config } from '../Config';
+
+/**
+ * The parts of the auth service the matchmaker depends on
+ */
+export interface AuthServiceClient {
+   /**
+    * Public key used to verify RS256 access tokens
+    */
+   getPublicKey(): Promise<string>;
+
+   /**
+    * Exchange a player's access token for a game token bound to the given game
+    */
+   requestGameToken(authToken: string, gameId: string): Promise<string>;
+}
+
+export class HttpAuthServiceClient implements AuthServiceClient {
+   private cachedPublicKey: string | null = null;
+
+   constructor(private readonly authServiceUrl: string = config.authServiceUrl) {}
+
+   async getPublicKey(): Promise<string> {
+      if (this.cachedPublicKey) {
+         return this.cachedPublicKey;
+      }
+
+      const response = await fetch(`${this.authServiceUrl}/auth/public-key`);
+
+      if (!response.ok) {
+         throw new Error(`Failed to fetch public key: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+
+      if (!data.publicKey) {
+         throw new Error('Public key not found in response');
+      }
+
+      this.cachedPublicKey = data.publicKey as string;
+      return this.cachedPublicKey;
+   }
+
+   async requestGameToken(authToken: string, gameId: string): Promise<string> {
+      const response = await fetch(`${this.authServiceUrl}/auth/game-token`, {
+         method: 'POST',
+         headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${authToken}`,
+         },
+         body: JSON.stringify({ gameId }),
+      });
+
+      if (!response.ok) {
+         const error = await response.json().catch(() => ({}));
+         throw new Error(error.message || 'Failed to get game token');
+      }
+
+      const data = await response.json();
+      return data.gameToken;
+   }
+}
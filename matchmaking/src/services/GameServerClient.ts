@@ -0,0 +1,76 @@
+// matchmaking/src/services/GameServerClient.ts
+import { createHmac } from 'node:crypto';
+import { config } from '../Config';
+import { CreatedGame } from '../models/Matchmaking';
+
+/**
+ * Creates games for finished matches
+ */
+export interface GameServerClient {
+   createGame(): Promise<CreatedGame>;
+
+   /**
+    * Give back a game no players were matched into, freeing its slot
+    */
+   releaseGame(gameId: string): Promise<void>;
+}
+
+/**
+ * Talks to the game server's lobby API. Requests are signed with the secret shared with the game servers,
+ * which only create games for signed in players and for matchmaking.
+ */
+export class HttpGameServerClient implements GameServerClient {
+   constructor(
+      private readonly gameServerUrl: string = config.gameServerUrl,
+      private readonly secret: string = config.gameServerSecret,
+   ) {}
+
+   async createGame(): Promise<CreatedGame> {
+      const path = '/lobby/games';
+      const timestamp = Date.now().toString();
+
+      const response = await fetch(`${this.gameServerUrl}${path}`, {
+         method: 'POST',
+         headers: {
+            'X-Signature-Timestamp': timestamp,
+            'X-Signature': this.sign(timestamp, 'POST', path),
+         },
+      });
+
+      if (!response.ok) {
+         const error = await response.json().catch(() => ({}));
+         throw new Error(error.message || `Game server responded with ${response.status}`);
+      }
+
+      const data = await response.json();
+      return {
+         gameId: data.game.gameId,
+         port: data.game.port,
+      };
+   }
+
+   async releaseGame(gameId: string): Promise<void> {
+      const path = `/lobby/games/${encodeURIComponent(gameId)}`;
+      const timestamp = Date.now().toString();
+
+      const response = await fetch(`${this.gameServerUrl}${path}`, {
+         method: 'DELETE',
+         headers: {
+            'X-Signature-Timestamp': timestamp,
+            'X-Signature': this.sign(timestamp, 'DELETE', path),
+         },
+      });
+
+      if (!response.ok) {
+         const error = await response.json().catch(() => ({}));
+         throw new Error(error.message || `Game server responded with ${response.status}`);
+      }
+   }
+
+   /**
+    * HMAC-SHA256 over the timestamp, method and path, hex encoded, as the game server checks it
+    */
+   private sign(timestamp: string, method: string, path: string): string {
+      return createHmac('sha256', this.secret).update(`${timestamp}.${method} ${path}`).digest('hex');
+   }
+}
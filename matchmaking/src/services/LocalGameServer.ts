@@ -0,0 +1,60 @@
+// matchmaking/src/services/LocalGameServer.ts
+import { CreatedGame } from '../models/Matchmaking';
+import { GameServerClient } from './GameServerClient';
+
+/**
+ * In-process stand-in for the game server. Hands out game ids and ports the same way the
+ * game server's GameManager does, so the matchmaker can run and be tested without one.
+ */
+export class LocalGameServer implements GameServerClient {
+   private games: Map<string, CreatedGame> = new Map();
+   private gameCounter = 1;
+
+   constructor(
+      private readonly basePort: number = 3001,
+      private readonly maxGames: number = 8,
+   ) {}
+
+   async createGame(): Promise<CreatedGame> {
+      if (this.games.size >= this.maxGames) {
+         throw new Error(`Cannot create game: limit of ${this.maxGames} games reached`);
+      }
+
+      const gameId = `game-${this.gameCounter}`;
+      this.gameCounter += 1;
+
+      const game: CreatedGame = {
+         gameId,
+         port: this.findFreePort(),
+      };
+      this.games.set(gameId, game);
+
+      return game;
+   }
+
+   async releaseGame(gameId: string): Promise<void> {
+      this.games.delete(gameId);
+   }
+
+   /**
+    * Simulate a game ending and freeing its port
+    */
+   endGame(gameId: string): boolean {
+      return this.games.delete(gameId);
+   }
+
+   getGames(): CreatedGame[] {
+      return Array.from(this.games.values());
+   }
+
+   private findFreePort(): number {
+      const usedPorts = new Set(Array.from(this.games.values()).map((game) => game.port));
+
+      let port = this.basePort;
+      while (usedPorts.has(port)) {
+         port++;
+      }
+
+      return port;
+   }
+}
@@ -0,0 +1,320 @@
+// matchmaking/src/services/MatchmakingService.ts
+import { randomUUID } from 'node:crypto';
+import { config } from '../Config';
+import { JoinQueueData, MatchAssignment, QueuePlayer, QueueTicket } from '../models/Matchmaking';
+import { GameServerClient } from './GameServerClient';
+
+export interface MatchmakingSettings {
+   minPlayers: number;
+   maxPlayers: number;
+   defaultSkill: number;
+   initialSkillRange: number;
+   skillRangeGrowthPerSecond: number;
+   maxSkillRange: number;
+   partialLobbyAfterMs: number;
+   tickIntervalMs: number;
+   matchedTicketTtlMs: number;
+}
+
+/**
+ * Players that have to end up in the same lobby, either a solo player or a complete party
+ */
+interface MatchUnit {
+   tickets: QueueTicket[];
+   region: string;
+   skill: number;
+   // A party is only ready once its last member joined
+   readySince: number;
+}
+
+export class MatchmakingService {
+   private tickets: Map<string, QueueTicket> = new Map();
+   private tickInterval: NodeJS.Timeout | null = null;
+   private processing = false;
+   private settings: MatchmakingSettings;
+
+   constructor(
+      private readonly gameServer: GameServerClient,
+      settings: Partial<MatchmakingSettings> = {},
+   ) {
+      this.settings = { ...config.matchmaking, ...settings };
+   }
+
+   /**
+    * Put a player in the queue. A party leader queues with the party size and gets a new party ID, the
+    * other members queue with that ID.
+    * @throws Error if the player is already queued or the party does not add up
+    */
+   joinQueue(player: QueuePlayer, data: JoinQueueData, now: number = Date.now()): QueueTicket {
+      const existing = this.tickets.get(player.username);
+      if (existing && existing.status === 'queued') {
+         throw new Error('Already in queue');
+      }
+
+      let partyId: string | null = null;
+      let partySize = data.partySize ?? 1;
+
+      if (data.partyId) {
+         const members = this.getPartyMembers(data.partyId);
+         if (members.length === 0) {
+            throw new Error('Party not found');
+         }
+
+         partyId = data.partyId;
+         partySize = data.partySize ?? members[0].partySize;
+
+         if (members.some((member) => member.partySize !== partySize || member.region !== data.region)) {
+            throw new Error('Party members must queue with the same region and party size');
+         }
+
+         if (members.length >= partySize) {
+            throw new Error('Party is already full');
+         }
+      } else if (partySize > 1) {
+         partyId = randomUUID();
+      }
+
+      if (partySize > this.settings.maxPlayers) {
+         throw new Error('Party is larger than a lobby');
+      }
+
+      const ticket: QueueTicket = {
+         userId: player.userId,
+         username: player.username,
+         region: data.region,
+         skill: player.skill ?? this.settings.defaultSkill,
+         partyId,
+         partySize,
+         enqueuedAt: now,
+         status: 'queued',
+         match: null,
+      };
+
+      this.tickets.set(player.username, ticket);
+      return ticket;
+   }
+
+   /**
+    * Remove a player from the queue. Matched players can no longer leave.
+    */
+   leaveQueue(username: string): boolean {
+      const ticket = this.tickets.get(username);
+      if (!ticket || ticket.status !== 'queued') {
+         return false;
+      }
+
+      this.tickets.delete(username);
+      return true;
+   }
+
+   getTicket(username: string): QueueTicket | undefined {
+      return this.tickets.get(username);
+   }
+
+   /**
+    * Number of queued (not yet matched) players per region
+    */
+   getQueueSizes(): Record<string, number> {
+      const sizes: Record<string, number> = {};
+
+      for (const ticket of this.tickets.values()) {
+         if (ticket.status !== 'queued') continue;
+         sizes[ticket.region] = (sizes[ticket.region] ?? 0) + 1;
+      }
+
+      return sizes;
+   }
+
+   /**
+    * Group queued players into lobbies and create a game for each of them
+    * @returns the matches created in this pass
+    */
+   async processQueue(now: number = Date.now()): Promise<MatchAssignment[]> {
+      // A slow game server must not let two passes grab the same players
+      if (this.processing) return [];
+      this.processing = true;
+
+      try {
+         this.removeExpiredTickets(now);
+
+         const matches: MatchAssignment[] = [];
+
+         for (const group of this.findGroups(now)) {
+            const match = await this.createMatch(group, now);
+            if (match) {
+               matches.push(match);
+            }
+         }
+
+         return matches;
+      } finally {
+         this.processing = false;
+      }
+   }
+
+   start(): void {
+      if (this.tickInterval) return;
+
+      this.tickInterval = setInterval(() => {
+         this.processQueue().catch((error) => console.error('Matchmaking pass failed:', error));
+      }, this.settings.tickIntervalMs);
+   }
+
+   stop(): void {
+      if (this.tickInterval) {
+         clearInterval(this.tickInterval);
+         this.tickInterval = null;
+      }
+   }
+
+   private async createMatch(group: MatchUnit[], now: number): Promise<MatchAssignment | null> {
+      const tickets = group.flatMap((unit) => unit.tickets);
+
+      // Players may have left while earlier matches of this pass were being created. A game with fewer
+      // than minPlayers never starts, the rest stay queued for the next pass.
+      if (this.getQueuedTickets(tickets).length < this.settings.minPlayers) return null;
+
+      try {
+         const game = await this.gameServer.createGame();
+
+         // Players may have left while the game was being created
+         const remaining = this.getQueuedTickets(tickets);
+         if (remaining.length < this.settings.minPlayers) {
+            await this.releaseGame(game.gameId);
+            return null;
+         }
+
+         const match: MatchAssignment = {
+            matchId: randomUUID(),
+            gameId: game.gameId,
+            port: game.port,
+            region: group[0].region,
+            players: remaining.map((ticket) => ticket.username),
+            createdAt: now,
+         };
+
+         for (const ticket of remaining) {
+            ticket.status = 'matched';
+            ticket.match = match;
+         }
+
+         console.log(`Matched ${match.players.length} players in ${match.region} into ${match.gameId}`);
+         return match;
+      } catch (error) {
+         // Tickets stay queued and are picked up again on the next pass
+         console.error('Failed to create game for match:', error);
+         return null;
+      }
+   }
+
+   /**
+    * Free the slot of a game nobody was matched into. Failing that, the game server disposes it once it
+    * stayed empty for a while.
+    */
+   private async releaseGame(gameId: string): Promise<void> {
+      try {
+         await this.gameServer.releaseGame(gameId);
+      } catch (error) {
+         console.error(`Failed to release unused game ${gameId}:`, error);
+      }
+   }
+
+   /**
+    * Greedy grouping: the longest waiting unit picks compatible units until the lobby is full.
+    * A lobby that cannot be filled starts with at least minPlayers once its anchor waited long enough.
+    */
+   private findGroups(now: number): MatchUnit[][] {
+      const groups: MatchUnit[][] = [];
+      const units = this.buildUnits().sort((a, b) => a.readySince - b.readySince);
+      const used = new Set<MatchUnit>();
+
+      for (const anchor of units) {
+         if (used.has(anchor)) continue;
+
+         const group = [anchor];
+         let size = anchor.tickets.length;
+
+         for (const candidate of units) {
+            if (size >= this.settings.maxPlayers) break;
+            if (candidate === anchor || used.has(candidate)) continue;
+            if (candidate.region !== anchor.region) continue;
+            if (size + candidate.tickets.length > this.settings.maxPlayers) continue;
+
+            const allowedRange = Math.max(this.getSkillRange(anchor, now), this.getSkillRange(candidate, now));
+            if (Math.abs(candidate.skill - anchor.skill) > allowedRange) continue;
+
+            group.push(candidate);
+            size += candidate.tickets.length;
+         }
+
+         const full = size >= this.settings.maxPlayers;
+         const waitedLongEnough = now - anchor.readySince >= this.settings.partialLobbyAfterMs;
+
+         if (full || (size >= this.settings.minPlayers && waitedLongEnough)) {
+            group.forEach((unit) => used.add(unit));
+            groups.push(group);
+         }
+      }
+
+      return groups;
+   }
+
+   private buildUnits(): MatchUnit[] {
+      const units: MatchUnit[] = [];
+      const parties = new Map<string, QueueTicket[]>();
+
+      for (const ticket of this.tickets.values()) {
+         if (ticket.status !== 'queued') continue;
+
+         if (ticket.partyId) {
+            const members = parties.get(ticket.partyId) ?? [];
+            members.push(ticket);
+            parties.set(ticket.partyId, members);
+         } else {
+            units.push(this.createUnit([ticket]));
+         }
+      }
+
+      for (const members of parties.values()) {
+         // Incomplete parties wait for the rest of their members
+         if (members.length === members[0].partySize) {
+            units.push(this.createUnit(members));
+         }
+      }
+
+      return units;
+   }
+
+   private createUnit(tickets: QueueTicket[]): MatchUnit {
+      return {
+         tickets,
+         region: tickets[0].region,
+         skill: tickets.reduce((sum, ticket) => sum + ticket.skill, 0) / tickets.length,
+         readySince: Math.max(...tickets.map((ticket) => ticket.enqueuedAt)),
+      };
+   }
+
+   private getSkillRange(unit: MatchUnit, now: number): number {
+      const waitedSeconds = Math.max(0, now - unit.readySince) / 1000;
+      const range = this.settings.initialSkillRange + waitedSeconds * this.settings.skillRangeGrowthPerSecond;
+      return Math.min(range, this.settings.maxSkillRange);
+   }
+
+   private getQueuedTickets(tickets: QueueTicket[]): QueueTicket[] {
+      return tickets.filter((ticket) => this.tickets.get(ticket.username) === ticket);
+   }
+
+   private getPartyMembers(partyId: string): QueueTicket[] {
+      return Array.from(this.tickets.values()).filter(
+         (ticket) => ticket.status === 'queued' && ticket.partyId === partyId,
+      );
+   }
+
+   private removeExpiredTickets(now: number): void {
+      for (const [username, ticket] of this.tickets) {
+         if (ticket.match && now - ticket.match.createdAt > this.settings.matchedTicketTtlMs) {
+            this.tickets.delete(username);
+         }
+      }
+   }
+}
@@ -0,0 +1,15 @@
+// matchmaking/src/validation/Schemas.ts
+import { z } from 'zod';
+import { config } from '../Config';
+
+// Join queue validation schema
+export const joinQueueSchema = z.object({
+   region: z.string().refine((region) => config.matchmaking.regions.includes(region), 'Unknown region'),
+   partyId: z.string().uuid('Invalid party ID').optional(),
+   partySize: z
+      .number()
+      .int()
+      .min(1, 'Party needs at least one player')
+      .max(config.matchmaking.maxPlayers, 'Party is larger than a lobby')
+      .optional(),
+});
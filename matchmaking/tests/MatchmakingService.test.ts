@@ -0,0 +1,171 @@
+import { MatchmakingService } from '../src/services/MatchmakingService';
+import { LocalGameServer } from '../src/services/LocalGameServer';
+
+const SETTINGS = {
+   minPlayers: 2,
+   maxPlayers: 4,
+   defaultSkill: 1000,
+   initialSkillRange: 100,
+   skillRangeGrowthPerSecond: 25,
+   maxSkillRange: 1000,
+   partialLobbyAfterMs: 15000,
+   matchedTicketTtlMs: 60000,
+};
+
+let playerId = 0;
+const player = (name: string, skill?: number) => ({ userId: ++playerId, username: name, skill });
+
+describe('MatchmakingService', () => {
+   let gameServer: LocalGameServer;
+   let matchmaker: MatchmakingService;
+
+   beforeEach(() => {
+      gameServer = new LocalGameServer();
+      matchmaker = new MatchmakingService(gameServer, SETTINGS);
+   });
+
+   test('should create a full lobby as soon as enough players are queued', async () => {
+      ['a', 'b', 'c', 'd'].forEach((name) => matchmaker.joinQueue(player(name), { region: 'eu' }, 0));
+
+      const matches = await matchmaker.processQueue(0);
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].players.sort()).toEqual(['a', 'b', 'c', 'd']);
+      expect(matchmaker.getTicket('a')?.status).toBe('matched');
+      expect(gameServer.getGames()).toHaveLength(1);
+   });
+
+   test('should wait before starting a partial lobby', async () => {
+      matchmaker.joinQueue(player('a'), { region: 'eu' }, 0);
+      matchmaker.joinQueue(player('b'), { region: 'eu' }, 0);
+
+      expect(await matchmaker.processQueue(1000)).toHaveLength(0);
+
+      const matches = await matchmaker.processQueue(SETTINGS.partialLobbyAfterMs);
+      expect(matches).toHaveLength(1);
+      expect(matches[0].players).toHaveLength(2);
+   });
+
+   test('should never start a lobby below the minimum player count', async () => {
+      matchmaker.joinQueue(player('a'), { region: 'eu' }, 0);
+
+      expect(await matchmaker.processQueue(SETTINGS.partialLobbyAfterMs * 10)).toHaveLength(0);
+   });
+
+   test('should not mix regions', async () => {
+      ['a', 'b'].forEach((name) => matchmaker.joinQueue(player(name), { region: 'eu' }, 0));
+      ['c', 'd'].forEach((name) => matchmaker.joinQueue(player(name), { region: 'na' }, 0));
+
+      const matches = await matchmaker.processQueue(SETTINGS.partialLobbyAfterMs);
+
+      expect(matches).toHaveLength(2);
+      for (const match of matches) {
+         const regions = match.players.map((name) => matchmaker.getTicket(name)!.region);
+         expect(new Set(regions).size).toBe(1);
+      }
+   });
+
+   test('should widen the skill range over time', async () => {
+      matchmaker.joinQueue(player('a', 1000), { region: 'eu' }, 0);
+      matchmaker.joinQueue(player('b', 1500), { region: 'eu' }, 0);
+
+      // 15s of waiting allows 100 + 15 * 25 = 475
+      expect(await matchmaker.processQueue(15000)).toHaveLength(0);
+
+      // 20s of waiting allows 600
+      expect(await matchmaker.processQueue(20000)).toHaveLength(1);
+   });
+
+   test('should keep parties together and wait for every member', async () => {
+      const { partyId } = matchmaker.joinQueue(player('p1'), { region: 'eu', partySize: 3 }, 0);
+      matchmaker.joinQueue(player('p2'), { region: 'eu', partyId: partyId!, partySize: 3 }, 0);
+      matchmaker.joinQueue(player('solo1'), { region: 'eu' }, 0);
+      matchmaker.joinQueue(player('solo2'), { region: 'eu' }, 0);
+
+      // Party is incomplete, only the two solo players form a lobby once they waited long enough
+      const first = await matchmaker.processQueue(SETTINGS.partialLobbyAfterMs);
+      expect(first).toHaveLength(1);
+      expect(first[0].players.sort()).toEqual(['solo1', 'solo2']);
+
+      matchmaker.joinQueue(player('p3'), { region: 'eu', partyId: partyId!, partySize: 3 }, 20000);
+      matchmaker.joinQueue(player('solo3'), { region: 'eu' }, 20000);
+
+      const second = await matchmaker.processQueue(20000);
+      expect(second).toHaveLength(1);
+      expect(second[0].players.sort()).toEqual(['p1', 'p2', 'p3', 'solo3']);
+   });
+
+   test('should reject inconsistent parties', () => {
+      const partyId = matchmaker.joinQueue(player('p1'), { region: 'eu', partySize: 2 }, 0).partyId!;
+
+      expect(() => matchmaker.joinQueue(player('p2'), { region: 'na', partyId, partySize: 2 }, 0)).toThrow(
+         'same region and party size',
+      );
+
+      matchmaker.joinQueue(player('p2'), { region: 'eu', partyId, partySize: 2 }, 0);
+      expect(() => matchmaker.joinQueue(player('p3'), { region: 'eu', partyId, partySize: 2 }, 0)).toThrow(
+         'Party is already full',
+      );
+   });
+
+   test('should only let players join a party its leader started', () => {
+      const first = matchmaker.joinQueue(player('p1'), { region: 'eu', partySize: 2 }, 0);
+      const second = matchmaker.joinQueue(player('p2'), { region: 'eu', partySize: 2 }, 0);
+
+      expect(first.partyId).not.toBeNull();
+      expect(second.partyId).not.toBe(first.partyId);
+      expect(() =>
+         matchmaker.joinQueue(player('p3'), { region: 'eu', partyId: '00000000-0000-4000-8000-000000000000' }, 0),
+      ).toThrow('Party not found');
+
+      expect(matchmaker.joinQueue(player('p4'), { region: 'eu', partyId: first.partyId! }, 0).partySize).toBe(2);
+   });
+
+   test('should keep players queued when the game server cannot create a game', async () => {
+      matchmaker = new MatchmakingService(new LocalGameServer(3001, 0), SETTINGS);
+      ['a', 'b', 'c', 'd'].forEach((name) => matchmaker.joinQueue(player(name), { region: 'eu' }, 0));
+
+      expect(await matchmaker.processQueue(0)).toHaveLength(0);
+      expect(matchmaker.getTicket('a')?.status).toBe('queued');
+   });
+
+   test('should not create a game for a lobby that fell below the minimum player count', async () => {
+      let gamesRequested = 0;
+      const leavingGameServer = {
+         createGame: () => {
+            // Most of the second lobby leaves while the first game is being created
+            if (gamesRequested++ === 0) {
+               ['f', 'g', 'h'].forEach((name) => matchmaker.leaveQueue(name));
+            }
+            return gameServer.createGame();
+         },
+         releaseGame: (gameId: string) => gameServer.releaseGame(gameId),
+      };
+      matchmaker = new MatchmakingService(leavingGameServer, SETTINGS);
+      ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].forEach((name) =>
+         matchmaker.joinQueue(player(name), { region: 'eu' }, 0),
+      );
+
+      const matches = await matchmaker.processQueue(0);
+
+      expect(matches).toHaveLength(1);
+      expect(gameServer.getGames()).toHaveLength(1);
+      expect(matchmaker.getTicket('e')?.status).toBe('queued');
+   });
+
+   test('should give back the game of a lobby that fell below the minimum player count while it was created', async () => {
+      const leavingGameServer = {
+         createGame: () => {
+            ['b', 'c', 'd'].forEach((name) => matchmaker.leaveQueue(name));
+            return gameServer.createGame();
+         },
+         releaseGame: (gameId: string) => gameServer.releaseGame(gameId),
+      };
+      matchmaker = new MatchmakingService(leavingGameServer, SETTINGS);
+      ['a', 'b', 'c', 'd'].forEach((name) => matchmaker.joinQueue(player(name), { region: 'eu' }, 0));
+
+      expect(await matchmaker.processQueue(0)).toHaveLength(0);
+      expect(gameServer.getGames()).toHaveLength(0);
+      expect(matchmaker.getTicket('a')?.status).toBe('queued');
+   });
+});
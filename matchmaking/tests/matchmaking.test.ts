@@ -0,0 +1,137 @@
+import request from 'supertest';
+import { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import * as crypto from 'crypto';
+import { createApp } from '../src/Server';
+import { MatchmakingService } from '../src/services/MatchmakingService';
+import { LocalGameServer } from '../src/services/LocalGameServer';
+import { AuthServiceClient } from '../src/services/AuthServiceClient';
+import { config } from '../src/Config';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+   modulusLength: 2048,
+   publicKeyEncoding: {
+      type: 'spki',
+      format: 'pem',
+   },
+   privateKeyEncoding: {
+      type: 'pkcs8',
+      format: 'pem',
+   },
+});
+
+// Stand-in for the auth service, signs tokens the same way its TokenService does
+class TestAuthClient implements AuthServiceClient {
+   async getPublicKey(): Promise<string> {
+      return publicKey;
+   }
+
+   async requestGameToken(authToken: string, gameId: string): Promise<string> {
+      const payload = jwt.verify(authToken, publicKey, { algorithms: ['RS256'] }) as jwt.JwtPayload;
+
+      return jwt.sign({ userId: payload.id, username: payload.username, gameId, purpose: 'game-session' }, privateKey, {
+         algorithm: 'RS256',
+         expiresIn: '1h',
+      });
+   }
+}
+
+const createToken = (id: number, username: string) =>
+   jwt.sign({ id, username, email: null }, privateKey, { algorithm: 'RS256', expiresIn: '1h' });
+
+describe('Matchmaking API', () => {
+   let app: Express;
+   let matchmaker: MatchmakingService;
+   let gameServer: LocalGameServer;
+
+   beforeEach(() => {
+      gameServer = new LocalGameServer();
+      matchmaker = new MatchmakingService(gameServer, { minPlayers: 2, maxPlayers: 2 });
+      app = createApp({ matchmaker, authClient: new TestAuthClient() });
+   });
+
+   test('should reject requests without token', async () => {
+      const res = await request(app).post('/matchmaking/queue').send({ region: 'eu' });
+
+      expect(res.status).toBe(401);
+   });
+
+   test('should reject tokens not signed with RS256', async () => {
+      const token = jwt.sign({ id: 1, username: 'forged' }, 'shared-secret', { algorithm: 'HS256' });
+
+      const res = await request(app)
+         .post('/matchmaking/queue')
+         .set('Authorization', `Bearer ${token}`)
+         .send({ region: 'eu' });
+
+      expect(res.status).toBe(401);
+   });
+
+   test('should reject unknown regions', async () => {
+      const res = await request(app)
+         .post('/matchmaking/queue')
+         .set('Authorization', `Bearer ${createToken(1, 'alice')}`)
+         .send({ region: 'moon' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.message).toBe('Validation failed');
+   });
+
+   test('should queue players, match them and hand out game tokens', async () => {
+      const alice = createToken(1, 'alice');
+      const bob = createToken(2, 'bob');
+
+      const joinRes = await request(app)
+         .post('/matchmaking/queue')
+         .set('Authorization', `Bearer ${alice}`)
+         .send({ region: 'eu', skill: 9999 });
+      expect(joinRes.status).toBe(202);
+      expect(joinRes.body.ticket.status).toBe('queued');
+      // Players cannot pick their own rating
+      expect(matchmaker.getTicket('alice')?.skill).toBe(config.matchmaking.defaultSkill);
+
+      const duplicateRes = await request(app)
+         .post('/matchmaking/queue')
+         .set('Authorization', `Bearer ${alice}`)
+         .send({ region: 'eu' });
+      expect(duplicateRes.status).toBe(400);
+
+      await request(app).post('/matchmaking/queue').set('Authorization', `Bearer ${bob}`).send({ region: 'eu' });
+
+      await matchmaker.processQueue();
+
+      const statusRes = await request(app).get('/matchmaking/queue').set('Authorization', `Bearer ${alice}`);
+      expect(statusRes.status).toBe(200);
+      expect(statusRes.body.ticket.status).toBe('matched');
+      expect(statusRes.body.match.gameId).toBe(gameServer.getGames()[0].gameId);
+      expect(statusRes.body.match.players.sort()).toEqual(['alice', 'bob']);
+
+      const gameToken = jwt.verify(statusRes.body.gameToken, publicKey) as jwt.JwtPayload;
+      expect(gameToken.gameId).toBe(statusRes.body.match.gameId);
+      expect(gameToken.username).toBe('alice');
+   });
+
+   test('should let players leave the queue', async () => {
+      const token = createToken(3, 'carol');
+
+      await request(app).post('/matchmaking/queue').set('Authorization', `Bearer ${token}`).send({ region: 'na' });
+
+      const leaveRes = await request(app).delete('/matchmaking/queue').set('Authorization', `Bearer ${token}`);
+      expect(leaveRes.status).toBe(200);
+
+      const statusRes = await request(app).get('/matchmaking/queue').set('Authorization', `Bearer ${token}`);
+      expect(statusRes.status).toBe(404);
+   });
+
+   test('should report queue sizes per region', async () => {
+      await request(app)
+         .post('/matchmaking/queue')
+         .set('Authorization', `Bearer ${createToken(4, 'dave')}`)
+         .send({ region: 'asia' });
+
+      const res = await request(app).get('/matchmaking/stats');
+
+      expect(res.status).toBe(200);
+      expect(res.body.queued).toEqual({ asia: 1 });
+   });
+});
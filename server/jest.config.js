@@ -0,0 +1,16 @@
+module.exports = {
+   preset: 'ts-jest',
+   testEnvironment: 'node',
+   roots: ['<rootDir>/tests'],
+   testMatch: ['**/*.test.ts'],
+   transform: {
+      '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }],
+   },
+   moduleNameMapper: {
+      '^shared/(.*)$': '<rootDir>/../shared/src/$1',
+      '^src/(.*)$': '<rootDir>/src/$1',
+      // ES module only, the tests never open a real connection
+      '^@geckos.io/server$': '<rootDir>/tests/stubs/geckos-server.ts',
+   },
+   testTimeout: 30000,
+};
@@ -1,6 +1,6 @@
 import { BackendPhysicsManager } from './BackendPhysicsManager';
 import { PlayerManager } from './PlayerManager';
-import { ClientBound } from 'shared/game/network/SocketEvents';
+import { ClientBound, ServerBound } from 'shared/game/network/SocketEvents';
 import { config, gameSettings } from 'shared/game/SystemSettings';
 import RAPIER, { EventQueue } from '@dimforge/rapier2d-compat';
 import { GameStartData } from 'shared/game/network/messages/client-bound/GameStartData';
@@ -19,14 +19,68 @@ import { EnemyManager } from './enemies/EnemyManager';
 import { EnemyDamageEventBatch } from 'shared/game/network/messages/client-bound/DamageEvents';
 import { DamageService } from 'shared/game/shooting/DamageService';
 import { PingServerHandler } from './handlers/PingServerHandler';
+import { PlayerLifecycleManager } from './PlayerLifecycleManager';
+import { GameOverData } from 'shared/game/network/messages/client-bound/PlayerLifecycleData';
+import { GameEventEmitter } from 'shared/game/events/GameEventEmitter';
+import { GameOverEvent } from 'shared/game/events/events/PlayerLifecycleEvents';
+import { LagCompensationManager } from './lag-compensation/LagCompensationManager';
+import { SnapshotManager } from './snapshots/SnapshotManager';
+import { InterestManager } from './snapshots/InterestManager';
+import { SnapshotAckHandler } from './handlers/SnapshotAckHandler';
+import { SeededRandom } from 'shared/util/SeededRandom';
+import { SimulationContext } from 'shared/game/SimulationContext';
+import { MatchRecorder } from './replay/MatchRecorder';
+import { GrenadeManager } from './grenades/GrenadeManager';
+import { ScoreManager } from './scoring/ScoreManager';
+import { MatchPlayerResult, MatchResultReporter } from './scoring/MatchResultReporter';
+import { ReplayFileCodec } from 'shared/game/replay/ReplayFileCodec';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface BackendGameOptions {
+   minPlayers?: number;
+   maxPlayers?: number;
+
+   /** Seed of the generated map, a new one is picked if not given */
+   mapSeed?: string;
+
+   /** Seed for every random decision the simulation makes, a new one is picked if not given */
+   randomSeed?: number;
+
+   /** Defaults to a geckos.io transport listening on the port passed to {@link BackendGame.init} */
+   transport?: ServerGeckosTransport;
+
+   /**
+    * Run without a network connection or timers: ticks only advance through the physics manager's
+    * advanceTick and runs only begin through {@link BackendGame.beginRun}. Used to re-simulate recordings.
+    */
+   headless?: boolean;
+
+   /** Record the match for replays, see {@link MatchRecorder} */
+   recordMatch?: boolean;
+
+   /** Where recorded matches are written when a run ends, nothing is written if not given */
+   replayDirectory?: string;
+
+   /** Submits the results of every finished run to the auth service, nothing is submitted if not given */
+   matchResultReporter?: MatchResultReporter;
+}
 
 export class BackendGame extends BaseGame {
    private world!: RAPIER.World;
    private RAPIER!: typeof import('@dimforge/rapier2d-compat');
    public gameId: string;
    private playerManager!: PlayerManager;
+   private playerLifecycle: PlayerLifecycleManager;
+   private scoreManager: ScoreManager;
+   private lagCompensation: LagCompensationManager;
+   private snapshotManager: SnapshotManager;
+   private interestManager: InterestManager;
    private physicsManager!: BackendPhysicsManager;
    private gameStarted: boolean;
+   private startScheduled: boolean = false;
+   private restartTimeout: NodeJS.Timeout | null = null;
    private mapSeed: string;
    private eventQueue!: EventQueue;
    private entityManager!: EntityManager;
@@ -36,41 +90,83 @@ export class BackendGame extends BaseGame {
 
    private playerMovemementInputs = new PlayerInputBuffer();
    private enemyManager!: EnemyManager;
+   private grenadeManager!: GrenadeManager;
+
+   private readonly minPlayers: number;
+   private readonly maxPlayers: number;
+   private readonly createdAt: number = Date.now();
+   private disposed: boolean = false;
+   private gameEmptyListeners: ((game: BackendGame) => void)[] = [];
+
+   private readonly headless: boolean;
+   private readonly random: SeededRandom;
+   private readonly simulation: SimulationContext = {
+      now: () => this.physicsManager.getSimulationTime(),
+      random: () => this.random.next(),
+   };
+   private matchRecorder: MatchRecorder | null = null;
+   private readonly replayDirectory: string | null;
+   private readonly matchResultReporter: MatchResultReporter | null;
 
    // private enemyNetworkHandler!: EnemyNetworkHandler;
 
-   constructor(gameId: string) {
+   constructor(gameId: string, options: BackendGameOptions = {}) {
       super();
       this.gameId = gameId;
-      this.serverTransport = new ServerGeckosTransport();
+      this.minPlayers = options.minPlayers ?? 2;
+      this.maxPlayers = options.maxPlayers ?? 4;
+      this.serverTransport = options.transport ?? new ServerGeckosTransport();
       this.gameStarted = false;
-      this.mapSeed = Date.now().toString();
+      this.mapSeed = options.mapSeed ?? Date.now().toString();
+      this.random = new SeededRandom(options.randomSeed ?? SeededRandom.createSeed());
+      this.headless = options.headless ?? false;
+      this.replayDirectory = options.replayDirectory ?? null;
+      this.matchResultReporter = options.matchResultReporter ?? null;
+      if (options.recordMatch || this.replayDirectory) {
+         this.matchRecorder = new MatchRecorder(this);
+      }
       this.entityManager = new EntityManager();
+      this.playerLifecycle = new PlayerLifecycleManager(this);
+      this.scoreManager = new ScoreManager(this);
+      this.lagCompensation = new LagCompensationManager(this);
+      this.snapshotManager = new SnapshotManager(this);
+      this.interestManager = new InterestManager(this);
 
       // this.networkManager = new NetworkManager(this.gameSocket);
    }
 
-   public async init(port: number = config.port, server?: http.Server) {
+   public async init(port: number = config.port, server?: http.Server, udpPortRange?: { min: number; max: number }) {
       const authServiceUrl = process.env.AUTH_SERVICE_URL || 'http://localhost:4000';
 
       initAuthMiddleware(authServiceUrl);
 
       try {
-         await this.serverTransport.connect({
-            port: port,
-            server: server,
-            gameId: this.gameId,
-            cors: {
-               origin: 'http://localhost:9000',
-               allowAuthorization: true,
-            },
-         });
+         if (!this.headless) {
+            await this.serverTransport.connect({
+               port: port,
+               server: server,
+               gameId: this.gameId,
+               portRange: udpPortRange,
+               cors: {
+                  origin: 'http://localhost:9000',
+                  allowAuthorization: true,
+               },
+            });
+         }
 
          this.initNetworkMessageSystem();
          this.registerNetworkHandlers();
          this.networkMessageManager.connectToTransport(this.serverTransport);
+
+         const recorder = this.matchRecorder;
+         if (recorder) {
+            this.networkMessageManager.onIncomingMessage((eventType, data) =>
+               recorder.recordMessage(eventType as ServerBound, data),
+            );
+         }
       } catch (error) {
          console.error('Failed to initialize socket:', error);
+         throw error;
       }
 
       // Initialize Rapier physics
@@ -84,8 +180,8 @@ export class BackendGame extends BaseGame {
       }
 
       // Initialize managers that depend on physics
-      this.playerManager = new PlayerManager(this, 2, 4);
-      this.physicsManager = BackendPhysicsManager.createInstance(this);
+      this.playerManager = new PlayerManager(this, this.minPlayers, this.maxPlayers);
+      this.physicsManager = BackendPhysicsManager.createInstance(this, this.headless);
       await this.physicsManager.init();
       this.world = this.physicsManager.getWorld();
 
@@ -102,6 +198,8 @@ export class BackendGame extends BaseGame {
 
       this.initializeEnemySystem();
 
+      this.grenadeManager = new GrenadeManager(this.world, this.RAPIER, this, this.serverTransport);
+
       this.setupRepeatingTasks();
    }
 
@@ -111,6 +209,7 @@ export class BackendGame extends BaseGame {
       this.networkMessageManager.registerHandler(new PlayerActionHandler(this));
       this.networkMessageManager.registerHandler(new MapNetworkHandler(this));
       this.networkMessageManager.registerHandler(new PingServerHandler(this));
+      this.networkMessageManager.registerHandler(new SnapshotAckHandler(this));
    }
 
    /**
@@ -150,6 +249,28 @@ export class BackendGame extends BaseGame {
          TaskPriority.NORMAL,
       );
 
+      this.physicsManager.scheduleRepeatingTask(
+         () => this.playerLifecycle.update(this.physicsManager.getSimulationTime()),
+         1,
+         0,
+         TaskPriority.NORMAL,
+      );
+
+      this.physicsManager.scheduleRepeatingTask(
+         () => this.scoreManager.sendUpdate(),
+         gameSettings.scoreUpdateIntervalTicks,
+         0,
+         TaskPriority.LOW,
+      );
+
+      // Low priority so the recorded poses include everything that moved this tick
+      this.physicsManager.scheduleRepeatingTask(
+         () => this.lagCompensation.recordTick(this.physicsManager.getGameTick()),
+         1,
+         0,
+         TaskPriority.LOW,
+      );
+
       this.physicsManager.scheduleRepeatingTask(
          () => this.broadcastServerMetrics(),
          10,
@@ -163,10 +284,28 @@ export class BackendGame extends BaseGame {
          0,
          TaskPriority.LOW,
       );
+
+      this.physicsManager.scheduleRepeatingTask(
+         () => this.sendGunStates(),
+         1,
+         0,
+         TaskPriority.LOW,
+      );
+
+      if (this.matchRecorder) {
+         const recorder = this.matchRecorder;
+         this.physicsManager.scheduleRepeatingTask(
+            () => recorder.recordChecksum(),
+            gameSettings.replayChecksumIntervalTicks,
+            0,
+            TaskPriority.LOW,
+         );
+      }
    }
 
    public startGame(): void {
-      if (this.gameStarted) return;
+      if (this.gameStarted || this.startScheduled) return;
+      this.startScheduled = true;
       console.log('starting game');
 
       const START_DELAY = 1000;
@@ -178,15 +317,37 @@ export class BackendGame extends BaseGame {
 
       this.serverTransport.broadcast(ClientBound.StartGame, startData);
 
+      // A headless game is started by whoever drives it, at the time the recorded run started
+      if (this.headless) return;
+
       const timeUntilStart = Math.max(0, startData.scheduledStartTime - this.physicsManager.getCurrentTime());
       setTimeout(() => {
-         this.gameStarted = true;
-         this.physicsManager.start();
+         if (this.disposed) return;
+
+         this.beginRun(this.physicsManager.getCurrentTime());
          console.log('Server started at:', performance.now());
       }, timeUntilStart);
    }
 
+   /**
+    * Start the game loop for a new run, once the start delay announced to the clients is over
+    * @param startTime Time the run's first tick counts from
+    */
+   public beginRun(startTime: number): void {
+      this.startScheduled = false;
+      this.gameStarted = true;
+      this.matchRecorder?.recordRunStart(startTime);
+      this.playerLifecycle.startRun(startTime);
+      this.scoreManager.startRun();
+      this.grenadeManager.startRun();
+      this.physicsManager.start(startTime);
+   }
+
    public stopGame(): void {
+      if (this.gameStarted) {
+         this.matchRecorder?.recordRunEnd();
+      }
+
       this.gameStarted = false;
       this.physicsManager.stop();
       this.resetGame();
@@ -199,12 +360,195 @@ export class BackendGame extends BaseGame {
       return this.gameStarted;
    }
 
+   /**
+    * Called by the player lifecycle once every player is dead. Sends the run summary, resets the game
+    * and starts the next run after a pause if enough players are still connected.
+    */
+   public endGame(): void {
+      const now = this.physicsManager.getSimulationTime();
+      const canRestart = this.playerManager.getPlayers().size >= this.minPlayers;
+
+      const summary: GameOverData = {
+         wavesReached: this.enemyManager.getWaveDirector().getLastStartedWave(),
+         durationMs: this.playerLifecycle.getRunDuration(now),
+         players: this.playerLifecycle.getRunStats(now),
+         scoreboard: this.scoreManager.getScoreboard(),
+         restartAt: canRestart ? now + gameSettings.gameRestartDelayMs : null,
+      };
+
+      GameEventEmitter.getInstance().emit(new GameOverEvent(this.gameId, summary));
+      this.serverTransport.broadcast(ClientBound.GameOver, summary);
+      this.reportMatchResult(summary);
+
+      console.log(`Game over in ${this.gameId}: reached wave ${summary.wavesReached}`);
+
+      this.stopGame();
+      this.saveReplay();
+
+      if (canRestart && !this.headless) {
+         this.restartTimeout = setTimeout(() => {
+            this.restartTimeout = null;
+            if (this.disposed || this.playerManager.getPlayers().size < this.minPlayers) return;
+
+            this.startGame();
+         }, gameSettings.gameRestartDelayMs);
+      }
+   }
+
+   /**
+    * Submit the run's results for the registered players in it, guests have no stats to keep
+    */
+   private reportMatchResult(summary: GameOverData): void {
+      const reporter = this.matchResultReporter;
+      if (!reporter) return;
+
+      const scores = new Map(summary.scoreboard.players.map((score) => [score.username, score]));
+      const players: MatchPlayerResult[] = [];
+
+      for (const runStats of summary.players) {
+         const player = this.playerManager.getPlayerByUsername(runStats.username);
+         const userId = Number(player?.playerData.id);
+         if (!player || !Number.isInteger(userId) || userId <= 0) continue;
+
+         const score = scores.get(runStats.username);
+         players.push({
+            userId,
+            playerClass: player.type.id,
+            kills: score?.kills ?? 0,
+            score: score?.score ?? 0,
+            deaths: score?.deaths ?? 0,
+            revives: score?.revives ?? 0,
+            survivedMs: Math.round(runStats.survivedMs),
+         });
+      }
+
+      if (players.length === 0) return;
+
+      void reporter.report({
+         matchId: crypto.randomUUID(),
+         gameId: this.gameId,
+         mapId: this.mapSystem.getWorldMap().getMapDefinition().id,
+         endedAt: Date.now(),
+         durationMs: Math.round(summary.durationMs),
+         wavesReached: summary.wavesReached,
+         players,
+      });
+   }
+
+   /**
+    * Called by the player manager once the last player has left
+    */
+   public handleAllPlayersLeft(): void {
+      this.stopGame();
+      this.saveReplay();
+      this.gameEmptyListeners.forEach((listener) => listener(this));
+   }
+
+   /**
+    * Register a listener that fires when the last player leaves this game
+    */
+   public onGameEmpty(listener: (game: BackendGame) => void): void {
+      this.gameEmptyListeners.push(listener);
+   }
+
+   /**
+    * Tear down the game loop, enemies, map physics and network namespace.
+    * The instance cannot be reused afterwards.
+    */
+   public dispose(): void {
+      if (this.disposed) return;
+      this.disposed = true;
+
+      console.log(`Disposing game ${this.gameId}`);
+
+      this.gameStarted = false;
+      this.gameEmptyListeners = [];
+
+      if (this.restartTimeout) {
+         clearTimeout(this.restartTimeout);
+         this.restartTimeout = null;
+      }
+
+      this.enemyManager?.destroy();
+      this.scoreManager.destroy();
+      this.mapSystem?.cleanup();
+      this.physicsManager?.destroy();
+
+      this.networkMessageManager.cleanup();
+      this.serverTransport.disconnect();
+   }
+
+   public isDisposed(): boolean {
+      return this.disposed;
+   }
+
+   public getCreatedAt(): number {
+      return this.createdAt;
+   }
+
    public getMapSeed() {
       return this.mapSeed;
    }
 
+   public getRandomSeed(): number {
+      return this.random.seed;
+   }
+
+   /**
+    * Clock and random numbers for the simulation. Everything that affects the game state has to go through
+    * it, so that the same seed and the same inputs always play out the same way.
+    */
+   public getSimulation(): SimulationContext {
+      return this.simulation;
+   }
+
+   /**
+    * Id for a new entity, drawn from the game's seed so a replay gives entities the same ids
+    */
+   public createEntityId(): string {
+      return this.random.uuid();
+   }
+
+   public getMatchRecorder(): MatchRecorder | null {
+      return this.matchRecorder;
+   }
+
+   /**
+    * Write the match recorded so far to the replay directory, if one is configured.
+    * Runs in the background, a failed write is only logged.
+    */
+   private saveReplay(): void {
+      if (!this.matchRecorder || !this.replayDirectory) return;
+
+      const replay = this.matchRecorder.getReplay();
+      const file = path.join(this.replayDirectory, `${this.gameId}-${replay.recordedAt}.replay`);
+
+      fs.mkdir(this.replayDirectory, { recursive: true })
+         .then(() => fs.writeFile(file, ReplayFileCodec.encode(replay)))
+         .then(() => console.log(`Saved replay of ${this.gameId} to ${file}`))
+         .catch((error) => console.error(`Failed to save replay of ${this.gameId}:`, error));
+   }
+
+   /**
+    * Clear everything a run leaves behind so the same game can start a new one: enemies and waves,
+    * grenades, tile changes, buffered inputs and player health, life state and position
+    */
    private resetGame(): void {
+      this.enemyManager.reset();
+      this.grenadeManager.reset();
+      this.mapSystem.resetMapChanges();
+      this.playerLifecycle.reset();
+      this.scoreManager.reset();
+      this.lagCompensation.reset();
+      this.snapshotManager.reset();
+
+      const respawns = this.playerManager.respawnAll();
+      for (const player of this.playerManager.getPlayers().values()) {
+         this.playerMovemementInputs.clearInputs(player.username);
+         this.mapSystem.handlePlayerMove(player);
+      }
 
+      respawns.forEach((respawn) => this.serverTransport.broadcast(ClientBound.PlayerRespawn, respawn));
    }
 
    public getGameLoop() {
@@ -224,7 +568,7 @@ export class BackendGame extends BaseGame {
    }
 
    updatePlayers() {
-      const playerMovementUpdates = this.playerManager.getPlayerUpdates();
+      const playerMovementUpdates = this.playerManager.getPlayerStates();
       const processedUpdates = playerMovementUpdates.map((movementUpdate) => {
          const latestInput = this.playerMovemementInputs.getLatestInput(movementUpdate.username);
 
@@ -262,7 +606,36 @@ export class BackendGame extends BaseGame {
          }
       });
 
-      this.serverTransport.broadcast(ClientBound.UpdateAllPlayers, processedUpdates);
+      this.interestManager.updatePlayerRelevance();
+
+      const tick = this.physicsManager.getGameTick();
+      const timestamp = this.physicsManager.getCurrentTickTime();
+      for (const username of this.playerManager.getPlayers().keys()) {
+         const updatesInView = processedUpdates.filter((update) =>
+            this.interestManager.isPlayerInView(username, update.username),
+         );
+         const snapshot = this.snapshotManager.buildPlayerSnapshot(username, updatesInView, tick, timestamp);
+         if (snapshot) {
+            this.serverTransport.sendToPlayer(username, ClientBound.UpdateAllPlayers, snapshot);
+         }
+      }
+   }
+
+   /**
+    * Send each client the ammo and reload state of the guns that changed since its baseline
+    */
+   private sendGunStates(): void {
+      const guns = Array.from(this.playerManager.getPlayers().values())
+         .map((player) => player.getGun()?.getStateSync())
+         .filter((gun) => gun !== undefined);
+
+      const tick = this.physicsManager.getGameTick();
+      for (const username of this.playerManager.getPlayers().keys()) {
+         const snapshot = this.snapshotManager.buildGunSnapshot(username, guns, tick);
+         if (snapshot) {
+            this.serverTransport.sendToPlayer(username, ClientBound.GunStateSync, snapshot);
+         }
+      }
    }
 
    /**
@@ -270,19 +643,24 @@ export class BackendGame extends BaseGame {
     */
    private sendDamageEvents(): void {
       // Get recent damage events from DamageService (already exists!)
-      const damageEvents = DamageService.getRecentDamageEvents();
+      const damageEvents = DamageService.getRecentDamageEvents(this.world);
 
       if (damageEvents.length === 0) return;
 
-      // Use the existing DamageEvent format directly - no conversion needed!
-      const batch: EnemyDamageEventBatch = {
-         events: damageEvents, // Direct use of existing DamageEvent[]
-         tick: this.physicsManager.getGameTick(),
-         timestamp: this.physicsManager.getCurrentTime(),
-      };
+      // Each client only gets the events inside its area of interest. Matched by position rather than by the
+      // enemies it knows about, a killing blow has to arrive even though the enemy is already despawned.
+      for (const username of this.playerManager.getPlayers().keys()) {
+         const events = damageEvents.filter((event) => this.interestManager.isInView(username, event.position));
+         if (events.length === 0) continue;
 
-      // Send to all clients immediately
-      this.serverTransport.broadcast(ClientBound.EnemyDamage, batch);
+         const batch: EnemyDamageEventBatch = {
+            events,
+            tick: this.physicsManager.getGameTick(),
+            timestamp: this.physicsManager.getCurrentTime(),
+         };
+
+         this.serverTransport.sendToPlayer(username, ClientBound.EnemyDamage, batch);
+      }
 
       console.log(`📡 Sent ${damageEvents.length} damage events`);
    }
@@ -295,6 +673,26 @@ export class BackendGame extends BaseGame {
       return this.playerManager;
    }
 
+   public getPlayerLifecycle(): PlayerLifecycleManager {
+      return this.playerLifecycle;
+   }
+
+   public getScoreManager(): ScoreManager {
+      return this.scoreManager;
+   }
+
+   public getLagCompensation(): LagCompensationManager {
+      return this.lagCompensation;
+   }
+
+   public getSnapshotManager(): SnapshotManager {
+      return this.snapshotManager;
+   }
+
+   public getInterestManager(): InterestManager {
+      return this.interestManager;
+   }
+
    public getServerTransport(): ServerGeckosTransport {
       return this.serverTransport;
    }
@@ -336,4 +734,8 @@ export class BackendGame extends BaseGame {
    public getEnemyManager(): EnemyManager {
       return this.enemyManager;
    }
+
+   public getGrenadeManager(): GrenadeManager {
+      return this.grenadeManager;
+   }
 }
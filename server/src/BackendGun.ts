@@ -1,4 +1,5 @@
-import { Gun } from 'shared/game/shooting/Gun';
+import type * as RAPIER from '@dimforge/rapier2d-compat';
+import { Gun, PelletRayHit } from 'shared/game/shooting/Gun';
 import { ShootResult } from '../../shared/src/game/network/messages/ShootingParams';
 import { Position } from 'shared/game/Position';
 import { ProjectileHit } from 'shared/game/shooting/ProjectileHit';
@@ -6,8 +7,16 @@ import { DamageService } from 'shared/game/shooting/DamageService';
 import { ReloadEvent } from '../../shared/src/game/network/messages/ReloadMessages';
 import { BackendGame } from './BackendGame';
 import { ClientBound } from 'shared/game/network/SocketEvents';
+import { BackendPlayer } from './BackendPlayer';
+import { RewoundCollider } from './lag-compensation/LagCompensationManager';
+import { BaseEnemy } from 'shared/game/enemies/BaseEnemy';
 
 export class BackendGun extends Gun {
+   /**
+    * Targets to test at their past pose while a shot is validated, keyed by collider handle
+    */
+   private rewoundColliders: Map<number, RewoundCollider> | null = null;
+
    /**
     * Backend-specific hit processing with damage calculation
     */
@@ -18,15 +27,46 @@ export class BackendGun extends Gun {
          this._damage,
          this.gunConfig,
          this.penetration,
+         this.player,
       );
       console.log(`TICK: ${this.game.getPhysicsManager().getGameTick()}`);
 
+      const landed = processedHits.some((hit) => hit.entity !== null && (hit.damageDealt ?? 0) > 0);
+      (this.game as BackendGame).getScoreManager().recordShot(this.player as BackendPlayer, landed);
+
       // Call entity hit handlers for any additional logic
       processedHits.forEach((hit: any) => {
          if (hit.entity && 'onHit' in hit.entity) {
             (hit.entity as any).onHit(hit);
          }
       });
+
+      this.inflictStatusEffects(processedHits);
+   }
+
+   /**
+    * Inflict the gun's status effect once on every enemy this shot damaged, however many pellets hit it
+    */
+   private inflictStatusEffects(hits: ProjectileHit[]): void {
+      const statusEffect = this.gunConfig.statusEffect;
+      if (!statusEffect) return;
+
+      const now = (this.game as BackendGame).getSimulation().now();
+      const affected = new Set<string>();
+
+      for (const hit of hits) {
+         const enemy = hit.entity;
+         if (!(enemy instanceof BaseEnemy) || !hit.damageDealt || affected.has(enemy.id)) continue;
+         if (enemy.health <= 0) continue;
+
+         affected.add(enemy.id);
+
+         const dx = enemy.position.x - this.player.position.x;
+         const dy = enemy.position.y - this.player.position.y;
+         const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+
+         enemy.getStatusEffects().apply({ ...statusEffect, direction: { x: dx / distance, y: dy / distance } }, now);
+      }
    }
 
    /**
@@ -47,10 +87,6 @@ export class BackendGun extends Gun {
       // TODO: shoot tick value must not be older than previuous shot tick
       // TODO: this.shootDelayTicks must pass before being able to shoot again (cant fire faster than gun fire rate)
 
-      /* TODO: perform lag compensation (rollback game state to the given tick from frontend) and then cast rays (call shoot method)
-       * Lag compensation should include rollback of enemies to the point of how player saw them when he shot and other moving entities
-       */
-
       // Validate fire rate even for automatic weapons
       const timeSinceLastShot = shootTick - this.lastShotTick;
       if (timeSinceLastShot < this.shootDelayTicks) {
@@ -105,8 +141,44 @@ export class BackendGun extends Gun {
       //    }
       // }
 
-      // All validations passed, perform the shot
-      return this.shoot(shootTick, origin, angle);
+      // All validations passed, perform the shot against targets where the shooter saw them
+      const lagCompensation = (this.game as BackendGame).getLagCompensation();
+      this.rewoundColliders = lagCompensation.getRewoundColliders(this.player as BackendPlayer);
+
+      try {
+         return this.shoot(shootTick, origin, angle);
+      } finally {
+         this.rewoundColliders = null;
+      }
+   }
+
+   /**
+    * Colliders of rewound targets are tested by shape at their past pose. Moving them in the world instead
+    * would not help, the broad phase only picks up new positions on the next physics step.
+    */
+   protected castPelletRay(ray: RAPIER.Ray, maxToi: number, callback: (hit: PelletRayHit) => boolean): void {
+      const rewound = this.rewoundColliders;
+      if (!rewound || rewound.size === 0) {
+         super.castPelletRay(ray, maxToi, callback);
+         return;
+      }
+
+      this.world.intersectionsWithRay(
+         ray,
+         maxToi,
+         false,
+         callback,
+         undefined,
+         undefined,
+         undefined,
+         this.player.body,
+         (collider) => !rewound.has(collider.handle),
+      );
+
+      for (const { collider, pose } of rewound.values()) {
+         const hit = collider.shape.castRayAndGetNormal(ray, pose.position, pose.rotation, maxToi, false);
+         if (hit && !callback({ collider, timeOfImpact: hit.timeOfImpact, normal: hit.normal })) return;
+      }
    }
 
    // public validateAndShoot(request: ShootRequest): ShootResult | null {
@@ -5,32 +5,50 @@ import { BasePhysicsManager } from 'shared/game/BasePhysicsManager';
 export class BackendPhysicsManager extends BasePhysicsManager {
    private game: BackendGame;
    private gameTicker: NodeJS.Timeout | null;
-   private static backendInstance: BackendPhysicsManager;
    private serverTickCount: number = 0;
    private lastServerTpsCalculation: number = 0;
    private currentServerTps: number = 0;
 
-   private constructor(game: BackendGame) {
+   private constructor(
+      game: BackendGame,
+      private readonly manualTicks: boolean,
+   ) {
       super();
       this.game = game;
       this.gameTicker = null;
    }
 
-   public static createInstance(game: BackendGame): BackendPhysicsManager {
-      if (BackendPhysicsManager.backendInstance) {
-         throw new Error('BackendPhysicsManager already initialized');
-      }
-
-      const instance = new BackendPhysicsManager(game);
-      BasePhysicsManager.setInstance(instance);
-      BackendPhysicsManager.backendInstance = instance;
-      return instance;
+   /**
+    * Create the physics manager for a single game. Every {@link BackendGame} owns its own
+    * instance, so several games can tick side by side in one process.
+    * @param manualTicks Only advance on {@link advanceTick} instead of on a timer, game time then
+    * stands in for the wall clock. Used to re-simulate a recorded match as fast as possible.
+    */
+   public static createInstance(game: BackendGame, manualTicks: boolean = false): BackendPhysicsManager {
+      return new BackendPhysicsManager(game, manualTicks);
    }
 
    public async init(): Promise<void> {
       await this.initPhysics();
    }
 
+   protected runUpdate(): void {
+      if (this.manualTicks) return;
+      super.runUpdate();
+   }
+
+   /**
+    * Run the next tick right away, only for a manually ticked game that is running
+    */
+   public advanceTick(): void {
+      if (!this.manualTicks || !this.isRunning()) return;
+      this.runTick();
+   }
+
+   public getCurrentTime(): number {
+      return this.manualTicks ? this.getSimulationTime() : super.getCurrentTime();
+   }
+
    public update(): void {
       if (this.game.isGameStarted()) {
          this.step();
@@ -7,8 +7,32 @@ import { BackendGun } from './BackendGun';
 import { GunType } from 'shared/game/shooting/GunTypes';
 import { Position } from 'shared/game/Position';
 import { BaseGame } from 'shared/game/BaseGame';
+import { ClientBound } from 'shared/game/network/SocketEvents';
+import { gameSettings } from 'shared/game/SystemSettings';
+import { BaseEnemy } from 'shared/game/enemies/BaseEnemy';
+import { GameEventEmitter } from 'shared/game/events/GameEventEmitter';
+import { PlayerDamagedEvent } from 'shared/game/events/events/PlayerLifecycleEvents';
+import {
+   PlayerDamagedData,
+   PlayerDamageKind,
+   PlayerDamageSource,
+} from 'shared/game/network/messages/client-bound/PlayerDamageData';
+import type { BackendGame } from './BackendGame';
+import { StatusEffectApplication, StatusEffectType } from 'shared/game/status-effects/StatusEffectTypes';
+import { StatusEffectsData } from 'shared/game/network/messages/client-bound/StatusEffectsData';
 
 export class BackendPlayer extends Player {
+   private invulnerableUntil = 0;
+   private lastDamagedAt = -Infinity;
+   private lastDamageSource: PlayerDamageSource | null = null;
+
+   // Health regenerates in fractions of a point per tick, clients hear about it at a slower rate
+   private lastHealthSyncAt = 0;
+   private healthSyncPending = false;
+
+   // Whoever inflicted each effect, so damage over time is attributed to them
+   private statusEffectSources: Map<StatusEffectType, BaseEnemy | undefined> = new Map();
+
    constructor(
       game: BaseGame,
       world: RAPIER.World,
@@ -22,6 +46,161 @@ export class BackendPlayer extends Player {
       this.type.guns.forEach((gunConfig) => {
          this.setGun(gunConfig.type, gunConfig.positionOffset);
       });
+
+      this.statusEffects.setChangeListener(() => this.syncStatusEffects());
+   }
+
+   /**
+    * Apply a hit or hazard tick after armor. Hits are ignored while invulnerability frames from the previous hit
+    * last, and every change is sent to the clients that can see this player
+    */
+   public takeDamage(amount: number, source?: unknown, kind: PlayerDamageKind = 'melee'): void {
+      if (!this.isAlive() || amount <= 0) return;
+
+      const now = this.getServerGame().getSimulation().now();
+      const isHit = kind !== 'hazard';
+      if (isHit && now < this.invulnerableUntil) return;
+
+      const damage = amount * (1 - this.type.armor);
+      const healthBefore = this.health;
+      super.takeDamage(damage, source);
+
+      this.lastDamagedAt = now;
+      if (isHit) {
+         this.invulnerableUntil = now + gameSettings.playerInvulnerabilityMs;
+      }
+
+      this.lastDamageSource = {
+         kind,
+         enemyId: source instanceof BaseEnemy ? source.id : undefined,
+         enemyType: source instanceof BaseEnemy ? source.enemyType : undefined,
+      };
+
+      GameEventEmitter.getInstance().emit(
+         new PlayerDamagedEvent(this.getServerGame().gameId, this, healthBefore - this.health, this.lastDamageSource),
+      );
+
+      const damagedData: PlayerDamagedData = {
+         username: this.username,
+         damage: healthBefore - this.health,
+         health: this.health,
+         maxHealth: this.maxHealth,
+         source: this.lastDamageSource,
+      };
+
+      for (const username of this.getViewers()) {
+         this.getServerGame().getServerTransport().sendToPlayer(username, ClientBound.PlayerDamaged, damagedData);
+      }
+
+      // The damage event already carries the new health
+      this.healthSyncPending = false;
+   }
+
+   /**
+    * Regenerate health once the player has gone long enough without taking damage, called every tick while
+    * the player is alive
+    */
+   public regenerate(now: number): void {
+      const regen = this.type.healthRegen;
+      if (!this.isAlive() || regen.perSecond <= 0) return;
+      if (this.health >= this.maxHealth || now - this.lastDamagedAt < regen.delayMs) return;
+
+      this.setHealth(this.health + regen.perSecond * gameSettings.gameDeltaUpdateSeconds);
+      this.healthSyncPending = true;
+
+      const isFull = this.health >= this.maxHealth;
+      if (isFull || now - this.lastHealthSyncAt >= gameSettings.playerHealthSyncIntervalMs) {
+         this.syncHealth(now);
+      }
+   }
+
+   /**
+    * @param source Whatever inflicted the effect, the damage it deals over time is credited to it
+    */
+   public inflictStatusEffect(application: StatusEffectApplication, source?: unknown): boolean {
+      if (!this.isAlive()) return false;
+
+      this.statusEffectSources.set(application.type, source instanceof BaseEnemy ? source : undefined);
+      return super.inflictStatusEffect(application);
+   }
+
+   public takeStatusDamage(amount: number, type: StatusEffectType): void {
+      this.takeDamage(amount, this.statusEffectSources.get(type), 'hazard');
+   }
+
+   public applyKnockback(velocity: { x: number; y: number }): void {
+      this.movementController.addImpulse(velocity);
+   }
+
+   /**
+    * Forget earlier hits and restart the regeneration delay from now, used when the player is revived
+    */
+   public resetDamageState(now: number): void {
+      this.lastDamagedAt = now;
+      this.invulnerableUntil = 0;
+      this.lastDamageSource = null;
+      this.healthSyncPending = false;
+   }
+
+   public restore(): void {
+      super.restore();
+      this.resetDamageState(-Infinity);
+      this.clearStatusEffects();
+   }
+
+   /**
+    * Drop every effect, used when the player goes down or comes back
+    */
+   public clearStatusEffects(): void {
+      this.statusEffects.clear();
+      this.statusEffectSources.clear();
+   }
+
+   /**
+    * What hurt this player last, for death attribution
+    */
+   public getLastDamageSource(): PlayerDamageSource | null {
+      return this.lastDamageSource;
+   }
+
+   private syncStatusEffects(): void {
+      const effectsData: StatusEffectsData = {
+         targetType: 'player',
+         targetId: this.username,
+         effects: this.statusEffects.getStates(this.getServerGame().getSimulation().now()),
+      };
+
+      for (const username of this.getViewers()) {
+         this.getServerGame().getServerTransport().sendToPlayer(username, ClientBound.StatusEffects, effectsData);
+      }
+   }
+
+   private syncHealth(now: number): void {
+      if (!this.healthSyncPending) return;
+
+      this.lastHealthSyncAt = now;
+      this.healthSyncPending = false;
+
+      const healthData = { username: this.username, health: this.health, maxHealth: this.maxHealth };
+      for (const username of this.getViewers()) {
+         this.getServerGame().getServerTransport().sendToPlayer(username, ClientBound.PlayerHealth, healthData);
+      }
+   }
+
+   /**
+    * This player and everyone whose area of interest contains them
+    */
+   private getViewers(): string[] {
+      const game = this.getServerGame();
+      const interestManager = game.getInterestManager();
+
+      return Array.from(game.getPlayerManager().getPlayers().keys()).filter(
+         (username) => username === this.username || interestManager.isInView(username, this.position),
+      );
+   }
+
+   private getServerGame(): BackendGame {
+      return this.game as BackendGame;
    }
 
    setGun(gunType: GunType, positionOffset: Position): void {
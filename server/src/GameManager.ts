@@ -1,45 +1,228 @@
 // server/src/GameManager.ts
 import { BackendGame } from './BackendGame';
-import http from 'http'
+import { GameLobbyInfo } from 'shared/game/lobby/GameLobbyInfo';
+import { MatchResultReporter } from './scoring/MatchResultReporter';
 
+export interface GameManagerOptions {
+   /**
+    * HTTP port of the first game. Every game gets its own geckos.io namespace on its own port,
+    * allocated as basePort + slot
+    */
+   basePort: number;
+
+   /** Maximum number of games running side by side in this process */
+   maxGames: number;
+
+   /** First UDP port used for WebRTC traffic */
+   udpPortRangeStart: number;
+
+   /** Number of UDP ports reserved for each game */
+   udpPortsPerGame: number;
+
+   minPlayers: number;
+   maxPlayers: number;
+
+   /** How long a game may stay empty (never joined, or everyone left) before it is disposed */
+   emptyGameTimeoutMs: number;
+
+   /** Directory every game records its replays to, games are not recorded if not set */
+   replayDirectory?: string;
+
+   /** Submits the results of finished runs to the auth service, results are not kept if not set */
+   matchResultReporter?: MatchResultReporter;
+}
+
+const DEFAULT_OPTIONS: GameManagerOptions = {
+   basePort: 3001,
+   maxGames: 8,
+   udpPortRangeStart: 10000,
+   udpPortsPerGame: 8,
+   minPlayers: 2,
+   maxPlayers: 4,
+   emptyGameTimeoutMs: 30000,
+};
+
+/**
+ * Owns every {@link BackendGame} running in this process. Each game is a separate lobby with its own
+ * transport namespace and physics loop; games are disposed automatically once they are left empty.
+ */
 export class GameManager {
    private games: Map<string, BackendGame>;
+   private gameSlots: Map<string, number> = new Map();
+   private emptyGameTimers: Map<string, NodeJS.Timeout> = new Map();
    private gameCounter: number;
+   private options: GameManagerOptions;
 
-   constructor() {
+   constructor(options: Partial<GameManagerOptions> = {}) {
       this.games = new Map();
       this.gameCounter = 1;
+      this.options = { ...DEFAULT_OPTIONS, ...options };
    }
 
-   public async createGame(port: number, server?: http.Server): Promise<string> {
+   /**
+    * Create and initialize a new game in the first free slot
+    * @throws Error if the maximum number of games is already running
+    */
+   public async createGame(): Promise<BackendGame> {
+      const slot = this.findFreeSlot();
+      if (slot === null) {
+         throw new Error(`Cannot create game: limit of ${this.options.maxGames} games reached`);
+      }
+
       const gameId = `game-${this.gameCounter}`;
       this.gameCounter += 1;
 
-      if (!this.games.has(gameId)) {
-         const game = new BackendGame(gameId);
-         await game.init(port, server);
-         this.games.set(gameId, game);
+      const game = new BackendGame(gameId, {
+         minPlayers: this.options.minPlayers,
+         maxPlayers: this.options.maxPlayers,
+         replayDirectory: this.options.replayDirectory,
+         matchResultReporter: this.options.matchResultReporter,
+      });
+
+      // Reserve the slot before the async init so concurrent calls cannot grab it
+      this.gameSlots.set(gameId, slot);
+
+      try {
+         await game.init(this.getPortForSlot(slot), undefined, this.getUdpPortRangeForSlot(slot));
+      } catch (error) {
+         this.gameSlots.delete(gameId);
+         game.dispose();
+         throw error;
       }
 
-      return gameId;
+      this.games.set(gameId, game);
+      game.onGameEmpty(() => this.scheduleEmptyGameDisposal(gameId));
+
+      // A game nobody joins should not hold its ports forever
+      this.scheduleEmptyGameDisposal(gameId);
+
+      console.log(`Created game ${gameId} on port ${this.getPortForSlot(slot)} (${this.games.size} running)`);
+      return game;
+   }
+
+   public getGame(gameId: string): BackendGame | undefined {
+      return this.games.get(gameId);
    }
 
    public hasRunningGame() {
       return this.games.size > 0;
    }
 
-   public getNewestGame(): string | null {
-      let newestGameId: string | null = null;
-      let maxGameNumber = -1;
+   /**
+    * Summaries of all running games for the lobby list
+    */
+   public listGames(): GameLobbyInfo[] {
+      return Array.from(this.games.keys()).map((gameId) => this.getGameInfo(gameId)!);
+   }
+
+   public getGameInfo(gameId: string): GameLobbyInfo | null {
+      const game = this.games.get(gameId);
+      const slot = this.gameSlots.get(gameId);
+      if (!game || slot === undefined) return null;
+
+      const playerManager = game.getPlayerManager();
+
+      return {
+         gameId,
+         port: this.getPortForSlot(slot),
+         playerCount: playerManager.getPlayers().size,
+         minPlayers: playerManager.getMinPlayers(),
+         maxPlayers: playerManager.getMaxPlayers(),
+         started: game.isGameStarted(),
+         createdAt: game.getCreatedAt(),
+      };
+   }
+
+   /**
+    * Find a game that is still accepting players, or create one if none is available
+    */
+   public async findOrCreateJoinableGame(): Promise<BackendGame> {
+      const joinable = Array.from(this.games.values())
+         .filter((game) => this.isJoinable(game))
+         .sort((a, b) => b.getPlayerManager().getPlayers().size - a.getPlayerManager().getPlayers().size);
+
+      if (joinable.length > 0) {
+         return joinable[0];
+      }
+
+      return this.createGame();
+   }
+
+   /**
+    * Players can only join games that have not started yet and still have room
+    */
+   public isJoinable(game: BackendGame): boolean {
+      return !game.isDisposed() && !game.isGameStarted() && !game.getPlayerManager().isFull();
+   }
+
+   /**
+    * Dispose a game and release its ports
+    */
+   public disposeGame(gameId: string): boolean {
+      const game = this.games.get(gameId);
+      if (!game) return false;
+
+      this.cancelEmptyGameDisposal(gameId);
+
+      this.games.delete(gameId);
+      this.gameSlots.delete(gameId);
+      game.dispose();
+
+      console.log(`Disposed game ${gameId} (${this.games.size} running)`);
+      return true;
+   }
+
+   /**
+    * Dispose every running game, used on server shutdown
+    */
+   public disposeAll(): void {
+      for (const gameId of Array.from(this.games.keys())) {
+         this.disposeGame(gameId);
+      }
+   }
+
+   private scheduleEmptyGameDisposal(gameId: string): void {
+      this.cancelEmptyGameDisposal(gameId);
+
+      const timer = setTimeout(() => {
+         this.emptyGameTimers.delete(gameId);
+
+         const game = this.games.get(gameId);
+         if (!game) return;
+
+         // Someone joined in the meantime
+         if (game.getPlayerManager().getPlayers().size > 0) return;
+
+         this.disposeGame(gameId);
+      }, this.options.emptyGameTimeoutMs);
+
+      this.emptyGameTimers.set(gameId, timer);
+   }
+
+   private cancelEmptyGameDisposal(gameId: string): void {
+      const timer = this.emptyGameTimers.get(gameId);
+      if (timer) {
+         clearTimeout(timer);
+         this.emptyGameTimers.delete(gameId);
+      }
+   }
+
+   private findFreeSlot(): number | null {
+      const usedSlots = new Set(this.gameSlots.values());
 
-      for (const gameId of this.games.keys()) {
-         const gameNumber = parseInt(gameId.split('-')[1], 10);
-         if (gameNumber > maxGameNumber) {
-            maxGameNumber = gameNumber;
-            newestGameId = gameId;
-         }
+      for (let slot = 0; slot < this.options.maxGames; slot++) {
+         if (!usedSlots.has(slot)) return slot;
       }
 
-      return newestGameId;
+      return null;
+   }
+
+   private getPortForSlot(slot: number): number {
+      return this.options.basePort + slot;
+   }
+
+   private getUdpPortRangeForSlot(slot: number): { min: number; max: number } {
+      const min = this.options.udpPortRangeStart + slot * this.options.udpPortsPerGame;
+      return { min, max: min + this.options.udpPortsPerGame - 1 };
    }
-}
\ No newline at end of file
+}
@@ -0,0 +1,272 @@
+// server/src/PlayerLifecycleManager.ts
+
+import { PlayerLifeState } from 'shared/game/PlayerTypes';
+import { gameSettings } from 'shared/game/SystemSettings';
+import { ClientBound } from 'shared/game/network/SocketEvents';
+import { PlayerRunStats } from 'shared/game/network/messages/client-bound/PlayerLifecycleData';
+import { GameEventEmitter } from 'shared/game/events/GameEventEmitter';
+import {
+   PlayerDeathEvent,
+   PlayerDownedEvent,
+   PlayerRevivedEvent,
+} from 'shared/game/events/events/PlayerLifecycleEvents';
+import { MathUtil } from 'shared/util/MathUtil';
+import { BackendGame } from './BackendGame';
+import { BackendPlayer } from './BackendPlayer';
+
+interface DownedState {
+   bleedOutAt: number;
+   reviverUsername: string | null;
+   reviveProgressMs: number;
+   lastProgressSentAt: number;
+}
+
+interface PlayerRunRecord {
+   downs: number;
+   revives: number;
+   diedAt: number | null;
+}
+
+/**
+ * Tracks players going down, being revived and dying during a run, and ends the game
+ * once nobody is left standing.
+ */
+export class PlayerLifecycleManager {
+   private static readonly REVIVE_PROGRESS_INTERVAL_MS = 200;
+
+   private downed: Map<string, DownedState> = new Map();
+   private records: Map<string, PlayerRunRecord> = new Map();
+   private runStartedAt = 0;
+   private runOver = false;
+
+   constructor(private readonly game: BackendGame) {}
+
+   /**
+    * Called when the game loop starts a new run
+    */
+   public startRun(now: number): void {
+      this.reset();
+      this.runStartedAt = now;
+   }
+
+   public reset(): void {
+      this.downed.clear();
+      this.records.clear();
+      this.runOver = false;
+   }
+
+   /**
+    * Advance downed players and check for game over, called every tick
+    */
+   public update(now: number): void {
+      if (this.runOver) return;
+
+      const players = Array.from(this.game.getPlayerManager().getPlayers().values());
+      if (players.length === 0) return;
+
+      for (const player of players) {
+         if (player.isAlive()) {
+            player.statusEffects.update(now);
+         }
+
+         if (player.isAlive() && player.health <= 0) {
+            this.downPlayer(player, now);
+         } else {
+            player.regenerate(now);
+         }
+      }
+
+      for (const player of players) {
+         if (player.lifeState === PlayerLifeState.DOWNED) {
+            this.updateDownedPlayer(player, players, now);
+         }
+      }
+
+      if (players.every((player) => !player.isAlive())) {
+         // Nobody is left to revive the players that are still down
+         players
+            .filter((player) => player.lifeState === PlayerLifeState.DOWNED)
+            .forEach((player) => this.killPlayer(player, now));
+
+         this.runOver = true;
+         this.game.endGame();
+      }
+   }
+
+   public handlePlayerLeave(username: string): void {
+      this.downed.delete(username);
+      this.records.delete(username);
+   }
+
+   /**
+    * Per-player stats of the current run for the game over summary
+    */
+   public getRunStats(now: number): PlayerRunStats[] {
+      return Array.from(this.game.getPlayerManager().getPlayers().values()).map((player) => {
+         const record = this.getRecord(player.username);
+
+         return {
+            username: player.username,
+            displayName: player.playerData.displayName,
+            downs: record.downs,
+            revives: record.revives,
+            survivedMs: (record.diedAt ?? now) - this.runStartedAt,
+         };
+      });
+   }
+
+   public getRunDuration(now: number): number {
+      return now - this.runStartedAt;
+   }
+
+   private downPlayer(player: BackendPlayer, now: number): void {
+      const bleedOutAt = now + gameSettings.reviveWindowMs;
+
+      player.setLifeState(PlayerLifeState.DOWNED);
+      player.setVelocity({ x: 0, y: 0 });
+      player.clearStatusEffects();
+      this.getRecord(player.username).downs++;
+
+      this.downed.set(player.username, {
+         bleedOutAt,
+         reviverUsername: null,
+         reviveProgressMs: 0,
+         lastProgressSentAt: 0,
+      });
+
+      GameEventEmitter.getInstance().emit(new PlayerDownedEvent(this.game.gameId, player));
+
+      this.game.getServerTransport().broadcast(ClientBound.PlayerDowned, {
+         username: player.username,
+         position: { ...player.position },
+         bleedOutAt,
+         downedBy: player.getLastDamageSource(),
+      });
+
+      console.log(`Player ${player.username} is down`);
+   }
+
+   private updateDownedPlayer(player: BackendPlayer, players: BackendPlayer[], now: number): void {
+      const state = this.downed.get(player.username);
+      if (!state) return;
+
+      const reviver = this.findReviver(player, players, state.reviverUsername);
+
+      if (!reviver) {
+         if (state.reviverUsername) {
+            state.reviverUsername = null;
+            state.reviveProgressMs = 0;
+            this.sendReviveProgress(player, state, now);
+         }
+
+         if (now >= state.bleedOutAt) {
+            this.killPlayer(player, now);
+         }
+         return;
+      }
+
+      // Switching reviver starts over
+      if (reviver.username !== state.reviverUsername) {
+         state.reviverUsername = reviver.username;
+         state.reviveProgressMs = 0;
+      }
+
+      state.reviveProgressMs += gameSettings.gameUpdateIntervalMillis;
+
+      if (state.reviveProgressMs >= gameSettings.reviveDurationMs) {
+         this.revivePlayer(player, reviver, now);
+         return;
+      }
+
+      if (now >= state.bleedOutAt) {
+         this.killPlayer(player, now);
+         return;
+      }
+
+      if (now - state.lastProgressSentAt >= PlayerLifecycleManager.REVIVE_PROGRESS_INTERVAL_MS) {
+         this.sendReviveProgress(player, state, now);
+      }
+   }
+
+   /**
+    * Keep the current reviver while they stay in range, otherwise take the closest living teammate in range
+    */
+   private findReviver(
+      downedPlayer: BackendPlayer,
+      players: BackendPlayer[],
+      currentReviver: string | null,
+   ): BackendPlayer | null {
+      let closest: BackendPlayer | null = null;
+      let closestDistance = gameSettings.reviveRadius;
+
+      for (const player of players) {
+         if (player === downedPlayer || !player.isAlive()) continue;
+
+         const distance = MathUtil.distance(player.position, downedPlayer.position);
+         if (distance > gameSettings.reviveRadius) continue;
+
+         if (player.username === currentReviver) return player;
+
+         if (distance <= closestDistance) {
+            closest = player;
+            closestDistance = distance;
+         }
+      }
+
+      return closest;
+   }
+
+   private revivePlayer(player: BackendPlayer, reviver: BackendPlayer, now: number): void {
+      this.downed.delete(player.username);
+
+      player.setLifeState(PlayerLifeState.ALIVE);
+      player.setHealth(player.maxHealth * gameSettings.reviveHealthFraction);
+      player.resetDamageState(now);
+      this.getRecord(reviver.username).revives++;
+
+      GameEventEmitter.getInstance().emit(new PlayerRevivedEvent(this.game.gameId, player, reviver));
+
+      this.game.getServerTransport().broadcast(ClientBound.PlayerRevived, {
+         username: player.username,
+         reviverUsername: reviver.username,
+         health: player.health,
+      });
+
+      console.log(`Player ${player.username} revived by ${reviver.username}`);
+   }
+
+   private killPlayer(player: BackendPlayer, now: number): void {
+      this.downed.delete(player.username);
+
+      player.setLifeState(PlayerLifeState.DEAD);
+      this.getRecord(player.username).diedAt = now;
+
+      GameEventEmitter.getInstance().emit(new PlayerDeathEvent(this.game.gameId, player));
+
+      this.game.getServerTransport().broadcast(ClientBound.PlayerDied, {
+         username: player.username,
+         position: { ...player.position },
+      });
+
+      console.log(`Player ${player.username} died`);
+   }
+
+   private sendReviveProgress(player: BackendPlayer, state: DownedState, now: number): void {
+      state.lastProgressSentAt = now;
+
+      this.game.getServerTransport().broadcast(ClientBound.PlayerReviveProgress, {
+         username: player.username,
+         reviverUsername: state.reviverUsername,
+         progress: Math.min(1, state.reviveProgressMs / gameSettings.reviveDurationMs),
+      });
+   }
+
+   private getRecord(username: string): PlayerRunRecord {
+      let record = this.records.get(username);
+      if (!record) {
+         record = { downs: 0, revives: 0, diedAt: null };
+         this.records.set(username, record);
+      }
+      return record;
+   }
+}
@@ -4,8 +4,12 @@ import { PlayerDataToSend } from 'shared/game/network/messages/client-bound/Play
 import { PlayerMovementState } from '../../shared/src/game/network/messages/client-bound/PlayerMovementState';
 import { BackendGame } from './BackendGame';
 import { PlayerTypeEnum } from 'shared/game/PlayerTypes';
-import { MathUtil } from 'shared/util/MathUtil';
 import { gameSettings } from 'shared/game/SystemSettings';
+import { PlayerRespawnData } from 'shared/game/network/messages/client-bound/PlayerLifecycleData';
+import {
+   ClassSelectionData,
+   ClassSelectionRejection,
+} from 'shared/game/network/messages/client-bound/ClassSelectionData';
 
 export class PlayerManager {
    /**
@@ -16,13 +20,11 @@ export class PlayerManager {
    private minPlayers: number;
    private maxPlayers: number;
    private game: BackendGame;
-   private lastEmittedPositions: Map<
-      string,
-      {
-         position: { x: number; y: number };
-         rotation: number;
-      }
-   > = new Map();
+   /**
+    * Classes picked by players whose selection arrived before they joined, applied in addPlayer
+    * @private
+    */
+   private classPreferences: Map<string, PlayerTypeEnum> = new Map();
    private readonly POSITION_THRESHOLD = 0.5; // Distance in pixels
    private readonly ROTATION_THRESHOLD = 0.1;
 
@@ -37,8 +39,20 @@ export class PlayerManager {
       return this.players;
    }
 
+   getMinPlayers(): number {
+      return this.minPlayers;
+   }
+
+   getMaxPlayers(): number {
+      return this.maxPlayers;
+   }
+
+   isFull(): boolean {
+      return this.players.size >= this.maxPlayers;
+   }
+
    addPlayer(userInfo: PlayerData): BackendPlayer | null {
-      if (this.players.size >= this.maxPlayers) return null;
+      if (this.isFull()) return null;
 
       const username = userInfo.username;
 
@@ -52,6 +66,7 @@ export class PlayerManager {
 
       const gunSeed = Date.now().toString();
       const playerData = userInfo;
+      const playerType = this.pickJoinClass(username);
 
       // Get spawn position from map system
       const spawnPosition = this.game.getMapSystem().getNextSpawnPosition();
@@ -61,7 +76,7 @@ export class PlayerManager {
          this.game,
          this.game.getWorld(),
          this.game.getRapier(),
-         PlayerTypeEnum.Assault,
+         playerType,
          playerData,
          gunSeed,
       );
@@ -80,15 +95,128 @@ export class PlayerManager {
    }
 
    removePlayer(username: string): void {
+      this.classPreferences.delete(username);
+
       if (this.players.has(username)) {
          this.players.delete(username);
+         this.game.getSnapshotManager().removeClient(username);
+         this.game.getInterestManager().removeClient(username);
+         this.game.getPlayerLifecycle().handlePlayerLeave(username);
+         this.game.getScoreManager().handlePlayerLeave(username);
+         this.game.getLagCompensation().removeClient(username);
+         this.game.getGrenadeManager().removePlayer(username);
 
          if (this.players.size === 0) {
-            this.game.stopGame();
+            this.game.handleAllPlayersLeft();
          }
       }
    }
 
+   /**
+    * Switch a player to another class while the game is not running. A player who has not joined yet only
+    * has the choice remembered for addPlayer, which returns null as there is nothing to answer yet.
+    */
+   selectClass(username: string, playerType: PlayerTypeEnum): ClassSelectionData | null {
+      const player = this.players.get(username);
+
+      if (!Object.values(PlayerTypeEnum).includes(playerType)) {
+         return player ? this.rejectClass(player, playerType, ClassSelectionRejection.UnknownClass) : null;
+      }
+
+      if (!player) {
+         this.classPreferences.set(username, playerType);
+         return null;
+      }
+
+      if (player.type.id === playerType) {
+         return { requested: playerType, playerType, accepted: true };
+      }
+
+      if (this.game.isGameStarted()) {
+         return this.rejectClass(player, playerType, ClassSelectionRejection.GameStarted);
+      }
+
+      if (!this.hasRoomForClass(playerType)) {
+         return this.rejectClass(player, playerType, ClassSelectionRejection.ClassFull);
+      }
+
+      this.replacePlayer(player, playerType);
+      console.log(`Player ${username} switched to ${playerType}`);
+
+      return { requested: playerType, playerType, accepted: true };
+   }
+
+   getClassPreference(username: string): PlayerTypeEnum | undefined {
+      return this.classPreferences.get(username);
+   }
+
+   /**
+    * Class a joining player starts as: their selection if the team still has room for it, otherwise the
+    * first class that does
+    */
+   private pickJoinClass(username: string): PlayerTypeEnum {
+      const preferred = this.classPreferences.get(username) ?? PlayerTypeEnum.Assault;
+      this.classPreferences.delete(username);
+
+      if (this.hasRoomForClass(preferred)) return preferred;
+
+      return Object.values(PlayerTypeEnum).find((type) => this.hasRoomForClass(type)) ?? preferred;
+   }
+
+   private hasRoomForClass(playerType: PlayerTypeEnum): boolean {
+      const count = Array.from(this.players.values()).filter((player) => player.type.id === playerType).length;
+      return count < gameSettings.maxPlayersPerClass;
+   }
+
+   private rejectClass(
+      player: BackendPlayer,
+      requested: PlayerTypeEnum,
+      reason: ClassSelectionRejection,
+   ): ClassSelectionData {
+      return { requested, playerType: player.type.id, accepted: false, reason };
+   }
+
+   /**
+    * The class config is fixed per player instance, so a new class means a new body and gun in the same spot
+    */
+   private replacePlayer(player: BackendPlayer, playerType: PlayerTypeEnum): void {
+      const position = { ...player.position };
+      player.despawn();
+
+      const replacement = new BackendPlayer(
+         this.game,
+         this.game.getWorld(),
+         this.game.getRapier(),
+         playerType,
+         player.playerData,
+         player.gunSeed,
+      );
+      replacement.spawn(position, 0);
+      replacement.updateChunkPosition(player.currentChunkX, player.currentChunkY);
+
+      this.players.set(player.username, replacement);
+      this.game.getSnapshotManager().forgetPlayer(player.username);
+   }
+
+   /**
+    * Restore every player to full health at a fresh spawn point for a new run
+    */
+   respawnAll(): PlayerRespawnData[] {
+      return Array.from(this.players.values()).map((player) => {
+         const spawnPosition = this.game.getMapSystem().getNextSpawnPosition();
+
+         player.restore();
+         player.setPosition(spawnPosition);
+         player.setVelocity({ x: 0, y: 0 });
+
+         return {
+            username: player.username,
+            position: spawnPosition,
+            health: player.health,
+         };
+      });
+   }
+
    getPlayerByUsername(username: string): BackendPlayer | undefined {
       return this.players.get(username);
    }
@@ -102,7 +230,7 @@ export class PlayerManager {
                x: backendPlayer.position.x,
                y: backendPlayer.position.y,
             },
-            playerType: backendPlayer.type,
+            playerType: backendPlayer.type.id,
             playerData: backendPlayer.playerData,
             gunSeed: backendPlayer.gunSeed,
          };
@@ -113,41 +241,20 @@ export class PlayerManager {
       return allPlayersData;
    }
 
-   getPlayerUpdates(): PlayerMovementState[] {
-      return Array.from(this.players.values())
-         .filter((player) => {
-            const username = player.playerData.username;
-            if (!this.lastEmittedPositions.has(username)) return true;
-
-            const lastEmittedPosition = this.lastEmittedPositions.get(username);
-            const linearDistance = MathUtil.distance(lastEmittedPosition!.position, player.position);
-            const angularDiff = Math.abs(lastEmittedPosition!.rotation - player.rotationRadians);
-
-            return (
-               linearDistance >= gameSettings.minLinearDistanceToUpdateMovement ||
-               angularDiff >= gameSettings.minAngularDiffToUpdateMovementRadians
-            );
-         })
-         .map((player) => {
-            const username = player.playerData.username;
-
-            // Update last emitted position using username as key
-            this.lastEmittedPositions.set(username, {
-               position: { ...player.position },
-               rotation: player.rotationRadians,
-            });
-
-            return {
-               username: username, // Use username as player ID in network messages
-               position: player.position,
-               rotation: player.rotationRadians,
-               velocity: player.movementController.getCurrentVelocity(),
-               timestamp: this.game.getGameLoop().getCurrentTickTime(),
-               gameTick: this.game.getGameLoop().getGameTick(),
-               predictionTimestamp: -1,
-               predictionTick: -1,
-            };
-         });
+   /**
+    * Movement state of every player this tick. Which of them each client actually gets is up to the
+    * snapshot manager.
+    */
+   getPlayerStates(): PlayerMovementState[] {
+      return Array.from(this.players.values()).map((player) => ({
+         username: player.playerData.username, // Use username as player ID in network messages
+         position: player.position,
+         velocity: player.movementController.getCurrentVelocity(),
+         timestamp: this.game.getGameLoop().getCurrentTickTime(),
+         gameTick: this.game.getGameLoop().getGameTick(),
+         predictionTimestamp: -1,
+         predictionTick: -1,
+      }));
    }
 
    public getPlayerData(player: BackendPlayer): PlayerDataToSend {
@@ -156,7 +263,7 @@ export class PlayerManager {
             x: player.position.x,
             y: player.position.y,
          },
-         playerType: player.type,
+         playerType: player.type.id,
          playerData: player.playerData,
          gunSeed: player.gunSeed,
       };
@@ -0,0 +1,158 @@
+// server/src/bots/BotBehaviors.ts
+import { Position } from 'shared/game/Position';
+import { MathUtil } from 'shared/util/MathUtil';
+import { SeededRandom } from 'shared/util/SeededRandom';
+
+export enum BotBehaviorType {
+   WANDER = 'wander',
+   KITE = 'kite',
+   SHOOT_NEAREST = 'shoot-nearest',
+}
+
+/**
+ * What a bot knows when it decides what to do on a tick
+ */
+export interface BotView {
+   position: Position;
+
+   /** Last position the server reported for every enemy this client knows about */
+   enemies: ReadonlyMap<string, Position>;
+
+   /** Distance up to which the gun deals full damage, and beyond which its bullets are gone */
+   fullDamageRange: number;
+   maxRange: number;
+
+   /** Wanted to move on the previous tick but barely did, a wall is in the way */
+   stuck: boolean;
+}
+
+/**
+ * What a bot does on a tick, as the inputs a player would give
+ */
+export interface BotIntent {
+   /** Direction to walk in, each axis -1, 0 or 1 like the movement keys */
+   move: { x: number; y: number };
+
+   /** Where to point the gun, null to leave it */
+   aimAt: Position | null;
+
+   shoot: boolean;
+}
+
+export interface IBotBehavior {
+   /** One of {@link BotBehaviorType} for the built-in behaviors, anything for scripted ones */
+   readonly type: string;
+
+   decide(view: BotView): BotIntent;
+}
+
+const STAND_STILL = { x: 0, y: 0 };
+
+/**
+ * Walks in a random direction and picks another one now and then, or right away when it runs into a wall
+ */
+export class WanderBehavior implements IBotBehavior {
+   public readonly type: BotBehaviorType = BotBehaviorType.WANDER;
+
+   private direction: { x: number; y: number } = STAND_STILL;
+   private ticksUntilTurn = 0;
+
+   constructor(private readonly random: SeededRandom) {}
+
+   public decide(view: BotView): BotIntent {
+      return { move: this.wander(view), aimAt: null, shoot: false };
+   }
+
+   protected wander(view: BotView): { x: number; y: number } {
+      if (this.ticksUntilTurn-- <= 0 || view.stuck) {
+         this.direction = {
+            x: Math.floor(this.random.next() * 3) - 1,
+            y: Math.floor(this.random.next() * 3) - 1,
+         };
+         this.ticksUntilTurn = 25 + Math.floor(this.random.next() * 75);
+      }
+
+      return this.direction;
+   }
+}
+
+/**
+ * Keeps the nearest enemy at the edge of full damage range, backing off when it gets closer, closing in
+ * when it gets away and circling it in between, and shoots it all the while. Wanders without enemies around.
+ */
+export class KiteBehavior extends WanderBehavior {
+   public readonly type: BotBehaviorType = BotBehaviorType.KITE;
+
+   private circleDirection = 1;
+
+   public decide(view: BotView): BotIntent {
+      const target = findNearestEnemy(view);
+      if (!target || target.distance > view.maxRange * 2) {
+         return super.decide(view);
+      }
+
+      if (view.stuck) {
+         this.circleDirection = -this.circleDirection;
+      }
+
+      const away = {
+         x: (view.position.x - target.position.x) / (target.distance || 1),
+         y: (view.position.y - target.position.y) / (target.distance || 1),
+      };
+
+      let move: { x: number; y: number };
+      if (target.distance < view.fullDamageRange * 0.6) {
+         move = away;
+      } else if (target.distance > view.fullDamageRange) {
+         move = { x: -away.x, y: -away.y };
+      } else {
+         move = { x: -away.y * this.circleDirection, y: away.x * this.circleDirection };
+      }
+
+      return {
+         move: { x: Math.round(move.x), y: Math.round(move.y) },
+         aimAt: target.position,
+         shoot: target.distance <= view.maxRange,
+      };
+   }
+}
+
+/**
+ * Stands still and shoots whatever enemy is nearest, like a turret
+ */
+export class ShootNearestBehavior implements IBotBehavior {
+   public readonly type: BotBehaviorType = BotBehaviorType.SHOOT_NEAREST;
+
+   public decide(view: BotView): BotIntent {
+      const target = findNearestEnemy(view);
+      if (!target || target.distance > view.maxRange) {
+         return { move: STAND_STILL, aimAt: null, shoot: false };
+      }
+
+      return { move: STAND_STILL, aimAt: target.position, shoot: true };
+   }
+}
+
+export function createBotBehavior(type: BotBehaviorType, random: SeededRandom): IBotBehavior {
+   switch (type) {
+      case BotBehaviorType.WANDER:
+         return new WanderBehavior(random);
+      case BotBehaviorType.KITE:
+         return new KiteBehavior(random);
+      case BotBehaviorType.SHOOT_NEAREST:
+         return new ShootNearestBehavior();
+   }
+}
+
+function findNearestEnemy(view: BotView): { position: Position; distance: number } | null {
+   let nearest: { position: Position; distance: number } | null = null;
+
+   for (const position of view.enemies.values()) {
+      const distance = MathUtil.distance(view.position, position);
+      if (!nearest || distance < nearest.distance) {
+         nearest = { position, distance };
+      }
+   }
+
+   return nearest;
+}
@@ -0,0 +1,86 @@
+// server/src/bots/BotChunkColliders.ts
+import type * as RAPIER from '@dimforge/rapier2d-compat';
+import { MapChunk } from 'shared/game/map-system/MapChunk';
+import { MapLayer, SerializedMapChunk } from 'shared/game/map-system/MapTypes';
+import { MapPhysicsElement } from 'shared/game/map-system/MapPhysicsElement';
+import { ChunkVisibilityUtils } from 'shared/game/map-system/util/ChunkVisibilityUtils';
+import { gameSettings } from 'shared/game/SystemSettings';
+import { calculateUnloadDistanceInChunks } from 'shared/util/Utils';
+import { Position } from 'shared/game/Position';
+
+/**
+ * Walls of the chunks the server streamed to a headless client, so its predicted movement collides like the
+ * server's does. Nothing is rendered, chunks far behind the player are dropped like the browser client does.
+ */
+export class BotChunkColliders {
+   private chunks: Map<string, MapPhysicsElement[]> = new Map();
+   private tileSize: number = 32;
+
+   constructor(
+      private readonly world: RAPIER.World,
+      private readonly rapier: typeof RAPIER,
+   ) {}
+
+   public setTileSize(tileSize: number): void {
+      this.tileSize = tileSize;
+   }
+
+   public getTileSize(): number {
+      return this.tileSize;
+   }
+
+   public addChunks(chunkDataArray: SerializedMapChunk[] | SerializedMapChunk): void {
+      const chunksArray = Array.isArray(chunkDataArray) ? chunkDataArray : [chunkDataArray];
+
+      for (const chunkData of chunksArray) {
+         const chunkKey = MapChunk.getChunkKey(chunkData.chunkX, chunkData.chunkY);
+         if (this.chunks.has(chunkKey)) continue;
+
+         const chunk = MapChunk.deserialize(chunkData, this.tileSize);
+         const walls: MapPhysicsElement[] = [];
+
+         for (const row of chunk.getAllTiles()) {
+            for (const tile of row) {
+               if (!tile || tile.walkable) continue;
+
+               const wall = new MapPhysicsElement(
+                  this.world,
+                  this.rapier,
+                  tile.tileType,
+                  tile.position,
+                  MapLayer.Walls,
+                  this.tileSize,
+               );
+               wall.spawn(tile.position, 0);
+               walls.push(wall);
+            }
+         }
+
+         this.chunks.set(chunkKey, walls);
+      }
+   }
+
+   /**
+    * Drop the walls of chunks beyond the unload distance from the player
+    */
+   public unloadDistantChunks(playerPosition: Position): void {
+      const chunkPixels = gameSettings.chunkSize * this.tileSize;
+      const center = {
+         x: Math.floor(playerPosition.x / chunkPixels),
+         y: Math.floor(playerPosition.y / chunkPixels),
+      };
+      const unloadDistance = calculateUnloadDistanceInChunks(this.tileSize);
+
+      for (const [chunkKey, walls] of this.chunks) {
+         const [x, y] = chunkKey.split(',').map(Number);
+         if (ChunkVisibilityUtils.isChunkInView({ x, y }, center, unloadDistance)) continue;
+
+         walls.forEach((wall) => wall.despawn());
+         this.chunks.delete(chunkKey);
+      }
+   }
+
+   public getLoadedChunkCount(): number {
+      return this.chunks.size;
+   }
+}
@@ -0,0 +1,36 @@
+// server/src/bots/BotGun.ts
+import { Gun } from 'shared/game/shooting/Gun';
+import { Position } from 'shared/game/Position';
+import { ShootResult } from 'shared/game/network/messages/ShootingParams';
+import { GunStateSync } from 'shared/game/network/messages/ReloadMessages';
+
+/**
+ * Gun of a headless client. It runs the same fire rate, ammo and reload rules as the browser's gun, the shot
+ * itself is only checked and applied by the server.
+ */
+export class BotGun extends Gun {
+   /**
+    * Fire from the muzzle in the given direction
+    * @returns What to send to the server, or null if the gun can't fire on this tick
+    */
+   public fire(currentTick: number, angle: number): ShootResult | null {
+      const muzzleDistance = this.positionOffset.x + this.width;
+      const origin: Position = {
+         x: this.player.position.x + Math.cos(angle) * muzzleDistance,
+         y: this.player.position.y + Math.sin(angle) * muzzleDistance,
+      };
+
+      return this.shoot(currentTick, origin, angle);
+   }
+
+   /**
+    * Take over the server's ammo count, unless it is from before the latest shot fired here
+    */
+   public syncFromServer(state: GunStateSync): void {
+      if (state.lastShotTick < this.lastShotTick) return;
+      this.currentAmmo = state.currentAmmo;
+   }
+
+   // Nothing to draw
+   protected onShoot(): void {}
+}
@@ -0,0 +1,110 @@
+// server/src/bots/BotNetworkHandler.ts
+import { OnClientMessage } from 'shared/game/network/NetworkMessageDecorators';
+import { ClientBound } from 'shared/game/network/SocketEvents';
+import { SerializedMapChunk } from 'shared/game/map-system/MapTypes';
+import { MapInfoData } from 'shared/game/network/messages/client-bound/MapInfoData';
+import { GameStartData } from 'shared/game/network/messages/client-bound/GameStartData';
+import { PlayerDataToSend } from 'shared/game/network/messages/client-bound/PlayerDataToSend';
+import { PlayerSnapshotData } from 'shared/game/network/messages/client-bound/PlayerMovementState';
+import { GunStateSnapshotData } from 'shared/game/network/messages/ReloadMessages';
+import {
+   EnemyDeathData,
+   EnemyDeltaUpdateData,
+   EnemyDespawnData,
+   EnemySpawnData,
+} from 'shared/game/network/messages/EnemyNetworkEvents';
+import {
+   PlayerDiedData,
+   PlayerDownedData,
+   PlayerRespawnData,
+   PlayerRevivedData,
+} from 'shared/game/network/messages/client-bound/PlayerLifecycleData';
+import { PlayerLifeState } from 'shared/game/PlayerTypes';
+import { HeadlessClient } from './HeadlessClient';
+
+/**
+ * The messages a headless client needs to move, aim and shoot like a player. Effects, scores and other players
+ * are left out, nobody is looking.
+ */
+export class BotNetworkHandler {
+   private game: HeadlessClient;
+
+   constructor(game: HeadlessClient) {
+      this.game = game;
+   }
+
+   @OnClientMessage(ClientBound.MapInfo)
+   handleMapInfo(data: MapInfoData): void {
+      this.game.handleMapInfo(data.metadata.tileWidth);
+   }
+
+   @OnClientMessage(ClientBound.UpdateChunks)
+   handleChunkUpdates(chunkDataArray: SerializedMapChunk[] | SerializedMapChunk): void {
+      this.game.handleChunks(chunkDataArray);
+   }
+
+   @OnClientMessage(ClientBound.PlayerJoin)
+   handlePlayerJoin(data: { players: PlayerDataToSend[] }): void {
+      this.game.handlePlayerJoin(data.players);
+   }
+
+   @OnClientMessage(ClientBound.StartGame)
+   handleStartGame(data: GameStartData): void {
+      this.game.handleStartGame(data.scheduledStartTime);
+   }
+
+   @OnClientMessage(ClientBound.StopGame)
+   handleStopGame(): void {
+      this.game.handleStopGame();
+   }
+
+   @OnClientMessage(ClientBound.UpdateAllPlayers)
+   handleUpdateAllPlayers(data: PlayerSnapshotData): void {
+      this.game.handlePlayerSnapshot(data);
+   }
+
+   @OnClientMessage(ClientBound.GunStateSync)
+   handleGunStateSync(data: GunStateSnapshotData): void {
+      this.game.handleGunStates(data);
+   }
+
+   @OnClientMessage(ClientBound.EnemySpawn)
+   handleEnemySpawn(data: EnemySpawnData): void {
+      this.game.handleEnemySpawn(data);
+   }
+
+   @OnClientMessage(ClientBound.EnemyUpdate)
+   handleEnemyUpdate(data: EnemyDeltaUpdateData): void {
+      this.game.handleEnemyUpdate(data);
+   }
+
+   @OnClientMessage(ClientBound.EnemyDespawn)
+   handleEnemyDespawn(data: EnemyDespawnData): void {
+      this.game.handleEnemiesGone(data.enemyIds);
+   }
+
+   @OnClientMessage(ClientBound.EnemyDeath)
+   handleEnemyDeath(data: EnemyDeathData): void {
+      this.game.handleEnemiesGone([data.enemyId]);
+   }
+
+   @OnClientMessage(ClientBound.PlayerDowned)
+   handlePlayerDowned(data: PlayerDownedData): void {
+      this.game.handleLifeState(data.username, PlayerLifeState.DOWNED, data.position);
+   }
+
+   @OnClientMessage(ClientBound.PlayerRevived)
+   handlePlayerRevived(data: PlayerRevivedData): void {
+      this.game.handleLifeState(data.username, PlayerLifeState.ALIVE);
+   }
+
+   @OnClientMessage(ClientBound.PlayerDied)
+   handlePlayerDied(data: PlayerDiedData): void {
+      this.game.handleLifeState(data.username, PlayerLifeState.DEAD, data.position);
+   }
+
+   @OnClientMessage(ClientBound.PlayerRespawn)
+   handlePlayerRespawn(data: PlayerRespawnData): void {
+      this.game.handleLifeState(data.username, PlayerLifeState.ALIVE, data.position);
+   }
+}
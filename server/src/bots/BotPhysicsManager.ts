@@ -0,0 +1,25 @@
+// server/src/bots/BotPhysicsManager.ts
+import { BasePhysicsManager } from 'shared/game/BasePhysicsManager';
+import type { HeadlessClient } from './HeadlessClient';
+
+/**
+ * Physics manager of a headless client. Ticks like the browser client's: act on the latest state, step the
+ * predicted world, then remember where the player ended up to compare with the server later.
+ */
+export class BotPhysicsManager extends BasePhysicsManager {
+   constructor(private readonly client: HeadlessClient) {
+      super();
+   }
+
+   public async init(): Promise<void> {
+      await this.initPhysics();
+   }
+
+   public update(): void {
+      if (!this.world) return;
+
+      this.client.act();
+      this.step();
+      this.client.trackMovement();
+   }
+}
@@ -0,0 +1,43 @@
+// server/src/bots/BotPlayer.ts
+import type * as RAPIER from '@dimforge/rapier2d-compat';
+import { Player } from 'shared/game/Player';
+import { PlayerData } from 'shared/game/PlayerData';
+import { PlayerTypeEnum } from 'shared/game/PlayerTypes';
+import { GunType } from 'shared/game/shooting/GunTypes';
+import { Position } from 'shared/game/Position';
+import { BotGun } from './BotGun';
+import type { HeadlessClient } from './HeadlessClient';
+
+/**
+ * The player a headless client controls. It is predicted with the shared movement controller like the
+ * browser's local player, everything else about it is taken from the server.
+ */
+export class BotPlayer extends Player {
+   constructor(
+      game: HeadlessClient,
+      world: RAPIER.World,
+      RAPIER: typeof import('@dimforge/rapier2d-compat'),
+      type: PlayerTypeEnum,
+      playerData: PlayerData,
+      gunSeed: string,
+   ) {
+      super(game, world, RAPIER, type, playerData, gunSeed);
+
+      this.type.guns.forEach((gunConfig) => {
+         this.setGun(gunConfig.type, gunConfig.positionOffset);
+      });
+   }
+
+   setGun(gunType: GunType, positionOffset: Position): void {
+      this._gun = new BotGun(this.game, this.world, this.rapier, this, gunType, positionOffset);
+   }
+
+   public getBotGun(): BotGun | null {
+      return this._gun as BotGun | null;
+   }
+
+   // Damage over time and knockbacks are applied by the server and arrive as health and position updates
+   public takeStatusDamage(): void {}
+
+   public applyKnockback(): void {}
+}
@@ -0,0 +1,402 @@
+// server/src/bots/HeadlessClient.ts
+import { BaseGame } from 'shared/game/BaseGame';
+import { EntityManager } from 'shared/game/EntityManager';
+import { BaseSocketTransport } from 'shared/game/network/BaseSocketTransport';
+import { ServerBound } from 'shared/game/network/SocketEvents';
+import { SnapshotReceiver } from 'shared/game/network/SnapshotReceiver';
+import { SnapshotBuffer } from 'shared/game/network/SnapshotBuffer';
+import { SnapshotStream } from 'shared/game/network/messages/client-bound/SnapshotData';
+import { PlayerDataToSend } from 'shared/game/network/messages/client-bound/PlayerDataToSend';
+import { PlayerMovementState, PlayerSnapshotData } from 'shared/game/network/messages/client-bound/PlayerMovementState';
+import { GunStateSnapshotData, GunStateSync } from 'shared/game/network/messages/ReloadMessages';
+import { EnemyDeltaUpdateData, EnemySpawnData } from 'shared/game/network/messages/EnemyNetworkEvents';
+import { PlayerMoveRequest } from 'shared/game/network/messages/server-bound/PlayerMoveRequest';
+import { ShootRequest } from 'shared/game/network/messages/ShootingParams';
+import { EnemySnapshotBuffer } from 'shared/game/enemies/EnemySnapshotBuffer';
+import { MovementState } from 'shared/game/network/messages/server-bound/MovementState';
+import { SerializedMapChunk } from 'shared/game/map-system/MapTypes';
+import { CharacterMovementController } from 'shared/game/movement/CharacterMovementController';
+import { PlayerLifeState, PlayerTypeEnum } from 'shared/game/PlayerTypes';
+import { PlayerData } from 'shared/game/PlayerData';
+import { Position } from 'shared/game/Position';
+import { InputType } from 'shared/game/Controls';
+import { MathUtil } from 'shared/util/MathUtil';
+import { SeededRandom } from 'shared/util/SeededRandom';
+import { BotPhysicsManager } from './BotPhysicsManager';
+import { BotPlayer } from './BotPlayer';
+import { BotChunkColliders } from './BotChunkColliders';
+import { BotNetworkHandler } from './BotNetworkHandler';
+import { BotBehaviorType, BotIntent, BotView, createBotBehavior, IBotBehavior } from './BotBehaviors';
+
+export interface HeadlessClientOptions {
+   username: string;
+
+   /** One of the built-in behaviors, or a scripted one that decides every tick's input itself */
+   behavior: BotBehaviorType | IBotBehavior;
+
+   /** Class to ask for before joining, the server's pick if not given */
+   playerType?: PlayerTypeEnum;
+
+   /** Seed of the bot's random decisions, a new one is picked if not given */
+   seed?: number;
+}
+
+/**
+ * How far the client's predicted position was from the server's for the same tick
+ */
+export interface DesyncStats {
+   samples: number;
+   averageError: number;
+   maxError: number;
+
+   /** Errors beyond the reconciliation threshold, the client snapped back to the server's position */
+   corrections: number;
+}
+
+/**
+ * A player without a browser: joins a game over any client transport, predicts its own movement with the
+ * shared movement controller and gun, and acts on a scripted behavior instead of keyboard and mouse.
+ * Used to put many simulated players on a server at once.
+ */
+export class HeadlessClient extends BaseGame {
+   // Same threshold as the browser client's reconciliation
+   private static readonly RECONCILIATION_THRESHOLD = 30;
+   private static readonly PREDICTION_HISTORY_TICKS = 120;
+   private static readonly AIM_UPDATE_INTERVAL_TICKS = 2;
+
+   private readonly username: string;
+   private readonly playerType?: PlayerTypeEnum;
+   private readonly behavior: IBotBehavior;
+   private readonly entityManager = new EntityManager();
+   private readonly snapshotReceiver: SnapshotReceiver;
+   private readonly enemySnapshots = new EnemySnapshotBuffer();
+   private readonly playerSnapshots = new SnapshotBuffer<PlayerMovementState>((state) => state.username);
+   private readonly gunSnapshots = new SnapshotBuffer<GunStateSync>((state) => state.gunId);
+
+   private physicsManager!: BotPhysicsManager;
+   private colliders!: BotChunkColliders;
+   private player: BotPlayer | null = null;
+   private enemies: Map<string, Position> = new Map();
+
+   // Position after each predicted tick, compared with the server's position for that tick
+   private predictions: Map<number, Position> = new Map();
+   private desync = { samples: 0, errorSum: 0, maxError: 0, corrections: 0 };
+
+   private lastPosition: Position | null = null;
+   private wantedToMove = false;
+   private lastAimTick = -Infinity;
+   private startTimeout: NodeJS.Timeout | null = null;
+
+   constructor(
+      private readonly transport: BaseSocketTransport,
+      options: HeadlessClientOptions,
+   ) {
+      super();
+      this.username = options.username;
+      this.playerType = options.playerType;
+      this.behavior =
+         typeof options.behavior === 'string'
+            ? createBotBehavior(options.behavior, new SeededRandom(options.seed ?? SeededRandom.createSeed()))
+            : options.behavior;
+      this.snapshotReceiver = new SnapshotReceiver(transport);
+   }
+
+   public async init(): Promise<void> {
+      this.physicsManager = new BotPhysicsManager(this);
+      await this.physicsManager.init();
+      this.colliders = new BotChunkColliders(this.physicsManager.getWorld(), this.physicsManager.getRapier());
+
+      this.initNetworkMessageSystem();
+      this.networkMessageManager.registerHandler(new BotNetworkHandler(this));
+      this.networkMessageManager.connectToTransport(this.transport);
+   }
+
+   /**
+    * Ask the server to join, the transport has to be connected already
+    */
+   public join(): void {
+      // The server keeps the choice if it arrives before the connect message is handled
+      if (this.playerType) {
+         this.transport.broadcast(ServerBound.SelectClass, { playerType: this.playerType });
+      }
+
+      this.transport.broadcast(ServerBound.PlayerConnect, {
+         userInfo: new PlayerData(this.username, this.username, this.username),
+      });
+   }
+
+   public dispose(): void {
+      if (this.startTimeout) {
+         clearTimeout(this.startTimeout);
+         this.startTimeout = null;
+      }
+
+      this.transport.disconnect();
+      this.physicsManager?.destroy();
+   }
+
+   public isClient(): boolean {
+      return true;
+   }
+
+   public getEntityManager(): EntityManager {
+      return this.entityManager;
+   }
+
+   public getPhysicsManager(): BotPhysicsManager {
+      return this.physicsManager;
+   }
+
+   public getTileSize(): number {
+      return this.colliders?.getTileSize() ?? 32;
+   }
+
+   public getUsername(): string {
+      return this.username;
+   }
+
+   /**
+    * Chunks the server streamed that are close enough to the player to be kept
+    */
+   public getLoadedChunkCount(): number {
+      return this.colliders.getLoadedChunkCount();
+   }
+
+   public getPlayer(): BotPlayer | null {
+      return this.player;
+   }
+
+   public getDesyncStats(): DesyncStats {
+      return {
+         samples: this.desync.samples,
+         averageError: this.desync.samples > 0 ? this.desync.errorSum / this.desync.samples : 0,
+         maxError: this.desync.maxError,
+         corrections: this.desync.corrections,
+      };
+   }
+
+   /**
+    * Decide and apply this tick's input, called by the physics manager before the world steps
+    */
+   public act(): void {
+      const player = this.player;
+      if (!player || !player.isAlive()) return;
+
+      const tick = this.physicsManager.getGameTick();
+      const intent = this.behavior.decide(this.getView(player));
+
+      this.move(player, intent, tick);
+      this.aimAndShoot(player, intent, tick);
+   }
+
+   /**
+    * Remember where the player ended up on this tick, called by the physics manager after the world steps
+    */
+   public trackMovement(): void {
+      if (!this.player) return;
+
+      const tick = this.physicsManager.getGameTick();
+      this.predictions.set(tick, { ...this.player.position });
+      this.predictions.delete(tick - HeadlessClient.PREDICTION_HISTORY_TICKS);
+   }
+
+   public handleMapInfo(tileSize: number): void {
+      this.colliders.setTileSize(tileSize);
+   }
+
+   public handleChunks(chunks: SerializedMapChunk[] | SerializedMapChunk): void {
+      this.colliders.addChunks(chunks);
+   }
+
+   /**
+    * Build the bot's own player from the join data, again if its class changed. Other players only matter
+    * to the server.
+    */
+   public handlePlayerJoin(players: PlayerDataToSend[]): void {
+      const data = players.find((player) => player.playerData.username === this.username);
+      if (!data) return;
+
+      if (this.player && this.player.type.id === data.playerType) {
+         this.player.setPosition(data.position);
+         return;
+      }
+
+      if (this.player) {
+         (this.player.movementController as CharacterMovementController).cleanup();
+         this.player.despawn();
+      }
+
+      const player = new BotPlayer(
+         this,
+         this.physicsManager.getWorld(),
+         this.physicsManager.getRapier(),
+         data.playerType,
+         data.playerData,
+         data.gunSeed,
+      );
+      player.spawn(data.position, 0);
+      this.player = player;
+      this.predictions.clear();
+   }
+
+   public handleStartGame(scheduledStartTime: number): void {
+      const timeUntilStart = Math.max(0, scheduledStartTime - this.physicsManager.getCurrentTime());
+
+      if (this.startTimeout) clearTimeout(this.startTimeout);
+      this.startTimeout = setTimeout(() => {
+         this.startTimeout = null;
+         this.physicsManager.start();
+      }, timeUntilStart);
+   }
+
+   public handleStopGame(): void {
+      this.physicsManager.stop();
+      this.enemies.clear();
+   }
+
+   /**
+    * Compare the server's position of the player with the one predicted for the same tick and snap to the
+    * server's when they are too far apart
+    */
+   public handlePlayerSnapshot(data: PlayerSnapshotData): void {
+      if (!this.snapshotReceiver.isNewer(SnapshotStream.Players, data.tick)) return;
+
+      const changes = this.playerSnapshots.apply(data, data.players);
+      if (!changes) return;
+
+      this.snapshotReceiver.acknowledge(SnapshotStream.Players, data.tick);
+
+      const state = changes.changed.find((update) => update.username === this.username);
+      const player = this.player;
+      if (!state || !player) return;
+
+      const predicted = this.predictions.get(state.predictionTick);
+      if (!predicted) return;
+
+      for (const tick of this.predictions.keys()) {
+         if (tick < state.predictionTick) this.predictions.delete(tick);
+      }
+
+      const error = MathUtil.distance(state.position, predicted);
+      this.desync.samples++;
+      this.desync.errorSum += error;
+      this.desync.maxError = Math.max(this.desync.maxError, error);
+
+      if (error > HeadlessClient.RECONCILIATION_THRESHOLD) {
+         this.desync.corrections++;
+         player.setPosition(state.position);
+         player.setVelocity(state.velocity);
+      }
+   }
+
+   public handleGunStates(data: GunStateSnapshotData): void {
+      if (!this.snapshotReceiver.isNewer(SnapshotStream.Guns, data.tick)) return;
+
+      const changes = this.gunSnapshots.apply(data, data.guns);
+      if (!changes) return;
+
+      const gun = this.player?.getBotGun();
+      const state = changes.changed.find((gunState) => gunState.username === this.username);
+      if (gun && state && state.gunId === gun.id) {
+         gun.syncFromServer(state);
+      }
+
+      this.snapshotReceiver.acknowledge(SnapshotStream.Guns, data.tick);
+   }
+
+   public handleEnemySpawn(data: EnemySpawnData): void {
+      data.enemies.forEach((enemy) => this.enemies.set(enemy.id, enemy.position));
+   }
+
+   public handleEnemyUpdate(data: EnemyDeltaUpdateData): void {
+      if (!this.snapshotReceiver.isNewer(SnapshotStream.Enemies, data.tick)) return;
+
+      const changes = this.enemySnapshots.apply(data);
+      if (!changes) return;
+
+      data.removedIds.forEach((enemyId) => this.enemies.delete(enemyId));
+      for (const change of changes) {
+         if (change.position) this.enemies.set(change.id, change.position);
+      }
+
+      this.snapshotReceiver.acknowledge(SnapshotStream.Enemies, data.tick);
+   }
+
+   public handleEnemiesGone(enemyIds: string[]): void {
+      enemyIds.forEach((enemyId) => this.enemies.delete(enemyId));
+   }
+
+   public handleLifeState(username: string, lifeState: PlayerLifeState, position?: Position): void {
+      if (username !== this.username || !this.player) return;
+
+      this.player.setLifeState(lifeState);
+      if (position) {
+         this.player.setVelocity({ x: 0, y: 0 });
+         this.player.setPosition(position);
+      }
+   }
+
+   private getView(player: BotPlayer): BotView {
+      const position = player.position;
+      const moved = this.lastPosition ? MathUtil.distance(position, this.lastPosition) : 0;
+      const damageRanges = player.getGun()!.getGunConfig().damageRanges;
+
+      this.lastPosition = { ...position };
+
+      return {
+         position,
+         enemies: this.enemies,
+         fullDamageRange: damageRanges.fullDamage,
+         maxRange: damageRanges.maxRange,
+         stuck: this.wantedToMove && moved < 0.5,
+      };
+   }
+
+   /**
+    * Predict the movement locally and send it, like the browser client does for held movement keys
+    */
+   private move(player: BotPlayer, intent: BotIntent, tick: number): void {
+      const input: MovementState = {
+         [InputType.UP]: intent.move.y < 0,
+         [InputType.DOWN]: intent.move.y > 0,
+         [InputType.LEFT]: intent.move.x < 0,
+         [InputType.RIGHT]: intent.move.x > 0,
+      };
+
+      this.wantedToMove = intent.move.x !== 0 || intent.move.y !== 0;
+      if (!this.wantedToMove) return;
+
+      const moveRequest: PlayerMoveRequest = {
+         timestamp: this.physicsManager.getCurrentTickTime(),
+         clientGameTick: tick,
+         input,
+      };
+
+      player.move([moveRequest]);
+      this.transport.broadcast(ServerBound.PlayerMove, [moveRequest]);
+   }
+
+   private aimAndShoot(player: BotPlayer, intent: BotIntent, tick: number): void {
+      if (!intent.aimAt) return;
+
+      if (tick - this.lastAimTick >= HeadlessClient.AIM_UPDATE_INTERVAL_TICKS) {
+         this.transport.broadcast(ServerBound.PlayerAim, { username: this.username, aimPosition: intent.aimAt });
+         this.lastAimTick = tick;
+      }
+
+      const gun = player.getBotGun();
+      if (!intent.shoot || !gun || !gun.canShoot(tick)) return;
+
+      const angle = Math.atan2(intent.aimAt.y - player.position.y, intent.aimAt.x - player.position.x);
+      const result = gun.fire(tick, angle);
+      if (!result) return;
+
+      const shootRequest: ShootRequest = {
+         username: this.username,
+         shootTick: tick,
+         shots: [{ gunId: result.gunId, origin: result.origin, angle: result.angle }],
+      };
+
+      this.transport.broadcast(ServerBound.PlayerShoot, shootRequest);
+   }
+}
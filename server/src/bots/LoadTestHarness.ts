@@ -0,0 +1,176 @@
+// server/src/bots/LoadTestHarness.ts
+import { BackendGame } from '../BackendGame';
+import { LoopbackServerTransport } from '../network/LoopbackServerTransport';
+import { LoopbackClientTransport } from '../network/LoopbackClientTransport';
+import { TaskPriority } from 'shared/util/TaskScheduler';
+import { PlayerTypeEnum } from 'shared/game/PlayerTypes';
+import { SeededRandom } from 'shared/util/SeededRandom';
+import { gameSettings } from 'shared/game/SystemSettings';
+import { DesyncStats, HeadlessClient } from './HeadlessClient';
+import { BotBehaviorType } from './BotBehaviors';
+
+export interface LoadTestOptions {
+   bots: number;
+   durationSeconds: number;
+
+   /** Behaviors handed out to the bots in turn, all of them if not given */
+   behaviors?: BotBehaviorType[];
+
+   /** Seed of the generated map, a new one is picked if not given */
+   mapSeed?: string;
+
+   /** Seed of the server's and the bots' random decisions, a new one is picked if not given */
+   seed?: number;
+}
+
+/**
+ * Spread of a value sampled once per server tick, in milliseconds
+ */
+export interface TimingStats {
+   average: number;
+   p95: number;
+   max: number;
+}
+
+export interface BotReport {
+   username: string;
+   behavior: BotBehaviorType;
+   bytesSentPerSecond: number;
+   bytesReceivedPerSecond: number;
+   messagesSentPerSecond: number;
+   messagesReceivedPerSecond: number;
+   desync: DesyncStats;
+}
+
+export interface LoadTestReport {
+   bots: number;
+   durationSeconds: number;
+   serverTicks: number;
+   tickDuration: TimingStats;
+   physicsStepTime: TimingStats;
+
+   /** Lowest ticks per second the server reported while the test ran */
+   minTps: number;
+   botReports: BotReport[];
+
+   /** Desync of all bots together, weighted by the samples each bot took */
+   desync: DesyncStats;
+}
+
+/**
+ * Puts a number of headless clients on one game in this process, connected over loopback transports, and
+ * reports how the server kept up. The bots run in the same process as the server, so tick times include
+ * the time the bots leave the server to run in.
+ */
+export class LoadTestHarness {
+   constructor(private readonly options: LoadTestOptions) {}
+
+   public async run(): Promise<LoadTestReport> {
+      const { bots, durationSeconds } = this.options;
+      const behaviors = this.options.behaviors ?? Object.values(BotBehaviorType);
+      const playerTypes = Object.values(PlayerTypeEnum);
+      const random = new SeededRandom(this.options.seed ?? SeededRandom.createSeed());
+
+      const serverTransport = new LoopbackServerTransport();
+      const game = new BackendGame('loadtest', {
+         minPlayers: bots,
+         maxPlayers: bots,
+         mapSeed: this.options.mapSeed,
+         randomSeed: Math.floor(random.next() * 2 ** 32),
+         transport: serverTransport,
+      });
+
+      const clients: { client: HeadlessClient; transport: LoopbackClientTransport; behavior: BotBehaviorType }[] = [];
+
+      try {
+         await game.init();
+
+         const tickDurations: number[] = [];
+         const physicsStepTimes: number[] = [];
+         let minTps = Infinity;
+
+         // The first TPS windows after the game starts only count part of a second
+         const tpsWarmupTicks = Math.ceil(2000 / gameSettings.gameUpdateIntervalMillis);
+
+         const physicsManager = game.getPhysicsManager();
+         physicsManager.scheduleRepeatingTask(
+            () => {
+               const metrics = physicsManager.getServerMetrics();
+               tickDurations.push(metrics.tickDuration);
+               physicsStepTimes.push(metrics.physicsStepTime);
+               if (tickDurations.length > tpsWarmupTicks) minTps = Math.min(minTps, metrics.tps);
+            },
+            1,
+            0,
+            TaskPriority.LOW,
+         );
+
+         for (let i = 0; i < bots; i++) {
+            const username = `bot-${i + 1}`;
+            const behavior = behaviors[i % behaviors.length];
+            const transport = new LoopbackClientTransport(serverTransport);
+            const client = new HeadlessClient(transport, {
+               username,
+               behavior,
+               playerType: playerTypes[i % playerTypes.length],
+               seed: Math.floor(random.next() * 2 ** 32),
+            });
+
+            await client.init();
+            await transport.connect({ username });
+            client.join();
+            clients.push({ client, transport, behavior });
+         }
+
+         const startTick = physicsManager.getGameTick();
+         await new Promise((resolve) => setTimeout(resolve, durationSeconds * 1000));
+
+         return {
+            bots,
+            durationSeconds,
+            serverTicks: physicsManager.getGameTick() - startTick,
+            tickDuration: this.getTimingStats(tickDurations),
+            physicsStepTime: this.getTimingStats(physicsStepTimes),
+            minTps: Number.isFinite(minTps) ? minTps : 0,
+            botReports: clients.map(({ client, transport, behavior }) => {
+               const traffic = transport.getTraffic();
+               return {
+                  username: client.getUsername(),
+                  behavior,
+                  bytesSentPerSecond: traffic.bytesSent / durationSeconds,
+                  bytesReceivedPerSecond: traffic.bytesReceived / durationSeconds,
+                  messagesSentPerSecond: traffic.messagesSent / durationSeconds,
+                  messagesReceivedPerSecond: traffic.messagesReceived / durationSeconds,
+                  desync: client.getDesyncStats(),
+               };
+            }),
+            desync: this.combineDesync(clients.map(({ client }) => client.getDesyncStats())),
+         };
+      } finally {
+         clients.forEach(({ client }) => client.dispose());
+         game.dispose();
+      }
+   }
+
+   private getTimingStats(samples: number[]): TimingStats {
+      if (samples.length === 0) return { average: 0, p95: 0, max: 0 };
+
+      const sorted = [...samples].sort((a, b) => a - b);
+      return {
+         average: sorted.reduce((sum, sample) => sum + sample, 0) / sorted.length,
+         p95: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+         max: sorted[sorted.length - 1],
+      };
+   }
+
+   private combineDesync(stats: DesyncStats[]): DesyncStats {
+      const samples = stats.reduce((sum, stat) => sum + stat.samples, 0);
+      return {
+         samples,
+         averageError:
+            samples > 0 ? stats.reduce((sum, stat) => sum + stat.averageError * stat.samples, 0) / samples : 0,
+         maxError: Math.max(0, ...stats.map((stat) => stat.maxError)),
+         corrections: stats.reduce((sum, stat) => sum + stat.corrections, 0),
+      };
+   }
+}
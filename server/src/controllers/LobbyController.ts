@@ -0,0 +1,63 @@
+// server/src/controllers/LobbyController.ts
+import { Request, Response, Router } from 'express';
+import { GameManager } from '../GameManager';
+import { authenticateLobbyRequest, authenticateServiceRequest } from '../middleware/AuthMiddleware';
+
+/**
+ * REST endpoints for listing, creating and joining game lobbies
+ */
+export function createLobbyController(gameManager: GameManager): Router {
+   const router = Router();
+
+   // List all running games
+   router.get('/games', (req: Request, res: Response) => {
+      return res.json({ games: gameManager.listGames() });
+   });
+
+   // Create a new empty game. Each takes up ports, so only signed in players and matchmaking may
+   router.post('/games', authenticateLobbyRequest, async (req: Request, res: Response) => {
+      try {
+         const game = await gameManager.createGame();
+         return res.status(201).json({ game: gameManager.getGameInfo(game.gameId) });
+      } catch (error) {
+         return res.status(503).json({ message: error instanceof Error ? error.message : 'No game slot available' });
+      }
+   });
+
+   // Join the fullest game that still accepts players, creating one if needed
+   router.post('/games/quick-join', authenticateLobbyRequest, async (req: Request, res: Response) => {
+      try {
+         const game = await gameManager.findOrCreateJoinableGame();
+         return res.json({ game: gameManager.getGameInfo(game.gameId) });
+      } catch (error) {
+         return res.status(503).json({ message: error instanceof Error ? error.message : 'No game slot available' });
+      }
+   });
+
+   // Look up a single game, e.g. when joining through an invite link
+   router.get('/games/:gameId', (req: Request<{ gameId: string }>, res: Response) => {
+      const info = gameManager.getGameInfo(req.params.gameId);
+      if (!info) {
+         return res.status(404).json({ message: 'Game not found' });
+      }
+
+      return res.json({ game: info });
+   });
+
+   // Give back a game matchmaking created but no longer needs, e.g. because the players left the queue
+   router.delete('/games/:gameId', authenticateServiceRequest, (req: Request<{ gameId: string }>, res: Response) => {
+      const game = gameManager.getGame(req.params.gameId);
+      if (!game) {
+         return res.status(404).json({ message: 'Game not found' });
+      }
+
+      if (game.getPlayerManager().getPlayers().size > 0) {
+         return res.status(409).json({ message: 'Game already has players' });
+      }
+
+      gameManager.disposeGame(game.gameId);
+      return res.status(204).send();
+   });
+
+   return router;
+}
@@ -1,28 +1,83 @@
 import { EnemyNetworkData } from 'shared/game/enemies/EnemyInterfaces';
 import { BaseEnemy } from 'shared/game/enemies/BaseEnemy';
+import { NO_BASELINE_TICK } from 'shared/game/network/messages/client-bound/SnapshotData';
+import { ClientBaselines, SnapshotStates } from '../snapshots/ClientBaselines';
+
+export interface EnemyDelta {
+   baselineTick: number;
+   enemies: Partial<EnemyNetworkData>[];
+   removedIds: string[];
+}
 
 export class EnemyDeltaManager {
-   private previousStates: Map<string, Partial<EnemyNetworkData>> = new Map();
+   private baselines: ClientBaselines<Partial<EnemyNetworkData>> = new ClientBaselines();
 
    /**
-    * Get delta updates for all enemies that have changed
+    * Get delta updates for all enemies that changed since the client's acknowledged baseline
+    * @returns null if the client already got every enemy's state
     */
-   public getDeltaUpdates(enemies: BaseEnemy[]): Partial<EnemyNetworkData>[] {
+   public getDeltaUpdate(username: string, enemies: BaseEnemy[], tick: number): EnemyDelta | null {
+      const baseline = this.baselines.getBaseline(username);
+      const previousStates = baseline?.states ?? new Map<string, Partial<EnemyNetworkData>>();
+
       const deltaUpdates: Partial<EnemyNetworkData>[] = [];
+      const clientStates: SnapshotStates<Partial<EnemyNetworkData>> = new Map();
 
       for (const enemy of enemies) {
          const currentState = this.createEnemyState(enemy);
-         const previousState = this.previousStates.get(enemy.id);
+         const previousState = previousStates.get(enemy.id);
 
          const delta = this.calculateDelta(currentState, previousState);
 
          if (Object.keys(delta).length > 1) {
             deltaUpdates.push(delta);
-            this.previousStates.set(enemy.id, { ...currentState });
          }
+
+         // Changes below the thresholds are not sent, so the client keeps the baseline value for them
+         clientStates.set(enemy.id, { ...previousState, ...delta });
+      }
+
+      const removedIds = Array.from(previousStates.keys()).filter((enemyId) => !clientStates.has(enemyId));
+
+      if (
+         deltaUpdates.length === 0 &&
+         removedIds.length === 0 &&
+         !this.baselines.differsFromLatestSent(username, clientStates, (previous, current) =>
+            this.isSameState(previous, current),
+         )
+      ) {
+         return null;
       }
 
-      return deltaUpdates;
+      this.baselines.record(username, tick, clientStates);
+
+      return {
+         baselineTick: baseline?.tick ?? NO_BASELINE_TICK,
+         enemies: deltaUpdates,
+         removedIds,
+      };
+   }
+
+   public acknowledge(username: string, tick: number): void {
+      this.baselines.acknowledge(username, tick);
+   }
+
+   public removeClient(username: string): void {
+      this.baselines.removeClient(username);
+   }
+
+   /**
+    * Force full update for an enemy on every client (useful for important state changes)
+    */
+   public forceFullUpdate(enemy: BaseEnemy): void {
+      this.baselines.forgetEntity(enemy.id);
+   }
+
+   /**
+    * Forget every client's baseline, used when the game is reset
+    */
+   public reset(): void {
+      this.baselines.clear();
    }
 
    /**
@@ -76,6 +131,10 @@ export class EnemyDeltaManager {
       return delta;
    }
 
+   private isSameState(previous: Partial<EnemyNetworkData>, current: Partial<EnemyNetworkData>): boolean {
+      return Object.keys(this.calculateDelta(current, previous)).length === 1;
+   }
+
    /**
     * Check if position has meaningfully changed
     */
@@ -85,25 +144,4 @@ export class EnemyDeltaManager {
       const threshold = 0.1; // Only send updates if moved more than 0.1 pixels
       return Math.abs(current.x - previous.x) > threshold || Math.abs(current.y - previous.y) > threshold;
    }
-
-   /**
-    * Clean up when enemy is removed
-    */
-   public onEnemyRemoved(enemyId: string): void {
-      this.previousStates.delete(enemyId);
-   }
-
-   /**
-    * Force full update for an enemy (useful for important state changes)
-    */
-   public forceFullUpdate(enemy: BaseEnemy): void {
-      this.previousStates.delete(enemy.id);
-   }
-
-   /**
-    * Get current tracking state size (for monitoring)
-    */
-   public getTrackingStateCount(): number {
-      return this.previousStates.size;
-   }
 }
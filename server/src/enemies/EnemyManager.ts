@@ -4,13 +4,14 @@ import type * as RAPIER from '@dimforge/rapier2d-compat';
 import { BaseEnemy } from 'shared/game/enemies/BaseEnemy';
 import { EnemyFactory } from 'shared/game/enemies/ConcreteEnemies';
 import { EnemySpawnConfig, EnemyType } from 'shared/game/enemies/EnemyInterfaces';
+import { TargetType } from 'shared/game/enemies/EnemyTargetSystem';
 import { Position } from 'shared/game/Position';
 import { EntityManager } from 'shared/game/EntityManager';
 import { GameEventEmitter } from 'shared/game/events/GameEventEmitter';
 import { EnemyDeathEvent, EnemySpawnEvent } from 'shared/game/events/events/EnemyEvents';
 import { TaskPriority } from 'shared/util/TaskScheduler';
 import { ClientBound } from 'shared/game/network/SocketEvents';
-import { EnemyNetworkEventBuilder } from 'shared/game/network/messages/EnemyNetworkEvents';
+import { EnemyDespawnReason, EnemyNetworkEventBuilder } from 'shared/game/network/messages/EnemyNetworkEvents';
 import { EnemySpawner } from './EnemySpawner';
 import { BackendMapSystem } from '../map-system/BackendMapSystem';
 import { PlayerManager } from '../PlayerManager';
@@ -18,18 +19,21 @@ import { BackendGame } from '../BackendGame';
 import { PathfindingManager } from '../pathfinding/PathfindingManager';
 import { gameSettings } from 'shared/game/SystemSettings';
 import { EnemyDeltaManager } from './EnemyDeltaManager';
+import { WaveDirector } from './WaveDirector';
+import { EnemyProjectileManager } from './EnemyProjectileManager';
+import { MinionManager } from './MinionManager';
+import { StatusEffectsData } from 'shared/game/network/messages/client-bound/StatusEffectsData';
+
+export interface EnemySpawnArea {
+   center: Position;
+   radius: number;
+   allowedTypes: EnemyType[];
+}
 
 export interface EnemySpawnerConfig {
    enabled: boolean;
-   spawnInterval: number;
-   maxEnemiesPerSpawn: number;
    maxTotalEnemies: number;
-   difficultyMultiplier: number;
-   spawnAreas: Array<{
-      center: Position;
-      radius: number;
-      allowedTypes: EnemyType[];
-   }>;
+   spawnAreas: EnemySpawnArea[];
 }
 
 export class EnemyManager {
@@ -40,16 +44,20 @@ export class EnemyManager {
    private game: BackendGame;
 
    private pathfindingManager: PathfindingManager;
+   private projectileManager: EnemyProjectileManager;
+   private minionManager: MinionManager;
 
    private enemies: Map<string, BaseEnemy> = new Map();
    private enemiesByType: Map<EnemyType, Set<string>> = new Map();
 
    private spawnerConfig: EnemySpawnerConfig;
-   private lastSpawnTime: number = 0;
    private enemySpawner: EnemySpawner;
+   private waveDirector: WaveDirector;
 
    private deltaManager: EnemyDeltaManager = new EnemyDeltaManager();
 
+   private readonly enemyDeathListener = (event: EnemyDeathEvent) => this.handleEnemyDeath(event);
+
    // Performance metrics
    private metrics = {
       totalEnemiesSpawned: 0,
@@ -73,7 +81,8 @@ export class EnemyManager {
       this.serverTransport = serverTransport;
       this.game = game;
 
-      this.pathfindingManager = new PathfindingManager(world, rapier);
+      this.pathfindingManager = new PathfindingManager(world, rapier, game.getSimulation());
+      this.projectileManager = new EnemyProjectileManager(world, rapier, game, serverTransport);
 
       // Initialize enemy type tracking
       for (const enemyType of Object.values(EnemyType)) {
@@ -83,10 +92,7 @@ export class EnemyManager {
       // Default spawner configuration
       this.spawnerConfig = {
          enabled: true,
-         spawnInterval: 2, // 5 seconds
-         maxEnemiesPerSpawn: 5,
-         maxTotalEnemies: 15,
-         difficultyMultiplier: 1.0,
+         maxTotalEnemies: 20,
          spawnAreas: [
             {
                center: { x: 500, y: 500 },
@@ -96,7 +102,9 @@ export class EnemyManager {
          ],
       };
 
-      this.enemySpawner = new EnemySpawner(this.world, this.rapier, mapSystem, playerManager);
+      this.enemySpawner = new EnemySpawner(this.world, this.rapier, mapSystem, playerManager, game.getSimulation());
+      this.waveDirector = new WaveDirector(game, this, this.enemySpawner);
+      this.minionManager = new MinionManager(this, this.enemySpawner);
 
       this.registerEventListeners();
       this.initializeScheduledTasks();
@@ -154,6 +162,13 @@ export class EnemyManager {
          TaskPriority.NORMAL,
       );
 
+      gameLoop.scheduleRepeatingTask(
+         () => this.updateAllEnemyStatusEffects(),
+         gameSettings.enemyStatusEffectUpdateTicks,
+         0,
+         TaskPriority.NORMAL,
+      );
+
       gameLoop.scheduleRepeatingTask(
          () => this.handleSpawning(),
          gameSettings.enemySpawnUpdateTicks,
@@ -176,9 +191,7 @@ export class EnemyManager {
    private registerEventListeners(): void {
       const eventEmitter = GameEventEmitter.getInstance();
 
-      eventEmitter.on(EnemyDeathEvent, (event: EnemyDeathEvent) => {
-         this.handleEnemyDeath(event);
-      });
+      eventEmitter.on(EnemyDeathEvent, this.enemyDeathListener);
    }
 
    /**
@@ -248,15 +261,22 @@ export class EnemyManager {
     * Update targeting for ALL enemies in one task
     */
    private updateAllEnemyTargeting(): void {
-      // Get available entities once for all enemies
+      // Get available entities once for all enemies, downed and dead players can't be targeted
       const playersMap = this.game.getPlayerManager().getPlayers();
+      const alivePlayers = Array.from(playersMap.values()).filter((player) => player.isAlive());
+      const alivePlayerIds = new Set(alivePlayers.map((player) => player.id));
       const availableEntities = {
-         players: Array.from(playersMap.values()), // .values() extracts just the BackendPlayer objects
+         players: alivePlayers,
          structures: [],
       };
 
       // Update targeting for all enemies
       for (const enemy of this.enemies.values()) {
+         const target = enemy.getTarget();
+         if (target && target.targetType === TargetType.PLAYER && !alivePlayerIds.has(target.id)) {
+            enemy.setTarget(null);
+         }
+
          enemy.updateTargeting(availableEntities);
       }
    }
@@ -270,6 +290,30 @@ export class EnemyManager {
       }
    }
 
+   /**
+    * Tick and expire status effects for ALL enemies in one task
+    */
+   private updateAllEnemyStatusEffects(): void {
+      for (const enemy of Array.from(this.enemies.values())) {
+         enemy.updateStatusEffects();
+      }
+   }
+
+   /**
+    * Tell the clients that can see an enemy which effects are on it
+    */
+   private sendStatusEffects(enemy: BaseEnemy): void {
+      const effectsData: StatusEffectsData = {
+         targetType: 'enemy',
+         targetId: enemy.id,
+         effects: enemy.getStatusEffects().getStates(this.game.getSimulation().now()),
+      };
+
+      for (const username of this.game.getInterestManager().getEnemyViewers(enemy.id)) {
+         this.serverTransport.sendToPlayer(username, ClientBound.StatusEffects, effectsData);
+      }
+   }
+
    /**
     * Spawn a single enemy (no longer sends individual notifications)
     */
@@ -280,13 +324,23 @@ export class EnemyManager {
             return null;
          }
 
-         const enemy = EnemyFactory.createEnemy(config.enemyType, this.world, this.rapier, config.level || 1);
+         const enemy = EnemyFactory.createEnemy(
+            config.enemyType,
+            this.world,
+            this.rapier,
+            config.level || 1,
+            this.game.createEntityId(),
+         );
+         enemy.setSimulation(this.game.getSimulation());
 
          if (config.customProperties) {
             // Apply custom modifications
          }
 
          enemy.setPathfindingService(this.pathfindingManager);
+         enemy.setProjectileService(this.projectileManager);
+         enemy.setMinionSpawnService(this.minionManager);
+         enemy.getStatusEffects().setChangeListener(() => this.sendStatusEffects(enemy));
 
          this.initializeEnemySteering(enemy);
          this.setupEnemyNearbyQuery(enemy);
@@ -300,6 +354,7 @@ export class EnemyManager {
          this.metrics.totalEnemiesSpawned++;
          this.metrics.activeEnemies = this.enemies.size;
 
+         this.game.getMatchRecorder()?.recordEnemySpawn(enemy);
          GameEventEmitter.getInstance().emit(new EnemySpawnEvent(enemy, config));
 
          // console.log(`✅ Spawned ${config.enemyType} enemy at ${config.position.x}, ${config.position.y}`);
@@ -325,7 +380,8 @@ export class EnemyManager {
       }
 
       if (spawnedEnemies.length > 0) {
-         this.sendSpawnNotification(spawnedEnemies);
+         // Show the new enemies to the clients that can see them now rather than on the next network update
+         this.game.getInterestManager().updateEnemyRelevance();
       }
 
       return spawnedEnemies;
@@ -348,78 +404,51 @@ export class EnemyManager {
 
 
    /**
-    * Handle automatic spawning
+    * Handle automatic spawning, the wave director decides what spawns when
     */
    private handleSpawning(): void {
       if (!this.spawnerConfig.enabled) return;
 
-      const currentTime = Date.now();
-
-      if (currentTime - this.lastSpawnTime < this.spawnerConfig.spawnInterval) {
-         return;
-      }
-
-      const enemiesToSpawn = Math.min(
-         this.spawnerConfig.maxEnemiesPerSpawn,
-         this.spawnerConfig.maxTotalEnemies - this.enemies.size,
-      );
-
-      if (enemiesToSpawn <= 0) return;
-
-      const spawnConfigs = this.enemySpawner.generateValidatedSpawnConfigs(
-         this.spawnerConfig.spawnAreas,
-         enemiesToSpawn,
-         this.spawnerConfig.difficultyMultiplier,
-      );
-
-      if (spawnConfigs.length > 0) {
-         this.spawnEnemies(spawnConfigs);
-         this.lastSpawnTime = currentTime;
-      }
+      this.waveDirector.update(this.game.getPhysicsManager().getSimulationTime());
    }
 
    /**
-    * Send network updates to clients (delta updates)
+    * Send network updates to clients, each one a delta against what that client last acknowledged and only
+    * covering the enemies in that client's area of interest
     */
    private sendNetworkUpdates(): void {
+      const interestManager = this.game.getInterestManager();
+      interestManager.updateEnemyRelevance();
+      interestManager.updateDamageAreaRelevance();
+
       const enemies = this.getAllEnemies();
-      const deltaUpdates = this.deltaManager.getDeltaUpdates(enemies);
+      const tick = this.game.getPhysicsManager().getGameTick();
+      const timestamp = this.game.getPhysicsManager().getCurrentTime();
+
+      for (const username of this.game.getPlayerManager().getPlayers().keys()) {
+         const enemiesInView = interestManager.getEnemiesInView(username);
+         const visibleEnemies = enemies.filter((enemy) => enemiesInView.has(enemy.id));
+
+         const delta = this.deltaManager.getDeltaUpdate(username, visibleEnemies, tick);
+         if (!delta) continue;
 
-      if (deltaUpdates.length > 0) {
-         // Use the existing buildDeltaUpdateData method
          const updateData = EnemyNetworkEventBuilder.buildDeltaUpdateData(
-            deltaUpdates,
-            this.game.getPhysicsManager().getGameTick(),
-            this.game.getPhysicsManager().getCurrentTime(),
+            delta.enemies,
+            tick,
+            timestamp,
+            delta.baselineTick,
+            delta.removedIds,
          );
 
-         this.serverTransport.broadcast(ClientBound.EnemyUpdate, updateData);
-         // console.log(`📡 Sent delta updates for ${deltaUpdates.length} enemies`);
+         this.serverTransport.sendToPlayer(username, ClientBound.EnemyUpdate, updateData);
+         // console.log(`📡 Sent delta updates for ${delta.enemies.length} enemies`);
       }
    }
 
-   /**
-    * Send enemy spawn notification to clients
-    */
-   private sendSpawnNotification(enemies: BaseEnemy[]): void {
-      const spawnData = EnemyNetworkEventBuilder.buildSpawnData(
-         enemies.map((enemy) => ({
-            id: enemy.id,
-            type: enemy.enemyType,
-            level: enemy.level,
-            position: enemy.position,
-            rotation: enemy.rotationDegrees,
-         })),
-      );
-
-      this.serverTransport.broadcast(ClientBound.EnemySpawn, spawnData);
-      // console.log(`📡 Broadcasted enemy spawn to clients: ${enemies.length} enemies`);
-   }
-
    /**
     * Remove an enemy from the game
     */
-   public despawnEnemy(enemyId: string, reason: 'death' | 'cleanup' | 'out_of_bounds' = 'cleanup'): boolean {
+   public despawnEnemy(enemyId: string, reason: EnemyDespawnReason = 'cleanup'): boolean {
       const enemy = this.enemies.get(enemyId);
       if (!enemy) {
          console.warn(`Attempted to despawn non-existent enemy: ${enemyId}`);
@@ -449,9 +478,10 @@ export class EnemyManager {
 
       this.entityManager.unregisterEntity(enemyId);
 
-      this.deltaManager.onEnemyRemoved(enemyId);
+      this.waveDirector.onEnemyRemoved(enemyId);
+      this.minionManager.onEnemyRemoved(enemyId, reason);
 
-      this.sendDespawnNotification([enemyId], reason);
+      this.game.getInterestManager().removeEnemy(enemyId, reason);
       // }
 
       // Update metrics
@@ -465,20 +495,15 @@ export class EnemyManager {
       return true;
    }
 
-   /**
-    * Send enemy despawn notification to clients
-    */
-   private sendDespawnNotification(enemyIds: string[], reason: 'death' | 'cleanup' | 'out_of_bounds'): void {
-      const despawnData = EnemyNetworkEventBuilder.buildDespawnData(enemyIds, reason);
-      this.serverTransport.broadcast(ClientBound.EnemyDespawn, despawnData);
-   }
-
    /**
     * Handle enemy death
     */
    private handleEnemyDeath(event: EnemyDeathEvent): void {
       const enemy = event.enemy;
 
+      // The event emitter is shared by every game in the process, ignore enemies owned by other games
+      if (!this.enemies.has(enemy.id)) return;
+
       const deathData = EnemyNetworkEventBuilder.buildDeathData(
          enemy.id,
          enemy.position,
@@ -486,12 +511,46 @@ export class EnemyManager {
          event.killer?.id,
       );
 
-      this.serverTransport.broadcast(ClientBound.EnemyDeath, deathData);
-      console.log(`📡 Broadcasted enemy death to clients: ${enemy.id}`);
+      for (const username of this.game.getInterestManager().getEnemyViewers(enemy.id)) {
+         this.serverTransport.sendToPlayer(username, ClientBound.EnemyDeath, deathData);
+      }
+      console.log(`📡 Sent enemy death to clients: ${enemy.id}`);
 
       this.despawnEnemy(enemy.id, 'death');
    }
 
+   /**
+    * Despawn every enemy and detach from shared resources. Called when the owning game is disposed
+    */
+   public destroy(): void {
+      GameEventEmitter.getInstance().off(EnemyDeathEvent, this.enemyDeathListener);
+
+      this.despawnAllEnemies();
+
+      this.enemySpawner.destroy();
+      this.pathfindingManager.clearCache();
+      this.projectileManager.clear();
+      this.minionManager.clear();
+   }
+
+   /**
+    * Despawn every enemy and start over from wave one, used when the owning game is reset for a new run
+    */
+   public reset(): void {
+      this.despawnAllEnemies();
+
+      this.waveDirector.reset();
+      this.pathfindingManager.clearCache();
+      this.projectileManager.clear();
+      this.minionManager.clear();
+   }
+
+   private despawnAllEnemies(): void {
+      for (const enemyId of Array.from(this.enemies.keys())) {
+         this.despawnEnemy(enemyId, 'cleanup');
+      }
+   }
+
    public getEnemy(enemyId: string): BaseEnemy | undefined {
       return this.enemies.get(enemyId);
    }
@@ -507,6 +566,22 @@ export class EnemyManager {
       return this.enemies.size;
    }
 
+   public getMaxTotalEnemies(): number {
+      return this.spawnerConfig.maxTotalEnemies;
+   }
+
+   public getSpawnAreas(): EnemySpawnArea[] {
+      return this.spawnerConfig.spawnAreas;
+   }
+
+   public getDeltaManager(): EnemyDeltaManager {
+      return this.deltaManager;
+   }
+
+   public getWaveDirector(): WaveDirector {
+      return this.waveDirector;
+   }
+
    public getMetrics() {
       return { ...this.metrics };
    }
@@ -518,6 +593,14 @@ export class EnemyManager {
       return this.pathfindingManager;
    }
 
+   public getProjectileManager(): EnemyProjectileManager {
+      return this.projectileManager;
+   }
+
+   public getMinionManager(): MinionManager {
+      return this.minionManager;
+   }
+
    /**
     * Get pathfinding statistics (for monitoring)
     */
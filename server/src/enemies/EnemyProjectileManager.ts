@@ -0,0 +1,370 @@
+// server/src/enemies/EnemyProjectileManager.ts
+
+import type * as RAPIER from '@dimforge/rapier2d-compat';
+import { BaseEnemy } from 'shared/game/enemies/BaseEnemy';
+import {
+   DamageAreaOptions,
+   IProjectileService,
+   ProjectileLaunchOptions,
+} from 'shared/game/enemies/interfaces/IProjectileService';
+import { EnemyProjectileFlight, EnemyProjectileMotion } from 'shared/game/enemies/projectiles/EnemyProjectileMotion';
+import { Position } from 'shared/game/Position';
+import { CollisionCategory, CollisionGroups } from 'shared/game/CollisionSettings';
+import { ClientBound } from 'shared/game/network/SocketEvents';
+import {
+   DamageAreaSpawnData,
+   EnemyNetworkEventBuilder,
+   ProjectileDestroyData,
+   ProjectileSpawnData,
+} from 'shared/game/network/messages/EnemyNetworkEvents';
+import { GameEventEmitter } from 'shared/game/events/GameEventEmitter';
+import { DamageAreaCreatedEvent, ExplosionEvent } from 'shared/game/events/events/EnemyEvents';
+import { gameSettings } from 'shared/game/SystemSettings';
+import { TaskPriority } from 'shared/util/TaskScheduler';
+import { MathUtil } from 'shared/util/MathUtil';
+import { pixelToPhysics } from 'shared/util/Utils';
+import { BackendGame } from '../BackendGame';
+import { BackendPlayer } from '../BackendPlayer';
+import { ServerGeckosTransport } from '../network/ServerGeckosTransport';
+
+interface ActiveProjectile {
+   id: string;
+   source: BaseEnemy;
+   options: ProjectileLaunchOptions;
+   flight: EnemyProjectileFlight;
+   /** Clients that were told about the launch and have to hear how it ends */
+   viewers: Set<string>;
+}
+
+interface ActiveDamageArea {
+   id: string;
+   source: BaseEnemy;
+   position: Position;
+   options: DamageAreaOptions;
+   expiresAt: number;
+}
+
+/**
+ * Simulates the projectiles and ground hazards of ranged enemies. Projectiles fly on the server tick, collide
+ * with walls and players through shape casts and apply their damage here, clients only draw what they are sent.
+ */
+export class EnemyProjectileManager implements IProjectileService {
+   /** Collision radius of each projectile type, in pixels */
+   private static readonly PROJECTILE_RADIUS: Record<ProjectileSpawnData['projectileType'], number> = {
+      rocket: 6,
+      acid: 8,
+      energy_ball: 8,
+   };
+
+   /** Fraction of the damage a player at the edge of an explosion still takes */
+   private static readonly EXPLOSION_EDGE_DAMAGE = 0.5;
+
+   private world: RAPIER.World;
+   private rapier: typeof RAPIER;
+   private game: BackendGame;
+   private serverTransport: ServerGeckosTransport;
+
+   private projectiles: Map<string, ActiveProjectile> = new Map();
+   private damageAreas: Map<string, ActiveDamageArea> = new Map();
+
+   constructor(world: RAPIER.World, rapier: typeof RAPIER, game: BackendGame, serverTransport: ServerGeckosTransport) {
+      this.world = world;
+      this.rapier = rapier;
+      this.game = game;
+      this.serverTransport = serverTransport;
+
+      const gameLoop = this.game.getPhysicsManager();
+
+      gameLoop.scheduleRepeatingTask(() => this.updateProjectiles(), 1, 0, TaskPriority.HIGH);
+
+      gameLoop.scheduleRepeatingTask(
+         () => this.updateDamageAreas(),
+         gameSettings.damageAreaTickIntervalTicks,
+         0,
+         TaskPriority.NORMAL,
+      );
+   }
+
+   public launchProjectile(source: BaseEnemy, options: ProjectileLaunchOptions): string {
+      const projectile: ActiveProjectile = {
+         id: this.game.createEntityId(),
+         source,
+         options,
+         flight: EnemyProjectileMotion.create(
+            options.origin,
+            options.target,
+            options.speed,
+            options.homingTarget ? (options.turnRate ?? 0) : 0,
+            options.maxDistance,
+         ),
+         viewers: new Set(this.getViewers(options.origin, options.target)),
+      };
+
+      this.projectiles.set(projectile.id, projectile);
+
+      const spawnData = EnemyNetworkEventBuilder.buildProjectileData(
+         projectile.id,
+         options.origin,
+         options.target,
+         projectile.flight.velocity,
+         options.projectileType,
+         options.damage,
+         source.id,
+         projectile.flight.turnRate,
+         projectile.flight.maxDistance,
+         options.homingTarget?.username,
+      );
+
+      for (const username of projectile.viewers) {
+         this.serverTransport.sendToPlayer(username, ClientBound.ProjectileSpawn, spawnData);
+      }
+
+      return projectile.id;
+   }
+
+   public createDamageArea(source: BaseEnemy, position: Position, options: DamageAreaOptions): string {
+      const area: ActiveDamageArea = {
+         id: this.game.createEntityId(),
+         source,
+         position: { ...position },
+         options,
+         expiresAt: this.game.getPhysicsManager().getSimulationTime() + options.durationMs,
+      };
+
+      this.damageAreas.set(area.id, area);
+
+      GameEventEmitter.getInstance().emit(
+         new DamageAreaCreatedEvent(
+            area.id,
+            area.position,
+            options.radius,
+            options.damagePerSecond,
+            options.durationMs,
+            options.areaType,
+            source,
+         ),
+      );
+
+      // Show the hazard to the clients that can see it now, the ones that come by later get it from there
+      this.game.getInterestManager().updateDamageAreaRelevance();
+
+      return area.id;
+   }
+
+   /**
+    * Move every projectile one tick along its flight and set off the ones that hit something or ran out of range
+    */
+   private updateProjectiles(): void {
+      for (const projectile of Array.from(this.projectiles.values())) {
+         const from = projectile.flight.position;
+         const displacement = EnemyProjectileMotion.advance(
+            projectile.flight,
+            this.getHomingPosition(projectile),
+            gameSettings.gameDeltaUpdateSeconds,
+         );
+
+         const hit = this.castFlight(projectile, from, displacement);
+         if (hit) {
+            projectile.flight.position = hit.position;
+            this.detonate(projectile, 'impact', hit.player);
+         } else if (EnemyProjectileMotion.hasReachedRange(projectile.flight)) {
+            this.detonate(projectile, 'expired', null);
+         }
+      }
+   }
+
+   /**
+    * Homing projectiles stop steering once the player they follow is down or gone
+    */
+   private getHomingPosition(projectile: ActiveProjectile): Position | null {
+      const username = projectile.options.homingTarget?.username;
+      if (!username) return null;
+
+      const player = this.game.getPlayerManager().getPlayerByUsername(username);
+      return player?.isAlive() ? player.position : null;
+   }
+
+   /**
+    * Sweep the projectile's shape over this tick's movement, against walls and, unless it is lobbed, players
+    */
+   private castFlight(
+      projectile: ActiveProjectile,
+      from: Position,
+      displacement: { x: number; y: number },
+   ): { position: Position; player: BackendPlayer | null } | null {
+      if (displacement.x === 0 && displacement.y === 0) return null;
+
+      const radius = EnemyProjectileManager.PROJECTILE_RADIUS[projectile.options.projectileType];
+      const passesOverPlayers = projectile.options.passesOverPlayers ?? false;
+
+      const hit = this.world.castShape(
+         { x: pixelToPhysics(from.x), y: pixelToPhysics(from.y) },
+         0,
+         { x: pixelToPhysics(displacement.x), y: pixelToPhysics(displacement.y) },
+         new this.rapier.Ball(pixelToPhysics(radius)),
+         0,
+         1,
+         true,
+         undefined,
+         CollisionGroups.EnemyBullet,
+         undefined,
+         undefined,
+         (collider) => !passesOverPlayers || ((collider.collisionGroups() >>> 16) & CollisionCategory.Obstacle) !== 0,
+      );
+
+      if (!hit) return null;
+
+      const player =
+         Array.from(this.game.getPlayerManager().getPlayers().values()).find(
+            (candidate) => candidate.getColliderHandleSafe() === hit.collider.handle,
+         ) ?? null;
+
+      return {
+         position: {
+            x: from.x + displacement.x * hit.time_of_impact,
+            y: from.y + displacement.y * hit.time_of_impact,
+         },
+         player,
+      };
+   }
+
+   private detonate(
+      projectile: ActiveProjectile,
+      reason: ProjectileDestroyData['reason'],
+      directHit: BackendPlayer | null,
+   ): void {
+      this.projectiles.delete(projectile.id);
+
+      const { options, source } = projectile;
+      const position = { ...projectile.flight.position };
+
+      const destroyData = EnemyNetworkEventBuilder.buildProjectileDestroyData(projectile.id, position, reason);
+      for (const username of projectile.viewers) {
+         this.serverTransport.sendToPlayer(username, ClientBound.ProjectileDestroy, destroyData);
+      }
+
+      if (options.explosionRadius > 0) {
+         this.explode(source, position, options.explosionRadius, options.damage, projectile.viewers);
+      } else if (directHit && options.damage > 0) {
+         directHit.takeDamage(options.damage, source, 'projectile');
+      }
+
+      if (options.damageArea) {
+         this.createDamageArea(source, position, options.damageArea);
+      }
+   }
+
+   /**
+    * Damage every player in the blast, less the further they are from its center
+    */
+   private explode(
+      source: BaseEnemy,
+      position: Position,
+      radius: number,
+      damage: number,
+      projectileViewers: Set<string>,
+   ): void {
+      const affectedPlayers: BackendPlayer[] = [];
+
+      for (const player of this.game.getPlayerManager().getPlayers().values()) {
+         if (!player.isAlive()) continue;
+
+         const distance = MathUtil.distance(position, player.position);
+         if (distance > radius) continue;
+
+         const falloff = MathUtil.lerp(1, EnemyProjectileManager.EXPLOSION_EDGE_DAMAGE, distance / radius);
+         player.takeDamage(damage * falloff, source, 'explosion');
+         affectedPlayers.push(player);
+      }
+
+      GameEventEmitter.getInstance().emit(new ExplosionEvent(position, radius, damage, source, affectedPlayers));
+
+      const explosionData = EnemyNetworkEventBuilder.buildExplosionData(
+         position,
+         radius,
+         damage,
+         'rocket',
+         source.id,
+         affectedPlayers.map((player) => player.username),
+      );
+
+      const viewers = new Set([...projectileViewers, ...this.getViewers(position)]);
+      for (const username of viewers) {
+         this.serverTransport.sendToPlayer(username, ClientBound.ExplosionEffect, explosionData);
+      }
+   }
+
+   /**
+    * Remove expired hazards and hurt the players standing in the others
+    */
+   private updateDamageAreas(): void {
+      const now = this.game.getPhysicsManager().getSimulationTime();
+      const tickSeconds = gameSettings.damageAreaTickIntervalTicks * gameSettings.gameDeltaUpdateSeconds;
+
+      for (const area of Array.from(this.damageAreas.values())) {
+         if (now >= area.expiresAt) {
+            this.damageAreas.delete(area.id);
+            continue;
+         }
+
+         for (const player of this.game.getPlayerManager().getPlayers().values()) {
+            if (!player.isAlive()) continue;
+            if (MathUtil.distance(area.position, player.position) > area.options.radius) continue;
+
+            player.takeDamage(area.options.damagePerSecond * tickSeconds, area.source, 'hazard');
+
+            if (area.options.statusEffect) {
+               player.inflictStatusEffect(area.options.statusEffect, area.source);
+            }
+         }
+      }
+   }
+
+   /**
+    * Usernames of the clients whose area of interest contains any of the positions
+    */
+   private getViewers(...positions: Position[]): string[] {
+      const interestManager = this.game.getInterestManager();
+
+      return Array.from(this.game.getPlayerManager().getPlayers().keys()).filter((username) =>
+         positions.some((position) => interestManager.isInView(username, position)),
+      );
+   }
+
+   /**
+    * Spawn data of every hazard that has not expired yet, its duration being the time it has left
+    */
+   public getActiveDamageAreas(): DamageAreaSpawnData[] {
+      const now = this.game.getPhysicsManager().getSimulationTime();
+
+      return Array.from(this.damageAreas.values())
+         .filter((area) => area.expiresAt > now)
+         .map((area) =>
+            EnemyNetworkEventBuilder.buildDamageAreaData(
+               area.id,
+               area.position,
+               area.options.radius,
+               area.options.damagePerSecond,
+               area.expiresAt - now,
+               area.options.areaType,
+               area.source.id,
+            ),
+         );
+   }
+
+   public getProjectileCount(): number {
+      return this.projectiles.size;
+   }
+
+   public getDamageAreaCount(): number {
+      return this.damageAreas.size;
+   }
+
+   /**
+    * Drop every projectile and hazard, used when the owning game is reset or disposed
+    */
+   public clear(): void {
+      this.projectiles.clear();
+      this.damageAreas.clear();
+   }
+}
@@ -6,6 +6,8 @@ import { EnemySpawnConfig, EnemyType } from 'shared/game/enemies/EnemyInterfaces
 import { BackendMapSystem } from '../map-system/BackendMapSystem';
 import { PlayerManager } from '../PlayerManager';
 import { BackendPlayer } from '../BackendPlayer';
+import { SimulationContext } from 'shared/game/SimulationContext';
+import { pixelToPhysics } from 'shared/util/Utils';
 
 /**
  * Configuration for spawn validation and behavior
@@ -63,6 +65,7 @@ export class EnemySpawner {
    private rapier: typeof RAPIER;
    private mapSystem: BackendMapSystem;
    private playerManager: PlayerManager;
+   private simulation: SimulationContext;
 
    private config: SpawnValidationConfig;
 
@@ -73,19 +76,23 @@ export class EnemySpawner {
 
    // Spawned enemy positions for spacing validation
    private recentSpawnPositions: Array<{ position: Position; timestamp: number }> = [];
-   private readonly SPAWN_POSITION_CLEANUP_INTERVAL = 30000; // 30 seconds
+   private readonly SPAWN_POSITION_MAX_AGE = 30000; // 30 seconds
+
+   private readonly SUMMON_POSITION_ATTEMPTS = 8;
 
    constructor(
       world: RAPIER.World,
       rapier: typeof RAPIER,
       mapSystem: BackendMapSystem,
       playerManager: PlayerManager,
+      simulation: SimulationContext,
       config?: Partial<SpawnValidationConfig>,
    ) {
       this.world = world;
       this.rapier = rapier;
       this.mapSystem = mapSystem;
       this.playerManager = playerManager;
+      this.simulation = simulation;
 
       // Default configuration
       this.config = {
@@ -96,8 +103,6 @@ export class EnemySpawner {
          respectPlayerViewField: true,
          ...config,
       };
-
-      setInterval(() => this.cleanupOldSpawnPositions(), this.SPAWN_POSITION_CLEANUP_INTERVAL);
    }
 
    /**
@@ -144,6 +149,8 @@ export class EnemySpawner {
          return configs;
       }
 
+      this.cleanupOldSpawnPositions();
+
       // Validate spawn areas first
       const validatedAreas = this.validateSpawnAreas(spawnAreas);
       const validAreas = validatedAreas.filter((area) => area.isValid);
@@ -158,8 +165,9 @@ export class EnemySpawner {
 
          if (spawnResult.success && spawnResult.position) {
             // Select random spawn area for enemy type selection
-            const randomArea = validAreas[Math.floor(Math.random() * validAreas.length)];
-            const enemyType = randomArea.allowedTypes[Math.floor(Math.random() * randomArea.allowedTypes.length)];
+            const randomArea = validAreas[Math.floor(this.simulation.random() * validAreas.length)];
+            const enemyType =
+               randomArea.allowedTypes[Math.floor(this.simulation.random() * randomArea.allowedTypes.length)];
 
             // Determine level based on difficulty
             const level = Math.max(1, Math.floor(difficultyMultiplier));
@@ -173,7 +181,7 @@ export class EnemySpawner {
             // Track this spawn position for spacing validation
             this.recentSpawnPositions.push({
                position: spawnResult.position,
-               timestamp: Date.now(),
+               timestamp: this.simulation.now(),
             });
 
             // console.log(
@@ -233,11 +241,11 @@ export class EnemySpawner {
    private findValidSpawnPosition(validAreas: ValidatedSpawnArea[], players: BackendPlayer[]): SpawnAttemptResult {
       for (let attempt = 0; attempt < this.config.maxSpawnAttempts; attempt++) {
          // Select random spawn area
-         const area = validAreas[Math.floor(Math.random() * validAreas.length)];
+         const area = validAreas[Math.floor(this.simulation.random() * validAreas.length)];
 
          // Generate random position within area
-         const angle = Math.random() * Math.PI * 2;
-         const distance = Math.random() * area.radius;
+         const angle = this.simulation.random() * Math.PI * 2;
+         const distance = this.simulation.random() * area.radius;
          const position: Position = {
             x: area.center.x + Math.cos(angle) * distance,
             y: area.center.y + Math.sin(angle) * distance,
@@ -262,6 +270,34 @@ export class EnemySpawner {
       };
    }
 
+   /**
+    * Find a free spot for an enemy summoned next to another one, the requested position if it is free and
+    * otherwise a random one within the search radius. Summons appear in plain sight, so only the map and the
+    * colliders already there are checked
+    *
+    * @param clearance Radius around the position that has to be free of colliders
+    */
+   public findSummonPosition(position: Position, searchRadius: number, clearance: number): Position | null {
+      for (let attempt = 0; attempt < this.SUMMON_POSITION_ATTEMPTS; attempt++) {
+         let candidate = position;
+
+         if (attempt > 0) {
+            const angle = this.simulation.random() * Math.PI * 2;
+            const distance = this.simulation.random() * searchRadius;
+            candidate = {
+               x: position.x + Math.cos(angle) * distance,
+               y: position.y + Math.sin(angle) * distance,
+            };
+         }
+
+         if (this.isPositionWithinMapBounds(candidate) && this.isPositionWalkable(candidate, clearance)) {
+            return candidate;
+         }
+      }
+
+      return null;
+   }
+
    /**
     * Comprehensive validation of a spawn position
     */
@@ -326,36 +362,36 @@ export class EnemySpawner {
    /**
     * Check if position is walkable (not inside walls or solid objects)
     */
-   private isPositionWalkable(position: Position): boolean {
+   private isPositionWalkable(position: Position, clearance?: number): boolean {
       // Check with map system first
       const worldMap = this.mapSystem.getWorldMap();
       if (!worldMap.isWalkable(position.x, position.y)) {
          return false;
       }
 
-      return this.isPositionClearOfColliders(position);
+      return this.isPositionClearOfColliders(position, clearance);
    }
 
    /**
-    * Check if position is clear of physics colliders
+    * Check if a circle around the position is clear of physics colliders
     */
-   private isPositionClearOfColliders(position: Position): boolean {
-      // Create a small test shape at the position
-      const testRadius = 15; // Small radius to test for overlap
-
-      // Query for intersecting colliders
-      const point = new this.rapier.Vector2(position.x, position.y);
-      const intersections: boolean[] = [];
-
-      this.world.intersectionsWithPoint(point, (collider) => {
-         // Ignore sensor colliders (they don't block movement)
-         if (!collider.isSensor()) {
-            intersections.push(true);
-         }
-         return true;
-      });
+   private isPositionClearOfColliders(position: Position, radius: number = 15): boolean {
+      let blocked = false;
+
+      this.world.intersectionsWithShape(
+         { x: pixelToPhysics(position.x), y: pixelToPhysics(position.y) },
+         0,
+         new this.rapier.Ball(pixelToPhysics(radius)),
+         (collider) => {
+            // Ignore sensor colliders (they don't block movement)
+            if (collider.isSensor()) return true;
+
+            blocked = true;
+            return false;
+         },
+      );
 
-      return intersections.length === 0;
+      return !blocked;
    }
 
    /**
@@ -439,11 +475,11 @@ export class EnemySpawner {
    }
 
    /**
-    * Clean up old spawn positions to prevent memory buildup
+    * Forget spawn positions older than the max age, so they no longer count for spacing
     */
    private cleanupOldSpawnPositions(): void {
-      const currentTime = Date.now();
-      const cutoffTime = currentTime - this.SPAWN_POSITION_CLEANUP_INTERVAL;
+      const currentTime = this.simulation.now();
+      const cutoffTime = currentTime - this.SPAWN_POSITION_MAX_AGE;
 
       this.recentSpawnPositions = this.recentSpawnPositions.filter((spawn) => spawn.timestamp > cutoffTime);
    }
@@ -478,6 +514,13 @@ export class EnemySpawner {
       this.recentSpawnPositions = [];
    }
 
+   /**
+    * Drop all caches. Called when the owning game is disposed
+    */
+   public destroy(): void {
+      this.clearCaches();
+   }
+
    /**
     * Test if a specific position would be valid for spawning
     * Useful for debugging and testing
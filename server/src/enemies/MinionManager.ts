@@ -0,0 +1,112 @@
+// server/src/enemies/MinionManager.ts
+
+import { BaseEnemy } from 'shared/game/enemies/BaseEnemy';
+import { EnemyTemplates } from 'shared/game/enemies/EnemyTemplates';
+import {
+   IMinionSpawnService,
+   MinionOrphanBehavior,
+   MinionSpawnOptions,
+} from 'shared/game/enemies/interfaces/IMinionSpawnService';
+import { EnemyDespawnReason } from 'shared/game/network/messages/EnemyNetworkEvents';
+import { EnemyManager } from './EnemyManager';
+import { EnemySpawner } from './EnemySpawner';
+
+interface SummonerRecord {
+   minionIds: Set<string>;
+   onSummonerDeath: MinionOrphanBehavior;
+}
+
+/**
+ * Spawns the minions of summoning enemies through the enemy manager and remembers which summoner owns which
+ * minion. A summoner's cap only counts its live minions, and when it dies its minions go with it or enrage.
+ */
+export class MinionManager implements IMinionSpawnService {
+   /** How far from the requested spot a minion may be moved when that spot is blocked, in pixels */
+   private static readonly SEARCH_RADIUS = 40;
+
+   private static readonly ENRAGE_MULTIPLIER = 1.5;
+
+   private summoners: Map<string, SummonerRecord> = new Map();
+   private minionOwners: Map<string, string> = new Map();
+
+   constructor(
+      private readonly enemyManager: EnemyManager,
+      private readonly enemySpawner: EnemySpawner,
+   ) {}
+
+   public spawnMinion(summoner: BaseEnemy, options: MinionSpawnOptions): BaseEnemy | null {
+      if (!this.enemyManager.getEnemy(summoner.id)) return null;
+      if (this.getMinionCount(summoner) >= options.maxLiveMinions) return null;
+      if (this.enemyManager.getEnemyCount() >= this.enemyManager.getMaxTotalEnemies()) return null;
+
+      const dimensions = EnemyTemplates.getTemplate(options.enemyType).physics.dimensions;
+      const clearance = Math.max(dimensions.width, dimensions.height) / 2;
+
+      const position = this.enemySpawner.findSummonPosition(options.position, MinionManager.SEARCH_RADIUS, clearance);
+      if (!position) return null;
+
+      const minion = this.enemyManager.spawnEnemy({
+         enemyType: options.enemyType,
+         position,
+         level: options.level,
+      });
+      if (!minion) return null;
+
+      let record = this.summoners.get(summoner.id);
+      if (!record) {
+         record = { minionIds: new Set(), onSummonerDeath: options.onSummonerDeath };
+         this.summoners.set(summoner.id, record);
+      }
+
+      record.minionIds.add(minion.id);
+      this.minionOwners.set(minion.id, summoner.id);
+
+      return minion;
+   }
+
+   public getMinionCount(summoner: BaseEnemy): number {
+      return this.summoners.get(summoner.id)?.minionIds.size ?? 0;
+   }
+
+   public getSummonerId(minionId: string): string | undefined {
+      return this.minionOwners.get(minionId);
+   }
+
+   /**
+    * Called by the enemy manager whenever an enemy is removed. A minion frees a slot under its summoner's cap,
+    * a summoner that died takes its minions along or enrages them, depending on how they were summoned. Minions
+    * of a summoner removed for any other reason are left as ordinary enemies
+    */
+   public onEnemyRemoved(enemyId: string, reason: EnemyDespawnReason): void {
+      const summonerId = this.minionOwners.get(enemyId);
+      if (summonerId) {
+         this.minionOwners.delete(enemyId);
+         this.summoners.get(summonerId)?.minionIds.delete(enemyId);
+      }
+
+      const record = this.summoners.get(enemyId);
+      if (!record) return;
+
+      this.summoners.delete(enemyId);
+
+      for (const minionId of record.minionIds) {
+         this.minionOwners.delete(minionId);
+
+         if (reason !== 'death') continue;
+
+         if (record.onSummonerDeath === 'enrage') {
+            this.enemyManager.getEnemy(minionId)?.enrage(MinionManager.ENRAGE_MULTIPLIER);
+         } else {
+            this.enemyManager.despawnEnemy(minionId, 'summoner_died');
+         }
+      }
+   }
+
+   /**
+    * Forget every summoner and minion, used when the owning game is reset or disposed
+    */
+   public clear(): void {
+      this.summoners.clear();
+      this.minionOwners.clear();
+   }
+}
@@ -0,0 +1,324 @@
+// server/src/enemies/WaveDirector.ts
+
+import { EnemySpawnConfig, EnemyType } from 'shared/game/enemies/EnemyInterfaces';
+import { GameEventEmitter } from 'shared/game/events/GameEventEmitter';
+import { WaveClearEvent, WaveStartEvent } from 'shared/game/events/events/WaveEvents';
+import { ClientBound } from 'shared/game/network/SocketEvents';
+import { BackendGame } from '../BackendGame';
+import { EnemySpawner } from './EnemySpawner';
+import { EnemyManager } from './EnemyManager';
+import { WAVE_DEFINITIONS, WaveDefinition, waveSettings } from './waves/WaveDefinitions';
+
+export enum WavePhase {
+   /** No players yet, the first wave has not been scheduled */
+   WAITING = 'waiting',
+   /** Countdown before the next wave */
+   BREAK = 'break',
+   /** Wave is spawning or enemies of the wave are still alive */
+   ACTIVE = 'active',
+}
+
+interface WaveSpawnEntry {
+   type: EnemyType;
+   level: number;
+}
+
+interface WaveBossEntry extends WaveSpawnEntry {
+   spawnAtProgress: number;
+}
+
+/**
+ * Everything needed to run one wave, resolved from its definition when the wave is announced
+ */
+interface WavePlan {
+   waveNumber: number;
+   definition: WaveDefinition;
+   enemyLevel: number;
+   regularQueue: WaveSpawnEntry[];
+   bossQueue: WaveBossEntry[];
+   totalRegular: number;
+}
+
+/**
+ * Drives wave progression: announces a wave, runs a countdown, spawns the wave's enemies in
+ * batches and starts the next break once every enemy of the wave is gone.
+ */
+export class WaveDirector {
+   private phase: WavePhase = WavePhase.WAITING;
+   private currentWave = 0;
+   private plan: WavePlan | null = null;
+   private nextWaveAt = 0;
+   private waveStartedAt = 0;
+   private lastBatchAt = 0;
+   private spawnedRegular = 0;
+   private aliveWaveEnemies: Set<string> = new Set();
+
+   constructor(
+      private readonly game: BackendGame,
+      private readonly enemyManager: EnemyManager,
+      private readonly enemySpawner: EnemySpawner,
+   ) {}
+
+   /**
+    * Advance the director, called from the enemy spawn task
+    */
+   public update(now: number): void {
+      const playerCount = this.game.getPlayerManager().getPlayers().size;
+
+      switch (this.phase) {
+         case WavePhase.WAITING:
+            if (playerCount > 0) {
+               this.announceWave(this.currentWave + 1, now);
+            }
+            break;
+
+         case WavePhase.BREAK:
+            if (now >= this.nextWaveAt) {
+               this.startWave(now);
+            }
+            break;
+
+         case WavePhase.ACTIVE:
+            this.spawnNextBatch(now);
+
+            if (this.isWaveCleared()) {
+               this.clearWave(now);
+            }
+            break;
+      }
+   }
+
+   /**
+    * Called by the enemy manager whenever an enemy is removed, for any reason
+    */
+   public onEnemyRemoved(enemyId: string): void {
+      this.aliveWaveEnemies.delete(enemyId);
+   }
+
+   /**
+    * Back to wave one, used when a game is reset
+    */
+   public reset(): void {
+      this.phase = WavePhase.WAITING;
+      this.currentWave = 0;
+      this.plan = null;
+      this.nextWaveAt = 0;
+      this.spawnedRegular = 0;
+      this.aliveWaveEnemies.clear();
+   }
+
+   public getCurrentWave(): number {
+      return this.currentWave;
+   }
+
+   /**
+    * Highest wave that actually started, during a break the current wave is only announced
+    */
+   public getLastStartedWave(): number {
+      return this.phase === WavePhase.ACTIVE ? this.currentWave : Math.max(0, this.currentWave - 1);
+   }
+
+   public getPhase(): WavePhase {
+      return this.phase;
+   }
+
+   public getNextWaveAt(): number {
+      return this.nextWaveAt;
+   }
+
+   private announceWave(waveNumber: number, now: number): void {
+      this.plan = this.createPlan(waveNumber);
+      this.currentWave = waveNumber;
+      this.nextWaveAt = now + this.plan.definition.breakBeforeMs;
+      this.phase = WavePhase.BREAK;
+
+      this.game.getServerTransport().broadcast(ClientBound.WaveIncoming, {
+         waveNumber,
+         startsAt: this.nextWaveAt,
+         enemyCount: this.plan.totalRegular + this.plan.bossQueue.length,
+         bossTypes: this.plan.bossQueue.map((boss) => boss.type),
+      });
+
+      console.log(`🌊 Wave ${waveNumber} incoming in ${this.plan.definition.breakBeforeMs}ms`);
+   }
+
+   private startWave(now: number): void {
+      const plan = this.plan!;
+
+      this.phase = WavePhase.ACTIVE;
+      this.waveStartedAt = now;
+      this.lastBatchAt = 0;
+      this.spawnedRegular = 0;
+      this.aliveWaveEnemies.clear();
+
+      const enemyCount = plan.totalRegular + plan.bossQueue.length;
+
+      GameEventEmitter.getInstance().emit(
+         new WaveStartEvent(this.game.gameId, plan.waveNumber, enemyCount, plan.enemyLevel),
+      );
+
+      this.game.getServerTransport().broadcast(ClientBound.WaveStart, {
+         waveNumber: plan.waveNumber,
+         enemyCount,
+         enemyLevel: plan.enemyLevel,
+      });
+
+      console.log(`🌊 Wave ${plan.waveNumber} started: ${enemyCount} enemies at level ${plan.enemyLevel}`);
+   }
+
+   private clearWave(now: number): void {
+      const waveNumber = this.currentWave;
+      const durationMs = now - this.waveStartedAt;
+
+      GameEventEmitter.getInstance().emit(new WaveClearEvent(this.game.gameId, waveNumber, durationMs));
+
+      // Announce the next wave right away so the cleared message can carry its start time
+      this.announceWave(waveNumber + 1, now);
+
+      this.game.getServerTransport().broadcast(ClientBound.WaveCleared, {
+         waveNumber,
+         durationMs,
+         nextWaveAt: this.nextWaveAt,
+      });
+
+      console.log(`🌊 Wave ${waveNumber} cleared in ${Math.round(durationMs / 1000)}s`);
+   }
+
+   private isWaveCleared(): boolean {
+      const plan = this.plan!;
+      return plan.regularQueue.length === 0 && plan.bossQueue.length === 0 && this.aliveWaveEnemies.size === 0;
+   }
+
+   private spawnNextBatch(now: number): void {
+      const plan = this.plan!;
+
+      if (now - this.lastBatchAt < plan.definition.spawnIntervalMs) return;
+
+      const room = this.enemyManager.getMaxTotalEnemies() - this.enemyManager.getEnemyCount();
+      const batchSize = Math.min(plan.definition.spawnBatchSize, room);
+      if (batchSize <= 0) return;
+
+      const batch = this.takeBatch(plan, batchSize);
+      if (batch.length === 0) return;
+
+      const spawnedRegular = this.spawnBatch(batch, plan);
+      this.spawnedRegular += spawnedRegular;
+      this.lastBatchAt = now;
+   }
+
+   /**
+    * Bosses whose progress threshold is reached go first, the rest of the batch is regular enemies
+    */
+   private takeBatch(plan: WavePlan, batchSize: number): Array<WaveSpawnEntry & { boss: boolean }> {
+      const batch: Array<WaveSpawnEntry & { boss: boolean }> = [];
+      const progress = plan.totalRegular === 0 ? 1 : this.spawnedRegular / plan.totalRegular;
+
+      while (batch.length < batchSize && plan.bossQueue.length > 0) {
+         const boss = plan.bossQueue[0];
+         if (boss.spawnAtProgress > progress && plan.regularQueue.length > 0) break;
+
+         plan.bossQueue.shift();
+         batch.push({ type: boss.type, level: boss.level, boss: true });
+      }
+
+      while (batch.length < batchSize && plan.regularQueue.length > 0) {
+         batch.push({ ...plan.regularQueue.shift()!, boss: false });
+      }
+
+      return batch;
+   }
+
+   /**
+    * Spawn a batch, anything that could not be placed goes back to the front of its queue
+    * @returns number of regular enemies spawned
+    */
+   private spawnBatch(batch: Array<WaveSpawnEntry & { boss: boolean }>, plan: WavePlan): number {
+      const areas = this.enemyManager.getSpawnAreas();
+      const placed: Array<WaveSpawnEntry & { boss: boolean }> = [];
+      const unplaced: Array<WaveSpawnEntry & { boss: boolean }> = [];
+      const configs: EnemySpawnConfig[] = [];
+
+      for (const entry of batch) {
+         // The spawner picks the type from the area, so restrict every area to this entry's type
+         const [config] = this.enemySpawner.generateValidatedSpawnConfigs(
+            areas.map((area) => ({ ...area, allowedTypes: [entry.type] })),
+            1,
+            entry.level,
+         );
+
+         if (config) {
+            configs.push(config);
+            placed.push(entry);
+         } else {
+            unplaced.push(entry);
+         }
+      }
+
+      const spawned = configs.length > 0 ? this.enemyManager.spawnEnemies(configs) : [];
+      spawned.forEach((enemy) => this.aliveWaveEnemies.add(enemy.id));
+
+      // Spawning only stops early when the enemy cap is hit, so the failures are the trailing entries
+      unplaced.push(...placed.slice(spawned.length));
+      for (const entry of unplaced.reverse()) {
+         if (entry.boss) {
+            plan.bossQueue.unshift({ type: entry.type, level: entry.level, spawnAtProgress: 0 });
+         } else {
+            plan.regularQueue.unshift({ type: entry.type, level: entry.level });
+         }
+      }
+
+      return placed.slice(0, spawned.length).filter((entry) => !entry.boss).length;
+   }
+
+   private createPlan(waveNumber: number): WavePlan {
+      const definitionIndex = Math.min(waveNumber, WAVE_DEFINITIONS.length) - 1;
+      const definition = WAVE_DEFINITIONS[definitionIndex];
+
+      const enemyLevel = 1 + Math.floor((waveNumber - 1) / waveSettings.wavesPerLevel);
+      const countMultiplier = this.getCountMultiplier(waveNumber);
+
+      const regularQueue: WaveSpawnEntry[] = [];
+      for (const group of definition.enemies) {
+         const count = Math.max(1, Math.round(group.count * countMultiplier));
+         for (let i = 0; i < count; i++) {
+            regularQueue.push({ type: group.type, level: enemyLevel });
+         }
+      }
+
+      // Shuffle so the enemy types arrive mixed rather than in blocks
+      for (let i = regularQueue.length - 1; i > 0; i--) {
+         const j = Math.floor(this.game.getSimulation().random() * (i + 1));
+         [regularQueue[i], regularQueue[j]] = [regularQueue[j], regularQueue[i]];
+      }
+
+      const bossQueue = definition.bosses
+         .map((boss) => ({
+            type: boss.type,
+            level: enemyLevel + boss.levelBonus,
+            spawnAtProgress: boss.spawnAtProgress,
+         }))
+         .sort((a, b) => a.spawnAtProgress - b.spawnAtProgress);
+
+      return {
+         waveNumber,
+         definition,
+         enemyLevel,
+         regularQueue,
+         bossQueue,
+         totalRegular: regularQueue.length,
+      };
+   }
+
+   /**
+    * More players and waves past the end of the table both mean more enemies
+    */
+   private getCountMultiplier(waveNumber: number): number {
+      const playerCount = Math.max(1, this.game.getPlayerManager().getPlayers().size);
+      const playerMultiplier = 1 + (playerCount - 1) * waveSettings.countPerExtraPlayer;
+
+      const endlessWaves = Math.max(0, waveNumber - WAVE_DEFINITIONS.length);
+      const endlessMultiplier = 1 + endlessWaves * waveSettings.endlessCountGrowth;
+
+      return Math.min(playerMultiplier * endlessMultiplier, waveSettings.maxCountMultiplier);
+   }
+}
@@ -0,0 +1,149 @@
+// server/src/enemies/waves/WaveDefinitions.ts
+
+import { EnemyType } from 'shared/game/enemies/EnemyInterfaces';
+
+/**
+ * A group of regular enemies in a wave
+ */
+export interface WaveEnemyGroup {
+   type: EnemyType;
+   count: number;
+}
+
+/**
+ * A single strong enemy spawned once most of the wave is on the field
+ */
+export interface WaveBossSlot {
+   type: EnemyType;
+   /** Levels added on top of the wave's enemy level */
+   levelBonus: number;
+   /** Fraction of the regular enemies that must have spawned before the boss appears (0-1) */
+   spawnAtProgress: number;
+}
+
+export interface WaveDefinition {
+   enemies: WaveEnemyGroup[];
+   bosses: WaveBossSlot[];
+   /** Break before this wave starts, shown to players as a countdown */
+   breakBeforeMs: number;
+   /** Time between spawn batches while the wave is running */
+   spawnIntervalMs: number;
+   /** Enemies spawned per batch */
+   spawnBatchSize: number;
+}
+
+export const waveSettings = {
+   /**
+    * Waves after the last defined one repeat the last definition with this many extra enemies per wave (fraction)
+    */
+   endlessCountGrowth: 0.15,
+
+   /**
+    * Every this many waves the enemy level goes up by one, feeding EnemyTemplates.getScaledTemplate()
+    */
+   wavesPerLevel: 3,
+
+   /**
+    * Extra enemies per additional player (fraction of the base count)
+    */
+   countPerExtraPlayer: 0.5,
+
+   /**
+    * Upper bound for enemy count scaling, keeps late waves within the server's enemy budget
+    */
+   maxCountMultiplier: 4,
+};
+
+/**
+ * Wave table. Wave N uses entry N-1, later waves reuse the last entry and keep escalating.
+ */
+export const WAVE_DEFINITIONS: WaveDefinition[] = [
+   {
+      enemies: [{ type: EnemyType.DEFAULT, count: 6 }],
+      bosses: [],
+      breakBeforeMs: 10000,
+      spawnIntervalMs: 2000,
+      spawnBatchSize: 2,
+   },
+   {
+      enemies: [
+         { type: EnemyType.DEFAULT, count: 6 },
+         { type: EnemyType.SPEEDY, count: 3 },
+      ],
+      bosses: [],
+      breakBeforeMs: 8000,
+      spawnIntervalMs: 2000,
+      spawnBatchSize: 3,
+   },
+   {
+      enemies: [
+         { type: EnemyType.DEFAULT, count: 6 },
+         { type: EnemyType.SPEEDY, count: 4 },
+         { type: EnemyType.TANKY, count: 2 },
+      ],
+      bosses: [{ type: EnemyType.TANKY, levelBonus: 2, spawnAtProgress: 0.5 }],
+      breakBeforeMs: 8000,
+      spawnIntervalMs: 2000,
+      spawnBatchSize: 3,
+   },
+   {
+      enemies: [
+         { type: EnemyType.DEFAULT, count: 6 },
+         { type: EnemyType.SPEEDY, count: 4 },
+         { type: EnemyType.EXPLOSIVE, count: 3 },
+      ],
+      bosses: [],
+      breakBeforeMs: 8000,
+      spawnIntervalMs: 1500,
+      spawnBatchSize: 3,
+   },
+   {
+      enemies: [
+         { type: EnemyType.DEFAULT, count: 5 },
+         { type: EnemyType.DASHER, count: 4 },
+         { type: EnemyType.TANKY, count: 3 },
+      ],
+      bosses: [{ type: EnemyType.SUMMONER, levelBonus: 1, spawnAtProgress: 0.6 }],
+      breakBeforeMs: 10000,
+      spawnIntervalMs: 1500,
+      spawnBatchSize: 4,
+   },
+   {
+      enemies: [
+         { type: EnemyType.SPEEDY, count: 6 },
+         { type: EnemyType.EXPLOSIVE, count: 4 },
+         { type: EnemyType.ROCKET_LAUNCHER, count: 3 },
+      ],
+      bosses: [],
+      breakBeforeMs: 8000,
+      spawnIntervalMs: 1500,
+      spawnBatchSize: 4,
+   },
+   {
+      enemies: [
+         { type: EnemyType.DEFAULT, count: 6 },
+         { type: EnemyType.GHOST, count: 4 },
+         { type: EnemyType.DASHER, count: 4 },
+         { type: EnemyType.TANKY, count: 2 },
+      ],
+      bosses: [{ type: EnemyType.ROCKET_LAUNCHER, levelBonus: 2, spawnAtProgress: 0.5 }],
+      breakBeforeMs: 10000,
+      spawnIntervalMs: 1500,
+      spawnBatchSize: 4,
+   },
+   {
+      enemies: [
+         { type: EnemyType.SPEEDY, count: 6 },
+         { type: EnemyType.EXPLOSIVE, count: 4 },
+         { type: EnemyType.GHOST, count: 4 },
+         { type: EnemyType.SUMMONER, count: 2 },
+      ],
+      bosses: [
+         { type: EnemyType.TANKY, levelBonus: 3, spawnAtProgress: 0.4 },
+         { type: EnemyType.TANKY, levelBonus: 3, spawnAtProgress: 0.8 },
+      ],
+      breakBeforeMs: 12000,
+      spawnIntervalMs: 1200,
+      spawnBatchSize: 5,
+   },
+];
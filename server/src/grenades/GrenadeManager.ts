@@ -0,0 +1,280 @@
+// server/src/grenades/GrenadeManager.ts
+
+import type * as RAPIER from '@dimforge/rapier2d-compat';
+import { GrenadeFlight, GrenadeMotion, GrenadeWallCast } from 'shared/game/grenades/GrenadeMotion';
+import { PlayerGrenadeConfig } from 'shared/game/PlayerTypes';
+import { Position } from 'shared/game/Position';
+import { CollisionCategory, CollisionGroups } from 'shared/game/CollisionSettings';
+import { ClientBound } from 'shared/game/network/SocketEvents';
+import {
+   GrenadeChargesData,
+   GrenadeExplodedData,
+   GrenadeThrownData,
+} from 'shared/game/network/messages/GrenadeMessages';
+import { DamageService } from 'shared/game/shooting/DamageService';
+import { gameSettings } from 'shared/game/SystemSettings';
+import { TaskPriority } from 'shared/util/TaskScheduler';
+import { MathUtil } from 'shared/util/MathUtil';
+import { pixelToPhysics } from 'shared/util/Utils';
+import { BackendGame } from '../BackendGame';
+import { BackendPlayer } from '../BackendPlayer';
+import { ServerGeckosTransport } from '../network/ServerGeckosTransport';
+
+interface GrenadeInventory {
+   charges: number;
+   /** Simulation time the next charge comes back, null while full */
+   nextChargeAt: number | null;
+}
+
+interface ActiveGrenade {
+   id: string;
+   thrower: string;
+   config: PlayerGrenadeConfig;
+   flight: GrenadeFlight;
+   explodesAt: number;
+   /** Clients that saw the throw and have to see it go off */
+   viewers: Set<string>;
+}
+
+/**
+ * Grenades thrown by players. Each class carries a few charges that come back over time, thrown grenades
+ * arc, bounce and roll on the server tick until their fuse runs out, and the blast damages the enemies it
+ * can reach without a wall in between. Clients fly the same arc and only draw what they are sent.
+ */
+export class GrenadeManager {
+   private world: RAPIER.World;
+   private rapier: typeof RAPIER;
+   private game: BackendGame;
+   private serverTransport: ServerGeckosTransport;
+   private castWalls: GrenadeWallCast;
+
+   private inventories: Map<string, GrenadeInventory> = new Map();
+   private grenades: Map<string, ActiveGrenade> = new Map();
+
+   constructor(world: RAPIER.World, rapier: typeof RAPIER, game: BackendGame, serverTransport: ServerGeckosTransport) {
+      this.world = world;
+      this.rapier = rapier;
+      this.game = game;
+      this.serverTransport = serverTransport;
+      this.castWalls = GrenadeMotion.createWallCaster(world, rapier);
+
+      this.game.getPhysicsManager().scheduleRepeatingTask(() => this.update(), 1, 0, TaskPriority.HIGH);
+   }
+
+   /**
+    * Throw one of the player's grenades towards the target if they have a charge left
+    * @returns Id of the thrown grenade, null if the player can't throw right now
+    */
+   public throwGrenade(player: BackendPlayer, target: Position): string | null {
+      if (!player.isAlive() || !Number.isFinite(target.x) || !Number.isFinite(target.y)) return null;
+
+      const config = player.type.grenade;
+      const inventory = this.getInventory(player);
+      if (inventory.charges <= 0) return null;
+
+      const now = this.game.getSimulation().now();
+      inventory.charges--;
+      if (inventory.nextChargeAt === null) {
+         inventory.nextChargeAt = now + config.rechargeMs;
+      }
+      this.sendCharges(player.username, inventory, config);
+
+      const origin = { ...player.position };
+      const grenade: ActiveGrenade = {
+         id: this.game.createEntityId(),
+         thrower: player.username,
+         config,
+         flight: GrenadeMotion.create(origin, target, config.maxThrowDistance),
+         explodesAt: now + config.fuseMs,
+         viewers: new Set([player.username, ...this.getViewers(origin, target)]),
+      };
+
+      this.grenades.set(grenade.id, grenade);
+
+      const thrownData: GrenadeThrownData = {
+         grenadeId: grenade.id,
+         username: player.username,
+         origin,
+         target: { x: target.x, y: target.y },
+         maxThrowDistance: config.maxThrowDistance,
+         fuseMs: config.fuseMs,
+         radius: config.radius,
+      };
+
+      for (const username of grenade.viewers) {
+         this.serverTransport.sendToPlayer(username, ClientBound.GrenadeThrown, thrownData);
+      }
+
+      return grenade.id;
+   }
+
+   /**
+    * Bring charges back, move every grenade one tick and set off the ones whose fuse ran out
+    */
+   private update(): void {
+      const now = this.game.getSimulation().now();
+
+      for (const [username, inventory] of this.inventories) {
+         this.recharge(username, inventory, now);
+      }
+
+      for (const grenade of Array.from(this.grenades.values())) {
+         GrenadeMotion.step(grenade.flight, gameSettings.gameDeltaUpdateSeconds, this.castWalls);
+
+         if (now >= grenade.explodesAt) {
+            this.explode(grenade);
+         }
+      }
+   }
+
+   private recharge(username: string, inventory: GrenadeInventory, now: number): void {
+      if (inventory.nextChargeAt === null || now < inventory.nextChargeAt) return;
+
+      const player = this.game.getPlayerManager().getPlayerByUsername(username);
+      if (!player) return;
+
+      const config = player.type.grenade;
+      inventory.charges = Math.min(config.maxCharges, inventory.charges + 1);
+      inventory.nextChargeAt =
+         inventory.charges < config.maxCharges ? inventory.nextChargeAt + config.rechargeMs : null;
+
+      this.sendCharges(username, inventory, config);
+   }
+
+   /**
+    * Damage every enemy in the blast that has no wall between it and the grenade
+    */
+   private explode(grenade: ActiveGrenade): void {
+      this.grenades.delete(grenade.id);
+
+      const { config } = grenade;
+      const position = { ...grenade.flight.position };
+      const hitEnemyIds: string[] = [];
+      const thrower = this.game.getPlayerManager().getPlayerByUsername(grenade.thrower);
+
+      for (const enemy of this.game.getEnemyManager().getNearbyEnemies(position, config.radius)) {
+         if (enemy.health <= 0 || !this.hasLineOfSight(position, enemy.position)) continue;
+
+         const damage = DamageService.applyExplosionDamage(
+            enemy,
+            config.damage,
+            MathUtil.distance(position, enemy.position),
+            config.radius,
+            config.edgeDamage,
+            config.penetration,
+            'grenade',
+            thrower,
+         );
+
+         if (damage > 0) {
+            hitEnemyIds.push(enemy.id);
+         }
+      }
+
+      const explodedData: GrenadeExplodedData = {
+         grenadeId: grenade.id,
+         position,
+         radius: config.radius,
+         hitEnemyIds,
+      };
+
+      const viewers = new Set([...grenade.viewers, ...this.getViewers(position)]);
+      for (const username of viewers) {
+         this.serverTransport.sendToPlayer(username, ClientBound.GrenadeExploded, explodedData);
+      }
+   }
+
+   /**
+    * Whether a ray from the blast reaches the position without crossing a wall
+    */
+   private hasLineOfSight(from: Position, to: Position): boolean {
+      const distance = MathUtil.distance(from, to);
+      if (distance === 0) return true;
+
+      const ray = new this.rapier.Ray(
+         { x: pixelToPhysics(from.x), y: pixelToPhysics(from.y) },
+         { x: (to.x - from.x) / distance, y: (to.y - from.y) / distance },
+      );
+
+      const hit = this.world.castRay(
+         ray,
+         pixelToPhysics(distance),
+         true,
+         undefined,
+         CollisionGroups.Bullet,
+         undefined,
+         undefined,
+         (collider) => ((collider.collisionGroups() >>> 16) & CollisionCategory.Obstacle) !== 0,
+      );
+
+      return hit === null;
+   }
+
+   /**
+    * Inventory of the player, full for a player who has not thrown yet. Charges above what the player's
+    * current class carries are dropped, in case they switched classes
+    */
+   private getInventory(player: BackendPlayer): GrenadeInventory {
+      const maxCharges = player.type.grenade.maxCharges;
+      let inventory = this.inventories.get(player.username);
+
+      if (!inventory) {
+         inventory = { charges: maxCharges, nextChargeAt: null };
+         this.inventories.set(player.username, inventory);
+      }
+
+      inventory.charges = Math.min(inventory.charges, maxCharges);
+      return inventory;
+   }
+
+   private sendCharges(username: string, inventory: GrenadeInventory, config: PlayerGrenadeConfig): void {
+      const chargesData: GrenadeChargesData = {
+         charges: inventory.charges,
+         maxCharges: config.maxCharges,
+         nextChargeAt: inventory.nextChargeAt,
+      };
+
+      this.serverTransport.sendToPlayer(username, ClientBound.GrenadeCharges, chargesData);
+   }
+
+   /**
+    * Usernames of the clients whose area of interest contains any of the positions
+    */
+   private getViewers(...positions: Position[]): string[] {
+      const interestManager = this.game.getInterestManager();
+
+      return Array.from(this.game.getPlayerManager().getPlayers().keys()).filter((username) =>
+         positions.some((position) => interestManager.isInView(username, position)),
+      );
+   }
+
+   /**
+    * Fill every player's inventory and tell them about it, called when a run begins
+    */
+   public startRun(): void {
+      this.inventories.clear();
+
+      for (const player of this.game.getPlayerManager().getPlayers().values()) {
+         this.sendCharges(player.username, this.getInventory(player), player.type.grenade);
+      }
+   }
+
+   public getGrenadeCount(): number {
+      return this.grenades.size;
+   }
+
+   /**
+    * Forget the inventory of a player who left, grenades they already threw still go off
+    */
+   public removePlayer(username: string): void {
+      this.inventories.delete(username);
+   }
+
+   /**
+    * Drop every grenade in flight and refill every inventory, used when the game is reset for a new run
+    */
+   public reset(): void {
+      this.grenades.clear();
+      this.inventories.clear();
+   }
+}
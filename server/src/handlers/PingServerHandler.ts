@@ -12,14 +12,25 @@ export class PingServerHandler {
 
    @OnServerMessage(ServerBound.PingRequest)
    handlePingRequest(data: PingRequestData & { username: string }): void {
-      // Echo back the ping with server timestamp
+      if (data.averageRtt !== undefined) {
+         this.game
+            .getLagCompensation()
+            .updateClientLatency(data.username, data.averageRtt, data.interpolationDelay ?? 0);
+      }
+
+      // Echo back the ping with the server clock, and the tick it is on so the client can keep ahead of it
+      const physicsManager = this.game.getPhysicsManager();
       const response: PingResponseData = {
          clientTimestamp: data.clientTimestamp,
-         serverTimestamp: performance.now(),
+         serverTimestamp: physicsManager.getCurrentTime(),
          requestId: data.requestId,
       };
+      if (physicsManager.isRunning()) {
+         response.serverTick = physicsManager.getGameTick();
+         response.serverTickTime = physicsManager.getCurrentTickTime();
+      }
 
       // Send response back to the specific player using the username from the enriched data
       this.game.getServerTransport().sendToPlayer(data.username, ClientBound.PingResponse, response);
    }
-}
\ No newline at end of file
+}
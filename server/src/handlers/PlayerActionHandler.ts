@@ -7,6 +7,7 @@ import { PlayerAimData } from 'shared/game/network/messages/server-bound/PlayerA
 import { gameSettings } from 'shared/game/SystemSettings';
 import { ReloadRequest } from '../../../shared/src/game/network/messages/ReloadMessages';
 import { BackendPlayer } from '../BackendPlayer';
+import { ThrowGrenadeRequest } from 'shared/game/network/messages/GrenadeMessages';
 
 export class PlayerActionHandler {
    private game: BackendGame;
@@ -20,7 +21,7 @@ export class PlayerActionHandler {
       const username = data.username;
 
       const player = this.game.getPlayerManager().getPlayerByUsername(username);
-      if (!player) return;
+      if (!player || !player.isAlive()) return;
 
       const numericKeys = Object.keys(data).filter((key) => !isNaN(Number(key)));
       if (numericKeys.length === 0) return; // No movement data found
@@ -48,7 +49,7 @@ export class PlayerActionHandler {
    @OnServerMessage(ServerBound.PlayerShoot)
    handlePlayerShoot(data: any): void {
       const player = this.game.getPlayerManager().getPlayerByUsername(data.username);
-      if (!player) return;
+      if (!player || !player.isAlive()) return;
 
       const shootRequest = data as ShootRequest;
       if (!shootRequest) {
@@ -76,7 +77,9 @@ export class PlayerActionHandler {
          })),
       };
 
-      this.game.getServerTransport().broadcast(ClientBound.PlayerShoot, serverShootEventData);
+      for (const viewer of this.game.getInterestManager().getPlayerViewers(player.username)) {
+         this.game.getServerTransport().sendToPlayer(viewer, ClientBound.PlayerShoot, serverShootEventData);
+      }
    }
 
    @OnServerMessage(ServerBound.PlayerAim)
@@ -102,7 +105,11 @@ export class PlayerActionHandler {
          return;
       }
 
-      this.game.getServerTransport().broadcastExcept(data.username, ClientBound.PlayerAim, data);
+      for (const viewer of this.game.getInterestManager().getPlayerViewers(data.username)) {
+         if (viewer !== data.username) {
+            this.game.getServerTransport().sendToPlayer(viewer, ClientBound.PlayerAim, data);
+         }
+      }
    }
 
    @OnServerMessage(ServerBound.PlayerReload)
@@ -113,6 +120,8 @@ export class PlayerActionHandler {
          return;
       }
 
+      if (!player.isAlive()) return;
+
       const currentTick = this.game.getPhysicsManager().getGameTick();
 
       const success = player.manualReload(currentTick);
@@ -120,4 +129,20 @@ export class PlayerActionHandler {
          console.warn(`Failed to reload gun for player ${data.username}`);
       }
    }
+
+   @OnServerMessage(ServerBound.ThrowGrenade)
+   handleThrowGrenade(data: ThrowGrenadeRequest): void {
+      if (!data || !data.target) {
+         console.warn('Invalid grenade throw format');
+         return;
+      }
+
+      // Charges recharge on the game clock, which only runs once the run started
+      if (!this.game.isGameStarted()) return;
+
+      const player = this.game.getPlayerManager().getPlayerByUsername(data.username);
+      if (!player || !player.isAlive()) return;
+
+      this.game.getGrenadeManager().throwGrenade(player, data.target);
+   }
 }
@@ -2,6 +2,7 @@
 import { OnServerMessage } from 'shared/game/network/NetworkMessageDecorators';
 import { ClientBound, ServerBound } from 'shared/game/network/SocketEvents';
 import { BackendGame } from '../BackendGame';
+import { ClassSelectionRejection } from 'shared/game/network/messages/client-bound/ClassSelectionData';
 
 export class PlayerConnectionHandler {
    private game: BackendGame;
@@ -24,9 +25,44 @@ export class PlayerConnectionHandler {
       }
 
       console.log(`Player ${userData.username} (ID: ${userData.id}) connected to game ${this.game.gameId}`);
+      const requestedClass = this.game.getPlayerManager().getClassPreference(userData.username);
       const player = this.game.getPlayerManager().addPlayer(data.userInfo);
       if (player) {
          this.handlePlayerJoin(player);
+
+         // The class was picked before joining, let the player know if the team had no room left for it
+         if (requestedClass) {
+            const accepted = player.type.id === requestedClass;
+            this.game.getServerTransport().sendToPlayer(player.username, ClientBound.ClassSelection, {
+               requested: requestedClass,
+               playerType: player.type.id,
+               accepted,
+               reason: accepted ? undefined : ClassSelectionRejection.ClassFull,
+            });
+         }
+      }
+   }
+
+   @OnServerMessage(ServerBound.SelectClass)
+   handleSelectClass(data: any): void {
+      const username = data.username;
+      if (!username) return;
+
+      const previousType = this.game.getPlayerManager().getPlayerByUsername(username)?.type.id;
+      const result = this.game.getPlayerManager().selectClass(username, data.playerType);
+      if (!result) return;
+
+      this.game.getServerTransport().sendToPlayer(username, ClientBound.ClassSelection, result);
+
+      if (result.accepted && result.playerType !== previousType) {
+         const player = this.game.getPlayerManager().getPlayerByUsername(username)!;
+
+         // Everyone, the player included, rebuilds the character from the updated join data
+         this.game.getServerTransport().broadcast(ClientBound.PlayerJoin, {
+            players: [this.game.getPlayerManager().getPlayerData(player)],
+            seed: this.game.getMapSeed(),
+            gameRunning: this.game.isGameStarted(),
+         });
       }
    }
 
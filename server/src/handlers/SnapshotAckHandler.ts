@@ -0,0 +1,19 @@
+import { BackendGame } from '../BackendGame';
+import { OnServerMessage } from 'shared/game/network/NetworkMessageDecorators';
+import { ServerBound } from 'shared/game/network/SocketEvents';
+import { SnapshotAck } from 'shared/game/network/messages/server-bound/SnapshotAck';
+
+export class SnapshotAckHandler {
+   private game: BackendGame;
+
+   constructor(game: BackendGame) {
+      this.game = game;
+   }
+
+   @OnServerMessage(ServerBound.SnapshotAck)
+   handleSnapshotAck(data: SnapshotAck & { username: string }): void {
+      if (!data.username || !this.game.getPlayerManager().getPlayerByUsername(data.username)) return;
+
+      this.game.getSnapshotManager().acknowledge(data.username, data);
+   }
+}
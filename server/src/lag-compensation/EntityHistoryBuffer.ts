@@ -0,0 +1,60 @@
+// server/src/lag-compensation/EntityHistoryBuffer.ts
+
+import type * as RAPIER from '@dimforge/rapier2d-compat';
+import { MathUtil } from 'shared/util/MathUtil';
+
+/**
+ * Where an entity's collider was at the end of a tick, in physics units
+ */
+export interface ColliderPose {
+   position: RAPIER.Vector;
+   rotation: number;
+}
+
+/**
+ * Collider poses of the tracked entities over the last few server ticks, keyed by tick
+ */
+export class EntityHistoryBuffer {
+   // Ticks only ever increase, so insertion order is also oldest to newest
+   private snapshots: Map<number, Map<string, ColliderPose>> = new Map();
+
+   constructor(private readonly capacityTicks: number) {}
+
+   public record(tick: number, poses: Map<string, ColliderPose>): void {
+      this.snapshots.set(tick, poses);
+
+      while (this.snapshots.size > this.capacityTicks) {
+         const oldestTick = this.snapshots.keys().next().value as number;
+         this.snapshots.delete(oldestTick);
+      }
+   }
+
+   /**
+    * Pose at a possibly fractional tick, blended between the recorded ticks on either side of it.
+    * Falls back to whichever side exists if the entity spawned or was dropped in between.
+    * @returns null if the entity was recorded at neither tick
+    */
+   public getPoseAt(entityId: string, tick: number): ColliderPose | null {
+      const before = this.snapshots.get(Math.floor(tick))?.get(entityId);
+      const after = this.snapshots.get(Math.ceil(tick))?.get(entityId);
+
+      if (!before || !after) return before ?? after ?? null;
+
+      const alpha = tick - Math.floor(tick);
+      return {
+         position: {
+            x: MathUtil.lerp(before.position.x, after.position.x, alpha),
+            y: MathUtil.lerp(before.position.y, after.position.y, alpha),
+         },
+         rotation: before.rotation + MathUtil.shortestAngleBetween(before.rotation, after.rotation) * alpha,
+      };
+   }
+
+   public getOldestTick(): number | null {
+      return this.snapshots.size > 0 ? (this.snapshots.keys().next().value as number) : null;
+   }
+
+   public clear(): void {
+      this.snapshots.clear();
+   }
+}
@@ -0,0 +1,151 @@
+// server/src/lag-compensation/LagCompensationManager.ts
+
+import type * as RAPIER from '@dimforge/rapier2d-compat';
+import { Entity } from 'shared/game/Entity';
+import { gameSettings } from 'shared/game/SystemSettings';
+import { MathUtil } from 'shared/util/MathUtil';
+import { BackendGame } from '../BackendGame';
+import { BackendPlayer } from '../BackendPlayer';
+import { ColliderPose, EntityHistoryBuffer } from './EntityHistoryBuffer';
+
+interface ClientLatency {
+   rttMs: number;
+   interpolationDelayMs: number;
+}
+
+/**
+ * A collider together with the pose a shot should be tested against instead of its live one
+ */
+export interface RewoundCollider {
+   collider: RAPIER.Collider;
+   pose: ColliderPose;
+}
+
+/**
+ * Records where players and enemies were on every tick so shots can be checked against what the shooter saw.
+ * A client draws everything else about one round trip plus its interpolation delay behind the server, so
+ * targets are rewound by that much, up to gameSettings.maxRewindMs.
+ */
+export class LagCompensationManager {
+   private history: EntityHistoryBuffer;
+   private latencies: Map<string, ClientLatency> = new Map();
+
+   constructor(private readonly game: BackendGame) {
+      // Two extra ticks so a rewind to the very edge of the window still has a tick on either side
+      const capacityTicks = Math.ceil(gameSettings.maxRewindMs / gameSettings.gameUpdateIntervalMillis) + 2;
+      this.history = new EntityHistoryBuffer(capacityTicks);
+   }
+
+   /**
+    * Store the current collider poses, called once per tick after the physics step
+    */
+   public recordTick(tick: number): void {
+      const poses = new Map<string, ColliderPose>();
+
+      for (const player of this.game.getPlayerManager().getPlayers().values()) {
+         this.addPose(poses, this.getPlayerKey(player), player);
+      }
+
+      for (const enemy of this.game.getEnemyManager().getAllEnemies()) {
+         this.addPose(poses, enemy.id, enemy);
+      }
+
+      this.history.record(tick, poses);
+   }
+
+   /**
+    * Latency a client reported with its last ping
+    */
+   public updateClientLatency(username: string, rttMs: number, interpolationDelayMs: number): void {
+      if (!Number.isFinite(rttMs) || !Number.isFinite(interpolationDelayMs)) return;
+
+      this.latencies.set(username, {
+         rttMs: Math.max(0, rttMs),
+         interpolationDelayMs: Math.max(0, interpolationDelayMs),
+      });
+   }
+
+   public removeClient(username: string): void {
+      this.latencies.delete(username);
+   }
+
+   /**
+    * How far back in time the shooter sees the rest of the world. The values are reported by the client,
+    * the rewind window caps what a client can gain by lying about them.
+    */
+   public getRewindMs(username: string): number {
+      const latency = this.latencies.get(username);
+      if (!latency) return 0;
+
+      return MathUtil.clamp(latency.rttMs + latency.interpolationDelayMs, 0, gameSettings.maxRewindMs);
+   }
+
+   /**
+    * Every player and enemy collider other than the shooter's, at the pose the shooter saw it in.
+    * Entities that have not moved since then are left out, the live physics world already has them right.
+    */
+   public getRewoundColliders(shooter: BackendPlayer): Map<number, RewoundCollider> {
+      const rewound = new Map<number, RewoundCollider>();
+
+      const rewindTicks = this.getRewindMs(shooter.username) / gameSettings.gameUpdateIntervalMillis;
+      if (rewindTicks <= 0) return rewound;
+
+      const currentTick = this.game.getPhysicsManager().getGameTick();
+      const oldestTick = this.history.getOldestTick();
+      if (oldestTick === null) return rewound;
+
+      const viewTick = Math.max(oldestTick, currentTick - rewindTicks);
+
+      for (const player of this.game.getPlayerManager().getPlayers().values()) {
+         if (player === shooter) continue;
+         this.addRewound(rewound, this.getPlayerKey(player), player, viewTick);
+      }
+
+      for (const enemy of this.game.getEnemyManager().getAllEnemies()) {
+         this.addRewound(rewound, enemy.id, enemy, viewTick);
+      }
+
+      return rewound;
+   }
+
+   /**
+    * Drop the recorded history, used when a game is reset and everything moves back to its spawn
+    */
+   public reset(): void {
+      this.history.clear();
+   }
+
+   private addPose(poses: Map<string, ColliderPose>, key: string, entity: Entity): void {
+      const collider = this.getCollider(entity);
+      if (!collider) return;
+
+      poses.set(key, { position: collider.translation(), rotation: collider.rotation() });
+   }
+
+   private addRewound(rewound: Map<number, RewoundCollider>, key: string, entity: Entity, viewTick: number): void {
+      const collider = this.getCollider(entity);
+      if (!collider) return;
+
+      const pose = this.history.getPoseAt(key, viewTick);
+      if (!pose) return;
+
+      const current = collider.translation();
+      if (pose.position.x === current.x && pose.position.y === current.y && pose.rotation === collider.rotation()) {
+         return;
+      }
+
+      rewound.set(collider.handle, { collider, pose });
+   }
+
+   private getCollider(entity: Entity): RAPIER.Collider | null {
+      if (!entity.isSpawned) return null;
+
+      const handle = entity.getColliderHandleSafe();
+      return handle !== null ? this.game.getWorld().getCollider(handle) : null;
+   }
+
+   // Guests all share the same player id, usernames are unique within a game
+   private getPlayerKey(player: BackendPlayer): string {
+      return `player:${player.username}`;
+   }
+}
@@ -137,7 +137,7 @@ export class BackendMapSystem {
             availableIndices.push(...Array(mapDef.playerSpawnPoints.length).keys());
          }
 
-         const spawnIndex = availableIndices[Math.floor(Math.random() * availableIndices.length)];
+         const spawnIndex = availableIndices[Math.floor(this.game.getSimulation().random() * availableIndices.length)];
          const spawnPoint = mapDef.playerSpawnPoints[spawnIndex];
 
          this.usedSpawnIndices.add(spawnIndex);
@@ -152,14 +152,22 @@ export class BackendMapSystem {
       }
 
       const position = {
-         x: 1000 * Math.random(),
-         y: 800 * Math.random(),
+         x: 1000 * this.game.getSimulation().random(),
+         y: 800 * this.game.getSimulation().random(),
       };
 
       console.log(`No spawn points defined, using random position: (${position.x}, ${position.y})`);
       return position;
    }
 
+   /**
+    * Put the map back in its loaded state for a new run
+    */
+   public resetMapChanges(): void {
+      this.chunkManager.restoreOriginalTiles();
+      this.usedSpawnIndices.clear();
+   }
+
    /**
     * Get the chunk manager
     */
@@ -1,6 +1,6 @@
 // server/src/map-system/ServerChunkManager.ts
 import { MapChunk } from 'shared/game/map-system/MapChunk';
-import { ChunkRequest, MapLayer, SerializedMapChunk, TileType } from 'shared/game/map-system/MapTypes';
+import { ChunkRequest, MapLayer, SerializedMapChunk, Tile, TileType } from 'shared/game/map-system/MapTypes';
 import { ClientBound } from 'shared/game/network/SocketEvents';
 import { gameSettings } from 'shared/game/SystemSettings';
 import { ServerGeckosTransport } from '../network/ServerGeckosTransport';
@@ -13,6 +13,7 @@ import { TaskPriority } from 'shared/util/TaskScheduler';
 import { calculateViewDistanceInChunks } from 'shared/util/Utils';
 import { ChunkVisibilityUtils } from 'shared/game/map-system/util/ChunkVisibilityUtils';
 import { BackendGame } from '../BackendGame';
+import { Position } from 'shared/game/Position';
 
 /**
  * Handles chunk-related data for a specific player
@@ -48,6 +49,11 @@ export class ServerChunkManager {
 
    private readonly chunkUpdatesBuffer = new Map<string, Map<string, any>>();
 
+   /**
+    * State of every tile changed during the run, as it was before its first change. Keyed by "tileX,tileY"
+    */
+   private readonly originalTiles = new Map<string, Pick<Tile, 'tileType' | 'walkable' | 'tileId'>>();
+
    constructor(
       worldMap: WorldMap,
       physicsWorld: RAPIER.World,
@@ -116,6 +122,8 @@ export class ServerChunkManager {
     * Update a tile and buffer the change for network distribution
     */
    public updateTile(tileX: number, tileY: number, updates: any): void {
+      this.rememberOriginalTile(tileX, tileY);
+
       if (!this.worldMap.updateTileAtTileCoord(tileX, tileY, updates)) {
          return;
       }
@@ -124,6 +132,23 @@ export class ServerChunkManager {
       this.bufferTileUpdate(tileX, tileY, updates);
    }
 
+   /**
+    * Undo every tile change made since the map was loaded and send the restored tiles to subscribers right away
+    */
+   public restoreOriginalTiles(): void {
+      if (this.originalTiles.size === 0) return;
+
+      for (const [tileKey, original] of this.originalTiles) {
+         const [tileX, tileY] = tileKey.split(',').map(Number);
+         this.updateTile(tileX, tileY, original);
+      }
+
+      console.log(`Restored ${this.originalTiles.size} changed tiles`);
+      this.originalTiles.clear();
+
+      this.sendBufferedUpdates();
+   }
+
    /**
     * Handle player disconnection
     */
@@ -156,12 +181,22 @@ export class ServerChunkManager {
       this.chunkSubscribers.clear();
       this.playerChunkData.clear();
       this.chunkUpdatesBuffer.clear();
+      this.originalTiles.clear();
    }
 
    public getWorldMap(): WorldMap {
       return this.worldMap;
    }
 
+   /**
+    * Check if a world position lies in one of the chunks the player is subscribed to
+    */
+   public isInPlayerView(username: string, position: Position): boolean {
+      const chunkPos = this.worldToChunkCoords(position.x, position.y);
+      const subscribers = this.chunkSubscribers.get(MapChunk.getChunkKey(chunkPos.x, chunkPos.y));
+      return subscribers?.has(username) ?? false;
+   }
+
 
    /**
     * Set up the buffered updates system using the physics loop
@@ -508,6 +543,16 @@ export class ServerChunkManager {
    }
 
 
+   private rememberOriginalTile(tileX: number, tileY: number): void {
+      const tileKey = `${tileX},${tileY}`;
+      if (this.originalTiles.has(tileKey)) return;
+
+      const tile = this.worldMap.getTileAtTileCoord(tileX, tileY);
+      if (!tile) return;
+
+      this.originalTiles.set(tileKey, { tileType: tile.tileType, walkable: tile.walkable, tileId: tile.tileId });
+   }
+
    /**
     * Buffer a tile update for later network distribution
     */
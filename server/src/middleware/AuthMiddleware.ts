@@ -1,11 +1,17 @@
 // server/src/middleware/GeckosAuthMiddleware.ts
 import { verifyToken } from 'shared/auth/AuthUtils';
 import http from 'http';
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
 import { PlayerData } from 'shared/game/PlayerData';
 
 // Store auth service URL for token verification
 let authServiceUrl: string;
 
+// Shared with the matchmaking service, which signs the requests it creates games with
+const serviceSecret = process.env.GAME_SERVER_SECRET || 'replace-this-with-a-shared-secret-in-production';
+const SERVICE_SIGNATURE_MAX_AGE_MS = 60000;
+
 /**
  * Initialize the auth middleware with the auth service URL
  * @param url URL of the auth service
@@ -22,12 +28,14 @@ export function initAuthMiddleware(url: string): void {
  * @param auth JWT token from client
  * @param request HTTP request
  * @param response HTTP response
+ * @param gameId Game the connection is for, a game token issued for another game is turned away
  * @returns User data if authenticated, false otherwise
  */
 export async function geckosAuthMiddleware(
    auth: string | undefined,
    request: http.IncomingMessage,
    response: http.OutgoingMessage,
+   gameId?: string,
 ): Promise<PlayerData | boolean> {
    // If no token provided, reject the connection
    if (!auth) {
@@ -46,6 +54,11 @@ export async function geckosAuthMiddleware(
          return false;
       }
 
+      if (userData.gameId !== undefined && userData.gameId !== gameId) {
+         console.log(`Auth middleware: Token for game ${userData.gameId} used to join ${gameId}`);
+         return false;
+      }
+
       console.log(`Auth middleware: Authenticated user ${userData.username} (ID: ${userData.id})`);
 
       // Return user data to associate with the channel
@@ -55,3 +68,59 @@ export async function geckosAuthMiddleware(
       return false;
    }
 }
+
+/**
+ * Express middleware for lobby routes that take up a game slot. Players send their access token, the
+ * matchmaking service signs its requests instead.
+ */
+export async function authenticateLobbyRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
+   if (hasServiceSignature(req)) {
+      next();
+      return;
+   }
+
+   const [scheme, token] = req.headers.authorization?.split(' ') ?? [];
+   if (scheme !== 'Bearer' || !token) {
+      res.status(401).json({ message: 'Authorization header required' });
+      return;
+   }
+
+   if (!(await verifyToken(token, authServiceUrl))) {
+      res.status(401).json({ message: 'Invalid or expired token' });
+      return;
+   }
+
+   next();
+}
+
+/**
+ * Express middleware for lobby routes only the matchmaking service may call
+ */
+export function authenticateServiceRequest(req: Request, res: Response, next: NextFunction): void {
+   if (!hasServiceSignature(req)) {
+      res.status(401).json({ message: 'Service signature required' });
+      return;
+   }
+
+   next();
+}
+
+/**
+ * HMAC-SHA256 over the timestamp, method and path of a request, hex encoded
+ */
+function signServiceRequest(timestamp: string, method: string, path: string, secret: string): string {
+   return crypto.createHmac('sha256', secret).update(`${timestamp}.${method} ${path}`).digest('hex');
+}
+
+function hasServiceSignature(req: Request): boolean {
+   const signature = req.header('x-signature');
+   const timestamp = req.header('x-signature-timestamp');
+   if (!signature || !timestamp) return false;
+
+   const signedAt = Number(timestamp);
+   if (!Number.isFinite(signedAt) || Math.abs(Date.now() - signedAt) > SERVICE_SIGNATURE_MAX_AGE_MS) return false;
+
+   const expected = Buffer.from(signServiceRequest(timestamp, req.method, req.originalUrl, serviceSecret), 'hex');
+   const received = Buffer.from(signature, 'hex');
+   return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
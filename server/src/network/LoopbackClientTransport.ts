@@ -0,0 +1,124 @@
+// server/src/network/LoopbackClientTransport.ts
+import { BaseSocketTransport } from 'shared/game/network/BaseSocketTransport';
+import { EventDataMap } from 'shared/game/network/SocketEvents';
+import { SeededRandom } from 'shared/util/SeededRandom';
+import type { LoopbackServerTransport } from './LoopbackServerTransport';
+import {
+   createLoopbackTraffic,
+   decodeLoopbackPacket,
+   encodeLoopbackPacket,
+   getLoopbackPacketSize,
+   LoopbackPacket,
+   LoopbackTraffic,
+} from './LoopbackPacket';
+import { LoopbackConditions, LoopbackLink, LoopbackLinkStats } from './LoopbackLink';
+
+export interface LoopbackClientOptions {
+   /** Player the connection is authorized as, like the username in a geckos.io auth token */
+   username: string;
+
+   /** Network conditions of the connection, in both directions. Delivered right after the current task if not given */
+   conditions?: LoopbackConditions;
+
+   /** Seed of the losses, jitter and reordering the conditions cause, a new one is picked if not given */
+   seed?: number;
+}
+
+/**
+ * Client side of an in-process connection to a {@link LoopbackServerTransport}. It stands in for the
+ * ClientGeckosTransport of a browser, messages arrive in the shapes that one hands to its handlers, delayed,
+ * lost and reordered as the connection's conditions say.
+ */
+export class LoopbackClientTransport extends BaseSocketTransport {
+   private username: string | null = null;
+   private traffic: LoopbackTraffic = createLoopbackTraffic();
+   private upstream: LoopbackLink | null = null;
+   private downstream: LoopbackLink | null = null;
+
+   constructor(private readonly server: LoopbackServerTransport) {
+      super();
+   }
+
+   async connect(options: LoopbackClientOptions): Promise<void> {
+      // One generator for both directions, it is drawn from in the order messages are sent
+      const random = new SeededRandom(options.seed ?? SeededRandom.createSeed());
+      this.upstream = new LoopbackLink(random, options.conditions);
+      this.downstream = new LoopbackLink(random, options.conditions);
+
+      this.username = options.username;
+      this.server.attach(options.username, this);
+      this.notifyConnectHandlers();
+   }
+
+   disconnect(): void {
+      if (!this.connected || !this.username) return;
+
+      this.upstream?.clear();
+      this.downstream?.clear();
+      this.server.detach(this.username, 'client disconnected');
+      this.notifyDisconnectHandlers();
+   }
+
+   broadcast<T extends keyof EventDataMap>(eventType: T, data: EventDataMap[T]): void {
+      const username = this.username;
+      if (!this.connected || !username || !this.upstream) {
+         console.warn('Attempted to send message without connection:', eventType);
+         return;
+      }
+
+      const packet = encodeLoopbackPacket(eventType, data);
+      this.traffic.messagesSent++;
+      this.traffic.bytesSent += getLoopbackPacketSize(packet);
+
+      this.upstream.send(packet, () => this.server.receive(username, packet));
+   }
+
+   /**
+    * Take a packet the server sent, it is handled once the connection delivers it
+    */
+   public receive(packet: LoopbackPacket): void {
+      this.downstream?.send(packet, () => {
+         if (!this.connected) return;
+
+         this.traffic.messagesReceived++;
+         this.traffic.bytesReceived += getLoopbackPacketSize(packet);
+         this.notifyMessageHandlers(
+            packet.eventType as keyof EventDataMap,
+            decodeLoopbackPacket(packet) as EventDataMap[keyof EventDataMap],
+         );
+      });
+   }
+
+   /**
+    * Change the connection's conditions, messages already on their way keep the delay they were given
+    */
+   public setConditions(conditions: LoopbackConditions): void {
+      this.upstream?.setConditions(conditions);
+      this.downstream?.setConditions(conditions);
+   }
+
+   /**
+    * What the conditions did to the messages sent by this client and to the ones sent to it
+    */
+   public getLinkStats(): { upstream: LoopbackLinkStats; downstream: LoopbackLinkStats } {
+      return {
+         upstream: this.upstream?.getStats() ?? { dropped: 0, reordered: 0 },
+         downstream: this.downstream?.getStats() ?? { dropped: 0, reordered: 0 },
+      };
+   }
+
+   /**
+    * The server shut down, the connection is gone without a disconnect message
+    */
+   public handleServerClosed(): void {
+      if (!this.connected) return;
+
+      this.upstream?.clear();
+      this.downstream?.clear();
+      this.notifyDisconnectHandlers();
+   }
+
+   public getTraffic(): LoopbackTraffic {
+      return { ...this.traffic };
+   }
+}
@@ -0,0 +1,128 @@
+// server/src/network/LoopbackLink.ts
+import { SeededRandom } from 'shared/util/SeededRandom';
+import { LoopbackPacket } from './LoopbackPacket';
+
+/**
+ * Network conditions a loopback connection simulates. Latency applies to every message, the rest only to
+ * unreliable events: reliable ones are retransmitted until they arrive and keep their order, like the
+ * reliable messages of geckos.io.
+ */
+export interface LoopbackConditions {
+   /** One-way delay of every message, in milliseconds */
+   latencyMs?: number;
+
+   /** Up to this many milliseconds are added to or taken off the delay of each unreliable message */
+   jitterMs?: number;
+
+   /** Chance between 0 and 1 that an unreliable message is lost */
+   packetLoss?: number;
+
+   /** Chance between 0 and 1 that an unreliable message is held back for another latency, behind later ones */
+   reorder?: number;
+}
+
+/**
+ * Messages a link lost or held back, on top of what both ends count themselves
+ */
+export interface LoopbackLinkStats {
+   dropped: number;
+   reordered: number;
+}
+
+/**
+ * One direction of a loopback connection. Delivers each packet after the delay the conditions give it,
+ * or once the current task is done without any. Delays are timers and every random decision comes from
+ * the given generator, so a run under fake timers with the same seed delivers exactly the same way.
+ */
+export class LoopbackLink {
+   private conditions: LoopbackConditions;
+   private lastReliableDelivery = 0;
+   private pendingDeliveries: Set<NodeJS.Timeout | NodeJS.Immediate> = new Set();
+   private stats: LoopbackLinkStats = { dropped: 0, reordered: 0 };
+
+   constructor(
+      private readonly random: SeededRandom,
+      conditions: LoopbackConditions = {},
+   ) {
+      this.conditions = { ...conditions };
+   }
+
+   public setConditions(conditions: LoopbackConditions): void {
+      this.conditions = { ...conditions };
+   }
+
+   public getConditions(): LoopbackConditions {
+      return { ...this.conditions };
+   }
+
+   /**
+    * Send a packet down the link
+    * @returns False if the conditions lost it, deliver is never called then
+    */
+   public send(packet: LoopbackPacket, deliver: () => void): boolean {
+      const delay = packet.reliable ? this.getReliableDelay() : this.getUnreliableDelay();
+      if (delay === null) {
+         this.stats.dropped++;
+         return false;
+      }
+
+      if (delay <= 0) {
+         const immediate = setImmediate(() => {
+            this.pendingDeliveries.delete(immediate);
+            deliver();
+         });
+         this.pendingDeliveries.add(immediate);
+         return true;
+      }
+
+      const timeout = setTimeout(() => {
+         this.pendingDeliveries.delete(timeout);
+         deliver();
+      }, delay);
+      this.pendingDeliveries.add(timeout);
+      return true;
+   }
+
+   /**
+    * Drop everything still on its way, the connection is gone
+    */
+   public clear(): void {
+      this.pendingDeliveries.forEach((pending) => {
+         clearTimeout(pending as NodeJS.Timeout);
+         clearImmediate(pending as NodeJS.Immediate);
+      });
+      this.pendingDeliveries.clear();
+   }
+
+   public getStats(): LoopbackLinkStats {
+      return { ...this.stats };
+   }
+
+   // Never earlier than the reliable message before it, a retransmitted message holds up the ones behind it
+   private getReliableDelay(): number {
+      const now = Date.now();
+      const deliverAt = Math.max(now + (this.conditions.latencyMs ?? 0), this.lastReliableDelivery);
+      this.lastReliableDelivery = deliverAt;
+      return deliverAt - now;
+   }
+
+   private getUnreliableDelay(): number | null {
+      const { latencyMs = 0, jitterMs = 0, packetLoss = 0, reorder = 0 } = this.conditions;
+
+      if (packetLoss > 0 && this.random.next() < packetLoss) {
+         return null;
+      }
+
+      let delay = latencyMs;
+      if (jitterMs > 0) {
+         delay += (this.random.next() * 2 - 1) * jitterMs;
+      }
+
+      if (reorder > 0 && this.random.next() < reorder) {
+         this.stats.reordered++;
+         delay += Math.max(latencyMs, 1);
+      }
+
+      return Math.max(0, delay);
+   }
+}
@@ -0,0 +1,77 @@
+// server/src/network/LoopbackPacket.ts
+import { EventDataMap, EventReliability } from 'shared/game/network/SocketEvents';
+import { NetworkEventType } from 'shared/game/network/BaseSocketTransport';
+import { BinaryMessageCodec } from 'shared/game/network/codec/BinaryMessageCodec';
+
+/**
+ * A message between the loopback transports, encoded the way geckos.io would put it on the wire
+ */
+export interface LoopbackPacket {
+   eventType: NetworkEventType;
+   reliable: boolean;
+
+   /** JSON text, or the binary protocol for unreliable events that have a schema */
+   payload: string | Uint8Array;
+}
+
+/**
+ * Messages and bytes one side of a loopback connection sent and received
+ */
+export interface LoopbackTraffic {
+   messagesSent: number;
+   bytesSent: number;
+   messagesReceived: number;
+   bytesReceived: number;
+}
+
+export function createLoopbackTraffic(): LoopbackTraffic {
+   return { messagesSent: 0, bytesSent: 0, messagesReceived: 0, bytesReceived: 0 };
+}
+
+/**
+ * Encode a message like the geckos transports do. Reliable messages wrap arrays and primitives, so the
+ * receiver sees the same shapes it would over a real connection.
+ */
+export function encodeLoopbackPacket<T extends keyof EventDataMap>(
+   eventType: T,
+   data: EventDataMap[T],
+): LoopbackPacket {
+   const reliable = (EventReliability[eventType] || 'unreliable') === 'reliable';
+
+   if (reliable) {
+      let wrapped: unknown = data;
+      if (Array.isArray(data)) {
+         wrapped = { data };
+      } else if (typeof data !== 'object' || data === null) {
+         wrapped = { value: data };
+      }
+
+      return { eventType, reliable, payload: JSON.stringify(wrapped) };
+   }
+
+   const binary = BinaryMessageCodec.encode(eventType, data);
+   return { eventType, reliable, payload: binary ?? JSON.stringify(data) };
+}
+
+/**
+ * Decode a packet into the data a geckos transport hands on, reliable messages unwrapped again
+ */
+export function decodeLoopbackPacket(packet: LoopbackPacket): unknown {
+   if (typeof packet.payload !== 'string') {
+      return BinaryMessageCodec.decode(packet.payload).data;
+   }
+
+   const data = JSON.parse(packet.payload);
+   if (packet.reliable && data?.data !== undefined) {
+      return data.data;
+   }
+
+   return data;
+}
+
+/**
+ * Size of the packet on the wire, JSON counted by its length like the client's performance monitor does
+ */
+export function getLoopbackPacketSize(packet: LoopbackPacket): number {
+   return typeof packet.payload === 'string' ? packet.payload.length : packet.payload.byteLength;
+}
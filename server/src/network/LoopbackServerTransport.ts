@@ -0,0 +1,103 @@
+// server/src/network/LoopbackServerTransport.ts
+import { ServerGeckosTransport } from './ServerGeckosTransport';
+import { EventDataMap, ServerBound } from 'shared/game/network/SocketEvents';
+import { LoopbackClientTransport } from './LoopbackClientTransport';
+import { decodeLoopbackPacket, encodeLoopbackPacket, LoopbackPacket } from './LoopbackPacket';
+import { PlayerData } from 'shared/game/PlayerData';
+
+interface LoopbackChannel {
+   id: string;
+   client: LoopbackClientTransport;
+   userData: PlayerData;
+}
+
+/**
+ * Server side of an in-process connection to {@link LoopbackClientTransport}s, for headless clients that run in
+ * the same process as the game. Messages are encoded like geckos.io would send them and never arrive within
+ * the task that sent them, so both sides see the same data and ordering they would over a real connection.
+ * Each client's transport decides how its connection delays and loses messages.
+ */
+export class LoopbackServerTransport extends ServerGeckosTransport {
+   private clients: Map<string, LoopbackChannel> = new Map();
+   private nextChannelId = 0;
+
+   async connect(): Promise<void> {
+      this.notifyConnectHandlers();
+   }
+
+   disconnect(): void {
+      const channels = Array.from(this.clients.values());
+      this.clients.clear();
+      channels.forEach((channel) => channel.client.handleServerClosed());
+
+      this.notifyDisconnectHandlers();
+   }
+
+   /**
+    * Accept a client's connection, like a geckos.io channel authorized as the given player. Loopback clients
+    * never belong to a registered account, so the player is known by its username only.
+    * @returns The channel id the client's messages are sent with
+    */
+   public attach(username: string, client: LoopbackClientTransport): string {
+      const channelId = `loopback-${this.nextChannelId++}`;
+      this.clients.set(username, { id: channelId, client, userData: new PlayerData(username, username, username) });
+      return channelId;
+   }
+
+   /**
+    * Close a client's connection and let the game know the player left
+    */
+   public detach(username: string, reason: string): void {
+      const channel = this.clients.get(username);
+      if (!channel) return;
+
+      this.clients.delete(username);
+      this.notifyMessageHandlers(ServerBound.PlayerDisconnect, {
+         username,
+         reason,
+         channelId: channel.id,
+      });
+   }
+
+   /**
+    * Handle a packet a client's connection delivered
+    */
+   public receive(username: string, packet: LoopbackPacket): void {
+      const channel = this.clients.get(username);
+      if (!channel) return;
+
+      this.notifyReceived(packet.eventType, decodeLoopbackPacket(packet), packet.reliable, {
+         username,
+         channelId: channel.id,
+         userData: channel.userData,
+      });
+   }
+
+   public getConnectedUsernames(): string[] {
+      return Array.from(this.clients.keys());
+   }
+
+   broadcast<T extends keyof EventDataMap>(eventType: T, data: EventDataMap[T]): void {
+      const packet = encodeLoopbackPacket(eventType, data);
+      this.clients.forEach((channel) => channel.client.receive(packet));
+   }
+
+   sendToPlayer<T extends keyof EventDataMap>(username: string, eventType: T, data: EventDataMap[T]): void {
+      const channel = this.clients.get(username);
+      if (!channel) {
+         console.warn(`Cannot send to player ${username}: channel not found`);
+         return;
+      }
+
+      channel.client.receive(encodeLoopbackPacket(eventType, data));
+   }
+
+   broadcastExcept<T extends keyof EventDataMap>(excludeUsername: string, eventType: T, data: EventDataMap[T]): void {
+      const packet = encodeLoopbackPacket(eventType, data);
+      this.clients.forEach((channel, username) => {
+         if (username !== excludeUsername) {
+            channel.client.receive(packet);
+         }
+      });
+   }
+}
@@ -0,0 +1,65 @@
+// server/src/network/ReplayTransport.ts
+import { ServerGeckosTransport } from './ServerGeckosTransport';
+import { ClientBound, EventDataMap } from 'shared/game/network/SocketEvents';
+import { ReplayViewMessage } from 'shared/game/replay/MatchReplay';
+import { BackendGame } from '../BackendGame';
+
+/**
+ * Transport for a game that is simulated again from a recording. It never opens a connection and sends
+ * nothing, but it can capture everything one player's client would have received along the way.
+ */
+export class ReplayTransport extends ServerGeckosTransport {
+   private viewer: string | null = null;
+   private game: BackendGame | null = null;
+   private capturedMessages: ReplayViewMessage[] = [];
+
+   async connect(): Promise<void> {
+      this.connected = true;
+   }
+
+   disconnect(): void {
+      this.connected = false;
+   }
+
+   /**
+    * Start capturing the messages sent to a player, stamped with the game's tick and simulation time
+    */
+   public captureFor(viewer: string, game: BackendGame): void {
+      this.viewer = viewer;
+      this.game = game;
+   }
+
+   public getCapturedMessages(): ReplayViewMessage[] {
+      return this.capturedMessages;
+   }
+
+   broadcast<T extends keyof EventDataMap>(eventType: T, data: EventDataMap[T]): void {
+      // Broadcasts only reach the viewer while they are in the game
+      if (this.viewer && this.game?.getPlayerManager().getPlayerByUsername(this.viewer)) {
+         this.capture(eventType, data);
+      }
+   }
+
+   sendToPlayer<T extends keyof EventDataMap>(username: string, eventType: T, data: EventDataMap[T]): void {
+      if (username === this.viewer) {
+         this.capture(eventType, data);
+      }
+   }
+
+   broadcastExcept<T extends keyof EventDataMap>(excludeUsername: string, eventType: T, data: EventDataMap[T]): void {
+      if (excludeUsername !== this.viewer) {
+         this.broadcast(eventType, data);
+      }
+   }
+
+   private capture<T extends keyof EventDataMap>(eventType: T, data: EventDataMap[T]): void {
+      const physicsManager = this.game!.getPhysicsManager();
+
+      this.capturedMessages.push({
+         tick: physicsManager.getGameTick(),
+         time: physicsManager.getSimulationTime(),
+         eventType: eventType as ClientBound,
+         data: JSON.parse(JSON.stringify(data)),
+      });
+   }
+}
@@ -1,18 +1,31 @@
 // server/src/network/ServerGeckosTransport.ts
 import { EventDataMap, EventReliability, ServerBound } from 'shared/game/network/SocketEvents';
-import geckos, { Data, GeckosServer, iceServers, ServerChannel } from '@geckos.io/server';
+import geckos, { ChannelId, Data, GeckosServer, iceServers, ServerChannel } from '@geckos.io/server';
 import { BaseSocketTransport } from 'shared/game/network/BaseSocketTransport';
 import { ServerEventDataMap } from './ServerEventTypes';
 import http from 'http';
 import { CorsOptions as GeckosCorsOptions } from '@geckos.io/common/lib/types';
 import express from 'express';
 import { geckosAuthMiddleware } from 'src/middleware/AuthMiddleware';
+import { PlayerData } from 'shared/game/PlayerData';
 
 export interface ServerGeckosOptions {
    server?: http.Server;
    port?: number;
    gameId: string;
    cors?: GeckosCorsOptions;
+   /** UDP ports used for WebRTC. Games running in the same process need disjoint ranges */
+   portRange?: { min: number; max: number };
+}
+
+/**
+ * Who sent a message, added to the data every server-side handler receives
+ */
+export interface MessageSender {
+   username?: string;
+   channelId?: ChannelId;
+   /** Account the connection was authorized as */
+   userData?: PlayerData;
 }
 
 export class ServerGeckosTransport extends BaseSocketTransport<ServerEventDataMap> {
@@ -33,11 +46,12 @@ export class ServerGeckosTransport extends BaseSocketTransport<ServerEventDataMa
     */
    async connect(options: ServerGeckosOptions): Promise<void> {
       this.port = options.port! || 3000;
+      this.gameId = options.gameId;
 
       // Create geckos.io server
       this.io = geckos({
          iceServers: process.env.NODE_ENV === 'production' ? iceServers : [],
-         portRange: {
+         portRange: options.portRange ?? {
             min: 10000,
             max: 10007,
          },
@@ -47,7 +61,7 @@ export class ServerGeckosTransport extends BaseSocketTransport<ServerEventDataMa
          },
          multiplex: true, // Use multiplexing for better connection handling
          label: options.gameId || 'default-game',
-         authorization: geckosAuthMiddleware,
+         authorization: (auth, request, response) => geckosAuthMiddleware(auth, request, response, this.gameId),
       });
 
       if (options.server) {
@@ -81,9 +95,15 @@ export class ServerGeckosTransport extends BaseSocketTransport<ServerEventDataMa
          // Add the server to geckos
          this.io.addServer(this.server);
 
-         // Start listening
-         this.server.listen(this.port, () => {
-            console.log(`HTTP server started on port ${this.port}`);
+         // Start listening, a port that is already in use fails the connect
+         const server = this.server;
+         await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.port, () => {
+               server.off('error', reject);
+               console.log(`HTTP server started on port ${this.port}`);
+               resolve();
+            });
          });
 
          // Add a simple health check route
@@ -131,6 +151,14 @@ export class ServerGeckosTransport extends BaseSocketTransport<ServerEventDataMa
             });
          });
 
+         // Hot messages arrive in the binary protocol, decoded they are handled like any other message
+         channel.onRaw((rawMessage) => {
+            const decoded = this.decodeBinaryMessage(rawMessage);
+            if (decoded) {
+               this.handleRegularMessage(channel, decoded.eventType, decoded.data as Data);
+            }
+         });
+
          channel.on('_reliableAck', (ackData: Data) => {
             if (typeof ackData === 'object' && ackData && '_reliableId' in ackData) {
                const msgId = ackData._reliableId as string;
@@ -168,23 +196,11 @@ export class ServerGeckosTransport extends BaseSocketTransport<ServerEventDataMa
    }
 
    private handleRegularMessage(channel: ServerChannel, eventType: string, data: Data): void {
-      let enrichedData: any;
-
-      if (typeof data === 'object' && data !== null) {
-         enrichedData = {
-            ...(data as Record<string, any>),
-            username: channel.userData?.username,
-            channelId: channel.id,
-         };
-      } else {
-         enrichedData = {
-            value: data,
-            username: channel.userData?.username,
-            channelId: channel.id,
-         };
-      }
-
-      this.notifyMessageHandlers(eventType as keyof EventDataMap, enrichedData);
+      this.notifyReceived(eventType, data, false, {
+         username: channel.userData?.username,
+         channelId: channel.id,
+         userData: channel.userData,
+      });
    }
 
    private handleReliableMessage(channel: ServerChannel, eventType: string, data: Record<string, any>): void {
@@ -216,30 +232,40 @@ export class ServerGeckosTransport extends BaseSocketTransport<ServerEventDataMa
 
       const actualData = messageData.data !== undefined ? messageData.data : messageData;
 
+      this.notifyReceived(eventType, actualData, true, {
+         username: channel.userData?.username,
+         channelId: channel.id,
+         userData: channel.userData,
+      });
+   }
+
+   /**
+    * Pass a received message on to the handlers with its sender added. Objects are spread, primitives and
+    * arrays sent reliably arrive as value. Arrays sent unreliably come out of the binary protocol and are spread
+    * like any other object, their elements keyed by index.
+    */
+   protected notifyReceived(eventType: string, data: unknown, reliable: boolean, sender: MessageSender): void {
       let enrichedData: any;
 
-      if (Array.isArray(actualData)) {
-         enrichedData = {
-            value: actualData,
-            username: channel.userData?.username,
-            channelId: channel.id,
-         };
-      } else if (typeof actualData === 'object' && actualData !== null) {
-         // For regular objects, spread the properties
+      if (typeof data === 'object' && data !== null && !(reliable && Array.isArray(data))) {
          enrichedData = {
-            ...(actualData as Record<string, any>),
-            username: channel.userData?.username,
-            channelId: channel.id,
+            ...(data as Record<string, any>),
+            username: sender.username,
+            channelId: sender.channelId,
          };
       } else {
-         // For primitive types, create a new object
          enrichedData = {
-            value: actualData,
-            username: channel.userData?.username,
-            channelId: channel.id,
+            value: data,
+            username: sender.username,
+            channelId: sender.channelId,
          };
       }
 
+      // The account a player joins as comes from the connection's token, never from what the client claims
+      if (eventType === ServerBound.PlayerConnect) {
+         enrichedData.userInfo = sender.userData;
+      }
+
       this.notifyMessageHandlers(eventType as keyof EventDataMap, enrichedData);
    }
 
@@ -253,7 +279,12 @@ export class ServerGeckosTransport extends BaseSocketTransport<ServerEventDataMa
          }
       } else {
          // For unreliable broadcasts, we can use the built-in emit
-         this.io.emit(eventType as string, data);
+         const binary = this.encodeBinaryMessage(eventType, data);
+         if (binary) {
+            this.io.raw.emit(binary);
+         } else {
+            this.io.emit(eventType as string, data);
+         }
       }
    }
 
@@ -266,7 +297,7 @@ export class ServerGeckosTransport extends BaseSocketTransport<ServerEventDataMa
          if (reliability === 'reliable') {
             this.sendReliableMessage(targetChannel, eventType, data);
          } else {
-            targetChannel.emit(eventType as string, data);
+            this.emitUnreliable(targetChannel, eventType, data, this.encodeBinaryMessage(eventType, data));
          }
       } else {
          console.warn(`Cannot send to player ${username}: channel not found`);
@@ -275,6 +306,7 @@ export class ServerGeckosTransport extends BaseSocketTransport<ServerEventDataMa
 
    broadcastExcept<T extends keyof EventDataMap>(excludeUsername: string, eventType: T, data: EventDataMap[T]): void {
       const reliability = EventReliability[eventType] || 'unreliable';
+      const binary = reliability === 'reliable' ? null : this.encodeBinaryMessage(eventType, data);
 
       // Find all channels except the excluded one
       for (const channel of this.channels.values()) {
@@ -282,12 +314,28 @@ export class ServerGeckosTransport extends BaseSocketTransport<ServerEventDataMa
             if (reliability === 'reliable') {
                this.sendReliableMessage(channel, eventType, data);
             } else {
-               channel.emit(eventType as string, data);
+               this.emitUnreliable(channel, eventType, data, binary);
             }
          }
       }
    }
 
+   /**
+    * Send an unreliable message, as its binary encoding when the event has one
+    */
+   private emitUnreliable<T extends keyof EventDataMap>(
+      channel: ServerChannel,
+      eventType: T,
+      data: EventDataMap[T],
+      binary: Uint8Array | null,
+   ): void {
+      if (binary) {
+         channel.raw.emit(binary);
+      } else {
+         channel.emit(eventType as string, data);
+      }
+   }
+
    private sendReliableMessage<T extends keyof EventDataMap>(
       channel: ServerChannel,
       eventType: T,
@@ -385,6 +433,15 @@ export class ServerGeckosTransport extends BaseSocketTransport<ServerEventDataMa
 
       this.channels.clear();
       this.playerToChannelMap.clear();
+
+      // Only close the HTTP server if this transport created it
+      if (this.app && this.server) {
+         this.server.close();
+         this.server = null;
+         this.app = null;
+      }
+
+      this.notifyDisconnectHandlers();
    }
 
    /**
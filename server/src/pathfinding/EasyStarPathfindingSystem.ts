@@ -5,6 +5,7 @@ import { Position } from 'shared/game/Position';
 import { TileType } from 'shared/game/map-system/MapTypes';
 import type * as RAPIER from '@dimforge/rapier2d-compat';
 import { MathUtil } from 'shared/util/MathUtil';
+import { SimulationContext } from 'shared/game/SimulationContext';
 
 export interface Waypoint {
    position: Position;
@@ -42,11 +43,17 @@ export class EasyStarPathfindingSystem {
    private pathCache: Map<string, { result: PathResult; timestamp: number }> = new Map();
    private readonly CACHE_DURATION = 3000;
 
-   constructor(world: RAPIER.World, rapier: typeof RAPIER) {
+   constructor(
+      world: RAPIER.World,
+      rapier: typeof RAPIER,
+      private readonly simulation: SimulationContext,
+   ) {
       this.world = world;
       this.rapier = rapier;
       this.easystar = new EasyStar.js();
 
+      // Resolve paths inside calculate() rather than on a later timer, so they land on the same tick every run
+      this.easystar.enableSync();
       this.easystar.setAcceptableTiles([0]);
       this.easystar.enableDiagonals();
       this.easystar.disableCornerCutting();
@@ -216,7 +223,7 @@ export class EasyStarPathfindingSystem {
 
       // Check cache
       const cached = this.pathCache.get(cacheKey);
-      if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
+      if (cached && this.simulation.now() - cached.timestamp < this.CACHE_DURATION) {
          // console.log(`   📱 Using cached result`);
          return cached.result;
       }
@@ -284,7 +291,7 @@ export class EasyStarPathfindingSystem {
 
             if (path === null) {
                const result = { waypoints: [], found: false, distance: 0, targetReached: false };
-               this.pathCache.set(cacheKey, { result, timestamp: Date.now() });
+               this.pathCache.set(cacheKey, { result, timestamp: this.simulation.now() });
                resolve(result);
                return;
             }
@@ -305,7 +312,7 @@ export class EasyStarPathfindingSystem {
             };
 
             // Cache result
-            this.pathCache.set(cacheKey, { result, timestamp: Date.now() });
+            this.pathCache.set(cacheKey, { result, timestamp: this.simulation.now() });
             resolve(result);
          });
 
@@ -8,6 +8,7 @@ import { EasyStarPathfindingSystem, Waypoint } from './EasyStarPathfindingSystem
 import { TileType } from 'shared/game/map-system/MapTypes';
 import { MathUtil } from 'shared/util/MathUtil';
 import { IPathfindingService } from 'shared/game/enemies/interfaces/IPathfindingService';
+import { SimulationContext } from 'shared/game/SimulationContext';
 
 /**
  * Enemy pathfinding state for server tracking
@@ -49,8 +50,12 @@ export class PathfindingManager implements IPathfindingService {
    private readonly WAYPOINT_THRESHOLD = 30; // Consider waypoint reached if within 30px
    private readonly MAX_PENDING_TIME = 2000; // Max 2s for a pathfinding request
 
-   constructor(world: RAPIER.World, rapier: typeof RAPIER) {
-      this.pathfindingSystem = new EasyStarPathfindingSystem(world, rapier);
+   constructor(
+      world: RAPIER.World,
+      rapier: typeof RAPIER,
+      private readonly simulation: SimulationContext,
+   ) {
+      this.pathfindingSystem = new EasyStarPathfindingSystem(world, rapier, simulation);
    }
 
    /**
@@ -102,7 +107,7 @@ export class PathfindingManager implements IPathfindingService {
       enemyHeight: number,
    ): Position | null {
       const shortId = enemyId.substring(0, 8);
-      const now = Date.now();
+      const now = this.simulation.now();
 
       // console.log(
       //    `🔍 [${shortId}] Async pathfinding request: (${currentPosition.x.toFixed(1)}, ${currentPosition.y.toFixed(1)}) -> (${targetPosition.x.toFixed(1)}, ${targetPosition.y.toFixed(1)})`,
@@ -196,7 +201,7 @@ export class PathfindingManager implements IPathfindingService {
       pathState.pendingPathRequest = {
          start: { ...currentPosition },
          target: { ...targetPosition },
-         timestamp: Date.now(),
+         timestamp: this.simulation.now(),
       };
 
       // console.log(`   🔄 [${shortId}] Async pathfinding started`);
@@ -224,7 +229,7 @@ export class PathfindingManager implements IPathfindingService {
          if (pathResult.found && pathResult.waypoints.length > 0) {
             pathState.currentWaypoints = [...pathResult.waypoints];
             pathState.lastTarget = { ...targetPosition };
-            pathState.lastUpdate = Date.now();
+            pathState.lastUpdate = this.simulation.now();
             pathState.needsPathRecalculation = false;
             pathState.currentWaypointIndex = 0;
 
@@ -335,7 +340,7 @@ export class PathfindingManager implements IPathfindingService {
 
    public getPathfindingUpdates(): PathfindingUpdate[] {
       const updates: PathfindingUpdate[] = [];
-      const now = Date.now();
+      const now = this.simulation.now();
 
       for (const pathState of this.enemyPaths.values()) {
          if (now - pathState.lastUpdate >= this.WAYPOINT_UPDATE_INTERVAL && pathState.currentWaypoints.length > 0) {
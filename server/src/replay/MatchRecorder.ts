@@ -0,0 +1,117 @@
+// server/src/replay/MatchRecorder.ts
+
+import { createHash } from 'crypto';
+import { BaseEnemy } from 'shared/game/enemies/BaseEnemy';
+import { ServerBound } from 'shared/game/network/SocketEvents';
+import { MatchReplay, REPLAY_FORMAT_VERSION, ReplayEntry, ReplayEntryType } from 'shared/game/replay/MatchReplay';
+import { BackendGame } from '../BackendGame';
+
+/**
+ * Records a game from its creation: every message the clients sent, stamped with the tick it arrived on, and
+ * when each run started. Together with the game's seeds that is all it takes to simulate the match again.
+ * Enemy spawns and periodic state hashes are recorded as well so a replay can be checked against the original.
+ */
+export class MatchRecorder {
+   private entries: ReplayEntry[] = [];
+   private readonly recordedAt: number = Date.now();
+
+   constructor(private readonly game: BackendGame) {}
+
+   public recordMessage(eventType: ServerBound, data: unknown): void {
+      // Stored as it will be read back, handlers are free to modify the original afterwards
+      this.entries.push({
+         type: ReplayEntryType.Message,
+         tick: this.getTick(),
+         eventType,
+         data: JSON.parse(JSON.stringify(data)),
+      });
+   }
+
+   public recordRunStart(startTime: number): void {
+      this.entries.push({ type: ReplayEntryType.RunStart, tick: this.getTick(), startTime });
+   }
+
+   public recordEnemySpawn(enemy: BaseEnemy): void {
+      this.entries.push({
+         type: ReplayEntryType.EnemySpawn,
+         tick: this.getTick(),
+         enemyId: enemy.id,
+         enemyType: enemy.enemyType,
+         level: enemy.level,
+         position: { ...enemy.position },
+      });
+   }
+
+   public recordChecksum(): void {
+      this.entries.push({
+         type: ReplayEntryType.Checksum,
+         tick: this.getTick(),
+         hash: MatchRecorder.hashState(this.game),
+      });
+   }
+
+   /**
+    * Must be called before the game resets, the hash is of the state the run ended in
+    */
+   public recordRunEnd(): void {
+      this.entries.push({
+         type: ReplayEntryType.RunEnd,
+         tick: this.getTick(),
+         hash: MatchRecorder.hashState(this.game),
+      });
+   }
+
+   public getEntries(): readonly ReplayEntry[] {
+      return this.entries;
+   }
+
+   public getReplay(): MatchReplay {
+      return {
+         version: REPLAY_FORMAT_VERSION,
+         gameId: this.game.gameId,
+         mapSeed: this.game.getMapSeed(),
+         randomSeed: this.game.getRandomSeed(),
+         minPlayers: this.game.getPlayerManager().getMinPlayers(),
+         maxPlayers: this.game.getPlayerManager().getMaxPlayers(),
+         recordedAt: this.recordedAt,
+         entries: [...this.entries],
+      };
+   }
+
+   public getRecordedAt(): number {
+      return this.recordedAt;
+   }
+
+   /**
+    * Short hash of everything the simulation decides: player and enemy positions, health, ammo and the wave.
+    * Two games that got the same inputs from the same seeds hash the same on every tick.
+    */
+   public static hashState(game: BackendGame): string {
+      const players = Array.from(game.getPlayerManager().getPlayers().values()).map((player) => [
+         player.username,
+         player.position.x,
+         player.position.y,
+         player.health,
+         player.lifeState,
+         player.getGun()?.getStateSync().currentAmmo ?? null,
+      ]);
+
+      const enemies = game
+         .getEnemyManager()
+         .getAllEnemies()
+         .map((enemy) => [enemy.id, enemy.enemyType, enemy.position.x, enemy.position.y, enemy.health]);
+
+      const state = {
+         tick: game.getPhysicsManager().getGameTick(),
+         wave: game.getEnemyManager().getWaveDirector().getCurrentWave(),
+         players,
+         enemies,
+      };
+
+      return createHash('sha1').update(JSON.stringify(state)).digest('hex').slice(0, 16);
+   }
+
+   private getTick(): number {
+      return this.game.getPhysicsManager()?.getGameTick() ?? 0;
+   }
+}
@@ -0,0 +1,151 @@
+// server/src/replay/ReplayRunner.ts
+import { BackendGame } from '../BackendGame';
+import { ReplayTransport } from '../network/ReplayTransport';
+import { MatchReplay, MatchReplayView, ReplayEntry, ReplayEntryType } from 'shared/game/replay/MatchReplay';
+
+/**
+ * First point where the re-simulated match stopped matching the recording
+ */
+export interface ReplayDivergence {
+   tick: number;
+   reason: string;
+}
+
+export interface ReplayResult {
+   /** True if every recorded spawn, checksum and run end was reproduced exactly */
+   matched: boolean;
+   ticks: number;
+   divergence: ReplayDivergence | null;
+   /** What the viewer's client received, if a viewer was given */
+   view: MatchReplayView | null;
+}
+
+/**
+ * Simulates a recorded match again in a headless game, as fast as the simulation runs, and checks that it
+ * plays out exactly like the recording did.
+ */
+export class ReplayRunner {
+   constructor(private readonly replay: MatchReplay) {}
+
+   /**
+    * @param viewer Username of a player to capture the received messages of, to watch the match from their view
+    */
+   public async run(viewer?: string): Promise<ReplayResult> {
+      const transport = new ReplayTransport();
+      const game = new BackendGame(`${this.replay.gameId}-replay`, {
+         minPlayers: this.replay.minPlayers,
+         maxPlayers: this.replay.maxPlayers,
+         mapSeed: this.replay.mapSeed,
+         randomSeed: this.replay.randomSeed,
+         transport,
+         headless: true,
+         recordMatch: true,
+      });
+
+      try {
+         await game.init();
+         if (viewer) {
+            transport.captureFor(viewer, game);
+         }
+
+         let divergence: ReplayDivergence | null = null;
+         for (const entry of this.replay.entries) {
+            divergence = await this.advanceTo(game, entry.tick);
+            if (divergence) break;
+
+            if (entry.type === ReplayEntryType.Message) {
+               game.networkMessageManager.dispatchMessage(entry.eventType, entry.data);
+            } else if (entry.type === ReplayEntryType.RunStart) {
+               // Restarts after a game over were scheduled on a timer, announce them here instead
+               game.startGame();
+               game.beginRun(entry.startTime);
+            }
+         }
+
+         const replayed = game.getMatchRecorder()!.getEntries();
+         divergence = this.findDivergence(this.replay.entries, replayed) ?? divergence;
+
+         return {
+            matched: divergence === null,
+            ticks: game.getPhysicsManager().getGameTick(),
+            divergence,
+            view: viewer
+               ? {
+                    version: this.replay.version,
+                    gameId: this.replay.gameId,
+                    viewer,
+                    messages: transport.getCapturedMessages(),
+                 }
+               : null,
+         };
+      } finally {
+         game.dispose();
+      }
+   }
+
+   private async advanceTo(game: BackendGame, tick: number): Promise<ReplayDivergence | null> {
+      const physicsManager = game.getPhysicsManager();
+
+      while (physicsManager.getGameTick() < tick) {
+         // The recording only moves on to later ticks while a run is going
+         if (!physicsManager.isRunning()) {
+            return {
+               tick: physicsManager.getGameTick(),
+               reason: `game stopped at tick ${physicsManager.getGameTick()}, the recording continues at tick ${tick}`,
+            };
+         }
+
+         physicsManager.advanceTick();
+
+         // Pathfinding results and other promises settle between ticks on the live server as well
+         await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      return null;
+   }
+
+   /**
+    * Compare the entries both games recorded to verify themselves, in order
+    */
+   private findDivergence(expected: readonly ReplayEntry[], actual: readonly ReplayEntry[]): ReplayDivergence | null {
+      const expectedChecks = expected.filter(isVerificationEntry);
+      const actualChecks = actual.filter(isVerificationEntry);
+
+      for (let i = 0; i < expectedChecks.length; i++) {
+         const want = expectedChecks[i];
+         const got = actualChecks[i];
+
+         if (!got) {
+            return { tick: want.tick, reason: `replay ended before the recorded ${want.type} on tick ${want.tick}` };
+         }
+
+         const wantKey = describeEntry(want);
+         const gotKey = describeEntry(got);
+         if (wantKey !== gotKey) {
+            return { tick: Math.min(want.tick, got.tick), reason: `expected ${wantKey}, got ${gotKey}` };
+         }
+      }
+
+      return null;
+   }
+}
+
+function isVerificationEntry(entry: ReplayEntry): boolean {
+   return (
+      entry.type === ReplayEntryType.EnemySpawn ||
+      entry.type === ReplayEntryType.Checksum ||
+      entry.type === ReplayEntryType.RunEnd
+   );
+}
+
+function describeEntry(entry: ReplayEntry): string {
+   switch (entry.type) {
+      case ReplayEntryType.EnemySpawn:
+         return `${entry.type} ${entry.enemyType} ${entry.enemyId} at (${entry.position.x}, ${entry.position.y}) on tick ${entry.tick}`;
+      case ReplayEntryType.Checksum:
+      case ReplayEntryType.RunEnd:
+         return `${entry.type} ${entry.hash} on tick ${entry.tick}`;
+      default:
+         return `${entry.type} on tick ${entry.tick}`;
+   }
+}
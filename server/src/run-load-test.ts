@@ -0,0 +1,114 @@
+// server/src/run-load-test.ts
+import { LoadTestHarness, LoadTestReport, TimingStats } from './bots/LoadTestHarness';
+import { BotBehaviorType } from './bots/BotBehaviors';
+
+const USAGE =
+   'Usage: npm run loadtest -- [--bots <n>] [--seconds <n>] [--behavior <wander|kite|shoot-nearest>] [--seed <n>] [--verbose]';
+
+/**
+ * Runs a game with headless bots on it for a while and prints how the server held up.
+ * The game logs a lot per shot and per tick, so that is muted unless --verbose is given.
+ */
+async function runLoadTest(args: string[]) {
+   let bots = 10;
+   let seconds = 30;
+   let behaviors: BotBehaviorType[] | undefined;
+   let seed: number | undefined;
+   let verbose = false;
+
+   for (let i = 0; i < args.length; i++) {
+      const value = args[i + 1];
+      switch (args[i]) {
+         case '--bots':
+            bots = Number(value);
+            i++;
+            break;
+         case '--seconds':
+            seconds = Number(value);
+            i++;
+            break;
+         case '--behavior':
+            if (!Object.values(BotBehaviorType).includes(value as BotBehaviorType)) {
+               console.error(USAGE);
+               process.exit(2);
+            }
+            behaviors = [value as BotBehaviorType];
+            i++;
+            break;
+         case '--seed':
+            seed = Number(value);
+            i++;
+            break;
+         case '--verbose':
+            verbose = true;
+            break;
+         default:
+            console.error(USAGE);
+            process.exit(2);
+      }
+   }
+
+   if (!Number.isInteger(bots) || bots < 1 || !(seconds > 0) || (seed !== undefined && !Number.isInteger(seed))) {
+      console.error(USAGE);
+      process.exit(2);
+   }
+
+   const log = console.log;
+   if (!verbose) {
+      console.log = () => {};
+   }
+
+   log(`Running ${bots} bots for ${seconds}s...`);
+   const report = await new LoadTestHarness({
+      bots,
+      durationSeconds: seconds,
+      behaviors,
+      mapSeed: seed?.toString(),
+      seed,
+   }).run();
+
+   console.log = log;
+   printReport(report);
+   process.exit(0);
+}
+
+function printReport(report: LoadTestReport) {
+   const timing = (stats: TimingStats) =>
+      `avg ${stats.average.toFixed(2)}ms, p95 ${stats.p95.toFixed(2)}ms, max ${stats.max.toFixed(2)}ms`;
+   const kilobytes = (bytes: number) => `${(bytes / 1024).toFixed(1)}KB/s`;
+
+   console.log(`\n${report.bots} bots, ${report.durationSeconds}s, ${report.serverTicks} server ticks`);
+   console.log(`Tick time:    ${timing(report.tickDuration)}`);
+   console.log(`Physics step: ${timing(report.physicsStepTime)}`);
+   console.log(`Lowest TPS:   ${report.minTps}`);
+
+   console.log(
+      '\nBot             Behavior       Up         Down       Msgs up/s  Msgs down/s  Desync avg/max  Corrections',
+   );
+   for (const bot of report.botReports) {
+      console.log(
+         [
+            bot.username.padEnd(15),
+            bot.behavior.padEnd(14),
+            kilobytes(bot.bytesSentPerSecond).padEnd(10),
+            kilobytes(bot.bytesReceivedPerSecond).padEnd(10),
+            bot.messagesSentPerSecond.toFixed(1).padEnd(10),
+            bot.messagesReceivedPerSecond.toFixed(1).padEnd(12),
+            `${bot.desync.averageError.toFixed(2)}/${bot.desync.maxError.toFixed(2)}px`.padEnd(15),
+            bot.desync.corrections,
+         ].join(' '),
+      );
+   }
+
+   const totalDown = report.botReports.reduce((sum, bot) => sum + bot.bytesReceivedPerSecond, 0);
+   console.log(`\nServer upload: ${kilobytes(totalDown)} total, ${kilobytes(totalDown / report.bots)} per client`);
+   console.log(
+      `Desync: ${report.desync.samples} samples, avg ${report.desync.averageError.toFixed(2)}px, ` +
+         `max ${report.desync.maxError.toFixed(2)}px, ${report.desync.corrections} corrections`,
+   );
+}
+
+runLoadTest(process.argv.slice(2)).catch((error) => {
+   console.error('Failed to run load test:', error);
+   process.exit(1);
+});
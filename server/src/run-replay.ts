@@ -0,0 +1,52 @@
+// server/src/run-replay.ts
+import fs from 'fs/promises';
+import { ReplayRunner } from './replay/ReplayRunner';
+import { ReplayFileCodec } from 'shared/game/replay/ReplayFileCodec';
+import { MatchReplay } from 'shared/game/replay/MatchReplay';
+
+const USAGE = 'Usage: npm run replay -- <file.replay> [--view <username> <out.replay-view>]';
+
+/**
+ * Simulates a recorded match again and checks it ends in the same state.
+ * With --view it also writes what one player received, which the client can play back.
+ */
+async function runReplay(args: string[]) {
+   const [file, ...options] = args;
+   if (!file) {
+      console.error(USAGE);
+      process.exit(2);
+   }
+
+   let viewer: string | undefined;
+   let viewFile: string | undefined;
+   if (options[0] === '--view') {
+      [, viewer, viewFile] = options;
+      if (!viewer || !viewFile) {
+         console.error(USAGE);
+         process.exit(2);
+      }
+   }
+
+   const replay = ReplayFileCodec.decode<MatchReplay>(await fs.readFile(file));
+   console.log(`Replaying ${replay.gameId}: ${replay.entries.length} entries, random seed ${replay.randomSeed}`);
+
+   const result = await new ReplayRunner(replay).run(viewer);
+
+   if (result.view && viewFile) {
+      await fs.writeFile(viewFile, ReplayFileCodec.encode(result.view));
+      console.log(`Wrote ${result.view.messages.length} messages received by ${viewer} to ${viewFile}`);
+   }
+
+   if (result.matched) {
+      console.log(`Replay matched the recording over ${result.ticks} ticks`);
+      process.exit(0);
+   }
+
+   console.error(`Replay diverged on tick ${result.divergence!.tick}: ${result.divergence!.reason}`);
+   process.exit(1);
+}
+
+runReplay(process.argv.slice(2)).catch((error) => {
+   console.error('Failed to run replay:', error);
+   process.exit(1);
+});
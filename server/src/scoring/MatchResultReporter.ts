@@ -0,0 +1,79 @@
+// server/src/scoring/MatchResultReporter.ts
+
+import crypto from 'crypto';
+
+export interface MatchPlayerResult {
+   userId: number;
+   playerClass: string;
+   kills: number;
+   score: number;
+   deaths: number;
+   revives: number;
+   survivedMs: number;
+}
+
+/**
+ * Results of a finished run in the shape the auth service stores them
+ */
+export interface MatchResult {
+   matchId: string;
+   gameId: string;
+   /** Id of the map definition the run was played on, leaderboards rank each map on its own */
+   mapId: string;
+   endedAt: number;
+   durationMs: number;
+   wavesReached: number;
+   players: MatchPlayerResult[];
+}
+
+/**
+ * Sends the results of finished runs to the auth service, which keeps the lifetime stats, match history
+ * and personal bests of registered players. Every submission is signed with a secret only the game
+ * servers and the auth service know, so players can't post results of their own.
+ */
+export class MatchResultReporter {
+   private readonly authServiceUrl: string;
+   private readonly secret: string;
+
+   constructor(
+      authServiceUrl: string = process.env.AUTH_SERVICE_URL || 'http://localhost:4000',
+      secret: string = process.env.MATCH_RESULT_SECRET || 'replace-this-with-a-shared-secret-in-production',
+   ) {
+      this.authServiceUrl = authServiceUrl;
+      this.secret = secret;
+   }
+
+   /**
+    * Submit the results, failures are logged and not retried, a lost match only misses from the stats
+    */
+   public async report(result: MatchResult): Promise<void> {
+      const body = JSON.stringify(result);
+      const timestamp = Date.now().toString();
+
+      try {
+         const response = await fetch(`${this.authServiceUrl}/auth/matches`, {
+            method: 'POST',
+            headers: {
+               'Content-Type': 'application/json',
+               'X-Signature-Timestamp': timestamp,
+               'X-Signature': this.sign(timestamp, body),
+            },
+            body,
+         });
+
+         if (!response.ok) {
+            const error = await response.json().catch(() => ({}));
+            console.error(`Auth service rejected match ${result.matchId}: ${error.message || response.statusText}`);
+         }
+      } catch (error) {
+         console.error(`Failed to submit match ${result.matchId}:`, error);
+      }
+   }
+
+   /**
+    * HMAC-SHA256 over the timestamp and the body, hex encoded, as the auth service checks it
+    */
+   private sign(timestamp: string, body: string): string {
+      return crypto.createHmac('sha256', this.secret).update(`${timestamp}.${body}`).digest('hex');
+   }
+}
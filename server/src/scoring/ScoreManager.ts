@@ -0,0 +1,211 @@
+// server/src/scoring/ScoreManager.ts
+
+import { EnemyType } from 'shared/game/enemies/EnemyInterfaces';
+import { GameEventEmitter } from 'shared/game/events/GameEventEmitter';
+import { EnemyDamageEvent, EnemyDeathEvent } from 'shared/game/events/events/EnemyEvents';
+import { PlayerDeathEvent, PlayerRevivedEvent } from 'shared/game/events/events/PlayerLifecycleEvents';
+import { ClientBound } from 'shared/game/network/SocketEvents';
+import { PlayerScoreStats, ScoreUpdateData } from 'shared/game/network/messages/client-bound/ScoreData';
+import { gameSettings } from 'shared/game/SystemSettings';
+import { BackendGame } from '../BackendGame';
+import { BackendPlayer } from '../BackendPlayer';
+
+type PlayerScoreRecord = Omit<PlayerScoreStats, 'username' | 'displayName'>;
+
+/**
+ * Keeps the score of a run: kills, assists, damage and accuracy per player, deaths and revives, and the
+ * team score they add up to. Kills go to whoever dealt the last hit, or to the last player to damage the
+ * enemy when it died to something else, like poison they left on it.
+ */
+export class ScoreManager {
+   private static readonly ASSIST_SCORE_SHARE = 0.25;
+   private static readonly REVIVE_SCORE = 50;
+
+   private records: Map<string, PlayerScoreRecord> = new Map();
+   private teamScore = 0;
+
+   /** Per enemy, when each player last damaged it, for assists */
+   private recentDamage: Map<string, Map<string, number>> = new Map();
+   private dirty = false;
+
+   private readonly enemyDamageListener = (event: EnemyDamageEvent) => this.handleEnemyDamage(event);
+   private readonly enemyDeathListener = (event: EnemyDeathEvent) => this.handleEnemyDeath(event);
+   private readonly playerRevivedListener = (event: PlayerRevivedEvent) => this.handlePlayerRevived(event);
+   private readonly playerDeathListener = (event: PlayerDeathEvent) => this.handlePlayerDeath(event);
+
+   constructor(private readonly game: BackendGame) {
+      const eventEmitter = GameEventEmitter.getInstance();
+
+      eventEmitter.on(EnemyDamageEvent, this.enemyDamageListener);
+      eventEmitter.on(EnemyDeathEvent, this.enemyDeathListener);
+      eventEmitter.on(PlayerRevivedEvent, this.playerRevivedListener);
+      eventEmitter.on(PlayerDeathEvent, this.playerDeathListener);
+   }
+
+   /**
+    * Called when the game loop starts a new run, everyone starts from zero
+    */
+   public startRun(): void {
+      this.reset();
+      this.dirty = true;
+   }
+
+   public reset(): void {
+      this.records.clear();
+      this.recentDamage.clear();
+      this.teamScore = 0;
+      this.dirty = false;
+   }
+
+   /**
+    * Count a shot towards the player's accuracy
+    * @param landed Whether the shot damaged at least one enemy
+    */
+   public recordShot(player: BackendPlayer, landed: boolean): void {
+      const record = this.getRecord(player.username);
+      record.shotsFired++;
+      if (landed) {
+         record.shotsHit++;
+      }
+
+      this.dirty = true;
+   }
+
+   public handlePlayerLeave(username: string): void {
+      this.records.delete(username);
+      this.recentDamage.forEach((damagers) => damagers.delete(username));
+      this.dirty = true;
+   }
+
+   /**
+    * Scores of the players still in the game, best first
+    */
+   public getScoreboard(): ScoreUpdateData {
+      const players = Array.from(this.game.getPlayerManager().getPlayers().values()).map((player) => ({
+         username: player.username,
+         displayName: player.playerData.displayName,
+         ...this.getRecord(player.username),
+      }));
+
+      players.sort((a, b) => b.score - a.score);
+
+      return { teamScore: this.teamScore, players };
+   }
+
+   /**
+    * Send the scoreboard to everyone if anything changed since it was last sent
+    */
+   public sendUpdate(): void {
+      if (!this.dirty) return;
+      this.dirty = false;
+
+      this.game.getServerTransport().broadcast(ClientBound.ScoreUpdate, this.getScoreboard());
+   }
+
+   public destroy(): void {
+      const eventEmitter = GameEventEmitter.getInstance();
+
+      eventEmitter.off(EnemyDamageEvent, this.enemyDamageListener);
+      eventEmitter.off(EnemyDeathEvent, this.enemyDeathListener);
+      eventEmitter.off(PlayerRevivedEvent, this.playerRevivedListener);
+      eventEmitter.off(PlayerDeathEvent, this.playerDeathListener);
+   }
+
+   private handleEnemyDamage(event: EnemyDamageEvent): void {
+      const player = this.getOwnPlayer(event.source);
+      if (!player || event.damage <= 0) return;
+
+      this.getRecord(player.username).damageDealt += event.damage;
+
+      let damagers = this.recentDamage.get(event.enemy.id);
+      if (!damagers) {
+         damagers = new Map();
+         this.recentDamage.set(event.enemy.id, damagers);
+      }
+      damagers.set(player.username, this.game.getSimulation().now());
+
+      this.dirty = true;
+   }
+
+   private handleEnemyDeath(event: EnemyDeathEvent): void {
+      const damagers = this.recentDamage.get(event.enemy.id);
+      this.recentDamage.delete(event.enemy.id);
+
+      const now = this.game.getSimulation().now();
+      const recentDamagers = Array.from(damagers ?? [])
+         .filter(([, damagedAt]) => now - damagedAt <= gameSettings.assistWindowMs)
+         .sort(([, a], [, b]) => b - a)
+         .map(([username]) => username);
+
+      const killer = this.getOwnPlayer(event.killer)?.username ?? recentDamagers[0];
+      if (!killer) return;
+
+      const killerRecord = this.getRecord(killer);
+      const enemyType: EnemyType = event.enemy.enemyType;
+      killerRecord.kills++;
+      killerRecord.killsByEnemyType[enemyType] = (killerRecord.killsByEnemyType[enemyType] ?? 0) + 1;
+      this.addScore(killerRecord, event.scoreValue);
+
+      const assistScore = Math.round(event.scoreValue * ScoreManager.ASSIST_SCORE_SHARE);
+      for (const username of recentDamagers) {
+         if (username === killer) continue;
+
+         const record = this.getRecord(username);
+         record.assists++;
+         this.addScore(record, assistScore);
+      }
+
+      this.dirty = true;
+   }
+
+   private handlePlayerRevived(event: PlayerRevivedEvent): void {
+      if (event.gameId !== this.game.gameId) return;
+
+      const record = this.getRecord(event.reviver.username);
+      record.revives++;
+      this.addScore(record, ScoreManager.REVIVE_SCORE);
+      this.dirty = true;
+   }
+
+   private handlePlayerDeath(event: PlayerDeathEvent): void {
+      if (event.gameId !== this.game.gameId) return;
+
+      this.getRecord(event.getPlayer().username).deaths++;
+      this.dirty = true;
+   }
+
+   private addScore(record: PlayerScoreRecord, score: number): void {
+      record.score += score;
+      this.teamScore += score;
+   }
+
+   /**
+    * The source as one of this game's players, enemy events carry no game id and every game in the
+    * process hears them
+    */
+   private getOwnPlayer(source: unknown): BackendPlayer | null {
+      if (!(source instanceof BackendPlayer)) return null;
+
+      return this.game.getPlayerManager().getPlayerByUsername(source.username) === source ? source : null;
+   }
+
+   private getRecord(username: string): PlayerScoreRecord {
+      let record = this.records.get(username);
+      if (!record) {
+         record = {
+            score: 0,
+            kills: 0,
+            killsByEnemyType: {},
+            assists: 0,
+            damageDealt: 0,
+            shotsFired: 0,
+            shotsHit: 0,
+            deaths: 0,
+            revives: 0,
+         };
+         this.records.set(username, record);
+      }
+
+      return record;
+   }
+}
@@ -1,23 +1,50 @@
 // server/src/index.ts
-import { BackendGame } from './BackendGame';
+import express from 'express';
+import cors from 'cors';
+import { GameManager } from './GameManager';
+import { createLobbyController } from './controllers/LobbyController';
 import { config } from 'shared/game/SystemSettings';
+import { MatchResultReporter } from './scoring/MatchResultReporter';
+import { initAuthMiddleware } from './middleware/AuthMiddleware';
 
 const PORT = Number(process.env.PORT || config.port || 3000);
+const MAX_GAMES = Number(process.env.MAX_GAMES || 8);
 
-async function startGame() {
-   const game = new BackendGame('game-1');
+async function startServer() {
+   // Games listen on the ports right after the lobby API
+   const gameManager = new GameManager({
+      basePort: PORT + 1,
+      maxGames: MAX_GAMES,
+      replayDirectory: process.env.REPLAY_DIR,
+      matchResultReporter: new MatchResultReporter(),
+   });
+
+   initAuthMiddleware(process.env.AUTH_SERVICE_URL || 'http://localhost:4000');
+
+   const app = express();
+   app.use(
+      cors({
+         origin: 'http://localhost:9000',
+         credentials: true,
+      }),
+   );
+   app.use(express.json());
+   app.use('/lobby', createLobbyController(gameManager));
 
    try {
-      await game.init(PORT);
+      app.listen(PORT, () => {
+         console.log(`Lobby server running on port ${PORT}`);
+      });
 
       process.on('SIGINT', async () => {
          console.log('Shutting down server...');
+         gameManager.disposeAll();
          process.exit(0);
       });
    } catch (error) {
-      console.error('Failed to start game:', error);
+      console.error('Failed to start server:', error);
       process.exit(1);
    }
 }
 
-startGame();
+startServer();
@@ -0,0 +1,123 @@
+// server/src/snapshots/ClientBaselines.ts
+
+import { NO_BASELINE_TICK } from 'shared/game/network/messages/client-bound/SnapshotData';
+import { gameSettings } from 'shared/game/SystemSettings';
+
+/**
+ * State of every entity in one snapshot, keyed by entity id
+ */
+export type SnapshotStates<T> = Map<string, T>;
+
+export interface Baseline<T> {
+   tick: number;
+   states: SnapshotStates<T>;
+}
+
+interface ClientHistory<T> {
+   // Ticks only ever increase, so insertion order is also oldest to newest
+   sent: Map<number, SnapshotStates<T>>;
+   ackedTick: number;
+}
+
+/**
+ * Remembers, per client, what each snapshot of one stream left that client believing, so the next one can be
+ * a delta against the newest snapshot the client acknowledged. Deltas are only ever computed against an
+ * acknowledged snapshot, so a dropped packet just means the next delta is a bit larger.
+ */
+export class ClientBaselines<T> {
+   private clients: Map<string, ClientHistory<T>> = new Map();
+
+   constructor(private readonly historyTicks: number = gameSettings.snapshotHistoryTicks) {}
+
+   /**
+    * The newest acknowledged snapshot that is still kept
+    * @returns null if the client needs the full state
+    */
+   public getBaseline(username: string): Baseline<T> | null {
+      const client = this.clients.get(username);
+      if (!client || client.ackedTick === NO_BASELINE_TICK) return null;
+
+      const states = client.sent.get(client.ackedTick);
+      return states ? { tick: client.ackedTick, states } : null;
+   }
+
+   /**
+    * Whether the states differ from what the newest snapshot sent to the client left it believing. The client
+    * may already have applied snapshots it has not acknowledged yet, so an entity that is back at its baseline
+    * state still needs a snapshot, even one that leaves everything out, to take the client back there.
+    * @param isSame Whether two states of the same entity look the same to the client
+    */
+   public differsFromLatestSent(
+      username: string,
+      states: SnapshotStates<T>,
+      isSame: (previous: T, current: T) => boolean,
+   ): boolean {
+      const client = this.clients.get(username);
+      const latest = (client && Array.from(client.sent.values()).pop()) ?? new Map<string, T>();
+      if (latest.size !== states.size) return true;
+
+      for (const [entityId, state] of states) {
+         const previous = latest.get(entityId);
+         if (!previous || !isSame(previous, state)) return true;
+      }
+
+      return false;
+   }
+
+   /**
+    * Store what the client will know once it has applied the snapshot sent at this tick
+    */
+   public record(username: string, tick: number, states: SnapshotStates<T>): void {
+      let client = this.clients.get(username);
+      if (!client) {
+         client = { sent: new Map(), ackedTick: NO_BASELINE_TICK };
+         this.clients.set(username, client);
+      }
+
+      client.sent.set(tick, states);
+
+      for (const sentTick of client.sent.keys()) {
+         if (sentTick > tick - this.historyTicks) break;
+         client.sent.delete(sentTick);
+      }
+   }
+
+   /**
+    * Move the client's baseline forward. Acks for snapshots that were never sent, have expired or are older
+    * than the current baseline are ignored.
+    */
+   public acknowledge(username: string, tick: number): void {
+      const client = this.clients.get(username);
+      if (!client || tick <= client.ackedTick || !client.sent.has(tick)) return;
+
+      client.ackedTick = tick;
+
+      // Later deltas are never computed against anything older than the new baseline
+      for (const sentTick of client.sent.keys()) {
+         if (sentTick >= tick) break;
+         client.sent.delete(sentTick);
+      }
+   }
+
+   /**
+    * Drop one entity from every stored snapshot, so it counts as changed for all clients
+    */
+   public forgetEntity(entityId: string): void {
+      for (const client of this.clients.values()) {
+         for (const states of client.sent.values()) {
+            states.delete(entityId);
+         }
+      }
+   }
+
+   public removeClient(username: string): void {
+      this.clients.delete(username);
+   }
+
+   /**
+    * Forget every baseline, all clients get the full state next
+    */
+   public clear(): void {
+      this.clients.clear();
+   }
+}
@@ -0,0 +1,181 @@
+// server/src/snapshots/InterestManager.ts
+
+import { BaseEnemy } from 'shared/game/enemies/BaseEnemy';
+import { EnemyDespawnReason, EnemyNetworkEventBuilder } from 'shared/game/network/messages/EnemyNetworkEvents';
+import { ClientBound } from 'shared/game/network/SocketEvents';
+import { Position } from 'shared/game/Position';
+import { BackendGame } from '../BackendGame';
+
+/**
+ * Decides which entities each client hears about. A client's area of interest is the set of map chunks it is
+ * subscribed to, entities outside of it are not replicated to that client at all. Enemies are spawned and
+ * despawned on the client as they enter and leave, other players are hidden. Hazards on the ground are sent once,
+ * when they first come into view, and the client keeps them until they expire.
+ */
+export class InterestManager {
+   private enemiesInView: Map<string, Set<string>> = new Map();
+   private playersInView: Map<string, Set<string>> = new Map();
+   private damageAreasSent: Map<string, Set<string>> = new Map();
+
+   constructor(private readonly game: BackendGame) {}
+
+   /**
+    * Recompute which enemies each client knows about, spawning the ones that came into view and despawning
+    * the ones that left it
+    */
+   public updateEnemyRelevance(): void {
+      const enemies = this.game.getEnemyManager().getAllEnemies();
+
+      for (const username of this.game.getPlayerManager().getPlayers().keys()) {
+         const previous = this.enemiesInView.get(username) ?? new Set<string>();
+         const current = new Set<string>();
+         const entered: BaseEnemy[] = [];
+
+         for (const enemy of enemies) {
+            if (!this.isInView(username, enemy.position)) continue;
+
+            current.add(enemy.id);
+            if (!previous.has(enemy.id)) entered.push(enemy);
+         }
+
+         const left = Array.from(previous).filter((enemyId) => !current.has(enemyId));
+         this.enemiesInView.set(username, current);
+
+         if (entered.length > 0) {
+            this.sendEnemySpawn(username, entered);
+         }
+
+         if (left.length > 0) {
+            const despawnData = EnemyNetworkEventBuilder.buildDespawnData(left, 'out_of_view');
+            this.game.getServerTransport().sendToPlayer(username, ClientBound.EnemyDespawn, despawnData);
+         }
+      }
+   }
+
+   /**
+    * Recompute which other players each client gets updates for, and send the new list to every client whose
+    * list changed
+    */
+   public updatePlayerRelevance(): void {
+      const players = this.game.getPlayerManager().getPlayers();
+
+      for (const username of players.keys()) {
+         const previous = this.playersInView.get(username);
+         const current = new Set<string>();
+
+         for (const [otherUsername, player] of players) {
+            if (otherUsername !== username && this.isInView(username, player.position)) {
+               current.add(otherUsername);
+            }
+         }
+
+         this.playersInView.set(username, current);
+
+         if (previous && previous.size === current.size && Array.from(current).every((name) => previous.has(name))) {
+            continue;
+         }
+
+         this.game
+            .getServerTransport()
+            .sendToPlayer(username, ClientBound.PlayersInView, { usernames: Array.from(current) });
+      }
+   }
+
+   /**
+    * Send the hazards that came into a client's view for the first time, with the time they have left
+    */
+   public updateDamageAreaRelevance(): void {
+      const areas = this.game.getEnemyManager().getProjectileManager().getActiveDamageAreas();
+      const activeIds = new Set(areas.map((area) => area.areaId));
+
+      for (const username of this.game.getPlayerManager().getPlayers().keys()) {
+         const sent = this.damageAreasSent.get(username) ?? new Set<string>();
+
+         for (const areaId of sent) {
+            if (!activeIds.has(areaId)) sent.delete(areaId);
+         }
+
+         for (const area of areas) {
+            if (sent.has(area.areaId) || !this.isInView(username, area.position)) continue;
+
+            sent.add(area.areaId);
+            this.game.getServerTransport().sendToPlayer(username, ClientBound.DamageAreaSpawn, area);
+         }
+
+         this.damageAreasSent.set(username, sent);
+      }
+   }
+
+   /**
+    * Stop tracking an enemy that no longer exists and despawn it on the clients that knew about it
+    */
+   public removeEnemy(enemyId: string, reason: EnemyDespawnReason): void {
+      const despawnData = EnemyNetworkEventBuilder.buildDespawnData([enemyId], reason);
+
+      for (const [username, enemyIds] of this.enemiesInView) {
+         if (enemyIds.delete(enemyId)) {
+            this.game.getServerTransport().sendToPlayer(username, ClientBound.EnemyDespawn, despawnData);
+         }
+      }
+   }
+
+   public getEnemiesInView(username: string): ReadonlySet<string> {
+      return this.enemiesInView.get(username) ?? new Set();
+   }
+
+   /**
+    * Usernames of the clients that currently know about this enemy
+    */
+   public getEnemyViewers(enemyId: string): string[] {
+      return Array.from(this.enemiesInView)
+         .filter(([, enemyIds]) => enemyIds.has(enemyId))
+         .map(([username]) => username);
+   }
+
+   /**
+    * Check if the viewer gets updates for a player, every client always gets its own
+    */
+   public isPlayerInView(viewer: string, username: string): boolean {
+      return viewer === username || (this.playersInView.get(viewer)?.has(username) ?? false);
+   }
+
+   /**
+    * Usernames of the clients that currently get updates for this player, the player included
+    */
+   public getPlayerViewers(username: string): string[] {
+      return Array.from(this.game.getPlayerManager().getPlayers().keys()).filter((viewer) =>
+         this.isPlayerInView(viewer, username),
+      );
+   }
+
+   /**
+    * Check if a world position lies in the client's area of interest
+    */
+   public isInView(username: string, position: Position): boolean {
+      return this.game.getMapSystem().getChunkManager().isInPlayerView(username, position);
+   }
+
+   public removeClient(username: string): void {
+      this.enemiesInView.delete(username);
+      this.playersInView.delete(username);
+      this.damageAreasSent.delete(username);
+
+      for (const usernames of this.playersInView.values()) {
+         usernames.delete(username);
+      }
+   }
+
+   private sendEnemySpawn(username: string, enemies: BaseEnemy[]): void {
+      const spawnData = EnemyNetworkEventBuilder.buildSpawnData(
+         enemies.map((enemy) => ({
+            id: enemy.id,
+            type: enemy.enemyType,
+            level: enemy.level,
+            position: enemy.position,
+            rotation: enemy.rotationDegrees,
+         })),
+      );
+
+      this.game.getServerTransport().sendToPlayer(username, ClientBound.EnemySpawn, spawnData);
+   }
+}
@@ -0,0 +1,158 @@
+// server/src/snapshots/SnapshotManager.ts
+
+import { PlayerMovementState, PlayerSnapshotData } from 'shared/game/network/messages/client-bound/PlayerMovementState';
+import { NO_BASELINE_TICK, SnapshotStream } from 'shared/game/network/messages/client-bound/SnapshotData';
+import { GunStateSnapshotData, GunStateSync } from 'shared/game/network/messages/ReloadMessages';
+import { SnapshotAck } from 'shared/game/network/messages/server-bound/SnapshotAck';
+import { Position } from 'shared/game/Position';
+import { gameSettings } from 'shared/game/SystemSettings';
+import { MathUtil } from 'shared/util/MathUtil';
+import { BackendGame } from '../BackendGame';
+import { ClientBaselines, SnapshotStates } from './ClientBaselines';
+
+interface PlayerBaselineState {
+   position: Position;
+   rotation: number;
+}
+
+/**
+ * Builds the player and gun snapshots each client gets and routes acknowledgements for every stream,
+ * enemies included. Player and gun entries are always complete, a delta only leaves out the players and
+ * guns that have not changed since the client's baseline and the client rebuilds the rest from there.
+ */
+export class SnapshotManager {
+   private playerBaselines: ClientBaselines<PlayerBaselineState> = new ClientBaselines();
+   private gunBaselines: ClientBaselines<GunStateSync> = new ClientBaselines();
+
+   constructor(private readonly game: BackendGame) {}
+
+   /**
+    * @param states Movement state of every player this tick
+    * @param timestamp Server time of the tick
+    * @returns null if the viewer already got every player's state
+    */
+   public buildPlayerSnapshot(
+      viewer: string,
+      states: PlayerMovementState[],
+      tick: number,
+      timestamp: number,
+   ): PlayerSnapshotData | null {
+      const baseline = this.playerBaselines.getBaseline(viewer);
+      const clientStates: SnapshotStates<PlayerBaselineState> = new Map();
+      const players: PlayerMovementState[] = [];
+
+      for (const state of states) {
+         const player = this.game.getPlayerManager().getPlayerByUsername(state.username);
+         if (!player) continue;
+
+         const current = { position: { ...state.position }, rotation: player.rotationRadians };
+         const previous = baseline?.states.get(state.username);
+
+         if (previous && !this.hasPlayerMoved(previous, current)) {
+            clientStates.set(state.username, previous);
+         } else {
+            clientStates.set(state.username, current);
+            players.push(state);
+         }
+      }
+
+      if (
+         players.length === 0 &&
+         !this.playerBaselines.differsFromLatestSent(
+            viewer,
+            clientStates,
+            (previous, current) => !this.hasPlayerMoved(previous, current),
+         )
+      ) {
+         return null;
+      }
+
+      this.playerBaselines.record(viewer, tick, clientStates);
+      return { tick, baselineTick: baseline?.tick ?? NO_BASELINE_TICK, players, timestamp };
+   }
+
+   /**
+    * @param guns State of every gun this tick
+    * @returns null if the viewer already got every gun's state
+    */
+   public buildGunSnapshot(viewer: string, guns: GunStateSync[], tick: number): GunStateSnapshotData | null {
+      const baseline = this.gunBaselines.getBaseline(viewer);
+      const clientStates: SnapshotStates<GunStateSync> = new Map();
+      const changed: GunStateSync[] = [];
+
+      for (const gun of guns) {
+         const previous = baseline?.states.get(gun.gunId);
+         clientStates.set(gun.gunId, gun);
+
+         if (!previous || this.hasGunChanged(previous, gun)) {
+            changed.push(gun);
+         }
+      }
+
+      if (
+         changed.length === 0 &&
+         !this.gunBaselines.differsFromLatestSent(
+            viewer,
+            clientStates,
+            (previous, current) => !this.hasGunChanged(previous, current),
+         )
+      ) {
+         return null;
+      }
+
+      this.gunBaselines.record(viewer, tick, clientStates);
+      return { tick, baselineTick: baseline?.tick ?? NO_BASELINE_TICK, guns: changed };
+   }
+
+   public acknowledge(username: string, ack: SnapshotAck): void {
+      switch (ack.stream) {
+         case SnapshotStream.Players:
+            this.playerBaselines.acknowledge(username, ack.tick);
+            break;
+         case SnapshotStream.Enemies:
+            this.game.getEnemyManager().getDeltaManager().acknowledge(username, ack.tick);
+            break;
+         case SnapshotStream.Guns:
+            this.gunBaselines.acknowledge(username, ack.tick);
+            break;
+      }
+   }
+
+   /**
+    * Make every client get this player's movement state again even if it has not moved, used when the player
+    * is replaced. A new gun has a state of its own and is compared as usual.
+    */
+   public forgetPlayer(username: string): void {
+      this.playerBaselines.forgetEntity(username);
+   }
+
+   public removeClient(username: string): void {
+      this.playerBaselines.removeClient(username);
+      this.gunBaselines.removeClient(username);
+      this.game.getEnemyManager().getDeltaManager().removeClient(username);
+   }
+
+   /**
+    * Send players and guns in full on the next tick, used when a new run starts
+    */
+   public reset(): void {
+      this.playerBaselines.clear();
+      this.gunBaselines.clear();
+   }
+
+   private hasPlayerMoved(previous: PlayerBaselineState, current: PlayerBaselineState): boolean {
+      return (
+         MathUtil.distance(previous.position, current.position) >= gameSettings.minLinearDistanceToUpdateMovement ||
+         Math.abs(previous.rotation - current.rotation) >= gameSettings.minAngularDiffToUpdateMovementRadians
+      );
+   }
+
+   private hasGunChanged(previous: GunStateSync, current: GunStateSync): boolean {
+      return (
+         previous.currentAmmo !== current.currentAmmo ||
+         previous.isReloading !== current.isReloading ||
+         previous.reloadStartTick !== current.reloadStartTick ||
+         previous.lastShotTick !== current.lastShotTick
+      );
+   }
+}
@@ -0,0 +1,48 @@
+import net from 'net';
+import { GameManager } from '../src/GameManager';
+
+/**
+ * Hold a free port until the returned server is closed
+ */
+async function bindPort(): Promise<net.Server> {
+   const server = net.createServer();
+   await new Promise<void>((resolve) => server.listen(0, resolve));
+   return server;
+}
+
+describe('GameManager', () => {
+   let manager: GameManager;
+   let blocker: net.Server;
+
+   beforeEach(async () => {
+      blocker = await bindPort();
+      manager = new GameManager({
+         basePort: (blocker.address() as net.AddressInfo).port,
+         maxGames: 1,
+         udpPortRangeStart: 20000,
+      });
+   });
+
+   afterEach(async () => {
+      manager.disposeAll();
+      if (blocker.listening) {
+         await new Promise((resolve) => blocker.close(resolve));
+      }
+   });
+
+   it('should not keep a game whose port is already in use', async () => {
+      await expect(manager.createGame()).rejects.toThrow(/EADDRINUSE/);
+
+      expect(manager.listGames()).toHaveLength(0);
+      expect(manager.hasRunningGame()).toBe(false);
+   });
+
+   it('should free the slot of a game that failed to start', async () => {
+      await expect(manager.createGame()).rejects.toThrow();
+
+      await new Promise((resolve) => blocker.close(resolve));
+      const game = await manager.createGame();
+
+      expect(manager.listGames().map((info) => info.gameId)).toEqual([game.gameId]);
+   });
+});
@@ -0,0 +1,114 @@
+import { LoopbackLink } from '../src/network/LoopbackLink';
+import { LoopbackPacket } from '../src/network/LoopbackPacket';
+import { SeededRandom } from 'shared/util/SeededRandom';
+import { ClientBound } from 'shared/game/network/SocketEvents';
+
+const packet = (index: number, reliable: boolean): LoopbackPacket => ({
+   eventType: reliable ? ClientBound.StartGame : ClientBound.UpdateAllPlayers,
+   reliable,
+   payload: String(index),
+});
+
+/**
+ * Send numbered packets one millisecond apart and collect the order they arrive in
+ */
+async function sendAll(link: LoopbackLink, count: number, reliable: boolean): Promise<number[]> {
+   const delivered: number[] = [];
+   for (let i = 0; i < count; i++) {
+      link.send(packet(i, reliable), () => delivered.push(i));
+      await jest.advanceTimersByTimeAsync(1);
+   }
+
+   await jest.advanceTimersByTimeAsync(10000);
+   return delivered;
+}
+
+describe('LoopbackLink', () => {
+   beforeEach(() => {
+      jest.useFakeTimers();
+   });
+
+   afterEach(() => {
+      jest.useRealTimers();
+   });
+
+   test('should deliver after the current task without conditions', async () => {
+      const link = new LoopbackLink(new SeededRandom(1));
+      const deliver = jest.fn();
+
+      link.send(packet(0, false), deliver);
+      expect(deliver).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(deliver).toHaveBeenCalledTimes(1);
+   });
+
+   test('should delay every message by the latency', async () => {
+      const link = new LoopbackLink(new SeededRandom(1), { latencyMs: 50 });
+      const deliver = jest.fn();
+
+      link.send(packet(0, true), deliver);
+      link.send(packet(1, false), deliver);
+
+      await jest.advanceTimersByTimeAsync(49);
+      expect(deliver).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(deliver).toHaveBeenCalledTimes(2);
+   });
+
+   test('should deliver every reliable message in order whatever the conditions', async () => {
+      const link = new LoopbackLink(new SeededRandom(1), {
+         latencyMs: 30,
+         jitterMs: 25,
+         packetLoss: 0.5,
+         reorder: 0.5,
+      });
+
+      const delivered = await sendAll(link, 100, true);
+
+      expect(delivered).toEqual(Array.from({ length: 100 }, (_, i) => i));
+      expect(link.getStats()).toEqual({ dropped: 0, reordered: 0 });
+   });
+
+   test('should lose unreliable messages', async () => {
+      const link = new LoopbackLink(new SeededRandom(1), { packetLoss: 0.25 });
+
+      const delivered = await sendAll(link, 400, false);
+
+      expect(link.getStats().dropped).toBe(400 - delivered.length);
+      expect(delivered.length).toBeGreaterThan(250);
+      expect(delivered.length).toBeLessThan(350);
+   });
+
+   test('should reorder unreliable messages', async () => {
+      const link = new LoopbackLink(new SeededRandom(1), { latencyMs: 20, reorder: 0.2 });
+
+      const delivered = await sendAll(link, 100, false);
+
+      expect(delivered).toHaveLength(100);
+      expect(delivered).not.toEqual([...delivered].sort((a, b) => a - b));
+      expect(link.getStats().reordered).toBeGreaterThan(0);
+   });
+
+   test('should condition the same way for the same seed', async () => {
+      const conditions = { latencyMs: 40, jitterMs: 30, packetLoss: 0.1, reorder: 0.1 };
+
+      const first = await sendAll(new LoopbackLink(new SeededRandom(42), conditions), 200, false);
+      const second = await sendAll(new LoopbackLink(new SeededRandom(42), conditions), 200, false);
+
+      expect(second).toEqual(first);
+   });
+
+   test('should drop messages on their way when cleared', async () => {
+      const link = new LoopbackLink(new SeededRandom(1), { latencyMs: 50 });
+      const deliver = jest.fn();
+
+      link.send(packet(0, true), deliver);
+      link.send(packet(1, false), deliver);
+      link.clear();
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(deliver).not.toHaveBeenCalled();
+   });
+});
@@ -0,0 +1,174 @@
+import { BackendGame } from '../src/BackendGame';
+import { LoopbackServerTransport } from '../src/network/LoopbackServerTransport';
+import { LoopbackClientTransport } from '../src/network/LoopbackClientTransport';
+import { LoopbackConditions } from '../src/network/LoopbackLink';
+import { HeadlessClient } from '../src/bots/HeadlessClient';
+import { BotIntent, BotView, IBotBehavior } from '../src/bots/BotBehaviors';
+import { PlayerTypeEnum } from 'shared/game/PlayerTypes';
+
+/**
+ * Walks a square, a side every second, so the player keeps moving and turning. Never aims or shoots.
+ */
+class WalkSquareBehavior implements IBotBehavior {
+   public readonly type = 'walk-square';
+   private ticks = 0;
+
+   public decide(view: BotView): BotIntent {
+      const directions = [
+         { x: 1, y: 0 },
+         { x: 0, y: 1 },
+         { x: -1, y: 0 },
+         { x: 0, y: -1 },
+      ];
+      const side = Math.floor(this.ticks++ / 25) % directions.length;
+
+      return { move: directions[side], aimAt: null, shoot: false };
+   }
+}
+
+interface Match {
+   game: BackendGame;
+   clients: HeadlessClient[];
+   transports: LoopbackClientTransport[];
+}
+
+/**
+ * Start a game for the given number of players, each a headless client over a loopback connection, and
+ * play until the run has started
+ */
+async function startMatch(players: number, conditions: LoopbackConditions = {}): Promise<Match> {
+   const serverTransport = new LoopbackServerTransport();
+   const game = new BackendGame('loopback-test', {
+      minPlayers: players,
+      maxPlayers: players,
+      mapSeed: 'loopback-test',
+      randomSeed: 1,
+      transport: serverTransport,
+   });
+   await game.init();
+
+   const clients: HeadlessClient[] = [];
+   const transports: LoopbackClientTransport[] = [];
+   for (let i = 0; i < players; i++) {
+      const username = `player-${i + 1}`;
+      const transport = new LoopbackClientTransport(serverTransport);
+      const client = new HeadlessClient(transport, {
+         username,
+         behavior: new WalkSquareBehavior(),
+         playerType: PlayerTypeEnum.Assault,
+      });
+
+      await client.init();
+      await transport.connect({ username, conditions, seed: i + 1 });
+      client.join();
+
+      clients.push(client);
+      transports.push(transport);
+   }
+
+   // Joining, then the second until the scheduled start
+   await jest.advanceTimersByTimeAsync(1500);
+
+   return { game, clients, transports };
+}
+
+function stopMatch(match: Match | null): void {
+   match?.clients.forEach((client) => client.dispose());
+   match?.game.dispose();
+}
+
+describe('Loopback integration', () => {
+   let match: Match | null = null;
+
+   beforeEach(() => {
+      // The games read the clock as timeOrigin plus now, which the faked performance object breaks. Keep the
+      // real one and let it follow the faked Date instead.
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask', 'performance'] });
+      jest.spyOn(performance, 'now').mockImplementation(() => Date.now() - performance.timeOrigin);
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      stopMatch(match);
+      match = null;
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+   });
+
+   test('should start the game once every player joined', async () => {
+      match = await startMatch(2);
+
+      expect(match.game.isGameStarted()).toBe(true);
+      expect(match.clients.every((client) => client.getPlayer() !== null)).toBe(true);
+      expect(match.clients.every((client) => client.getPhysicsManager().isRunning())).toBe(true);
+   });
+
+   test('should stream the chunks around the player', async () => {
+      match = await startMatch(1);
+      const client = match.clients[0];
+
+      expect(client.getLoadedChunkCount()).toBeGreaterThan(0);
+   });
+
+   test('should predict movement the server agrees with on a perfect connection', async () => {
+      match = await startMatch(1);
+      const client = match.clients[0];
+      const start = { ...client.getPlayer()!.position };
+
+      await jest.advanceTimersByTimeAsync(4000);
+
+      const desync = client.getDesyncStats();
+      expect(client.getPlayer()!.position).not.toEqual(start);
+      expect(desync.samples).toBeGreaterThan(50);
+      expect(desync.corrections).toBe(0);
+   });
+
+   test('should keep predicting without corrections on a bad connection', async () => {
+      match = await startMatch(1, { latencyMs: 80, jitterMs: 30, packetLoss: 0.1, reorder: 0.05 });
+      const client = match.clients[0];
+
+      await jest.advanceTimersByTimeAsync(4000);
+
+      const desync = client.getDesyncStats();
+      const stats = match.transports[0].getLinkStats();
+      expect(stats.upstream.dropped + stats.downstream.dropped).toBeGreaterThan(0);
+      expect(desync.samples).toBeGreaterThan(20);
+      expect(desync.corrections).toBe(0);
+   });
+
+   test('should reconcile to the server position when the prediction is off', async () => {
+      match = await startMatch(1, { latencyMs: 50 });
+      const client = match.clients[0];
+      await jest.advanceTimersByTimeAsync(1000);
+
+      const serverPlayer = match.game.getPlayerManager().getPlayers().get('player-1')!;
+      const moved = { x: serverPlayer.position.x + 200, y: serverPlayer.position.y };
+      serverPlayer.setPosition(moved);
+
+      await jest.advanceTimersByTimeAsync(500);
+
+      expect(client.getDesyncStats().corrections).toBeGreaterThan(0);
+      expect(Math.abs(client.getPlayer()!.position.x - serverPlayer.position.x)).toBeLessThan(30);
+   });
+
+   test('should play out the same for the same seeds', async () => {
+      const conditions = { latencyMs: 60, jitterMs: 20, packetLoss: 0.05 };
+
+      match = await startMatch(1, conditions);
+      await jest.advanceTimersByTimeAsync(3000);
+      const first = {
+         position: { ...match.clients[0].getPlayer()!.position },
+         desync: match.clients[0].getDesyncStats(),
+      };
+      stopMatch(match);
+
+      match = await startMatch(1, conditions);
+      await jest.advanceTimersByTimeAsync(3000);
+      const second = {
+         position: { ...match.clients[0].getPlayer()!.position },
+         desync: match.clients[0].getDesyncStats(),
+      };
+
+      expect(second).toEqual(first);
+   });
+});
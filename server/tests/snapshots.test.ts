@@ -0,0 +1,70 @@
+import { ClientBaselines } from '../src/snapshots/ClientBaselines';
+import { SnapshotBuffer } from 'shared/game/network/SnapshotBuffer';
+import { NO_BASELINE_TICK } from 'shared/game/network/messages/client-bound/SnapshotData';
+
+interface AmmoState {
+   gunId: string;
+   ammo: number;
+}
+
+const isSame = (previous: AmmoState, current: AmmoState) => previous.ammo === current.ammo;
+
+/**
+ * The server side of one stream for one client, leaving out the guns that match the client's baseline
+ */
+function buildSnapshot(baselines: ClientBaselines<AmmoState>, tick: number, guns: AmmoState[]) {
+   const baseline = baselines.getBaseline('client');
+   const states = new Map(guns.map((gun) => [gun.gunId, gun]));
+   const changed = guns.filter((gun) => {
+      const previous = baseline?.states.get(gun.gunId);
+      return !previous || !isSame(previous, gun);
+   });
+
+   if (changed.length === 0 && !baselines.differsFromLatestSent('client', states, isSame)) return null;
+
+   baselines.record('client', tick, states);
+   return { tick, baselineTick: baseline?.tick ?? NO_BASELINE_TICK, guns: changed };
+}
+
+describe('Snapshot deltas', () => {
+   let baselines: ClientBaselines<AmmoState>;
+   let buffer: SnapshotBuffer<AmmoState>;
+
+   beforeEach(() => {
+      baselines = new ClientBaselines();
+      buffer = new SnapshotBuffer((state) => state.gunId);
+   });
+
+   it('should take the client back to the baseline state after an unacknowledged change', () => {
+      const first = buildSnapshot(baselines, 1, [{ gunId: 'gun', ammo: 30 }])!;
+      buffer.apply(first, first.guns);
+      baselines.acknowledge('client', 1);
+
+      // Applied by the client, but its ack has not reached the server yet
+      const second = buildSnapshot(baselines, 2, [{ gunId: 'gun', ammo: 29 }])!;
+      expect(buffer.apply(second, second.guns)?.changed).toEqual([{ gunId: 'gun', ammo: 29 }]);
+
+      const third = buildSnapshot(baselines, 3, [{ gunId: 'gun', ammo: 30 }]);
+      expect(third).toEqual({ tick: 3, baselineTick: 1, guns: [] });
+      expect(buffer.apply(third!, third!.guns)?.changed).toEqual([{ gunId: 'gun', ammo: 30 }]);
+
+      // Nothing changed since the last snapshot sent
+      expect(buildSnapshot(baselines, 4, [{ gunId: 'gun', ammo: 30 }])).toBeNull();
+   });
+
+   it('should drop a snapshot whose baseline the client no longer has', () => {
+      expect(buffer.apply({ tick: 5, baselineTick: 4 }, [])).toBeNull();
+   });
+
+   it('should only report the entities that differ from the previously applied snapshot', () => {
+      buffer.apply({ tick: 1, baselineTick: NO_BASELINE_TICK }, [
+         { gunId: 'a', ammo: 30 },
+         { gunId: 'b', ammo: 30 },
+      ]);
+
+      const changes = buffer.apply({ tick: 2, baselineTick: 1 }, [{ gunId: 'b', ammo: 12 }]);
+
+      expect(changes?.changed).toEqual([{ gunId: 'b', ammo: 12 }]);
+      expect(changes?.unchanged).toEqual([{ gunId: 'a', ammo: 30 }]);
+   });
+});
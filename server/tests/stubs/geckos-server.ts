@@ -0,0 +1,16 @@
+// server/tests/stubs/geckos-server.ts
+
+/**
+ * Stands in for @geckos.io/server, which only ships as an ES module. Games in the tests talk over loopback
+ * transports; a geckos.io server only gets an HTTP server to listen on and never sees a connection.
+ */
+export const iceServers = [];
+
+export default function geckos() {
+   return {
+      addServer: () => {},
+      onConnection: () => {},
+      emit: () => {},
+      raw: { emit: () => {} },
+   };
+}
@@ -94,13 +94,21 @@ export async function fetchPublicKey(authServiceUrl: string): Promise<string> {
    }
 }
 
+/**
+ * User data of a verified token
+ */
+export interface VerifiedUser extends User {
+   /** Game a game token was issued for, access tokens are not tied to a game */
+   gameId?: string;
+}
+
 /**
  * Verify a JWT token and extract user data
  * @param token - The JWT token to verify
  * @param authServiceUrl - Optional URL to fetch the key from if not found locally
  * @returns User data from the token, or null if invalid
  */
-export async function verifyToken(token: string, authServiceUrl?: string): Promise<User | null> {
+export async function verifyToken(token: string, authServiceUrl?: string): Promise<VerifiedUser | null> {
    try {
       // Get key for verification
       const key = await getPublicKey(authServiceUrl);
@@ -111,17 +119,19 @@ export async function verifyToken(token: string, authServiceUrl?: string): Promi
          algorithms: [algorithm],
       }) as JwtPayload;
 
-      // Extract user data
-      if (!decoded || typeof decoded !== 'object' || !decoded.id || !decoded.username) {
+      // Extract user data, game tokens carry the id as userId
+      const id = decoded?.id ?? decoded?.userId;
+      if (!decoded || typeof decoded !== 'object' || !id || !decoded.username) {
          return null;
       }
 
       return {
-         id: decoded.id.toString(),
+         id: id.toString(),
          username: decoded.username,
          email: decoded.email || null,
          isGuest: decoded.isGuest || false,
          displayName: decoded.displayName,
+         gameId: decoded.gameId,
       };
    } catch (error) {
       console.error('Token verification failed:', error);
@@ -0,0 +1,28 @@
+export type LeaderboardPeriod = 'all-time' | 'weekly';
+
+/**
+ * A player's place on a leaderboard as the auth service sends it, ranked by their best score
+ */
+export interface LeaderboardEntry {
+   rank: number;
+   userId: number;
+   username: string;
+   displayName: string;
+   bestScore: number;
+   bestWave: number;
+   matchesPlayed: number;
+}
+
+export interface LeaderboardPage {
+   period: LeaderboardPeriod;
+   playerClass: string | null;
+   mapId: string | null;
+   since: number | null;
+   page: number;
+   pageSize: number;
+   totalPlayers: number;
+   totalPages: number;
+   entries: LeaderboardEntry[];
+   /** The signed in player's own entry, null for guests and players not on the board */
+   own: LeaderboardEntry | null;
+}
@@ -23,6 +23,13 @@ export abstract class BaseGame {
     */
    public abstract getTileSize(): number;
 
+   /**
+    * Whether this game plays the client side of the connection and handles the messages the server sends
+    */
+   public isClient(): boolean {
+      return false;
+   }
+
    /**
     * Initialize the network message system
     */
@@ -17,7 +17,9 @@ export abstract class BasePhysicsManager {
 
    private running: boolean = false;
    private startTime: number = 0;
+   private startTick: number = 0;
    private tickTime: number = 0;
+   private scheduleOffset: number = 0;
    private static instance: BasePhysicsManager;
    private taskProcessingInterval: NodeJS.Timeout | null = null;
 
@@ -25,10 +27,6 @@ export abstract class BasePhysicsManager {
    tickEnd!: number;
 
    protected constructor() {
-      if (BasePhysicsManager.instance) {
-         throw new Error('Cannot create multiple instances of BasePhysicsManager');
-      }
-
       this.taskScheduler = new TaskScheduler(() => this.gameTick);
 
       // Set up a background interval for processing critical tasks
@@ -37,6 +35,10 @@ export abstract class BasePhysicsManager {
       }, 100); // Check every 100ms
    }
 
+   /**
+    * Registers the process-wide instance. Only the client has a single physics manager,
+    * the server runs one per game and never registers itself here.
+    */
    protected static setInstance(instance: BasePhysicsManager): void {
       if (BasePhysicsManager.instance) {
          throw new Error('PhysicsManager instance already exists');
@@ -66,12 +68,17 @@ export abstract class BasePhysicsManager {
       this.world.timestep = gameSettings.gameDeltaUpdateSeconds;
    }
 
-   public start(): void {
+   /**
+    * @param startTime Time the first tick counts from, a replay passes the one the recorded run started at
+    */
+   public start(startTime: number = this.getCurrentTime()): void {
       if (this.running) return;
 
       this.running = true;
-      this.startTime = this.getCurrentTime();
-      this.tickTime = this.getCurrentTime();
+      this.startTime = startTime;
+      this.startTick = this.gameTick;
+      this.tickTime = startTime;
+      this.scheduleOffset = 0;
       console.log('started AT:', this.startTime);
 
       this.runUpdate();
@@ -85,6 +92,22 @@ export abstract class BasePhysicsManager {
       return performance.timeOrigin + performance.now();
    }
 
+   /**
+    * Time in the simulation: the start time plus one update interval for every tick since. Unlike the wall
+    * clock it does not depend on when the ticks actually ran, so timers based on it behave the same in a replay.
+    */
+   public getSimulationTime(): number {
+      return this.startTime + (this.gameTick - this.startTick) * gameSettings.gameUpdateIntervalMillis;
+   }
+
+   /**
+    * Run the following ticks later by the given milliseconds, or earlier when negative. Only moves when the
+    * ticks run, the simulation time stays on its fixed steps.
+    */
+   public shiftSchedule(ms: number): void {
+      this.scheduleOffset += ms;
+   }
+
    /**
     * Method to schedule ticks for the server game loop
     * @private
@@ -92,15 +115,22 @@ export abstract class BasePhysicsManager {
    protected runUpdate(): void {
       if (!this.running) return;
 
-      this.tickStart = this.getCurrentTime();
-      this.tickStartTime = performance.now(); // Start measuring total tick time
-
       const currentTime = this.getCurrentTime();
-      const nextTickStartTime = this.startTime + (this.gameTick + 1) * gameSettings.gameUpdateIntervalMillis;
+      const nextTickStartTime = this.getSimulationTime() + gameSettings.gameUpdateIntervalMillis + this.scheduleOffset;
       const delayUntilNextTick = nextTickStartTime - currentTime;
 
       setTimeout(() => this.runUpdate(), delayUntilNextTick);
 
+      this.runTick();
+   }
+
+   /**
+    * Advance the game by one tick: step the world, then run the tasks due on the new tick
+    */
+   protected runTick(): void {
+      this.tickStart = this.getCurrentTime();
+      this.tickStartTime = performance.now(); // Start measuring total tick time
+
       // Run the update
       this.tickTime = this.getCurrentTime();
       this.gameTick++;
@@ -200,4 +230,4 @@ export abstract class BasePhysicsManager {
    }
 
    public abstract update(): void;
-}
\ No newline at end of file
+}
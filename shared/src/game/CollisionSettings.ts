@@ -7,10 +7,13 @@ export enum CollisionCategory {
 }
 
 export enum CollisionMask {
-   Player = CollisionCategory.Enemy | CollisionCategory.Obstacle,
+   Player = CollisionCategory.Enemy | CollisionCategory.Obstacle | CollisionCategory.EnemyBullet,
    Bullet = CollisionCategory.Enemy | CollisionCategory.Obstacle,
    Enemy = CollisionCategory.Player | CollisionCategory.Bullet | CollisionCategory.Obstacle | CollisionCategory.Enemy,
-   Obstacle = CollisionCategory.Player | CollisionCategory.Bullet | CollisionCategory.Enemy,
+   Obstacle = CollisionCategory.Player |
+      CollisionCategory.Bullet |
+      CollisionCategory.Enemy |
+      CollisionCategory.EnemyBullet,
    EnemyBullet = CollisionCategory.Player | CollisionCategory.Obstacle,
 }
 
@@ -6,7 +6,9 @@ export enum InputType {
    SHOOT = 'SHOOT',
    RELOAD = 'reload',
    THROW_GRENADE = 'THROW_GRENADE',
+   TOGGLE_SCOREBOARD = 'TOGGLE_SCOREBOARD',
    TOGGLE_PAUSE = 'TOGGLE_PAUSE',
+   TOGGLE_NETWORK_CONDITIONER = 'TOGGLE_NETWORK_CONDITIONER',
 }
 
 export interface ControlConfig {
@@ -17,7 +19,9 @@ export interface ControlConfig {
    [InputType.SHOOT]: string[];
    [InputType.RELOAD]: string;
    [InputType.THROW_GRENADE]: string[];
+   [InputType.TOGGLE_SCOREBOARD]: string[];
    [InputType.TOGGLE_PAUSE]: string[];
+   [InputType.TOGGLE_NETWORK_CONDITIONER]: string[];
 }
 
 export const defaultControls: ControlConfig = {
@@ -28,5 +32,7 @@ export const defaultControls: ControlConfig = {
    [InputType.SHOOT]: ['0'],
    [InputType.RELOAD]: 'KeyR',
    [InputType.THROW_GRENADE]: ['g'],
+   [InputType.TOGGLE_SCOREBOARD]: ['Tab'],
    [InputType.TOGGLE_PAUSE]: ['Escape'],
+   [InputType.TOGGLE_NETWORK_CONDITIONER]: ['F8'],
 };
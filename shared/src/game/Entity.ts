@@ -4,15 +4,14 @@ import type * as RAPIER from '@dimforge/rapier2d-compat';
 import { RigidBody, World } from '@dimforge/rapier2d-compat';
 import { physicsToPixel } from '../util/Utils';
 import { ManagedEntity } from './Interfaces';
-import { gameSettings } from './SystemSettings';
 
 export abstract class Entity implements ManagedEntity {
    body!: RigidBody;
    world: World;
    id: string;
    public isSpawned: boolean = false;
+   // Last position read from the body, still answers once the body is removed
    private cachedPosition: Position | null = null;
-   private lastPositionCacheTime: number = -1;
 
    private cachedColliderHandle: number | null = null;
 
@@ -24,9 +23,8 @@ export abstract class Entity implements ManagedEntity {
    public get position(): Position {
       if (!this.body) throw new Error('Attempted to get body position before it was summoned');
 
-      const now = Date.now();
-
-      if (this.cachedPosition && now - this.lastPositionCacheTime < gameSettings.gameUpdateIntervalMillis / 2) {
+      // Read from the body every time, caching by wall clock time made the simulation depend on tick speed
+      if (!this.isSpawned && this.cachedPosition) {
          return this.cachedPosition;
       }
 
@@ -36,7 +34,6 @@ export abstract class Entity implements ManagedEntity {
             x: physicsToPixel(physicsPos.x),
             y: physicsToPixel(physicsPos.y),
          };
-         this.lastPositionCacheTime = now;
       } catch (error) {
          if (this.cachedPosition) {
             console.warn(`Entity ${this.id}: Using cached position, physics body may be removed`);
@@ -83,7 +80,6 @@ export abstract class Entity implements ManagedEntity {
       }
 
       this.cachedPosition = finalPosition;
-      this.lastPositionCacheTime = Date.now();
 
       this.isSpawned = false;
       this.onDespawn();
@@ -17,7 +17,7 @@ export interface Damageable {
    health: number;
    maxHealth: number;
 
-   takeDamage(amount: number): void;
+   takeDamage(amount: number, source?: unknown): void;
 }
 
 export interface Breakable {
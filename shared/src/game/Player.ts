@@ -2,7 +2,13 @@ import { MovableEntity } from './MovableEntity';
 import type * as RAPIER from '@dimforge/rapier2d-compat';
 import { RigidBody } from '@dimforge/rapier2d-compat';
 import { PlayerData } from './PlayerData';
-import { createPlayerPhysics, createPlayerTypeConfigs, PlayerType, PlayerTypeEnum } from './PlayerTypes';
+import {
+   createPlayerPhysics,
+   createPlayerTypeConfigs,
+   PlayerLifeState,
+   PlayerType,
+   PlayerTypeEnum,
+} from './PlayerTypes';
 import { MovementController } from './movement/MovementController';
 import { Gun } from './shooting/Gun';
 import { GunType } from './shooting/GunTypes';
@@ -10,8 +16,10 @@ import { Position } from './Position';
 import { PlayerMoveRequest } from './network/messages/server-bound/PlayerMoveRequest';
 import { BaseGame } from './BaseGame';
 import { pixelToPhysics } from '../util/Utils';
+import { StatusEffectController } from './status-effects/StatusEffectController';
+import { IStatusEffectHost, StatusEffectApplication, StatusEffectType } from './status-effects/StatusEffectTypes';
 
-export abstract class Player extends MovableEntity {
+export abstract class Player extends MovableEntity implements IStatusEffectHost {
    public game: BaseGame;
    lastProcessedTick: number;
    private readonly _playerData: PlayerData;
@@ -20,12 +28,15 @@ export abstract class Player extends MovableEntity {
 
    private _maxHealth: number;
    private _health: number;
+   private _lifeState: PlayerLifeState = PlayerLifeState.ALIVE;
    private _viewDistance: number;
 
    protected _gunSeed: string;
 
    protected _gun: Gun | null = null;
 
+   protected readonly _statusEffects: StatusEffectController = new StatusEffectController(this);
+
    currentChunkX: number;
    currentChunkY: number;
 
@@ -92,10 +103,68 @@ export abstract class Player extends MovableEntity {
       return this._maxHealth;
    }
 
+   get lifeState(): PlayerLifeState {
+      return this._lifeState;
+   }
+
+   public isAlive(): boolean {
+      return this._lifeState === PlayerLifeState.ALIVE;
+   }
+
+   /**
+    * Reduce health, downed and dead players can't be damaged any further.
+    * Going down at zero health is handled by the server's player lifecycle, not here.
+    */
+   public takeDamage(amount: number, source?: unknown): void {
+      if (!this.isAlive()) return;
+
+      this.setHealth(this._health - amount);
+   }
+
+   public setHealth(health: number): void {
+      this._health = Math.max(0, Math.min(this._maxHealth, health));
+   }
+
+   public setLifeState(lifeState: PlayerLifeState): void {
+      this._lifeState = lifeState;
+   }
+
+   /**
+    * Back to full health and alive, used when a new run starts
+    */
+   public restore(): void {
+      this._health = this._maxHealth;
+      this._lifeState = PlayerLifeState.ALIVE;
+   }
+
    get movementSpeed(): number {
-      return this._type.movementSpeed;
+      return this._type.movementSpeed * this._statusEffects.getSpeedMultiplier();
+   }
+
+   get statusEffects(): StatusEffectController {
+      return this._statusEffects;
+   }
+
+   /**
+    * Player classes have no resistances, every effect lands in full
+    */
+   public getStatusResistance(): number {
+      return 0;
    }
 
+   /**
+    * Apply an effect to this player, downed and dead players are left alone
+    */
+   public inflictStatusEffect(application: StatusEffectApplication): boolean {
+      if (!this.isAlive()) return false;
+
+      return this._statusEffects.apply(application, this.game.getPhysicsManager().getSimulationTime());
+   }
+
+   public abstract takeStatusDamage(amount: number, type: StatusEffectType): void;
+
+   public abstract applyKnockback(velocity: { x: number; y: number }): void;
+
    get viewDistance(): number {
       return this._viewDistance;
    }
@@ -25,6 +25,14 @@ export enum AnimationState {
    DEATH = 'death',
 }
 
+export enum PlayerLifeState {
+   ALIVE = 'alive',
+   /** At zero health, waiting for a teammate to revive them before the revive window runs out */
+   DOWNED = 'downed',
+   /** Out for the rest of the run, spectating the remaining players */
+   DEAD = 'dead',
+}
+
 export interface PlayerColliderConfig {
    shape: EntityShape;
    // For cuboid: width and height
@@ -67,6 +75,22 @@ export interface AnimationFrameRates {
    [AnimationState.DEATH]?: number; // Frames per second for death animation
 }
 
+export interface PlayerHealthRegenConfig {
+   perSecond: number;
+   delayMs: number; // How long the player has to go without taking damage before health comes back
+}
+
+export interface PlayerGrenadeConfig {
+   maxCharges: number;
+   rechargeMs: number; // Time to get one charge back, charges come back one at a time
+   fuseMs: number; // From the throw until the grenade goes off
+   maxThrowDistance: number; // Pixels, throws aimed further land at this distance
+   damage: number; // At the center of the blast
+   edgeDamage: number; // Fraction of the damage an enemy at the edge of the blast still takes
+   radius: number;
+   penetration: number; // Compared against enemy armor like a bullet's penetration
+}
+
 export interface PlayerType {
    id: PlayerTypeEnum;
    name: string;
@@ -74,6 +98,8 @@ export interface PlayerType {
 
    // Gameplay properties
    maxHealth: number;
+   armor: number; // Fraction of incoming damage blocked, 0-1
+   healthRegen: PlayerHealthRegenConfig;
    movementSpeed: number;
    rotationalSpeed?: number;
    viewDistance: number;
@@ -86,6 +112,7 @@ export interface PlayerType {
 
    // Weapons configuration
    guns: GunConfig[];
+   grenade: PlayerGrenadeConfig;
 
    animationFrameRates?: AnimationFrameRates;
 }
@@ -172,6 +199,8 @@ export function createPlayerTypeConfigs(rapier: typeof RAPIER): Record<PlayerTyp
          name: 'Tank',
          spritePath: './src/game/assets/characters/tank-character.json',
          maxHealth: 200,
+         armor: 0.3,
+         healthRegen: { perSecond: 4, delayMs: 5000 },
          movementSpeed: 1,
          rotationalSpeed: 10,
          viewDistance: 1,
@@ -199,6 +228,16 @@ export function createPlayerTypeConfigs(rapier: typeof RAPIER): Record<PlayerTyp
                positionOffset: { x: 0, y: 0 },
             },
          ],
+         grenade: {
+            maxCharges: 3,
+            rechargeMs: 12000,
+            fuseMs: 2000,
+            maxThrowDistance: 450,
+            damage: 90,
+            edgeDamage: 0.4,
+            radius: 160,
+            penetration: 8,
+         },
          animationFrameRates: {
             [AnimationState.IDLE]: 2,
             [AnimationState.MOVE]: 8,
@@ -210,6 +249,8 @@ export function createPlayerTypeConfigs(rapier: typeof RAPIER): Record<PlayerTyp
          name: 'Assault',
          spritePath: './src/game/assets/characters/military1-character.json',
          maxHealth: 100,
+         armor: 0.15,
+         healthRegen: { perSecond: 3, delayMs: 4000 },
          movementSpeed: 300,
          viewDistance: 1.2,
          physics: {
@@ -237,6 +278,16 @@ export function createPlayerTypeConfigs(rapier: typeof RAPIER): Record<PlayerTyp
                positionOffset: { x: -10, y: 0 },
             },
          ],
+         grenade: {
+            maxCharges: 2,
+            rechargeMs: 10000,
+            fuseMs: 1800,
+            maxThrowDistance: 600,
+            damage: 80,
+            edgeDamage: 0.4,
+            radius: 140,
+            penetration: 6,
+         },
          animationFrameRates: {
             [AnimationState.IDLE]: 20,
             [AnimationState.MOVE]: 15,
@@ -249,6 +300,8 @@ export function createPlayerTypeConfigs(rapier: typeof RAPIER): Record<PlayerTyp
          name: 'Marksman',
          spritePath: './src/game/assets/characters/military2-character.json',
          maxHealth: 80,
+         armor: 0,
+         healthRegen: { perSecond: 3, delayMs: 3000 },
          movementSpeed: 220,
          viewDistance: 0.8,
          physics: {
@@ -276,6 +329,16 @@ export function createPlayerTypeConfigs(rapier: typeof RAPIER): Record<PlayerTyp
                positionOffset: { x: -20, y: -5 },
             },
          ],
+         grenade: {
+            maxCharges: 1,
+            rechargeMs: 14000,
+            fuseMs: 1500,
+            maxThrowDistance: 700,
+            damage: 120,
+            edgeDamage: 0.3,
+            radius: 110,
+            penetration: 10,
+         },
          animationFrameRates: {
             [AnimationState.IDLE]: 6,
             [AnimationState.MOVE]: 8,
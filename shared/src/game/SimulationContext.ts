@@ -0,0 +1,25 @@
+// shared/src/game/SimulationContext.ts
+
+/**
+ * Where game logic gets the time and random numbers from. The server backs it with its tick clock and a
+ * seeded generator, so a recorded match re-simulates to the same state.
+ */
+export interface SimulationContext {
+   /**
+    * Milliseconds of game time, advances by one update interval per tick
+    */
+   now(): number;
+
+   /**
+    * Random number in [0, 1)
+    */
+   random(): number;
+}
+
+/**
+ * Wall clock and Math.random, for entities that are not owned by a game simulation
+ */
+export const realTimeSimulation: SimulationContext = {
+   now: () => Date.now(),
+   random: () => Math.random(),
+};
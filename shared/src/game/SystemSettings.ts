@@ -111,6 +111,18 @@ export const gameSettings = {
     */
    maxChunkBatchSize: 2,
 
+   /**
+    * How many ticks of sent player, enemy and gun snapshots the server keeps per client as delta baselines.
+    * A client that has not acknowledged a snapshot within this window gets the full state again.
+    */
+   snapshotHistoryTicks: 50,
+
+   /**
+    * How often a recorded match stores a hash of the game state. A replay that diverges is caught within
+    * this many ticks of where it happened.
+    */
+   replayChecksumIntervalTicks: 25,
+
    // === PHYSICS WORLD CONFIGURATION ===
 
    physics: {
@@ -159,6 +171,71 @@ export const gameSettings = {
     */
    maxGunSpreadDegrees: 90,
 
+   // === LAG COMPENSATION SETTINGS ===
+
+   /**
+    * Furthest back in time the server rewinds targets when validating a shot (ms).
+    * Shooters with more latency than this have to lead their targets.
+    */
+   maxRewindMs: 300,
+
+   // === PLAYER LIFECYCLE SETTINGS ===
+
+   /**
+    * How long a downed player can wait for a revive before they are out for the rest of the run (ms)
+    */
+   reviveWindowMs: 20000,
+
+   /**
+    * How long a teammate has to stay next to a downed player to revive them (ms)
+    */
+   reviveDurationMs: 3000,
+
+   /**
+    * Maximum distance between a reviving teammate and the downed player (pixels)
+    */
+   reviveRadius: 80,
+
+   /**
+    * Fraction of max health a player gets back when revived
+    */
+   reviveHealthFraction: 0.3,
+
+   /**
+    * How long a player ignores further hits after taking one (ms). Damage over time from hazards still applies
+    */
+   playerInvulnerabilityMs: 300,
+
+   /**
+    * How often a regenerating player's health is sent to the clients (ms)
+    */
+   playerHealthSyncIntervalMs: 250,
+
+   /**
+    * Pause between a game over and the next run in the same lobby (ms)
+    */
+   gameRestartDelayMs: 15000,
+
+   // === SCORING SETTINGS ===
+
+   /**
+    * How often the scoreboard is sent to the clients while it changes (in ticks)
+    * Current: every 25 ticks = ~1s at 25 FPS
+    */
+   scoreUpdateIntervalTicks: 25,
+
+   /**
+    * How long after damaging an enemy a player still gets an assist when someone else kills it (ms)
+    */
+   assistWindowMs: 10000,
+
+   // === CLASS SELECTION SETTINGS ===
+
+   /**
+    * Team composition limit: how many players in one game may pick the same class
+    */
+   maxPlayersPerClass: 2,
+
    // === ENEMY TASK SCHEDULING SETTINGS ===
 
    /**
@@ -182,6 +259,12 @@ export const gameSettings = {
     */
    enemyAbilityUpdateTicks: 4,
 
+   /**
+    * How often status effects on enemies tick and expire (in ticks)
+    * Current: every 2 ticks = ~80ms at 25 FPS, well under the shortest effect tick interval
+    */
+   enemyStatusEffectUpdateTicks: 2,
+
    /**
     * How often pathfinding calculations are performed per batch (in ticks)
     * Current: every 5 ticks = ~200ms at 25 FPS per batch
@@ -210,6 +293,12 @@ export const gameSettings = {
     */
    enemySpawnUpdateTicks: 25,
 
+   /**
+    * How often acid pools and other ground hazards damage the players standing in them (in ticks)
+    * Current: every 5 ticks = ~200ms at 25 FPS
+    */
+   damageAreaTickIntervalTicks: 5,
+
    /**
     * Get the actual delta time in seconds for enemy movement tasks
     * Accounts for the fact that movement tasks run every N ticks, not every tick
@@ -21,15 +21,21 @@ import { CollisionGroups } from '../CollisionSettings';
 import { SteeringController } from './steering/SteeringController';
 import { gameSettings } from '../SystemSettings';
 import { IPathfindingService } from './interfaces/IPathfindingService';
-
-export abstract class BaseEnemy extends MovableEntity implements Damageable, ArmorProvider {
+import { IProjectileService } from './interfaces/IProjectileService';
+import { IMinionSpawnService } from './interfaces/IMinionSpawnService';
+import { realTimeSimulation, SimulationContext } from '../SimulationContext';
+import { DamageService } from '../shooting/DamageService';
+import { StatusEffectController } from '../status-effects/StatusEffectController';
+import { IStatusEffectHost, StatusEffectType } from '../status-effects/StatusEffectTypes';
+
+export abstract class BaseEnemy extends MovableEntity implements Damageable, ArmorProvider, IStatusEffectHost {
    // Damageable interface implementation
    public health: number;
    public readonly maxHealth: number;
 
    // Core enemy properties
    public readonly enemyType: EnemyType;
-   public readonly properties: EnemyProperties;
+   public properties: EnemyProperties;
    public readonly level: number;
 
    // Combat properties
@@ -53,6 +59,16 @@ export abstract class BaseEnemy extends MovableEntity implements Damageable, Arm
 
    private pathfindingService: IPathfindingService | null = null;
 
+   private projectileService: IProjectileService | null = null;
+
+   private minionSpawnService: IMinionSpawnService | null = null;
+
+   private enraged: boolean = false;
+
+   private simulation: SimulationContext = realTimeSimulation;
+
+   private readonly statusEffects: StatusEffectController = new StatusEffectController(this);
+
    constructor(
       world: RAPIER.World,
       rapier: typeof RAPIER,
@@ -80,6 +96,94 @@ export abstract class BaseEnemy extends MovableEntity implements Damageable, Arm
       return this.pathfindingService;
    }
 
+   public setProjectileService(service: IProjectileService): void {
+      this.projectileService = service;
+   }
+
+   /**
+    * Launches the projectiles and creates the ground hazards of ranged abilities, only set on the server
+    */
+   public getProjectileService(): IProjectileService | null {
+      return this.projectileService;
+   }
+
+   public setMinionSpawnService(service: IMinionSpawnService): void {
+      this.minionSpawnService = service;
+   }
+
+   /**
+    * Spawns the minions of summoning abilities and keeps track of who owns them, only set on the server
+    */
+   public getMinionSpawnService(): IMinionSpawnService | null {
+      return this.minionSpawnService;
+   }
+
+   /**
+    * Hit harder, move faster and attack more often for the rest of this enemy's life
+    */
+   public enrage(multiplier: number): void {
+      if (this.enraged) return;
+
+      this.enraged = true;
+      this.properties = {
+         ...this.properties,
+         attackDamage: this.properties.attackDamage * multiplier,
+         movementSpeed: this.properties.movementSpeed * multiplier,
+         attackCooldown: this.properties.attackCooldown / multiplier,
+      };
+   }
+
+   public isEnraged(): boolean {
+      return this.enraged;
+   }
+
+   /**
+    * Use the owning game's clock and random numbers, so cooldowns and AI decisions replay the same way
+    */
+   public setSimulation(simulation: SimulationContext): void {
+      this.simulation = simulation;
+   }
+
+   public getSimulation(): SimulationContext {
+      return this.simulation;
+   }
+
+   public getStatusEffects(): StatusEffectController {
+      return this.statusEffects;
+   }
+
+   /**
+    * Tick damage over time and expire effects, called by the enemy manager on the simulation clock
+    */
+   public updateStatusEffects(): void {
+      this.statusEffects.update(this.simulation.now());
+   }
+
+   public getStatusResistance(type: StatusEffectType): number {
+      return this.properties.statusResistances[type];
+   }
+
+   public takeStatusDamage(amount: number, type: StatusEffectType): void {
+      if (this.health <= 0 || amount <= 0) return;
+
+      const damage = Math.min(this.health, amount);
+      this.takeDamage(damage);
+      DamageService.recordStatusDamage(this, damage, type);
+   }
+
+   /**
+    * Push by a change in velocity in pixels per second, heavier enemies need the same impulse per unit of mass
+    */
+   public applyKnockback(velocity: { x: number; y: number }): void {
+      const mass = this.body.mass();
+
+      this.applyForce({
+         x: pixelToPhysics(velocity.x) * mass,
+         y: pixelToPhysics(velocity.y) * mass,
+      });
+      this.markDirty('position');
+   }
+
    /**
     * Create the physics body for this enemy
     */
@@ -124,7 +228,7 @@ export abstract class BaseEnemy extends MovableEntity implements Damageable, Arm
     * Updated to work with fully async pathfinding system
     */
    public performMovement(): void {
-      if (!this.currentTarget) {
+      if (!this.currentTarget || this.statusEffects.isStunned()) {
          return;
       }
 
@@ -146,6 +250,14 @@ export abstract class BaseEnemy extends MovableEntity implements Damageable, Arm
 
       const pathfindingManager = this.getPathfindingService();
 
+      // Ranged enemies hold their ground once they have a clear shot
+      if (
+         distance <= this.getPreferredRange() &&
+         pathfindingManager?.hasLineOfSight(this.position, this.currentTarget.getCurrentPosition())
+      ) {
+         return;
+      }
+
       if (pathfindingManager) {
          const targetPosition = this.currentTarget.getCurrentPosition();
 
@@ -208,6 +320,13 @@ export abstract class BaseEnemy extends MovableEntity implements Damageable, Arm
       }
    }
 
+   /**
+    * How close this enemy wants to get to its target, melee enemies close in all the way
+    */
+   protected getPreferredRange(): number {
+      return 0;
+   }
+
    /**
     * Set available entities for targeting (called by EnemyManager)
     */
@@ -224,7 +343,7 @@ export abstract class BaseEnemy extends MovableEntity implements Damageable, Arm
     * Ability task - check and use abilities
     */
    public performAbilities(): void {
-      if (!this.currentTarget) return;
+      if (!this.currentTarget || this.statusEffects.isStunned()) return;
 
       const distance = this.getDistanceToTarget(this.currentTarget);
 
@@ -233,9 +352,12 @@ export abstract class BaseEnemy extends MovableEntity implements Damageable, Arm
          this.attackTarget(this.currentTarget);
       }
 
-      // Check other abilities
+      // Check other abilities, each one on its own cooldown
       for (const [abilityType, ability] of this.abilities) {
-         if (ability.canUse(this)) {
+         if (ability.cooldown > 0) {
+            this.useAbility(abilityType, this.currentTarget);
+         } else if (ability.canUse(this)) {
+            // Passive and triggered abilities have no cooldown to wait for
             ability.execute(this, this.currentTarget);
          }
       }
@@ -255,7 +377,8 @@ export abstract class BaseEnemy extends MovableEntity implements Damageable, Arm
          const normalizedY = dy / distance;
 
          // Calculate base movement force - now properly scaled per second
-         const moveSpeed = this.properties.movementSpeed * (1 + (this.level - 1) * 0.1);
+         const moveSpeed =
+            this.properties.movementSpeed * (1 + (this.level - 1) * 0.1) * this.statusEffects.getSpeedMultiplier();
 
          const baseForce = {
             x: normalizedX * moveSpeed * deltaTimeMS,
@@ -265,7 +388,12 @@ export abstract class BaseEnemy extends MovableEntity implements Damageable, Arm
          // Apply steering if available
          if (this.steeringController && this.steeringController.isEnabled()) {
             const nearbyEnemies = this.getNearbyEnemies();
-            const steering = this.steeringController.calculateSteering(this, nearbyEnemies, targetPosition, Date.now());
+            const steering = this.steeringController.calculateSteering(
+               this,
+               nearbyEnemies,
+               targetPosition,
+               this.simulation.now(),
+            );
 
             // Combine base movement with steering - steering should also be delta-time aware
             const finalForce = {
@@ -360,7 +488,7 @@ export abstract class BaseEnemy extends MovableEntity implements Damageable, Arm
     * Attempt to attack a target
     */
    public attackTarget(target: ITargetable): boolean {
-      const currentTime = Date.now();
+      const currentTime = this.simulation.now();
 
       if (currentTime - this.lastAttackTime < this.properties.attackCooldown) {
          return false; // Still on cooldown
@@ -386,7 +514,7 @@ export abstract class BaseEnemy extends MovableEntity implements Damageable, Arm
       const ability = this.abilities.get(abilityType);
       if (!ability) return false;
 
-      const currentTime = Date.now();
+      const currentTime = this.simulation.now();
       const lastUsed = this.lastAbilityUsage.get(abilityType) || 0;
 
       if (currentTime - lastUsed < ability.cooldown) {
@@ -568,6 +696,7 @@ export abstract class BaseEnemy extends MovableEntity implements Damageable, Arm
       // Note: Armor reduction is now handled by DamageCalculationService
       // This method should receive the final damage amount after all calculations
 
+      const wasAlive = this.health > 0;
       this.health = Math.max(0, this.health - amount);
 
       // Emit damage event
@@ -578,13 +707,15 @@ export abstract class BaseEnemy extends MovableEntity implements Damageable, Arm
          this.aiBehavior.onDamaged(this, amount, source);
       }
 
-      // Check for death
-      if (this.health <= 0) {
+      // Check for death, only the hit that takes the last health away counts as the kill
+      if (wasAlive && this.health <= 0) {
          // Capture position BEFORE any cleanup happens
          const deathPosition = { ...this.position };
 
          // Emit death event and let EnemyManager handle all cleanup
-         GameEventEmitter.getInstance().emit(new EnemyDeathEvent(this, this.properties.scoreValue, deathPosition));
+         GameEventEmitter.getInstance().emit(
+            new EnemyDeathEvent(this, this.properties.scoreValue, deathPosition, source),
+         );
       }
    }
 
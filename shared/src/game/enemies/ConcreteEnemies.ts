@@ -9,6 +9,7 @@ import { EnemyAbilityFactory } from './abilities/EnemyAbilities';
 import { EnemyAnimationChangeEvent, EnemyAttackEvent } from '../events/events/EnemyEvents';
 import { GameEventEmitter } from '../events/GameEventEmitter';
 import { TargetingStrategy } from './EnemyTargetSystem';
+import { StatusEffectApplication, StatusEffectType } from '../status-effects/StatusEffectTypes';
 
 /**
  * Default basic enemy implementation
@@ -104,6 +105,12 @@ export class SpeedyEnemy extends BaseEnemy {
  * High health, slow-moving tank enemy
  */
 export class TankyEnemy extends BaseEnemy {
+   private static readonly KNOCKBACK: StatusEffectApplication = {
+      type: StatusEffectType.KNOCKBACK,
+      durationMs: 0,
+      magnitude: 450,
+   };
+
    constructor(world: RAPIER.World, rapier: typeof RAPIER, level: number = 1, id?: string) {
       const template = EnemyTemplates.getScaledTemplate(EnemyType.TANKY, level);
       super(world, rapier, EnemyType.TANKY, template, level, id);
@@ -129,6 +136,19 @@ export class TankyEnemy extends BaseEnemy {
       if (target && typeof target.takeDamage === 'function') {
          target.takeDamage(damage, this);
       }
+
+      // Shove the target away from the tank
+      if (target && typeof target.inflictStatusEffect === 'function') {
+         const targetPosition = target.getCurrentPosition();
+         const dx = targetPosition.x - this.position.x;
+         const dy = targetPosition.y - this.position.y;
+         const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+
+         target.inflictStatusEffect(
+            { ...TankyEnemy.KNOCKBACK, direction: { x: dx / distance, y: dy / distance } },
+            this,
+         );
+      }
    }
 
    protected getAvailableTargets(): any[] {
@@ -207,7 +227,7 @@ export class DasherEnemy extends BaseEnemy {
       super.update(deltaTime, currentTime);
 
       // Randomly dash to avoid attacks
-      if (currentTime - this.lastDashTime > this.dashCooldown && Math.random() < 0.1) {
+      if (currentTime - this.lastDashTime > this.dashCooldown && this.getSimulation().random() < 0.1) {
          // this.tryDash(currentTime);
       }
    }
@@ -244,6 +264,9 @@ export class DasherEnemy extends BaseEnemy {
  * Ranged enemy that launches rockets
  */
 export class RocketLauncherEnemy extends BaseEnemy {
+   // Rockets are not fired at targets this close, they get hit instead
+   private static readonly MELEE_RANGE = 60;
+
    constructor(world: RAPIER.World, rapier: typeof RAPIER, level: number = 1, id?: string) {
       const template = EnemyTemplates.getScaledTemplate(EnemyType.ROCKET_LAUNCHER, level);
       super(world, rapier, EnemyType.ROCKET_LAUNCHER, template, level, id);
@@ -261,17 +284,85 @@ export class RocketLauncherEnemy extends BaseEnemy {
       return TargetingStrategy.PRIORITY_PLAYER;
    }
 
+   protected getPreferredRange(): number {
+      return 160;
+   }
+
    protected performAttack(target: any): void {
-      // Use rocket attack ability instead of melee
-      if (!this.useAbility(EnemyType.ROCKET_LAUNCHER as any, target)) {
-         // Fallback to basic ranged attack
-         const damage = this.properties.attackDamage * (1 + (this.level - 1) * 0.15);
+      // Use rocket attack ability instead of melee, the rocket deals the damage when it hits
+      if (this.useAbility(EnemyAbilityType.ROCKET_ATTACK, target)) return;
 
-         GameEventEmitter.getInstance().emit(new EnemyAttackEvent(this, target, damage, 'ranged'));
+      if (this.getDistanceToTarget(target) > RocketLauncherEnemy.MELEE_RANGE) return;
 
-         if (target && typeof target.takeDamage === 'function') {
-            target.takeDamage(damage, this);
-         }
+      const damage = this.properties.attackDamage * (1 + (this.level - 1) * 0.15);
+
+      GameEventEmitter.getInstance().emit(new EnemyAttackEvent(this, target, damage, 'melee'));
+
+      if (target && typeof target.takeDamage === 'function') {
+         target.takeDamage(damage, this);
+      }
+   }
+
+   protected getAvailableTargets(): any[] {
+      return [];
+   }
+
+   protected onAnimationStateChanged(newState: EnemyAnimationState): void {
+      GameEventEmitter.getInstance().emit(
+         new EnemyAnimationChangeEvent(this, this.getAnimationState().toString(), newState),
+      );
+   }
+}
+
+/**
+ * Ranged enemy that throws acid, leaving pools that hurt players standing in them
+ */
+export class AciderEnemy extends BaseEnemy {
+   // Close enough to hit with a melee attack while the acid is on cooldown
+   private static readonly MELEE_RANGE = 40;
+
+   private static readonly POISON: StatusEffectApplication = {
+      type: StatusEffectType.POISON,
+      durationMs: 4000,
+      magnitude: 3,
+   };
+
+   constructor(world: RAPIER.World, rapier: typeof RAPIER, level: number = 1, id?: string) {
+      const template = EnemyTemplates.getScaledTemplate(EnemyType.ACIDER, level);
+      super(world, rapier, EnemyType.ACIDER, template, level, id);
+
+      const aiBehavior = AIBehaviorFactory.create(template.aiBehavior);
+      this.setAIBehavior(aiBehavior);
+
+      for (const abilityType of template.abilities) {
+         const ability = EnemyAbilityFactory.create(abilityType);
+         this.addAbility(ability);
+      }
+   }
+
+   protected getTargetingStrategy(): TargetingStrategy {
+      return TargetingStrategy.CLOSEST_PLAYER;
+   }
+
+   protected getPreferredRange(): number {
+      return 90;
+   }
+
+   protected performAttack(target: any): void {
+      if (this.useAbility(EnemyAbilityType.ACID_THROW, target)) return;
+
+      if (this.getDistanceToTarget(target) > AciderEnemy.MELEE_RANGE) return;
+
+      const damage = this.properties.attackDamage * (1 + (this.level - 1) * 0.15);
+
+      GameEventEmitter.getInstance().emit(new EnemyAttackEvent(this, target, damage, 'melee'));
+
+      if (target && typeof target.takeDamage === 'function') {
+         target.takeDamage(damage, this);
+      }
+
+      if (target && typeof target.inflictStatusEffect === 'function') {
+         target.inflictStatusEffect(AciderEnemy.POISON, this);
       }
    }
 
@@ -290,9 +381,6 @@ export class RocketLauncherEnemy extends BaseEnemy {
  * Enemy that summons minions
  */
 export class SummonerEnemy extends BaseEnemy {
-   private minionCount: number = 0;
-   private maxMinions: number = 5;
-
    constructor(world: RAPIER.World, rapier: typeof RAPIER, level: number = 1, id?: string) {
       const template = EnemyTemplates.getScaledTemplate(EnemyType.SUMMONER, level);
       super(world, rapier, EnemyType.SUMMONER, template, level, id);
@@ -313,22 +401,14 @@ export class SummonerEnemy extends BaseEnemy {
    public update(deltaTime: number, currentTime: number): void {
       super.update(deltaTime, currentTime);
 
-      // Try to summon minions if below max
-      if (this.minionCount < this.maxMinions && Math.random() < 0.02) {
+      // Summon now and then even without a target, the ability refuses once the minion cap is reached
+      if (this.getSimulation().random() < 0.02) {
          this.trySummonMinions();
       }
    }
 
    private trySummonMinions(): boolean {
-      if (this.useAbility(EnemyAbilityType.SUMMON_MINIONS)) {
-         this.minionCount += 3; // Assuming 3 minions per summon
-         return true;
-      }
-      return false;
-   }
-
-   public onMinionDestroyed(): void {
-      this.minionCount = Math.max(0, this.minionCount - 1);
+      return this.useAbility(EnemyAbilityType.SUMMON_MINIONS);
    }
 
    protected performAttack(target: any): void {
@@ -426,6 +506,7 @@ export class EnemyFactory {
          case EnemyType.GHOST:
             return new GhostEnemy(world, rapier, level, id);
          case EnemyType.ACIDER:
+            return new AciderEnemy(world, rapier, level, id);
          case EnemyType.SWARM:
          case EnemyType.SMARTASS:
          case EnemyType.DEFLECTOR:
@@ -0,0 +1,82 @@
+// shared/src/game/enemies/EnemySnapshotBuffer.ts
+
+import { EnemyNetworkData } from './EnemyInterfaces';
+import { NO_BASELINE_TICK } from '../network/messages/client-bound/SnapshotData';
+import { EnemyDeltaUpdateData } from '../network/messages/EnemyNetworkEvents';
+import { gameSettings } from '../SystemSettings';
+
+export type EnemyStateChange = Partial<EnemyNetworkData> & Pick<EnemyNetworkData, 'id'>;
+
+type EnemyStates = Map<string, Partial<EnemyNetworkData>>;
+
+/**
+ * Full enemy states of recently applied snapshots. The server diffs each update against a snapshot the client
+ * acknowledged, which may be older than the last one applied, so an update only makes sense on top of the
+ * exact baseline it names.
+ */
+export class EnemySnapshotBuffer {
+   // Ticks only ever increase, so insertion order is also oldest to newest
+   private snapshots: Map<number, EnemyStates> = new Map();
+   private latestStates: EnemyStates = new Map();
+
+   /**
+    * Rebuild the full state of every enemy from an update and its baseline
+    * @returns What changed since the previously applied snapshot, or null if the baseline is no longer kept
+    */
+   public apply(update: EnemyDeltaUpdateData): EnemyStateChange[] | null {
+      let baseline: EnemyStates | undefined;
+      if (update.baselineTick === NO_BASELINE_TICK) {
+         baseline = new Map();
+      } else {
+         baseline = this.snapshots.get(update.baselineTick);
+         if (!baseline) return null;
+      }
+
+      const states: EnemyStates = new Map(baseline);
+      update.removedIds.forEach((enemyId) => states.delete(enemyId));
+      update.enemies.forEach((delta) => {
+         if (delta.id) states.set(delta.id, { ...states.get(delta.id), ...delta });
+      });
+
+      const changes: EnemyStateChange[] = [];
+      for (const [enemyId, state] of states) {
+         const change = this.getChange(enemyId, state, this.latestStates.get(enemyId));
+         if (change) changes.push(change);
+      }
+
+      this.snapshots.set(update.tick, states);
+      this.latestStates = states;
+
+      for (const tick of this.snapshots.keys()) {
+         if (tick >= update.tick - gameSettings.snapshotHistoryTicks) break;
+         this.snapshots.delete(tick);
+      }
+
+      return changes;
+   }
+
+   private getChange(
+      enemyId: string,
+      state: Partial<EnemyNetworkData>,
+      previous: Partial<EnemyNetworkData> | undefined,
+   ): EnemyStateChange | null {
+      if (!previous) return { ...state, id: enemyId };
+
+      const change: EnemyStateChange = { id: enemyId };
+      let changed = false;
+
+      if (state.position && (state.position.x !== previous.position?.x || state.position.y !== previous.position?.y)) {
+         change.position = state.position;
+         changed = true;
+      }
+
+      for (const key of ['rotation', 'animationState', 'targetId', 'lastAttackTime'] as const) {
+         if (state[key] !== previous[key]) {
+            (change as Record<string, unknown>)[key] = state[key];
+            changed = true;
+         }
+      }
+
+      return changed ? change : null;
+   }
+}
@@ -3,6 +3,7 @@
 import { Position } from '../Position';
 import { Player } from '../Player';
 import { MathUtil } from '../../util/MathUtil';
+import { StatusEffectApplication } from '../status-effects/StatusEffectTypes';
 
 /**
  * Simple interface for entities that can be targeted by enemies
@@ -12,8 +13,14 @@ export interface ITargetable {
    readonly id: string;
    readonly targetType: TargetType;
    readonly targetPriority: number; // Higher = more priority (for priority targeting)
+   readonly username?: string; // Players only, ids are not unique between guests
 
    getCurrentPosition(): Position;
+
+   // Forwarded to the underlying entity so enemy attacks actually land
+   takeDamage?(amount: number, source?: any): void;
+
+   inflictStatusEffect?(application: StatusEffectApplication, source?: unknown): boolean;
 }
 
 /**
@@ -203,10 +210,14 @@ export class TargetFinder {
    private static playerToTarget(player: Player): ITargetable {
       return {
          id: player.id,
+         username: player.username,
          targetType: TargetType.PLAYER,
          targetPriority: this.getPlayerPriority(player),
          // This ensures we always get the CURRENT position, not a snapshot!
          getCurrentPosition: () => player.position,
+         takeDamage: (amount: number, source?: any) => player.takeDamage(amount, source),
+         // Bound so the source still reaches subclasses that keep track of it
+         inflictStatusEffect: player.inflictStatusEffect.bind(player),
       };
    }
 
@@ -1,7 +1,10 @@
 // shared/src/game/enemies/abilities/EnemyAbilities.ts
 
-import { EnemyAbilityType, IEnemyAbility } from '../EnemyInterfaces';
+import { EnemyAbilityType, EnemyType, IEnemyAbility } from '../EnemyInterfaces';
 import { Position } from '../../Position';
+import { IProjectileService } from '../interfaces/IProjectileService';
+import { IMinionSpawnService, MinionOrphanBehavior } from '../interfaces/IMinionSpawnService';
+import { StatusEffectApplication, StatusEffectType } from '../../status-effects/StatusEffectTypes';
 
 /**
  * No special ability - placeholder
@@ -44,7 +47,7 @@ export class DashAbility implements IEnemyAbility {
             const baseY = dy / distance;
 
             // Add random angle offset (±60 degrees)
-            const randomAngle = ((Math.random() - 0.5) * Math.PI) / 1.5;
+            const randomAngle = ((enemy.getSimulation().random() - 0.5) * Math.PI) / 1.5;
             const cos = Math.cos(randomAngle);
             const sin = Math.sin(randomAngle);
 
@@ -53,7 +56,7 @@ export class DashAbility implements IEnemyAbility {
          }
       } else {
          // Random direction
-         const angle = Math.random() * Math.PI * 2;
+         const angle = enemy.getSimulation().random() * Math.PI * 2;
          dashDirection.x = Math.cos(angle);
          dashDirection.y = Math.sin(angle);
       }
@@ -147,66 +150,76 @@ export class ExplodeOnProximityAbility implements IEnemyAbility {
 }
 
 /**
- * Summon minions ability - spawns smaller enemies
+ * Summon minions ability - spawns smaller enemies in a ring around the summoner, which fight on enraged if the
+ * summoner dies
  */
 export class SummonMinionsAbility implements IEnemyAbility {
    public readonly type = EnemyAbilityType.SUMMON_MINIONS;
    public readonly cooldown = 8000; // 8 seconds
 
-   private minionCount = 3;
+   private minionType = EnemyType.SPEEDY;
+   private minionsPerSummon = 3;
+   private maxLiveMinions = 5;
    private summonRadius = 60;
+   private onSummonerDeath: MinionOrphanBehavior = 'enrage';
 
    public execute(enemy: any, target?: any): boolean {
-      // Spawn minions around the summoner
-      for (let i = 0; i < this.minionCount; i++) {
-         const angle = (i / this.minionCount) * Math.PI * 2;
-         const spawnX = enemy.position.x + Math.cos(angle) * this.summonRadius;
-         const spawnY = enemy.position.y + Math.sin(angle) * this.summonRadius;
-
-         this.spawnMinion({ x: spawnX, y: spawnY }, enemy.level);
+      const spawner: IMinionSpawnService | null = enemy.getMinionSpawnService();
+      if (!spawner) return false;
+
+      const count = Math.min(this.minionsPerSummon, this.maxLiveMinions - spawner.getMinionCount(enemy));
+      const startAngle = enemy.getSimulation().random() * Math.PI * 2;
+      let summoned = 0;
+
+      for (let i = 0; i < count; i++) {
+         const angle = startAngle + (i / count) * Math.PI * 2;
+         const minion = spawner.spawnMinion(enemy, {
+            enemyType: this.minionType,
+            level: enemy.level,
+            position: {
+               x: enemy.position.x + Math.cos(angle) * this.summonRadius,
+               y: enemy.position.y + Math.sin(angle) * this.summonRadius,
+            },
+            maxLiveMinions: this.maxLiveMinions,
+            onSummonerDeath: this.onSummonerDeath,
+         });
+
+         if (minion) summoned++;
       }
 
-      return true;
+      // Nothing fit, try again next time instead of going on cooldown
+      return summoned > 0;
    }
 
    public canUse(enemy: any): boolean {
-      return true; // Can always summon if not on cooldown
-   }
-
-   private spawnMinion(position: Position, level: number): void {
-      // This would be implemented by the game manager to spawn a new enemy
-      console.log(`Spawning minion at ${position.x}, ${position.y} with level ${level}`);
+      const spawner: IMinionSpawnService | null = enemy.getMinionSpawnService();
+      return spawner !== null && spawner.getMinionCount(enemy) < this.maxLiveMinions;
    }
 }
 
 /**
- * Rocket attack ability - launches projectiles at targets
+ * Rocket attack ability - launches homing rockets that explode on impact
  */
 export class RocketAttackAbility implements IEnemyAbility {
    public readonly type = EnemyAbilityType.ROCKET_ATTACK;
    public readonly cooldown = 4000; // 4 seconds
 
    private rocketSpeed = 200;
+   private rocketTurnRate = 1.2; // Radians per second, slow enough to dodge
+   private rocketRange = 500;
    private rocketDamage = 30;
    private explosionRadius = 40;
 
    public execute(enemy: any, target?: any): boolean {
       if (!target) return false;
 
-      // Calculate direction to target
-      const dx = target.position.x - enemy.position.x;
-      const dy = target.position.y - enemy.position.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-
-      if (distance === 0) return false;
+      const projectileService: IProjectileService | null = enemy.getProjectileService();
+      if (!projectileService) return false;
 
-      const direction = {
-         x: dx / distance,
-         y: dy / distance,
-      };
+      const targetPosition: Position = target.getCurrentPosition();
+      if (targetPosition.x === enemy.position.x && targetPosition.y === enemy.position.y) return false;
 
-      // Launch rocket
-      this.launchRocket(enemy.position, direction, target.position);
+      this.launchRocket(projectileService, enemy, target, targetPosition);
 
       return true;
    }
@@ -219,30 +232,55 @@ export class RocketAttackAbility implements IEnemyAbility {
       return distance <= enemy.properties.attackRange && distance > 60; // Don't fire at close range
    }
 
-   private launchRocket(startPosition: Position, direction: { x: number; y: number }, targetPosition: Position): void {
-      // This would be implemented by the game manager to create a projectile
-      console.log(
-         `Launching rocket from ${startPosition.x}, ${startPosition.y} towards ${targetPosition.x}, ${targetPosition.y}`,
-      );
+   private launchRocket(
+      projectileService: IProjectileService,
+      enemy: any,
+      target: any,
+      targetPosition: Position,
+   ): void {
+      projectileService.launchProjectile(enemy, {
+         projectileType: 'rocket',
+         origin: { ...enemy.position },
+         target: { ...targetPosition },
+         speed: this.rocketSpeed,
+         damage: this.rocketDamage * (1 + (enemy.level - 1) * 0.15),
+         explosionRadius: this.explosionRadius,
+         homingTarget: target,
+         turnRate: this.rocketTurnRate,
+         maxDistance: this.rocketRange,
+      });
    }
 }
 
 /**
- * Acid throw ability - creates damaging ground areas
+ * Acid throw ability - lobs acid that leaves a damaging pool where it lands
  */
 export class AcidThrowAbility implements IEnemyAbility {
    public readonly type = EnemyAbilityType.ACID_THROW;
    public readonly cooldown = 5000; // 5 seconds
 
+   private acidSpeed = 260;
    private acidRadius = 50;
    private acidDuration = 8000; // 8 seconds
    private acidDamagePerSecond = 15;
+   // Reapplied while a player stands in the pool, so it stacks up to a 45% slow and wears off soon after leaving
+   private acidSlow: StatusEffectApplication = { type: StatusEffectType.SLOW, durationMs: 1000, magnitude: 0.15 };
 
    public execute(enemy: any, target?: any): boolean {
       if (!target) return false;
 
+      const projectileService: IProjectileService | null = enemy.getProjectileService();
+      if (!projectileService) return false;
+
       // Throw acid at target's current position
-      this.createAcidPool(target.position, this.acidRadius, this.acidDuration, this.acidDamagePerSecond);
+      this.createAcidPool(
+         projectileService,
+         enemy,
+         target.getCurrentPosition(),
+         this.acidRadius,
+         this.acidDuration,
+         this.acidDamagePerSecond * (1 + (enemy.level - 1) * 0.15),
+      );
 
       return true;
    }
@@ -255,9 +293,31 @@ export class AcidThrowAbility implements IEnemyAbility {
       return distance <= enemy.properties.attackRange;
    }
 
-   private createAcidPool(position: Position, radius: number, duration: number, damagePerSecond: number): void {
-      // This would be implemented by the game manager to create a persistent damage area
-      console.log(`Creating acid pool at ${position.x}, ${position.y} for ${duration}ms`);
+   private createAcidPool(
+      projectileService: IProjectileService,
+      enemy: any,
+      position: Position,
+      radius: number,
+      duration: number,
+      damagePerSecond: number,
+   ): void {
+      // The pool appears where the glob lands, short of the target if it hits a wall on the way
+      projectileService.launchProjectile(enemy, {
+         projectileType: 'acid',
+         origin: { ...enemy.position },
+         target: { ...position },
+         speed: this.acidSpeed,
+         damage: 0,
+         explosionRadius: 0,
+         passesOverPlayers: true,
+         damageArea: {
+            areaType: 'acid',
+            radius,
+            durationMs: duration,
+            damagePerSecond,
+            statusEffect: this.acidSlow,
+         },
+      });
    }
 }
 
@@ -275,7 +335,7 @@ export class BulletDeflectionAbility implements IEnemyAbility {
 
    public execute(enemy: any, target?: any): boolean {
       this.isActive = true;
-      this.activeUntil = Date.now() + this.deflectionDuration;
+      this.activeUntil = enemy.getSimulation().now() + this.deflectionDuration;
 
       // Visual effect would be created here
       console.log(`${enemy.id} activated bullet deflection shield`);
@@ -289,7 +349,7 @@ export class BulletDeflectionAbility implements IEnemyAbility {
    }
 
    public update(enemy: any, deltaTime: number): void {
-      if (this.isActive && Date.now() > this.activeUntil) {
+      if (this.isActive && enemy.getSimulation().now() > this.activeUntil) {
          this.isActive = false;
       }
 
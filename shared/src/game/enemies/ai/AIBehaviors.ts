@@ -90,7 +90,7 @@ export class StrategicAI implements IAIBehavior {
       if (distance <= enemy.properties.attackRange) {
          enemy.attackTarget(target);
       } else {
-         this.moveUnpredictablyWithForce(enemy, targetPosition, Date.now(), deltaTime);
+         this.moveUnpredictablyWithForce(enemy, targetPosition, enemy.getSimulation().now(), deltaTime);
       }
    }
 
@@ -133,7 +133,7 @@ export class StrategicAI implements IAIBehavior {
       const baseY = dy / distance;
 
       // Add random offset for unpredictability
-      const randomAngle = ((Math.random() - 0.5) * Math.PI) / 2; // ±45 degrees
+      const randomAngle = ((enemy.getSimulation().random() - 0.5) * Math.PI) / 2; // ±45 degrees
       const cos = Math.cos(randomAngle);
       const sin = Math.sin(randomAngle);
 
@@ -302,8 +302,8 @@ export class SwarmAI implements IAIBehavior {
       // TODO: Get nearby enemies from enemy manager for true swarm behavior
       // For now, just use basic target direction with slight randomization
       const swarmDirection = {
-         x: targetDirection.x + (Math.random() - 0.5) * 0.3,
-         y: targetDirection.y + (Math.random() - 0.5) * 0.3,
+         x: targetDirection.x + (enemy.getSimulation().random() - 0.5) * 0.3,
+         y: targetDirection.y + (enemy.getSimulation().random() - 0.5) * 0.3,
       };
 
       // Normalize swarm direction
@@ -0,0 +1,31 @@
+import type { BaseEnemy } from '../BaseEnemy';
+import { EnemyType } from '../EnemyInterfaces';
+import { Position } from '../../Position';
+
+/**
+ * What becomes of a summoner's minions once the summoner dies
+ */
+export type MinionOrphanBehavior = 'despawn' | 'enrage';
+
+export interface MinionSpawnOptions {
+   enemyType: EnemyType;
+   level: number;
+   /** Where the minion should appear, it is moved to a free spot nearby if this one is blocked */
+   position: Position;
+   /** Most minions the summoner can have alive at once */
+   maxLiveMinions: number;
+   onSummonerDeath: MinionOrphanBehavior;
+}
+
+export interface IMinionSpawnService {
+   /**
+    * Spawn a minion owned by the summoner
+    * @returns The minion, null if the summoner is at its cap, there is no free spot or the enemy limit is reached
+    */
+   spawnMinion(summoner: BaseEnemy, options: MinionSpawnOptions): BaseEnemy | null;
+
+   /**
+    * Number of the summoner's minions that are still alive
+    */
+   getMinionCount(summoner: BaseEnemy): number;
+}
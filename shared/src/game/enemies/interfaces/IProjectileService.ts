@@ -0,0 +1,47 @@
+import type { BaseEnemy } from '../BaseEnemy';
+import { Position } from '../../Position';
+import { ITargetable } from '../EnemyTargetSystem';
+import { DamageAreaSpawnData, ProjectileSpawnData } from '../../network/messages/EnemyNetworkEvents';
+import { StatusEffectApplication } from '../../status-effects/StatusEffectTypes';
+
+export interface DamageAreaOptions {
+   areaType: DamageAreaSpawnData['areaType'];
+   radius: number;
+   durationMs: number;
+   damagePerSecond: number;
+   /** Inflicted on the players standing in the area every time it damages them */
+   statusEffect?: StatusEffectApplication;
+}
+
+export interface ProjectileLaunchOptions {
+   projectileType: ProjectileSpawnData['projectileType'];
+   origin: Position;
+   target: Position;
+   /** Pixels per second */
+   speed: number;
+   damage: number;
+   /** Players within this many pixels of the impact take damage, 0 only damages a player that was hit directly */
+   explosionRadius: number;
+   /** Player the projectile steers towards while it flies */
+   homingTarget?: ITargetable;
+   /** Radians per second a homing projectile can turn */
+   turnRate?: number;
+   /** Flight distance after which the projectile goes off by itself, the distance to the target by default */
+   maxDistance?: number;
+   /** Lobbed projectiles fly over players and only stop at walls */
+   passesOverPlayers?: boolean;
+   /** Ground hazard left behind where the projectile lands */
+   damageArea?: DamageAreaOptions;
+}
+
+export interface IProjectileService {
+   /**
+    * @returns Id of the projectile
+    */
+   launchProjectile(source: BaseEnemy, options: ProjectileLaunchOptions): string;
+
+   /**
+    * @returns Id of the damage area
+    */
+   createDamageArea(source: BaseEnemy, position: Position, options: DamageAreaOptions): string;
+}
@@ -0,0 +1,76 @@
+// shared/src/game/enemies/projectiles/EnemyProjectileMotion.ts
+
+import { Position } from '../../Position';
+import { MathUtil } from '../../../util/MathUtil';
+
+/**
+ * Where an enemy projectile is and where it is heading. The server and the clients step it the same way, so
+ * a client only needs the launch to draw the flight the server simulates.
+ */
+export interface EnemyProjectileFlight {
+   position: Position;
+   velocity: { x: number; y: number };
+   /** Pixels per second */
+   speed: number;
+   /** How far a homing projectile can turn, in radians per second. 0 flies straight */
+   turnRate: number;
+   /** Pixels flown so far */
+   distanceTravelled: number;
+   /** Pixels after which the projectile goes off by itself */
+   maxDistance: number;
+}
+
+export class EnemyProjectileMotion {
+   public static create(
+      origin: Position,
+      target: Position,
+      speed: number,
+      turnRate: number = 0,
+      maxDistance?: number,
+   ): EnemyProjectileFlight {
+      const distance = MathUtil.distance(origin, target);
+      const angle = Math.atan2(target.y - origin.y, target.x - origin.x);
+
+      return {
+         position: { ...origin },
+         velocity: { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed },
+         speed,
+         turnRate,
+         distanceTravelled: 0,
+         maxDistance: maxDistance ?? distance,
+      };
+   }
+
+   /**
+    * Turn towards the homing target if there is one and move forward, never past the projectile's range
+    * @returns Displacement of this step in pixels
+    */
+   public static advance(
+      flight: EnemyProjectileFlight,
+      homingTarget: Position | null,
+      deltaSeconds: number,
+   ): { x: number; y: number } {
+      if (homingTarget && flight.turnRate > 0) {
+         const heading = Math.atan2(flight.velocity.y, flight.velocity.x);
+         const desired = Math.atan2(homingTarget.y - flight.position.y, homingTarget.x - flight.position.x);
+         const maxTurn = flight.turnRate * deltaSeconds;
+         const turn = MathUtil.clamp(MathUtil.shortestAngleBetween(heading, desired), -maxTurn, maxTurn);
+         const newHeading = heading + turn;
+
+         flight.velocity = { x: Math.cos(newHeading) * flight.speed, y: Math.sin(newHeading) * flight.speed };
+      }
+
+      const stepDistance = Math.min(flight.speed * deltaSeconds, flight.maxDistance - flight.distanceTravelled);
+      const scale = flight.speed > 0 ? stepDistance / flight.speed : 0;
+      const displacement = { x: flight.velocity.x * scale, y: flight.velocity.y * scale };
+
+      flight.position = { x: flight.position.x + displacement.x, y: flight.position.y + displacement.y };
+      flight.distanceTravelled += stepDistance;
+
+      return displacement;
+   }
+
+   public static hasReachedRange(flight: EnemyProjectileFlight): boolean {
+      return flight.distanceTravelled >= flight.maxDistance;
+   }
+}
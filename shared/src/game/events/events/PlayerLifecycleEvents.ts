@@ -0,0 +1,95 @@
+// shared/src/game/events/events/PlayerLifecycleEvents.ts
+
+import { Player } from '../../Player';
+import { GameOverData } from '../../network/messages/client-bound/PlayerLifecycleData';
+import { PlayerDamageSource } from '../../network/messages/client-bound/PlayerDamageData';
+import { GameEvent } from './GameEvent';
+import { PlayerEvent } from './PlayerEvent';
+
+/**
+ * Event fired when a player loses health, with the damage left after armor
+ */
+export class PlayerDamagedEvent extends PlayerEvent {
+   public readonly gameId: string;
+   public readonly damage: number;
+   public readonly source: PlayerDamageSource;
+
+   constructor(gameId: string, player: Player, damage: number, source: PlayerDamageSource) {
+      super(PlayerDamagedEvent.getType(), player);
+      this.gameId = gameId;
+      this.damage = damage;
+      this.source = source;
+   }
+
+   public static getType(): string {
+      return 'player_damaged';
+   }
+}
+
+/**
+ * Event fired when a player reaches zero health and goes down
+ */
+export class PlayerDownedEvent extends PlayerEvent {
+   public readonly gameId: string;
+
+   constructor(gameId: string, player: Player) {
+      super(PlayerDownedEvent.getType(), player);
+      this.gameId = gameId;
+   }
+
+   public static getType(): string {
+      return 'player_downed';
+   }
+}
+
+/**
+ * Event fired when a teammate finishes reviving a downed player
+ */
+export class PlayerRevivedEvent extends PlayerEvent {
+   public readonly gameId: string;
+   public readonly reviver: Player;
+
+   constructor(gameId: string, player: Player, reviver: Player) {
+      super(PlayerRevivedEvent.getType(), player);
+      this.gameId = gameId;
+      this.reviver = reviver;
+   }
+
+   public static getType(): string {
+      return 'player_revived';
+   }
+}
+
+/**
+ * Event fired when a downed player was not revived in time
+ */
+export class PlayerDeathEvent extends PlayerEvent {
+   public readonly gameId: string;
+
+   constructor(gameId: string, player: Player) {
+      super(PlayerDeathEvent.getType(), player);
+      this.gameId = gameId;
+   }
+
+   public static getType(): string {
+      return 'player_death';
+   }
+}
+
+/**
+ * Event fired when the last player of a game dies and the run is over
+ */
+export class GameOverEvent extends GameEvent {
+   public readonly gameId: string;
+   public readonly summary: GameOverData;
+
+   constructor(gameId: string, summary: GameOverData) {
+      super(GameOverEvent.getType());
+      this.gameId = gameId;
+      this.summary = summary;
+   }
+
+   public static getType(): string {
+      return 'game_over';
+   }
+}
@@ -0,0 +1,45 @@
+// shared/src/game/events/events/WaveEvents.ts
+
+import { GameEvent } from './GameEvent';
+
+/**
+ * Event fired when a wave starts spawning
+ */
+export class WaveStartEvent extends GameEvent {
+   public readonly gameId: string;
+   public readonly waveNumber: number;
+   public readonly enemyCount: number;
+   public readonly enemyLevel: number;
+
+   constructor(gameId: string, waveNumber: number, enemyCount: number, enemyLevel: number) {
+      super(WaveStartEvent.getType());
+      this.gameId = gameId;
+      this.waveNumber = waveNumber;
+      this.enemyCount = enemyCount;
+      this.enemyLevel = enemyLevel;
+   }
+
+   public static getType(): string {
+      return 'wave_start';
+   }
+}
+
+/**
+ * Event fired when every enemy of a wave has been killed
+ */
+export class WaveClearEvent extends GameEvent {
+   public readonly gameId: string;
+   public readonly waveNumber: number;
+   public readonly durationMs: number;
+
+   constructor(gameId: string, waveNumber: number, durationMs: number) {
+      super(WaveClearEvent.getType());
+      this.gameId = gameId;
+      this.waveNumber = waveNumber;
+      this.durationMs = durationMs;
+   }
+
+   public static getType(): string {
+      return 'wave_clear';
+   }
+}
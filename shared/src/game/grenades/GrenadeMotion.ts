@@ -0,0 +1,179 @@
+// shared/src/game/grenades/GrenadeMotion.ts
+
+import type * as RAPIER from '@dimforge/rapier2d-compat';
+import { Position } from '../Position';
+import { CollisionCategory, CollisionGroups } from '../CollisionSettings';
+import { MathUtil } from '../../util/MathUtil';
+import { pixelToPhysics } from '../../util/Utils';
+
+/**
+ * Where a thrown grenade is. It moves over the map like everything else and has a height above the ground on
+ * top of that, so it can arc, bounce off the floor and roll to a stop. The server and the clients step it the
+ * same way, a client only needs the throw to draw the flight and preview where a throw would go.
+ */
+export interface GrenadeFlight {
+   position: Position;
+   /** Pixels per second over the map */
+   velocity: { x: number; y: number };
+   /** Pixels above the ground */
+   height: number;
+   /** Pixels per second, positive is up */
+   verticalSpeed: number;
+}
+
+/**
+ * Sweeps the grenade over one step and reports the first wall in the way
+ * @returns Fraction of the displacement travelled before touching the wall and the wall's outward normal
+ */
+export type GrenadeWallCast = (
+   from: Position,
+   displacement: { x: number; y: number },
+) => { timeOfImpact: number; normal: { x: number; y: number } } | null;
+
+export class GrenadeMotion {
+   /** Collision radius, in pixels */
+   public static readonly RADIUS = 6;
+
+   /** Pixels per second squared */
+   private static readonly GRAVITY = 1400;
+   /** Seconds until the first bounce, the same for every throw distance */
+   private static readonly AIR_TIME = 0.6;
+
+   /** Share of the vertical speed kept when bouncing off the floor */
+   private static readonly FLOOR_RESTITUTION = 0.35;
+   /** Share of the speed over the map kept when bouncing off the floor */
+   private static readonly FLOOR_FRICTION = 0.55;
+   /** Share of the speed kept when bouncing off a wall */
+   private static readonly WALL_RESTITUTION = 0.5;
+   /** Slower bounces than this settle the grenade on the floor, in pixels per second */
+   private static readonly MIN_BOUNCE_SPEED = 60;
+   /** Pixels per second squared while rolling */
+   private static readonly ROLL_DECELERATION = 500;
+
+   /**
+    * Throw from the origin so the grenade first lands on the target, or at the furthest throw distance
+    * in its direction
+    */
+   public static create(origin: Position, target: Position, maxThrowDistance: number): GrenadeFlight {
+      const distance = Math.min(MathUtil.distance(origin, target), maxThrowDistance);
+      const angle = Math.atan2(target.y - origin.y, target.x - origin.x);
+      const speed = distance / GrenadeMotion.AIR_TIME;
+
+      return {
+         position: { ...origin },
+         velocity: { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed },
+         height: 0,
+         verticalSpeed: (GrenadeMotion.GRAVITY * GrenadeMotion.AIR_TIME) / 2,
+      };
+   }
+
+   /**
+    * Move the grenade one step: fall, bounce off the floor and the walls in the way, roll out once it stops bouncing
+    */
+   public static step(flight: GrenadeFlight, deltaSeconds: number, castWalls: GrenadeWallCast | null): void {
+      GrenadeMotion.moveOverMap(flight, deltaSeconds, castWalls);
+
+      if (GrenadeMotion.isAirborne(flight)) {
+         flight.verticalSpeed -= GrenadeMotion.GRAVITY * deltaSeconds;
+         flight.height += flight.verticalSpeed * deltaSeconds;
+
+         if (flight.height <= 0) {
+            flight.height = 0;
+
+            const bounceSpeed = -flight.verticalSpeed * GrenadeMotion.FLOOR_RESTITUTION;
+            flight.verticalSpeed = bounceSpeed >= GrenadeMotion.MIN_BOUNCE_SPEED ? bounceSpeed : 0;
+            flight.velocity.x *= GrenadeMotion.FLOOR_FRICTION;
+            flight.velocity.y *= GrenadeMotion.FLOOR_FRICTION;
+         }
+         return;
+      }
+
+      const speed = Math.hypot(flight.velocity.x, flight.velocity.y);
+      if (speed === 0) return;
+
+      const slowedSpeed = Math.max(0, speed - GrenadeMotion.ROLL_DECELERATION * deltaSeconds);
+      flight.velocity.x *= slowedSpeed / speed;
+      flight.velocity.y *= slowedSpeed / speed;
+   }
+
+   /**
+    * Where a grenade thrown now would be at each step until it goes off, for drawing the throw preview
+    */
+   public static predictPath(
+      origin: Position,
+      target: Position,
+      maxThrowDistance: number,
+      fuseMs: number,
+      deltaSeconds: number,
+      castWalls: GrenadeWallCast | null,
+   ): GrenadeFlight[] {
+      const flight = GrenadeMotion.create(origin, target, maxThrowDistance);
+      const steps = Math.ceil(fuseMs / 1000 / deltaSeconds);
+      const path: GrenadeFlight[] = [];
+
+      for (let i = 0; i < steps; i++) {
+         GrenadeMotion.step(flight, deltaSeconds, castWalls);
+         path.push({ ...flight, position: { ...flight.position }, velocity: { ...flight.velocity } });
+      }
+
+      return path;
+   }
+
+   public static isAirborne(flight: GrenadeFlight): boolean {
+      return flight.height > 0 || flight.verticalSpeed > 0;
+   }
+
+   /**
+    * Sweeps against the map's walls in the given physics world and ignores every other collider
+    */
+   public static createWallCaster(world: RAPIER.World, rapier: typeof RAPIER): GrenadeWallCast {
+      const shape = new rapier.Ball(pixelToPhysics(GrenadeMotion.RADIUS));
+
+      return (from, displacement) => {
+         const hit = world.castShape(
+            { x: pixelToPhysics(from.x), y: pixelToPhysics(from.y) },
+            0,
+            { x: pixelToPhysics(displacement.x), y: pixelToPhysics(displacement.y) },
+            shape,
+            0,
+            1,
+            true,
+            undefined,
+            CollisionGroups.Bullet,
+            undefined,
+            undefined,
+            (collider) => ((collider.collisionGroups() >>> 16) & CollisionCategory.Obstacle) !== 0,
+         );
+
+         return hit ? { timeOfImpact: hit.time_of_impact, normal: { x: hit.normal1.x, y: hit.normal1.y } } : null;
+      };
+   }
+
+   /**
+    * Move over the map for one step, stopping at the first wall in the way and bouncing back from it
+    */
+   private static moveOverMap(flight: GrenadeFlight, deltaSeconds: number, castWalls: GrenadeWallCast | null): void {
+      const displacement = { x: flight.velocity.x * deltaSeconds, y: flight.velocity.y * deltaSeconds };
+      if (displacement.x === 0 && displacement.y === 0) return;
+
+      const hit = castWalls?.(flight.position, displacement) ?? null;
+      const approachSpeed = hit ? flight.velocity.x * hit.normal.x + flight.velocity.y * hit.normal.y : 0;
+
+      // Already moving away from the wall, let it get clear
+      if (!hit || approachSpeed >= 0) {
+         flight.position = { x: flight.position.x + displacement.x, y: flight.position.y + displacement.y };
+         return;
+      }
+
+      flight.position = {
+         x: flight.position.x + displacement.x * hit.timeOfImpact,
+         y: flight.position.y + displacement.y * hit.timeOfImpact,
+      };
+
+      const restitution = GrenadeMotion.WALL_RESTITUTION;
+      flight.velocity = {
+         x: (flight.velocity.x - 2 * approachSpeed * hit.normal.x) * restitution,
+         y: (flight.velocity.y - 2 * approachSpeed * hit.normal.y) * restitution,
+      };
+   }
+}
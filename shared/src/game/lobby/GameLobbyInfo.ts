@@ -0,0 +1,29 @@
+/**
+ * Public summary of a game lobby, returned by the game server's lobby endpoints
+ */
+export interface GameLobbyInfo {
+   gameId: string;
+
+   /** Port of the game's own geckos.io namespace */
+   port: number;
+
+   playerCount: number;
+   minPlayers: number;
+   maxPlayers: number;
+   started: boolean;
+   createdAt: number;
+}
+
+/**
+ * Body of the lobby's game list
+ */
+export interface GameListResponse {
+   games: GameLobbyInfo[];
+}
+
+/**
+ * Body of the lobby endpoints that look up, create or quick join a single game
+ */
+export interface GameLobbyResponse {
+   game: GameLobbyInfo;
+}
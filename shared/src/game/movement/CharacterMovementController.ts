@@ -210,6 +210,11 @@ export class CharacterMovementController implements MovementController {
       }
    }
 
+   public addImpulse(velocity: { x: number; y: number }): void {
+      this.currentVelocity.x += velocity.x;
+      this.currentVelocity.y += velocity.y;
+   }
+
    public getCurrentVelocity(): { x: number; y: number } {
       return { ...this.currentVelocity };
    }
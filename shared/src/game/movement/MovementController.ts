@@ -4,4 +4,9 @@ export interface MovementController {
    move(playerMoveData: PlayerMoveRequest[]): void;
 
    getCurrentVelocity(): { x: number; y: number };
+
+   /**
+    * Add a velocity in pixels per second on top of the player's own movement, it fades out like releasing a key
+    */
+   addImpulse(velocity: { x: number; y: number }): void;
 }
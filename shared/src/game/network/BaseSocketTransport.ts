@@ -1,6 +1,7 @@
 import { INetworkTransport } from './INetworkTransport';
 import { NetworkMessage } from './NetworkMessage';
 import { ClientBound, EventDataMap, ServerBound } from './SocketEvents';
+import { BinaryMessageCodec, DecodedBinaryMessage } from './codec/BinaryMessageCodec';
 
 export type NetworkEventType = ClientBound | ServerBound;
 
@@ -124,6 +125,33 @@ export abstract class BaseSocketTransport<T extends EventDataMap = EventDataMap>
       }
    }
 
+   /**
+    * Encodes an outgoing unreliable message in the binary protocol. Reliable messages carry JSON
+    * acknowledgement fields and always go out as JSON.
+    * @protected
+    * @returns {Uint8Array | null} The encoded message, or null if the event has no binary schema
+    */
+   protected encodeBinaryMessage<K extends keyof EventDataMap>(eventType: K, data: EventDataMap[K]): Uint8Array | null {
+      return BinaryMessageCodec.encode(eventType, data);
+   }
+
+   /**
+    * Decodes an incoming raw message back into its event type and typed data, so it can be passed
+    * to the same handlers as a JSON message.
+    * @protected
+    * @returns {DecodedBinaryMessage | null} The decoded message, or null if it is not a valid binary message
+    */
+   protected decodeBinaryMessage(message: unknown): DecodedBinaryMessage | null {
+      if (!(message instanceof ArrayBuffer) && !ArrayBuffer.isView(message)) return null;
+
+      try {
+         return BinaryMessageCodec.decode(message);
+      } catch (error) {
+         console.warn('Dropping malformed binary message:', error);
+         return null;
+      }
+   }
+
    /**
     * Emits a connection event to all registered connection handlers.
     * Sets the `connected` flag to `true`.
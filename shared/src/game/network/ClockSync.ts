@@ -0,0 +1,156 @@
+// shared/src/game/network/ClockSync.ts
+
+import { gameSettings } from '../SystemSettings';
+
+/**
+ * One ping exchange. Times are wall clock milliseconds, each side reading its own clock.
+ */
+export interface ClockSample {
+   /** Client clock when the request was sent */
+   clientSendTime: number;
+
+   /** Server clock when it answered, requests are answered as they arrive */
+   serverTime: number;
+
+   /** Client clock when the response arrived */
+   clientReceiveTime: number;
+}
+
+/**
+ * The server tick that ran at a server time
+ */
+export interface ServerTickReference {
+   tick: number;
+   tickTime: number;
+}
+
+interface OffsetSample {
+   localTime: number;
+   offset: number;
+   roundTrip: number;
+}
+
+/**
+ * Estimates the server clock from ping exchanges, the way NTP does. Each exchange gives the offset between
+ * the clocks assuming the request and the response took equally long, so the exchanges with the shortest
+ * round trips are the ones trusted most. A line through their offsets over time also gives the drift,
+ * how many milliseconds per second the clocks run apart.
+ */
+export class ClockSync {
+   private static readonly MAX_SAMPLES = 16;
+
+   // Drift is only worked out from samples this far apart, shorter spans mostly measure jitter
+   private static readonly MIN_DRIFT_SPAN_MS = 10000;
+
+   // Real clocks drift well under this, anything more is noise in the samples
+   private static readonly MAX_DRIFT = 0.5;
+
+   // Ticks the client stays ahead of the server on top of the one-way trip, so inputs arrive in time
+   private static readonly SAFETY_TICKS = 1;
+
+   private samples: OffsetSample[] = [];
+   private offset = 0;
+   private drift = 0;
+   private referenceTime = 0;
+   private tickReference: ServerTickReference | null = null;
+
+   /**
+    * Take in a ping exchange
+    * @param tickReference Tick the server was on when it answered, null while its game loop is stopped
+    */
+   public addSample(sample: ClockSample, tickReference: ServerTickReference | null): void {
+      const roundTrip = sample.clientReceiveTime - sample.clientSendTime;
+      if (roundTrip < 0) return;
+
+      this.samples.push({
+         localTime: sample.clientReceiveTime,
+         offset: sample.serverTime - (sample.clientSendTime + sample.clientReceiveTime) / 2,
+         roundTrip,
+      });
+      if (this.samples.length > ClockSync.MAX_SAMPLES) {
+         this.samples.shift();
+      }
+
+      this.tickReference = tickReference ? { ...tickReference } : null;
+      this.estimate();
+   }
+
+   public isSynced(): boolean {
+      return this.samples.length > 0;
+   }
+
+   /**
+    * Milliseconds the server clock is ahead of the local one at the given local time
+    */
+   public getOffset(localTime: number): number {
+      return this.offset + this.drift * ((localTime - this.referenceTime) / 1000);
+   }
+
+   /**
+    * Milliseconds per second the server clock gains on the local one
+    */
+   public getDrift(): number {
+      return this.drift;
+   }
+
+   public getServerTime(localTime: number): number {
+      return localTime + this.getOffset(localTime);
+   }
+
+   /**
+    * Tick the server is on at the given local time, with the fraction of the tick that has passed
+    * @returns Null until a ping answered while the server's game loop was running
+    */
+   public getEstimatedServerTick(localTime: number): number | null {
+      if (!this.tickReference) return null;
+
+      const elapsed = this.getServerTime(localTime) - this.tickReference.tickTime;
+      return this.tickReference.tick + elapsed / gameSettings.gameUpdateIntervalMillis;
+   }
+
+   /**
+    * How many ticks the client should be ahead of the server: an input sent now has to make the one-way
+    * trip, plus the jitter of the trip, before the server runs the tick it belongs to
+    */
+   public getTargetTickLead(): number {
+      if (this.samples.length === 0) return ClockSync.SAFETY_TICKS;
+
+      const roundTrips = this.samples.map((sample) => sample.roundTrip);
+      const average = roundTrips.reduce((sum, roundTrip) => sum + roundTrip, 0) / roundTrips.length;
+      const jitter = Math.sqrt(
+         roundTrips.reduce((sum, roundTrip) => sum + (roundTrip - average) ** 2, 0) / roundTrips.length,
+      );
+
+      return Math.ceil((average / 2 + jitter) / gameSettings.gameUpdateIntervalMillis) + ClockSync.SAFETY_TICKS;
+   }
+
+   private estimate(): void {
+      // The faster half of the exchanges, a slow one was held up on one leg more than on the other
+      const trusted = [...this.samples]
+         .sort((a, b) => a.roundTrip - b.roundTrip)
+         .slice(0, Math.max(1, Math.ceil(this.samples.length / 2)))
+         .sort((a, b) => a.localTime - b.localTime);
+
+      const first = trusted[0];
+      const last = trusted[trusted.length - 1];
+      const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+      const meanTime = mean(trusted.map((sample) => sample.localTime));
+      const meanOffset = mean(trusted.map((sample) => sample.offset));
+
+      let drift = 0;
+      if (last.localTime - first.localTime >= ClockSync.MIN_DRIFT_SPAN_MS) {
+         // Least squares line through the offsets, its slope is the drift per millisecond
+         let covariance = 0;
+         let variance = 0;
+         trusted.forEach((sample) => {
+            covariance += (sample.localTime - meanTime) * (sample.offset - meanOffset);
+            variance += (sample.localTime - meanTime) ** 2;
+         });
+         drift = variance > 0 ? (covariance / variance) * 1000 : 0;
+      }
+
+      this.drift = Math.max(-ClockSync.MAX_DRIFT, Math.min(ClockSync.MAX_DRIFT, drift));
+      this.offset = meanOffset;
+      this.referenceTime = meanTime;
+   }
+}
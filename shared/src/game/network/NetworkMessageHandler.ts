@@ -9,6 +9,7 @@ export class NetworkMessageManager {
    private registeredHandlers: Map<string, any> = new Map();
    private handlerInstanceCache: Map<any, any> = new Map();
    private handlerToInstanceMap: Map<NetworkMessageHandlerMetadata, any> = new Map();
+   private incomingMessageListeners: ((eventType: NetworkEventType, data: any) => void)[] = [];
 
    private isInitialized: boolean = false;
 
@@ -126,6 +127,21 @@ export class NetworkMessageManager {
       }
    }
 
+   /**
+    * Register a listener that sees every incoming message with handlers, as it arrives and before it is
+    * handled or scheduled
+    */
+   public onIncomingMessage(listener: (eventType: NetworkEventType, data: any) => void): void {
+      this.incomingMessageListeners.push(listener);
+   }
+
+   /**
+    * Handle a message as if it had just arrived from the transport, used to play a recorded match back
+    */
+   public dispatchMessage(eventType: NetworkEventType, data: any): void {
+      this.handleNetworkMessage(eventType, data);
+   }
+
    /**
     * Handle a network message by scheduling it or executing immediately based on timing
     * @param eventType The event type
@@ -139,13 +155,18 @@ export class NetworkMessageManager {
          return;
       }
 
+      this.incomingMessageListeners.forEach((listener) => listener(eventType, data));
+
       if (eventType === ClientBound.UpdateAllPlayers) {
          // Add receivedAtClient timestamp to each player update
-         if (Array.isArray(data)) {
-            data = data.map((playerUpdate) => ({
-               ...playerUpdate,
-               receivedAtClient: performance.timeOrigin + performance.now(),
-            }));
+         if (Array.isArray(data?.players)) {
+            data = {
+               ...data,
+               players: data.players.map((playerUpdate: any) => ({
+                  ...playerUpdate,
+                  receivedAtClient: performance.timeOrigin + performance.now(),
+               })),
+            };
          }
       }
 
@@ -248,7 +269,7 @@ export class NetworkMessageManager {
     * Check if this is client-side code
     */
    private isClientSide(): boolean {
-      return this.game.constructor.name === 'FrontendGame';
+      return this.game.isClient();
    }
 
    /**
@@ -1,14 +1,24 @@
 // shared/src/game/network/PingSystem.ts
 
+import { TimeUtil } from '../../util/TimeUtil';
+import { ClockSync } from './ClockSync';
+
 export interface PingRequestData {
    clientTimestamp: number;
    requestId: string;
+   // Latest measurements piggybacked on the next ping, the server uses them for lag compensation
+   averageRtt?: number;
+   interpolationDelay?: number;
 }
 
 export interface PingResponseData {
    clientTimestamp: number;
+   // Server wall clock when the request was answered, the client syncs its clock to it
    serverTimestamp: number;
    requestId: string;
+   // Tick the server game loop was on and the time that tick was scheduled for, left out while it is stopped
+   serverTick?: number;
+   serverTickTime?: number;
 }
 
 export class PingManager {
@@ -21,6 +31,10 @@ export class PingManager {
    private pingInterval: NodeJS.Timeout | null = null;
    private readonly pingIntervalMs = 2000; // Ping every 2 seconds
 
+   private interpolationDelay: number = 0;
+
+   private clockSync = new ClockSync();
+
    private sendPingCallback?: (data: PingRequestData) => void;
 
    constructor() {}
@@ -32,6 +46,13 @@ export class PingManager {
       this.sendPingCallback = callback;
    }
 
+   /**
+    * How far behind the latest server state remote entities are drawn, reported to the server with each ping
+    */
+   public setInterpolationDelay(delayMs: number): void {
+      this.interpolationDelay = delayMs;
+   }
+
    /**
     * Start periodic ping measurements
     */
@@ -63,12 +84,12 @@ export class PingManager {
       if (!this.sendPingCallback) return;
 
       const requestId = `ping_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const clientTimestamp = performance.now();
+      const clientTimestamp = TimeUtil.getCurrentTimestamp();
 
       this.pendingPings.set(requestId, clientTimestamp);
 
       // Clean up old pending pings (older than 10 seconds)
-      const now = performance.now();
+      const now = TimeUtil.getCurrentTimestamp();
       for (const [id, timestamp] of this.pendingPings.entries()) {
          if (now - timestamp > 10000) {
             this.pendingPings.delete(id);
@@ -78,6 +99,8 @@ export class PingManager {
       this.sendPingCallback({
          clientTimestamp,
          requestId,
+         averageRtt: this.pingHistory.length > 0 ? this.averagePing : undefined,
+         interpolationDelay: this.interpolationDelay,
       });
    }
 
@@ -93,9 +116,16 @@ export class PingManager {
 
       this.pendingPings.delete(response.requestId);
 
-      const receiveTime = performance.now();
+      const receiveTime = TimeUtil.getCurrentTimestamp();
       const roundTripTime = receiveTime - sendTime;
 
+      this.clockSync.addSample(
+         { clientSendTime: sendTime, serverTime: response.serverTimestamp, clientReceiveTime: receiveTime },
+         response.serverTick !== undefined && response.serverTickTime !== undefined
+            ? { tick: response.serverTick, tickTime: response.serverTickTime }
+            : null,
+      );
+
       // Store the ping measurement
       this.currentPing = roundTripTime;
       this.pingHistory.push(roundTripTime);
@@ -140,6 +170,13 @@ export class PingManager {
       return Math.sqrt(variance);
    }
 
+   /**
+    * Estimate of the server clock and tick from the ping exchanges so far
+    */
+   public getClockSync(): ClockSync {
+      return this.clockSync;
+   }
+
    /**
     * Cleanup when destroying the ping manager
     */
@@ -147,5 +184,6 @@ export class PingManager {
       this.stopPinging();
       this.pendingPings.clear();
       this.pingHistory = [];
+      this.clockSync = new ClockSync();
    }
 }
@@ -0,0 +1,66 @@
+// shared/src/game/network/SnapshotBuffer.ts
+
+import { NO_BASELINE_TICK, SnapshotHeader } from './messages/client-bound/SnapshotData';
+import { gameSettings } from '../SystemSettings';
+
+/**
+ * Full state of every entity after a snapshot, split by whether it differs from the previously applied one
+ */
+export interface SnapshotChanges<T> {
+   changed: T[];
+   unchanged: T[];
+}
+
+/**
+ * Recently applied snapshots of a stream whose entries are always complete, like players and guns. The server
+ * leaves out what has not changed since a snapshot the client acknowledged, which may be older than the last
+ * one applied, so an update only makes sense on top of the exact baseline it names.
+ */
+export class SnapshotBuffer<T> {
+   // Ticks only ever increase, so insertion order is also oldest to newest
+   private snapshots: Map<number, Map<string, T>> = new Map();
+   private latestStates: Map<string, T> = new Map();
+
+   /**
+    * @param getId Key of the entity a state belongs to
+    */
+   constructor(private readonly getId: (state: T) => string) {}
+
+   /**
+    * Rebuild the full state of every entity from an update and its baseline
+    * @param states Entries of the update, the ones that changed since the baseline
+    * @returns null if the baseline is no longer kept
+    */
+   public apply(header: SnapshotHeader, states: T[]): SnapshotChanges<T> | null {
+      let baseline: Map<string, T> | undefined;
+      if (header.baselineTick === NO_BASELINE_TICK) {
+         baseline = new Map();
+      } else {
+         baseline = this.snapshots.get(header.baselineTick);
+         if (!baseline) return null;
+      }
+
+      const rebuilt = new Map(baseline);
+      states.forEach((state) => rebuilt.set(this.getId(state), state));
+
+      // States are never modified, an entity is unchanged while it still has the state applied last time
+      const changes: SnapshotChanges<T> = { changed: [], unchanged: [] };
+      for (const [id, state] of rebuilt) {
+         if (this.latestStates.get(id) === state) {
+            changes.unchanged.push(state);
+         } else {
+            changes.changed.push(state);
+         }
+      }
+
+      this.snapshots.set(header.tick, rebuilt);
+      this.latestStates = rebuilt;
+
+      for (const tick of this.snapshots.keys()) {
+         if (tick >= header.tick - gameSettings.snapshotHistoryTicks) break;
+         this.snapshots.delete(tick);
+      }
+
+      return changes;
+   }
+}
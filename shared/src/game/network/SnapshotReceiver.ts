@@ -0,0 +1,29 @@
+// shared/src/game/network/SnapshotReceiver.ts
+
+import { SnapshotStream } from './messages/client-bound/SnapshotData';
+import { ServerBound } from './SocketEvents';
+import { BaseSocketTransport } from './BaseSocketTransport';
+
+/**
+ * Keeps track of the newest snapshot applied for each stream and acknowledges it, so the server can send the
+ * next one as a delta against it. Snapshots travel unreliably and may arrive out of order, one older than
+ * what is already applied would roll state back and has to be dropped.
+ */
+export class SnapshotReceiver {
+   private latestTicks: Map<SnapshotStream, number> = new Map();
+
+   constructor(private readonly transport: BaseSocketTransport) {}
+
+   public isNewer(stream: SnapshotStream, tick: number): boolean {
+      const latestTick = this.latestTicks.get(stream);
+      return latestTick === undefined || tick > latestTick;
+   }
+
+   /**
+    * Record the snapshot as applied and tell the server it can diff against it
+    */
+   public acknowledge(stream: SnapshotStream, tick: number): void {
+      this.latestTicks.set(stream, tick);
+      this.transport.broadcast(ServerBound.SnapshotAck, { stream, tick });
+   }
+}
@@ -1,7 +1,7 @@
 import { PlayerAimData } from './messages/server-bound/PlayerAimData';
 import { PlayerJoinData } from './messages/client-bound/PlayerDataToSend';
 import { ShootRequest } from './messages/ShootingParams';
-import { PlayerMovementState } from './messages/client-bound/PlayerMovementState';
+import { PlayerSnapshotData } from './messages/client-bound/PlayerMovementState';
 import { GameStartData } from './messages/client-bound/GameStartData';
 import { PlayerMoveRequest } from './messages/server-bound/PlayerMoveRequest';
 import { ServerShootEventData } from './messages/client-bound/ServerShootEventData';
@@ -18,19 +18,43 @@ import { MapInfoData } from './messages/client-bound/MapInfoData';
 import { ServerMetricsData } from './messages/client-bound/ServerMetricsData';
 import {
    EnemyAbilityData,
+   DamageAreaSpawnData,
    EnemyAIDebugData,
    EnemyDeathData,
    EnemyDespawnData,
    EnemySpawnData,
+   EnemyDeltaUpdateData,
    EnemyTargetRequest,
-   EnemyUpdateData,
    ExplosionEffectData,
+   ProjectileDestroyData,
    ProjectileSpawnData,
 } from './messages/EnemyNetworkEvents';
 import { Position } from '../Position';
 import { PingRequestData, PingResponseData } from './PingSystem';
 import { EnemyDamageEventBatch } from './messages/client-bound/DamageEvents';
-import { GunStateSync, ReloadEvent, ReloadRequest } from './messages/ReloadMessages';
+import { GunStateSnapshotData, ReloadEvent, ReloadRequest } from './messages/ReloadMessages';
+import { WaveClearedData, WaveIncomingData, WaveStartData } from './messages/client-bound/WaveData';
+import {
+   GameOverData,
+   PlayerDiedData,
+   PlayerDownedData,
+   PlayerRespawnData,
+   PlayerRevivedData,
+   PlayerReviveProgressData,
+} from './messages/client-bound/PlayerLifecycleData';
+import { PlayerDamagedData, PlayerHealthData } from './messages/client-bound/PlayerDamageData';
+import { StatusEffectsData } from './messages/client-bound/StatusEffectsData';
+import { SelectClassRequest } from './messages/server-bound/SelectClassRequest';
+import { ClassSelectionData } from './messages/client-bound/ClassSelectionData';
+import { PlayersInViewData } from './messages/client-bound/PlayersInViewData';
+import { SnapshotAck } from './messages/server-bound/SnapshotAck';
+import {
+   GrenadeChargesData,
+   GrenadeExplodedData,
+   GrenadeThrownData,
+   ThrowGrenadeRequest,
+} from './messages/GrenadeMessages';
+import { ScoreUpdateData } from './messages/client-bound/ScoreData';
 
 export enum ServerBound {
    PlayerMove = 'clientPlayerMove',
@@ -38,6 +62,7 @@ export enum ServerBound {
    PlayerAim = 'clientPlayerAim',
    PlayerConnect = 'clientPlayerConnect',
    PlayerDisconnect = 'clientPlayerDisconnect',
+   SelectClass = 'clientSelectClass',
 
    // Map system events
    RequestChunks = 'requestChunks',
@@ -51,6 +76,8 @@ export enum ServerBound {
 
    PingRequest = 'pingRequest',
    PlayerReload = 'playerReload',
+   ThrowGrenade = 'throwGrenade',
+   SnapshotAck = 'clientSnapshotAck',
 }
 
 export enum ClientBound {
@@ -61,6 +88,8 @@ export enum ClientBound {
    PlayerShoot = 'serverPlayerShoot',
    PlayerDisconnect = 'serverPlayerDisconnect',
    PlayerAim = 'serverPlayerAim',
+   ClassSelection = 'serverClassSelection',
+   PlayersInView = 'serverPlayersInView',
    // BulletCollision = 'serverBulletCollision',
 
    // Map system events
@@ -81,15 +110,43 @@ export enum ClientBound {
    EnemyDeath = 'enemyDeath',
    ExplosionEffect = 'explosionEffect',
    ProjectileSpawn = 'projectileSpawn',
-   // DamageAreaSpawn = 'damageAreaSpawn',
+   ProjectileDestroy = 'projectileDestroy',
+   DamageAreaSpawn = 'damageAreaSpawn',
    EnemyAIDebug = 'enemyAIDebug',
    EnemySyncResponse = 'enemySyncResponse',
    EnemyDamage = 'enemyDamage',
 
+   // Wave progression events
+   WaveIncoming = 'waveIncoming',
+   WaveStart = 'waveStart',
+   WaveCleared = 'waveCleared',
+
+   // Player health events
+   PlayerDamaged = 'playerDamaged',
+   PlayerHealth = 'playerHealth',
+
+   // Status effects on enemies and players
+   StatusEffects = 'statusEffects',
+
+   // Player lifecycle events
+   PlayerDowned = 'playerDowned',
+   PlayerReviveProgress = 'playerReviveProgress',
+   PlayerRevived = 'playerRevived',
+   PlayerDied = 'playerDied',
+   PlayerRespawn = 'playerRespawn',
+   GameOver = 'gameOver',
+
    PingResponse = 'pingResponse',
 
    ReloadEvent = 'reloadEvent',
    GunStateSync = 'gunStateSync',
+
+   // Grenade events
+   GrenadeThrown = 'grenadeThrown',
+   GrenadeExploded = 'grenadeExploded',
+   GrenadeCharges = 'grenadeCharges',
+
+   ScoreUpdate = 'scoreUpdate',
 }
 
 export type ReliabilityType = 'reliable' | 'unreliable';
@@ -98,6 +155,7 @@ export const EventReliability: Record<string, ReliabilityType> = {
    // Client to server events
    [ServerBound.PlayerConnect]: 'reliable',
    [ServerBound.PlayerDisconnect]: 'reliable',
+   [ServerBound.SelectClass]: 'reliable',
    // [ServerBound.PlayerShoot]: 'reliable',
    [ServerBound.RequestChunks]: 'reliable',
    [ServerBound.UpdateTile]: 'reliable',
@@ -107,12 +165,15 @@ export const EventReliability: Record<string, ReliabilityType> = {
    [ServerBound.EnemyTargetRequest]: 'reliable',
    [ServerBound.EnemySyncRequest]: 'reliable',
    [ServerBound.PlayerReload]: 'reliable',
+   [ServerBound.ThrowGrenade]: 'reliable',
 
    // Server to client events
    [ClientBound.StartGame]: 'reliable',
    [ClientBound.StopGame]: 'reliable',
    [ClientBound.PlayerJoin]: 'reliable',
    [ClientBound.PlayerDisconnect]: 'reliable',
+   [ClientBound.ClassSelection]: 'reliable',
+   [ClientBound.PlayersInView]: 'reliable',
    // [ClientBound.PlayerShoot]: 'reliable',
    [ClientBound.UpdateChunks]: 'reliable',
    [ClientBound.UpdateTiles]: 'reliable',
@@ -125,10 +186,31 @@ export const EventReliability: Record<string, ReliabilityType> = {
    [ClientBound.EnemyDeath]: 'reliable',
    [ClientBound.ExplosionEffect]: 'reliable',
    [ClientBound.ProjectileSpawn]: 'reliable',
-   // [ClientBound.DamageAreaSpawn]: 'reliable',
+   [ClientBound.ProjectileDestroy]: 'reliable',
+   [ClientBound.DamageAreaSpawn]: 'reliable',
    [ClientBound.EnemySyncResponse]: 'reliable',
    [ClientBound.ReloadEvent]: 'reliable',
 
+   [ClientBound.WaveIncoming]: 'reliable',
+   [ClientBound.WaveStart]: 'reliable',
+   [ClientBound.WaveCleared]: 'reliable',
+
+   [ClientBound.PlayerDamaged]: 'reliable',
+   [ClientBound.PlayerHealth]: 'reliable',
+   [ClientBound.StatusEffects]: 'reliable',
+
+   [ClientBound.PlayerDowned]: 'reliable',
+   [ClientBound.PlayerRevived]: 'reliable',
+   [ClientBound.PlayerDied]: 'reliable',
+   [ClientBound.PlayerRespawn]: 'reliable',
+   [ClientBound.GameOver]: 'reliable',
+
+   [ClientBound.GrenadeThrown]: 'reliable',
+   [ClientBound.GrenadeExploded]: 'reliable',
+   [ClientBound.GrenadeCharges]: 'reliable',
+
+   [ClientBound.ScoreUpdate]: 'reliable',
+
    // All other events are unreliable by default
 };
 
@@ -142,18 +224,28 @@ export const EventTiming: Record<string, MessageTiming> = {
    // Client to server pre-game events
    [ServerBound.PlayerConnect]: MessageTiming.PreGame,
    [ServerBound.PlayerDisconnect]: MessageTiming.PreGame,
+   [ServerBound.SelectClass]: MessageTiming.PreGame,
 
    // Server to client pre-game events
    [ClientBound.PlayerJoin]: MessageTiming.PreGame,
    [ClientBound.StartGame]: MessageTiming.PreGame,
    [ClientBound.StopGame]: MessageTiming.PreGame,
    [ClientBound.PlayerDisconnect]: MessageTiming.PreGame,
+   [ClientBound.ClassSelection]: MessageTiming.PreGame,
 
    [ClientBound.UpdateChunks]: MessageTiming.Hybrid,
    [ClientBound.MapInfo]: MessageTiming.PreGame,
 
+   // Sent while the game loop stops, a queued handler might never run
+   [ClientBound.GameOver]: MessageTiming.PreGame,
+   [ClientBound.PlayerRespawn]: MessageTiming.PreGame,
+
    [ServerBound.PingRequest]: MessageTiming.PreGame,
    [ClientBound.PingResponse]: MessageTiming.PreGame,
+
+   // Only moves a baseline forward, no reason to wait for the next tick
+   [ServerBound.SnapshotAck]: MessageTiming.PreGame,
+
    // All other events default to game loop timing
 };
 
@@ -168,13 +260,15 @@ export function isHybridEvent(eventType: ServerBound | ClientBound): boolean {
 export type ChannelId = string | undefined;
 
 export interface EventDataMap {
-   [ClientBound.UpdateAllPlayers]: PlayerMovementState[];
+   [ClientBound.UpdateAllPlayers]: PlayerSnapshotData;
    [ClientBound.StartGame]: GameStartData;
    [ClientBound.StopGame]: string;
    [ClientBound.PlayerJoin]: PlayerJoinData;
    [ClientBound.PlayerShoot]: ServerShootEventData;
    [ClientBound.PlayerAim]: PlayerAimData;
    [ClientBound.PlayerDisconnect]: string;
+   [ClientBound.ClassSelection]: ClassSelectionData;
+   [ClientBound.PlayersInView]: PlayersInViewData;
    // [ClientBound.BulletCollision]: string;
    [ClientBound.UpdateChunks]: SerializedMapChunk[];
    [ClientBound.UpdateTiles]: ChunkTileUpdates;
@@ -186,19 +280,36 @@ export interface EventDataMap {
 
    // Enemy system events
    [ClientBound.EnemySpawn]: EnemySpawnData;
-   [ClientBound.EnemyUpdate]: EnemyUpdateData;
+   [ClientBound.EnemyUpdate]: EnemyDeltaUpdateData;
    [ClientBound.EnemyDespawn]: EnemyDespawnData;
    [ClientBound.EnemyAbility]: EnemyAbilityData;
    [ClientBound.EnemyDeath]: EnemyDeathData;
    [ClientBound.ExplosionEffect]: ExplosionEffectData;
    [ClientBound.ProjectileSpawn]: ProjectileSpawnData;
-   // [ClientBound.DamageAreaSpawn]: DamageAreaSpawnData;
+   [ClientBound.ProjectileDestroy]: ProjectileDestroyData;
+   [ClientBound.DamageAreaSpawn]: DamageAreaSpawnData;
    [ClientBound.EnemyAIDebug]: EnemyAIDebugData;
    [ClientBound.EnemySyncResponse]: { requestId: string; enemies: any[] };
    [ClientBound.EnemyDamage]: EnemyDamageEventBatch;
+   [ClientBound.WaveIncoming]: WaveIncomingData;
+   [ClientBound.WaveStart]: WaveStartData;
+   [ClientBound.WaveCleared]: WaveClearedData;
+   [ClientBound.PlayerDamaged]: PlayerDamagedData;
+   [ClientBound.PlayerHealth]: PlayerHealthData;
+   [ClientBound.StatusEffects]: StatusEffectsData;
+   [ClientBound.PlayerDowned]: PlayerDownedData;
+   [ClientBound.PlayerReviveProgress]: PlayerReviveProgressData;
+   [ClientBound.PlayerRevived]: PlayerRevivedData;
+   [ClientBound.PlayerDied]: PlayerDiedData;
+   [ClientBound.PlayerRespawn]: PlayerRespawnData;
+   [ClientBound.GameOver]: GameOverData;
    [ClientBound.PingResponse]: PingResponseData;
    [ClientBound.ReloadEvent]: ReloadEvent;
-   [ClientBound.GunStateSync]: GunStateSync;
+   [ClientBound.GunStateSync]: GunStateSnapshotData;
+   [ClientBound.GrenadeThrown]: GrenadeThrownData;
+   [ClientBound.GrenadeExploded]: GrenadeExplodedData;
+   [ClientBound.GrenadeCharges]: GrenadeChargesData;
+   [ClientBound.ScoreUpdate]: ScoreUpdateData;
 
    [ServerBound.PlayerMove]: PlayerMoveRequest[];
    [ServerBound.PlayerShoot]: ShootRequest;
@@ -211,6 +322,7 @@ export interface EventDataMap {
       username: string;
       channelId?: string | ChannelId; // Make channelId optional
    };
+   [ServerBound.SelectClass]: SelectClassRequest;
    [ServerBound.PlayerAim]: PlayerAimData;
 
    [ServerBound.RequestChunks]: ChunkRequest[];
@@ -221,6 +333,8 @@ export interface EventDataMap {
    [ServerBound.EnemyTargetRequest]: EnemyTargetRequest;
    [ServerBound.EnemySyncRequest]: { requestId: string; playerPosition: Position };
    [ServerBound.PlayerReload]: ReloadRequest;
+   [ServerBound.ThrowGrenade]: ThrowGrenadeRequest;
 
    [ServerBound.PingRequest]: PingRequestData;
+   [ServerBound.SnapshotAck]: SnapshotAck;
 }
@@ -0,0 +1,63 @@
+// shared/src/game/network/codec/BinaryMessageCodec.ts
+
+import { EventDataMap } from '../SocketEvents';
+import { BinaryReader } from './BinaryReader';
+import { FieldCodec } from './BinarySchema';
+import { BinaryWriter } from './BinaryWriter';
+import { binaryMessageSchemas } from './MessageSchemas';
+
+/**
+ * A binary message turned back into the event it was sent as
+ */
+export interface DecodedBinaryMessage {
+   eventType: keyof EventDataMap;
+   data: EventDataMap[keyof EventDataMap];
+}
+
+/**
+ * Encodes and decodes the events listed in {@link binaryMessageSchemas}. A message is a single byte
+ * identifying the event followed by its payload. Both sides build the ids from the same schema list,
+ * so client and server have to run the same build.
+ */
+export class BinaryMessageCodec {
+   private static readonly eventTypes = Object.keys(binaryMessageSchemas) as (keyof EventDataMap)[];
+   private static readonly eventIds = new Map(BinaryMessageCodec.eventTypes.map((eventType, id) => [eventType, id]));
+
+   public static hasSchema(eventType: keyof EventDataMap): boolean {
+      return this.eventIds.has(eventType);
+   }
+
+   /**
+    * @returns the encoded message, or null if the event has no binary schema and should be sent as JSON
+    */
+   public static encode<K extends keyof EventDataMap>(eventType: K, data: EventDataMap[K]): Uint8Array | null {
+      const id = this.eventIds.get(eventType);
+      if (id === undefined) return null;
+
+      const schema = binaryMessageSchemas[eventType] as FieldCodec<EventDataMap[K]>;
+      const writer = new BinaryWriter();
+      writer.writeUint8(id);
+      schema.write(writer, data);
+      return writer.finish();
+   }
+
+   /**
+    * @throws RangeError if the message is truncated or does not match any schema
+    */
+   public static decode(message: ArrayBuffer | ArrayBufferView): DecodedBinaryMessage {
+      const reader = new BinaryReader(message);
+      const eventType = this.eventTypes[reader.readUint8()];
+      if (eventType === undefined) {
+         throw new RangeError('Binary message has an unknown event id');
+      }
+
+      const schema = binaryMessageSchemas[eventType] as FieldCodec<EventDataMap[keyof EventDataMap]>;
+      const data = schema.read(reader);
+
+      if (reader.remaining > 0) {
+         throw new RangeError(`Binary ${eventType} message has ${reader.remaining} unread bytes`);
+      }
+
+      return { eventType, data };
+   }
+}
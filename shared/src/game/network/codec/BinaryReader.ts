@@ -0,0 +1,88 @@
+// shared/src/game/network/codec/BinaryReader.ts
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Reads values written by {@link BinaryWriter}, in the same order
+ */
+export class BinaryReader {
+   private readonly bytes: Uint8Array;
+   private readonly view: DataView;
+   private offset = 0;
+
+   constructor(data: ArrayBuffer | ArrayBufferView) {
+      this.bytes = ArrayBuffer.isView(data)
+         ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+         : new Uint8Array(data);
+      this.view = new DataView(this.bytes.buffer, this.bytes.byteOffset, this.bytes.byteLength);
+   }
+
+   public readUint8(): number {
+      this.require(1);
+      return this.bytes[this.offset++];
+   }
+
+   public readUint16(): number {
+      this.require(2);
+      const value = this.view.getUint16(this.offset, true);
+      this.offset += 2;
+      return value;
+   }
+
+   public readFloat32(): number {
+      this.require(4);
+      const value = this.view.getFloat32(this.offset, true);
+      this.offset += 4;
+      return value;
+   }
+
+   public readFloat64(): number {
+      this.require(8);
+      const value = this.view.getFloat64(this.offset, true);
+      this.offset += 8;
+      return value;
+   }
+
+   public readVarUint(): number {
+      let result = 0;
+      let multiplier = 1;
+
+      while (true) {
+         const byte = this.readUint8();
+         result += (byte & 0x7f) * multiplier;
+         if (byte < 0x80) return result;
+
+         multiplier *= 0x80;
+         if (multiplier > Number.MAX_SAFE_INTEGER) {
+            throw new RangeError('Varint is too long');
+         }
+      }
+   }
+
+   public readVarInt(): number {
+      const zigzag = this.readVarUint();
+      return zigzag % 2 === 0 ? zigzag / 2 : -(zigzag + 1) / 2;
+   }
+
+   public readBytes(length: number): Uint8Array {
+      this.require(length);
+      const bytes = this.bytes.subarray(this.offset, this.offset + length);
+      this.offset += length;
+      return bytes;
+   }
+
+   public readString(): string {
+      const length = this.readVarUint();
+      return textDecoder.decode(this.readBytes(length));
+   }
+
+   public get remaining(): number {
+      return this.bytes.length - this.offset;
+   }
+
+   private require(bytes: number): void {
+      if (this.offset + bytes > this.bytes.length) {
+         throw new RangeError('Binary message ended unexpectedly');
+      }
+   }
+}
@@ -0,0 +1,218 @@
+// shared/src/game/network/codec/BinarySchema.ts
+
+import { BinaryReader } from './BinaryReader';
+import { BinaryWriter } from './BinaryWriter';
+
+/**
+ * Writes and reads one value of type T. Schemas are built by composing these.
+ */
+export interface FieldCodec<T> {
+   write(writer: BinaryWriter, value: T): void;
+   read(reader: BinaryReader): T;
+}
+
+/**
+ * One codec per property of T, in the order they go on the wire
+ */
+export type ObjectFields<T> = { [K in keyof T]-?: FieldCodec<Exclude<T[K], undefined>> };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const UUID_BYTES = 16;
+
+const enum IdEncoding {
+   String = 0,
+   Uuid = 1,
+}
+
+function packUuid(uuid: string): Uint8Array {
+   const hex = uuid.replace(/-/g, '');
+   const bytes = new Uint8Array(UUID_BYTES);
+   for (let i = 0; i < UUID_BYTES; i++) {
+      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+   }
+   return bytes;
+}
+
+function unpackUuid(bytes: Uint8Array): string {
+   const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+   return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Building blocks for binary message schemas
+ */
+export const BinarySchema = {
+   bool: {
+      write: (writer, value) => writer.writeUint8(value ? 1 : 0),
+      read: (reader) => reader.readUint8() !== 0,
+   } as FieldCodec<boolean>,
+
+   uint: {
+      write: (writer, value) => writer.writeVarUint(value),
+      read: (reader) => reader.readVarUint(),
+   } as FieldCodec<number>,
+
+   int: {
+      write: (writer, value) => writer.writeVarInt(value),
+      read: (reader) => reader.readVarInt(),
+   } as FieldCodec<number>,
+
+   float32: {
+      write: (writer, value) => writer.writeFloat32(value),
+      read: (reader) => reader.readFloat32(),
+   } as FieldCodec<number>,
+
+   /** Full precision, for timestamps the client matches exactly */
+   float64: {
+      write: (writer, value) => writer.writeFloat64(value),
+      read: (reader) => reader.readFloat64(),
+   } as FieldCodec<number>,
+
+   string: {
+      write: (writer, value) => writer.writeString(value),
+      read: (reader) => reader.readString(),
+   } as FieldCodec<string>,
+
+   /**
+    * Entity id. Generated ids are lowercase v4 UUIDs and go out as their 16 raw bytes instead of 36 characters,
+    * anything else is written as a string.
+    */
+   id: {
+      write: (writer, value) => {
+         if (UUID_PATTERN.test(value)) {
+            writer.writeUint8(IdEncoding.Uuid);
+            writer.writeBytes(packUuid(value));
+         } else {
+            writer.writeUint8(IdEncoding.String);
+            writer.writeString(value);
+         }
+      },
+      read: (reader) =>
+         reader.readUint8() === IdEncoding.Uuid ? unpackUuid(reader.readBytes(UUID_BYTES)) : reader.readString(),
+   } as FieldCodec<string>,
+
+   /**
+    * Number rounded to a fixed step of 1 / scale and written as a signed varint
+    */
+   quantized(scale: number): FieldCodec<number> {
+      return {
+         write: (writer, value) => writer.writeVarInt(Math.round(value * scale)),
+         read: (reader) => reader.readVarInt() / scale,
+      };
+   },
+
+   /**
+    * 2D vector with both components quantized to 1 / scale
+    */
+   vector(scale: number): FieldCodec<{ x: number; y: number }> {
+      const component = BinarySchema.quantized(scale);
+      return {
+         write: (writer, value) => {
+            component.write(writer, value.x);
+            component.write(writer, value.y);
+         },
+         read: (reader) => ({ x: component.read(reader), y: component.read(reader) }),
+      };
+   },
+
+   /**
+    * Angle in two bytes. Wrapped into [-fullTurn / 2, fullTurn / 2), so pass 360 for degrees and 2π for radians.
+    */
+   angle(fullTurn: number): FieldCodec<number> {
+      const steps = 0x10000;
+      const half = fullTurn / 2;
+      return {
+         write: (writer, value) => {
+            const wrapped = (((value + half) % fullTurn) + fullTurn) % fullTurn;
+            writer.writeUint16(Math.round((wrapped / fullTurn) * steps) % steps);
+         },
+         read: (reader) => (reader.readUint16() / steps) * fullTurn - half,
+      };
+   },
+
+   /**
+    * One of a fixed set of values, written as its index in the list
+    */
+   enumeration<T>(values: readonly T[]): FieldCodec<T> {
+      return {
+         write: (writer, value) => {
+            const index = values.indexOf(value);
+            if (index === -1) throw new RangeError(`${String(value)} is not part of the schema enumeration`);
+            writer.writeVarUint(index);
+         },
+         read: (reader) => {
+            const value = values[reader.readVarUint()];
+            if (value === undefined) throw new RangeError('Unknown enumeration index');
+            return value;
+         },
+      };
+   },
+
+   /**
+    * Record of booleans packed into a single bitfield
+    */
+   flags<T extends { [K in keyof T]: boolean }>(keys: readonly (keyof T)[]): FieldCodec<T> {
+      return {
+         write: (writer, value) => {
+            let bits = 0;
+            keys.forEach((key, index) => {
+               if (value[key]) bits += 2 ** index;
+            });
+            writer.writeVarUint(bits);
+         },
+         read: (reader) => {
+            const bits = reader.readVarUint();
+            const value: Record<string, boolean> = {};
+            keys.forEach((key, index) => {
+               value[key as string] = Math.floor(bits / 2 ** index) % 2 === 1;
+            });
+            return value as T;
+         },
+      };
+   },
+
+   array<T>(item: FieldCodec<T>): FieldCodec<T[]> {
+      return {
+         write: (writer, value) => {
+            writer.writeVarUint(value.length);
+            for (const element of value) item.write(writer, element);
+         },
+         read: (reader) => {
+            const length = reader.readVarUint();
+            const value: T[] = [];
+            for (let i = 0; i < length; i++) value.push(item.read(reader));
+            return value;
+         },
+      };
+   },
+
+   /**
+    * Object with a fixed set of properties. A leading bitfield says which ones are present, so optional
+    * properties and partial (delta) objects only pay for what they carry.
+    */
+   object<T extends object>(fields: ObjectFields<T>): FieldCodec<T> {
+      const entries = Object.entries(fields) as [string, FieldCodec<unknown>][];
+      const presence = BinarySchema.flags<Record<string, boolean>>(entries.map(([key]) => key));
+
+      return {
+         write: (writer, value) => {
+            const record = value as Record<string, unknown>;
+            const present: Record<string, boolean> = {};
+            for (const [key] of entries) present[key] = record[key] !== undefined;
+
+            presence.write(writer, present);
+            for (const [key, codec] of entries) {
+               if (present[key]) codec.write(writer, record[key]);
+            }
+         },
+         read: (reader) => {
+            const present = presence.read(reader);
+            const value: Record<string, unknown> = {};
+            for (const [key, codec] of entries) {
+               if (present[key]) value[key] = codec.read(reader);
+            }
+            return value as T;
+         },
+      };
+   },
+};
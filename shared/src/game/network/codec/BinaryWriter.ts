@@ -0,0 +1,98 @@
+// shared/src/game/network/codec/BinaryWriter.ts
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Growable little-endian byte buffer used to build binary network messages
+ */
+export class BinaryWriter {
+   private buffer: Uint8Array;
+   private view: DataView;
+   private offset = 0;
+
+   constructor(initialCapacity: number = 256) {
+      this.buffer = new Uint8Array(initialCapacity);
+      this.view = new DataView(this.buffer.buffer);
+   }
+
+   public writeUint8(value: number): void {
+      this.ensureCapacity(1);
+      this.buffer[this.offset++] = value & 0xff;
+   }
+
+   public writeUint16(value: number): void {
+      this.ensureCapacity(2);
+      this.view.setUint16(this.offset, value, true);
+      this.offset += 2;
+   }
+
+   public writeFloat32(value: number): void {
+      this.ensureCapacity(4);
+      this.view.setFloat32(this.offset, value, true);
+      this.offset += 4;
+   }
+
+   public writeFloat64(value: number): void {
+      this.ensureCapacity(8);
+      this.view.setFloat64(this.offset, value, true);
+      this.offset += 8;
+   }
+
+   /**
+    * Unsigned LEB128 varint, small values take a single byte. Uses arithmetic instead of bit
+    * operators so values above 2^31 survive.
+    */
+   public writeVarUint(value: number): void {
+      if (!Number.isSafeInteger(value) || value < 0) {
+         throw new RangeError(`Cannot write ${value} as an unsigned varint`);
+      }
+
+      while (value >= 0x80) {
+         this.writeUint8((value % 0x80) | 0x80);
+         value = Math.floor(value / 0x80);
+      }
+      this.writeUint8(value);
+   }
+
+   /**
+    * Signed varint using zigzag encoding, so small negative values stay small too
+    */
+   public writeVarInt(value: number): void {
+      this.writeVarUint(value >= 0 ? value * 2 : -value * 2 - 1);
+   }
+
+   public writeBytes(bytes: Uint8Array): void {
+      this.ensureCapacity(bytes.length);
+      this.buffer.set(bytes, this.offset);
+      this.offset += bytes.length;
+   }
+
+   /**
+    * UTF-8 string prefixed with its byte length
+    */
+   public writeString(value: string): void {
+      const bytes = textEncoder.encode(value);
+      this.writeVarUint(bytes.length);
+      this.writeBytes(bytes);
+   }
+
+   /**
+    * Copy of the bytes written so far
+    */
+   public finish(): Uint8Array {
+      return this.buffer.slice(0, this.offset);
+   }
+
+   private ensureCapacity(bytes: number): void {
+      const required = this.offset + bytes;
+      if (required <= this.buffer.length) return;
+
+      let capacity = this.buffer.length * 2;
+      while (capacity < required) capacity *= 2;
+
+      const grown = new Uint8Array(capacity);
+      grown.set(this.buffer.subarray(0, this.offset));
+      this.buffer = grown;
+      this.view = new DataView(grown.buffer);
+   }
+}
@@ -0,0 +1,116 @@
+// shared/src/game/network/codec/MessageSchemas.ts
+
+import { InputType } from '../../Controls';
+import { EnemyAnimationState, EnemyNetworkData } from '../../enemies/EnemyInterfaces';
+import { EnemyDamageEvent, EnemyDamageEventBatch } from '../messages/client-bound/DamageEvents';
+import { PlayerMovementState, PlayerSnapshotData } from '../messages/client-bound/PlayerMovementState';
+import { SnapshotStream } from '../messages/client-bound/SnapshotData';
+import { EnemyDeltaUpdateData } from '../messages/EnemyNetworkEvents';
+import { GunStateSnapshotData, GunStateSync } from '../messages/ReloadMessages';
+import { MovementState } from '../messages/server-bound/MovementState';
+import { PlayerMoveRequest } from '../messages/server-bound/PlayerMoveRequest';
+import { SnapshotAck } from '../messages/server-bound/SnapshotAck';
+import { ClientBound, EventDataMap, ServerBound } from '../SocketEvents';
+import { BinarySchema as S, FieldCodec } from './BinarySchema';
+
+/**
+ * Positions and velocities are sent with 1/100 pixel precision, well under what reconciliation or rendering notices
+ */
+const PIXEL_SCALE = 100;
+
+const movementState = S.flags<MovementState>([InputType.UP, InputType.LEFT, InputType.RIGHT, InputType.DOWN]);
+
+const playerMoveRequest = S.object<PlayerMoveRequest>({
+   timestamp: S.float64,
+   clientGameTick: S.uint,
+   input: movementState,
+});
+
+const playerMovementState = S.object<PlayerMovementState>({
+   username: S.string,
+   position: S.vector(PIXEL_SCALE),
+   velocity: S.vector(PIXEL_SCALE),
+   timestamp: S.float64,
+   gameTick: S.uint,
+   // Both predictions are -1 for a player that has not sent any input yet
+   predictionTimestamp: S.float64,
+   predictionTick: S.int,
+   receivedAtClient: S.float64,
+});
+
+const playerSnapshot = S.object<PlayerSnapshotData>({
+   tick: S.uint,
+   baselineTick: S.int,
+   players: S.array(playerMovementState),
+   timestamp: S.float64,
+});
+
+// Enemy updates carry deltas, so any property other than the id can be missing
+const enemyNetworkData = S.object<EnemyNetworkData>({
+   id: S.id,
+   position: S.vector(PIXEL_SCALE),
+   rotation: S.angle(360),
+   animationState: S.enumeration(Object.values(EnemyAnimationState)),
+   targetId: S.id,
+   lastAttackTime: S.float64,
+});
+
+const enemyUpdate = S.object<EnemyDeltaUpdateData>({
+   enemies: S.array(enemyNetworkData),
+   tick: S.uint,
+   baselineTick: S.int,
+   timestamp: S.float64,
+   removedIds: S.array(S.id),
+});
+
+const enemyDamageEvent = S.object<EnemyDamageEvent>({
+   targetId: S.id,
+   damage: S.float32,
+   position: S.vector(PIXEL_SCALE),
+   armorReduction: S.float32,
+   distanceReduction: S.float32,
+   sourceGunType: S.string,
+   timestamp: S.float64,
+});
+
+const enemyDamage = S.object<EnemyDamageEventBatch>({
+   events: S.array(enemyDamageEvent),
+   tick: S.uint,
+   timestamp: S.float64,
+});
+
+const gunState = S.object<GunStateSync>({
+   username: S.string,
+   gunId: S.string,
+   currentAmmo: S.uint,
+   isReloading: S.bool,
+   reloadStartTick: S.uint,
+   reloadDurationTicks: S.uint,
+   lastShotTick: S.uint,
+});
+
+const gunStateSnapshot = S.object<GunStateSnapshotData>({
+   tick: S.uint,
+   baselineTick: S.int,
+   guns: S.array(gunState),
+});
+
+const snapshotAck = S.object<SnapshotAck>({
+   stream: S.enumeration(Object.values(SnapshotStream)),
+   tick: S.uint,
+});
+
+type BinarySchemas = { [K in keyof EventDataMap]?: FieldCodec<EventDataMap[K]> };
+
+/**
+ * Events that go over the wire in binary instead of JSON. These are the high frequency ones whose size grows
+ * with the number of players and enemies, everything else stays JSON.
+ */
+export const binaryMessageSchemas: BinarySchemas = {
+   [ClientBound.UpdateAllPlayers]: playerSnapshot,
+   [ClientBound.EnemyUpdate]: enemyUpdate,
+   [ClientBound.EnemyDamage]: enemyDamage,
+   [ClientBound.GunStateSync]: gunStateSnapshot,
+   [ServerBound.PlayerMove]: S.array(playerMoveRequest),
+   [ServerBound.SnapshotAck]: snapshotAck,
+};
@@ -2,6 +2,7 @@
 
 import { EnemyNetworkData, EnemyType } from '../../enemies/EnemyInterfaces';
 import { Position } from '../../Position';
+import { SnapshotHeader } from './client-bound/SnapshotData';
 
 /**
  * Server -> Client: Enemy spawn notification
@@ -27,20 +28,27 @@ export interface EnemyUpdateData {
 }
 
 /**
- * Enemy delta update data (only changed properties)
+ * Enemy delta update data (only properties changed since the client's baseline, the id is always set)
  */
-export interface EnemyDeltaUpdateData {
+export interface EnemyDeltaUpdateData extends SnapshotHeader {
    enemies: Partial<EnemyNetworkData>[]; // Partial data for delta updates
-   tick: number;
    timestamp: number;
+   /** Enemies in the baseline that are gone */
+   removedIds: string[];
 }
 
 /**
  * Server -> Client: Enemy despawn notification
  */
+/**
+ * Why enemies are removed from a client. out_of_view enemies are still alive on the server,
+ * they just left the client's area of interest. summoner_died minions vanish together with their summoner.
+ */
+export type EnemyDespawnReason = 'death' | 'cleanup' | 'out_of_bounds' | 'out_of_view' | 'summoner_died';
+
 export interface EnemyDespawnData {
    enemyIds: string[];
-   reason: 'death' | 'cleanup' | 'out_of_bounds';
+   reason: EnemyDespawnReason;
 }
 
 /**
@@ -98,6 +106,12 @@ export interface ProjectileSpawnData {
    projectileType: 'rocket' | 'acid' | 'energy_ball';
    damage: number;
    sourceEnemyId: string;
+   /** Radians per second the projectile turns towards its homing target */
+   turnRate: number;
+   /** Username of the player a homing projectile follows */
+   homingTargetUsername?: string;
+   /** Pixels the projectile flies before it goes off by itself */
+   maxDistance: number;
    visualEffects?: {
       trailColor?: string;
       glowEffect?: boolean;
@@ -105,6 +119,15 @@ export interface ProjectileSpawnData {
    };
 }
 
+/**
+ * Server -> Client: Projectile exploded, landed or was cleared
+ */
+export interface ProjectileDestroyData {
+   projectileId: string;
+   position: Position;
+   reason: 'impact' | 'expired';
+}
+
 /**
  * Server -> Client: Damage area creation (acid pools, fire, etc.)
  */
@@ -189,21 +212,22 @@ export class EnemyNetworkEventBuilder {
       deltaEnemies: Partial<EnemyNetworkData>[],
       tick: number,
       timestamp: number,
+      baselineTick: number,
+      removedIds: string[],
    ): EnemyDeltaUpdateData {
       return {
          enemies: deltaEnemies,
          tick,
          timestamp,
+         baselineTick,
+         removedIds,
       };
    }
 
    /**
     * Build enemy despawn event data
     */
-   public static buildDespawnData(
-      enemyIds: string[],
-      reason: 'death' | 'cleanup' | 'out_of_bounds' = 'death',
-   ): EnemyDespawnData {
+   public static buildDespawnData(enemyIds: string[], reason: EnemyDespawnReason = 'death'): EnemyDespawnData {
       return {
          enemyIds,
          reason,
@@ -282,6 +306,9 @@ export class EnemyNetworkEventBuilder {
       projectileType: ProjectileSpawnData['projectileType'],
       damage: number,
       sourceEnemyId: string,
+      turnRate: number,
+      maxDistance: number,
+      homingTargetUsername?: string,
       visualEffects?: ProjectileSpawnData['visualEffects'],
    ): ProjectileSpawnData {
       return {
@@ -292,10 +319,28 @@ export class EnemyNetworkEventBuilder {
          projectileType,
          damage,
          sourceEnemyId,
+         turnRate,
+         homingTargetUsername,
+         maxDistance,
          visualEffects,
       };
    }
 
+   /**
+    * Build projectile destroy data
+    */
+   public static buildProjectileDestroyData(
+      projectileId: string,
+      position: Position,
+      reason: ProjectileDestroyData['reason'],
+   ): ProjectileDestroyData {
+      return {
+         projectileId,
+         position,
+         reason,
+      };
+   }
+
    /**
     * Build damage area spawn data
     */
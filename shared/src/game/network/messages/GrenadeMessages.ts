@@ -0,0 +1,40 @@
+// shared/src/game/network/messages/GrenadeMessages.ts
+
+import { Position } from '../../Position';
+
+export interface ThrowGrenadeRequest {
+   username: string;
+   /** Where the player aimed the throw, the server limits it to the class's throw distance */
+   target: Position;
+}
+
+/**
+ * A grenade left a player's hand. Clients fly it along the same arc the server simulates until it goes off
+ */
+export interface GrenadeThrownData {
+   grenadeId: string;
+   username: string;
+   origin: Position;
+   target: Position;
+   maxThrowDistance: number;
+   fuseMs: number;
+   radius: number;
+}
+
+export interface GrenadeExplodedData {
+   grenadeId: string;
+   position: Position;
+   radius: number;
+   /** Enemies the blast reached through line of sight */
+   hitEnemyIds: string[];
+}
+
+/**
+ * The thrower's grenade inventory, sent whenever a charge is used or comes back
+ */
+export interface GrenadeChargesData {
+   charges: number;
+   maxCharges: number;
+   /** Server time the next charge comes back, null while the inventory is full */
+   nextChargeAt: number | null;
+}
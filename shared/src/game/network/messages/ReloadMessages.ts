@@ -1,5 +1,7 @@
 // shared/src/game/network/messages/ReloadMessages.ts
 
+import { SnapshotHeader } from './client-bound/SnapshotData';
+
 export interface ReloadRequest {
    username: string;
    reloadTick: number;
@@ -14,10 +16,19 @@ export interface ReloadEvent {
 }
 
 export interface GunStateSync {
-   playerId: string;
+   username: string;
    gunId: string;
    currentAmmo: number;
    isReloading: boolean;
    reloadStartTick?: number;
    reloadDurationTicks?: number;
+   /** Tick of the last shot the server processed, in the shooter's own tick count */
+   lastShotTick: number;
+}
+
+/**
+ * States of the guns that changed since the client's baseline, each one complete
+ */
+export interface GunStateSnapshotData extends SnapshotHeader {
+   guns: GunStateSync[];
 }
@@ -0,0 +1,18 @@
+import { PlayerTypeEnum } from '../../../PlayerTypes';
+
+export enum ClassSelectionRejection {
+   UnknownClass = 'unknownClass',
+   ClassFull = 'classFull',
+   GameStarted = 'gameStarted',
+}
+
+/**
+ * Answer to a class selection, sent only to the player who asked
+ */
+export interface ClassSelectionData {
+   requested: PlayerTypeEnum;
+   // Class the player actually has now, the previous one if the request was rejected
+   playerType: PlayerTypeEnum;
+   accepted: boolean;
+   reason?: ClassSelectionRejection;
+}
@@ -0,0 +1,32 @@
+import { EnemyType } from '../../../enemies/EnemyInterfaces';
+
+/**
+ * How a player got hurt. Hits grant invulnerability frames, hazard damage over time neither grants nor respects them
+ */
+export type PlayerDamageKind = 'melee' | 'projectile' | 'explosion' | 'hazard';
+
+export interface PlayerDamageSource {
+   kind: PlayerDamageKind;
+   enemyId?: string;
+   enemyType?: EnemyType;
+}
+
+/**
+ * Sent to the clients that can see a player whenever that player takes damage
+ */
+export interface PlayerDamagedData {
+   username: string;
+   damage: number; // After armor
+   health: number;
+   maxHealth: number;
+   source: PlayerDamageSource;
+}
+
+/**
+ * Health of a player that is regenerating, sent at most every playerHealthSyncIntervalMs
+ */
+export interface PlayerHealthData {
+   username: string;
+   health: number;
+   maxHealth: number;
+}
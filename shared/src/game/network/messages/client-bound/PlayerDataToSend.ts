@@ -1,10 +1,10 @@
 import { PlayerData } from '../../../PlayerData';
 import { Position } from '../../../Position';
-import { PlayerType } from '../../../PlayerTypes';
+import { PlayerTypeEnum } from '../../../PlayerTypes';
 
 export interface PlayerDataToSend {
    position: Position;
-   playerType: PlayerType;
+   playerType: PlayerTypeEnum;
    playerData: PlayerData;
    gunSeed: string;
 }
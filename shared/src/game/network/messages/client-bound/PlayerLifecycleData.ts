@@ -0,0 +1,55 @@
+import { Position } from '../../../Position';
+import { PlayerDamageSource } from './PlayerDamageData';
+import { ScoreUpdateData } from './ScoreData';
+
+export interface PlayerDownedData {
+   username: string;
+   position: Position;
+   bleedOutAt: number; // Absolute server timestamp when the player dies unless revived
+   downedBy: PlayerDamageSource | null;
+}
+
+/**
+ * Sent while a teammate is reviving a downed player, and once more with a null reviver when they step away
+ */
+export interface PlayerReviveProgressData {
+   username: string;
+   reviverUsername: string | null;
+   progress: number; // 0-1
+}
+
+export interface PlayerRevivedData {
+   username: string;
+   reviverUsername: string;
+   health: number;
+}
+
+export interface PlayerDiedData {
+   username: string;
+   position: Position;
+}
+
+/**
+ * Sent for every player when a new run starts in the same game
+ */
+export interface PlayerRespawnData {
+   username: string;
+   position: Position;
+   health: number;
+}
+
+export interface PlayerRunStats {
+   username: string;
+   displayName: string;
+   downs: number;
+   revives: number;
+   survivedMs: number;
+}
+
+export interface GameOverData {
+   wavesReached: number;
+   durationMs: number;
+   players: PlayerRunStats[];
+   scoreboard: ScoreUpdateData;
+   restartAt: number | null; // Absolute server timestamp of the next run, null when no new run will start
+}
@@ -1,3 +1,5 @@
+import { SnapshotHeader } from './SnapshotData';
+
 export interface PlayerMovementState {
    username: string;
    position: { x: number; y: number };
@@ -20,3 +22,12 @@ export interface PlayerMovementState {
 
    receivedAtClient?: number;
 }
+
+/**
+ * Movement states of the players that moved since the client's baseline, each one complete
+ */
+export interface PlayerSnapshotData extends SnapshotHeader {
+   players: PlayerMovementState[];
+   /** Server time of the tick the snapshot was taken at */
+   timestamp: number;
+}
@@ -0,0 +1,7 @@
+/**
+ * Other players the receiving client gets movement updates for. Anyone not listed is outside the client's
+ * area of interest and should not be drawn, their last known position goes stale.
+ */
+export interface PlayersInViewData {
+   usernames: string[];
+}
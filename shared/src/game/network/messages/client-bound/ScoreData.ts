@@ -0,0 +1,23 @@
+import { EnemyType } from '../../../enemies/EnemyInterfaces';
+
+export interface PlayerScoreStats {
+   username: string;
+   displayName: string;
+   score: number;
+   kills: number;
+   killsByEnemyType: Partial<Record<EnemyType, number>>;
+   assists: number;
+   damageDealt: number;
+   shotsFired: number;
+   shotsHit: number; // Shots that damaged at least one enemy, however many pellets hit
+   deaths: number;
+   revives: number;
+}
+
+/**
+ * Scoreboard of the current run, sent every few ticks while it changes and once more with the game over
+ */
+export interface ScoreUpdateData {
+   teamScore: number;
+   players: PlayerScoreStats[];
+}
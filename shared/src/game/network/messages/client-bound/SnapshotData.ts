@@ -0,0 +1,24 @@
+/**
+ * Baseline tick of a snapshot that is not a delta, the client gets the full state
+ */
+export const NO_BASELINE_TICK = -1;
+
+/**
+ * Stateful streams the server sends to each client as deltas against the last snapshot that client acknowledged
+ */
+export enum SnapshotStream {
+   Players = 'players',
+   Enemies = 'enemies',
+   Guns = 'guns',
+}
+
+export interface SnapshotHeader {
+   /** Server tick the snapshot was taken at, the client acknowledges this once it is applied */
+   tick: number;
+
+   /**
+    * Tick of the acknowledged snapshot this one is a delta against, or {@link NO_BASELINE_TICK}.
+    * Anything left out is unchanged since the baseline.
+    */
+   baselineTick: number;
+}
@@ -0,0 +1,12 @@
+import { StatusEffectState } from '../../../status-effects/StatusEffectTypes';
+
+/**
+ * Every effect currently on an enemy or player, sent to the clients that can see it whenever one starts, stacks or
+ * runs out. An empty list clears the target
+ */
+export interface StatusEffectsData {
+   targetType: 'enemy' | 'player';
+   /** Enemy id or player username */
+   targetId: string;
+   effects: StatusEffectState[];
+}
@@ -0,0 +1,23 @@
+import { EnemyType } from '../../../enemies/EnemyInterfaces';
+
+/**
+ * Announces the next wave during the break before it
+ */
+export interface WaveIncomingData {
+   waveNumber: number;
+   startsAt: number; // Absolute server timestamp when the wave starts, used for the countdown
+   enemyCount: number;
+   bossTypes: EnemyType[];
+}
+
+export interface WaveStartData {
+   waveNumber: number;
+   enemyCount: number;
+   enemyLevel: number;
+}
+
+export interface WaveClearedData {
+   waveNumber: number;
+   durationMs: number;
+   nextWaveAt: number; // Absolute server timestamp when the next wave starts
+}
@@ -0,0 +1,5 @@
+import { PlayerTypeEnum } from '../../../PlayerTypes';
+
+export interface SelectClassRequest {
+   playerType: PlayerTypeEnum;
+}
@@ -0,0 +1,6 @@
+import { SnapshotStream } from '../client-bound/SnapshotData';
+
+export interface SnapshotAck {
+   stream: SnapshotStream;
+   tick: number;
+}
@@ -0,0 +1,93 @@
+// shared/src/game/replay/MatchReplay.ts
+import { EnemyType } from '../enemies/EnemyInterfaces';
+import { ClientBound, ServerBound } from '../network/SocketEvents';
+import { Position } from '../Position';
+
+/**
+ * Bumped whenever a change to the simulation or to these types makes older recordings replay differently
+ */
+export const REPLAY_FORMAT_VERSION = 1;
+
+export enum ReplayEntryType {
+   Message = 'message',
+   RunStart = 'runStart',
+   EnemySpawn = 'enemySpawn',
+   Checksum = 'checksum',
+   RunEnd = 'runEnd',
+}
+
+/**
+ * A message from a client, stored with the tick the server received it on
+ */
+export interface ReplayMessageEntry {
+   type: ReplayEntryType.Message;
+   tick: number;
+   eventType: ServerBound;
+   data: unknown;
+}
+
+export interface ReplayRunStartEntry {
+   type: ReplayEntryType.RunStart;
+   tick: number;
+   startTime: number;
+}
+
+export interface ReplayEnemySpawnEntry {
+   type: ReplayEntryType.EnemySpawn;
+   tick: number;
+   enemyId: string;
+   enemyType: EnemyType;
+   level: number;
+   position: Position;
+}
+
+/**
+ * Hash of the game state at the end of a tick, compared while replaying to find where it diverged
+ */
+export interface ReplayChecksumEntry {
+   type: ReplayEntryType.Checksum;
+   tick: number;
+   hash: string;
+}
+
+export interface ReplayRunEndEntry {
+   type: ReplayEntryType.RunEnd;
+   tick: number;
+   hash: string;
+}
+
+export type ReplayEntry =
+   ReplayMessageEntry | ReplayRunStartEntry | ReplayEnemySpawnEntry | ReplayChecksumEntry | ReplayRunEndEntry;
+
+/**
+ * Everything needed to simulate a match again: the seeds the game was created with and every input it got,
+ * in the order it got them. Spawns and checksums are only there to verify the result.
+ */
+export interface MatchReplay {
+   version: number;
+   gameId: string;
+   mapSeed: string;
+   randomSeed: number;
+   minPlayers: number;
+   maxPlayers: number;
+   recordedAt: number;
+   entries: ReplayEntry[];
+}
+
+export interface ReplayViewMessage {
+   tick: number;
+   /** Game time the server sent the message at */
+   time: number;
+   eventType: ClientBound;
+   data: unknown;
+}
+
+/**
+ * What one player's client received during a replayed match, enough to watch it back from their view
+ */
+export interface MatchReplayView {
+   version: number;
+   gameId: string;
+   viewer: string;
+   messages: ReplayViewMessage[];
+}
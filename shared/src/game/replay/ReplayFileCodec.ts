@@ -0,0 +1,25 @@
+// shared/src/game/replay/ReplayFileCodec.ts
+import { gunzipSync, gzipSync } from 'fflate';
+import { MatchReplay, MatchReplayView, REPLAY_FORMAT_VERSION } from './MatchReplay';
+
+/**
+ * Replays and replay views are stored as gzipped JSON, recordings are mostly repeated message keys
+ */
+export class ReplayFileCodec {
+   public static encode(replay: MatchReplay | MatchReplayView): Uint8Array {
+      return gzipSync(new TextEncoder().encode(JSON.stringify(replay)), { level: 9 });
+   }
+
+   /**
+    * @throws Error if the file was recorded with another replay format version
+    */
+   public static decode<T extends MatchReplay | MatchReplayView>(bytes: Uint8Array): T {
+      const replay = JSON.parse(new TextDecoder().decode(gunzipSync(bytes))) as T;
+
+      if (replay.version !== REPLAY_FORMAT_VERSION) {
+         throw new Error(`Replay format version ${replay.version} is not supported, expected ${REPLAY_FORMAT_VERSION}`);
+      }
+
+      return replay;
+   }
+}
@@ -5,6 +5,7 @@ import { Damageable, isArmorProvider, isDamageable } from '../Interfaces';
 import { GunConfig } from './GunTypes';
 import { ProjectileHit } from './ProjectileHit';
 import { EnemyDamageEvent } from '../network/messages/client-bound/DamageEvents';
+import type { World } from '@dimforge/rapier2d-compat';
 
 export interface DamageCalculationParams {
    baseDamage: number;
@@ -24,7 +25,8 @@ export interface DamageResult {
 }
 
 export class DamageService {
-   private static damageEvents: EnemyDamageEvent[] = [];
+   // Kept apart by the physics world the target lives in, every game in the process has its own
+   private static damageEvents: WeakMap<World, EnemyDamageEvent[]> = new WeakMap();
 
    // ==================== SIMPLE DAMAGE APPLICATION ====================
 
@@ -51,6 +53,7 @@ export class DamageService {
       distance: number,
       position: { x: number; y: number },
       currentPenetration?: number,
+      source?: unknown,
    ): DamageResult | null {
       if (!entity || !this.isDamageable(entity)) {
          return null;
@@ -73,10 +76,10 @@ export class DamageService {
 
       // Apply the calculated damage
       if (damageResult.finalDamage > 0) {
-         damageable.takeDamage(damageResult.finalDamage);
+         damageable.takeDamage(damageResult.finalDamage, source);
 
          // Record damage event for client synchronization
-         this.recordDamageEvent({
+         this.recordDamageEvent(entity, {
             targetId: entity.id,
             damage: damageResult.finalDamage,
             position,
@@ -90,6 +93,54 @@ export class DamageService {
       return damageResult;
    }
 
+   /**
+    * Apply blast damage to an entity, falling off linearly from the center to the edge of the blast and
+    * reduced by the entity's armor against the explosive's penetration
+    * @param edgeDamage Fraction of the damage left at the edge of the blast
+    * @param source Who set off the blast, passed on to the entity
+    * @returns Damage dealt, 0 if the entity can't take damage
+    */
+   public static applyExplosionDamage(
+      entity: Entity | null,
+      baseDamage: number,
+      distance: number,
+      radius: number,
+      edgeDamage: number,
+      penetration: number,
+      sourceType: string,
+      source?: unknown,
+   ): number {
+      if (!entity || !this.isDamageable(entity) || distance > radius) {
+         return 0;
+      }
+
+      const distanceMultiplier = 1 - (1 - edgeDamage) * (radius > 0 ? distance / radius : 0);
+      const distanceReducedDamage = baseDamage * distanceMultiplier;
+      const armorMultiplier = Math.min(1, this.calculateArmorReduction(penetration, this.getEntityArmor(entity)));
+      const finalDamage = Math.floor(distanceReducedDamage * armorMultiplier);
+
+      if (finalDamage <= 0) {
+         return 0;
+      }
+
+      // Read before the hit, a killed entity may lose its body right away
+      const position = { ...entity.position };
+      const damageable = entity as unknown as Damageable;
+      damageable.takeDamage(finalDamage, source);
+
+      this.recordDamageEvent(entity, {
+         targetId: entity.id,
+         damage: finalDamage,
+         position,
+         armorReduction: distanceReducedDamage - finalDamage,
+         distanceReduction: baseDamage - distanceReducedDamage,
+         sourceGunType: sourceType,
+         timestamp: Date.now(),
+      });
+
+      return finalDamage;
+   }
+
    /**
     * Calculate final damage after all reductions
     */
@@ -128,11 +179,15 @@ export class DamageService {
       };
    }
 
+   /**
+    * @param source Who fired the shot, passed on to every entity it damages
+    */
    public static processHitsWithPenetration(
       hits: ProjectileHit[],
       baseDamage: number,
       gunConfig: GunConfig,
       initialPenetration: number,
+      source?: unknown,
    ): ProjectileHit[] {
       const processedHits: ProjectileHit[] = [];
 
@@ -141,10 +196,10 @@ export class DamageService {
 
       if (isShotgun) {
          // SHOTGUN: Simple processing - each pellet stops at first enemy
-         processedHits.push(...this.processShotgunHits(hits, baseDamage, gunConfig, initialPenetration));
+         processedHits.push(...this.processShotgunHits(hits, baseDamage, gunConfig, initialPenetration, source));
       } else {
          // NON-SHOTGUN: Use penetration logic for single bullets
-         processedHits.push(...this.processPenetratingBullet(hits, baseDamage, gunConfig, initialPenetration));
+         processedHits.push(...this.processPenetratingBullet(hits, baseDamage, gunConfig, initialPenetration, source));
       }
 
       return processedHits;
@@ -155,6 +210,7 @@ export class DamageService {
       baseDamage: number,
       gunConfig: GunConfig,
       initialPenetration: number,
+      source?: unknown,
    ): ProjectileHit[] {
       const processedHits: ProjectileHit[] = [];
       const damagePerEnemy = new Map<string, { totalDamage: number; hits: ProjectileHit[] }>();
@@ -207,9 +263,9 @@ export class DamageService {
 
          if (this.isDamageable(entity) && enemyData.totalDamage > 0) {
             const damageable = entity as unknown as Damageable;
-            damageable.takeDamage(enemyData.totalDamage);
+            damageable.takeDamage(enemyData.totalDamage, source);
 
-            this.recordDamageEvent({
+            this.recordDamageEvent(entity, {
                targetId: entityId,
                damage: enemyData.totalDamage,
                position: enemyData.hits[0].position,
@@ -231,6 +287,7 @@ export class DamageService {
       baseDamage: number,
       gunConfig: GunConfig,
       initialPenetration: number,
+      source?: unknown,
    ): ProjectileHit[] {
       const processedHits: ProjectileHit[] = [];
 
@@ -267,6 +324,7 @@ export class DamageService {
             hit.distance,
             hit.position,
             currentPenetration,
+            source,
          );
 
          if (damageResult) {
@@ -391,17 +449,38 @@ export class DamageService {
 
    /**
     * Get recent damage events for network synchronization
+    * @param world Physics world of the game the events are for
     */
-   public static getRecentDamageEvents(): EnemyDamageEvent[] {
-      const events = [...this.damageEvents];
-      this.damageEvents = []; // Clear events after retrieving
+   public static getRecentDamageEvents(world: World): EnemyDamageEvent[] {
+      const events = this.damageEvents.get(world) ?? [];
+      this.damageEvents.delete(world); // Clear events after retrieving
       return events;
    }
 
+   /**
+    * Record damage dealt over time by a status effect, so clients see it like a hit
+    */
+   public static recordStatusDamage(target: Entity, damage: number, effectType: string): void {
+      this.recordDamageEvent(target, {
+         targetId: target.id,
+         damage,
+         position: { ...target.position },
+         armorReduction: 0,
+         distanceReduction: 0,
+         sourceGunType: effectType,
+         timestamp: Date.now(),
+      });
+   }
+
    /**
     * Record a damage event for client synchronization
     */
-   private static recordDamageEvent(event: EnemyDamageEvent): void {
-      this.damageEvents.push(event);
+   private static recordDamageEvent(target: Entity, event: EnemyDamageEvent): void {
+      const events = this.damageEvents.get(target.world);
+      if (events) {
+         events.push(event);
+      } else {
+         this.damageEvents.set(target.world, [event]);
+      }
    }
 }
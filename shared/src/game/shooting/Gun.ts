@@ -10,6 +10,9 @@ import { ProjectileHit } from './ProjectileHit';
 import { BaseGame } from '../BaseGame';
 import { DamageService } from './DamageService';
 import { TaskPriority } from '../../util/TaskScheduler';
+import { GunStateSync } from '../network/messages/ReloadMessages';
+
+export type PelletRayHit = Pick<RAPIER.RayColliderIntersection, 'collider' | 'timeOfImpact' | 'normal'>;
 
 export abstract class Gun {
    protected game: BaseGame;
@@ -151,47 +154,36 @@ export abstract class Gun {
       const maxRangePhysics = pixelToPhysics(this.gunConfig.damageRanges.maxRange);
       const unsortedHits: ProjectileHit[] = [];
 
-      const shooterRigidBody = this.player.body;
-
       const isShotgun = (this.gunConfig.pelletCount || 1) > 1;
 
       // Collect all intersections for this pellet
-      this.world.intersectionsWithRay(
-         ray,
-         maxRangePhysics,
-         false,
-         (hit) => {
-            const hitPoint = ray.pointAt(hit.timeOfImpact);
-            const distance = physicsToPixel(hit.timeOfImpact);
-
-            // Only include hits within effective range
-            if (DamageService.isWithinRange(distance, this.gunConfig)) {
-               // Get the actual game entity from EntityManager
-               const entity = this.game.getEntityManager().getEntityByCollider(hit.collider.handle);
-
-               const projectileHit: ProjectileHit = {
-                  position: {
-                     x: physicsToPixel(hitPoint.x),
-                     y: physicsToPixel(hitPoint.y),
-                  },
-                  normal: hit.normal,
-                  distance,
-                  timeOfImpact: hit.timeOfImpact,
-                  entity, // Now properly resolved game entity
-                  colliderHandle: hit.collider.handle,
-                  penetrationLeft: this.penetration,
-               };
-
-               unsortedHits.push(projectileHit);
-            }
+      this.castPelletRay(ray, maxRangePhysics, (hit) => {
+         const hitPoint = ray.pointAt(hit.timeOfImpact);
+         const distance = physicsToPixel(hit.timeOfImpact);
+
+         // Only include hits within effective range
+         if (DamageService.isWithinRange(distance, this.gunConfig)) {
+            // Get the actual game entity from EntityManager
+            const entity = this.game.getEntityManager().getEntityByCollider(hit.collider.handle);
+
+            const projectileHit: ProjectileHit = {
+               position: {
+                  x: physicsToPixel(hitPoint.x),
+                  y: physicsToPixel(hitPoint.y),
+               },
+               normal: hit.normal,
+               distance,
+               timeOfImpact: hit.timeOfImpact,
+               entity, // Now properly resolved game entity
+               colliderHandle: hit.collider.handle,
+               penetrationLeft: this.penetration,
+            };
+
+            unsortedHits.push(projectileHit);
+         }
 
-            return true;
-         },
-         undefined,
-         undefined,
-         undefined,
-         shooterRigidBody,
-      );
+         return true;
+      });
 
       // Sort hits by distance
       const sortedHits = unsortedHits.sort((a, b) => a.timeOfImpact - b.timeOfImpact);
@@ -206,6 +198,14 @@ export abstract class Gun {
       return this.processHitsForPenetration(sortedHits);
    }
 
+   /**
+    * Report every collider the pellet ray passes through, except the shooter's own body.
+    * The server overrides this to test targets where the shooter saw them.
+    */
+   protected castPelletRay(ray: RAPIER.Ray, maxToi: number, callback: (hit: PelletRayHit) => boolean): void {
+      this.world.intersectionsWithRay(ray, maxToi, false, callback, undefined, undefined, undefined, this.player.body);
+   }
+
    protected processHitsForPenetration(sortedHits: ProjectileHit[]): ProjectileHit[] {
       const finalHits: ProjectileHit[] = [];
       let penetrationPowerLeft = this.penetration;
@@ -530,4 +530,19 @@ export abstract class Gun {
    public setCurrentAmmo(ammo: number): void {
       this.currentAmmo = Math.max(0, Math.min(ammo, this.magazineSize));
    }
+
+   /**
+    * Ammo and reload state as replicated to clients
+    */
+   public getStateSync(): GunStateSync {
+      return {
+         username: this.player.username,
+         gunId: this.id,
+         currentAmmo: this.currentAmmo,
+         isReloading: this.reloading,
+         reloadStartTick: this.reloading ? this.reloadStartTick : undefined,
+         reloadDurationTicks: this.reloading ? this.reloadDurationTicks : undefined,
+         lastShotTick: this.lastShotTick,
+      };
+   }
 }
@@ -1,4 +1,5 @@
 import { AnimationCurveType } from '../animation/AnimationCurves';
+import { StatusEffectApplication, StatusEffectType } from '../status-effects/StatusEffectTypes';
 
 export enum GunType {
    PISTOL = 'pistol',
@@ -24,6 +25,7 @@ export type GunConfig = {
    bulletHeight: number;
    pelletCount?: number;
    bulletVisual: BulletVisualConfig;
+   statusEffect?: StatusEffectApplication; // Inflicted once per shot on every enemy it damages, knockbacks push away from the shooter
 
    damageRanges: {
       fullDamage: number; // Distance up to which gun deals full damage (pixels)
@@ -122,6 +124,11 @@ export const GUN_CONFIGS: { [key: string]: GunConfig } = {
          duration: 80, // Very fast for sniper
          animationCurve: 'easeOutCubic', // Smooth but fast
       },
+      statusEffect: {
+         type: StatusEffectType.STUN,
+         durationMs: 600,
+         magnitude: 1,
+      },
    },
    [GunType.SHOTGUN]: {
       damage: 4,
@@ -150,5 +157,10 @@ export const GUN_CONFIGS: { [key: string]: GunConfig } = {
          duration: 250, // Slower for shotgun
          animationCurve: 'easeInOutQuart', // More dramatic curve
       },
+      statusEffect: {
+         type: StatusEffectType.KNOCKBACK,
+         durationMs: 0,
+         magnitude: 250,
+      },
    },
 };
@@ -0,0 +1,154 @@
+// shared/src/game/status-effects/StatusEffectController.ts
+
+import { MathUtil } from '../../util/MathUtil';
+import { MAX_SLOW, STATUS_EFFECT_DEFINITIONS } from './StatusEffectDefinitions';
+import { IStatusEffectHost, StatusEffectApplication, StatusEffectState, StatusEffectType } from './StatusEffectTypes';
+
+interface ActiveStatusEffect {
+   type: StatusEffectType;
+   stacks: number;
+   magnitude: number;
+   expiresAt: number;
+   nextTickAt: number;
+}
+
+/**
+ * Timed, stackable status effects on one entity. The server applies and ticks them on simulation time, clients
+ * mirror the replicated state to predict slowed movement and to show who is affected.
+ */
+export class StatusEffectController {
+   private effects: Map<StatusEffectType, ActiveStatusEffect> = new Map();
+   private changeListener: (() => void) | null = null;
+
+   constructor(private readonly host: IStatusEffectHost) {}
+
+   /**
+    * Called whenever an effect starts, stacks or runs out
+    */
+   public setChangeListener(listener: () => void): void {
+      this.changeListener = listener;
+   }
+
+   /**
+    * Apply an effect after the host's resistance. Applying an active effect again adds a stack, keeps the
+    * stronger magnitude and extends it to the longer of the two durations
+    * @returns Whether the effect took hold, false when the host is immune
+    */
+   public apply(application: StatusEffectApplication, now: number): boolean {
+      const definition = STATUS_EFFECT_DEFINITIONS[application.type];
+      const resistance = MathUtil.clamp(this.host.getStatusResistance(application.type), 0, 1);
+      if (resistance >= 1) return false;
+
+      const resisted: StatusEffectApplication = {
+         ...application,
+         durationMs:
+            definition.resistedBy === 'duration' ? application.durationMs * (1 - resistance) : application.durationMs,
+         magnitude:
+            definition.resistedBy === 'magnitude' ? application.magnitude * (1 - resistance) : application.magnitude,
+      };
+
+      definition.onApply?.(this.host, resisted);
+
+      if (resisted.durationMs <= 0) return true;
+
+      const existing = this.effects.get(application.type);
+      if (existing) {
+         existing.stacks = Math.min(definition.maxStacks, existing.stacks + 1);
+         existing.magnitude = Math.max(existing.magnitude, resisted.magnitude);
+         existing.expiresAt = Math.max(existing.expiresAt, now + resisted.durationMs);
+      } else {
+         this.effects.set(application.type, {
+            type: application.type,
+            stacks: 1,
+            magnitude: resisted.magnitude,
+            expiresAt: now + resisted.durationMs,
+            nextTickAt: now + definition.tickIntervalMs,
+         });
+      }
+
+      this.changeListener?.();
+      return true;
+   }
+
+   /**
+    * Run the ticks that are due and drop expired effects
+    */
+   public update(now: number): void {
+      let changed = false;
+
+      for (const effect of Array.from(this.effects.values())) {
+         const definition = STATUS_EFFECT_DEFINITIONS[effect.type];
+
+         if (definition.onTick && definition.tickIntervalMs > 0) {
+            while (effect.nextTickAt <= now && effect.nextTickAt <= effect.expiresAt) {
+               definition.onTick(this.host, effect.stacks, effect.magnitude, definition.tickIntervalMs / 1000);
+               effect.nextTickAt += definition.tickIntervalMs;
+            }
+         }
+
+         if (now >= effect.expiresAt) {
+            this.effects.delete(effect.type);
+            changed = true;
+         }
+      }
+
+      if (changed) {
+         this.changeListener?.();
+      }
+   }
+
+   /**
+    * Multiplier for movement speed, 0 while stunned
+    */
+   public getSpeedMultiplier(): number {
+      if (this.effects.has(StatusEffectType.STUN)) return 0;
+
+      const slow = this.effects.get(StatusEffectType.SLOW);
+      if (!slow) return 1;
+
+      return 1 - Math.min(MAX_SLOW, slow.magnitude * slow.stacks);
+   }
+
+   public isStunned(): boolean {
+      return this.effects.has(StatusEffectType.STUN);
+   }
+
+   public has(type: StatusEffectType): boolean {
+      return this.effects.has(type);
+   }
+
+   public getStates(now: number): StatusEffectState[] {
+      return Array.from(this.effects.values()).map((effect) => ({
+         type: effect.type,
+         stacks: effect.stacks,
+         magnitude: effect.magnitude,
+         remainingMs: Math.max(0, effect.expiresAt - now),
+      }));
+   }
+
+   /**
+    * Take over the state the server replicated, timed against the local clock
+    */
+   public setStates(states: StatusEffectState[], now: number): void {
+      this.effects.clear();
+
+      for (const state of states) {
+         this.effects.set(state.type, {
+            type: state.type,
+            stacks: state.stacks,
+            magnitude: state.magnitude,
+            expiresAt: now + state.remainingMs,
+            nextTickAt: Infinity,
+         });
+      }
+
+      this.changeListener?.();
+   }
+
+   public clear(): void {
+      if (this.effects.size === 0) return;
+
+      this.effects.clear();
+      this.changeListener?.();
+   }
+}
@@ -0,0 +1,57 @@
+// shared/src/game/status-effects/StatusEffectDefinitions.ts
+
+import { IStatusEffectHost, StatusEffectApplication, StatusEffectType } from './StatusEffectTypes';
+
+/**
+ * How an effect type stacks, what resistance weakens and what it does while active
+ */
+export interface StatusEffectDefinition {
+   maxStacks: number;
+   /** Resistance shortens the effect or weakens it */
+   resistedBy: 'duration' | 'magnitude';
+   /** Milliseconds between ticks, 0 for effects that do nothing over time */
+   tickIntervalMs: number;
+
+   onApply?(host: IStatusEffectHost, application: StatusEffectApplication): void;
+   onTick?(host: IStatusEffectHost, stacks: number, magnitude: number, intervalSeconds: number): void;
+}
+
+export const STATUS_EFFECT_DEFINITIONS: Record<StatusEffectType, StatusEffectDefinition> = {
+   [StatusEffectType.SLOW]: {
+      maxStacks: 3,
+      resistedBy: 'magnitude',
+      tickIntervalMs: 0,
+   },
+
+   [StatusEffectType.STUN]: {
+      maxStacks: 1,
+      resistedBy: 'duration',
+      tickIntervalMs: 0,
+   },
+
+   [StatusEffectType.POISON]: {
+      maxStacks: 5,
+      resistedBy: 'magnitude',
+      tickIntervalMs: 500,
+      onTick: (host, stacks, magnitude, intervalSeconds) => {
+         host.takeStatusDamage(magnitude * stacks * intervalSeconds, StatusEffectType.POISON);
+      },
+   },
+
+   [StatusEffectType.KNOCKBACK]: {
+      maxStacks: 1,
+      resistedBy: 'magnitude',
+      tickIntervalMs: 0,
+      onApply: (host, application) => {
+         if (!application.direction) return;
+
+         host.applyKnockback({
+            x: application.direction.x * application.magnitude,
+            y: application.direction.y * application.magnitude,
+         });
+      },
+   },
+};
+
+/** Slows never take away more than this fraction of movement speed, however many stack */
+export const MAX_SLOW = 0.8;
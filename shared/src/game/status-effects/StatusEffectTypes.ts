@@ -0,0 +1,54 @@
+// shared/src/game/status-effects/StatusEffectTypes.ts
+
+export enum StatusEffectType {
+   SLOW = 'slow',
+   STUN = 'stun',
+   POISON = 'poison',
+   KNOCKBACK = 'knockback',
+}
+
+/**
+ * An effect inflicted by a weapon or ability, before the target's resistance is applied
+ */
+export interface StatusEffectApplication {
+   type: StatusEffectType;
+   /** 0 applies the effect once and does not keep it, like a knockback */
+   durationMs: number;
+   /**
+    * Strength per stack. Slow: fraction of movement speed taken away, poison: damage per second,
+    * knockback: push speed in pixels per second, stun: unused
+    */
+   magnitude: number;
+   /** Unit vector a knockback pushes along, away from whatever inflicted it */
+   direction?: { x: number; y: number };
+}
+
+/**
+ * One active effect as clients see it
+ */
+export interface StatusEffectState {
+   type: StatusEffectType;
+   stacks: number;
+   magnitude: number;
+   remainingMs: number;
+}
+
+/**
+ * Anything status effects can be applied to
+ */
+export interface IStatusEffectHost {
+   /**
+    * 0 takes the full effect, 1 is immune
+    */
+   getStatusResistance(type: StatusEffectType): number;
+
+   /**
+    * Damage dealt by an effect over time
+    */
+   takeStatusDamage(amount: number, type: StatusEffectType): void;
+
+   /**
+    * Push the host by adding a velocity in pixels per second
+    */
+   applyKnockback(velocity: { x: number; y: number }): void;
+}
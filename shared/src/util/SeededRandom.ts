@@ -0,0 +1,41 @@
+// shared/src/util/SeededRandom.ts
+import { v4 } from 'uuid';
+import { MathUtil } from './MathUtil';
+
+const UUID_BYTES = 16;
+
+/**
+ * Deterministic random number generator, the same seed always produces the same sequence
+ */
+export class SeededRandom {
+   private readonly generator: () => number;
+
+   constructor(public readonly seed: number) {
+      this.generator = MathUtil.mulberry32(seed);
+   }
+
+   /**
+    * Random number in [0, 1)
+    */
+   public next(): number {
+      return this.generator();
+   }
+
+   /**
+    * Version 4 UUID built from the generator rather than the system's entropy
+    */
+   public uuid(): string {
+      const bytes = new Uint8Array(UUID_BYTES);
+      for (let i = 0; i < UUID_BYTES; i++) {
+         bytes[i] = Math.floor(this.generator() * 256);
+      }
+      return v4({ random: bytes });
+   }
+
+   /**
+    * Seed for a new generator, taken from the system's entropy
+    */
+   public static createSeed(): number {
+      return Math.floor(Math.random() * 0xffffffff);
+   }
+}